@@ -0,0 +1,279 @@
+import { DeltaSync, SyncStatus } from '@/database/DeltaSync';
+import { MessageQueue } from '@/database/MessageQueue';
+import { SQLiteService } from '@/database/SQLiteService';
+import { MessageService } from '@/services/firebase/MessageService';
+import { Message, MessageRow } from '@/shared/types';
+
+// Mock dependencies
+jest.mock('@/database/SQLiteService');
+jest.mock('@/database/MessageQueue', () => ({
+  MessageQueue: {
+    applyPendingOperations: jest.fn((messages) => messages),
+  },
+}));
+jest.mock('@/services/firebase/MessageService', () => ({
+  MessageService: {
+    backfillMessageChanges: jest.fn(),
+    getMessageChanges: jest.fn(),
+    getMessagesBefore: jest.fn(),
+  },
+}));
+
+describe('DeltaSync', () => {
+  // DeltaSync caches cursors per chat, so every test uses its own chats
+  let nextChat = 0;
+  let chatId: string;
+
+  const message = (id: string, fields: Partial<Message> = {}): Message => ({
+    id,
+    chatId,
+    senderId: 'user-2',
+    text: `Message ${id}`,
+    timestamp: 1000,
+    status: 'delivered',
+    type: 'text',
+    reactions: {},
+    syncStatus: 'synced',
+    ...fields,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chatId = `chat-${++nextChat}`;
+    (SQLiteService.getSyncCursor as jest.Mock).mockResolvedValue(null);
+    (SQLiteService.getMessageById as jest.Mock).mockResolvedValue(null);
+    (SQLiteService.getChats as jest.Mock).mockResolvedValue([]);
+    (MessageService.backfillMessageChanges as jest.Mock).mockResolvedValue(undefined);
+    (MessageService.getMessageChanges as jest.Mock).mockResolvedValue({ messages: [], cursor: null, hasMore: false });
+    (MessageService.getMessagesBefore as jest.Mock).mockResolvedValue([]);
+    (MessageQueue.applyPendingOperations as jest.Mock).mockImplementation((messages) => messages);
+  });
+
+  describe('syncChat', () => {
+    it('should pull every change of a chat that was never synced', async () => {
+      const changed = [message('msg-1'), message('msg-2')];
+      (MessageService.getMessageChanges as jest.Mock).mockResolvedValueOnce({
+        messages: changed,
+        cursor: { updatedAt: 2000, messageId: 'msg-2' },
+        hasMore: false,
+      });
+
+      const result = await DeltaSync.syncChat(chatId);
+
+      expect(MessageService.backfillMessageChanges).toHaveBeenCalledWith(chatId);
+      expect(MessageService.getMessageChanges).toHaveBeenCalledWith(chatId, null, 100);
+      expect(result.map(m => m.id)).toEqual(['msg-1', 'msg-2']);
+      expect(SQLiteService.saveMessage).toHaveBeenCalledTimes(2);
+      expect(SQLiteService.saveSyncCursor).toHaveBeenCalledWith(expect.objectContaining({
+        chatId,
+        lastSyncedAt: 2000,
+        lastMessageId: 'msg-2',
+      }));
+    });
+
+    it('should only pull changes after the stored cursor, page by page', async () => {
+      (SQLiteService.getSyncCursor as jest.Mock).mockResolvedValue({
+        chatId,
+        lastSyncedAt: 5000,
+        lastMessageId: 'msg-5',
+        oldestTimestamp: null,
+        historyComplete: false,
+      });
+      (MessageService.getMessageChanges as jest.Mock)
+        .mockResolvedValueOnce({ messages: [message('msg-6')], cursor: { updatedAt: 6000, messageId: 'msg-6' }, hasMore: true })
+        .mockResolvedValueOnce({ messages: [message('msg-7')], cursor: { updatedAt: 7000, messageId: 'msg-7' }, hasMore: false });
+
+      await DeltaSync.syncChat(chatId);
+
+      expect(MessageService.getMessageChanges).toHaveBeenNthCalledWith(1, chatId, { updatedAt: 5000, messageId: 'msg-5' }, 100);
+      expect(MessageService.getMessageChanges).toHaveBeenNthCalledWith(2, chatId, { updatedAt: 6000, messageId: 'msg-6' }, 100);
+      expect(MessageService.getMessageChanges).toHaveBeenCalledTimes(2);
+      expect(MessageService.backfillMessageChanges).not.toHaveBeenCalled();
+      expect(SQLiteService.saveSyncCursor).toHaveBeenLastCalledWith(expect.objectContaining({
+        lastSyncedAt: 7000,
+        lastMessageId: 'msg-7',
+      }));
+    });
+
+    it('should still sync when the legacy backfill fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (MessageService.backfillMessageChanges as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+      (MessageService.getMessageChanges as jest.Mock).mockResolvedValueOnce({
+        messages: [message('msg-1')],
+        cursor: { updatedAt: 1000, messageId: 'msg-1' },
+        hasMore: false,
+      });
+
+      const result = await DeltaSync.syncChat(chatId);
+
+      expect(result.map(m => m.id)).toEqual(['msg-1']);
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it('should keep local translations and deletions unless the text was edited', async () => {
+      const existing = (id: string, text: string): Partial<MessageRow> => ({
+        id,
+        text,
+        translations: JSON.stringify({ es: { text: 'Hola' } }),
+        detectedLanguage: 'en',
+        deletedForMe: 1,
+      });
+      (SQLiteService.getMessageById as jest.Mock).mockImplementation((id: string) => Promise.resolve(
+        id === 'msg-1' ? existing('msg-1', 'Message msg-1') : existing('msg-2', 'Old text')
+      ));
+      (MessageService.getMessageChanges as jest.Mock).mockResolvedValueOnce({
+        messages: [
+          message('msg-1', { reactions: { '👍': ['user-1'] } }),
+          message('msg-2', { editedAt: 1500, translations: { fr: { text: 'Salut' } } }),
+        ],
+        cursor: { updatedAt: 2000, messageId: 'msg-2' },
+        hasMore: false,
+      });
+
+      const [reacted, edited] = await DeltaSync.syncChat(chatId);
+
+      expect(reacted.translations).toEqual({ es: { text: 'Hola' } });
+      expect(edited.translations).toEqual({ fr: { text: 'Salut' } });
+      const rows = (SQLiteService.saveMessage as jest.Mock).mock.calls.map(([row]) => row);
+      expect(rows[0]).toEqual(expect.objectContaining({ detectedLanguage: 'en', deletedForMe: 1, reactions: JSON.stringify({ '👍': ['user-1'] }) }));
+      expect(rows[1]).toEqual(expect.objectContaining({ text: 'Message msg-2', detectedLanguage: null, deletedForMe: 1 }));
+    });
+
+    it('should re-apply changes still waiting in the MessageQueue', async () => {
+      (MessageQueue.applyPendingOperations as jest.Mock).mockImplementation((messages: Message[]) =>
+        messages.map(m => ({ ...m, reactions: { '❤️': ['user-1'] } }))
+      );
+      (MessageService.getMessageChanges as jest.Mock).mockResolvedValueOnce({
+        messages: [message('msg-1')],
+        cursor: { updatedAt: 2000, messageId: 'msg-1' },
+        hasMore: false,
+      });
+
+      const [synced] = await DeltaSync.syncChat(chatId);
+
+      expect(synced.reactions).toEqual({ '❤️': ['user-1'] });
+    });
+
+    it('should notify listeners of the changed messages', async () => {
+      const listener = jest.fn();
+      const unsubscribe = DeltaSync.onMessagesSynced(listener);
+      (MessageService.getMessageChanges as jest.Mock).mockResolvedValueOnce({
+        messages: [message('msg-1', { deletedForEveryone: true })],
+        cursor: { updatedAt: 2000, messageId: 'msg-1' },
+        hasMore: false,
+      });
+
+      await DeltaSync.syncChat(chatId);
+      unsubscribe();
+      await DeltaSync.syncChat(chatId);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(chatId, [expect.objectContaining({ id: 'msg-1', deletedForEveryone: true })]);
+    });
+
+    it('should share a sync that is already running for the chat', async () => {
+      const first = DeltaSync.syncChat(chatId);
+      const second = DeltaSync.syncChat(chatId);
+
+      expect(second).toBe(first);
+      await first;
+    });
+  });
+
+  describe('backfillChat', () => {
+    it('should page through history from the oldest synced message', async () => {
+      const page = (start: number) => Array.from({ length: 100 }, (_, i) =>
+        message(`msg-${start - i}`, { timestamp: start - i })
+      );
+      (MessageService.getMessagesBefore as jest.Mock)
+        .mockResolvedValueOnce(page(500))
+        .mockResolvedValueOnce(page(401));
+
+      const backfilled = await DeltaSync.backfillChat(chatId, 2);
+
+      expect(MessageService.getMessagesBefore).toHaveBeenNthCalledWith(1, chatId, null, 100);
+      expect(MessageService.getMessagesBefore).toHaveBeenNthCalledWith(2, chatId, 401, 100);
+      // msg-401 came back with the second page
+      expect(backfilled).toHaveLength(199);
+      expect(SQLiteService.saveSyncCursor).toHaveBeenLastCalledWith(expect.objectContaining({
+        oldestTimestamp: 302,
+        historyComplete: false,
+      }));
+    });
+
+    it('should stop at the first message of the chat', async () => {
+      (MessageService.getMessagesBefore as jest.Mock).mockResolvedValueOnce([message('msg-1')]);
+
+      await DeltaSync.backfillChat(chatId, 3);
+      const again = await DeltaSync.backfillChat(chatId, 3);
+
+      expect(MessageService.getMessagesBefore).toHaveBeenCalledTimes(1);
+      expect(again).toEqual([]);
+      expect(SQLiteService.saveSyncCursor).toHaveBeenLastCalledWith(expect.objectContaining({
+        oldestTimestamp: 1000,
+        historyComplete: true,
+      }));
+    });
+  });
+
+  describe('syncChats', () => {
+    it('should report progress until every chat is synced', async () => {
+      const statuses: SyncStatus[] = [];
+      const unsubscribe = DeltaSync.subscribe(status => statuses.push(status));
+      const chatIds = [`${chatId}-a`, `${chatId}-b`, `${chatId}-c`, `${chatId}-d`];
+
+      await DeltaSync.syncChats(chatIds);
+      unsubscribe();
+
+      expect(MessageService.getMessageChanges).toHaveBeenCalledTimes(4);
+      expect(statuses[0]).toEqual(expect.objectContaining({ isSyncing: true, chatsTotal: 4, chatsSynced: 0 }));
+      expect(statuses.map(s => s.chatsSynced)).toEqual([0, 1, 2, 3, 4, 0]);
+      expect(DeltaSync.getStatus()).toEqual(expect.objectContaining({ isSyncing: false, chatsTotal: 0 }));
+      expect(DeltaSync.getStatus().lastSyncedAt).not.toBeNull();
+    });
+
+    it('should keep syncing other chats when one fails', async () => {
+      (MessageService.getMessageChanges as jest.Mock)
+        .mockRejectedValueOnce(new Error('unavailable'))
+        .mockResolvedValueOnce({ messages: [message('msg-1')], cursor: { updatedAt: 2000, messageId: 'msg-1' }, hasMore: false });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await DeltaSync.syncChats([`${chatId}-a`, `${chatId}-b`]);
+
+      expect(SQLiteService.saveSyncCursor).toHaveBeenCalledWith(expect.objectContaining({ chatId: `${chatId}-b` }));
+      expect(DeltaSync.getStatus().isSyncing).toBe(false);
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it('should sync every locally stored chat', async () => {
+      (SQLiteService.getChats as jest.Mock).mockResolvedValue([{ id: `${chatId}-a` }, { id: `${chatId}-b` }]);
+
+      await DeltaSync.syncAll();
+
+      expect(MessageService.getMessageChanges).toHaveBeenCalledWith(`${chatId}-a`, null, 100);
+      expect(MessageService.getMessageChanges).toHaveBeenCalledWith(`${chatId}-b`, null, 100);
+    });
+  });
+
+  describe('syncStaleChats', () => {
+    it('should only sync chats with messages newer than their cursor', async () => {
+      (SQLiteService.getSyncCursor as jest.Mock).mockImplementation((id: string) => Promise.resolve({
+        chatId: id,
+        lastSyncedAt: 5000,
+        lastMessageId: 'msg-5',
+        oldestTimestamp: null,
+        historyComplete: false,
+      }));
+
+      await DeltaSync.syncStaleChats([
+        { id: `${chatId}-a`, lastMessageTime: 5000 },
+        { id: `${chatId}-b`, lastMessageTime: 6000 },
+      ]);
+      // Already synced for this last message
+      await DeltaSync.syncStaleChats([{ id: `${chatId}-b`, lastMessageTime: 6000 }]);
+
+      expect(MessageService.getMessageChanges).toHaveBeenCalledTimes(1);
+      expect(MessageService.getMessageChanges).toHaveBeenCalledWith(`${chatId}-b`, { updatedAt: 5000, messageId: 'msg-5' }, 100);
+    });
+  });
+});
@@ -1,10 +1,22 @@
 import { MessageQueue } from '@/database/MessageQueue';
 import { SQLiteService } from '@/database/SQLiteService';
+import { ChatService } from '@/services/firebase/ChatService';
 import { MessageService } from '@/services/firebase/MessageService';
-import { Message } from '@/shared/types';
+import { StorageService } from '@/services/firebase/StorageService';
+import { Message, MessageOperation } from '@/shared/types';
+import { toOperationRow } from '@/shared/utils/OperationLog';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system/legacy';
 
 // Mock dependencies
 jest.mock('@/database/SQLiteService');
+jest.mock('@/services/firebase/StorageService', () => ({
+  StorageService: {
+    uploadMessageImage: jest.fn(),
+    uploadVoiceMessage: jest.fn(),
+    releaseImageForUpload: jest.fn(() => Promise.resolve()),
+  },
+}));
 jest.mock('@/services/firebase/MessageService', () => ({
   MessageService: {
     sendMessage: jest.fn(() => Promise.resolve()),
@@ -13,6 +25,15 @@ jest.mock('@/services/firebase/MessageService', () => ({
     removeReaction: jest.fn(() => Promise.resolve()),
     deleteMessageForMe: jest.fn(() => Promise.resolve()),
     deleteMessageForEveryone: jest.fn(() => Promise.resolve()),
+    editMessage: jest.fn(),
+    updateMessageStatus: jest.fn(() => Promise.resolve()),
+    getMessageById: jest.fn(),
+  },
+}));
+jest.mock('@/services/firebase/ChatService', () => ({
+  ChatService: {
+    markChatAsRead: jest.fn(() => Promise.resolve()),
+    updateChatLastMessage: jest.fn(() => Promise.resolve()),
   },
 }));
 
@@ -238,4 +259,360 @@ describe('MessageQueue', () => {
       await expect(MessageQueue.clearFailedMessages()).resolves.not.toThrow();
     });
   });
+
+  describe('outbox', () => {
+    const NOW = Date.UTC(2026, 0, 1);
+
+    const pendingRow = (id: string, chatId: string, extra: Record<string, unknown> = {}) => ({
+      id,
+      chatId,
+      senderId: 'user-1',
+      text: `Text ${id}`,
+      timestamp: NOW - 1000,
+      status: 'sending',
+      type: 'text',
+      syncStatus: 'pending',
+      attempts: null,
+      nextAttemptAt: null,
+      lastAttemptAt: null,
+      lastError: null,
+      ...extra,
+    });
+
+    const sentIds = () => (MessageService.sendMessage as jest.Mock).mock.calls.map(call => call[3]);
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NOW });
+      (MessageService.sendMessage as jest.Mock).mockReset().mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('should schedule a retry with backoff after a transient error', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([pendingRow('msg-1', 'chat-1')]);
+      (MessageService.sendMessage as jest.Mock).mockRejectedValue({ code: 'unavailable', message: 'offline' });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result).toEqual({ success: 0, failed: 0, deferred: 1, total: 1 });
+      const entry = (SQLiteService.saveOutboxEntry as jest.Mock).mock.calls[0][0];
+      expect(entry).toEqual(expect.objectContaining({ messageId: 'msg-1', chatId: 'chat-1', attempts: 1, lastAttemptAt: NOW }));
+      expect(entry.nextAttemptAt).toBeGreaterThan(NOW);
+      expect(SQLiteService.updateMessageStatus).not.toHaveBeenCalledWith('msg-1', 'failed');
+    });
+
+    it('should give up right away on a permanent error', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([
+        pendingRow('msg-1', 'chat-1'),
+        pendingRow('msg-2', 'chat-1'),
+      ]);
+      (MessageService.sendMessage as jest.Mock).mockRejectedValueOnce({ code: 'permission-denied' });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result).toEqual({ success: 1, failed: 1, deferred: 0, total: 2 });
+      expect(SQLiteService.updateMessageStatus).toHaveBeenCalledWith('msg-1', 'failed');
+      expect(SQLiteService.updateMessageStatus).toHaveBeenCalledWith('msg-2', 'sent', 'synced');
+    });
+
+    it('should give up after the last attempt', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([pendingRow('msg-1', 'chat-1', { attempts: 9 })]);
+      (MessageService.sendMessage as jest.Mock).mockRejectedValue(new Error('Network request failed'));
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result.failed).toBe(1);
+      expect(SQLiteService.saveOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({ attempts: 10, nextAttemptAt: 0 }));
+      expect(SQLiteService.updateMessageStatus).toHaveBeenCalledWith('msg-1', 'failed');
+    });
+
+    it('should keep order within a chat while other chats carry on', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([
+        pendingRow('msg-1', 'chat-1'),
+        pendingRow('msg-2', 'chat-2'),
+        pendingRow('msg-3', 'chat-1'),
+      ]);
+      (MessageService.sendMessage as jest.Mock).mockImplementation((chatId: string, _senderId: string, _text: string, id: string) =>
+        id === 'msg-1' ? Promise.reject(new Error('timeout')) : Promise.resolve()
+      );
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result).toEqual({ success: 1, failed: 0, deferred: 2, total: 3 });
+      expect(sentIds()).toEqual(['msg-1', 'msg-2']);
+    });
+
+    it('should wait out the backoff unless told to retry now', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([
+        pendingRow('msg-1', 'chat-1', { attempts: 2, nextAttemptAt: NOW + 60_000 }),
+      ]);
+
+      expect(await MessageQueue.processQueue()).toEqual({ success: 0, failed: 0, deferred: 1, total: 1 });
+      expect(MessageService.sendMessage).not.toHaveBeenCalled();
+
+      expect(await MessageQueue.processQueue({ retryNow: true })).toEqual({ success: 1, failed: 0, deferred: 0, total: 1 });
+      expect(SQLiteService.deleteOutboxEntry).toHaveBeenCalledWith('msg-1');
+    });
+
+    it('should run again when the next retry is due', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([
+        pendingRow('msg-1', 'chat-1', { attempts: 1, nextAttemptAt: NOW + 5000 }),
+      ]);
+
+      await MessageQueue.processQueue();
+      expect(MessageService.sendMessage).not.toHaveBeenCalled();
+
+      jest.setSystemTime(NOW + 5000);
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(sentIds()).toEqual(['msg-1']);
+    });
+
+    it('should upload an image taken offline before sending it', async () => {
+      const localUri = 'file:///mock/documents/outbox/msg-1.jpg';
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([
+        pendingRow('msg-1', 'chat-1', { type: 'image', text: '', imageUrl: localUri, thumbnailUrl: localUri, caption: 'Sunset' }),
+      ]);
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: true });
+      (StorageService.uploadMessageImage as jest.Mock).mockResolvedValue({
+        imageUrl: 'https://storage/image.jpg',
+        thumbnailUrl: 'https://storage/thumbnail.jpg',
+      });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result.success).toBe(1);
+      expect(StorageService.uploadMessageImage).toHaveBeenCalledWith('chat-1', 'msg-1', localUri);
+      expect(SQLiteService.updateMessageImageUrls).toHaveBeenCalledWith('msg-1', 'https://storage/image.jpg', 'https://storage/thumbnail.jpg');
+      expect(StorageService.releaseImageForUpload).toHaveBeenCalledWith(localUri);
+      expect(MessageService.sendMessage).toHaveBeenCalledWith(
+        'chat-1',
+        'user-1',
+        '',
+        'msg-1',
+        { type: 'image', imageUrl: 'https://storage/image.jpg', thumbnailUrl: 'https://storage/thumbnail.jpg', caption: 'Sunset' },
+        undefined,
+        expect.any(Object)
+      );
+    });
+
+    it('should give up on an image whose local file is gone', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([
+        pendingRow('msg-1', 'chat-1', { type: 'image', imageUrl: 'file:///mock/cache/gone.jpg' }),
+      ]);
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: false });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result.failed).toBe(1);
+      expect(StorageService.uploadMessageImage).not.toHaveBeenCalled();
+      expect(SQLiteService.updateMessageStatus).toHaveBeenCalledWith('msg-1', 'failed');
+    });
+
+    it('should leave messages that gave up for the user to retry', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([pendingRow('msg-1', 'chat-1', { status: 'failed' })]);
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result.total).toBe(0);
+      expect(MessageService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('operation log', () => {
+    const NOW = Date.UTC(2026, 0, 1);
+
+    const operation = (id: string, fields: Partial<MessageOperation> = {}): MessageOperation => ({
+      id,
+      type: 'react',
+      chatId: 'chat-1',
+      messageId: 'msg-1',
+      userId: 'user-1',
+      emoji: '👍',
+      createdAt: NOW - 500,
+      ...fields,
+    } as MessageOperation);
+
+    const pendingRow = (id: string, chatId: string, extra: Record<string, unknown> = {}) => ({
+      id,
+      chatId,
+      senderId: 'user-1',
+      text: `Text ${id}`,
+      timestamp: NOW - 1000,
+      status: 'sending',
+      type: 'text',
+      syncStatus: 'pending',
+      attempts: null,
+      nextAttemptAt: null,
+      lastAttemptAt: null,
+      lastError: null,
+      ...extra,
+    });
+
+    const setOffline = () => {
+      (NetInfo.fetch as jest.Mock).mockResolvedValue({ isConnected: false, isInternetReachable: false, type: 'none' });
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NOW });
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([]);
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([]);
+      (MessageService.sendMessage as jest.Mock).mockReset().mockResolvedValue(undefined);
+      (MessageService.addReaction as jest.Mock).mockReset().mockResolvedValue(undefined);
+      (MessageService.removeReaction as jest.Mock).mockReset().mockResolvedValue(undefined);
+    });
+
+    afterEach(async () => {
+      await jest.advanceTimersByTimeAsync(0);
+      (NetInfo.fetch as jest.Mock).mockResolvedValue({ isConnected: true, isInternetReachable: true, type: 'wifi' });
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('should apply an operation right away when online and nothing is waiting', async () => {
+      const result = await MessageQueue.submitOperation(operation('op-1'));
+
+      expect(result).toBe('applied');
+      expect(MessageService.addReaction).toHaveBeenCalledWith('chat-1', 'msg-1', '👍', 'user-1');
+      expect(SQLiteService.saveOperation).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the server rejects an operation, so it can be undone', async () => {
+      (MessageService.addReaction as jest.Mock).mockRejectedValue({ code: 'permission-denied' });
+
+      await expect(MessageQueue.submitOperation(operation('op-1'))).rejects.toEqual({ code: 'permission-denied' });
+      expect(SQLiteService.saveOperation).not.toHaveBeenCalled();
+    });
+
+    it('should log an operation when the server is unreachable', async () => {
+      (MessageService.addReaction as jest.Mock).mockRejectedValueOnce({ code: 'unavailable' });
+
+      const result = await MessageQueue.submitOperation(operation('op-1'));
+
+      expect(result).toBe('queued');
+      expect(SQLiteService.saveOperation).toHaveBeenCalledWith(toOperationRow(operation('op-1')));
+    });
+
+    it('should log an operation while offline without trying the server', async () => {
+      setOffline();
+
+      const result = await MessageQueue.submitOperation(operation('op-1'));
+
+      expect(result).toBe('queued');
+      expect(MessageService.addReaction).not.toHaveBeenCalled();
+      expect(SQLiteService.saveOperation).toHaveBeenCalledWith(toOperationRow(operation('op-1')));
+    });
+
+    it('should collapse a react followed by an unreact while offline', async () => {
+      setOffline();
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([toOperationRow(operation('op-1'))]);
+
+      const result = await MessageQueue.submitOperation(operation('op-2', { type: 'unreact' }));
+
+      expect(result).toBe('queued');
+      expect(SQLiteService.deleteOperation).toHaveBeenCalledWith('op-1');
+      expect(SQLiteService.saveOperation).not.toHaveBeenCalled();
+      expect(MessageService.removeReaction).not.toHaveBeenCalled();
+    });
+
+    it('should drop an unsent message that is deleted instead of sending it', async () => {
+      setOffline();
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([pendingRow('msg-1', 'chat-1')]);
+
+      await MessageQueue.submitOperation(operation('op-1', { type: 'delete' }));
+
+      expect(SQLiteService.deleteUnsentMessage).toHaveBeenCalledWith('msg-1');
+      expect(SQLiteService.saveOperation).not.toHaveBeenCalled();
+      expect(MessageService.deleteMessageForEveryone).not.toHaveBeenCalled();
+    });
+
+    it('should queue an operation behind an unsent message of the same chat', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([pendingRow('msg-1', 'chat-1', { nextAttemptAt: NOW + 60_000 })]);
+
+      const result = await MessageQueue.submitOperation(operation('op-1'));
+
+      expect(result).toBe('queued');
+      expect(SQLiteService.saveOperation).toHaveBeenCalledWith(toOperationRow(operation('op-1')));
+      expect(MessageService.addReaction).not.toHaveBeenCalled();
+    });
+
+    it('should replay operations in order after the messages before them', async () => {
+      (SQLiteService.getPendingMessages as jest.Mock).mockResolvedValue([pendingRow('msg-1', 'chat-1')]);
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([
+        toOperationRow(operation('op-2', { type: 'delete', messageId: 'msg-0', createdAt: NOW - 100 })),
+        toOperationRow(operation('op-1')),
+      ]);
+      const calls: string[] = [];
+      (MessageService.sendMessage as jest.Mock).mockImplementation(async () => { calls.push('send'); });
+      (MessageService.addReaction as jest.Mock).mockImplementation(async () => { calls.push('react'); });
+      (MessageService.deleteMessageForEveryone as jest.Mock).mockImplementation(async () => { calls.push('delete'); });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result).toEqual({ success: 3, failed: 0, deferred: 0, total: 3 });
+      expect(calls).toEqual(['send', 'react', 'delete']);
+      expect(SQLiteService.deleteOperation).toHaveBeenCalledWith('op-1');
+      expect(SQLiteService.deleteOperation).toHaveBeenCalledWith('op-2');
+    });
+
+    it('should replay a read receipt', async () => {
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([
+        toOperationRow(operation('op-1', {
+          type: 'markRead',
+          messageId: 'msg-3',
+          messageIds: ['msg-2', 'msg-3'],
+          readUpTo: NOW - 2000,
+          lastMessage: { text: 'Hi', senderId: 'user-2', timestamp: NOW - 2000 },
+        })),
+      ]);
+
+      await MessageQueue.processQueue();
+
+      expect(ChatService.markChatAsRead).toHaveBeenCalledWith('chat-1', 'user-1', 'msg-3', NOW - 2000);
+      expect(MessageService.updateMessageStatus).toHaveBeenCalledWith('chat-1', 'msg-2', 'read');
+      expect(MessageService.updateMessageStatus).toHaveBeenCalledWith('chat-1', 'msg-3', 'read');
+      expect(ChatService.updateChatLastMessage).toHaveBeenCalledWith('chat-1', 'Hi', 'user-2', 'read', NOW - 2000);
+    });
+
+    it('should retry an operation with backoff after a transient error', async () => {
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([toOperationRow(operation('op-1'))]);
+      (MessageService.addReaction as jest.Mock).mockRejectedValue({ code: 'unavailable' });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result).toEqual({ success: 0, failed: 0, deferred: 1, total: 1 });
+      const row = (SQLiteService.saveOperation as jest.Mock).mock.calls[0][0];
+      expect(row).toEqual(expect.objectContaining({ id: 'op-1', attempts: 1 }));
+      expect(row.nextAttemptAt).toBeGreaterThan(NOW);
+    });
+
+    it('should give up on a rejected operation and restore the server version', async () => {
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([toOperationRow(operation('op-1'))]);
+      (MessageService.addReaction as jest.Mock).mockRejectedValue({ code: 'permission-denied' });
+      (MessageService.getMessageById as jest.Mock).mockResolvedValue({
+        id: 'msg-1', chatId: 'chat-1', text: 'Hello', reactions: {}, deletedForEveryone: false,
+      });
+      (SQLiteService.getMessageById as jest.Mock).mockResolvedValueOnce({ id: 'msg-1', chatId: 'chat-1', reactions: '{"👍":["user-1"]}' });
+
+      const result = await MessageQueue.processQueue();
+
+      expect(result.failed).toBe(1);
+      expect(SQLiteService.deleteOperation).toHaveBeenCalledWith('op-1');
+      expect(SQLiteService.saveMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'msg-1', reactions: '{}' }));
+    });
+
+    it('should keep waiting operations on top of server messages', async () => {
+      (SQLiteService.getOperations as jest.Mock).mockResolvedValue([toOperationRow(operation('op-1'))]);
+      await MessageQueue.loadOperations();
+
+      const [message] = MessageQueue.applyPendingOperations([
+        { id: 'msg-1', chatId: 'chat-1', senderId: 'user-2', text: 'Hi', timestamp: NOW, status: 'read', type: 'text', reactions: {} } as Message,
+      ]);
+
+      expect(message.reactions).toEqual({ '👍': ['user-1'] });
+    });
+  });
 });
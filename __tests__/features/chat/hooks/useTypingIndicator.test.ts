@@ -64,9 +64,9 @@ describe('useTypingIndicator (Integrated in PresenceService)', () => {
 
       (PresenceService.subscribeToTyping as jest.Mock).mockReturnValue(mockUnsubscribe);
 
-      const unsubscribe = PresenceService.subscribeToTyping('chat-1', 'user-1', mockCallback, jest.fn());
+      const unsubscribe = PresenceService.subscribeToTyping('chat-1', 'user-1', ['user-1', 'user-2'], mockCallback, jest.fn());
 
-      expect(PresenceService.subscribeToTyping).toHaveBeenCalledWith('chat-1', 'user-1', mockCallback, expect.any(Function));
+      expect(PresenceService.subscribeToTyping).toHaveBeenCalledWith('chat-1', 'user-1', ['user-1', 'user-2'], mockCallback, expect.any(Function));
       expect(unsubscribe).toBe(mockUnsubscribe);
     });
 
@@ -75,13 +75,13 @@ describe('useTypingIndicator (Integrated in PresenceService)', () => {
       let typingCallback: any;
 
       (PresenceService.subscribeToTyping as jest.Mock).mockImplementation(
-        (chatId, userId, onUpdate, onError) => {
+        (chatId, userId, participantIds, onUpdate, onError) => {
           typingCallback = onUpdate;
           return jest.fn();
         }
       );
 
-      PresenceService.subscribeToTyping('chat-1', 'user-1', mockCallback, jest.fn());
+      PresenceService.subscribeToTyping('chat-1', 'user-1', ['user-1', 'user-2'], mockCallback, jest.fn());
 
       // Simulate typing update
       act(() => {
@@ -95,7 +95,7 @@ describe('useTypingIndicator (Integrated in PresenceService)', () => {
       const mockUnsubscribe = jest.fn();
       (PresenceService.subscribeToTyping as jest.Mock).mockReturnValue(mockUnsubscribe);
 
-      const unsubscribe = PresenceService.subscribeToTyping('chat-1', 'user-1', jest.fn(), jest.fn());
+      const unsubscribe = PresenceService.subscribeToTyping('chat-1', 'user-1', ['user-1', 'user-2'], jest.fn(), jest.fn());
       
       act(() => {
         unsubscribe();
@@ -0,0 +1,64 @@
+/**
+ * Tests for voice and scheduled message helpers in messageUtils
+ */
+
+import { formatDuration, formatScheduledTime, meteringToAmplitude, resampleWaveform } from '@/features/chat/utils/messageUtils';
+
+describe('messageUtils - voice helpers', () => {
+  describe('formatDuration', () => {
+    it('should format milliseconds as m:ss', () => {
+      expect(formatDuration(0)).toBe('0:00');
+      expect(formatDuration(7400)).toBe('0:07');
+      expect(formatDuration(65000)).toBe('1:05');
+    });
+
+    it('should clamp negative durations to zero', () => {
+      expect(formatDuration(-500)).toBe('0:00');
+    });
+  });
+
+  describe('meteringToAmplitude', () => {
+    it('should map dBFS levels to 0-1', () => {
+      expect(meteringToAmplitude(0)).toBe(1);
+      expect(meteringToAmplitude(-30)).toBeCloseTo(0.5);
+      expect(meteringToAmplitude(-60)).toBe(0);
+      expect(meteringToAmplitude(-160)).toBe(0);
+    });
+
+    it('should treat non-finite levels as silence', () => {
+      expect(meteringToAmplitude(NaN)).toBe(0);
+    });
+  });
+
+  describe('resampleWaveform', () => {
+    it('should average samples into the requested number of bars', () => {
+      expect(resampleWaveform([0, 1, 0.5, 0.5], 2)).toEqual([0.5, 0.5]);
+    });
+
+    it('should stretch short recordings to fill every bar', () => {
+      expect(resampleWaveform([0.2, 0.8], 4)).toEqual([0.2, 0.2, 0.8, 0.8]);
+    });
+
+    it('should return flat bars for an empty waveform', () => {
+      expect(resampleWaveform([], 3)).toEqual([0, 0, 0]);
+    });
+  });
+});
+
+describe('messageUtils - scheduled message helpers', () => {
+  describe('formatScheduledTime', () => {
+    const now = new Date(2025, 9, 20, 10, 0).getTime(); // Mon, Oct 20
+
+    it('should label times later today', () => {
+      expect(formatScheduledTime(new Date(2025, 9, 20, 15, 15).getTime(), now)).toBe('Today at 3:15 PM');
+    });
+
+    it('should label times tomorrow', () => {
+      expect(formatScheduledTime(new Date(2025, 9, 21, 9, 0).getTime(), now)).toBe('Tomorrow at 9:00 AM');
+    });
+
+    it('should show the date for later days', () => {
+      expect(formatScheduledTime(new Date(2025, 9, 24, 9, 0).getTime(), now)).toBe('Fri, Oct 24 at 9:00 AM');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * AIAssistantService Tests
+ *
+ * Tests reading a streamed answer, server errors and cancelling
+ */
+
+import { AIAssistantService } from '@/services/firebase/AIAssistantService';
+
+jest.mock('@/services/firebase/FirebaseConfig', () => ({
+  app: { options: { projectId: 'demo-project' } },
+  auth: { currentUser: { getIdToken: jest.fn(() => Promise.resolve('id-token')) } },
+}));
+
+/**
+ * XMLHttpRequest stand-in the test feeds response text into
+ */
+class FakeXMLHttpRequest {
+  static last: FakeXMLHttpRequest;
+
+  method = '';
+  url = '';
+  headers: Record<string, string> = {};
+  body: string | null = null;
+  status = 0;
+  responseText = '';
+  aborted = false;
+  onprogress: (() => void) | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    FakeXMLHttpRequest.last = this;
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send(body: string) {
+    this.body = body;
+  }
+
+  abort() {
+    this.aborted = true;
+  }
+
+  receive(text: string) {
+    this.status = 200;
+    this.responseText += text;
+    this.onprogress?.();
+  }
+}
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('AIAssistantService', () => {
+  const originalXMLHttpRequest = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    (global as any).XMLHttpRequest = FakeXMLHttpRequest;
+  });
+
+  afterAll(() => {
+    global.XMLHttpRequest = originalXMLHttpRequest;
+  });
+
+  const start = () => {
+    const handlers = { onToken: jest.fn(), onSources: jest.fn(), onDone: jest.fn() };
+    const stream = AIAssistantService.streamAnswer('When is my flight?', [{ role: 'user', content: 'Hi' }], handlers);
+    return { handlers, stream };
+  };
+
+  it('should post the question with the ID token', async () => {
+    start();
+    await flushPromises();
+
+    const xhr = FakeXMLHttpRequest.last;
+    expect(xhr.method).toBe('POST');
+    expect(xhr.url).toBe('https://us-central1-demo-project.cloudfunctions.net/aiAssistantStream');
+    expect(xhr.headers.Authorization).toBe('Bearer id-token');
+    expect(JSON.parse(xhr.body!)).toEqual({
+      query: 'When is my flight?',
+      conversationHistory: [{ role: 'user', content: 'Hi' }],
+    });
+  });
+
+  it('should pass on tokens, then sources, then the final status', async () => {
+    const { handlers } = start();
+    await flushPromises();
+    const xhr = FakeXMLHttpRequest.last;
+    const source = { chatId: 'chat-1', chatName: 'Maria', messageId: 'm1', snippet: 'Flight at 9', timestamp: 1 };
+
+    xhr.receive('event: token\ndata: {"text":"At "}\n\nevent: token\ndata: {"te');
+    expect(handlers.onToken.mock.calls).toEqual([['At ']]);
+
+    xhr.receive(`xt":"9 [1]"}\n\nevent: sources\ndata: ${JSON.stringify({ sources: [source] })}\n\n`);
+    xhr.receive('event: done\ndata: {"status":"complete","timestamp":2}\n\n');
+    xhr.onload!();
+
+    expect(handlers.onToken.mock.calls).toEqual([['At '], ['9 [1]']]);
+    expect(handlers.onSources).toHaveBeenCalledWith([source]);
+    expect(handlers.onDone).toHaveBeenCalledTimes(1);
+    expect(handlers.onDone).toHaveBeenCalledWith('complete', undefined);
+  });
+
+  it('should report errors returned before the stream starts', async () => {
+    const { handlers } = start();
+    await flushPromises();
+    const xhr = FakeXMLHttpRequest.last;
+
+    xhr.status = 429;
+    xhr.responseText = JSON.stringify({ error: { status: 'RESOURCE_EXHAUSTED', message: 'Monthly AI limit reached' } });
+    xhr.onload!();
+
+    expect(handlers.onDone).toHaveBeenCalledWith('error', 'Monthly AI limit reached');
+  });
+
+  it('should stop reading and close the connection when cancelled', async () => {
+    const { handlers, stream } = start();
+    await flushPromises();
+    const xhr = FakeXMLHttpRequest.last;
+
+    xhr.receive('event: token\ndata: {"text":"At "}\n\n');
+    stream.cancel();
+    xhr.receive('event: token\ndata: {"text":"9"}\n\n');
+
+    expect(xhr.aborted).toBe(true);
+    expect(handlers.onToken).toHaveBeenCalledTimes(1);
+    expect(handlers.onDone).toHaveBeenCalledTimes(1);
+    expect(handlers.onDone).toHaveBeenCalledWith('cancelled', undefined);
+  });
+});
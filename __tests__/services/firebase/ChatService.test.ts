@@ -9,6 +9,7 @@ import {
     doc,
     getDoc,
     getDocs,
+    runTransaction,
     serverTimestamp,
     writeBatch
 } from 'firebase/firestore';
@@ -156,14 +157,53 @@ describe('ChatService', () => {
   });
 
   describe('markChatAsRead', () => {
+    // Transaction over a participant document with the given data
+    const mockTransaction = (data: Record<string, unknown>) => {
+      const transaction = {
+        get: jest.fn().mockResolvedValue({ exists: () => true, data: () => data }),
+        update: jest.fn(),
+      };
+      (runTransaction as jest.Mock).mockImplementation((db, updateFunction) => updateFunction(transaction));
+      return transaction;
+    };
+
     it('should mark chat as read and reset unread count', async () => {
-      const mockUpdate = jest.fn().mockResolvedValue(undefined);
-      const { updateDoc } = require('firebase/firestore');
-      updateDoc.mockImplementation(mockUpdate);
+      const transaction = mockTransaction({});
 
       await ChatService.markChatAsRead('chat-123', 'user-1', 'msg-123');
 
-      expect(mockUpdate).toHaveBeenCalled();
+      expect(transaction.get).not.toHaveBeenCalled();
+      expect(transaction.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ lastReadMessageId: 'msg-123', unreadCount: 0 })
+      );
+    });
+
+    it('should only move the read and delivered watermarks forward', async () => {
+      const transaction = mockTransaction({ readWatermark: 1000, deliveredWatermark: 5000 });
+
+      await ChatService.markChatAsRead('chat-123', 'user-1', 'msg-123', 3000);
+      await ChatService.markChatAsRead('chat-123', 'user-1', 'msg-100', 500);
+
+      expect(transaction.update).toHaveBeenNthCalledWith(1, expect.anything(), expect.objectContaining({ unreadCount: 0, readWatermark: 3000 }));
+      expect(transaction.update.mock.calls[0][1]).not.toHaveProperty('deliveredWatermark');
+      expect(transaction.update.mock.calls[1][1]).not.toHaveProperty('readWatermark');
+    });
+  });
+
+  describe('markChatAsDelivered', () => {
+    it('should skip messages that were already delivered', async () => {
+      const transaction = {
+        get: jest.fn().mockResolvedValue({ exists: () => true, data: () => ({ deliveredWatermark: 5000 }) }),
+        update: jest.fn(),
+      };
+      (runTransaction as jest.Mock).mockImplementation((db, updateFunction) => updateFunction(transaction));
+
+      await ChatService.markChatAsDelivered('chat-123', 'user-1', 5000);
+      await ChatService.markChatAsDelivered('chat-123', 'user-1', 6000);
+
+      expect(transaction.update).toHaveBeenCalledTimes(1);
+      expect(transaction.update).toHaveBeenCalledWith(expect.anything(), { deliveredWatermark: 6000 });
     });
   });
 });
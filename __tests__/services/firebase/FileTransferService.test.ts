@@ -0,0 +1,149 @@
+/**
+ * FileTransferService Tests
+ *
+ * Tests resumable attachment uploads, downloads and status tracking
+ */
+
+import { FileTransferService } from '@/services/firebase/FileTransferService';
+import * as FileSystem from 'expo-file-system/legacy';
+import { getDownloadURL, uploadBytesResumable } from 'firebase/storage';
+
+jest.mock('expo-file-system/legacy');
+
+/**
+ * Minimal UploadTask stand-in that lets tests drive state changes
+ */
+const createMockUploadTask = () => {
+  const handlers: { next?: (snapshot: any) => void; error?: (error: any) => void; complete?: () => void } = {};
+  return {
+    handlers,
+    on: jest.fn((_event, next, error, complete) => {
+      handlers.next = next;
+      handlers.error = error;
+      handlers.complete = complete;
+    }),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    cancel: jest.fn(),
+  };
+};
+
+// Let the upload promise chain reach uploadTask.on()
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('FileTransferService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = jest.fn().mockResolvedValue({
+      blob: jest.fn().mockResolvedValue('file-blob')
+    }) as jest.Mock;
+  });
+
+  describe('getStoragePath', () => {
+    it('should place attachments under the message files folder', () => {
+      expect(FileTransferService.getStoragePath('chat-1', 'msg-1', 'Q3 report.pdf'))
+        .toBe('chats/chat-1/msg-1/files/Q3 report.pdf');
+    });
+
+    it('should strip path separators from file names', () => {
+      expect(FileTransferService.getStoragePath('chat-1', 'msg-1', '../notes/a.txt'))
+        .toBe('chats/chat-1/msg-1/files/.._notes_a.txt');
+    });
+  });
+
+  describe('uploadMessageFile', () => {
+    it('should report progress, allow pausing and resolve with the download URL', async () => {
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: true, size: 1024 });
+      const uploadTask = createMockUploadTask();
+      (uploadBytesResumable as jest.Mock).mockReturnValue(uploadTask);
+      (getDownloadURL as jest.Mock).mockResolvedValue('https://storage/report.pdf');
+
+      const onProgress = jest.fn();
+      const statusListener = jest.fn();
+      const unsubscribe = FileTransferService.subscribe('msg-upload', statusListener);
+
+      const uploading = FileTransferService.uploadMessageFile(
+        'chat-1',
+        'msg-upload',
+        'file://report.pdf',
+        'report.pdf',
+        'application/pdf',
+        onProgress
+      );
+      await flushPromises();
+
+      uploadTask.handlers.next!({ bytesTransferred: 512, totalBytes: 1024, state: 'running' });
+      expect(onProgress).toHaveBeenCalledWith({ bytesTransferred: 512, totalBytes: 1024, progress: 50 });
+      expect(FileTransferService.getStatus('msg-upload')).toEqual({
+        direction: 'upload',
+        state: 'active',
+        progress: 50,
+      });
+
+      await FileTransferService.pause('msg-upload');
+      expect(uploadTask.pause).toHaveBeenCalled();
+      expect(FileTransferService.getStatus('msg-upload')?.state).toBe('paused');
+
+      await FileTransferService.resume('msg-upload');
+      expect(uploadTask.resume).toHaveBeenCalled();
+
+      uploadTask.handlers.complete!();
+      await expect(uploading).resolves.toBe('https://storage/report.pdf');
+      expect(FileTransferService.getStatus('msg-upload')?.state).toBe('completed');
+      expect(statusListener).toHaveBeenCalled();
+
+      unsubscribe();
+    });
+
+    it('should reject files over 25MB before uploading', async () => {
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({
+        exists: true,
+        size: 30 * 1024 * 1024
+      });
+
+      await expect(
+        FileTransferService.uploadMessageFile('chat-1', 'msg-large', 'file://big.zip', 'big.zip', 'application/zip')
+      ).rejects.toThrow('File exceeds 25MB limit');
+      expect(uploadBytesResumable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadMessageFile', () => {
+    it('should reuse a previously downloaded file', async () => {
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: true, size: 1024 });
+
+      const localUri = await FileTransferService.downloadMessageFile(
+        'msg-cached',
+        'https://storage/notes.txt',
+        'notes.txt'
+      );
+
+      expect(localUri).toContain('attachments/msg-cached/notes.txt');
+      expect(FileSystem.createDownloadResumable).not.toHaveBeenCalled();
+      expect(FileTransferService.getStatus('msg-cached')?.state).toBe('completed');
+    });
+
+    it('should download to the attachments folder', async () => {
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({ exists: false });
+      (FileSystem.makeDirectoryAsync as jest.Mock).mockResolvedValue(undefined);
+      (FileSystem.createDownloadResumable as jest.Mock).mockImplementation((_url, fileUri) => ({
+        fileUri,
+        downloadAsync: jest.fn().mockResolvedValue({ uri: fileUri, status: 200 }),
+      }));
+
+      const localUri = await FileTransferService.downloadMessageFile(
+        'msg-download',
+        'https://storage/slides.pdf',
+        'slides.pdf'
+      );
+
+      expect(localUri).toContain('attachments/msg-download/slides.pdf');
+      expect(FileTransferService.getStatus('msg-download')).toEqual({
+        direction: 'download',
+        state: 'completed',
+        progress: 100,
+        localUri,
+      });
+    });
+  });
+});
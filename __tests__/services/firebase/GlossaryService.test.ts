@@ -0,0 +1,93 @@
+/**
+ * GlossaryService Tests
+ *
+ * Tests adding, editing, removing and listening to translation glossary entries
+ */
+
+import { GlossaryService } from '@/services/firebase/GlossaryService';
+import {
+    collection,
+    deleteDoc,
+    doc,
+    onSnapshot,
+    setDoc,
+    updateDoc
+} from 'firebase/firestore';
+
+describe('GlossaryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (collection as jest.Mock).mockReturnValue({ path: 'glossary' });
+    (doc as jest.Mock).mockReturnValue({ id: 'entry-1' });
+  });
+
+  describe('addEntry', () => {
+    it('should store a trimmed entry in the chat glossary', async () => {
+      const result = await GlossaryService.addEntry('chat', 'chat-1', 'user-1', {
+        term: '  Acme Cloud ',
+        translation: null,
+        targetLanguage: null,
+      });
+
+      expect((collection as jest.Mock).mock.calls[0].slice(1)).toEqual(['chats', 'chat-1', 'glossary']);
+      expect(setDoc).toHaveBeenCalledWith(
+        { id: 'entry-1' },
+        expect.objectContaining({ term: 'Acme Cloud', translation: null, targetLanguage: null, createdBy: 'user-1' })
+      );
+      expect(result).toEqual(expect.objectContaining({ id: 'entry-1', scope: 'chat', term: 'Acme Cloud' }));
+    });
+
+    it('should use the user glossary for personal entries', async () => {
+      await GlossaryService.addEntry('user', 'user-1', 'user-1', {
+        term: 'standup',
+        translation: ' daily ',
+        targetLanguage: 'es',
+      });
+
+      expect((collection as jest.Mock).mock.calls[0].slice(1)).toEqual(['users', 'user-1', 'glossary']);
+      expect(setDoc).toHaveBeenCalledWith(
+        { id: 'entry-1' },
+        expect.objectContaining({ term: 'standup', translation: 'daily', targetLanguage: 'es' })
+      );
+    });
+
+    it('should reject empty terms', async () => {
+      await expect(
+        GlossaryService.addEntry('chat', 'chat-1', 'user-1', { term: '   ', translation: 'x', targetLanguage: null })
+      ).rejects.toThrow('Glossary term cannot be empty');
+      expect(setDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should update and delete entries', async () => {
+    await GlossaryService.updateEntry('chat', 'chat-1', 'entry-1', {
+      term: 'Bob',
+      translation: '',
+      targetLanguage: null,
+    });
+    await GlossaryService.deleteEntry('chat', 'chat-1', 'entry-1');
+
+    // An empty translation means "don't translate"
+    expect(updateDoc).toHaveBeenCalledWith({ id: 'entry-1' }, expect.objectContaining({ term: 'Bob', translation: null }));
+    expect(deleteDoc).toHaveBeenCalledWith({ id: 'entry-1' });
+  });
+
+  it('should map snapshot entries', () => {
+    const onUpdate = jest.fn();
+    (onSnapshot as jest.Mock).mockImplementation((_query, next) => {
+      next({
+        docs: [{
+          id: 'entry-1',
+          data: () => ({ term: 'Acme', translation: null, createdBy: 'user-1', createdAt: 1, updatedAt: 2 }),
+        }],
+      });
+      return jest.fn();
+    });
+
+    GlossaryService.subscribeToGlossary('chat', 'chat-1', onUpdate, jest.fn());
+
+    expect(onUpdate).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'entry-1', scope: 'chat', term: 'Acme', translation: null, targetLanguage: null }),
+    ]);
+  });
+});
@@ -1,12 +1,15 @@
 import { GroupService } from '@/services/firebase/GroupService';
+import { UserService } from '@/services/firebase/UserService';
 import {
     collection,
     doc,
     getDoc,
     getDocs,
+    setDoc,
     updateDoc,
     writeBatch
 } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
 
 // Mock Firebase
 jest.mock('@/services/firebase/FirebaseConfig', () => ({
@@ -14,9 +17,23 @@ jest.mock('@/services/firebase/FirebaseConfig', () => ({
 }));
 
 jest.mock('firebase/firestore');
+jest.mock('firebase/functions');
 jest.mock('@/shared/utils', () => ({
   generateInviteCode: jest.fn(() => 'ABC123'),
 }));
+jest.mock('@/services/firebase/UserService', () => ({
+  UserService: { getProfile: jest.fn() },
+}));
+
+const mockGroup = (data: Record<string, any>) => {
+  (getDoc as jest.Mock).mockResolvedValue({
+    exists: () => true,
+    data: () => data,
+  });
+};
+
+const findSystemMessage = (mockSet: jest.Mock) =>
+  mockSet.mock.calls.find(call => call[1]?.type === 'system')?.[1];
 
 describe('GroupService', () => {
   let mockBatch: any;
@@ -41,6 +58,10 @@ describe('GroupService', () => {
     (writeBatch as jest.Mock).mockReturnValue(mockBatch);
     (collection as jest.Mock).mockReturnValue({ id: 'chats' });
     (doc as jest.Mock).mockReturnValue({ id: 'chat-123' });
+    (UserService.getProfile as jest.Mock).mockImplementation(async (userId: string) => ({
+      id: userId,
+      displayName: userId.replace('user-', 'User '),
+    }));
   });
 
   describe('createGroup', () => {
@@ -182,6 +203,139 @@ describe('GroupService', () => {
       // Batch operations should not be called
       expect(mockSet).not.toHaveBeenCalled();
     });
+
+    it('should post a system message about who added the member', async () => {
+      mockGroup({ groupAdminId: 'user-1', participants: ['user-1', 'user-2'] });
+
+      await GroupService.addMember('chat-123', 'user-3', 'user-1');
+
+      expect(findSystemMessage(mockSet)).toEqual(expect.objectContaining({
+        senderId: 'user-1',
+        text: 'User 1 added User 3',
+      }));
+      expect(mockUpdate).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ lastMessageText: 'User 1 added User 3' })
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let a moderator remove a member', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        groupModeratorIds: ['user-2'],
+        participants: ['user-1', 'user-2', 'user-3'],
+      });
+
+      await GroupService.removeMember('chat-123', 'user-2', 'user-3');
+
+      expect(mockBatch.delete).toHaveBeenCalled();
+      expect(findSystemMessage(mockSet).text).toBe('User 2 removed User 3');
+      expect(mockCommit).toHaveBeenCalled();
+    });
+
+    it('should not let a moderator remove an admin', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        groupModeratorIds: ['user-2'],
+        participants: ['user-1', 'user-2', 'user-3'],
+      });
+
+      await expect(
+        GroupService.removeMember('chat-123', 'user-2', 'user-1')
+      ).rejects.toThrow('You don\'t have permission to remove this member');
+      expect(mockCommit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setMemberMuted', () => {
+    it('should mute a member and post a system message', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        participants: ['user-1', 'user-2'],
+      });
+
+      await GroupService.setMemberMuted('chat-123', 'user-1', 'user-2', true);
+
+      expect(mockUpdate).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ mutedMemberIds: expect.anything() })
+      );
+      expect(findSystemMessage(mockSet).text).toBe('User 1 muted User 2');
+    });
+
+    it('should not let members mute each other', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        participants: ['user-1', 'user-2', 'user-3'],
+      });
+
+      await expect(
+        GroupService.setMemberMuted('chat-123', 'user-2', 'user-3', true)
+      ).rejects.toThrow('permission');
+    });
+  });
+
+  describe('setMemberRole', () => {
+    it('should make a member a moderator', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        groupModeratorIds: [],
+        participants: ['user-1', 'user-2'],
+      });
+
+      await GroupService.setMemberRole('chat-123', 'user-1', 'user-2', 'moderator');
+
+      expect(mockUpdate).toHaveBeenCalledWith(expect.anything(), { groupModeratorIds: ['user-2'] });
+      expect(mockUpdate).toHaveBeenCalledWith(expect.anything(), { role: 'moderator' });
+      expect(findSystemMessage(mockSet).text).toBe('User 1 made User 2 a moderator');
+    });
+
+    it('should keep the legacy admin field in sync when adding an admin', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminId: 'user-1',
+        participants: ['user-1', 'user-2'],
+      });
+
+      await GroupService.setMemberRole('chat-123', 'user-1', 'user-2', 'admin');
+
+      expect(mockUpdate).toHaveBeenCalledWith(expect.anything(), {
+        groupAdminIds: ['user-1', 'user-2'],
+        groupAdminId: 'user-1',
+      });
+    });
+
+    it('should not let the last admin step down', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        participants: ['user-1', 'user-2'],
+      });
+
+      await expect(
+        GroupService.setMemberRole('chat-123', 'user-1', 'user-1', 'member')
+      ).rejects.toThrow('A group needs at least one admin');
+    });
+
+    it('should only let admins change roles', async () => {
+      mockGroup({
+        type: 'group',
+        groupAdminIds: ['user-1'],
+        groupModeratorIds: ['user-2'],
+        participants: ['user-1', 'user-2', 'user-3'],
+      });
+
+      await expect(
+        GroupService.setMemberRole('chat-123', 'user-2', 'user-3', 'moderator')
+      ).rejects.toThrow('Only admins can change member roles');
+    });
   });
 
   describe('leaveGroup', () => {
@@ -275,49 +429,94 @@ describe('GroupService', () => {
   });
 
   describe('joinGroupByInviteCode', () => {
-    it('should allow user to join via invite code', async () => {
-      (getDocs as jest.Mock).mockResolvedValue({
-        empty: false,
-        docs: [
-          {
-            id: 'chat-123',
-            data: () => ({ participants: ['user-1', 'user-2'] }),
-          },
-        ],
-      });
+    it('should join through the joinGroupByInvite function', async () => {
+      const joinFn = jest.fn().mockResolvedValue({ data: { groupId: 'chat-123', status: 'joined' } });
+      (httpsCallable as jest.Mock).mockReturnValue(joinFn);
 
-      await GroupService.joinGroupByInviteCode('ABC123', 'user-3');
+      const result = await GroupService.joinGroupByInviteCode('ABC123');
 
-      expect(mockSet).toHaveBeenCalled();
-      expect(mockUpdate).toHaveBeenCalled();
-      expect(mockCommit).toHaveBeenCalled();
+      expect(httpsCallable).toHaveBeenCalledWith(undefined, 'joinGroupByInvite');
+      expect(joinFn).toHaveBeenCalledWith({ code: 'ABC123' });
+      expect(result).toEqual({ groupId: 'chat-123', status: 'joined' });
     });
 
-    it('should throw error if invite code is invalid', async () => {
-      (getDocs as jest.Mock).mockResolvedValue({
-        empty: true,
-        docs: [],
+    it('should return requested when the link needs approval', async () => {
+      (httpsCallable as jest.Mock).mockReturnValue(
+        jest.fn().mockResolvedValue({ data: { groupId: 'chat-123', status: 'requested' } })
+      );
+
+      const result = await GroupService.joinGroupByInviteCode('ABC123');
+
+      expect(result.status).toBe('requested');
+    });
+
+    it('should pass on errors from the function', async () => {
+      (httpsCallable as jest.Mock).mockReturnValue(
+        jest.fn().mockRejectedValue(new Error('This invite link has expired'))
+      );
+
+      await expect(
+        GroupService.joinGroupByInviteCode('ABC123')
+      ).rejects.toThrow('This invite link has expired');
+    });
+  });
+
+  describe('invite links', () => {
+    it('should create a link with its limits', async () => {
+      const link = await GroupService.createInviteLink('chat-123', 'user-1', {
+        name: '  Newsletter ',
+        expiresAt: 5000,
+        maxUses: 10,
+        requiresApproval: true,
       });
 
+      expect(link).toEqual(expect.objectContaining({
+        code: 'ABC123',
+        groupId: 'chat-123',
+        name: 'Newsletter',
+        expiresAt: 5000,
+        maxUses: 10,
+        useCount: 0,
+        requiresApproval: true,
+        revoked: false,
+      }));
+      expect(doc).toHaveBeenCalledWith(expect.anything(), 'inviteLinks', 'ABC123');
+      expect(setDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.not.objectContaining({ code: expect.anything() })
+      );
+    });
+
+    it('should require a name and a positive usage limit', async () => {
+      await expect(
+        GroupService.createInviteLink('chat-123', 'user-1', { name: ' ' })
+      ).rejects.toThrow('Link name is required');
       await expect(
-        GroupService.joinGroupByInviteCode('INVALID', 'user-3')
-      ).rejects.toThrow('Invalid invite code');
+        GroupService.createInviteLink('chat-123', 'user-1', { name: 'Team', maxUses: 0 })
+      ).rejects.toThrow('Max uses must be at least 1');
     });
 
-    it('should throw error if user is already a member', async () => {
+    it('should list a group\'s links newest first', async () => {
       (getDocs as jest.Mock).mockResolvedValue({
-        empty: false,
         docs: [
-          {
-            id: 'chat-123',
-            data: () => ({ participants: ['user-1', 'user-2'] }),
-          },
+          { id: 'OLD', data: () => ({ groupId: 'chat-123', name: 'Old', createdAt: 100, useCount: 4 }) },
+          { id: 'NEW', data: () => ({ groupId: 'chat-123', name: 'New', createdAt: 200, revoked: true }) },
         ],
       });
 
-      await expect(
-        GroupService.joinGroupByInviteCode('ABC123', 'user-2')
-      ).rejects.toThrow('You are already a member');
+      const links = await GroupService.getInviteLinks('chat-123');
+
+      expect(links.map(link => link.code)).toEqual(['NEW', 'OLD']);
+      expect(links[1]).toEqual(expect.objectContaining({ useCount: 4, maxUses: null, expiresAt: null, revoked: false }));
+    });
+
+    it('should revoke a link', async () => {
+      await GroupService.revokeInviteLink('ABC123');
+
+      expect(updateDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ revoked: true, revokedAt: expect.any(Number) })
+      );
     });
   });
 
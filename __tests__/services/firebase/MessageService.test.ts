@@ -4,12 +4,20 @@
  * Tests message operations including send, update status, and reactions
  */
 
+import { EncryptionService, UNDECRYPTABLE_MESSAGE_TEXT } from '@/services/firebase/EncryptionService';
 import { MessageService } from '@/services/firebase/MessageService';
+import { decryptWithChatKey, encryptWithChatKey, generateChatKey } from '@/shared/utils/Encryption';
 import {
     doc,
     getDoc,
+    getDocs,
+    increment,
+    onSnapshot,
+    runTransaction,
     serverTimestamp,
     setDoc,
+    startAfter,
+    Timestamp,
     updateDoc
 } from 'firebase/firestore';
 
@@ -24,6 +32,11 @@ describe('MessageService', () => {
       data: () => ({ reactions: {} }),
       id: 'mock-id'
     });
+    // Transactions read and write through the getDoc / updateDoc mocks
+    (runTransaction as jest.Mock).mockImplementation((db, updateFunction) => updateFunction({
+      get: (ref: unknown) => (getDoc as jest.Mock)(ref),
+      update: (ref: unknown, data: unknown) => (updateDoc as jest.Mock)(ref, data),
+    }));
   });
 
   describe('sendMessage', () => {
@@ -70,6 +83,48 @@ describe('MessageService', () => {
       );
     });
 
+    it('should include quote fields when replying to a message', async () => {
+      const replyPreview = { senderId: 'user-2', text: 'Original message', type: 'text' as const };
+
+      await MessageService.sendMessage(
+        'chat-123',
+        'user-1',
+        'Replying!',
+        'message-789',
+        undefined,
+        undefined,
+        { replyToId: 'message-100', replyPreview }
+      );
+
+      expect(setDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ replyToId: 'message-100', replyPreview })
+      );
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should bump the root reply count for sub-thread replies', async () => {
+      await MessageService.sendMessage(
+        'chat-123',
+        'user-1',
+        'In the thread',
+        'message-790',
+        undefined,
+        undefined,
+        { threadId: 'message-100' }
+      );
+
+      expect(setDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ threadId: 'message-100' })
+      );
+      expect(increment).toHaveBeenCalledWith(1);
+      expect(updateDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ threadLastReplyAt: expect.any(Number) })
+      );
+    });
+
     it('should throw error if message send fails', async () => {
       (setDoc as jest.Mock).mockRejectedValue(new Error('Network error'));
 
@@ -108,6 +163,56 @@ describe('MessageService', () => {
   });
 
 
+  describe('delta sync', () => {
+    const timestamp = (ms: number) => ({ toMillis: () => ms });
+    const messageDoc = (id: string, updatedAt: number) => ({
+      id,
+      data: () => ({
+        senderId: 'user-2',
+        text: `Text ${id}`,
+        timestamp: timestamp(1000),
+        updatedAt: timestamp(updatedAt),
+        status: 'sent',
+        type: 'text',
+        reactions: { '👍': ['user-1'] },
+      }),
+    });
+
+    it('should stamp updatedAt on every message write', async () => {
+      await MessageService.updateMessageStatus('chat-123', 'message-123', 'read');
+
+      expect(updateDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ status: 'read', updatedAt: expect.anything() })
+      );
+    });
+
+    it('should get the changes after a cursor, skipping the change at the cursor', async () => {
+      (getDocs as jest.Mock).mockResolvedValueOnce({
+        docs: [messageDoc('msg-5', 5000), messageDoc('msg-6', 6000)],
+      });
+
+      const result = await MessageService.getMessageChanges('chat-123', { updatedAt: 5000, messageId: 'msg-5' }, 2);
+
+      expect(Timestamp.fromMillis).toHaveBeenCalledWith(5000);
+      expect(startAfter).toHaveBeenCalledWith(expect.anything(), 'msg-5');
+      expect(result.messages).toEqual([
+        expect.objectContaining({ id: 'msg-6', chatId: 'chat-123', timestamp: 1000, reactions: { '👍': ['user-1'] } }),
+      ]);
+      expect(result.cursor).toEqual({ updatedAt: 6000, messageId: 'msg-6' });
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should return no cursor when nothing changed', async () => {
+      (getDocs as jest.Mock).mockResolvedValueOnce({ docs: [] });
+
+      const result = await MessageService.getMessageChanges('chat-123', null);
+
+      expect(startAfter).not.toHaveBeenCalled();
+      expect(result).toEqual({ messages: [], cursor: null, hasMore: false });
+    });
+  });
+
   describe('addReaction', () => {
     it('should add a reaction to a message', async () => {
       (doc as jest.Mock).mockReturnValue({ id: 'message-123' });
@@ -139,5 +244,178 @@ describe('MessageService', () => {
       expect(updateDoc).toHaveBeenCalled();
     });
   });
-});
 
+  describe('editMessage', () => {
+    const originalMessage = {
+      senderId: 'user-1',
+      type: 'text',
+      text: 'Helo',
+      editHistory: [],
+    };
+
+    it('should update text and append the previous version to history', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => originalMessage,
+      });
+
+      const result = await MessageService.editMessage('chat-123', 'message-123', 'user-1', 'Hello');
+
+      expect(runTransaction).toHaveBeenCalledTimes(1);
+      expect(result.editHistory).toHaveLength(1);
+      expect(result.editHistory[0].text).toBe('Helo');
+      expect(updateDoc).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          text: 'Hello',
+          editedAt: result.editedAt,
+          editHistory: [expect.objectContaining({ text: 'Helo' })],
+        })
+      );
+    });
+
+    it('should reject edits from someone other than the sender', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => originalMessage,
+      });
+
+      await expect(
+        MessageService.editMessage('chat-123', 'message-123', 'user-2', 'Hello')
+      ).rejects.toThrow();
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should reject edits to non-text messages', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ ...originalMessage, type: 'image' }),
+      });
+
+      await expect(
+        MessageService.editMessage('chat-123', 'message-123', 'user-1', 'Hello')
+      ).rejects.toThrow();
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should not write when the text is unchanged', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => originalMessage,
+      });
+
+      await MessageService.editMessage('chat-123', 'message-123', 'user-1', '  Helo  ');
+
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('end-to-end encryption', () => {
+    const chatKey = generateChatKey();
+
+    const encryptedDoc = (id: string, content: object) => ({
+      id,
+      data: () => ({
+        senderId: 'user-2',
+        text: '',
+        type: 'text',
+        status: 'sent',
+        encrypted: true,
+        keyVersion: 1,
+        ...encryptWithChatKey(JSON.stringify(content), chatKey),
+      }),
+    });
+
+    // Deliver one snapshot to the listener and wait for async decryption
+    const emitSnapshot = async (docs: ReturnType<typeof encryptedDoc>[]) => {
+      const onUpdate = jest.fn();
+      (onSnapshot as jest.Mock).mockImplementationOnce((_query, next) => {
+        next({ forEach: (callback: (doc: unknown) => void) => docs.forEach(callback) });
+        return jest.fn();
+      });
+
+      MessageService.subscribeToMessages('chat-e2ee', onUpdate, jest.fn());
+      await new Promise(resolve => setImmediate(resolve));
+      return onUpdate;
+    };
+
+    beforeEach(() => {
+      EncryptionService.setChatEncryption('chat-e2ee', true, 1);
+      jest.spyOn(EncryptionService, 'getChatKey').mockResolvedValue(chatKey);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      EncryptionService.clearCache();
+    });
+
+    it('should only send ciphertext in an encrypted chat', async () => {
+      const replyPreview = { senderId: 'user-2', text: 'Quoted secret', type: 'text' as const };
+
+      await MessageService.sendMessage(
+        'chat-e2ee', 'user-1', 'Top secret', 'message-1', undefined,
+        { originalText: 'Alto secreto', originalLanguage: 'es', translatedTo: 'en', sentAsTranslation: true },
+        { replyToId: 'message-0', replyPreview }
+      );
+
+      const sent = (setDoc as jest.Mock).mock.calls[0][1];
+      expect(sent).toEqual(expect.objectContaining({ text: '', encrypted: true, keyVersion: 1, replyToId: 'message-0', replyPreview: null }));
+      expect(sent.originalText).toBeUndefined();
+      expect(JSON.stringify(sent)).not.toMatch(/secret/i);
+
+      const content = JSON.parse(decryptWithChatKey(sent, chatKey)!);
+      expect(content).toEqual(expect.objectContaining({ text: 'Top secret', replyPreview }));
+    });
+
+    it('should refuse to send when this device has no chat key', async () => {
+      (EncryptionService.getChatKey as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        MessageService.sendMessage('chat-e2ee', 'user-1', 'Top secret', 'message-1')
+      ).rejects.toThrow('Encryption key is not available');
+      expect(setDoc).not.toHaveBeenCalled();
+    });
+
+    it('should decrypt messages from the listener', async () => {
+      const onUpdate = await emitSnapshot([
+        encryptedDoc('message-1', { text: 'Hello there', editHistory: [{ text: 'Helo there', editedAt: 1 }] }),
+      ]);
+
+      expect(onUpdate).toHaveBeenCalledWith([
+        expect.objectContaining({
+          id: 'message-1',
+          text: 'Hello there',
+          encrypted: true,
+          editHistory: [{ text: 'Helo there', editedAt: 1 }],
+        }),
+      ]);
+    });
+
+    it('should show a placeholder for messages it cannot decrypt', async () => {
+      (EncryptionService.getChatKey as jest.Mock).mockResolvedValue(null);
+
+      const onUpdate = await emitSnapshot([encryptedDoc('message-1', { text: 'Hello there' })]);
+
+      expect(onUpdate).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'message-1', text: UNDECRYPTABLE_MESSAGE_TEXT }),
+      ]);
+    });
+
+    it('should re-encrypt edits and keep the history inside the ciphertext', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ ...encryptedDoc('message-1', { text: 'Helo' }).data(), senderId: 'user-1' }),
+      });
+
+      const result = await MessageService.editMessage('chat-e2ee', 'message-1', 'user-1', 'Hello');
+
+      const update = (updateDoc as jest.Mock).mock.calls[0][1];
+      expect(update.text).toBeUndefined();
+      expect(update.editHistory).toBeUndefined();
+      expect(JSON.parse(decryptWithChatKey(update, chatKey)!)).toEqual({
+        text: 'Hello',
+        editHistory: [{ text: 'Helo', editedAt: result.editedAt }],
+      });
+    });
+  });
+});
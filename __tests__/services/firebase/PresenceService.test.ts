@@ -1,14 +1,27 @@
 /**
  * PresenceService Tests
  * 
- * Tests online/offline status and typing indicators
+ * Tests online/away/offline status, presence settings and typing indicators
  */
 
 import { PresenceService } from '@/services/firebase/PresenceService';
 import { onDisconnect, onValue, remove, set } from 'firebase/database';
+import { httpsCallable } from 'firebase/functions';
+
+jest.mock('firebase/functions', () => ({
+  getFunctions: jest.fn(() => ({})),
+  httpsCallable: jest.fn(() => jest.fn().mockResolvedValue({ data: { count: 0 } })),
+}));
 
 describe('PresenceService', () => {
-  beforeEach(() => {
+  const defaultSettings = { customStatus: null, doNotDisturb: false, lastSeenVisibility: 'everyone' as const };
+
+  beforeEach(async () => {
+    (onDisconnect as jest.Mock).mockReturnValue({
+      set: jest.fn().mockResolvedValue(undefined),
+      cancel: jest.fn().mockResolvedValue(undefined),
+    });
+    await PresenceService.updateSettings('user-123', 'John Doe', defaultSettings);
     jest.clearAllMocks();
   });
 
@@ -48,6 +61,94 @@ describe('PresenceService', () => {
         })
       );
     });
+
+    it('should show do not disturb instead of online', async () => {
+      await PresenceService.updateSettings('user-123', 'John Doe', { ...defaultSettings, doNotDisturb: true });
+      await PresenceService.setOnline('user-123', 'John Doe');
+
+      expect(set).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ visibility: 'everyone' })
+      );
+      expect(set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ isOnline: true, state: 'dnd' })
+      );
+    });
+
+    it('should publish an active custom status', async () => {
+      const customStatus = { text: 'In a meeting', emoji: '📅', expiresAt: Date.now() + 60000 };
+
+      await PresenceService.updateSettings('user-123', 'John Doe', { ...defaultSettings, customStatus });
+      await PresenceService.setOnline('user-123', 'John Doe');
+
+      expect(set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ state: 'online', customStatus })
+      );
+    });
+
+    it('should leave out an expired custom status', async () => {
+      const customStatus = { text: 'Lunch', emoji: null, expiresAt: Date.now() - 1000 };
+
+      await PresenceService.updateSettings('user-123', 'John Doe', { ...defaultSettings, customStatus });
+      await PresenceService.setOnline('user-123', 'John Doe');
+
+      expect(set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ state: 'online', customStatus: null })
+      );
+    });
+  });
+
+  describe('syncBlockedUsers', () => {
+    it('should sync the blocks mirror once per signed-in user', async () => {
+      const syncFn = jest.fn().mockResolvedValue({ data: { count: 1 } });
+      (httpsCallable as jest.Mock).mockReturnValue(syncFn);
+
+      await PresenceService.setOnline('user-blocks', 'Jane Doe');
+      await PresenceService.setOnline('user-blocks', 'Jane Doe');
+
+      expect((httpsCallable as jest.Mock).mock.calls[0][1]).toBe('syncMyBlockedUsers');
+      expect(syncFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('setAway', () => {
+    it('should set user status to away', async () => {
+      await PresenceService.setAway('user-123', 'John Doe');
+
+      expect(set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ isOnline: true, state: 'away' })
+      );
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should write the last seen visibility', async () => {
+      await PresenceService.setOnline('user-123', 'John Doe');
+      (set as jest.Mock).mockClear();
+
+      await PresenceService.updateSettings('user-123', 'John Doe', { ...defaultSettings, lastSeenVisibility: 'nobody' });
+
+      expect(set).toHaveBeenCalledWith(
+        expect.anything(),
+        { timestamp: expect.any(Number), visibility: 'nobody' }
+      );
+    });
+
+    it('should sync the contacts mirror when last seen becomes contacts only', async () => {
+      const syncFn = jest.fn().mockResolvedValue({ data: { count: 2 } });
+      (httpsCallable as jest.Mock).mockReturnValue(syncFn);
+      const contactsOnly = { ...defaultSettings, lastSeenVisibility: 'contacts' as const };
+
+      await PresenceService.updateSettings('user-123', 'John Doe', contactsOnly);
+      await PresenceService.updateSettings('user-123', 'John Doe', contactsOnly);
+
+      expect((httpsCallable as jest.Mock).mock.calls[0][1]).toBe('syncMyPresenceContacts');
+      expect(syncFn).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('setOffline', () => {
@@ -109,8 +210,13 @@ describe('PresenceService', () => {
         expect.anything(),
         expect.objectContaining({
           isOnline: true,
-          userName: 'John Doe',
-          lastSeen: expect.any(Number)
+          userName: 'John Doe'
+        })
+      );
+      expect(set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          timestamp: expect.any(Number)
         })
       );
     });
@@ -135,33 +241,68 @@ describe('PresenceService', () => {
 
     it('should call callback with presence data', () => {
       const mockCallback = jest.fn();
-      let snapshotCallback: any;
+      const snapshotCallbacks: any[] = [];
 
       (onValue as jest.Mock).mockImplementation((ref, callback) => {
-        snapshotCallback = callback;
+        snapshotCallbacks.push(callback);
         return jest.fn();
       });
 
       PresenceService.subscribeToPresence('user-123', mockCallback, jest.fn());
+      const [presenceCallback, lastSeenCallback] = snapshotCallbacks;
 
-      // Simulate snapshot
-      const mockSnapshot = {
-        val: () => ({
-          isOnline: true,
-          userName: 'John Doe',
-          lastSeen: Date.now()
-        }),
+      // Simulate snapshots
+      presenceCallback({
+        val: () => ({ isOnline: true, userName: 'John Doe', state: 'online' }),
         exists: () => true
-      };
-
-      snapshotCallback(mockSnapshot);
+      });
+      lastSeenCallback({
+        val: () => ({ timestamp: 1000, visibility: 'everyone' }),
+        exists: () => true
+      });
 
-      expect(mockCallback).toHaveBeenCalledWith({
+      expect(mockCallback).toHaveBeenLastCalledWith({
         isOnline: true,
         userName: 'John Doe',
-        lastSeen: expect.any(Number)
+        lastSeen: 1000,
+        state: 'online',
+        customStatus: null
       });
     });
+
+    it('should leave out a hidden last seen', () => {
+      const mockCallback = jest.fn();
+      const callbacks: { onNext: any; onError: any }[] = [];
+
+      (onValue as jest.Mock).mockImplementation((ref, onNext, onError) => {
+        callbacks.push({ onNext, onError });
+        return jest.fn();
+      });
+
+      PresenceService.subscribeToPresence('user-123', mockCallback, jest.fn());
+
+      callbacks[1].onError(new Error('PERMISSION_DENIED'));
+      expect(mockCallback).not.toHaveBeenCalled();
+
+      // Presence from before states existed
+      callbacks[0].onNext({ val: () => ({ isOnline: false, userName: 'John Doe' }), exists: () => true });
+
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ isOnline: false, state: 'offline', lastSeen: null })
+      );
+    });
+
+    it('should unsubscribe from presence and last seen', () => {
+      const unsubscribes = [jest.fn(), jest.fn()];
+      (onValue as jest.Mock)
+        .mockReturnValueOnce(unsubscribes[0])
+        .mockReturnValueOnce(unsubscribes[1]);
+
+      PresenceService.subscribeToPresence('user-123', jest.fn(), jest.fn())();
+
+      expect(unsubscribes[0]).toHaveBeenCalled();
+      expect(unsubscribes[1]).toHaveBeenCalled();
+    });
   });
 
   describe('startTyping', () => {
@@ -191,50 +332,37 @@ describe('PresenceService', () => {
   });
 
   describe('subscribeToTyping', () => {
-    it('should subscribe to typing indicators in chat', () => {
-      const mockCallback = jest.fn();
+    it('should listen to every other participant of the chat', () => {
       const mockUnsubscribe = jest.fn();
-
       (onValue as jest.Mock).mockReturnValue(mockUnsubscribe);
 
       const unsubscribe = PresenceService.subscribeToTyping(
         'chat-123',
         'user-123',
-        mockCallback,
+        ['user-123', 'user-456', 'user-789'],
+        jest.fn(),
         jest.fn()
       );
+      unsubscribe();
 
-      expect(onValue).toHaveBeenCalled();
-      expect(typeof unsubscribe).toBe('function');
+      expect(onValue).toHaveBeenCalledTimes(2);
+      expect(mockUnsubscribe).toHaveBeenCalledTimes(2);
     });
 
-    it.skip('should filter out current user from typing list - TODO: Fix in next PR', () => {
+    it('should report recently typing users and skip users hidden by a block', () => {
       const mockCallback = jest.fn();
-      let snapshotCallback: any;
-
-      (onValue as jest.Mock).mockImplementation((ref, callback) => {
-        snapshotCallback = callback;
+      const listeners: { onData: (snapshot: any) => void; onDenied: () => void }[] = [];
+      (onValue as jest.Mock).mockImplementation((ref, onData, onDenied) => {
+        listeners.push({ onData, onDenied });
         return jest.fn();
       });
 
-      PresenceService.subscribeToTyping('chat-123', 'user-123', mockCallback, jest.fn());
-
-      // Simulate snapshot with multiple users typing
-      const mockSnapshot = {
-        val: () => ({
-          'user-123': { userName: 'Me', timestamp: Date.now() }, // Should be filtered
-          'user-456': { userName: 'John', timestamp: Date.now() },
-          'user-789': { userName: 'Jane', timestamp: Date.now() }
-        }),
-        exists: () => true
-      };
-
-      snapshotCallback(mockSnapshot);
+      PresenceService.subscribeToTyping('chat-123', 'user-123', ['user-123', 'user-456', 'user-789'], mockCallback, jest.fn());
+      listeners[0].onData({ val: () => ({ userName: 'John', timestamp: Date.now() }) });
+      listeners[1].onDenied();
 
-      // Should only return other users
-      expect(mockCallback).toHaveBeenCalledWith([
+      expect(mockCallback).toHaveBeenLastCalledWith([
         { userId: 'user-456', userName: 'John', timestamp: expect.any(Number) },
-        { userId: 'user-789', userName: 'Jane', timestamp: expect.any(Number) }
       ]);
     });
   });
@@ -0,0 +1,123 @@
+/**
+ * ScheduledMessageService Tests
+ *
+ * Tests scheduling, editing, cancelling and listening to send-later messages
+ */
+
+import { ScheduledMessageService } from '@/services/firebase/ScheduledMessageService';
+import {
+    deleteDoc,
+    doc,
+    getDoc,
+    onSnapshot,
+    setDoc,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ScheduledMessageService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (doc as jest.Mock).mockReturnValue({ id: 'scheduled-1' });
+  });
+
+  describe('scheduleMessage', () => {
+    it('should store a pending message with reply data', async () => {
+      const scheduledFor = Date.now() + HOUR;
+      const replyPreview = { senderId: 'user-2', text: 'See you then?', type: 'text' as const };
+
+      const result = await ScheduledMessageService.scheduleMessage(
+        'chat-1',
+        'user-1',
+        '  Yes, 6pm works  ',
+        scheduledFor,
+        { replyToId: 'msg-9', replyPreview }
+      );
+
+      expect(setDoc).toHaveBeenCalledWith(
+        { id: 'scheduled-1' },
+        expect.objectContaining({
+          senderId: 'user-1',
+          text: 'Yes, 6pm works',
+          scheduledFor,
+          status: 'pending',
+          replyToId: 'msg-9',
+          replyPreview,
+        })
+      );
+      expect(result).toEqual(expect.objectContaining({ id: 'scheduled-1', chatId: 'chat-1', status: 'pending' }));
+    });
+
+    it('should reject times in the past', async () => {
+      await expect(
+        ScheduledMessageService.scheduleMessage('chat-1', 'user-1', 'Too late', Date.now() - 1000)
+      ).rejects.toThrow('Scheduled time must be at least a minute in the future');
+      expect(setDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateScheduledMessage', () => {
+    it('should update text and time of a pending message', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ status: 'pending' }),
+      });
+      const scheduledFor = Date.now() + 2 * HOUR;
+
+      await ScheduledMessageService.updateScheduledMessage('chat-1', 'scheduled-1', {
+        text: 'Updated',
+        scheduledFor,
+      });
+
+      expect(updateDoc).toHaveBeenCalledWith(
+        { id: 'scheduled-1' },
+        expect.objectContaining({ text: 'Updated', scheduledFor })
+      );
+    });
+
+    it('should not edit a message that is already being delivered', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        data: () => ({ status: 'sending' }),
+      });
+
+      await expect(
+        ScheduledMessageService.updateScheduledMessage('chat-1', 'scheduled-1', { text: 'Too late' })
+      ).rejects.toThrow('Scheduled message is already being sent');
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelScheduledMessage', () => {
+    it('should delete the scheduled message', async () => {
+      await ScheduledMessageService.cancelScheduledMessage('chat-1', 'scheduled-1');
+
+      expect((doc as jest.Mock).mock.calls[0].slice(1)).toEqual(['chats', 'chat-1', 'scheduledMessages', 'scheduled-1']);
+      expect(deleteDoc).toHaveBeenCalledWith({ id: 'scheduled-1' });
+    });
+  });
+
+  describe('subscribeToScheduledMessages', () => {
+    it('should only listen to the current user\'s messages', () => {
+      const onUpdate = jest.fn();
+      (onSnapshot as jest.Mock).mockImplementation((_query, next) => {
+        next({
+          docs: [{
+            id: 'scheduled-1',
+            data: () => ({ senderId: 'user-1', text: 'Hi', scheduledFor: 123, status: 'pending' }),
+          }],
+        });
+        return jest.fn();
+      });
+
+      ScheduledMessageService.subscribeToScheduledMessages('chat-1', 'user-1', onUpdate, jest.fn());
+
+      expect(where).toHaveBeenCalledWith('senderId', '==', 'user-1');
+      expect(onUpdate).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'scheduled-1', chatId: 'chat-1', text: 'Hi', status: 'pending' }),
+      ]);
+    });
+  });
+});
@@ -160,6 +160,43 @@ describe('StorageService', () => {
     });
   });
 
+  describe('uploadVoiceMessage', () => {
+    it('should upload the recording and return its download URL', async () => {
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({
+        size: 200 * 1024,
+        exists: true
+      });
+      global.fetch = jest.fn().mockResolvedValue({
+        blob: jest.fn().mockResolvedValue('audio-blob')
+      }) as jest.Mock;
+      (uploadBytes as jest.Mock).mockResolvedValue({});
+      (getDownloadURL as jest.Mock).mockResolvedValue('https://storage/voice.m4a');
+
+      const url = await StorageService.uploadVoiceMessage(
+        'chat-123',
+        'message-456',
+        'file://recording.m4a'
+      );
+
+      expect(url).toBe('https://storage/voice.m4a');
+      const [, uploadedBlob, metadata] = (uploadBytes as jest.Mock).mock.calls[0];
+      expect(uploadedBlob).toBe('audio-blob');
+      expect(metadata).toEqual({ contentType: 'audio/mp4' });
+    });
+
+    it('should throw error if recording is too large', async () => {
+      (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({
+        size: 15 * 1024 * 1024,
+        exists: true
+      });
+
+      await expect(
+        StorageService.uploadVoiceMessage('chat-123', 'message-456', 'file://long.m4a')
+      ).rejects.toThrow('Voice message exceeds 10MB limit');
+      expect(uploadBytes).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getFileSizeMB', () => {
     it('should return file size in megabytes', async () => {
       (FileSystem.getInfoAsync as jest.Mock).mockResolvedValue({
@@ -0,0 +1,56 @@
+import type { AIAssistantSource } from '@/shared/types';
+import { findCitedSource, getCitedSources, splitCitations } from '@/shared/utils/AIAssistantCitations';
+
+const source = (index: number, messageId: string): AIAssistantSource => ({
+  index,
+  type: 'chunk',
+  chatId: 'chat1',
+  chatName: 'Maria',
+  messageId,
+  snippet: `Message ${messageId}`,
+});
+
+describe('AIAssistantCitations', () => {
+  const sources = [source(1, 'm1'), source(2, 'm2'), source(3, 'm3')];
+
+  describe('getCitedSources', () => {
+    it('should return cited sources in order of first reference', () => {
+      expect(getCitedSources('Dinner at 8 [3], then drinks [1][3].', sources)).toEqual([sources[2], sources[0]]);
+    });
+
+    it('should ignore markers without a source', () => {
+      expect(getCitedSources('See [7] and [2]', sources)).toEqual([sources[1]]);
+    });
+
+    it('should return all sources when none are cited', () => {
+      expect(getCitedSources('Nothing specific', sources)).toBe(sources);
+    });
+
+    it('should number older sources by position', () => {
+      const older = [{ chatId: 'chat1', chatName: 'Maria', snippet: 'a' }, { chatId: 'chat2', chatName: 'Team', snippet: 'b' }];
+
+      expect(getCitedSources('From the team [2]', older)).toEqual([older[1]]);
+      expect(findCitedSource(older, 1)).toBe(older[0]);
+    });
+  });
+
+  describe('splitCitations', () => {
+    it('should split the answer around citation markers', () => {
+      expect(splitCitations('At 9 [1], or 10 [2].', sources)).toEqual([
+        { text: 'At 9 ', sourceIndex: null },
+        { text: '[1]', sourceIndex: 1 },
+        { text: ', or 10 ', sourceIndex: null },
+        { text: '[2]', sourceIndex: 2 },
+        { text: '.', sourceIndex: null },
+      ]);
+    });
+
+    it('should keep unknown markers as plain text', () => {
+      expect(splitCitations('Item [9] costs $5', sources)).toEqual([{ text: 'Item [9] costs $5', sourceIndex: null }]);
+    });
+
+    it('should return nothing for an empty answer', () => {
+      expect(splitCitations('', sources)).toEqual([]);
+    });
+  });
+});
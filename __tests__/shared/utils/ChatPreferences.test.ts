@@ -0,0 +1,66 @@
+import { Chat } from '@/shared/types';
+import {
+    getBadgeCount,
+    getMutedUntil,
+    isChatMuted,
+    MUTED_FOREVER,
+    sortChatsForList,
+} from '@/shared/utils/ChatPreferences';
+
+const makeChat = (overrides: Partial<Chat>): Chat => ({
+  id: 'chat',
+  type: 'one-on-one',
+  participants: ['user-1', 'user-2'],
+  lastMessageText: 'Hi',
+  lastMessageTime: 0,
+  lastMessageSenderId: 'user-2',
+  createdAt: 0,
+  createdBy: 'user-1',
+  ...overrides,
+});
+
+describe('ChatPreferences', () => {
+  const now = 1_000_000;
+
+  describe('isChatMuted', () => {
+    it('should only treat future mutedUntil values as muted', () => {
+      expect(isChatMuted({ mutedUntil: now + 1 }, now)).toBe(true);
+      expect(isChatMuted({ mutedUntil: now - 1 }, now)).toBe(false);
+      expect(isChatMuted({ mutedUntil: null }, now)).toBe(false);
+      expect(isChatMuted({ mutedUntil: getMutedUntil(null, now) }, now)).toBe(true);
+    });
+  });
+
+  describe('getMutedUntil', () => {
+    it('should add the duration or mute forever', () => {
+      expect(getMutedUntil(60_000, now)).toBe(now + 60_000);
+      expect(getMutedUntil(null, now)).toBe(MUTED_FOREVER);
+    });
+  });
+
+  describe('getBadgeCount', () => {
+    it('should ignore unread messages in muted chats', () => {
+      const chats = [
+        makeChat({ id: 'a', unreadCount: 3 }),
+        makeChat({ id: 'b', unreadCount: 5, mutedUntil: now + 60_000 }),
+        makeChat({ id: 'c', unreadCount: 2, mutedUntil: now - 60_000 }),
+        makeChat({ id: 'd' }),
+      ];
+
+      expect(getBadgeCount(chats, now)).toBe(5);
+    });
+  });
+
+  describe('sortChatsForList', () => {
+    it('should put pinned chats first, then newest messages', () => {
+      const chats = [
+        makeChat({ id: 'old', lastMessageTime: 100 }),
+        makeChat({ id: 'new', lastMessageTime: 300 }),
+        makeChat({ id: 'pinned-old', lastMessageTime: 50, pinned: true }),
+        makeChat({ id: 'pinned-new', lastMessageTime: 200, pinned: true }),
+      ];
+
+      expect(sortChatsForList(chats).map(chat => chat.id)).toEqual(['pinned-new', 'pinned-old', 'new', 'old']);
+    });
+  });
+});
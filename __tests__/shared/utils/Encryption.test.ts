@@ -0,0 +1,53 @@
+import {
+    decryptWithChatKey,
+    encryptWithChatKey,
+    generateChatKey,
+    generateDeviceKeyPair,
+    openChatKey,
+    sealChatKey,
+} from '@/shared/utils/Encryption';
+
+describe('Encryption utils', () => {
+  describe('chat key encryption', () => {
+    it('should round-trip UTF-8 text', () => {
+      const chatKey = generateChatKey();
+      const encrypted = encryptWithChatKey('Hola, ¿qué tal? 👋', chatKey);
+
+      expect(encrypted.ciphertext).not.toContain('Hola');
+      expect(decryptWithChatKey(encrypted, chatKey)).toBe('Hola, ¿qué tal? 👋');
+    });
+
+    it('should use a fresh nonce for every message', () => {
+      const chatKey = generateChatKey();
+
+      const first = encryptWithChatKey('same text', chatKey);
+      const second = encryptWithChatKey('same text', chatKey);
+
+      expect(first.nonce).not.toBe(second.nonce);
+      expect(first.ciphertext).not.toBe(second.ciphertext);
+    });
+
+    it('should return null for the wrong key or tampered data', () => {
+      const chatKey = generateChatKey();
+      const encrypted = encryptWithChatKey('secret', chatKey);
+      const tampered = { ...encrypted, ciphertext: encryptWithChatKey('other', chatKey).ciphertext };
+
+      expect(decryptWithChatKey(encrypted, generateChatKey())).toBeNull();
+      expect(decryptWithChatKey(tampered, chatKey)).toBeNull();
+      expect(decryptWithChatKey({ ciphertext: 'not base64!', nonce: encrypted.nonce }, chatKey)).toBeNull();
+    });
+  });
+
+  describe('sealed chat keys', () => {
+    it('should only open on the device it was sealed for', () => {
+      const device = generateDeviceKeyPair();
+      const otherDevice = generateDeviceKeyPair();
+      const chatKey = generateChatKey();
+
+      const sealed = sealChatKey(chatKey, device.publicKey);
+
+      expect(openChatKey(sealed, device.secretKey)).toBe(chatKey);
+      expect(openChatKey(sealed, otherDevice.secretKey)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { Chat } from '@/shared/types';
+import {
+    canAddMembers,
+    canEditGroupInfo,
+    canManageMember,
+    getGroupAdminIds,
+    getGroupRole,
+    getGroupSettings,
+    getPostRestriction,
+    isGroupStaff,
+} from '@/shared/utils/GroupRoles';
+
+const makeGroup = (overrides: Partial<Chat> = {}): Chat => ({
+  id: 'group',
+  type: 'group',
+  participants: ['admin', 'mod', 'member', 'muted'],
+  lastMessageText: '',
+  lastMessageTime: 0,
+  lastMessageSenderId: 'admin',
+  createdAt: 0,
+  createdBy: 'admin',
+  groupAdminId: 'admin',
+  groupAdminIds: ['admin'],
+  groupModeratorIds: ['mod'],
+  mutedMemberIds: ['muted'],
+  ...overrides,
+});
+
+describe('GroupRoles', () => {
+  describe('getGroupAdminIds', () => {
+    it('should fall back to groupAdminId for older groups', () => {
+      expect(getGroupAdminIds(makeGroup({ groupAdminIds: ['a', 'b'] }))).toEqual(['a', 'b']);
+      expect(getGroupAdminIds(makeGroup({ groupAdminIds: undefined }))).toEqual(['admin']);
+      expect(getGroupAdminIds({ type: 'group' })).toEqual([]);
+    });
+  });
+
+  describe('getGroupRole', () => {
+    it('should return each member\'s role', () => {
+      const group = makeGroup();
+      expect(getGroupRole(group, 'admin')).toBe('admin');
+      expect(getGroupRole(group, 'mod')).toBe('moderator');
+      expect(getGroupRole(group, 'member')).toBe('member');
+      expect(isGroupStaff(group, 'mod')).toBe(true);
+      expect(isGroupStaff(group, 'member')).toBe(false);
+    });
+  });
+
+  describe('getGroupSettings', () => {
+    it('should fill in defaults for missing settings', () => {
+      expect(getGroupSettings(makeGroup())).toEqual({
+        onlyAdminsCanPost: false,
+        onlyAdminsCanEditInfo: false,
+        approveJoinRequests: false,
+      });
+      expect(getGroupSettings(makeGroup({
+        groupSettings: { onlyAdminsCanPost: true } as Chat['groupSettings'],
+      })).onlyAdminsCanPost).toBe(true);
+    });
+  });
+
+  describe('getPostRestriction', () => {
+    it('should stop muted members from posting', () => {
+      expect(getPostRestriction(makeGroup(), 'muted')).toBe('muted');
+      expect(getPostRestriction(makeGroup(), 'member')).toBeNull();
+    });
+
+    it('should only let admins post when the group is admins-only', () => {
+      const group = makeGroup({
+        groupSettings: { onlyAdminsCanPost: true, onlyAdminsCanEditInfo: false, approveJoinRequests: false },
+      });
+      expect(getPostRestriction(group, 'admin')).toBeNull();
+      expect(getPostRestriction(group, 'mod')).toBe('admins-only');
+      expect(getPostRestriction(group, 'member')).toBe('admins-only');
+    });
+
+    it('should never restrict one-on-one chats', () => {
+      expect(getPostRestriction(makeGroup({ type: 'one-on-one' }), 'muted')).toBeNull();
+    });
+  });
+
+  describe('canEditGroupInfo', () => {
+    it('should let anyone edit unless restricted to admins', () => {
+      expect(canEditGroupInfo(makeGroup(), 'member')).toBe(true);
+
+      const group = makeGroup({
+        groupSettings: { onlyAdminsCanPost: false, onlyAdminsCanEditInfo: true, approveJoinRequests: false },
+      });
+      expect(canEditGroupInfo(group, 'admin')).toBe(true);
+      expect(canEditGroupInfo(group, 'mod')).toBe(false);
+    });
+  });
+
+  describe('canAddMembers', () => {
+    it('should limit adding members to admins and moderators when joins need approval', () => {
+      expect(canAddMembers(makeGroup(), 'member')).toBe(true);
+
+      const group = makeGroup({
+        groupSettings: { onlyAdminsCanPost: false, onlyAdminsCanEditInfo: false, approveJoinRequests: true },
+      });
+      expect(canAddMembers(group, 'mod')).toBe(true);
+      expect(canAddMembers(group, 'member')).toBe(false);
+    });
+  });
+
+  describe('canManageMember', () => {
+    it('should let admins manage anyone but themselves', () => {
+      const group = makeGroup({ groupAdminIds: ['admin', 'admin-2'] });
+      expect(canManageMember(group, 'admin', 'admin-2')).toBe(true);
+      expect(canManageMember(group, 'admin', 'mod')).toBe(true);
+      expect(canManageMember(group, 'admin', 'admin')).toBe(false);
+    });
+
+    it('should only let moderators manage members', () => {
+      const group = makeGroup({ groupModeratorIds: ['mod', 'mod-2'] });
+      expect(canManageMember(group, 'mod', 'member')).toBe(true);
+      expect(canManageMember(group, 'mod', 'mod-2')).toBe(false);
+      expect(canManageMember(group, 'mod', 'admin')).toBe(false);
+      expect(canManageMember(group, 'member', 'muted')).toBe(false);
+    });
+  });
+});
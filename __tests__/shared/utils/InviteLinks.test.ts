@@ -0,0 +1,29 @@
+import { buildInviteUrl, getInviteLinkStatus, parseInviteCode } from '@/shared/utils/InviteLinks';
+
+describe('InviteLinks', () => {
+  describe('parseInviteCode', () => {
+    it('should accept links and bare codes', () => {
+      expect(parseInviteCode(buildInviteUrl('K3XZ9QP2LM'))).toBe('K3XZ9QP2LM');
+      expect(parseInviteCode('  avoai://join/k3xz9qp2lm?ref=share ')).toBe('K3XZ9QP2LM');
+      expect(parseInviteCode('ABC123')).toBe('ABC123');
+    });
+
+    it('should reject anything else', () => {
+      expect(parseInviteCode('https://example.com/join/ABC123')).toBeNull();
+      expect(parseInviteCode('avoai://join/')).toBeNull();
+      expect(parseInviteCode('ABC')).toBeNull();
+    });
+  });
+
+  describe('getInviteLinkStatus', () => {
+    const now = 10_000;
+    const link = { revoked: false, expiresAt: null, maxUses: null, useCount: 0 };
+
+    it('should report why a link can no longer be used', () => {
+      expect(getInviteLinkStatus(link, now)).toBe('active');
+      expect(getInviteLinkStatus({ ...link, expiresAt: now }, now)).toBe('expired');
+      expect(getInviteLinkStatus({ ...link, maxUses: 2, useCount: 2 }, now)).toBe('used-up');
+      expect(getInviteLinkStatus({ ...link, revoked: true, maxUses: 2, useCount: 2 }, now)).toBe('revoked');
+    });
+  });
+});
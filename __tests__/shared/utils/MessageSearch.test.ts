@@ -0,0 +1,48 @@
+import {
+    buildSearchQuery,
+    SEARCH_HIGHLIGHT_END,
+    SEARCH_HIGHLIGHT_START,
+    splitHighlights,
+} from '@/shared/utils/MessageSearch';
+
+describe('MessageSearch utils', () => {
+  describe('buildSearchQuery', () => {
+    it('should require every word and prefix-match the last one', () => {
+      expect(buildSearchQuery('dinner fri')).toBe('"dinner" "fri"*');
+      expect(buildSearchQuery('  hello  ')).toBe('"hello"*');
+    });
+
+    it('should strip FTS5 syntax so user input cannot break the query', () => {
+      expect(buildSearchQuery('"quoted" OR (NEAR* -x)')).toBe('"quoted" "OR" "NEAR" "x"*');
+      expect(buildSearchQuery('text:foo^bar')).toBe('"text" "foo" "bar"*');
+    });
+
+    it('should keep accented letters, numbers and apostrophes inside words', () => {
+      expect(buildSearchQuery("¿Qué tal? don't 42")).toBe('"Qué" "tal" "don\'t" "42"*');
+      expect(buildSearchQuery("'quoted'")).toBe('"quoted"*');
+    });
+
+    it('should return null when there is nothing to search for', () => {
+      expect(buildSearchQuery('')).toBeNull();
+      expect(buildSearchQuery('  *** "" ')).toBeNull();
+    });
+  });
+
+  describe('splitHighlights', () => {
+    it('should split a snippet into plain and highlighted parts', () => {
+      const snippet = `see you at ${SEARCH_HIGHLIGHT_START}dinner${SEARCH_HIGHLIGHT_END} on ${SEARCH_HIGHLIGHT_START}Friday${SEARCH_HIGHLIGHT_END}`;
+
+      expect(splitHighlights(snippet)).toEqual([
+        { text: 'see you at ', highlighted: false },
+        { text: 'dinner', highlighted: true },
+        { text: ' on ', highlighted: false },
+        { text: 'Friday', highlighted: true },
+      ]);
+    });
+
+    it('should return plain text when nothing is highlighted', () => {
+      expect(splitHighlights('no matches here')).toEqual([{ text: 'no matches here', highlighted: false }]);
+      expect(splitHighlights('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { Message, MessageOperation } from '@/shared/types';
+import {
+  applyOperations,
+  collapseOperation,
+  fromOperationRow,
+  toOperationRow,
+} from '@/shared/utils/OperationLog';
+
+describe('OperationLog', () => {
+  let nextId = 0;
+  const operation = (fields: Partial<MessageOperation> & Pick<MessageOperation, 'type'>): MessageOperation => ({
+    id: `op-${++nextId}`,
+    chatId: 'chat-1',
+    messageId: 'msg-1',
+    userId: 'user-1',
+    createdAt: nextId,
+    ...fields,
+  } as MessageOperation);
+
+  const message: Message = {
+    id: 'msg-1',
+    chatId: 'chat-1',
+    senderId: 'user-2',
+    text: 'Hello',
+    timestamp: 1,
+    status: 'delivered',
+    type: 'text',
+    reactions: { '👍': ['user-2'] },
+  };
+
+  describe('collapseOperation', () => {
+    it('should cancel a react followed by an unreact', () => {
+      const react = operation({ type: 'react', emoji: '❤️' });
+      const unreact = operation({ type: 'unreact', emoji: '❤️' });
+
+      expect(collapseOperation([react], unreact)).toEqual({ operation: null, cancelled: [react] });
+    });
+
+    it('should cancel an unreact followed by a react', () => {
+      const unreact = operation({ type: 'unreact', emoji: '👍' });
+      const react = operation({ type: 'react', emoji: '👍' });
+
+      expect(collapseOperation([unreact], react)).toEqual({ operation: null, cancelled: [unreact] });
+    });
+
+    it('should keep reactions with other emojis, messages or users', () => {
+      const pending = [
+        operation({ type: 'react', emoji: '👍' }),
+        operation({ type: 'react', emoji: '❤️', messageId: 'msg-2' }),
+        operation({ type: 'react', emoji: '❤️', userId: 'user-2' }),
+      ];
+      const unreact = operation({ type: 'unreact', emoji: '❤️' });
+
+      expect(collapseOperation(pending, unreact)).toEqual({ operation: unreact, cancelled: [] });
+    });
+
+    it('should drop a repeated reaction', () => {
+      const react = operation({ type: 'react', emoji: '👍' });
+
+      expect(collapseOperation([react], operation({ type: 'react', emoji: '👍' }))).toEqual({ operation: null, cancelled: [] });
+    });
+
+    it('should keep only the latest edit', () => {
+      const first = operation({ type: 'edit', text: 'Helo' });
+      const second = operation({ type: 'edit', text: 'Hello' });
+
+      expect(collapseOperation([first], second)).toEqual({ operation: second, cancelled: [first] });
+    });
+
+    it('should not log edits of unsent messages', () => {
+      const send = operation({ type: 'send' });
+
+      expect(collapseOperation([send], operation({ type: 'edit', text: 'Hello' }))).toEqual({ operation: null, cancelled: [] });
+    });
+
+    it('should drop reactions and edits of a message being deleted', () => {
+      const react = operation({ type: 'react', emoji: '👍' });
+      const edit = operation({ type: 'edit', text: 'Hello' });
+      const other = operation({ type: 'react', emoji: '👍', messageId: 'msg-2' });
+      const del = operation({ type: 'delete' });
+
+      expect(collapseOperation([react, edit, other], del)).toEqual({ operation: del, cancelled: [react, edit] });
+    });
+
+    it('should cancel an unsent message that is deleted', () => {
+      const send = operation({ type: 'send' });
+      const react = operation({ type: 'react', emoji: '👍' });
+
+      expect(collapseOperation([send, react], operation({ type: 'delete' }))).toEqual({
+        operation: null,
+        cancelled: [send, react],
+      });
+    });
+
+    it('should ignore changes to a message being deleted', () => {
+      const del = operation({ type: 'delete' });
+
+      expect(collapseOperation([del], operation({ type: 'react', emoji: '👍' }))).toEqual({ operation: null, cancelled: [] });
+      expect(collapseOperation([del], operation({ type: 'edit', text: 'Hi' }))).toEqual({ operation: null, cancelled: [] });
+      expect(collapseOperation([del], operation({ type: 'delete' }))).toEqual({ operation: null, cancelled: [] });
+    });
+
+    it('should merge read receipts for the same chat', () => {
+      const first = operation({ type: 'markRead', messageIds: ['msg-1', 'msg-2'], lastMessage: null });
+      const otherChat = operation({ type: 'markRead', chatId: 'chat-2', messageIds: ['msg-9'], lastMessage: null });
+      const second = operation({
+        type: 'markRead',
+        messageId: 'msg-3',
+        messageIds: ['msg-2', 'msg-3'],
+        lastMessage: { text: 'Hi', senderId: 'user-2', timestamp: 3 },
+      });
+
+      expect(collapseOperation([first, otherChat], second)).toEqual({
+        operation: { ...second, messageIds: ['msg-1', 'msg-2', 'msg-3'] },
+        cancelled: [first],
+      });
+    });
+
+    it('should keep the furthest read watermark', () => {
+      const first = operation({ type: 'markRead', messageIds: ['msg-2'], lastMessage: null, readUpTo: 2000 });
+      const second = operation({ type: 'markRead', messageIds: ['msg-1'], lastMessage: null, readUpTo: 1000 });
+
+      expect(collapseOperation([first], second).operation).toEqual(expect.objectContaining({ readUpTo: 2000 }));
+    });
+
+    it('should give the same result for the same log', () => {
+      const pending = [operation({ type: 'react', emoji: '👍' }), operation({ type: 'edit', text: 'Hi' })];
+      const del = operation({ type: 'delete' });
+
+      expect(collapseOperation(pending, del)).toEqual(collapseOperation([...pending], { ...del }));
+    });
+  });
+
+  describe('applyOperations', () => {
+    it('should apply reaction changes in order', () => {
+      const [result] = applyOperations([message], [
+        operation({ type: 'react', emoji: '❤️' }),
+        operation({ type: 'unreact', emoji: '👍', userId: 'user-2' }),
+      ]);
+
+      expect(result.reactions).toEqual({ '❤️': ['user-1'] });
+    });
+
+    it('should apply edits, deletions and read receipts', () => {
+      const [result] = applyOperations([message], [
+        operation({ type: 'edit', text: 'Hello there' }),
+        operation({ type: 'markRead', messageId: 'msg-5', messageIds: ['msg-1'], lastMessage: null }),
+        operation({ type: 'delete' }),
+      ]);
+
+      expect(result).toEqual(expect.objectContaining({ text: 'Hello there', status: 'read', deletedForEveryone: true }));
+    });
+
+    it('should leave other messages alone', () => {
+      const messages = [message];
+
+      expect(applyOperations(messages, [operation({ type: 'edit', messageId: 'msg-2', text: 'Hi' })])[0]).toBe(message);
+      expect(applyOperations(messages, [operation({ type: 'delete', chatId: 'chat-2' })])[0]).toBe(message);
+    });
+  });
+
+  describe('operation rows', () => {
+    it('should round-trip through a SQLite row', () => {
+      const markRead = operation({
+        type: 'markRead',
+        messageIds: ['msg-1'],
+        lastMessage: { text: 'Hi', senderId: 'user-2', timestamp: 3 },
+      });
+
+      const row = toOperationRow(markRead);
+
+      expect(row).toEqual(expect.objectContaining({ id: markRead.id, type: 'markRead', attempts: 0, nextAttemptAt: 0, lastError: null }));
+      expect(JSON.parse(row.payload!)).toEqual({ messageIds: ['msg-1'], lastMessage: { text: 'Hi', senderId: 'user-2', timestamp: 3 } });
+      expect(fromOperationRow(row)).toEqual({ ...markRead, attempts: 0, nextAttemptAt: 0, lastError: null });
+    });
+
+    it('should store no payload for deletions', () => {
+      expect(toOperationRow(operation({ type: 'delete' })).payload).toBeNull();
+    });
+  });
+});
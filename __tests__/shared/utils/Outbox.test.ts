@@ -0,0 +1,43 @@
+import {
+  classifySendError,
+  getRetryDelay,
+  OUTBOX_BASE_DELAY_MS,
+  OUTBOX_MAX_DELAY_MS,
+  PermanentSendError,
+} from '@/shared/utils/Outbox';
+
+describe('Outbox', () => {
+  describe('getRetryDelay', () => {
+    it('should double the delay with each attempt', () => {
+      expect(getRetryDelay(1, () => 1)).toBe(OUTBOX_BASE_DELAY_MS);
+      expect(getRetryDelay(2, () => 1)).toBe(OUTBOX_BASE_DELAY_MS * 2);
+      expect(getRetryDelay(3, () => 1)).toBe(OUTBOX_BASE_DELAY_MS * 4);
+    });
+
+    it('should randomize the second half of the delay', () => {
+      expect(getRetryDelay(3, () => 0)).toBe(OUTBOX_BASE_DELAY_MS * 2);
+      expect(getRetryDelay(3, () => 0.5)).toBe(OUTBOX_BASE_DELAY_MS * 3);
+    });
+
+    it('should cap the delay', () => {
+      expect(getRetryDelay(30, () => 1)).toBe(OUTBOX_MAX_DELAY_MS);
+      expect(getRetryDelay(30, () => 0)).toBe(OUTBOX_MAX_DELAY_MS / 2);
+    });
+  });
+
+  describe('classifySendError', () => {
+    it('should treat rejected requests as permanent', () => {
+      expect(classifySendError({ code: 'permission-denied' })).toBe('permanent');
+      expect(classifySendError({ code: 'storage/unauthorized' })).toBe('permanent');
+      expect(classifySendError({ code: 'functions/invalid-argument' })).toBe('permanent');
+      expect(classifySendError(new PermanentSendError('File is gone'))).toBe('permanent');
+    });
+
+    it('should treat network and unknown errors as transient', () => {
+      expect(classifySendError({ code: 'unavailable' })).toBe('transient');
+      expect(classifySendError({ code: 'storage/retry-limit-exceeded' })).toBe('transient');
+      expect(classifySendError(new Error('Network request failed'))).toBe('transient');
+      expect(classifySendError(null)).toBe('transient');
+    });
+  });
+});
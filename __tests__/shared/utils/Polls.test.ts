@@ -0,0 +1,102 @@
+import { MessagePoll } from '@/shared/types';
+import {
+  applyPollVote,
+  clearPollResults,
+  createPoll,
+  formatPollOutcome,
+  getPollPreviewText,
+  getPollResults,
+  isPollClosed,
+} from '@/shared/utils/Polls';
+
+describe('Polls', () => {
+  const now = 10_000;
+  const draft = {
+    question: ' Lunch? ',
+    options: ['Pizza', ' Sushi ', ''],
+    allowsMultipleChoices: false,
+    anonymous: false,
+    closesAt: null,
+  };
+
+  describe('createPoll', () => {
+    it('should trim the poll and drop empty options', () => {
+      const poll = createPoll(draft, now);
+
+      expect(poll.question).toBe('Lunch?');
+      expect(poll.options).toEqual([{ id: 'o1', text: 'Pizza' }, { id: 'o2', text: 'Sushi' }]);
+      expect(poll.counts).toEqual({ o1: 0, o2: 0 });
+      expect(poll.voterCount).toBe(0);
+      expect(poll.voters).toEqual({});
+      expect(createPoll({ ...draft, anonymous: true }, now).voters).toBeNull();
+    });
+
+    it('should reject polls that can\'t be sent', () => {
+      expect(() => createPoll({ ...draft, question: '  ' }, now)).toThrow('Please enter a question');
+      expect(() => createPoll({ ...draft, options: ['Pizza', ''] }, now)).toThrow('between 2 and 10 options');
+      expect(() => createPoll({ ...draft, options: ['Pizza', 'pizza'] }, now)).toThrow('different from each other');
+      expect(() => createPoll({ ...draft, closesAt: now }, now)).toThrow('in the future');
+    });
+  });
+
+  describe('applyPollVote', () => {
+    const poll = createPoll(draft, now);
+
+    it('should count, move and retract a vote', () => {
+      const voted = applyPollVote(poll, 'alice', [], ['o1']);
+      expect(voted.counts).toEqual({ o1: 1, o2: 0 });
+      expect(voted.voterCount).toBe(1);
+      expect(voted.voters).toEqual({ o1: ['alice'] });
+
+      const moved = applyPollVote(voted, 'alice', ['o1'], ['o2']);
+      expect(moved.counts).toEqual({ o1: 0, o2: 1 });
+      expect(moved.voterCount).toBe(1);
+      expect(moved.voters).toEqual({ o1: [], o2: ['alice'] });
+
+      const retracted = applyPollVote(moved, 'alice', ['o2'], []);
+      expect(retracted.counts).toEqual({ o1: 0, o2: 0 });
+      expect(retracted.voterCount).toBe(0);
+    });
+
+    it('should count one voter for several choices', () => {
+      const multi = createPoll({ ...draft, allowsMultipleChoices: true, anonymous: true }, now);
+      const voted = applyPollVote(multi, 'alice', [], ['o1', 'o2']);
+
+      expect(voted.counts).toEqual({ o1: 1, o2: 1 });
+      expect(voted.voterCount).toBe(1);
+      expect(voted.voters).toBeNull();
+    });
+  });
+
+  describe('isPollClosed', () => {
+    it('should close polls early or at their closing time', () => {
+      const poll = createPoll({ ...draft, closesAt: now + 100 }, now);
+
+      expect(isPollClosed(poll, now)).toBe(false);
+      expect(isPollClosed(poll, now + 100)).toBe(true);
+      expect(isPollClosed({ ...poll, closedAt: now }, now)).toBe(true);
+    });
+  });
+
+  describe('results', () => {
+    const poll: MessagePoll = {
+      ...createPoll({ ...draft, options: ['Pizza', 'Sushi', 'Tacos'] }, now),
+      counts: { o1: 3, o2: 1, o3: 0 },
+      voterCount: 4,
+    };
+
+    it('should compute percentages and the leading option', () => {
+      expect(getPollResults(poll)).toEqual([
+        { id: 'o1', text: 'Pizza', count: 3, percentage: 75, isLeading: true },
+        { id: 'o2', text: 'Sushi', count: 1, percentage: 25, isLeading: false },
+        { id: 'o3', text: 'Tacos', count: 0, percentage: 0, isLeading: false },
+      ]);
+      expect(getPollResults(clearPollResults(poll)).every((result) => !result.isLeading)).toBe(true);
+    });
+
+    it('should describe a poll for previews and summaries', () => {
+      expect(getPollPreviewText(poll)).toBe('📊 Lunch?');
+      expect(formatPollOutcome({ ...poll, closedAt: now }, now)).toBe('Lunch? — Pizza 3, Sushi 1, Tacos 0 (closed, 4 voters)');
+    });
+  });
+});
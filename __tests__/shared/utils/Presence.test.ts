@@ -0,0 +1,86 @@
+import {
+  createCustomStatus,
+  formatCustomStatus,
+  formatLastSeen,
+  getActiveCustomStatus,
+  getPresenceLabel,
+  MAX_STATUS_TEXT_LENGTH,
+} from '@/shared/utils/Presence';
+
+describe('Presence', () => {
+  const now = new Date(2026, 4, 15, 14, 30).getTime();
+
+  describe('createCustomStatus', () => {
+    it('should trim the text and set the expiry', () => {
+      expect(createCustomStatus('  In a meeting ', '📅', 60000, now)).toEqual({
+        text: 'In a meeting',
+        emoji: '📅',
+        expiresAt: now + 60000,
+      });
+    });
+
+    it('should keep statuses without a duration', () => {
+      expect(createCustomStatus('', '🌴', null, now)).toEqual({ text: '', emoji: '🌴', expiresAt: null });
+    });
+
+    it('should reject empty and overly long statuses', () => {
+      expect(() => createCustomStatus('   ', null, null, now)).toThrow('Please enter a status or pick an emoji');
+      expect(() => createCustomStatus('a'.repeat(MAX_STATUS_TEXT_LENGTH + 1), null, null, now)).toThrow(
+        `Statuses can be at most ${MAX_STATUS_TEXT_LENGTH} characters`
+      );
+    });
+  });
+
+  describe('getActiveCustomStatus', () => {
+    it('should drop expired statuses', () => {
+      const status = { text: 'Lunch', emoji: null, expiresAt: now };
+
+      expect(getActiveCustomStatus(status, now - 1)).toBe(status);
+      expect(getActiveCustomStatus(status, now)).toBeNull();
+      expect(getActiveCustomStatus({ ...status, expiresAt: null }, now + 1)).not.toBeNull();
+    });
+
+    it('should ignore missing and empty statuses', () => {
+      expect(getActiveCustomStatus(undefined, now)).toBeNull();
+      expect(getActiveCustomStatus({ text: '', emoji: null, expiresAt: null }, now)).toBeNull();
+    });
+  });
+
+  describe('formatCustomStatus', () => {
+    it('should put the emoji first', () => {
+      expect(formatCustomStatus({ text: 'Commuting', emoji: '🚗', expiresAt: null })).toBe('🚗 Commuting');
+      expect(formatCustomStatus({ text: 'Commuting', emoji: null, expiresAt: null })).toBe('Commuting');
+    });
+  });
+
+  describe('formatLastSeen', () => {
+    it('should describe how long ago the user was around', () => {
+      expect(formatLastSeen(now - 30 * 1000, now)).toBe('Last seen just now');
+      expect(formatLastSeen(now - 5 * 60 * 1000, now)).toBe('Last seen 5m ago');
+    });
+
+    it('should use the time or date for older last seens', () => {
+      jest.useFakeTimers().setSystemTime(now);
+      try {
+        expect(formatLastSeen(new Date(2026, 4, 15, 9, 5).getTime(), now)).toBe('Last seen today at 09:05');
+        expect(formatLastSeen(new Date(2026, 4, 14, 22, 0).getTime(), now)).toBe('Last seen yesterday at 22:00');
+        expect(formatLastSeen(new Date(2026, 3, 2, 8, 0).getTime(), now)).toBe('Last seen Apr 2');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('getPresenceLabel', () => {
+    it('should label each state', () => {
+      expect(getPresenceLabel({ state: 'online', lastSeen: null }, now)).toBe('Online');
+      expect(getPresenceLabel({ state: 'away', lastSeen: null }, now)).toBe('Away');
+      expect(getPresenceLabel({ state: 'dnd', lastSeen: null }, now)).toBe('Do not disturb');
+      expect(getPresenceLabel({ state: 'offline', lastSeen: now - 2 * 60 * 1000 }, now)).toBe('Last seen 2m ago');
+    });
+
+    it('should be null when the last seen is hidden', () => {
+      expect(getPresenceLabel({ state: 'offline', lastSeen: null }, now)).toBeNull();
+    });
+  });
+});
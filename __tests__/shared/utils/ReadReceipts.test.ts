@@ -0,0 +1,77 @@
+import { Message, ParticipantReadState } from '@/shared/types';
+import { applyReceiptStatus, getMessageReceipts, getReceiptStatus } from '@/shared/utils/ReadReceipts';
+
+describe('ReadReceipts', () => {
+  const message: Message = {
+    id: 'msg-1',
+    chatId: 'chat-1',
+    senderId: 'user-1',
+    text: 'Hello',
+    timestamp: 5000,
+    status: 'sent',
+    type: 'text',
+    reactions: {},
+    syncStatus: 'synced',
+  };
+
+  const state = (userId: string, fields: Partial<ParticipantReadState> = {}): ParticipantReadState => ({
+    userId,
+    joinedAt: 1000,
+    readWatermark: null,
+    deliveredWatermark: null,
+    ...fields,
+  });
+
+  describe('getMessageReceipts', () => {
+    it('should split recipients by their watermarks', () => {
+      const receipts = getMessageReceipts(message, [
+        state('user-1', { readWatermark: 9000 }),
+        state('user-2', { readWatermark: 5000, deliveredWatermark: 5000 }),
+        state('user-3', { readWatermark: 4000, deliveredWatermark: 6000 }),
+        state('user-4', { deliveredWatermark: 4000 }),
+      ]);
+
+      expect(receipts).toEqual({ readBy: ['user-2'], deliveredTo: ['user-3'], pending: ['user-4'] });
+    });
+
+    it('should leave out people who joined after the message', () => {
+      const receipts = getMessageReceipts(message, [state('user-2', { joinedAt: 6000, readWatermark: 7000 })]);
+
+      expect(receipts).toEqual({ readBy: [], deliveredTo: [], pending: [] });
+    });
+
+    it('should accept Date timestamps', () => {
+      const dated = { ...message, timestamp: new Date(5000) as unknown as number };
+
+      expect(getMessageReceipts(dated, [state('user-2', { readWatermark: 5000 })]).readBy).toEqual(['user-2']);
+    });
+  });
+
+  describe('getReceiptStatus', () => {
+    it('should be read only once every recipient read the message', () => {
+      const readStates = [state('user-2', { readWatermark: 6000 }), state('user-3', { deliveredWatermark: 6000 })];
+
+      expect(getReceiptStatus(message, readStates)).toBe('delivered');
+      expect(getReceiptStatus(message, [...readStates, state('user-4')])).toBe('sent');
+      expect(getReceiptStatus(message, [readStates[0]])).toBe('read');
+    });
+
+    it('should be null while no recipient has watermarks', () => {
+      expect(getReceiptStatus(message, [state('user-1', { readWatermark: 9000 }), state('user-2')])).toBeNull();
+    });
+  });
+
+  describe('applyReceiptStatus', () => {
+    it('should only update messages sent by the user', () => {
+      const readStates = [state('user-1'), state('user-2', { readWatermark: 9000 })];
+      const sending = { ...message, id: 'msg-2', status: 'sending' as const };
+      const received = { ...message, id: 'msg-3', senderId: 'user-2' };
+
+      const [sent, stillSending, other] = applyReceiptStatus([message, sending, received], readStates, 'user-1');
+
+      expect(sent.status).toBe('read');
+      expect(stillSending).toBe(sending);
+      expect(other).toBe(received);
+    });
+  });
+});
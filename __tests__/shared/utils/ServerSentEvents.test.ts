@@ -0,0 +1,38 @@
+import { createSSEParser, ServerSentEvent } from '@/shared/utils/ServerSentEvents';
+
+describe('ServerSentEvents', () => {
+  const collect = () => {
+    const events: ServerSentEvent[] = [];
+    return { events, parse: createSSEParser((event) => events.push(event)) };
+  };
+
+  it('should parse named events', () => {
+    const { events, parse } = collect();
+
+    parse('event: token\ndata: {"text":"Hi"}\n\nevent: done\ndata: {"status":"complete"}\n\n');
+
+    expect(events).toEqual([
+      { event: 'token', data: '{"text":"Hi"}' },
+      { event: 'done', data: '{"status":"complete"}' },
+    ]);
+  });
+
+  it('should wait for events split across chunks', () => {
+    const { events, parse } = collect();
+
+    parse('event: tok');
+    parse('en\r\ndata: {"te');
+    expect(events).toEqual([]);
+
+    parse('xt":"Hi"}\r\n\r\n');
+    expect(events).toEqual([{ event: 'token', data: '{"text":"Hi"}' }]);
+  });
+
+  it('should join multi-line data and skip comments', () => {
+    const { events, parse } = collect();
+
+    parse(': keep-alive\n\ndata: line 1\ndata: line 2\n\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'line 1\nline 2' }]);
+  });
+});
@@ -9,6 +9,7 @@ import { MessageService } from '@/services/firebase/MessageService';
 
 import { SQLiteService } from '@/database/SQLiteService';
 import { useChatStore } from '@/store/ChatStore';
+import { useContactStore } from '@/store/ContactStore';
 
 jest.mock('@/services/firebase/MessageService');
 jest.mock('@/services/firebase/ChatService');
@@ -132,6 +133,78 @@ describe('ChatStore', () => {
         'user-1'
       );
     });
+
+    it('should show the reaction right away and undo it if rejected', async () => {
+      useChatStore.setState({
+        messages: [{
+          id: 'msg-123',
+          chatId: 'chat-123',
+          senderId: 'user-2',
+          text: 'Test message',
+          timestamp: Date.now(),
+          status: 'sent' as const,
+          type: 'text' as const,
+          reactions: {}
+        }]
+      });
+
+      let rejectReaction: (error: unknown) => void = () => {};
+      (MessageService.addReaction as jest.Mock).mockImplementation(
+        () => new Promise((_resolve, reject) => { rejectReaction = reject; })
+      );
+
+      const promise = useChatStore.getState().addReaction('chat-123', 'msg-123', '😂', 'user-1');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(useChatStore.getState().messages[0].reactions).toEqual({ '😂': ['user-1'] });
+
+      rejectReaction({ code: 'permission-denied' });
+      await expect(promise).rejects.toEqual({ code: 'permission-denied' });
+      expect(useChatStore.getState().messages[0].reactions).toEqual({});
+    });
+  });
+
+  describe('deleteMessageForEveryone', () => {
+    it('should mark a sent message as deleted', async () => {
+      useChatStore.setState({
+        messages: [{
+          id: 'msg-123',
+          chatId: 'chat-123',
+          senderId: 'user-1',
+          text: 'Oops',
+          timestamp: Date.now(),
+          status: 'sent' as const,
+          type: 'text' as const,
+          syncStatus: 'synced' as const,
+        }]
+      });
+      (MessageService.deleteMessageForEveryone as jest.Mock).mockResolvedValue(undefined);
+
+      await useChatStore.getState().deleteMessageForEveryone('chat-123', 'msg-123', 'user-1');
+
+      expect(MessageService.deleteMessageForEveryone).toHaveBeenCalledWith('chat-123', 'msg-123', 'user-1');
+      expect(useChatStore.getState().messages[0].deletedForEveryone).toBe(true);
+      expect(SQLiteService.deleteMessageForEveryone).toHaveBeenCalledWith('msg-123');
+    });
+
+    it('should refuse to delete other people\'s messages', async () => {
+      useChatStore.setState({
+        messages: [{
+          id: 'msg-123',
+          chatId: 'chat-123',
+          senderId: 'user-2',
+          text: 'Hi',
+          timestamp: Date.now(),
+          status: 'sent' as const,
+          type: 'text' as const,
+        }]
+      });
+
+      await expect(
+        useChatStore.getState().deleteMessageForEveryone('chat-123', 'msg-123', 'user-1')
+      ).rejects.toThrow('You can only delete your own messages');
+      expect(MessageService.deleteMessageForEveryone).not.toHaveBeenCalled();
+    });
   });
 
   describe('loadUserProfile', () => {
@@ -217,5 +290,98 @@ describe('ChatStore', () => {
       expect(state.error).toBe('Failed to create chat');
     });
   });
-});
 
+  describe('updateChatPreferences', () => {
+    const chat = {
+      id: 'chat-123',
+      type: 'one-on-one' as const,
+      participants: ['user-1', 'user-2'],
+      lastMessageText: 'Hi',
+      lastMessageTime: Date.now(),
+      lastMessageSenderId: 'user-2',
+      createdAt: Date.now(),
+      createdBy: 'user-1',
+      unreadCount: 4,
+    };
+
+    it('should update the chat optimistically and persist the preference', async () => {
+      (ChatService.updateChatPreferences as jest.Mock).mockResolvedValue(undefined);
+      useChatStore.setState({ chats: [chat], chatsVersion: 0 });
+
+      await useChatStore.getState().updateChatPreferences('chat-123', 'user-1', { pinned: true });
+
+      expect(useChatStore.getState().chats[0].pinned).toBe(true);
+      expect(ChatService.updateChatPreferences).toHaveBeenCalledWith('chat-123', 'user-1', { pinned: true });
+      expect(SQLiteService.updateChatPreferences).toHaveBeenCalledWith('chat-123', { pinned: true });
+    });
+
+    it('should revert when Firestore rejects the update', async () => {
+      (ChatService.updateChatPreferences as jest.Mock).mockRejectedValue(new Error('offline'));
+      useChatStore.setState({ chats: [chat], chatsVersion: 0 });
+
+      await expect(
+        useChatStore.getState().updateChatPreferences('chat-123', 'user-1', { archived: true })
+      ).rejects.toThrow('offline');
+
+      expect(useChatStore.getState().chats[0].archived).toBeUndefined();
+    });
+  });
+
+  describe('blocked users', () => {
+    const messageFrom = (id: string, senderId: string, timestamp: number) => ({
+      id,
+      chatId: 'chat-123',
+      senderId,
+      text: `Message ${id}`,
+      timestamp,
+      status: 'sent',
+      type: 'text',
+    });
+
+    beforeEach(() => {
+      useContactStore.setState({
+        blockedUsers: [{ userId: 'blocked-user', username: 'spammer', displayName: 'Spammer', profilePictureUrl: null, blockedAt: 1000 }],
+      });
+    });
+
+    afterEach(() => {
+      useContactStore.setState({ blockedUsers: [] });
+    });
+
+    it('should hide cached messages from blocked users', async () => {
+      (SQLiteService.getMessages as jest.Mock).mockResolvedValue([
+        { ...messageFrom('msg-1', 'user-2', 1000), deletedForEveryone: 0, reactions: '{}' },
+        { ...messageFrom('msg-2', 'blocked-user', 2000), deletedForEveryone: 0, reactions: '{}' },
+      ]);
+
+      await useChatStore.getState().loadMessagesFromSQLite('chat-123');
+
+      expect(useChatStore.getState().messages.map(m => m.id)).toEqual(['msg-1']);
+    });
+
+    it('should ignore real-time messages from blocked users', async () => {
+      let onUpdate: (messages: any[]) => Promise<void> = async () => {};
+      (MessageService.subscribeToMessages as jest.Mock).mockImplementation((chatId, callback) => {
+        onUpdate = callback;
+        return jest.fn();
+      });
+      (SQLiteService.saveMessage as jest.Mock).mockResolvedValue(undefined);
+
+      useChatStore.getState().subscribeToMessages('chat-123', 'user-1');
+      await onUpdate([messageFrom('msg-1', 'user-2', 1000), messageFrom('msg-2', 'blocked-user', 2000)]);
+
+      expect(useChatStore.getState().messages.map(m => m.id)).toEqual(['msg-1']);
+      expect(MessageService.updateMessageStatus).not.toHaveBeenCalledWith('chat-123', 'msg-2', expect.anything());
+    });
+
+    it('should drop a newly blocked user\'s messages from the open chat', () => {
+      useChatStore.setState({
+        messages: [messageFrom('msg-1', 'user-2', 1000), messageFrom('msg-2', 'blocked-user', 2000)] as any,
+      });
+
+      useChatStore.getState().hideMessagesFromUser('blocked-user');
+
+      expect(useChatStore.getState().messages.map(m => m.id)).toEqual(['msg-1']);
+    });
+  });
+});
@@ -192,6 +192,70 @@ describe('ContactStore', () => {
     });
   });
 
+  describe('blocking', () => {
+    it('should load blocked users', async () => {
+      const mockBlocked = [
+        { userId: 'user-2', username: 'spammer', displayName: 'Spammer', profilePictureUrl: null, blockedAt: 1000 }
+      ];
+
+      (FriendRequestService.getBlockedUsers as jest.Mock).mockResolvedValue(mockBlocked);
+
+      const { loadBlockedUsers } = useContactStore.getState();
+      await loadBlockedUsers('user-1');
+
+      const state = useContactStore.getState();
+      expect(state.blockedUsers).toEqual(mockBlocked);
+      expect(state.blockedUsersLoading).toBe(false);
+    });
+
+    it('should block immediately and drop the contact and requests', async () => {
+      useContactStore.setState({
+        contacts: [{ userId: 'user-2', username: 'bob', displayName: 'Bob', profilePictureUrl: null, isOnline: false, lastSeen: null, addedAt: 1000 }],
+        friendRequests: [{ id: 'req-1', fromUserId: 'user-2', toUserId: 'user-1', status: 'pending', createdAt: 1000, respondedAt: null }],
+      });
+
+      (FriendRequestService.blockUser as jest.Mock).mockResolvedValue({ success: true });
+      // Reloads haven't finished yet
+      (UserService.getContacts as jest.Mock).mockReturnValue(new Promise(() => {}));
+      (FriendRequestService.getBlockedUsers as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const { blockUser } = useContactStore.getState();
+      const result = await blockUser('user-1', 'user-2');
+
+      expect(result.success).toBe(true);
+      expect(FriendRequestService.blockUser).toHaveBeenCalledWith('user-1', 'user-2');
+
+      const state = useContactStore.getState();
+      expect(state.isBlocked('user-2')).toBe(true);
+      expect(state.contacts).toHaveLength(0);
+      expect(state.friendRequests).toHaveLength(0);
+    });
+
+    it('should leave state alone if blocking fails', async () => {
+      (FriendRequestService.blockUser as jest.Mock).mockResolvedValue({ success: false, error: 'Network error' });
+
+      const { blockUser } = useContactStore.getState();
+      const result = await blockUser('user-1', 'user-2');
+
+      expect(result).toEqual({ success: false, error: 'Network error' });
+      expect(useContactStore.getState().isBlocked('user-2')).toBe(false);
+    });
+
+    it('should unblock a user', async () => {
+      useContactStore.setState({
+        blockedUsers: [{ userId: 'user-2', username: 'bob', displayName: 'Bob', profilePictureUrl: null, blockedAt: 1000 }],
+      });
+
+      (FriendRequestService.unblockUser as jest.Mock).mockResolvedValue({ success: true });
+
+      const { unblockUser } = useContactStore.getState();
+      const result = await unblockUser('user-1', 'user-2');
+
+      expect(result.success).toBe(true);
+      expect(useContactStore.getState().isBlocked('user-2')).toBe(false);
+    });
+  });
+
   describe('searchUsers', () => {
     it('should search users by username', async () => {
       const mockResults = [
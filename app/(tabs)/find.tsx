@@ -3,12 +3,14 @@
  * Conversational AI that helps users find information in their chat history
  */
 
-import { functions } from '@/services/firebase/FirebaseConfig';
+import { ChatModal } from '@/features/chat/components';
+import { AIAssistantService, AIAssistantStream } from '@/services/firebase/AIAssistantService';
 import { useTheme } from '@/shared/hooks/useTheme';
+import type { AIAssistantSource } from '@/shared/types';
+import { findCitedSource, getCitedSources, splitCitations } from '@/shared/utils/AIAssistantCitations';
 import { useAuthStore } from '@/store';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { httpsCallable } from 'firebase/functions';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
@@ -26,15 +28,24 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
-  sources?: {
-    chatId: string;
-    chatName: string;
-    messageId: string;
-    snippet: string;
-    timestamp: number;
-  }[];
+  sources?: AIAssistantSource[];
+  stopped?: boolean;          // Cancelled before the answer finished
 }
 
+/**
+ * Chip caption: "Maria · Alex · Jun 1"
+ */
+const citationCaption = (source: AIAssistantSource): string =>
+  [
+    source.chatName,
+    source.senderName,
+    source.timestamp ? new Date(source.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' }) : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const ERROR_ANSWER = "I'm sorry, I encountered an error while searching your messages. Please try again in a moment.";
+
 const SUGGESTED_PROMPTS = [
   "What did I talk about yesterday?",
   "Help me plan my day",
@@ -50,7 +61,13 @@ export default function AIAssistantScreen() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  const [selectedSource, setSelectedSource] = useState<AIAssistantSource | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
+  const streamRef = useRef<AIAssistantStream | null>(null);
+
+  // Don't keep a request running for a screen that's gone
+  useEffect(() => () => streamRef.current?.cancel(), []);
 
   // User-specific storage key
   const STORAGE_KEY = user?.id ? `@ai_assistant_conversation_${user.id}` : '@ai_assistant_conversation';
@@ -103,10 +120,10 @@ export default function AIAssistantScreen() {
   /**
    * Send message to AI Assistant
    */
-  const handleSend = useCallback(async (queryText?: string) => {
+  const handleSend = useCallback((queryText?: string) => {
     const query = queryText || input.trim();
     
-    if (!query) return;
+    if (!query || isLoading) return;
 
     // Clear input
     setInput('');
@@ -128,56 +145,73 @@ export default function AIAssistantScreen() {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
 
-    try {
-      console.log('🤖 Querying AI Assistant:', query);
-
-      // Call AI Assistant function
-      const aiAssistantFn = httpsCallable(functions, 'aiAssistant');
-      const result: any = await aiAssistantFn({
-        query,
-        conversationHistory: updatedMessages.slice(-10).map(m => ({
-          role: m.role,
-          content: m.content,
-        })),
-      });
-
-      console.log('✅ AI Response received');
-
-      // Add AI response
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: result.data.answer,
-        timestamp: result.data.timestamp || Date.now(),
-        sources: result.data.sources || [],
-      };
-
-      const finalMessages = [...updatedMessages, aiMessage];
-      setMessages(finalMessages);
-      await saveHistory(finalMessages);
-
-      // Scroll to bottom
-      setTimeout(() => {
-        scrollViewRef.current?.scrollToEnd({ animated: true });
-      }, 100);
-    } catch (error: any) {
-      console.error('❌ AI Assistant error:', error);
-      
-      // Add error message
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: "I'm sorry, I encountered an error while searching your messages. Please try again in a moment.",
-        timestamp: Date.now(),
-      };
-
-      const finalMessages = [...updatedMessages, errorMessage];
-      setMessages(finalMessages);
-      await saveHistory(finalMessages);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [input, messages, saveHistory]);
+    console.log('🤖 Querying AI Assistant:', query);
+
+    // The answer fills in as it streams; it joins the history when done
+    const answerId = (Date.now() + 1).toString();
+    let content = '';
+    let sources: AIAssistantSource[] = [];
+
+    streamRef.current = AIAssistantService.streamAnswer(
+      query,
+      updatedMessages.slice(-10).map(m => ({
+        role: m.role,
+        content: m.content,
+      })),
+      {
+        onToken: (text) => {
+          const isFirstToken = content.length === 0;
+          content += text;
+          setStreamingMessage({ id: answerId, role: 'assistant', content, timestamp: Date.now() });
+          if (isFirstToken) {
+            setTimeout(() => {
+              scrollViewRef.current?.scrollToEnd({ animated: true });
+            }, 100);
+          }
+        },
+        onSources: (streamedSources) => {
+          sources = streamedSources;
+        },
+        onDone: async (status, error) => {
+          if (status === 'error') {
+            console.error('❌ AI Assistant error:', error);
+          } else {
+            console.log('✅ AI Response', status);
+          }
+
+          // Keep a partial answer if there is one
+          const aiMessage: Message = {
+            id: answerId,
+            role: 'assistant',
+            content: content.trim() || (status === 'cancelled' ? 'Stopped.' : error || ERROR_ANSWER),
+            timestamp: Date.now(),
+            sources,
+            stopped: status === 'cancelled',
+          };
+
+          streamRef.current = null;
+          setStreamingMessage(null);
+          setIsLoading(false);
+
+          const finalMessages = [...updatedMessages, aiMessage];
+          setMessages(finalMessages);
+          await saveHistory(finalMessages);
+
+          // Scroll to bottom
+          setTimeout(() => {
+            scrollViewRef.current?.scrollToEnd({ animated: true });
+          }, 100);
+        },
+      }
+    );
+  }, [input, isLoading, messages, saveHistory]);
+
+  /**
+   * Stop the answer that is streaming (what arrived so far is kept)
+   */
+  const handleStop = useCallback(() => {
+    streamRef.current?.cancel();
+  }, []);
 
   /**
    * Clear conversation history
@@ -202,41 +236,69 @@ export default function AIAssistantScreen() {
           { backgroundColor: isUser ? theme.colors.primary : theme.colors.surface },
         ]}
       >
-        {/* Message content */}
+        {/* Message content ([n] citations open the cited message) */}
         <Text
           style={[
             styles.messageText,
             { color: isUser ? '#FFFFFF' : theme.colors.text },
           ]}
         >
-          {message.content}
+          {isUser || !message.sources?.length
+            ? message.content
+            : splitCitations(message.content, message.sources).map((part, index) =>
+                part.sourceIndex === null ? (
+                  part.text
+                ) : (
+                  <Text
+                    key={index}
+                    style={[styles.citationMarker, { color: theme.colors.primary }]}
+                    onPress={() => setSelectedSource(findCitedSource(message.sources!, part.sourceIndex!) ?? null)}
+                    suppressHighlighting
+                  >
+                    {part.text}
+                  </Text>
+                )
+              )}
         </Text>
 
-        {/* Source links (AI messages only) */}
+        {message.stopped && (
+          <Text style={[styles.stoppedLabel, { color: theme.colors.textSecondary }]}>
+            Stopped
+          </Text>
+        )}
+
+        {/* Citations (AI messages only) - tap to open the chat at the cited message */}
         {!isUser && message.sources && message.sources.length > 0 && (
           <View style={styles.sourcesContainer}>
             <View style={styles.sourcesDivider} />
             <Text style={[styles.sourcesLabel, { color: theme.colors.textSecondary }]}>
               Sources:
             </Text>
-            {message.sources.map((source, index) => (
-              <View
+            {getCitedSources(message.content, message.sources).map((source, index) => (
+              <Pressable
                 key={`${source.chatId}-${source.messageId || index}`}
-                style={[
+                style={({ pressed }) => [
                   styles.sourceItem,
                   { backgroundColor: theme.colors.background, borderColor: theme.colors.border },
+                  pressed && styles.sourceItemPressed,
                 ]}
+                onPress={() => setSelectedSource(source)}
+                accessibilityRole="button"
+                accessibilityLabel={`Open source in ${source.chatName}`}
               >
-                <Ionicons name="link-outline" size={14} color={theme.colors.primary} />
+                <Text style={[styles.sourceIndex, { color: theme.colors.primary }]}>
+                  {source.index ?? message.sources!.indexOf(source) + 1}
+                </Text>
                 <View style={styles.sourceContent}>
                   <Text style={[styles.sourceChatName, { color: theme.colors.text }]} numberOfLines={1}>
-                    {source.chatName}
+                    {citationCaption(source)}
                   </Text>
                   <Text style={[styles.sourceSnippet, { color: theme.colors.textSecondary }]} numberOfLines={1}>
                     {source.snippet}
                   </Text>
                 </View>
-              </View>
+                <Ionicons name="chevron-forward" size={14} color={theme.colors.textSecondary} />
+              </Pressable>
             ))}
           </View>
         )}
@@ -275,7 +337,7 @@ export default function AIAssistantScreen() {
             AI Assistant
           </Text>
         </View>
-        {messages.length > 0 && (
+        {messages.length > 0 && !isLoading && (
           <Pressable onPress={handleClearHistory} style={styles.clearButton}>
             <Ionicons name="trash-outline" size={20} color={theme.colors.textSecondary} />
           </Pressable>
@@ -321,8 +383,11 @@ export default function AIAssistantScreen() {
         {/* Message history */}
         {messages.map(renderMessage)}
 
-        {/* Loading indicator */}
-        {isLoading && (
+        {/* Answer so far */}
+        {streamingMessage && renderMessage(streamingMessage)}
+
+        {/* Loading indicator (until the answer starts) */}
+        {isLoading && !streamingMessage && (
           <View style={[styles.messageBubble, styles.aiBubble, { backgroundColor: theme.colors.surface }]}>
             <ActivityIndicator size="small" color={theme.colors.primary} />
             <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>
@@ -345,17 +410,35 @@ export default function AIAssistantScreen() {
           multiline
           maxLength={500}
         />
-        <Pressable
-          style={[
-            styles.sendButton,
-            { backgroundColor: input.trim() ? theme.colors.primary : theme.colors.border },
-          ]}
-          onPress={() => handleSend()}
-          disabled={!input.trim() || isLoading}
-        >
-          <Ionicons name="send" size={20} color="#FFFFFF" />
-        </Pressable>
+        {isLoading ? (
+          <Pressable
+            style={[styles.sendButton, { backgroundColor: theme.colors.primary }]}
+            onPress={handleStop}
+            accessibilityLabel="Stop answer"
+          >
+            <Ionicons name="stop" size={18} color="#FFFFFF" />
+          </Pressable>
+        ) : (
+          <Pressable
+            style={[
+              styles.sendButton,
+              { backgroundColor: input.trim() ? theme.colors.primary : theme.colors.border },
+            ]}
+            onPress={() => handleSend()}
+            disabled={!input.trim()}
+          >
+            <Ionicons name="send" size={20} color="#FFFFFF" />
+          </Pressable>
+        )}
       </View>
+
+      {/* Cited chat, scrolled to the cited message */}
+      <ChatModal
+        visible={selectedSource !== null}
+        chatId={selectedSource?.chatId ?? null}
+        initialMessageId={selectedSource?.messageId}
+        onClose={() => setSelectedSource(null)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -451,6 +534,10 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginTop: 4,
   },
+  stoppedLabel: {
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
   loadingText: {
     fontSize: 13,
     marginLeft: 8,
@@ -477,6 +564,15 @@ const styles = StyleSheet.create({
     gap: 8,
     borderWidth: 1,
   },
+  sourceItemPressed: {
+    opacity: 0.7,
+  },
+  sourceIndex: {
+    fontSize: 12,
+    fontWeight: '700',
+    minWidth: 14,
+    textAlign: 'center',
+  },
   sourceContent: {
     flex: 1,
     gap: 2,
@@ -488,6 +584,9 @@ const styles = StyleSheet.create({
   sourceSnippet: {
     fontSize: 12,
   },
+  citationMarker: {
+    fontWeight: '600',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
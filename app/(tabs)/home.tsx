@@ -3,20 +3,22 @@
  * Modern messaging interface with real-time updates
  */
 
-import { ChatListItem, ChatModal, NewChatModal } from '@/features/chat/components';
+import { ChatListItem, ChatModal, ChatOption, ChatOptionsSheet, NewChatModal } from '@/features/chat/components';
 import { ChatService, StorageService } from '@/services/firebase';
 import { useTheme } from '@/shared/hooks/useTheme';
-import { Chat, ChatType, Contact } from '@/shared/types';
+import { Chat, ChatPreferences, ChatType, Contact } from '@/shared/types';
+import { getMutedUntil, isChatMuted, MUTE_DURATIONS, sortChatsForList } from '@/shared/utils/ChatPreferences';
 import { useAuthStore, useChatStore, useContactStore, useGroupStore, usePresenceStore } from '@/store';
 import { Ionicons } from '@expo/vector-icons';
 import { FlashList } from '@shopify/flash-list';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, Pressable, RefreshControl, StyleSheet, Text, View } from 'react-native';
 
 export default function HomeScreen() {
   const theme = useTheme();
   const router = useRouter();
+  const { openChatId } = useLocalSearchParams<{ openChatId?: string }>();
   const { user } = useAuthStore();
   const { 
     chats, 
@@ -26,6 +28,7 @@ export default function HomeScreen() {
     unsubscribeAll,
     getUserProfile,
     loadUserProfile,
+    updateChatPreferences,
   } = useChatStore();
   
   const chatsVersion = useChatStore(state => state.chatsVersion); // Subscribe to version for reactivity
@@ -41,6 +44,8 @@ export default function HomeScreen() {
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
   const [isNewChatModalVisible, setIsNewChatModalVisible] = useState(false);
   const [isCreatingChat, setIsCreatingChat] = useState(false);
+  const [optionsChat, setOptionsChat] = useState<Chat | null>(null);
+  const [isArchivedExpanded, setIsArchivedExpanded] = useState(false);
 
   // Load chats and contacts on mount
   useEffect(() => {
@@ -85,6 +90,14 @@ export default function HomeScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [chats.map(c => c.participants.join(',')).join('|'), user?.id]);
 
+  // Open a chat requested by another screen (notification banner, invite link)
+  useEffect(() => {
+    if (openChatId) {
+      setSelectedChatId(openChatId);
+      router.setParams({ openChatId: undefined });
+    }
+  }, [openChatId, router]);
+
   // Pull to refresh
   const handleRefresh = async () => {
     if (user?.id) {
@@ -99,6 +112,56 @@ export default function HomeScreen() {
     setSelectedChatId(chatId);
   };
 
+  // Update mute / pin / archive state for a chat
+  const handleUpdatePreferences = async (chat: Chat, preferences: ChatPreferences) => {
+    if (!user) return;
+
+    try {
+      await updateChatPreferences(chat.id, user.id, preferences);
+    } catch (error) {
+      console.error('Failed to update chat:', error);
+      Alert.alert('Error', 'Failed to update chat. Please try again.');
+    }
+  };
+
+  const handleTogglePin = (chat: Chat) => {
+    handleUpdatePreferences(chat, { pinned: !chat.pinned });
+  };
+
+  const handleToggleArchive = (chat: Chat) => {
+    // Archived chats drop their pin
+    handleUpdatePreferences(chat, chat.archived ? { archived: false } : { archived: true, pinned: false });
+  };
+
+  // Long-press options for a chat
+  const getChatOptions = (chat: Chat): ChatOption[] => [
+    {
+      id: 'pin',
+      label: chat.pinned ? 'Unpin' : 'Pin to top',
+      icon: chat.pinned ? 'pin-outline' : 'pin',
+      onPress: () => handleTogglePin(chat),
+    },
+    ...(isChatMuted(chat)
+      ? [{
+          id: 'unmute',
+          label: 'Unmute',
+          icon: 'notifications' as const,
+          onPress: () => handleUpdatePreferences(chat, { mutedUntil: null }),
+        }]
+      : MUTE_DURATIONS.map((duration) => ({
+          id: `mute-${duration.label}`,
+          label: duration.durationMs === null ? 'Mute always' : `Mute for ${duration.label}`,
+          icon: 'notifications-off' as const,
+          onPress: () => handleUpdatePreferences(chat, { mutedUntil: getMutedUntil(duration.durationMs) }),
+        }))),
+    {
+      id: 'archive',
+      label: chat.archived ? 'Unarchive' : 'Archive',
+      icon: chat.archived ? 'arrow-undo' : 'archive',
+      onPress: () => handleToggleArchive(chat),
+    },
+  ];
+
   // Open new chat modal
   const handleNewChat = () => {
     setIsNewChatModalVisible(true);
@@ -179,8 +242,33 @@ export default function HomeScreen() {
     return null;
   }
 
-  // Render chat item
-  const renderChatItem = ({ item }: { item: Chat }) => {
+  // Render chat item (or the Archived section header)
+  const renderChatItem = ({ item: entry }: { item: ChatListEntry }) => {
+    if (entry.type === 'archivedHeader') {
+      return (
+        <Pressable
+          style={[styles.archivedHeader, { borderTopColor: theme.colors.border }]}
+          onPress={() => setIsArchivedExpanded(expanded => !expanded)}
+        >
+          <Ionicons name="archive-outline" size={20} color={theme.colors.textSecondary} />
+          <Text style={[theme.typography.bodyBold, styles.archivedTitle, { color: theme.colors.text }]}>
+            Archived
+          </Text>
+          <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+            {entry.count}
+          </Text>
+          <Ionicons
+            name={isArchivedExpanded ? 'chevron-up' : 'chevron-down'}
+            size={18}
+            color={theme.colors.textSecondary}
+            style={styles.archivedChevron}
+          />
+        </Pressable>
+      );
+    }
+
+    const item = entry.chat;
+
     // For one-on-one chats, get the other user's info
     const otherUserId = item.participants.find(id => id !== user!.id);
     
@@ -189,7 +277,6 @@ export default function HomeScreen() {
     
     // Get presence from centralized store (subscribed to presenceMap for reactivity)
     const presence = otherUserId ? presenceMap.get(otherUserId) : null;
-    const isOnline = presence?.isOnline || false;
     
     return (
       <ChatListItem
@@ -197,8 +284,11 @@ export default function HomeScreen() {
         currentUserId={user!.id}
         otherUserName={otherUserProfile?.displayName}
         otherUserAvatar={otherUserProfile?.profilePictureUrl}
-        isOnline={isOnline}
+        presence={presence}
         onPress={handleChatPress}
+        onLongPress={setOptionsChat}
+        onTogglePin={item.archived ? undefined : handleTogglePin}
+        onToggleArchive={handleToggleArchive}
       />
     );
   };
@@ -220,6 +310,17 @@ export default function HomeScreen() {
     return hasValidTime && hasContent;
   });
 
+  // Pinned chats first; archived chats in their own section at the bottom
+  const activeChats = sortChatsForList(chatsWithMessages.filter(chat => !chat.archived));
+  const archivedChats = sortChatsForList(chatsWithMessages.filter(chat => chat.archived));
+  const listEntries: ChatListEntry[] = [
+    ...activeChats.map(chat => ({ type: 'chat' as const, chat })),
+    ...(archivedChats.length > 0
+      ? [{ type: 'archivedHeader' as const, count: archivedChats.length }]
+      : []),
+    ...(isArchivedExpanded ? archivedChats.map(chat => ({ type: 'chat' as const, chat })) : []),
+  ];
+
   // Empty state
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
@@ -289,7 +390,7 @@ export default function HomeScreen() {
           </Text>
         </View>
         <View style={styles.headerActions}>
-          <Pressable onPress={() => router.push('/search' as any)} style={styles.headerButton}>
+          <Pressable onPress={() => router.push('/search?mode=messages' as any)} style={styles.headerButton}>
             <Ionicons name="search-outline" size={24} color={theme.colors.text} />
           </Pressable>
           <Pressable onPress={handleNewChat} style={styles.headerButton}>
@@ -305,9 +406,10 @@ export default function HomeScreen() {
         </View>
       ) : (
         <FlashList
-          data={chatsWithMessages}
+          data={listEntries}
           renderItem={renderChatItem}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.type === 'chat' ? item.chat.id : 'archived-header'}
+          getItemType={(item) => item.type}
           extraData={[presenceVersion, chatsVersion]}
           ListEmptyComponent={renderEmptyState}
           refreshControl={
@@ -341,6 +443,16 @@ export default function HomeScreen() {
         isCreating={isCreatingChat}
       />
 
+      {/* Chat Options (long press) */}
+      <ChatOptionsSheet
+        visible={optionsChat !== null}
+        title={optionsChat?.type === 'group'
+          ? (optionsChat.groupName || 'Group Chat')
+          : (getUserProfile(optionsChat?.participants.find(id => id !== user.id) || '')?.displayName || 'Chat')}
+        options={optionsChat ? getChatOptions(optionsChat) : []}
+        onClose={() => setOptionsChat(null)}
+      />
+
       {/* Chat Modal */}
       <ChatModal
         visible={selectedChatId !== null}
@@ -351,6 +463,10 @@ export default function HomeScreen() {
   );
 }
 
+type ChatListEntry =
+  | { type: 'chat'; chat: Chat }
+  | { type: 'archivedHeader'; count: number };
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -375,6 +491,20 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  archivedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  archivedTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  archivedChevron: {
+    marginLeft: 8,
+  },
   flashListEmpty: {
     flex: 1,
   },
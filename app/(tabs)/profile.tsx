@@ -3,28 +3,49 @@
  * User profile with settings and sign out
  */
 
-import { EditBioModal } from '@/features/auth/components';
-import { StorageService, UserService } from '@/services/firebase';
+import { Avatar } from '@/components/common';
+import { EditBioModal, SetStatusModal } from '@/features/auth/components';
+import { AIUsageService, StorageService, UserService } from '@/services/firebase';
 import { useTheme, useThemeMode } from '@/shared/hooks/useTheme';
-import { useAuthStore, useChatStore } from '@/store';
+import { AIUsageSummary, CustomStatus, LastSeenVisibility } from '@/shared/types';
+import { formatCustomStatus, getActiveCustomStatus } from '@/shared/utils/Presence';
+import { useAuthStore, useChatStore, useContactStore } from '@/store';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { useState } from 'react';
-import { ActivityIndicator, Alert, Image, Modal, Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Modal, Pressable, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+const LAST_SEEN_OPTIONS: { value: LastSeenVisibility; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'contacts', label: 'My contacts' },
+  { value: 'nobody', label: 'Nobody' },
+];
 
 export default function ProfileScreen() {
   const theme = useTheme();
   const { themeMode, setThemeMode } = useThemeMode();
   const { user, signOut, updateUserProfile } = useAuthStore();
   const { refreshUserProfile } = useChatStore();
+  const { blockedUsers, unblockUser } = useContactStore();
   
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isBioModalVisible, setIsBioModalVisible] = useState(false);
+  const [isStatusModalVisible, setIsStatusModalVisible] = useState(false);
   const [isLanguageModalVisible, setIsLanguageModalVisible] = useState(false);
   const [isSignOutModalVisible, setIsSignOutModalVisible] = useState(false);
   const [isPrivacyModalVisible, setIsPrivacyModalVisible] = useState(false);
   const [isTermsModalVisible, setIsTermsModalVisible] = useState(false);
+  const [aiUsage, setAIUsage] = useState<AIUsageSummary | null>(null);
+
+  // Remaining AI allowance (translation, assistant, smart replies, search...)
+  useEffect(() => {
+    if (!user?.id) return;
+
+    AIUsageService.getUsage()
+      .then(setAIUsage)
+      .catch(() => setAIUsage(null));
+  }, [user?.id]);
 
   // Available languages for selection
   const availableLanguages = [
@@ -73,6 +94,43 @@ export default function ProfileScreen() {
     }
   };
 
+  const toggleTranslateNotifications = async (enabled: boolean) => {
+    try {
+      if (!user?.id) return;
+      await updateUserProfile({ translateNotifications: enabled });
+    } catch (error) {
+      console.error('Error updating notification translation:', error);
+      Alert.alert('Error', 'Failed to update notification preference');
+    }
+  };
+
+  const handleSaveStatus = async (customStatus: CustomStatus | null) => {
+    try {
+      await updateUserProfile({ customStatus });
+    } catch (error) {
+      console.error('Error updating status:', error);
+      Alert.alert('Error', 'Failed to update status. Please try again.');
+    }
+  };
+
+  const toggleDoNotDisturb = async (enabled: boolean) => {
+    try {
+      await updateUserProfile({ doNotDisturb: enabled });
+    } catch (error) {
+      console.error('Error updating do not disturb:', error);
+      Alert.alert('Error', 'Failed to update do not disturb');
+    }
+  };
+
+  const selectLastSeenVisibility = async (lastSeenVisibility: LastSeenVisibility) => {
+    try {
+      await updateUserProfile({ lastSeenVisibility });
+    } catch (error) {
+      console.error('Error updating last seen visibility:', error);
+      Alert.alert('Error', 'Failed to update last seen privacy');
+    }
+  };
+
   const handleChangeProfilePicture = async () => {
     try {
       // Request permissions
@@ -170,6 +228,15 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleUnblock = async (blockedUserId: string) => {
+    if (!user?.id) return;
+
+    const result = await unblockUser(user.id, blockedUserId);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to unblock user. Please try again.');
+    }
+  };
+
   const handleSignOut = () => {
     setIsSignOutModalVisible(true);
   };
@@ -190,6 +257,8 @@ export default function ProfileScreen() {
     return null;
   }
 
+  const activeStatus = getActiveCustomStatus(user.customStatus);
+
   return (
     <>
     <ScrollView
@@ -275,6 +344,70 @@ export default function ProfileScreen() {
         </View>
       </View>
 
+      {/* Status & Privacy Section */}
+      <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.primary }]}>Status & Privacy</Text>
+
+        {/* Custom Status */}
+        <View style={styles.row}>
+          <View style={styles.flexRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.valueText, { color: activeStatus ? theme.colors.text : theme.colors.textSecondary }]}>
+                {activeStatus ? formatCustomStatus(activeStatus) : 'Set a status'}
+              </Text>
+              <Text style={[styles.labelText, { color: theme.colors.textSecondary }]}>Status</Text>
+            </View>
+            <Pressable onPress={() => setIsStatusModalVisible(true)}>
+              <Ionicons name="create-outline" size={20} color={theme.colors.primary} />
+            </Pressable>
+          </View>
+        </View>
+
+        {/* Do Not Disturb */}
+        <View style={styles.languageDropdown}>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.mainText, { color: theme.colors.text }]}>
+              Do not disturb
+            </Text>
+            <Text style={[styles.subText, { color: theme.colors.textSecondary }]}>
+              Mutes notifications and shows others you&apos;re busy
+            </Text>
+          </View>
+          <Switch
+            value={!!user.doNotDisturb}
+            onValueChange={toggleDoNotDisturb}
+            trackColor={{ true: theme.colors.primary }}
+          />
+        </View>
+
+        {/* Last Seen */}
+        <View style={styles.row}>
+          <Text style={[styles.mainText, { color: theme.colors.text }]}>Who can see my last seen</Text>
+          <View style={styles.visibilityOptions}>
+            {LAST_SEEN_OPTIONS.map(option => {
+              const selected = (user.lastSeenVisibility ?? 'everyone') === option.value;
+              return (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.visibilityOption,
+                    {
+                      borderColor: selected ? theme.colors.primary : theme.colors.border,
+                      backgroundColor: selected ? theme.colors.primary : 'transparent',
+                    },
+                  ]}
+                  onPress={() => selectLastSeenVisibility(option.value)}
+                >
+                  <Text style={[theme.typography.bodySmall, { color: selected ? '#fff' : theme.colors.text }]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+
       {/* Translation Language Section */}
       <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
       <Text style={[styles.sectionTitle, { color: theme.colors.primary }]}>Translation Language</Text>
@@ -289,6 +422,18 @@ export default function ProfileScreen() {
           </Text>
           <Ionicons name="chevron-down" size={20} color={theme.colors.textSecondary} />
         </Pressable>
+
+        {/* Translated notification previews */}
+        <View style={styles.languageDropdown}>
+          <Text style={[styles.mainText, { color: theme.colors.text, flex: 1 }]}>
+            Translate notifications
+          </Text>
+          <Switch
+            value={!!user?.translateNotifications}
+            onValueChange={toggleTranslateNotifications}
+            trackColor={{ true: theme.colors.primary }}
+          />
+        </View>
       </View>
 
       {/* Language Selection Modal */}
@@ -346,6 +491,30 @@ export default function ProfileScreen() {
         </Pressable>
       </Modal>
 
+      {/* AI Usage Section */}
+      {aiUsage && (
+        <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.primary }]}>AI Usage</Text>
+
+          <View style={styles.row}>
+            <Text style={[styles.mainText, { color: theme.colors.text }]}>
+              {aiUsage.tokensRemaining.toLocaleString()} of {aiUsage.tokenLimit.toLocaleString()} tokens left
+            </Text>
+            <View style={[styles.usageTrack, { backgroundColor: theme.colors.border }]}>
+              <View
+                style={[styles.usageFill, {
+                  width: `${Math.min(100, (aiUsage.tokensUsed / Math.max(aiUsage.tokenLimit, 1)) * 100)}%`,
+                  backgroundColor: aiUsage.tokensRemaining > 0 ? theme.colors.primary : theme.colors.error,
+                }]}
+              />
+            </View>
+            <Text style={[styles.subText, { color: theme.colors.textSecondary }]}>
+              Translation, the AI assistant, smart replies and search use your monthly allowance. Resets {new Date(aiUsage.resetsAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}.
+            </Text>
+          </View>
+        </View>
+      )}
+
       {/* Theme Settings Section */}
       <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
         <Text style={[styles.sectionTitle, { color: theme.colors.primary }]}>Appearance</Text>
@@ -472,6 +641,38 @@ export default function ProfileScreen() {
         </View>
       </View>
 
+      {/* Blocked Users Section */}
+      <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.primary }]}>Blocked Users</Text>
+        
+        {blockedUsers.length === 0 ? (
+          <View style={styles.row}>
+            <Text style={[styles.subText, { color: theme.colors.textSecondary, marginTop: 0 }]}>
+              People you block can&apos;t send you friend requests, and you won&apos;t see their messages, typing or online status.
+            </Text>
+          </View>
+        ) : (
+          blockedUsers.map(blocked => (
+            <View key={blocked.userId} style={[styles.row, styles.flexRow]}>
+              <Avatar name={blocked.displayName || 'User'} imageUrl={blocked.profilePictureUrl} size={36} />
+              <View style={{ marginLeft: 12, flex: 1 }}>
+                <Text style={[styles.valueText, { color: theme.colors.text }]} numberOfLines={1}>
+                  {blocked.displayName || 'User'}
+                </Text>
+                {!!blocked.username && (
+                  <Text style={[styles.subText, { color: theme.colors.textSecondary, marginTop: 0 }]} numberOfLines={1}>
+                    @{blocked.username}
+                  </Text>
+                )}
+              </View>
+              <Pressable onPress={() => handleUnblock(blocked.userId)} hitSlop={8}>
+                <Text style={[styles.mainText, { color: theme.colors.primary, fontWeight: '600', marginBottom: 0 }]}>Unblock</Text>
+              </Pressable>
+            </View>
+          ))
+        )}
+      </View>
+
       {/* About Section */}
       <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
         <Text style={[styles.sectionTitle, { color: theme.colors.primary }]}>About</Text>
@@ -533,6 +734,14 @@ export default function ProfileScreen() {
       onClose={() => setIsBioModalVisible(false)}
     />
 
+    {/* Set Status Modal */}
+    <SetStatusModal
+      visible={isStatusModalVisible}
+      currentStatus={user.customStatus ?? null}
+      onSave={handleSaveStatus}
+      onClose={() => setIsStatusModalVisible(false)}
+    />
+
     {/* Sign Out Confirmation Modal */}
     <Modal
       visible={isSignOutModalVisible}
@@ -805,10 +1014,31 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     paddingHorizontal: 24,
   },
+  usageTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginVertical: 6,
+  },
+  usageFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
   flexRow: {
     flexDirection: 'row',
     alignItems: 'center',
   },
+  visibilityOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  visibilityOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
   mainText: {
     fontSize: 16,
     fontWeight: '400',
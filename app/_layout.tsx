@@ -6,22 +6,25 @@
 
 import { InAppNotification } from '@/components/common';
 import { SQLiteService } from '@/database/SQLiteService';
-import { initializeFirebase, PresenceService } from '@/services/firebase';
+import { EncryptionService, initializeFirebase, PresenceService } from '@/services/firebase';
 import { OfflineBanner } from '@/shared/components/OfflineBanner';
 import { ThemeProvider } from '@/shared/context/ThemeContext';
 import { useNotifications } from '@/shared/hooks/useNotifications';
+import { AWAY_TIMEOUT_MS } from '@/shared/utils/Presence';
 import { useAuthStore, useContactStore } from '@/store';
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, AppState, AppStateStatus, Text, View } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
 export default function RootLayout() {
   const [isAppReady, setIsAppReady] = useState(false);
   const { isAuthenticated, user, isInitialized, initialize } = useAuthStore();
-  const { subscribeFriendRequests, unsubscribeAll } = useContactStore();
+  const { subscribeFriendRequests, loadBlockedUsers, unsubscribeAll } = useContactStore();
   const segments = useSegments();
   const router = useRouter();
   const appState = useRef(AppState.currentState);
+  const offlineTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Notifications
   const {
@@ -82,6 +85,18 @@ export default function RootLayout() {
           console.error('Failed to process message queue on startup:', error);
         }
 
+        // Catch up on changes since the last session (in the background)
+        if (useAuthStore.getState().isAuthenticated) {
+          try {
+            const { DeltaSync } = await import('@/database/DeltaSync');
+            DeltaSync.syncAll().catch(error => {
+              console.error('Failed to sync chats on startup:', error);
+            });
+          } catch (error) {
+            console.error('Failed to start chat sync on startup:', error);
+          }
+        }
+
         setIsAppReady(true);
       } catch (error) {
         console.error('❌ App initialization failed:', error);
@@ -128,15 +143,32 @@ export default function RootLayout() {
           // User on index route with complete profile, navigate to home
           router.replace('/(tabs)/home');
         }
-        // Don't redirect if already in tabs or on modal routes (search, etc)
+        // Don't redirect if already in tabs or on modal routes (search, join, etc)
       }
     }
   }, [isAuthenticated, isAppReady, isInitialized, segments, user?.username, user?.displayName]);
 
-  // Handle online/offline presence (optimized - no heartbeat!)
+  // Keep presence in line with the user's custom status, do not disturb and last seen privacy
+  useEffect(() => {
+    if (!isAuthenticated || !user?.id || !user?.displayName) return;
+
+    PresenceService.updateSettings(user.id, user.displayName, {
+      customStatus: user.customStatus ?? null,
+      doNotDisturb: user.doNotDisturb === true,
+      lastSeenVisibility: user.lastSeenVisibility ?? 'everyone',
+    });
+  }, [isAuthenticated, user?.id, user?.displayName, user?.customStatus, user?.doNotDisturb, user?.lastSeenVisibility]);
+
+  // Handle online/away/offline presence (optimized - no heartbeat!)
   useEffect(() => {
     if (!isAuthenticated || !user?.id || !user?.displayName) return;
 
+    const clearOfflineTimer = () => {
+      if (offlineTimer.current) {
+        clearTimeout(offlineTimer.current);
+        offlineTimer.current = null;
+      }
+    };
 
     const handleAppStateChange = async (nextAppState: AppStateStatus) => {
       
@@ -147,21 +179,30 @@ export default function RootLayout() {
 
       if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
         // App has come to foreground - set online
+        clearOfflineTimer();
         try {
           await PresenceService.setOnline(user.id, user.displayName);
         } catch (error) {
           console.error('❌ Failed to set online status:', error);
         }
       } else if (appState.current === 'active' && nextAppState.match(/inactive|background/)) {
-        // App has gone to background - set offline
+        // App has left the foreground - away for now, offline if the user doesn't come back
+        // (if the OS suspends the app first, onDisconnect marks them offline)
+        clearOfflineTimer();
+        offlineTimer.current = setTimeout(() => {
+          offlineTimer.current = null;
+          PresenceService.setOffline(user.id, user.displayName).catch(() => {
+            // Silently handle permission errors (happens during logout)
+          });
+        }, AWAY_TIMEOUT_MS);
         
         try {
-          await PresenceService.setOffline(user.id, user.displayName);
+          await PresenceService.setAway(user.id, user.displayName);
         } catch (error: any) {
           // Silently handle permission errors (happens during logout)
           if (error?.message?.includes('PERMISSION_DENIED') || error?.message?.includes('permission_denied')) {
           } else {
-            console.error('❌ Failed to set offline status:', error);
+            console.error('❌ Failed to set away status:', error);
           }
         }
       }
@@ -179,6 +220,7 @@ export default function RootLayout() {
     return () => {
       // Cleanup on unmount - ONLY if user is still authenticated
       subscription.remove();
+      clearOfflineTimer();
       
       // DON'T try to set offline here - it's handled in AuthStore.signOut()
       // If we try here, the user might already be logged out (permission error)
@@ -191,6 +233,9 @@ export default function RootLayout() {
       updateFCMToken(user.id).catch(error => 
         console.error('❌ Failed to update FCM token:', error)
       );
+      EncryptionService.initializeDevice(user.id).catch(error =>
+        console.error('❌ Failed to initialize encryption keys:', error)
+      );
     } else if (!isAuthenticated) {
       // Cleanup notifications on logout
       cleanupNotifications();
@@ -198,15 +243,17 @@ export default function RootLayout() {
   }, [isAuthenticated, user?.id]);
 
   // Subscribe to friend requests globally for badge updates
+  // and load blocked users (their messages, typing and presence are hidden everywhere)
   useEffect(() => {
     if (isAuthenticated && user?.id) {
       subscribeFriendRequests(user.id);
+      loadBlockedUsers(user.id);
       
       return () => {
         unsubscribeAll();
       };
     }
-  }, [isAuthenticated, user?.id, subscribeFriendRequests, unsubscribeAll]);
+  }, [isAuthenticated, user?.id, subscribeFriendRequests, loadBlockedUsers, unsubscribeAll]);
 
   if (!isAppReady || !isInitialized) {
     return (
@@ -218,34 +265,43 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="index" />
-        <Stack.Screen name="(auth)" />
-        <Stack.Screen name="(tabs)" />
-        <Stack.Screen 
-          name="search" 
-          options={{
-            presentation: 'modal',
-            animation: 'slide_from_bottom',
-          }}
-        />
-      </Stack>
-      
-      {/* In-app notification banner */}
-      {inAppNotification && (
-        <InAppNotification
-          senderName={inAppNotification.senderName}
-          messageText={inAppNotification.messageText}
-          senderAvatar={inAppNotification.senderAvatar}
-          chatId={inAppNotification.chatId}
-          isImage={inAppNotification.isImage}
-          onDismiss={dismissInAppNotification}
-        />
-      )}
-      
-      {/* Offline banner */}
-      <OfflineBanner />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider>
+        <Stack screenOptions={{ headerShown: false }}>
+          <Stack.Screen name="index" />
+          <Stack.Screen name="(auth)" />
+          <Stack.Screen name="(tabs)" />
+          <Stack.Screen 
+            name="search" 
+            options={{
+              presentation: 'modal',
+              animation: 'slide_from_bottom',
+            }}
+          />
+          <Stack.Screen 
+            name="join/[code]" 
+            options={{
+              presentation: 'modal',
+              animation: 'slide_from_bottom',
+            }}
+          />
+        </Stack>
+        
+        {/* In-app notification banner */}
+        {inAppNotification && (
+          <InAppNotification
+            senderName={inAppNotification.senderName}
+            messageText={inAppNotification.messageText}
+            senderAvatar={inAppNotification.senderAvatar}
+            chatId={inAppNotification.chatId}
+            isImage={inAppNotification.isImage}
+            onDismiss={dismissInAppNotification}
+          />
+        )}
+        
+        {/* Offline banner */}
+        <OfflineBanner />
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,182 @@
+/**
+ * Join Group Screen - Opened from invite links (avoai://join/<code>)
+ * Shows the group's name, icon and member count before joining
+ */
+
+import { Avatar, Button } from '@/components/common';
+import { GroupService } from '@/services/firebase';
+import { useTheme } from '@/shared/hooks/useTheme';
+import { GroupInvitePreview } from '@/shared/types';
+import { parseInviteCode } from '@/shared/utils';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+
+export default function JoinGroupScreen() {
+  const theme = useTheme();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ code?: string }>();
+  const code = parseInviteCode(params.code || '');
+
+  const [preview, setPreview] = useState<GroupInvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    if (!code) {
+      setError('This invite link is not valid');
+      return;
+    }
+
+    setPreview(null);
+    setError(null);
+    GroupService.getInvitePreview(code)
+      .then(setPreview)
+      .catch((previewError: any) => setError(previewError?.message || 'Failed to load invite'));
+  }, [code]);
+
+  const handleClose = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/home');
+    }
+  };
+
+  const openGroup = (groupId: string) => {
+    router.replace({
+      pathname: '/(tabs)/home',
+      params: { openChatId: groupId },
+    });
+  };
+
+  const handleJoin = async () => {
+    if (!code || !preview) return;
+
+    setIsJoining(true);
+    try {
+      const result = await GroupService.joinGroupByInviteCode(code);
+      if (result.status === 'joined') {
+        openGroup(result.groupId);
+      } else {
+        setPreview({ ...preview, hasPendingRequest: true });
+      }
+    } catch (joinError: any) {
+      setError(joinError?.message || 'Failed to join group');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const renderAction = () => {
+    if (!preview) return null;
+
+    if (preview.isMember) {
+      return <Button title="Open Group" onPress={() => openGroup(preview.groupId)} />;
+    }
+
+    if (preview.hasPendingRequest) {
+      return (
+        <>
+          <Button title="Request Sent" disabled onPress={() => {}} />
+          <Text style={[theme.typography.bodySmall, styles.hint, { color: theme.colors.textSecondary }]}>
+            An admin or moderator will review your request.
+          </Text>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Button
+          title={preview.requiresApproval ? 'Request to Join' : 'Join Group'}
+          onPress={handleJoin}
+          loading={isJoining}
+          disabled={isJoining}
+        />
+        {preview.requiresApproval && (
+          <Text style={[theme.typography.bodySmall, styles.hint, { color: theme.colors.textSecondary }]}>
+            An admin or moderator needs to approve new members.
+          </Text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={handleClose} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={theme.colors.text} />
+        </Pressable>
+      </View>
+
+      <View style={styles.content}>
+        {error ? (
+          <>
+            <Ionicons name="link-outline" size={64} color={theme.colors.textSecondary} />
+            <Text style={[theme.typography.h3, styles.title, { color: theme.colors.text }]}>
+              Can&apos;t open invite
+            </Text>
+            <Text style={[theme.typography.body, styles.hint, { color: theme.colors.textSecondary }]}>
+              {error}
+            </Text>
+          </>
+        ) : !preview ? (
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        ) : (
+          <>
+            <Avatar name={preview.groupName} imageUrl={preview.groupIcon} size={100} />
+            <Text style={[theme.typography.h2, styles.title, { color: theme.colors.text }]}>
+              {preview.groupName}
+            </Text>
+            <Text style={[theme.typography.body, { color: theme.colors.textSecondary }]}>
+              {preview.memberCount} {preview.memberCount === 1 ? 'member' : 'members'}
+            </Text>
+            <View style={styles.actions}>
+              {renderAction()}
+            </View>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    paddingBottom: 80,
+  },
+  title: {
+    marginTop: 16,
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  actions: {
+    alignSelf: 'stretch',
+    marginTop: 32,
+  },
+  hint: {
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
@@ -1,19 +1,23 @@
 /**
- * Contact Search Screen
- * Search for users by username and send friend requests
+ * Search Screen
+ * - Messages: offline full-text search over messages cached on this device
+ * - People: search for users by username and send friend requests
  */
 
 import { Avatar } from '@/components/common';
+import { SQLiteService } from '@/database/SQLiteService';
+import { ChatModal, MessageSearchResultItem } from '@/features/chat/components';
 import { useTheme } from '@/shared/hooks/useTheme';
-import { User } from '@/shared/types';
-import { useAuthStore, useContactStore } from '@/store';
+import { MessageSearchResult, User } from '@/shared/types';
+import { useAuthStore, useChatStore, useContactStore } from '@/store';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
-import { useCallback, useEffect, useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
     FlatList,
+    Keyboard,
     Pressable,
     StyleSheet,
     Text,
@@ -21,10 +25,24 @@ import {
     View,
 } from 'react-native';
 
+type SearchMode = 'messages' | 'people';
+type DateFilter = 'any' | 'week' | 'month' | 'year';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_FILTERS: { id: DateFilter; label: string; days?: number }[] = [
+  { id: 'any', label: 'Any time' },
+  { id: 'week', label: 'Past week', days: 7 },
+  { id: 'month', label: 'Past month', days: 30 },
+  { id: 'year', label: 'Past year', days: 365 },
+];
+
 export default function SearchScreen() {
   const theme = useTheme();
   const router = useRouter();
+  const params = useLocalSearchParams<{ mode?: string }>();
   const { user } = useAuthStore();
+  const { chats, getUserProfile } = useChatStore();
   const {
     searchResults,
     searchLoading,
@@ -33,15 +51,23 @@ export default function SearchScreen() {
     sendFriendRequest,
     isContact,
     isBlocked,
+    blockedUsers,
     hasPendingRequest,
     hasSentRequest,
   } = useContactStore();
 
+  const [mode, setMode] = useState<SearchMode>(params.mode === 'messages' ? 'messages' : 'people');
   const [searchText, setSearchText] = useState('');
   const [sendingRequests, setSendingRequests] = useState<Set<string>>(new Set());
+  const [dateFilter, setDateFilter] = useState<DateFilter>('any');
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [messageSearchLoading, setMessageSearchLoading] = useState(false);
+  const [selectedResult, setSelectedResult] = useState<{ chatId: string; messageId: string } | null>(null);
 
-  // Debounced search
+  // Debounced user search
   useEffect(() => {
+    if (mode !== 'people') return;
+
     const timer = setTimeout(() => {
       if (searchText.trim().length >= 2) {
         searchUsers(searchText);
@@ -51,7 +77,61 @@ export default function SearchScreen() {
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [searchText]);
+  }, [searchText, mode]);
+
+  // Debounced message search (local SQLite, works offline)
+  useEffect(() => {
+    if (mode !== 'messages') return;
+
+    if (searchText.trim().length < 2) {
+      setMessageResults([]);
+      setMessageSearchLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setMessageSearchLoading(true);
+
+    const timer = setTimeout(async () => {
+      const days = DATE_FILTERS.find(filter => filter.id === dateFilter)?.days;
+
+      try {
+        const results = await SQLiteService.searchMessages(searchText, {
+          dateRange: days ? { start: Date.now() - days * DAY_MS } : undefined,
+        });
+        if (!cancelled) {
+          setMessageResults(results);
+        }
+      } catch (error) {
+        console.error('Error searching messages:', error);
+        if (!cancelled) {
+          setMessageResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setMessageSearchLoading(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchText, mode, dateFilter]);
+
+  // Only show hits from chats the user is still in, and never from blocked users
+  const visibleMessageResults = useMemo(() => {
+    const chatIds = new Set(chats.map(chat => chat.id));
+    const blockedIds = new Set(blockedUsers.map(blocked => blocked.userId));
+    return messageResults.filter(result => chatIds.has(result.chatId) && !blockedIds.has(result.senderId));
+  }, [messageResults, chats, blockedUsers]);
+
+  // Open the chat at the matching message (thread replies open at their root message)
+  const handleMessageResultPress = useCallback((result: MessageSearchResult) => {
+    Keyboard.dismiss();
+    setSelectedResult({ chatId: result.chatId, messageId: result.threadId || result.id });
+  }, []);
 
   const handleSendRequest = async (toUserId: string) => {
     if (!user) return;
@@ -174,6 +254,85 @@ export default function SearchScreen() {
     );
   };
 
+  const renderMessageResult = ({ item }: { item: MessageSearchResult }) => {
+    const chat = chats.find(c => c.id === item.chatId);
+    const otherUser = chat?.type === 'one-on-one'
+      ? getUserProfile(chat.participants.find(id => id !== user?.id) || '')
+      : null;
+    const chatName = chat?.type === 'group'
+      ? (chat.groupName || 'Group Chat')
+      : (otherUser?.displayName || 'Unknown User');
+    const senderName = item.senderId === user?.id
+      ? 'You'
+      : (getUserProfile(item.senderId)?.displayName || 'Unknown');
+
+    return (
+      <MessageSearchResultItem
+        result={item}
+        chatName={chatName}
+        chatAvatar={otherUser?.profilePictureUrl}
+        senderName={senderName}
+        onPress={handleMessageResultPress}
+      />
+    );
+  };
+
+  const renderMessageEmptyState = () => {
+    if (messageSearchLoading) {
+      return null;
+    }
+
+    if (searchText.trim().length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="chatbubbles-outline" size={80} color={theme.colors.textSecondary} style={{ opacity: 0.3 }} />
+          <Text style={[theme.typography.h3, { color: theme.colors.text, marginTop: 24, textAlign: 'center' }]}>
+            Search your messages
+          </Text>
+          <Text
+            style={[
+              theme.typography.body,
+              { color: theme.colors.textSecondary, marginTop: 8, textAlign: 'center', paddingHorizontal: 40 },
+            ]}
+          >
+            Searches messages saved on this device, even offline
+          </Text>
+        </View>
+      );
+    }
+
+    if (searchText.trim().length < 2) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={[theme.typography.body, { color: theme.colors.textSecondary, textAlign: 'center' }]}>
+            Enter at least 2 characters to search
+          </Text>
+        </View>
+      );
+    }
+
+    if (visibleMessageResults.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="search-outline" size={80} color={theme.colors.textSecondary} style={{ opacity: 0.3 }} />
+          <Text style={[theme.typography.h3, { color: theme.colors.text, marginTop: 24, textAlign: 'center' }]}>
+            No messages found
+          </Text>
+          <Text
+            style={[
+              theme.typography.body,
+              { color: theme.colors.textSecondary, marginTop: 8, textAlign: 'center', paddingHorizontal: 40 },
+            ]}
+          >
+            Try different words or a longer time range
+          </Text>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
   const renderEmptyState = () => {
     if (searchLoading) {
       return null;
@@ -239,16 +398,35 @@ export default function SearchScreen() {
         <Pressable onPress={() => router.back()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
         </Pressable>
-        <Text style={[theme.typography.h3, { color: theme.colors.text }]}>Search Users</Text>
+        <Text style={[theme.typography.h3, { color: theme.colors.text }]}>Search</Text>
         <View style={{ width: 24 }} />
       </View>
 
+      {/* Mode Tabs */}
+      <View style={[styles.tabs, { borderBottomColor: theme.colors.border }]}>
+        {(['messages', 'people'] as SearchMode[]).map((tabMode) => (
+          <Pressable key={tabMode} style={styles.tab} onPress={() => setMode(tabMode)}>
+            <Text
+              style={[
+                theme.typography.body,
+                { color: mode === tabMode ? theme.colors.primary : theme.colors.textSecondary },
+              ]}
+            >
+              {tabMode === 'messages' ? 'Messages' : 'People'}
+            </Text>
+            {mode === tabMode && (
+              <View style={[styles.tabIndicator, { backgroundColor: theme.colors.primary }]} />
+            )}
+          </Pressable>
+        ))}
+      </View>
+
       {/* Search Input */}
       <View style={[styles.searchContainer, { backgroundColor: theme.colors.surface }]}>
         <Ionicons name="search" size={20} color={theme.colors.textSecondary} />
         <TextInput
           style={[styles.searchInput, theme.typography.body, { color: theme.colors.text }]}
-          placeholder="Search by username..."
+          placeholder={mode === 'messages' ? 'Search messages...' : 'Search by username...'}
           placeholderTextColor={theme.colors.textSecondary}
           value={searchText}
           onChangeText={setSearchText}
@@ -263,8 +441,47 @@ export default function SearchScreen() {
         )}
       </View>
 
+      {/* Date filter (messages only) */}
+      {mode === 'messages' && (
+        <View style={styles.filters}>
+          {DATE_FILTERS.map((filter) => {
+            const selected = dateFilter === filter.id;
+            return (
+              <Pressable
+                key={filter.id}
+                style={[
+                  styles.filterChip,
+                  { backgroundColor: selected ? theme.colors.primary : theme.colors.surface },
+                ]}
+                onPress={() => setDateFilter(filter.id)}
+              >
+                <Text style={[theme.typography.bodySmall, { color: selected ? '#fff' : theme.colors.text }]}>
+                  {filter.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
       {/* Results */}
-      {searchLoading ? (
+      {mode === 'messages' ? (
+        messageSearchLoading && visibleMessageResults.length === 0 ? (
+          <View style={styles.loading}>
+            <ActivityIndicator size="large" color={theme.colors.primary} />
+          </View>
+        ) : visibleMessageResults.length > 0 ? (
+          <FlatList
+            data={visibleMessageResults}
+            renderItem={renderMessageResult}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.messageListContent}
+            keyboardShouldPersistTaps="handled"
+          />
+        ) : (
+          <View style={styles.emptyContainer}>{renderMessageEmptyState()}</View>
+        )
+      ) : searchLoading ? (
         <View style={styles.loading}>
           <ActivityIndicator size="large" color={theme.colors.primary} />
           <Text style={[theme.typography.body, { color: theme.colors.textSecondary, marginTop: 16 }]}>
@@ -281,6 +498,14 @@ export default function SearchScreen() {
       ) : (
         <View style={styles.emptyContainer}>{renderEmptyState()}</View>
       )}
+
+      {/* Chat opened from a message result */}
+      <ChatModal
+        visible={selectedResult !== null}
+        chatId={selectedResult?.chatId ?? null}
+        initialMessageId={selectedResult?.messageId}
+        onClose={() => setSelectedResult(null)}
+      />
     </View>
   );
 }
@@ -300,6 +525,25 @@ const styles = StyleSheet.create({
   backButton: {
     padding: 4,
   },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    position: 'relative',
+  },
+  tabIndicator: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    height: 2,
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -328,6 +572,21 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 24,
   },
+  filters: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    marginTop: -4,
+    marginBottom: 12,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  messageListContent: {
+    paddingBottom: 100,
+  },
   listContent: {
     paddingHorizontal: 20,
     paddingBottom: 100,
@@ -0,0 +1,9 @@
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.test.ts"],
+  transform: {
+    // Type errors are left to `tsc`; NodeNext module output is only supported transpiling file by file
+    "^.+\\.ts$": ["ts-jest", { diagnostics: { ignoreCodes: [151002] } }],
+  },
+};
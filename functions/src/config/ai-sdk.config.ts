@@ -1,13 +1,76 @@
-import { openai } from '@ai-sdk/openai';
+import { EmbeddingModelV2, LanguageModelV2, LanguageModelV2StreamPart } from '@ai-sdk/provider';
+import { reportTokenUsage } from '../services/AIUsageService';
+import { LLMService } from '../services/LLMService';
 
 /**
  * AI SDK Configuration
- * Using OpenAI GPT-3.5-turbo and text-embedding-3-small
+ * Models for generateText / generateObject / embed, backed by the active
+ * LLM provider (see LLMService - OpenAI gpt-4o-mini and text-embedding-3-small
+ * by default)
+ *
+ * Both models look the provider up on every call, so LLMService.setProvider()
+ * takes effect everywhere, and count tokens against the calling user's monthly
+ * quota (see AIUsageService).
  */
 
-export const aiModel = openai('gpt-4o-mini');
+const languageModel = () => LLMService.getProvider().languageModel();
+const textEmbeddingModel = () => LLMService.getProvider().embeddingModel();
 
-export const embeddingModel = openai.embedding('text-embedding-3-small');
+export const aiModel: LanguageModelV2 = {
+  specificationVersion: 'v2',
+  get provider() {
+    return languageModel().provider;
+  },
+  get modelId() {
+    return languageModel().modelId;
+  },
+  get supportedUrls() {
+    return languageModel().supportedUrls;
+  },
+  doGenerate: async (options) => {
+    const result = await languageModel().doGenerate(options);
+    const { inputTokens = 0, outputTokens = 0, totalTokens } = result.usage;
+    reportTokenUsage(totalTokens ?? inputTokens + outputTokens);
+    return result;
+  },
+  doStream: async (options) => {
+    const result = await languageModel().doStream(options);
+    return {
+      ...result,
+      // Usage arrives with the last part
+      stream: result.stream.pipeThrough(new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish') {
+            const { inputTokens = 0, outputTokens = 0, totalTokens } = part.usage;
+            reportTokenUsage(totalTokens ?? inputTokens + outputTokens);
+          }
+          controller.enqueue(part);
+        },
+      })),
+    };
+  },
+};
+
+export const embeddingModel: EmbeddingModelV2<string> = {
+  specificationVersion: 'v2',
+  get provider() {
+    return textEmbeddingModel().provider;
+  },
+  get modelId() {
+    return textEmbeddingModel().modelId;
+  },
+  get maxEmbeddingsPerCall() {
+    return textEmbeddingModel().maxEmbeddingsPerCall;
+  },
+  get supportsParallelCalls() {
+    return textEmbeddingModel().supportsParallelCalls;
+  },
+  doEmbed: async (options) => {
+    const result = await textEmbeddingModel().doEmbed(options);
+    reportTokenUsage(result.usage?.tokens);
+    return result;
+  },
+};
 
 export const AI_CONFIG = {
   maxTokens: 500,
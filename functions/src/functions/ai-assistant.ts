@@ -5,19 +5,52 @@
 
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
-import { HttpsError, onCall } from "firebase-functions/v2/https";
-import { EmbeddingService } from "../services/EmbeddingService";
+import { FunctionsErrorCode, HttpsError, onCall, onRequest } from "firebase-functions/v2/https";
+import {
+  AIAssistantService,
+  AssistantHistoryMessage,
+  AssistantUser,
+} from "../services/AIAssistantService";
+import { AIUsageError } from "../services/AIUsageService";
+import { runWithAIUsage, withAIUsage } from "../utils/aiUsage";
+import { validateChatNotEncrypted } from "../utils/validation";
+
+/**
+ * Question, history and caller identity from a request
+ * Throws invalid-argument for queries that are too short
+ */
+function parseAssistantRequest(
+  data: any,
+  token: { email?: string; name?: string }
+): { query: string; conversationHistory: AssistantHistoryMessage[]; user: AssistantUser } {
+  const { query, conversationHistory = [] } = data || {};
+
+  // Validate query
+  if (!query || typeof query !== "string" || query.trim().length < 2) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Query must be at least 2 characters"
+    );
+  }
+
+  const email = token.email || "Unknown User";
+  return {
+    query,
+    conversationHistory: Array.isArray(conversationHistory) ? conversationHistory : [],
+    user: { email, name: token.name || email.split("@")[0] || "User" },
+  };
+}
 
 /**
  * AI Assistant - Natural language chat interface
- * Searches messages semantically and generates helpful answers
- * Callable from React Native app
+ * Searches messages (keyword + semantic) and generates helpful answers
+ * Callable from React Native app (see aiAssistantStream for a streamed answer)
  */
 export const aiAssistant = onCall(
   {
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("aiAssistant", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -27,18 +60,8 @@ export const aiAssistant = onCall(
         );
       }
 
-      const { query, conversationHistory = [] } = request.data;
       const userId = request.auth.uid;
-      const userEmail = request.auth.token.email || "Unknown User";
-      const userName = request.auth.token.name || userEmail.split('@')[0] || "User";
-
-      // Validate query
-      if (!query || typeof query !== "string" || query.trim().length < 2) {
-        throw new HttpsError(
-          "invalid-argument",
-          "Query must be at least 2 characters"
-        );
-      }
+      const { query, conversationHistory, user } = parseAssistantRequest(request.data, request.auth.token);
 
       logger.info("AI Assistant query", {
         userId,
@@ -46,271 +69,23 @@ export const aiAssistant = onCall(
         historyLength: conversationHistory.length,
       });
 
-      // Step 1: Use semantic search to find relevant CONVERSATION CHUNKS
-      const searchResults: any = await admin
-        .firestore()
-        .collection("chats")
-        .where("participants", "array-contains", userId)
-        .get()
-        .then(async (chatsSnapshot) => {
-          if (chatsSnapshot.empty) {
-            return [];
-          }
-
-          const chatIds = chatsSnapshot.docs.map(doc => doc.id);
-          
-          // Search across all chats for conversation chunks
-          const allResults: any[] = [];
-          
-          for (const chatId of chatIds) {
-            try {
-              // Get chat info
-              const chatDoc = chatsSnapshot.docs.find(d => d.id === chatId);
-              const chatData = chatDoc?.data();
-              
-              // Get chat name
-              let chatName = "Unknown Chat";
-              if (chatData?.isGroup) {
-                chatName = chatData.name || "Unnamed Group";
-              } else if (chatData?.participants && Array.isArray(chatData.participants)) {
-                const otherUserId = chatData.participants.find((id: string) => id !== userId);
-                if (otherUserId) {
-                  try {
-                    const userDoc = await admin.firestore().collection("users").doc(otherUserId).get();
-                    const userData = userDoc.data();
-                    chatName = userData?.displayName || userData?.username || "Unknown User";
-                  } catch {
-                    chatName = "Unknown User";
-                  }
-                }
-              }
-              
-              // Get conversation chunks with embeddings
-              const chunksSnapshot = await admin
-                .firestore()
-                .collection("chats")
-                .doc(chatId)
-                .collection("conversationChunks")
-                .where("embeddingGenerated", "==", true)
-                .get();
-
-              // If no chunks exist, fall back to individual messages (legacy support)
-              if (chunksSnapshot.empty) {
-                logger.info("No chunks found for chat, falling back to messages", { chatId });
-                
-                const messagesSnapshot = await admin
-                  .firestore()
-                  .collection("chats")
-                  .doc(chatId)
-                  .collection("messages")
-                  .where("embeddingGenerated", "==", true)
-                  .orderBy("timestamp", "desc")
-                  .limit(30)
-                  .get();
-
-                if (messagesSnapshot.empty) continue;
-
-                // Generate query embedding
-                const queryEmbedding = await EmbeddingService.generateEmbedding(query);
-
-                // Compare with message embeddings (legacy)
-                const messages = messagesSnapshot.docs.map(doc => {
-                  const data: any = doc.data();
-                  return {
-                    id: doc.id,
-                    text: data.text,
-                    timestamp: data.timestamp,
-                    senderId: data.senderId,
-                    embedding: data.embedding,
-                  };
-                });
-
-                for (const message of messages) {
-                  if (!message.embedding) continue;
-                  
-                  const similarity = EmbeddingService.cosineSimilarity(
-                    queryEmbedding.embedding,
-                    message.embedding
-                  );
-
-                  // Lowered threshold from 0.5 to 0.3 for better recall (industry standard for chat)
-                  if (similarity > 0.3) {
-                    allResults.push({
-                      chatId,
-                      chatName,
-                      text: message.text,
-                      timestamp: message.timestamp,
-                      similarity,
-                      isChunk: false,
-                    });
-                    
-                    logger.info("Message matched", {
-                      chatId,
-                      similarity: similarity.toFixed(3),
-                      textPreview: message.text.substring(0, 50),
-                    });
-                  }
-                }
-                continue;
-              }
-
-              // Generate query embedding once per chat
-              const queryEmbedding = await EmbeddingService.generateEmbedding(query);
-
-              // Compare with conversation chunk embeddings
-              const chunks = chunksSnapshot.docs.map(doc => {
-                const data: any = doc.data();
-                return {
-                  id: doc.id,
-                  chunkIndex: data.chunkIndex,
-                  messages: data.messages || [],
-                  fullText: data.fullText || "",
-                  startTimestamp: data.startTimestamp,
-                  endTimestamp: data.endTimestamp,
-                  embedding: data.embedding,
-                };
-              });
-
-              for (const chunk of chunks) {
-                if (!chunk.embedding) continue;
-                
-                const similarity = EmbeddingService.cosineSimilarity(
-                  queryEmbedding.embedding,
-                  chunk.embedding
-                );
-
-                // Lowered threshold from 0.5 to 0.3 for better recall (industry standard for chat)
-                if (similarity > 0.3) {
-                  allResults.push({
-                    chatId,
-                    chatName,
-                    chunkId: chunk.id,
-                    chunkIndex: chunk.chunkIndex,
-                    messages: chunk.messages,
-                    fullText: chunk.fullText,
-                    timestamp: chunk.endTimestamp, // Use end timestamp for sorting
-                    similarity,
-                    isChunk: true,
-                  });
-                  
-                  logger.info("Chunk matched", {
-                    chatId,
-                    chunkIndex: chunk.chunkIndex,
-                    similarity: similarity.toFixed(3),
-                    textPreview: chunk.fullText.substring(0, 50),
-                  });
-                }
-              }
-            } catch (error) {
-              logger.warn("Error searching chat", { chatId, error });
-            }
-          }
-
-          // Sort by similarity and take top 15 results (increased from 5 for better context)
-          return allResults
-            .sort((a, b) => b.similarity - a.similarity)
-            .slice(0, 15);
-        });
+      // Step 1: Use hybrid (keyword + semantic) search to find relevant CONVERSATION CHUNKS
+      const searchResults = await new AIAssistantService().search(userId, query);
 
       logger.info("Search completed", {
         userId,
         resultsFound: searchResults.length,
-        topResults: searchResults.slice(0, 3).map((r: any) => ({
+        topResults: searchResults.slice(0, 3).map((r) => ({
           similarity: r.similarity.toFixed(3),
           chatName: r.chatName,
           isChunk: r.isChunk,
-          preview: (r.isChunk ? r.fullText : r.text).substring(0, 60),
+          preview: ((r.isChunk ? r.fullText : r.text) || "").substring(0, 60),
         })),
       });
 
-      // Step 2: Build context from search results (chunks or messages)
-      let context = "";
-      if (searchResults.length === 0) {
-        context = "No relevant messages found in the user's chat history.";
-      } else {
-        context = searchResults
-          .map((result: any, index: number) => {
-            const date = result.timestamp ? 
-              new Date(result.timestamp).toLocaleDateString() : 
-              "Unknown date";
-            
-            // If it's a conversation chunk, format as dialogue
-            if (result.isChunk && result.messages && result.messages.length > 0) {
-              const conversation = result.messages
-                .map((msg: any) => `  ${msg.senderName}: ${msg.text}`)
-                .join("\n");
-              
-              return `[${index + 1}] Conversation with ${result.chatName} (${date}):\n${conversation}\n`;
-            } else {
-              // Legacy: single message format
-              return `[${index + 1}] From chat with ${result.chatName} (${date}):\n"${result.text}"\n`;
-            }
-          })
-          .join("\n");
-      }
-
-      // Step 3: Build conversation context
-      let conversationContext = "";
-      if (conversationHistory.length > 0) {
-        conversationContext = "\n\nPrevious conversation:\n" + 
-          conversationHistory
-            .slice(-5) // Last 5 messages
-            .map((msg: any) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-            .join("\n");
-      }
-
-      // Step 4: Generate AI response
-      const { generateText } = await import("ai");
-      const aiConfig = await import("../config/ai-sdk.config.js");
-      const aiModel = aiConfig.aiModel;
-
-      const systemPrompt = `You are a helpful AI assistant that can help users with anything - from finding information in their chat history to answering general questions, providing advice, helping with tasks, and having conversations.
-
-IMPORTANT: You are currently responding to ${userName} (${userEmail}). When referencing conversations, always consider ${userName}'s perspective and context.
-
-Your capabilities:
-- Answer questions about ${userName}'s conversations and chat history
-- Help with general knowledge questions and tasks
-- Provide advice, suggestions, and recommendations
-- Help with writing, planning, problem-solving, and creative tasks
-- Have friendly, engaging conversations
-- Be a helpful companion for any topic
-
-When you have access to ${userName}'s chat history:
-- Use conversation segments to understand context and relationships
-- Reference specific conversations using [1], [2], etc. format
-- When mentioning people in conversations, clarify who ${userName} is talking to/about
-- Don't make up information not in ${userName}'s conversations
-- If you don't find relevant information in ${userName}'s chats, say so clearly
-
-When helping with general topics:
-- Use your knowledge to provide helpful, accurate information
-- Be conversational and engaging
-- Ask clarifying questions when needed
-- Provide practical, actionable advice
-
-Always:
-- Be friendly, helpful, and conversational
-- Be concise but informative
-- Adapt your tone to ${userName}'s needs
-- Offer to help with follow-up questions
-- Remember you're talking to ${userName}, not about ${userName}`;
-
-      const userPrompt = `User question from ${userName}: "${query}"
-
-${context ? `Relevant conversations from ${userName}'s chat history:
-${context}` : `No relevant conversations found in ${userName}'s chat history.`}${conversationContext}
-
-Provide a helpful, natural answer to ${userName}'s question. If you found relevant information in ${userName}'s chat history, reference it using [1], [2] format. If this is a general question not related to ${userName}'s chats, use your knowledge to provide a helpful response.`;
-
-      const result = await generateText({
-        model: aiModel,
-        system: systemPrompt,
-        prompt: userPrompt,
-        temperature: 0.7,
-      });
-
-      const answer = result.text.trim();
+      // Step 2: Generate AI response from the sources and recent conversation
+      const prompts = AIAssistantService.buildPrompts(user, query, searchResults, conversationHistory);
+      const answer = await AIAssistantService.generateAnswer(prompts);
 
       logger.info("AI Assistant response generated", {
         userId,
@@ -318,18 +93,11 @@ Provide a helpful, natural answer to ${userName}'s question. If you found releva
         sourcesUsed: searchResults.length,
       });
 
-      // Step 5: Return answer with sources
+      // Step 3: Return answer with sources
       return {
         success: true,
         answer,
-        sources: searchResults.map((result: any) => ({
-          chatId: result.chatId,
-          chatName: result.chatName,
-          messageId: result.messageId,
-          snippet: (result.text || result.fullText || '').slice(0, 150),
-          timestamp: result.timestamp,
-          similarity: result.similarity,
-        })),
+        sources: AIAssistantService.toSources(searchResults, query),
         timestamp: Date.now(),
       };
 
@@ -349,9 +117,141 @@ Provide a helpful, natural answer to ${userName}'s question. If you found releva
         timestamp: Date.now(),
       };
     }
+  })
+);
+
+/**
+ * AI Assistant with a streamed answer (server-sent events)
+ *
+ * POST { query, conversationHistory } with `Authorization: Bearer <ID token>`.
+ * Events, in order:
+ * - token:   { text }      - a piece of the answer, as it is generated
+ * - sources: { sources }   - citations ([n] in the answer is the source with index n)
+ * - done:    { status, timestamp, error? } - 'complete', 'cancelled' or 'error'
+ *
+ * Closing the connection cancels the model call. Errors before the stream
+ * starts are JSON responses in the callable error format (401, 400, 429).
+ */
+export const aiAssistantStream = onRequest(
+  {
+    invoker: "public",
+    cors: true,
+    timeoutSeconds: 120,
+  },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).set("Allow", "POST").json(httpError("invalid-argument", "Use POST"));
+      return;
+    }
+
+    // Same ID token the callable SDK sends
+    let userId: string;
+    let token: { email?: string; name?: string };
+    try {
+      const idToken = (req.get("Authorization") || "").match(/^Bearer (.+)$/)?.[1];
+      if (!idToken) {
+        throw new Error("Missing ID token");
+      }
+      const decoded = await admin.auth().verifyIdToken(idToken);
+      userId = decoded.uid;
+      token = decoded;
+    } catch {
+      res.status(401).json(httpError("unauthenticated", "User must be authenticated"));
+      return;
+    }
+
+    let parsed: ReturnType<typeof parseAssistantRequest>;
+    try {
+      parsed = parseAssistantRequest(req.body, token);
+    } catch (error: any) {
+      res.status(400).json(httpError("invalid-argument", error.message));
+      return;
+    }
+    const { query, conversationHistory, user } = parsed;
+
+    // The client hanging up (cancel, app closed) stops the model
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    const send = (event: string, data: Record<string, unknown>) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      await runWithAIUsage(userId, "aiAssistantStream", 1, async () => {
+        res.status(200).set({
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          "Connection": "keep-alive",
+        });
+        res.flushHeaders();
+
+        logger.info("AI Assistant stream query", {
+          userId,
+          query: query.slice(0, 100),
+          historyLength: conversationHistory.length,
+        });
+
+        try {
+          const searchResults = await new AIAssistantService().search(userId, query);
+          const prompts = AIAssistantService.buildPrompts(user, query, searchResults, conversationHistory);
+
+          const { answer, status } = await AIAssistantService.streamAnswer(
+            prompts,
+            (text) => send("token", { text }),
+            abortController.signal
+          );
+
+          logger.info("AI Assistant stream finished", {
+            userId,
+            status,
+            answerLength: answer.length,
+            sourcesUsed: searchResults.length,
+          });
+
+          send("sources", { sources: AIAssistantService.toSources(searchResults, query) });
+          send("done", { status, timestamp: Date.now() });
+        } catch (error: any) {
+          logger.error("AI Assistant stream failed", { userId, error: error.message });
+          send("done", {
+            status: "error",
+            error: "I'm sorry, I encountered an error while searching your messages. Please try again in a moment.",
+            timestamp: Date.now(),
+          });
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof AIUsageError) {
+        res.status(429).json(httpError(error.code, error.message, {
+          reason: error.reason,
+          retryAfterMs: error.retryAfterMs,
+        }));
+        return;
+      }
+      logger.error("AI Assistant stream failed", { userId, error: error.message });
+      if (!res.headersSent) {
+        res.status(500).json(httpError("internal", "AI Assistant failed"));
+        return;
+      }
+    }
+
+    res.end();
   }
 );
 
+/**
+ * Error body in the callable protocol's format
+ */
+function httpError(code: FunctionsErrorCode, message: string, details?: Record<string, unknown>) {
+  return { error: { status: code.toUpperCase().replace(/-/g, "_"), message, ...(details && { details }) } };
+}
+
 /**
  * Generate smart reply suggestions based on conversation context
  * Uses last 10 messages for context and style analysis
@@ -361,7 +261,7 @@ export const generateSmartReplies = onCall(
   {
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("generateSmartReplies", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -390,6 +290,8 @@ export const generateSmartReplies = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       logger.info("Smart replies requested", {
         messageId,
         chatId,
@@ -414,19 +316,47 @@ export const generateSmartReplies = onCall(
         throw new HttpsError("invalid-argument", "Message has no text content");
       }
 
-      // Get last 10 messages for context
-      const last10Snapshot = await admin.firestore()
+      const messagesRef = admin.firestore()
         .collection("chats")
         .doc(chatId)
-        .collection("messages")
-        .where("type", "==", "text")
-        .orderBy("timestamp", "desc")
-        .limit(10)
-        .get();
-
-      const last10Messages = last10Snapshot.docs
-        .map((doc) => doc.data())
-        .reverse(); // Chronological order
+        .collection("messages");
+
+      // Get last 10 messages for context (the sub-thread's own messages for thread replies)
+      let last10Messages: any[];
+
+      if (targetMessage.threadId) {
+        const [threadSnapshot, rootDoc] = await Promise.all([
+          messagesRef
+            .where("threadId", "==", targetMessage.threadId)
+            .orderBy("timestamp", "desc")
+            .limit(10)
+            .get(),
+          messagesRef.doc(targetMessage.threadId).get(),
+        ]);
+
+        const threadMessages = threadSnapshot.docs
+          .map((doc) => doc.data())
+          .filter((m) => m.type === "text")
+          .reverse(); // Chronological order
+
+        const rootMessage = rootDoc.data();
+        last10Messages = rootMessage?.text ?
+          [rootMessage, ...threadMessages].slice(-10) :
+          threadMessages;
+      } else {
+        // Fetch extra to make up for sub-thread replies filtered out of the main timeline
+        const last20Snapshot = await messagesRef
+          .where("type", "==", "text")
+          .orderBy("timestamp", "desc")
+          .limit(20)
+          .get();
+
+        last10Messages = last20Snapshot.docs
+          .map((doc) => doc.data())
+          .filter((m) => !m.threadId)
+          .slice(0, 10)
+          .reverse(); // Chronological order
+      }
 
       // Filter user's messages
       const userMessages = last10Messages.filter((m) => m.senderId === userId);
@@ -475,12 +405,17 @@ export const generateSmartReplies = onCall(
         userId: request.auth?.uid,
       });
 
+      // Re-throw HttpsError if it's already one
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
       throw new HttpsError(
         "internal",
         error.message || "Failed to generate smart replies"
       );
     }
-  }
+  })
 );
 
 /**
@@ -580,10 +515,18 @@ async function generateLearnedRepliesByTone(
 
   // Build conversation context
   const contextSummary = last10Messages
-    .map((m) => `${m.senderName || "User"}: ${m.text}`)
+    .map((m) => {
+      const quote = m.replyPreview?.text ? ` (replying to: "${m.replyPreview.text}")` : "";
+      return `${m.senderName || "User"}: ${m.text}${quote}`;
+    })
     .slice(-5)
     .join("\n");
 
+  // Quoted message the target is replying to, if any
+  const quotedSection = targetMessage.replyPreview?.text ?
+    `\nWHICH IS A REPLY TO:\n"${targetMessage.replyPreview.text}"\n` :
+    "";
+
   // Language name map
   const languageNames: Record<string, string> = {
     en: "English", es: "Spanish", fr: "French", de: "German",
@@ -613,7 +556,7 @@ ${contextSummary}
 
 MESSAGE TO REPLY TO:
 "${targetMessage.text}"
-
+${quotedSection}
 Generate 3 REPLIES IN EACH OF 3 TONES (9 total) **in ${languageName} (${preferredLanguage})**:
 
 CASUAL (relaxed, friendly, emojis OK):
@@ -0,0 +1,40 @@
+/**
+ * AI Usage Functions
+ * Lets users see how much of their monthly AI allowance is left
+ */
+
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { AIUsageService } from "../services/AIUsageService";
+import { validateAuth } from "../utils/validation";
+
+/**
+ * Get the caller's AI usage for this month (tokens used and remaining, and
+ * when the quota resets)
+ */
+export const getAIUsage = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+
+      const usage = await new AIUsageService().getSummary(userId);
+
+      return { usage };
+    } catch (error: any) {
+      logger.error("Get AI usage error:", error);
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      throw new HttpsError(
+        "internal",
+        "Failed to load AI usage",
+        error.message
+      );
+    }
+  }
+);
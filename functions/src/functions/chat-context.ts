@@ -5,7 +5,10 @@
 
 import * as logger from "firebase-functions/logger";
 import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { ActionItemError, ActionItemService } from "../services/ActionItemService";
 import { ChatContextService } from "../services/ChatContextService";
+import { withAIUsage } from "../utils/aiUsage";
+import { validateAuth, validateChatId, validateChatNotEncrypted } from "../utils/validation";
 
 /**
  * Generate user-facing chat summary on request
@@ -13,7 +16,7 @@ import { ChatContextService } from "../services/ChatContextService";
  */
 export const generateChatSummary = onCall(
   { invoker: 'public' },
-  async (request) => {
+  withAIUsage('generateChatSummary', async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -33,6 +36,8 @@ export const generateChatSummary = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       // Get target language (default to English if not provided)
       const targetLanguage = preferredLanguage || 'en';
 
@@ -71,7 +76,7 @@ export const generateChatSummary = onCall(
         error.message
       );
     }
-  }
+  })
 );
 
 /**
@@ -83,7 +88,7 @@ export const adjustFormality = onCall(
   {
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("adjustFormality", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -111,6 +116,10 @@ export const adjustFormality = onCall(
         );
       }
 
+      if (chatId) {
+        await validateChatNotEncrypted(chatId);
+      }
+
       // Language names for instructions
       const languageNames: Record<string, string> = {
         en: "English", es: "Spanish", fr: "French", de: "German",
@@ -236,10 +245,51 @@ Rewritten message in ${languageName}:`;
         userId: request.auth?.uid,
       });
 
+      // Re-throw HttpsError if it's already one
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
       throw new HttpsError(
         "internal",
         error.message || "Failed to adjust formality"
       );
     }
-  }
+  })
+);
+
+/**
+ * Extract action items, decisions and open questions from a chat
+ * Only messages since the last extraction are analyzed; returns the merged
+ * results (also stored in chats/{chatId}/metadata/actionItems)
+ */
+export const extractActionItems = onCall(
+  {
+    invoker: "public",
+  },
+  withAIUsage("extractActionItems", async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+      const chatId = validateChatId(request.data?.chatId);
+
+      const actionItems = await new ActionItemService().extractForUser(userId, chatId);
+
+      return { actionItems };
+    } catch (error: any) {
+      logger.error("Action item extraction error:", error);
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      if (error instanceof ActionItemError) {
+        throw new HttpsError(error.code, error.message);
+      }
+
+      throw new HttpsError(
+        "internal",
+        "Failed to extract action items",
+        error.message
+      );
+    }
+  })
 );
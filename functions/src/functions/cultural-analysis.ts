@@ -7,6 +7,8 @@ import * as logger from "firebase-functions/logger";
 import { HttpsError, onCall } from "firebase-functions/v2/https";
 import { CulturalAnalysisService } from "../services/CulturalAnalysisService";
 import { TranslationService } from "../services/TranslationService";
+import { withAIUsage } from "../utils/aiUsage";
+import { validateChatNotEncrypted } from "../utils/validation";
 
 // Initialize translation service for language detection
 const translationService = new TranslationService();
@@ -19,7 +21,7 @@ export const analyzeCulturalContext = onCall(
   {
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("analyzeCulturalContext", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -60,6 +62,10 @@ export const analyzeCulturalContext = onCall(
         );
       }
 
+      if (chatId) {
+        await validateChatNotEncrypted(chatId);
+      }
+
       logger.info("Cultural analysis requested", {
         messageId,
         chatId: chatId || "unknown",
@@ -108,10 +114,15 @@ export const analyzeCulturalContext = onCall(
         userId: request.auth?.uid,
       });
 
+      // Re-throw HttpsError if it's already one
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
       throw new HttpsError(
         "internal",
         error.message || "Cultural analysis failed"
       );
     }
-  }
+  })
 );
@@ -0,0 +1,79 @@
+/**
+ * Group Invite Functions
+ * Previewing and joining groups through invite links, and approving join
+ * requests (see InviteLinkService)
+ */
+
+import * as logger from "firebase-functions/logger";
+import { onCall } from "firebase-functions/v2/https";
+import { InviteLinkError, InviteLinkService } from "../services/InviteLinkService";
+import { toHttpsError, validateAuth, validateString } from "../utils/validation";
+
+/**
+ * Group name, icon and member count for an invite code, shown before joining
+ */
+export const getInvitePreview = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+      const code = InviteLinkService.validateCode(request.data?.code);
+
+      return await new InviteLinkService().getPreview(userId, code);
+    } catch (error: any) {
+      logger.error("Get invite preview error:", error);
+      throw toHttpsError(error, "Failed to load invite", InviteLinkError);
+    }
+  }
+);
+
+/**
+ * Join a group with an invite code (or ask to join, if it needs approval)
+ */
+export const joinGroupByInvite = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+      const code = InviteLinkService.validateCode(request.data?.code);
+
+      const result = await new InviteLinkService().join(userId, code);
+
+      logger.info("Group invite used", { groupId: result.groupId, userId, code, status: result.status });
+
+      return result;
+    } catch (error: any) {
+      logger.error("Join group by invite error:", error);
+      throw toHttpsError(error, "Failed to join group", InviteLinkError);
+    }
+  }
+);
+
+/**
+ * Approve a pending join request (group admins and moderators)
+ */
+export const approveJoinRequest = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const actorId = validateAuth(request.auth);
+      const groupId = validateString(request.data?.groupId, "groupId");
+      const userId = validateString(request.data?.userId, "userId");
+
+      await new InviteLinkService().approveJoinRequest(actorId, groupId, userId);
+
+      logger.info("Join request approved", { groupId, userId, actorId });
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error("Approve join request error:", error);
+      throw toHttpsError(error, "Failed to approve join request", InviteLinkError);
+    }
+  }
+);
@@ -0,0 +1,124 @@
+/**
+ * Moderation Functions
+ * Abuse reports from users, and the moderation queue for reviewing them
+ *
+ * Moderators are users with the `moderator` custom claim, e.g.:
+ *   admin.auth().setCustomUserClaims(uid, { moderator: true })
+ */
+
+import * as logger from "firebase-functions/logger";
+import { CallableRequest, HttpsError, onCall } from "firebase-functions/v2/https";
+import { ModerationError, ModerationService, ReportStatus } from "../services/ModerationService";
+import { toHttpsError, validateAuth, validateString } from "../utils/validation";
+
+const REPORT_STATUSES: ReportStatus[] = ["pending", "dismissed", "actioned"];
+
+/**
+ * Make sure the caller is a moderator
+ */
+function validateModerator(request: CallableRequest): string {
+  const uid = validateAuth(request.auth);
+  if (request.auth?.token.moderator !== true) {
+    throw new HttpsError(
+      "permission-denied",
+      "Only moderators can review reports"
+    );
+  }
+  return uid;
+}
+
+/**
+ * Report a message (chatId + messageId) or a user (optionally from a chat)
+ * The reported content is snapshotted server-side (see ModerationService)
+ */
+export const reportContent = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const reporterId = validateAuth(request.auth);
+      const input = ModerationService.validateReportInput(request.data);
+
+      const result = await new ModerationService().submitReport(reporterId, input);
+
+      logger.info("Report submitted", {
+        reportId: result.reportId,
+        reporterId,
+        reportedUserId: input.reportedUserId,
+        reason: input.reason,
+        alreadyReported: result.alreadyReported,
+      });
+
+      return result;
+    } catch (error: any) {
+      logger.error("Report content error:", error);
+      throw toHttpsError(error, "Failed to submit report", ModerationError);
+    }
+  }
+);
+
+/**
+ * List reports for moderators (pending by default, oldest first)
+ */
+export const getModerationQueue = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      validateModerator(request);
+
+      const { status = "pending", limit = 20, cursor = null } = request.data || {};
+      if (!REPORT_STATUSES.includes(status)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `status must be one of: ${REPORT_STATUSES.join(", ")}`
+        );
+      }
+
+      return await new ModerationService().listReports(status, Number(limit) || 20, cursor);
+    } catch (error: any) {
+      logger.error("Get moderation queue error:", error);
+      throw toHttpsError(error, "Failed to load moderation queue", ModerationError);
+    }
+  }
+);
+
+/**
+ * Close a pending report as dismissed (no violation) or actioned
+ */
+export const resolveReport = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const moderatorId = validateModerator(request);
+
+      const reportId = validateString(request.data?.reportId, "reportId");
+      const { resolution, note } = request.data;
+      if (resolution !== "dismissed" && resolution !== "actioned") {
+        throw new HttpsError(
+          "invalid-argument",
+          "resolution must be 'dismissed' or 'actioned'"
+        );
+      }
+      if (note !== undefined && note !== null && typeof note !== "string") {
+        throw new HttpsError(
+          "invalid-argument",
+          "note must be a string"
+        );
+      }
+
+      await new ModerationService().resolveReport(reportId, moderatorId, resolution, note?.trim() || null);
+
+      logger.info("Report resolved", { reportId, moderatorId, resolution });
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error("Resolve report error:", error);
+      throw toHttpsError(error, "Failed to resolve report", ModerationError);
+    }
+  }
+);
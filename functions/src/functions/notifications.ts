@@ -0,0 +1,31 @@
+/**
+ * Notification Functions
+ * Trailing summaries for collapsed push notification bursts
+ */
+
+import * as logger from "firebase-functions/logger";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { PushNotificationService } from "../services/PushNotificationService";
+
+/**
+ * Send "N new messages" for bursts whose collapse window closed
+ * Runs every minute; summaries are claimed transactionally so overlapping runs are safe
+ */
+export const sendNotificationSummaries = onSchedule(
+  {
+    schedule: "every 1 minutes",
+    timeoutSeconds: 120,
+  },
+  async () => {
+    try {
+      const result = await new PushNotificationService().sendHeldBackSummaries();
+
+      if (result.sent > 0 || result.skipped > 0) {
+        logger.info("Notification summary run complete", result);
+      }
+    } catch (error) {
+      logger.error("Error sending notification summaries:", error);
+      throw error;
+    }
+  }
+);
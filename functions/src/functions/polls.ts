@@ -0,0 +1,59 @@
+/**
+ * Poll Functions
+ * Voting on and closing poll messages (see PollService)
+ */
+
+import * as logger from "firebase-functions/logger";
+import { onCall } from "firebase-functions/v2/https";
+import { PollError, PollService } from "../services/PollService";
+import { toHttpsError, validateAuth, validateChatId, validateMessageId } from "../utils/validation";
+
+/**
+ * Vote on a poll (an empty optionIds retracts the vote)
+ * Returns the poll's updated results
+ */
+export const votePoll = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+      const chatId = validateChatId(request.data?.chatId);
+      const messageId = validateMessageId(request.data?.messageId);
+      const optionIds = PollService.validateOptionIds(request.data?.optionIds);
+
+      const poll = await new PollService().vote(userId, chatId, messageId, optionIds);
+
+      return { poll };
+    } catch (error: any) {
+      logger.error("Vote on poll error:", error);
+      throw toHttpsError(error, "Failed to vote", PollError);
+    }
+  }
+);
+
+/**
+ * Close a poll before its closing time (the poll's creator only)
+ */
+export const closePoll = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+      const chatId = validateChatId(request.data?.chatId);
+      const messageId = validateMessageId(request.data?.messageId);
+
+      const poll = await new PollService().close(userId, chatId, messageId);
+
+      logger.info("Poll closed", { chatId, messageId, userId });
+
+      return { poll };
+    } catch (error: any) {
+      logger.error("Close poll error:", error);
+      throw toHttpsError(error, "Failed to close poll", PollError);
+    }
+  }
+);
@@ -0,0 +1,83 @@
+/**
+ * Presence Functions
+ * Contacts and blocks mirrors in the Realtime Database
+ * (see syncPresenceContacts and syncBlockedUsers in triggers)
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { validateAuth } from "../utils/validation";
+
+/**
+ * Copy the current user's contacts into /contacts/{userId}
+ * The trigger only mirrors contact changes, so contacts added before it existed
+ * are missing until this runs. Called when the user shows their last seen to
+ * contacts only.
+ */
+export const syncMyPresenceContacts = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    const userId = validateAuth(request.auth);
+
+    try {
+      const contactsSnap = await admin.firestore()
+        .collection("users").doc(userId)
+        .collection("contacts")
+        .get();
+
+      const contacts: Record<string, true> = {};
+      contactsSnap.docs.forEach((contactDoc) => {
+        contacts[contactDoc.id] = true;
+      });
+
+      // Replaces the mirror, dropping contacts removed while it was out of sync
+      await admin.database().ref(`contacts/${userId}`).set(contacts);
+
+      logger.info("Presence contacts synced", { userId, count: contactsSnap.size });
+
+      return { count: contactsSnap.size };
+    } catch (error: any) {
+      logger.error("Sync presence contacts error:", error);
+      throw new HttpsError("internal", "Failed to sync contacts", error.message);
+    }
+  }
+);
+
+/**
+ * Copy the current user's blocked users into /blocks/{userId}
+ * The trigger only mirrors block changes, so blocks made before it existed
+ * are missing until this runs. Called once per session by the app.
+ */
+export const syncMyBlockedUsers = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    const userId = validateAuth(request.auth);
+
+    try {
+      const blockedSnap = await admin.firestore()
+        .collection("users").doc(userId)
+        .collection("blockedUsers")
+        .get();
+
+      const blocked: Record<string, true> = {};
+      blockedSnap.docs.forEach((blockedDoc) => {
+        blocked[blockedDoc.id] = true;
+      });
+
+      // Replaces the mirror, dropping users unblocked while it was out of sync
+      await admin.database().ref(`blocks/${userId}`).set(blocked);
+
+      logger.info("Blocked users synced", { userId, count: blockedSnap.size });
+
+      return { count: blockedSnap.size };
+    } catch (error: any) {
+      logger.error("Sync blocked users error:", error);
+      throw new HttpsError("internal", "Failed to sync blocked users", error.message);
+    }
+  }
+);
@@ -0,0 +1,31 @@
+/**
+ * Scheduled Message Functions
+ * Delivers send-later messages when their scheduled time arrives
+ */
+
+import * as logger from "firebase-functions/logger";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { ScheduledMessageService } from "../services/ScheduledMessageService";
+
+/**
+ * Deliver due scheduled messages as their original senders
+ * Runs every minute; messages are claimed transactionally so overlapping runs are safe
+ */
+export const deliverScheduledMessages = onSchedule(
+  {
+    schedule: "every 1 minutes",
+    timeoutSeconds: 120,
+  },
+  async () => {
+    try {
+      const result = await ScheduledMessageService.deliverDueMessages();
+
+      if (result.delivered > 0 || result.failed > 0) {
+        logger.info("Scheduled message delivery run complete", result);
+      }
+    } catch (error) {
+      logger.error("Error delivering scheduled messages:", error);
+      throw error;
+    }
+  }
+);
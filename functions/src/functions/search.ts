@@ -1,6 +1,6 @@
 /**
  * Search Functions
- * Handles semantic search, embeddings, and RAG functionality
+ * Handles hybrid (keyword + semantic) search, embeddings, and RAG functionality
  */
 
 import * as admin from "firebase-admin";
@@ -8,16 +8,30 @@ import * as logger from "firebase-functions/logger";
 import { HttpsError, onCall } from "firebase-functions/v2/https";
 import { ConversationChunkService } from "../services/ConversationChunkService";
 import { EmbeddingService } from "../services/EmbeddingService";
+import { HybridSearchService, SearchCandidate, SearchFilters } from "../services/HybridSearchService";
+import { withAIUsage } from "../utils/aiUsage";
+import { validateChatNotEncrypted, validateString } from "../utils/validation";
+
+// Most recent messages per chat considered by global search
+const SEARCH_MESSAGES_PER_CHAT = 200;
+const MAX_SEARCH_PAGE_SIZE = 50;
+
+// Semantic-only matches below this similarity are too loose to show
+const MIN_SEMANTIC_SCORE = 0.3;
 
 /**
  * Search messages across all user's chats
- * Global semantic search powered by RAG
+ * Hybrid search: BM25 keyword matching fused with embedding similarity (see HybridSearchService)
+ * Also matches text extracted from shared documents (PDF and plain-text files)
+ *
+ * Optional filters: chatId, senderId, startDate / endDate (ms), hasImage
+ * Results are paginated - pass the returned nextCursor to get the next page
  */
 export const searchAllChats = onCall(
   {
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("searchAllChats", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -27,7 +41,8 @@ export const searchAllChats = onCall(
         );
       }
 
-      const { query, limit = 20 } = request.data;
+      const { query, cursor = null, filters = {} } = request.data;
+      const limit = Math.min(Math.max(Number(request.data.limit) || 20, 1), MAX_SEARCH_PAGE_SIZE);
 
       // Validate query
       if (!query || typeof query !== "string" || query.trim().length < 2) {
@@ -37,10 +52,14 @@ export const searchAllChats = onCall(
         );
       }
 
+      const searchFilters = validateSearchFilters(filters);
+
       logger.info("Global search across all chats", {
         userId: request.auth.uid,
         query,
         limit,
+        filters: searchFilters,
+        hasCursor: !!cursor,
       });
 
       // Get all user's chats
@@ -50,150 +69,93 @@ export const searchAllChats = onCall(
         .where("participants", "array-contains", request.auth.uid)
         .get();
 
-      if (userChatsSnapshot.empty) {
+      // Encrypted chats have no readable text on the server
+      const chatDocs = userChatsSnapshot.docs.filter(doc =>
+        !doc.data().encrypted &&
+        (!searchFilters.chatIds || searchFilters.chatIds.includes(doc.id))
+      );
+
+      if (chatDocs.length === 0) {
         logger.info("No chats found for user", { userId: request.auth.uid });
         return {
           success: true,
           results: [],
+          nextCursor: null,
+          chatsSearched: 0,
           message: "No chats found",
         };
       }
 
-      const chatIds = userChatsSnapshot.docs.map(doc => doc.id);
-      logger.info("Searching across chats", {
-        userId: request.auth.uid,
-        chatCount: chatIds.length,
-      });
+      // Embed the query once (keyword ranking still works if this fails)
+      let queryEmbedding: number[] | null = null;
+      try {
+        queryEmbedding = (await EmbeddingService.generateEmbedding(query)).embedding;
+      } catch (embeddingError: any) {
+        logger.warn("Query embedding failed, using keyword ranking only", {
+          error: embeddingError.message,
+        });
+      }
 
-      // Search each chat in parallel
-      const searchPromises = chatIds.map(async (chatId) => {
+      // Load candidates from each chat in parallel
+      const candidateLists = await Promise.all(chatDocs.map(async (chatDoc) => {
         try {
-          // Get chat info
-          const chatDoc = userChatsSnapshot.docs.find(d => d.id === chatId);
-          const chatData = chatDoc?.data();
-
-          // Get proper chat name
-          let chatName = "Unknown Chat";
-          const currentUserId = request.auth!.uid;
-          
-          if (chatData?.isGroup) {
-            // For groups, use group name
-            chatName = chatData.name || "Unnamed Group";
-          } else if (chatData?.participants && Array.isArray(chatData.participants)) {
-            // For 1-on-1, get other participant's name
-            const otherUserId = chatData.participants.find((id: string) => id !== currentUserId);
-            if (otherUserId) {
-              try {
-                const userDoc = await admin.firestore().collection("users").doc(otherUserId).get();
-                const userData = userDoc.data();
-                chatName = userData?.displayName || userData?.username || "Unknown User";
-              } catch {
-                logger.warn("Could not fetch user data", { userId: otherUserId });
-                chatName = "Unknown User";
-              }
-            }
-          }
-
-          // Load messages with embeddings from this chat
-          const messagesSnapshot = await admin
-            .firestore()
-            .collection("chats")
-            .doc(chatId)
-            .collection("messages")
-            .where("embeddingGenerated", "==", true)
-            .orderBy("timestamp", "desc")
-            .limit(50)
-            .get();
-
-          logger.info("Messages loaded for search", {
-            chatId,
-            messagesWithEmbeddings: messagesSnapshot.size,
-          });
-
-          if (messagesSnapshot.empty) {
-            logger.warn("No messages with embeddings in chat", { chatId });
-            return null;
-          }
-
-          const messages = messagesSnapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-              id: doc.id,
-              chatId,
-              text: data.text || '',
-              embedding: data.embedding as number[] | undefined,
-              timestamp: data.timestamp || 0,
-            };
-          });
-
-          // Perform semantic search on this chat
-          const results = await EmbeddingService.findSimilar(
-            query,
-            messages.map(m => ({
-              text: m.text,
-              embedding: m.embedding,
-              messageId: m.id,
-              timestamp: m.timestamp,
-            })),
-            5  // Top 5 per chat
-          );
-
-          logger.info("Search results for chat", {
-            chatId,
-            resultsFound: results.length,
-            topScore: results[0]?.score,
-            topText: results[0]?.text?.substring(0, 50),
-          });
-
-          if (results.length === 0) {
-            return null;
-          }
-
-          // Return chat info with results
-          return {
-            chatId,
-            chatName,
-            isGroup: chatData?.isGroup || false,
-            results: results.map(r => ({
-              messageId: r.messageId,
-              text: r.text,
-              score: r.score,
-              timestamp: r.timestamp,
-            })),
-          };
+          return await loadSearchCandidates(chatDoc.id, searchFilters);
         } catch (chatError: any) {
-          logger.error("Error searching chat", {
-            chatId,
+          logger.error("Error loading chat for search", {
+            chatId: chatDoc.id,
             error: chatError.message,
           });
-          return null;
+          return [];
         }
+      }));
+      const candidates = candidateLists.flat();
+
+      const hits = await HybridSearchService.rank(query, queryEmbedding, candidates, {
+        filters: searchFilters,
+        minSemanticScore: MIN_SEMANTIC_SCORE,
       });
 
-      // Wait for all searches to complete
-      const allResults = await Promise.all(searchPromises);
+      let page;
+      try {
+        page = HybridSearchService.paginate(hits, limit, cursor);
+      } catch (cursorError: any) {
+        throw new HttpsError("invalid-argument", cursorError.message);
+      }
 
-      // Filter out nulls and sort by best match
-      const validResults = allResults
-        .filter((r): r is NonNullable<typeof r> => r !== null)
-        .map(chat => ({
-          ...chat,
-          bestScore: Math.max(...chat.results.map(r => r.score)),
-        }))
-        .sort((a, b) => b.bestScore - a.bestScore);
+      // Resolve chat names for the chats on this page only
+      const chatNames = new Map<string, string>();
+      for (const chatId of new Set(page.hits.map(hit => hit.candidate.chatId))) {
+        const chatData = chatDocs.find(d => d.id === chatId)?.data();
+        chatNames.set(chatId, await getChatName(chatData, request.auth.uid));
+      }
 
       logger.info("Global search completed", {
         userId: request.auth.uid,
-        chatsSearched: chatIds.length,
-        chatsWithResults: validResults.length,
-        totalMatches: validResults.reduce((sum, r) => sum + r.results.length, 0),
+        chatsSearched: chatDocs.length,
+        candidates: candidates.length,
+        totalMatches: hits.length,
+        returned: page.hits.length,
       });
 
       return {
         success: true,
-        results: validResults,
-        chatsSearched: chatIds.length,
-        message: `Found matches in ${validResults.length} chats`,
+        results: page.hits.map(hit => ({
+          chatId: hit.candidate.chatId,
+          chatName: chatNames.get(hit.candidate.chatId),
+          isGroup: chatDocs.find(d => d.id === hit.candidate.chatId)?.data().type === "group",
+          messageId: hit.candidate.messageId,
+          senderId: hit.candidate.senderId,
+          text: hit.candidate.text,
+          timestamp: hit.candidate.timestamp,
+          hasImage: !!hit.candidate.hasImage,
+          score: hit.score,
+          keywordScore: hit.keywordScore,
+          semanticScore: hit.semanticScore,
+        })),
+        nextCursor: page.nextCursor,
+        totalMatches: hits.length,
+        chatsSearched: chatDocs.length,
+        message: `Found ${hits.length} matches`,
       };
     } catch (error: any) {
       logger.error("Global search error:", error);
@@ -208,9 +170,136 @@ export const searchAllChats = onCall(
         error.message
       );
     }
-  }
+  })
 );
 
+/**
+ * Validate searchAllChats filters
+ */
+function validateSearchFilters(filters: any): SearchFilters {
+  if (typeof filters !== "object" || filters === null) {
+    throw new HttpsError("invalid-argument", "filters must be an object");
+  }
+
+  const searchFilters: SearchFilters = {};
+
+  if (filters.chatId !== undefined) {
+    searchFilters.chatIds = [validateString(filters.chatId, "filters.chatId")];
+  }
+  if (filters.senderId !== undefined) {
+    searchFilters.senderId = validateString(filters.senderId, "filters.senderId");
+  }
+  for (const key of ["startDate", "endDate"] as const) {
+    if (filters[key] !== undefined) {
+      if (typeof filters[key] !== "number" || !Number.isFinite(filters[key])) {
+        throw new HttpsError("invalid-argument", `filters.${key} must be a timestamp in milliseconds`);
+      }
+      searchFilters[key] = filters[key];
+    }
+  }
+  if (filters.hasImage !== undefined) {
+    if (typeof filters.hasImage !== "boolean") {
+      throw new HttpsError("invalid-argument", "filters.hasImage must be a boolean");
+    }
+    searchFilters.hasImage = filters.hasImage;
+  }
+
+  return searchFilters;
+}
+
+/**
+ * Load recent messages and indexed document passages of a chat as search candidates
+ * Date filters are applied in the query; the rest are applied by the ranker
+ */
+async function loadSearchCandidates(chatId: string, filters: SearchFilters): Promise<SearchCandidate[]> {
+  const chatRef = admin.firestore().collection("chats").doc(chatId);
+
+  let messagesQuery: admin.firestore.Query = chatRef.collection("messages");
+  if (filters.startDate !== undefined) {
+    messagesQuery = messagesQuery.where("timestamp", ">=", filters.startDate);
+  }
+  if (filters.endDate !== undefined) {
+    messagesQuery = messagesQuery.where("timestamp", "<=", filters.endDate);
+  }
+
+  const [messagesSnapshot, documentChunksSnapshot] = await Promise.all([
+    messagesQuery
+      .orderBy("timestamp", "desc")
+      .limit(SEARCH_MESSAGES_PER_CHAT)
+      .get(),
+    // Documents only show up in text searches, never in image-only searches
+    filters.hasImage ?
+      null :
+      chatRef
+        .collection("conversationChunks")
+        .where("source", "==", "document")
+        .where("embeddingGenerated", "==", true)
+        .limit(100)
+        .get(),
+  ]);
+
+  const messages: SearchCandidate[] = messagesSnapshot.docs
+    .map(doc => ({ id: doc.id, data: doc.data() }))
+    .filter(({ data }) => !data.deletedForEveryone && !data.encrypted)
+    .map(({ id, data }) => ({
+      id: `${chatId}/${id}`,
+      chatId,
+      messageId: id,
+      text: data.text || data.caption || "",
+      senderId: data.senderId,
+      timestamp: data.timestamp || 0,
+      hasImage: data.type === "image" || !!data.imageUrl,
+      embedding: data.embeddingGenerated ? data.embedding : undefined,
+    }))
+    .filter(candidate => candidate.text.trim().length > 0);
+
+  // Document passages resolve to the file message that shared them
+  const documentPassages: SearchCandidate[] = (documentChunksSnapshot?.docs || []).map(doc => {
+    const data = doc.data();
+    return {
+      id: `${chatId}/${doc.id}`,
+      chatId,
+      messageId: data.messageIds?.[0] || doc.id,
+      text: `📎 ${data.fileName}: ${data.messages?.[0]?.text || ""}`,
+      senderId: data.messages?.[0]?.senderId,
+      timestamp: data.startTimestamp || 0,
+      hasImage: false,
+      embedding: data.embedding as number[] | undefined,
+    };
+  });
+
+  logger.info("Messages loaded for search", {
+    chatId,
+    messages: messages.length,
+    documentPassages: documentPassages.length,
+  });
+
+  return [...messages, ...documentPassages];
+}
+
+/**
+ * Display name of a chat for the searching user
+ */
+async function getChatName(chatData: admin.firestore.DocumentData | undefined, currentUserId: string): Promise<string> {
+  if (chatData?.type === "group") {
+    return chatData.groupName || "Unnamed Group";
+  }
+
+  const otherUserId = chatData?.participants?.find((id: string) => id !== currentUserId);
+  if (!otherUserId) {
+    return "Unknown Chat";
+  }
+
+  try {
+    const userDoc = await admin.firestore().collection("users").doc(otherUserId).get();
+    const userData = userDoc.data();
+    return userData?.displayName || userData?.username || "Unknown User";
+  } catch {
+    logger.warn("Could not fetch user data", { userId: otherUserId });
+    return "Unknown User";
+  }
+}
+
 /**
  * Generate embeddings for recent messages in a chat
  * Used for RAG (semantic search) in chat summarization
@@ -241,6 +330,8 @@ export const generateChatEmbeddings = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       logger.info("Generating embeddings for chat", {
         chatId,
         limit,
@@ -253,7 +344,7 @@ export const generateChatEmbeddings = onCall(
         .collection("chats")
         .doc(chatId)
         .collection("messages")
-        .where("type", "==", "text") // Only text messages
+        .where("type", "in", ["text", "voice"]) // Text messages and transcribed voice messages
         .orderBy("timestamp", "desc")
         .limit(limit);
 
@@ -377,6 +468,8 @@ export const generateConversationChunks = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       logger.info("Generating conversation chunks", {
         chatId,
         userId: request.auth.uid,
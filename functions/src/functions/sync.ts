@@ -0,0 +1,93 @@
+/**
+ * Sync Functions
+ * Keep messages reachable by the clients' incremental sync (ordered by updatedAt)
+ */
+
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { validateAuth, validateChatId } from "../utils/validation";
+
+const BACKFILL_BATCH_SIZE = 400;
+
+/**
+ * Stamp updatedAt on a chat's messages written before every write set it
+ * Firestore leaves documents without the field out of orderBy("updatedAt"),
+ * so changes to those messages would never reach the incremental sync.
+ * Legacy messages get their own timestamp, so devices that synced past it
+ * don't pull them again. Runs once per chat (updatedAtBackfilled on the chat).
+ */
+export const backfillMessageUpdatedAt = onCall(
+  {
+    invoker: "public",
+  },
+  async (request) => {
+    try {
+      const userId = validateAuth(request.auth);
+      const chatId = validateChatId(request.data?.chatId);
+
+      const chatRef = admin.firestore().collection("chats").doc(chatId);
+      const chatDoc = await chatRef.get();
+      const chat = chatDoc.data();
+
+      if (!chat || !(chat.participants || []).includes(userId)) {
+        throw new HttpsError("permission-denied", "You are not a member of this chat");
+      }
+      if (chat.updatedAtBackfilled === true) {
+        return { updated: 0 };
+      }
+
+      let updated = 0;
+      let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+
+      for (;;) {
+        let pageQuery = chatRef.collection("messages")
+          .orderBy(admin.firestore.FieldPath.documentId())
+          .limit(BACKFILL_BATCH_SIZE);
+        if (lastDoc) {
+          pageQuery = pageQuery.startAfter(lastDoc);
+        }
+
+        const snapshot = await pageQuery.get();
+        if (snapshot.empty) {
+          break;
+        }
+
+        const batch = admin.firestore().batch();
+        let batchSize = 0;
+        snapshot.docs.forEach((messageDoc) => {
+          const data = messageDoc.data();
+          if (data.updatedAt === undefined) {
+            batch.update(messageDoc.ref, {
+              updatedAt: data.timestamp ?? admin.firestore.FieldValue.serverTimestamp(),
+            });
+            batchSize++;
+          }
+        });
+        if (batchSize > 0) {
+          await batch.commit();
+          updated += batchSize;
+        }
+
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+        if (snapshot.size < BACKFILL_BATCH_SIZE) {
+          break;
+        }
+      }
+
+      await chatRef.update({ updatedAtBackfilled: true });
+
+      logger.info("Message updatedAt backfilled", { chatId, userId, updated });
+
+      return { updated };
+    } catch (error: any) {
+      logger.error("Backfill message updatedAt error:", error);
+
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      throw new HttpsError("internal", "Failed to backfill messages", error.message);
+    }
+  }
+);
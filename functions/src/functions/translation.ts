@@ -7,6 +7,8 @@ import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
 import { HttpsError, onCall } from "firebase-functions/v2/https";
 import { TranslationService } from "../services/TranslationService";
+import { withAIUsage } from "../utils/aiUsage";
+import { validateChatNotEncrypted } from "../utils/validation";
 
 // Initialize translation service
 const translationService = new TranslationService();
@@ -20,7 +22,7 @@ export const translateMessage = onCall(
     // Allow unauthenticated invocations (auth is checked in function body)
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("translateMessage", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -61,6 +63,8 @@ export const translateMessage = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       logger.info("Translating message", {
         messageId,
         chatId,
@@ -107,7 +111,7 @@ export const translateMessage = onCall(
         error.message
       );
     }
-  }
+  })
 );
 
 /**
@@ -119,7 +123,7 @@ export const batchTranslateMessages = onCall(
   {
     invoker: "public",
   },
-  async (request) => {
+  withAIUsage("batchTranslateMessages", async (request) => {
     try {
       // Check authentication
       if (!request.auth) {
@@ -160,6 +164,8 @@ export const batchTranslateMessages = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       logger.info("Batch translating messages", {
         messageCount: messages.length,
         chatId,
@@ -233,7 +239,10 @@ export const batchTranslateMessages = onCall(
         error.message
       );
     }
-  }
+  }, {
+    // Batches of up to 20 messages count as several requests
+    cost: (data) => Math.ceil((Array.isArray(data?.messages) ? data.messages.length : 1) / 5),
+  })
 );
 
 /**
@@ -255,7 +264,7 @@ export const translatePreview = onCall(
         );
       }
 
-      const { messageText, targetLanguage } = request.data;
+      const { messageText, targetLanguage, chatId } = request.data;
 
       // Validate required parameters
       if (!messageText || typeof messageText !== "string") {
@@ -278,10 +287,22 @@ export const translatePreview = onCall(
         userId: request.auth.uid,
       });
 
-      // Call preview translation service
+      if (chatId !== undefined && typeof chatId !== "string") {
+        throw new HttpsError(
+          "invalid-argument",
+          "chatId must be a string"
+        );
+      }
+
+      if (chatId) {
+        await validateChatNotEncrypted(chatId);
+      }
+
+      // Call preview translation service (with the chat's and the user's glossary)
       const result = await translationService.translatePreview(
         messageText,
-        targetLanguage
+        targetLanguage,
+        { chatId: chatId || null, userId: request.auth.uid }
       );
 
       logger.info("Preview translation completed", {
@@ -341,6 +362,8 @@ export const detectChatLanguages = onCall(
         );
       }
 
+      await validateChatNotEncrypted(chatId);
+
       logger.info("Detecting chat languages", {
         chatId,
         limit,
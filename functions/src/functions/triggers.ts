@@ -5,10 +5,16 @@
 
 import * as admin from "firebase-admin";
 import * as logger from "firebase-functions/logger";
-import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onDocumentCreated, onDocumentUpdated, onDocumentWritten } from "firebase-functions/v2/firestore";
+import { ActionItemService } from "../services/ActionItemService";
 import { ChatContextService } from "../services/ChatContextService";
 import { ConversationChunkService } from "../services/ConversationChunkService";
+import { CulturalAnalysisService } from "../services/CulturalAnalysisService";
+import { DocumentTextService } from "../services/DocumentTextService";
 import { EmbeddingService } from "../services/EmbeddingService";
+import { PushNotificationService } from "../services/PushNotificationService";
+import { SpeechToTextService } from "../services/SpeechToTextService";
+import { TranslationService } from "../services/TranslationService";
 
 /**
  * Auto-translate incoming messages when language differs from user preference
@@ -73,8 +79,8 @@ export const updateChatContext = onDocumentCreated(
     const chatId = event.params.chatId;
     const messageId = event.params.messageId;
 
-    // Only process text messages
-    if (!messageData?.text || messageData.text.trim().length === 0) {
+    // Only process text messages (not system messages about membership changes)
+    if (!messageData?.text || messageData.text.trim().length === 0 || messageData.type === 'system') {
       logger.info('Skipping context update - no text content', {
         messageId,
         chatId
@@ -211,6 +217,15 @@ export const updateChatContext = onDocumentCreated(
               error: error.message
             });
           });
+
+        // Keep extracted action items current (only chats with a Tasks panel in use)
+        new ActionItemService().refreshIfTracked(chatId)
+          .catch((error: any) => {
+            logger.error('Failed to refresh action items (non-blocking)', {
+              chatId,
+              error: error.message
+            });
+          });
       }
 
     } catch (error: any) {
@@ -299,3 +314,429 @@ export const onMessageCreated = onDocumentCreated(
     }
   }
 );
+
+/**
+ * Build embedding, translation and cultural analysis updates for a message's text
+ * Translations target the preferred languages of the other participants
+ */
+async function generateDerivedData(
+  chatId: string,
+  messageId: string,
+  senderId: string,
+  text: string
+): Promise<Record<string, any>> {
+  const updates: Record<string, any> = {};
+
+  // Embedding
+  if (text.length >= 3) {
+    const result = await EmbeddingService.generateEmbedding(text);
+    updates.embedding = result.embedding;
+    updates.embeddingGenerated = true;
+    updates.embeddingGeneratedAt = admin.firestore.FieldValue.serverTimestamp();
+  } else {
+    updates.embedding = admin.firestore.FieldValue.delete();
+    updates.embeddingGenerated = false;
+  }
+
+  // Target languages of the other participants
+  const chatDoc = await admin.firestore().collection("chats").doc(chatId).get();
+  const participants: string[] = chatDoc.data()?.participants || [];
+  const recipientIds = participants.filter((id) => id !== senderId);
+
+  const targetLanguages = new Set<string>();
+  if (recipientIds.length > 0) {
+    const userDocs = await admin.firestore().getAll(
+      ...recipientIds.map((id) => admin.firestore().collection("users").doc(id))
+    );
+    userDocs.forEach((doc) => {
+      const language = doc.data()?.preferredLanguage;
+      if (language) {
+        targetLanguages.add(language);
+      }
+    });
+  }
+
+  // Translations and cultural analysis per target language
+  const translationService = new TranslationService();
+  const translations: Record<string, any> = {};
+  const culturalAnalysis: Record<string, any> = {};
+  let detectedLanguage: string | undefined;
+
+  for (const targetLanguage of targetLanguages) {
+    const translation = await translationService.translateMessage({
+      messageId,
+      chatId,
+      targetLanguage,
+      messageText: text,
+      userId: senderId,
+    });
+
+    if (!translation.success || !translation.translated) {
+      continue;
+    }
+
+    detectedLanguage = translation.detectedLanguage || detectedLanguage;
+    if (translation.detectedLanguage === targetLanguage) {
+      continue;
+    }
+
+    translations[targetLanguage] = {
+      text: translation.translated,
+      formalityLevel: translation.formalityLevel || "casual",
+      formalityIndicators: translation.formalityIndicators || [],
+    };
+
+    const analysis = await CulturalAnalysisService.analyzeCulturalContext(
+      text,
+      translation.translated,
+      translation.detectedLanguage || "en",
+      messageId,
+      "neutral",
+      "friend",
+      targetLanguage
+    );
+    culturalAnalysis[targetLanguage] = analysis;
+  }
+
+  updates.translations = translations;
+  updates.culturalAnalysis = culturalAnalysis;
+  if (detectedLanguage) {
+    updates.detectedLanguage = detectedLanguage;
+  }
+
+  return updates;
+}
+
+/**
+ * Firestore Trigger: Regenerate derived data when a message is edited
+ * Refreshes embedding, translations and cultural analysis for the new text
+ */
+export const onMessageEdited = onDocumentUpdated(
+  "chats/{chatId}/messages/{messageId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const messageId = event.params.messageId;
+    const chatId = event.params.chatId;
+
+    // Only react to text changes - our own writes below leave text untouched
+    if (!before || !after || before.text === after.text) {
+      return;
+    }
+
+    if (after.type !== "text" || !after.text || after.deletedForEveryone) {
+      return;
+    }
+
+    const text = after.text.trim();
+
+    try {
+      logger.info("Regenerating derived data for edited message", {
+        chatId,
+        messageId,
+        textLength: text.length,
+      });
+
+      const updates = await generateDerivedData(chatId, messageId, after.senderId, text);
+      await event.data!.after.ref.update({
+        ...updates,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info("Edited message reprocessed", {
+        chatId,
+        messageId,
+        languages: Object.keys(updates.translations),
+      });
+    } catch (error: any) {
+      logger.error("Failed to reprocess edited message", {
+        chatId,
+        messageId,
+        error: error.message,
+      });
+      // Don't throw - the edit itself already succeeded
+    }
+  }
+);
+
+/**
+ * Firestore Trigger: Transcribe new voice messages
+ * Writes the transcript into `text`, then runs it through the same
+ * translation and embedding pipeline as text messages
+ */
+export const transcribeVoiceMessage = onDocumentCreated(
+  "chats/{chatId}/messages/{messageId}",
+  async (event) => {
+    const snapshot = event.data;
+    const messageData = snapshot?.data();
+    const messageId = event.params.messageId;
+    const chatId = event.params.chatId;
+
+    if (!snapshot || messageData?.type !== "voice" || !messageData.audioUrl) {
+      return;
+    }
+
+    // The transcript would be stored in plaintext - not for end-to-end encrypted chats
+    if (messageData.encrypted) {
+      return;
+    }
+
+    try {
+      // Recordings are stored at a fixed path next to the message's other media
+      const [audio] = await admin
+        .storage()
+        .bucket()
+        .file(`chats/${chatId}/${messageId}/voice.m4a`)
+        .download();
+
+      const senderDoc = await admin.firestore().collection("users").doc(messageData.senderId).get();
+
+      const transcription = await SpeechToTextService.transcribe(audio, {
+        mimeType: "audio/mp4",
+        fileName: "voice.m4a",
+        languageHint: senderDoc.data()?.preferredLanguage,
+      });
+
+      const updates: Record<string, any> = {
+        text: transcription.text,
+        transcriptionStatus: "completed",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      if (transcription.language) {
+        updates.detectedLanguage = transcription.language;
+      }
+
+      if (transcription.text) {
+        const derived = await generateDerivedData(chatId, messageId, messageData.senderId, transcription.text);
+        Object.assign(updates, derived);
+      }
+
+      await snapshot.ref.update(updates);
+
+      logger.info("Voice message transcribed", {
+        chatId,
+        messageId,
+        textLength: transcription.text.length,
+      });
+    } catch (error: any) {
+      logger.error("Failed to transcribe voice message", {
+        chatId,
+        messageId,
+        error: error.message,
+      });
+
+      await snapshot.ref.update({
+        transcriptionStatus: "failed",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => undefined);
+    }
+  }
+);
+
+/**
+ * Firestore Trigger: Index text from shared documents
+ * Extracts text from PDF and plain-text attachments and stores it as
+ * conversation chunks so searchAllChats can find document contents
+ */
+export const indexDocumentMessage = onDocumentCreated(
+  {
+    document: "chats/{chatId}/messages/{messageId}",
+    memory: "1GiB", // PDF parsing holds the whole document in memory
+  },
+  async (event) => {
+    const messageData = event.data?.data();
+    const messageId = event.params.messageId;
+    const chatId = event.params.chatId;
+
+    if (messageData?.type !== "file" || !messageData.fileName) {
+      return;
+    }
+
+    // Search chunks are plaintext - not for end-to-end encrypted chats
+    if (messageData.encrypted) {
+      return;
+    }
+
+    const kind = DocumentTextService.getDocumentKind(messageData.mimeType || "", messageData.fileName);
+    if (!kind) {
+      logger.debug("Skipping unsupported document type", {
+        messageId,
+        mimeType: messageData.mimeType,
+      });
+      return;
+    }
+
+    try {
+      // Attachments live under a per-message prefix (object name is sanitized client-side)
+      const [files] = await admin
+        .storage()
+        .bucket()
+        .getFiles({ prefix: `chats/${chatId}/${messageId}/files/` });
+
+      if (files.length === 0) {
+        logger.warn("Attachment not found in Storage", { chatId, messageId });
+        return;
+      }
+
+      const [data] = await files[0].download();
+      const text = await DocumentTextService.extractText(data, kind);
+
+      if (text.length < 3) {
+        logger.info("No text extracted from document", { chatId, messageId, kind });
+        return;
+      }
+
+      const senderDoc = await admin.firestore().collection("users").doc(messageData.senderId).get();
+      const senderData = senderDoc.data();
+
+      const chunksCreated = await ConversationChunkService.generateDocumentChunks(
+        chatId,
+        {
+          messageId,
+          fileName: messageData.fileName,
+          senderId: messageData.senderId,
+          senderName: senderData?.displayName || senderData?.username || "User",
+          timestamp: messageData.timestamp?.toMillis?.() || Date.now(),
+        },
+        text
+      );
+
+      logger.info("Document indexed", {
+        chatId,
+        messageId,
+        kind,
+        textLength: text.length,
+        chunksCreated,
+      });
+    } catch (error: any) {
+      logger.error("Failed to index document", {
+        chatId,
+        messageId,
+        error: error.message,
+      });
+      // Don't throw - the message itself was delivered
+    }
+  }
+);
+
+/**
+ * Firestore Trigger: Drop a chat's search index when it switches to end-to-end encryption
+ * Conversation chunks and message embeddings were built from the plaintext
+ */
+export const purgeEncryptedChatIndex = onDocumentUpdated(
+  "chats/{chatId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const chatId = event.params.chatId;
+
+    if (before?.encrypted === true || after?.encrypted !== true) {
+      return;
+    }
+
+    logger.info("Chat switched to end-to-end encryption, deleting its search index", { chatId });
+
+    await ConversationChunkService.deleteChunksForChat(chatId);
+    await ConversationChunkService.deleteMessageEmbeddings(chatId);
+  }
+);
+
+/**
+ * Send push notifications for new messages
+ * Replaces the client-side fan-out, so scheduled and server-written messages notify too
+ */
+export const sendMessageNotifications = onDocumentCreated(
+  "chats/{chatId}/messages/{messageId}",
+  async (event) => {
+    const messageData = event.data?.data();
+    const chatId = event.params.chatId;
+    const messageId = event.params.messageId;
+
+    // System messages (group membership changes) don't notify
+    if (!messageData?.senderId || messageData.type === "system") {
+      return;
+    }
+
+    try {
+      const translationService = new TranslationService();
+      const pushService = new PushNotificationService(
+        undefined,
+        async (text, targetLanguage) => {
+          const result = await translationService.translatePreview(text, targetLanguage);
+          return result.detectedLanguage === targetLanguage ? null : result.translated;
+        }
+      );
+
+      const result = await pushService.notifyNewMessage(chatId, messageId, {
+        senderId: messageData.senderId,
+        text: messageData.text,
+        type: messageData.type,
+        caption: messageData.caption,
+        fileName: messageData.fileName,
+        poll: messageData.poll,
+        encrypted: messageData.encrypted === true,
+      });
+
+      logger.info("Message notifications processed", { chatId, messageId, ...result });
+    } catch (error: any) {
+      logger.error("Failed to send message notifications", {
+        chatId,
+        messageId,
+        error: error.message,
+      });
+      // Don't throw - retrying would re-notify recipients that already got it
+    }
+  }
+);
+
+/**
+ * Mirror contacts into the Realtime Database (/contacts/{userId}/{contactId})
+ * The lastSeen rules read it for users who show their last seen to contacts only
+ */
+export const syncPresenceContacts = onDocumentWritten(
+  "users/{userId}/contacts/{contactId}",
+  async (event) => {
+    const { userId, contactId } = event.params;
+    const contactRef = admin.database().ref(`contacts/${userId}/${contactId}`);
+
+    try {
+      if (event.data?.after.exists) {
+        await contactRef.set(true);
+      } else {
+        await contactRef.remove();
+      }
+    } catch (error: any) {
+      logger.error("Failed to sync presence contact", {
+        userId,
+        contactId,
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * Mirror blocks into the Realtime Database (/blocks/{userId}/{blockedUserId})
+ * The presence, last seen and typing rules read it to hide blocked users from each other
+ */
+export const syncBlockedUsers = onDocumentWritten(
+  "users/{userId}/blockedUsers/{blockedUserId}",
+  async (event) => {
+    const { userId, blockedUserId } = event.params;
+    const blockRef = admin.database().ref(`blocks/${userId}/${blockedUserId}`);
+
+    try {
+      if (event.data?.after.exists) {
+        await blockRef.set(true);
+      } else {
+        await blockRef.remove();
+      }
+    } catch (error: any) {
+      logger.error("Failed to sync blocked user", {
+        userId,
+        blockedUserId,
+        error: error.message,
+      });
+    }
+  }
+);
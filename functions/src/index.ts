@@ -29,10 +29,15 @@ export {
 
 // AI Assistant Functions
 export {
-  aiAssistant,
+  aiAssistant, aiAssistantStream,
   generateSmartReplies
 } from "./functions/ai-assistant";
 
+// AI Usage Functions
+export {
+  getAIUsage
+} from "./functions/ai-usage";
+
 // Search Functions
 export {
   generateChatEmbeddings,
@@ -41,7 +46,7 @@ export {
 
 // Chat Context Functions
 export {
-  adjustFormality, generateChatSummary
+  adjustFormality, extractActionItems, generateChatSummary
 } from "./functions/chat-context";
 
 // Cultural Analysis Functions
@@ -49,7 +54,43 @@ export {
   analyzeCulturalContext
 } from "./functions/cultural-analysis";
 
+// Group Invite Functions
+export {
+  approveJoinRequest, getInvitePreview, joinGroupByInvite
+} from "./functions/invites";
+
+// Moderation Functions
+export {
+  getModerationQueue, reportContent, resolveReport
+} from "./functions/moderation";
+
+// Notification Functions
+export {
+  sendNotificationSummaries
+} from "./functions/notifications";
+
+// Poll Functions
+export {
+  closePoll, votePoll
+} from "./functions/polls";
+
+// Presence Functions
+export {
+  syncMyBlockedUsers, syncMyPresenceContacts
+} from "./functions/presence";
+
+// Scheduled Message Functions
+export {
+  deliverScheduledMessages
+} from "./functions/scheduled-messages";
+
+// Sync Functions
+export {
+  backfillMessageUpdatedAt
+} from "./functions/sync";
+
 // Firestore Triggers
 export {
-  autoTranslateMessage, onMessageCreated, updateChatContext
+  autoTranslateMessage, indexDocumentMessage, onMessageCreated, onMessageEdited, purgeEncryptedChatIndex,
+  sendMessageNotifications, syncBlockedUsers, syncPresenceContacts, transcribeVoiceMessage, updateChatContext
 } from "./functions/triggers";
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for AIAssistantService
+ * Answers come from the fake provider (see LLMService)
+ */
+
+import { AIAssistantService, AssistantSearchResult, citedMessageIndex } from './AIAssistantService';
+import { runWithTokenTracking } from './AIUsageService';
+import { FakeLLMProvider, LLMService } from './LLMService';
+
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const results: AssistantSearchResult[] = [
+  {
+    chatId: 'chat1',
+    chatName: 'Maria',
+    chunkId: 'chunk1',
+    messageId: 'm1',
+    messageIds: ['m1', 'm2'],
+    messages: [
+      { senderId: 'u2', senderName: 'Maria', text: 'Flight to Lisbon leaves at 9', timestamp: Date.UTC(2025, 5, 1) },
+      { senderId: 'u1', senderName: 'Alex', text: 'Great, see you there', timestamp: Date.UTC(2025, 5, 1, 0, 5) },
+    ],
+    fullText: 'Maria: Flight to Lisbon leaves at 9\nAlex: Great, see you there',
+    timestamp: Date.UTC(2025, 5, 1),
+    isChunk: true,
+    similarity: 0.8,
+    score: 0.03,
+  },
+  {
+    chatId: 'chat2',
+    chatName: 'Team',
+    messageId: 'm7',
+    text: 'Standup moved to 10',
+    senderId: 'u3',
+    senderName: 'Sam',
+    timestamp: Date.UTC(2025, 5, 2),
+    isChunk: false,
+    similarity: 0.4,
+    score: 0.01,
+  },
+];
+
+const user = { name: 'Alex', email: 'alex@example.com' };
+
+describe('AIAssistantService', () => {
+  afterEach(() => {
+    LLMService.setProvider(null);
+  });
+
+  it('should number sources in the prompt and the citations alike', () => {
+    const { system, prompt } = AIAssistantService.buildPrompts(user, 'When is my flight?', results, [
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello Alex' },
+    ]);
+
+    expect(system).toContain('You are currently responding to Alex (alex@example.com)');
+    expect(prompt).toContain('[1] Conversation with Maria');
+    expect(prompt).toContain('  Maria: Flight to Lisbon leaves at 9');
+    expect(prompt).toContain('[2] From chat with Team');
+    expect(prompt).toContain('Previous conversation:\nUser: Hi\nAssistant: Hello Alex');
+    expect(AIAssistantService.toSources(results)).toEqual([
+      expect.objectContaining({ index: 1, type: 'chunk', chatId: 'chat1', chatName: 'Maria', messageId: 'm1' }),
+      expect.objectContaining({ index: 2, type: 'message', chatId: 'chat2', messageId: 'm7', snippet: 'Standup moved to 10' }),
+    ]);
+  });
+
+  it('should cite the chunk message that best matches the question', () => {
+    const [chunk, message] = AIAssistantService.toSources(results, 'Did Alex say see you there?');
+
+    expect(chunk).toEqual({
+      index: 1,
+      type: 'chunk',
+      chatId: 'chat1',
+      chatName: 'Maria',
+      chunkId: 'chunk1',
+      messageId: 'm2',
+      messageIds: ['m1', 'm2'],
+      senderId: 'u1',
+      senderName: 'Alex',
+      snippet: 'Great, see you there',
+      timestamp: Date.UTC(2025, 5, 1, 0, 5),
+      similarity: 0.8,
+    });
+    expect(message).toEqual(expect.objectContaining({ messageIds: ['m7'], senderId: 'u3', senderName: 'Sam' }));
+  });
+
+  it('should fall back to the first message when nothing matches', () => {
+    expect(citedMessageIndex('weather', ['Flight at 9', 'See you'])).toBe(0);
+    expect(citedMessageIndex('flight time', [])).toBe(0);
+  });
+
+  it('should stream the answer piece by piece and count its tokens', async () => {
+    LLMService.setProvider(new FakeLLMProvider(() => 'Your flight leaves at 9 [1]'));
+    const prompts = AIAssistantService.buildPrompts(user, 'When is my flight?', results);
+    const tokens: string[] = [];
+    const scope = { tokens: 0 };
+
+    const result = await runWithTokenTracking(scope, () =>
+      AIAssistantService.streamAnswer(prompts, (text) => tokens.push(text))
+    );
+
+    expect(result).toEqual({ answer: 'Your flight leaves at 9 [1]', status: 'complete' });
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(result.answer);
+    expect(scope.tokens).toBeGreaterThan(0);
+  });
+
+  it('should stop when cancelled', async () => {
+    LLMService.setProvider(new FakeLLMProvider(() => 'one two three four five six'));
+    const abortController = new AbortController();
+    const tokens: string[] = [];
+
+    const result = await AIAssistantService.streamAnswer(
+      AIAssistantService.buildPrompts(user, 'Count', []),
+      (text) => {
+        tokens.push(text);
+        abortController.abort();
+      },
+      abortController.signal
+    );
+
+    expect(result.status).toBe('cancelled');
+    expect(tokens.join('').length).toBeLessThan('one two three four five six'.length);
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * AI Assistant Service
+ * Answers questions about a user's chat history (RAG over conversation chunks)
+ *
+ * Shared by the aiAssistant callable (whole answer at once) and the
+ * aiAssistantStream endpoint (tokens as they are generated):
+ * 1. search() - hybrid keyword + semantic search across the user's chats
+ * 2. buildPrompts() - system and user prompts with numbered [1], [2] sources
+ * 3. generateAnswer() / streamAnswer() - the model call
+ */
+
+import { generateText, streamText } from 'ai';
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { aiModel } from '../config/ai-sdk.config';
+import { EmbeddingService } from './EmbeddingService';
+import { HybridSearchService, SearchCandidate } from './HybridSearchService';
+
+// Passages sent to the model (more context, better recall)
+const MAX_SOURCES = 15;
+
+/**
+ * A search hit: a conversation chunk, or a single message for chats without chunks
+ */
+export interface AssistantSearchResult {
+  chatId: string;
+  chatName: string;
+  messageId?: string;
+  messageIds?: string[];      // Chunks: one per entry in `messages`
+  chunkId?: string;
+  chunkIndex?: number;
+  messages?: { senderId?: string; senderName: string; text: string; timestamp?: number }[];
+  fullText?: string;
+  text?: string;
+  senderId?: string;          // Single messages only
+  senderName?: string;
+  timestamp?: number;
+  isChunk: boolean;
+  similarity: number;
+  score: number;
+}
+
+/**
+ * Citation returned to the app ([n] in the answer is the source with index n)
+ */
+export interface AssistantSource {
+  index: number;
+  type: 'chunk' | 'message';
+  chatId: string;
+  chatName: string;
+  chunkId?: string;
+  messageId?: string;         // The cited message - the one the app opens
+  messageIds: string[];       // Every message in the passage
+  senderId?: string;          // Sender of the cited message
+  senderName?: string;
+  snippet: string;            // From the cited message
+  timestamp?: number;
+  similarity: number;
+}
+
+export interface AssistantHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AssistantPrompts {
+  system: string;
+  prompt: string;
+}
+
+export interface AssistantUser {
+  name: string;
+  email: string;
+}
+
+export type AssistantStreamStatus = 'complete' | 'cancelled';
+
+const wordsOf = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []));
+
+/**
+ * Index of the text sharing the most words with the query (0 on a tie or no match)
+ */
+export function citedMessageIndex(query: string, texts: string[]): number {
+  const queryWords = wordsOf(query);
+  let best = 0;
+  let bestOverlap = 0;
+
+  texts.forEach((text, index) => {
+    let overlap = 0;
+    wordsOf(text).forEach((word) => {
+      if (queryWords.has(word)) overlap++;
+    });
+    if (overlap > bestOverlap) {
+      best = index;
+      bestOverlap = overlap;
+    }
+  });
+
+  return best;
+}
+
+export class AIAssistantService {
+  constructor(private readonly db: admin.firestore.Firestore = admin.firestore()) {}
+
+  /**
+   * Find the passages in the user's (unencrypted) chats that best match the query
+   */
+  async search(userId: string, query: string): Promise<AssistantSearchResult[]> {
+    const chatsSnapshot = await this.db
+      .collection('chats')
+      .where('participants', 'array-contains', userId)
+      .get();
+
+    // Encrypted chats have no readable text on the server
+    const chatDocs = chatsSnapshot.docs.filter((doc) => !doc.data().encrypted);
+    if (chatDocs.length === 0) {
+      return [];
+    }
+
+    // Embed the query once for every chat (keyword ranking still works if this fails)
+    let queryEmbedding: number[] | null = null;
+    try {
+      queryEmbedding = (await EmbeddingService.generateEmbedding(query)).embedding;
+    } catch (error: any) {
+      logger.warn('Query embedding failed, using keyword ranking only', { error: error.message });
+    }
+
+    // Search across all chats for conversation chunks
+    const candidates: SearchCandidate[] = [];
+    const resultsById = new Map<string, Omit<AssistantSearchResult, 'similarity' | 'score'>>();
+
+    for (const chatDoc of chatDocs) {
+      const chatId = chatDoc.id;
+      try {
+        const chatName = await this.getChatName(chatDoc.data(), userId);
+
+        // Get conversation chunks with embeddings
+        const chunksSnapshot = await this.db
+          .collection('chats')
+          .doc(chatId)
+          .collection('conversationChunks')
+          .where('embeddingGenerated', '==', true)
+          .get();
+
+        // If no chunks exist, fall back to individual messages (legacy support)
+        if (chunksSnapshot.empty) {
+          logger.info('No chunks found for chat, falling back to messages', { chatId });
+
+          const messagesSnapshot = await this.db
+            .collection('chats')
+            .doc(chatId)
+            .collection('messages')
+            .where('embeddingGenerated', '==', true)
+            .orderBy('timestamp', 'desc')
+            .limit(30)
+            .get();
+
+          for (const doc of messagesSnapshot.docs) {
+            const data: any = doc.data();
+            if (!data.text) continue;
+
+            const id = `${chatId}/${doc.id}`;
+            candidates.push({
+              id,
+              chatId,
+              messageId: doc.id,
+              text: data.text,
+              senderId: data.senderId,
+              timestamp: data.timestamp || 0,
+              embedding: data.embedding,
+            });
+            resultsById.set(id, {
+              chatId,
+              chatName,
+              messageId: doc.id,
+              text: data.text,
+              senderId: data.senderId,
+              senderName: data.senderName,
+              timestamp: data.timestamp,
+              isChunk: false,
+            });
+          }
+          continue;
+        }
+
+        // Conversation chunks (multi-message passages)
+        for (const doc of chunksSnapshot.docs) {
+          const data: any = doc.data();
+          const id = `${chatId}/${doc.id}`;
+          candidates.push({
+            id,
+            chatId,
+            text: data.fullText || '',
+            timestamp: data.endTimestamp || 0,
+            embedding: data.embedding,
+          });
+          resultsById.set(id, {
+            chatId,
+            chatName,
+            chunkId: doc.id,
+            chunkIndex: data.chunkIndex,
+            messageId: data.messageIds?.[0],
+            messageIds: data.messageIds || [],
+            messages: data.messages || [],
+            fullText: data.fullText || '',
+            timestamp: data.endTimestamp, // Use end timestamp for sorting
+            isChunk: true,
+          });
+        }
+      } catch (error) {
+        logger.warn('Error searching chat', { chatId, error });
+      }
+    }
+
+    // Lowered threshold from 0.5 to 0.3 for better recall (industry standard for chat)
+    const hits = await HybridSearchService.rank(query, queryEmbedding, candidates, {
+      minSemanticScore: 0.3,
+    });
+
+    return hits.slice(0, MAX_SOURCES).map((hit) => ({
+      ...resultsById.get(hit.candidate.id)!,
+      similarity: hit.semanticScore ?? 0,
+      score: hit.score,
+    }));
+  }
+
+  /**
+   * Group name, or the other participant's name for direct chats
+   */
+  private async getChatName(chatData: admin.firestore.DocumentData, userId: string): Promise<string> {
+    if (chatData?.type === 'group') {
+      return chatData.groupName || 'Unnamed Group';
+    }
+
+    const otherUserId = Array.isArray(chatData?.participants) ?
+      chatData.participants.find((id: string) => id !== userId) :
+      undefined;
+    if (!otherUserId) {
+      return 'Unknown Chat';
+    }
+
+    try {
+      const userDoc = await this.db.collection('users').doc(otherUserId).get();
+      const userData = userDoc.data();
+      return userData?.displayName || userData?.username || 'Unknown User';
+    } catch {
+      return 'Unknown User';
+    }
+  }
+
+  /**
+   * System and user prompts for a question, its sources and the recent conversation
+   */
+  static buildPrompts(
+    user: AssistantUser,
+    query: string,
+    searchResults: AssistantSearchResult[],
+    conversationHistory: AssistantHistoryMessage[] = []
+  ): AssistantPrompts {
+    const { name: userName, email: userEmail } = user;
+
+    // Build context from search results (chunks or messages)
+    let context = '';
+    if (searchResults.length === 0) {
+      context = "No relevant messages found in the user's chat history.";
+    } else {
+      context = searchResults
+        .map((result, index) => {
+          const date = result.timestamp ?
+            new Date(result.timestamp).toLocaleDateString() :
+            'Unknown date';
+
+          // If it's a conversation chunk, format as dialogue
+          if (result.isChunk && result.messages && result.messages.length > 0) {
+            const conversation = result.messages
+              .map((msg) => `  ${msg.senderName}: ${msg.text}`)
+              .join('\n');
+
+            return `[${index + 1}] Conversation with ${result.chatName} (${date}):\n${conversation}\n`;
+          }
+          // Legacy: single message format
+          return `[${index + 1}] From chat with ${result.chatName} (${date}):\n"${result.text}"\n`;
+        })
+        .join('\n');
+    }
+
+    // Recent turns of the conversation with the assistant
+    let conversationContext = '';
+    if (conversationHistory.length > 0) {
+      conversationContext = '\n\nPrevious conversation:\n' +
+        conversationHistory
+          .slice(-5) // Last 5 messages
+          .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+          .join('\n');
+    }
+
+    const system = `You are a helpful AI assistant that can help users with anything - from finding information in their chat history to answering general questions, providing advice, helping with tasks, and having conversations.
+
+IMPORTANT: You are currently responding to ${userName} (${userEmail}). When referencing conversations, always consider ${userName}'s perspective and context.
+
+Your capabilities:
+- Answer questions about ${userName}'s conversations and chat history
+- Help with general knowledge questions and tasks
+- Provide advice, suggestions, and recommendations
+- Help with writing, planning, problem-solving, and creative tasks
+- Have friendly, engaging conversations
+- Be a helpful companion for any topic
+
+When you have access to ${userName}'s chat history:
+- Use conversation segments to understand context and relationships
+- Reference specific conversations using [1], [2], etc. format
+- When mentioning people in conversations, clarify who ${userName} is talking to/about
+- Don't make up information not in ${userName}'s conversations
+- If you don't find relevant information in ${userName}'s chats, say so clearly
+
+When helping with general topics:
+- Use your knowledge to provide helpful, accurate information
+- Be conversational and engaging
+- Ask clarifying questions when needed
+- Provide practical, actionable advice
+
+Always:
+- Be friendly, helpful, and conversational
+- Be concise but informative
+- Adapt your tone to ${userName}'s needs
+- Offer to help with follow-up questions
+- Remember you're talking to ${userName}, not about ${userName}`;
+
+    const prompt = `User question from ${userName}: "${query}"
+
+${context ? `Relevant conversations from ${userName}'s chat history:
+${context}` : `No relevant conversations found in ${userName}'s chat history.`}${conversationContext}
+
+Provide a helpful, natural answer to ${userName}'s question. If you found relevant information in ${userName}'s chat history, reference it using [1], [2] format. If this is a general question not related to ${userName}'s chats, use your knowledge to provide a helpful response.`;
+
+    return { system, prompt };
+  }
+
+  /**
+   * Citations for the app, in prompt order
+   * For a conversation chunk, the cited message is the one sharing the most
+   * words with the question (the first message when none do)
+   */
+  static toSources(searchResults: AssistantSearchResult[], query = ''): AssistantSource[] {
+    return searchResults.map((result, index) => {
+      const base = {
+        index: index + 1,
+        chatId: result.chatId,
+        chatName: result.chatName,
+        similarity: result.similarity,
+      };
+
+      if (!result.isChunk) {
+        return {
+          ...base,
+          type: 'message' as const,
+          messageId: result.messageId,
+          messageIds: result.messageId ? [result.messageId] : [],
+          senderId: result.senderId,
+          senderName: result.senderName,
+          snippet: (result.text || '').slice(0, 150),
+          timestamp: result.timestamp,
+        };
+      }
+
+      const messageIds = result.messageIds || (result.messageId ? [result.messageId] : []);
+      const messages = result.messages || [];
+      const cited = citedMessageIndex(query, messages.map((message) => message.text));
+      const message = messages[cited];
+
+      return {
+        ...base,
+        type: 'chunk' as const,
+        chunkId: result.chunkId,
+        // Document passages all point at the single message that shared the file
+        messageId: messageIds[cited] ?? messageIds[0],
+        messageIds,
+        senderId: message?.senderId,
+        senderName: message?.senderName,
+        snippet: (message?.text || result.fullText || '').slice(0, 150),
+        timestamp: message?.timestamp ?? result.timestamp,
+      };
+    });
+  }
+
+  /**
+   * Whole answer at once
+   */
+  static async generateAnswer(prompts: AssistantPrompts): Promise<string> {
+    const result = await generateText({
+      model: aiModel,
+      system: prompts.system,
+      prompt: prompts.prompt,
+      temperature: 0.7,
+    });
+
+    return result.text.trim();
+  }
+
+  /**
+   * Stream the answer, calling onToken for each piece of text
+   * Stops early (status 'cancelled') when abortSignal fires; model errors are thrown
+   */
+  static async streamAnswer(
+    prompts: AssistantPrompts,
+    onToken: (text: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<{ answer: string; status: AssistantStreamStatus }> {
+    let streamError: unknown = null;
+    const result = streamText({
+      model: aiModel,
+      system: prompts.system,
+      prompt: prompts.prompt,
+      temperature: 0.7,
+      abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+
+    let answer = '';
+    try {
+      for await (const text of result.textStream) {
+        answer += text;
+        onToken(text);
+      }
+    } catch (error) {
+      if (!abortSignal?.aborted) {
+        throw error;
+      }
+    }
+
+    if (abortSignal?.aborted) {
+      return { answer, status: 'cancelled' };
+    }
+    if (streamError) {
+      throw streamError;
+    }
+    return { answer, status: 'complete' };
+  }
+}
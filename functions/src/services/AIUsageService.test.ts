@@ -0,0 +1,92 @@
+/**
+ * Unit tests for AIUsageService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { AIUsageLimits, AIUsageService, reportTokenUsage, runWithTokenTracking } from './AIUsageService';
+
+const limits: AIUsageLimits = { bucketSize: 3, refillPerMinute: 1, monthlyTokens: 1000 };
+
+describe('AIUsageService', () => {
+  const now = Date.UTC(2025, 5, 15, 12);
+  let db: FakeFirestore;
+  let service: AIUsageService;
+
+  beforeEach(() => {
+    db = createFakeFirestore();
+    service = new AIUsageService(db as unknown as admin.firestore.Firestore, limits);
+  });
+
+  it('should allow bursts up to the bucket size, then rate limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.consume('alice', 'translateMessage', 1, now);
+    }
+
+    await expect(service.consume('alice', 'translateMessage', 1, now)).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      reason: 'rate-limited',
+      retryAfterMs: 60_000,
+    });
+    expect(db.docs.get('aiUsage/alice')).toMatchObject({
+      requestCount: 3,
+      byFunction: { translateMessage: { requests: 3, tokens: 0 } },
+    });
+
+    // One request refills per minute
+    await service.consume('alice', 'translateMessage', 1, now + 60_000);
+    await expect(service.consume('alice', 'translateMessage', 1, now + 60_000)).rejects.toMatchObject({ reason: 'rate-limited' });
+  });
+
+  it('should let requests costing more than the bucket through when it is full', async () => {
+    await service.consume('alice', 'batchTranslateMessages', 10, now);
+
+    expect(db.docs.get('aiUsage/alice')?.bucketTokens).toBe(0);
+  });
+
+  it('should refuse calls once the monthly quota is used up, until next month', async () => {
+    await service.consume('alice', 'aiAssistant', 1, now);
+    await service.recordTokens('alice', 'aiAssistant', 1200, now);
+
+    await expect(service.consume('alice', 'aiAssistant', 1, now + 60_000)).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      reason: 'quota-exceeded',
+      retryAfterMs: Date.UTC(2025, 6, 1) - (now + 60_000),
+    });
+
+    await service.consume('alice', 'aiAssistant', 1, Date.UTC(2025, 6, 1));
+    expect(db.docs.get('aiUsage/alice')).toMatchObject({ month: '2025-07', tokensUsed: 0, requestCount: 1 });
+  });
+
+  it('should honor per-user token limits', async () => {
+    db.docs.set('aiUsage/bob', { month: '2025-06', tokensUsed: 1500, monthlyTokenLimit: 5000 });
+
+    await service.consume('bob', 'aiAssistant', 1, now);
+
+    const summary = await service.getSummary('bob', now);
+    expect(summary).toMatchObject({ tokenLimit: 5000, tokensRemaining: 3500, resetsAt: Date.UTC(2025, 6, 1) });
+  });
+
+  it('should record tokens without refilling the bucket', async () => {
+    await service.consume('alice', 'searchAllChats', 3, now);
+    await service.recordTokens('alice', 'searchAllChats', 40, now + 120_000);
+
+    const summary = await service.getSummary('alice', now + 120_000);
+    expect(summary).toMatchObject({ tokensUsed: 40, tokensRemaining: 960, requestsAvailable: 2 });
+    expect(db.docs.get('aiUsage/alice')?.byFunction.searchAllChats).toEqual({ requests: 1, tokens: 40 });
+  });
+
+  it('should collect reported tokens for the running call only', async () => {
+    const scope = { tokens: 0 };
+
+    reportTokenUsage(99); // Outside any call: ignored
+    await runWithTokenTracking(scope, async () => {
+      reportTokenUsage(10);
+      await Promise.resolve();
+      reportTokenUsage(5);
+      reportTokenUsage(undefined);
+    });
+
+    expect(scope.tokens).toBe(15);
+  });
+});
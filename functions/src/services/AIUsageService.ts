@@ -0,0 +1,241 @@
+/**
+ * AI Usage Service
+ * Per-user rate limits and monthly token quotas for the AI callables
+ *
+ * Each user has one document in aiUsage/{userId} (server-only, see
+ * firestore.rules) holding:
+ * - A token bucket for requests: bursts up to `bucketSize`, refilled at
+ *   `refillPerMinute`
+ * - The model tokens used this calendar month (UTC), overall and per function
+ *
+ * Model tokens are counted as they're spent: the language model in
+ * ai-sdk.config and EmbeddingService report usage with reportTokenUsage(), which
+ * adds it to the callable currently running (see withAIUsage in utils/aiUsage).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as admin from 'firebase-admin';
+
+export interface AIUsageLimits {
+  bucketSize: number;       // Requests allowed in a burst
+  refillPerMinute: number;  // Sustained requests per minute
+  monthlyTokens: number;    // Model tokens per calendar month
+}
+
+export const DEFAULT_AI_USAGE_LIMITS: AIUsageLimits = {
+  bucketSize: 30,
+  refillPerMinute: 15,
+  monthlyTokens: 500_000,
+};
+
+export interface FunctionUsage {
+  requests: number;
+  tokens: number;
+}
+
+export interface AIUsage {
+  bucketTokens: number;
+  bucketUpdatedAt: number;
+  month: string;                            // YYYY-MM (UTC)
+  tokensUsed: number;
+  requestCount: number;
+  byFunction: Record<string, FunctionUsage>;
+  monthlyTokenLimit?: number;               // Per-user override, set by hand
+  updatedAt: number;
+}
+
+/**
+ * What the client is shown (getAIUsage)
+ */
+export interface AIUsageSummary {
+  month: string;
+  tokensUsed: number;
+  tokenLimit: number;
+  tokensRemaining: number;
+  requestsAvailable: number;  // Requests that can be made right now
+  resetsAt: number;           // Start of next month (ms)
+}
+
+/**
+ * Error with a callable error code, so functions can pass it on to the client
+ */
+export class AIUsageError extends Error {
+  constructor(
+    readonly code: 'resource-exhausted',
+    readonly reason: 'rate-limited' | 'quota-exceeded',
+    readonly retryAfterMs: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AIUsageError';
+  }
+}
+
+// Tokens spent by the callable running in the current async context
+const usageScope = new AsyncLocalStorage<{ tokens: number }>();
+
+/**
+ * Add model tokens to the callable currently running (no-op outside one,
+ * e.g. in Firestore triggers)
+ */
+export function reportTokenUsage(tokens: number | undefined): void {
+  const scope = usageScope.getStore();
+  if (scope && tokens && tokens > 0) {
+    scope.tokens += tokens;
+  }
+}
+
+/**
+ * Run `fn`, collecting the tokens it reports into `scope`
+ */
+export function runWithTokenTracking<T>(scope: { tokens: number }, fn: () => Promise<T>): Promise<T> {
+  return usageScope.run(scope, fn);
+}
+
+/**
+ * Calendar month (UTC) as YYYY-MM
+ */
+export function usageMonth(now: number): string {
+  return new Date(now).toISOString().slice(0, 7);
+}
+
+/**
+ * Start of the month after `now` (UTC)
+ */
+export function nextMonthStart(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Bring a stored usage document up to date: refill the bucket and start a new
+ * month if needed
+ */
+export function currentUsage(stored: Partial<AIUsage> | undefined, limits: AIUsageLimits, now: number): AIUsage {
+  const month = usageMonth(now);
+  const bucketUpdatedAt = stored?.bucketUpdatedAt ?? now;
+  const elapsedMinutes = Math.max(0, now - bucketUpdatedAt) / 60_000;
+  const sameMonth = stored?.month === month;
+
+  return {
+    bucketTokens: Math.min(
+      limits.bucketSize,
+      (stored?.bucketTokens ?? limits.bucketSize) + elapsedMinutes * limits.refillPerMinute
+    ),
+    bucketUpdatedAt: now,
+    month,
+    tokensUsed: sameMonth ? stored?.tokensUsed ?? 0 : 0,
+    requestCount: sameMonth ? stored?.requestCount ?? 0 : 0,
+    byFunction: sameMonth ? stored?.byFunction ?? {} : {},
+    ...(stored?.monthlyTokenLimit !== undefined && { monthlyTokenLimit: stored.monthlyTokenLimit }),
+    updatedAt: stored?.updatedAt ?? now,
+  };
+}
+
+export class AIUsageService {
+  constructor(
+    private readonly db: admin.firestore.Firestore = admin.firestore(),
+    private readonly limits: AIUsageLimits = DEFAULT_AI_USAGE_LIMITS
+  ) {}
+
+  private usageRef(userId: string) {
+    return this.db.collection('aiUsage').doc(userId);
+  }
+
+  private tokenLimit(usage: AIUsage): number {
+    return usage.monthlyTokenLimit ?? this.limits.monthlyTokens;
+  }
+
+  /**
+   * Take `cost` requests from the user's bucket, or throw AIUsageError if the
+   * bucket is empty or the monthly quota is used up
+   */
+  async consume(userId: string, functionName: string, cost = 1, now = Date.now()): Promise<void> {
+    const ref = this.usageRef(userId);
+
+    await this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const usage = currentUsage(snapshot.data() as Partial<AIUsage> | undefined, this.limits, now);
+
+      if (usage.tokensUsed >= this.tokenLimit(usage)) {
+        throw new AIUsageError(
+          'resource-exhausted',
+          'quota-exceeded',
+          nextMonthStart(now) - now,
+          'You\'ve used all of this month\'s AI allowance'
+        );
+      }
+
+      // Never more than a full bucket, so big requests can still go through
+      const required = Math.min(cost, this.limits.bucketSize);
+      if (usage.bucketTokens < required) {
+        const retryAfterMs = Math.ceil((required - usage.bucketTokens) / this.limits.refillPerMinute * 60_000);
+        throw new AIUsageError(
+          'resource-exhausted',
+          'rate-limited',
+          retryAfterMs,
+          'Too many AI requests. Please try again in a moment.'
+        );
+      }
+
+      const functionUsage = usage.byFunction[functionName] || { requests: 0, tokens: 0 };
+      transaction.set(ref, {
+        ...usage,
+        bucketTokens: usage.bucketTokens - required,
+        requestCount: usage.requestCount + 1,
+        byFunction: {
+          ...usage.byFunction,
+          [functionName]: { ...functionUsage, requests: functionUsage.requests + 1 },
+        },
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Add model tokens spent by a call to this month's usage
+   */
+  async recordTokens(userId: string, functionName: string, tokens: number, now = Date.now()): Promise<void> {
+    if (tokens <= 0) return;
+
+    const ref = this.usageRef(userId);
+
+    await this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const stored = snapshot.data() as Partial<AIUsage> | undefined;
+      const usage = currentUsage(stored, this.limits, now);
+      const functionUsage = usage.byFunction[functionName] || { requests: 0, tokens: 0 };
+
+      transaction.set(ref, {
+        ...usage,
+        // Keep the bucket as it was; only consume() moves it
+        bucketTokens: stored?.bucketTokens ?? usage.bucketTokens,
+        bucketUpdatedAt: stored?.bucketUpdatedAt ?? now,
+        tokensUsed: usage.tokensUsed + tokens,
+        byFunction: {
+          ...usage.byFunction,
+          [functionName]: { ...functionUsage, tokens: functionUsage.tokens + tokens },
+        },
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Usage summary for the client
+   */
+  async getSummary(userId: string, now = Date.now()): Promise<AIUsageSummary> {
+    const snapshot = await this.usageRef(userId).get();
+    const usage = currentUsage(snapshot.data() as Partial<AIUsage> | undefined, this.limits, now);
+    const tokenLimit = this.tokenLimit(usage);
+
+    return {
+      month: usage.month,
+      tokensUsed: usage.tokensUsed,
+      tokenLimit,
+      tokensRemaining: Math.max(0, tokenLimit - usage.tokensUsed),
+      requestsAvailable: Math.floor(usage.bucketTokens),
+      resetsAt: nextMonthStart(now),
+    };
+  }
+}
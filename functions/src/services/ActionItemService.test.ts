@@ -0,0 +1,209 @@
+/**
+ * Unit tests for ActionItemService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { ActionItemService, ChatActionItems, mergeExtractionResult, parseExtractionResult } from './ActionItemService';
+import { ChatContextService } from './ChatContextService';
+import { ConversationChunkService } from './ConversationChunkService';
+
+jest.mock('ai', () => ({
+  generateText: jest.fn(),
+}));
+
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('../config/ai-sdk.config', () => ({
+  aiModel: {},
+}));
+
+jest.mock('./ChatContextService', () => ({
+  ChatContextService: { loadContext: jest.fn() },
+}));
+
+jest.mock('./ConversationChunkService', () => ({
+  ConversationChunkService: { loadRecentChunkMessages: jest.fn() },
+}));
+
+const mockLoadContext = ChatContextService.loadContext as jest.Mock;
+const mockLoadChunkMessages = ConversationChunkService.loadRecentChunkMessages as jest.Mock;
+
+const message = (id: string, timestamp: number, senderName: string, text: string) => ({
+  id,
+  timestamp,
+  senderId: senderName.toLowerCase(),
+  senderName,
+  text,
+});
+
+const baseData = (): Record<string, Record<string, any>> => ({
+  'chats/chat-1': { participants: ['alice', 'bob'] },
+  'chats/chat-1/messages/m1': { ...message('m1', 100, 'Alice', 'Can you book the venue by Friday?'), type: 'text' },
+  'chats/chat-1/messages/m2': { ...message('m2', 200, 'Bob', 'Sure, I will'), type: 'text' },
+  'chats/chat-1/messages/m3': { ...message('m3', 300, 'Alice', 'Let\'s go with the lake house'), type: 'text' },
+  'chats/chat-1/messages/sys': { ...message('sys', 250, 'System', 'Bob joined'), type: 'system' },
+});
+
+const extraction = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  actionItems: [],
+  decisions: [],
+  openQuestions: [],
+  completedActionItemIds: [],
+  answeredQuestionIds: [],
+  ...overrides,
+});
+
+describe('ActionItemService', () => {
+  const now = Date.UTC(2025, 5, 2);
+  let db: FakeFirestore;
+  let generate: jest.Mock;
+  let service: ActionItemService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLoadContext.mockResolvedValue({ summary: 'Planning a team offsite' });
+    mockLoadChunkMessages.mockResolvedValue([]);
+    db = createFakeFirestore(baseData());
+    generate = jest.fn();
+    service = new ActionItemService(db as unknown as admin.firestore.Firestore, generate);
+  });
+
+  describe('parseExtractionResult', () => {
+    it('should accept fenced JSON and drop malformed items', () => {
+      const result = parseExtractionResult('```json\n' + extraction({
+        actionItems: [
+          { text: 'Book the venue', owner: 'Bob', dueDate: '2025-06-06', sourceMessageId: 'm1' },
+          { text: 'No source' },
+          'junk',
+        ],
+        completedActionItemIds: ['a1', 3],
+      }) + '\n```');
+
+      expect(result.actionItems).toEqual([
+        { text: 'Book the venue', owner: 'Bob', dueDate: '2025-06-06', sourceMessageId: 'm1' },
+      ]);
+      expect(result.completedActionItemIds).toEqual(['a1']);
+      expect(result.decisions).toEqual([]);
+    });
+  });
+
+  describe('mergeExtractionResult', () => {
+    const empty: ChatActionItems = {
+      chatId: 'chat-1',
+      actionItems: [],
+      decisions: [],
+      openQuestions: [],
+      lastMessageId: null,
+      lastMessageTimestamp: 0,
+      messagesAnalyzed: 0,
+      updatedAt: 0,
+    };
+    const messages = [message('m1', 100, 'Alice', 'Who books?'), message('m2', 200, 'Bob', 'Me, by 6/6')];
+
+    it('should resolve owners, check due dates and ignore unknown messages', () => {
+      const merged = mergeExtractionResult(empty, {
+        actionItems: [
+          { text: 'Book the venue', owner: 'bob', dueDate: 'Friday', sourceMessageId: 'm2' },
+          { text: 'Made up', owner: null, dueDate: null, sourceMessageId: 'nope' },
+        ],
+        decisions: [],
+        openQuestions: [{ text: 'Who books?', askedBy: null, sourceMessageId: 'm1' }],
+        completedActionItemIds: [],
+        answeredQuestionIds: [],
+      }, messages, now);
+
+      expect(merged.actionItems).toEqual([expect.objectContaining({
+        text: 'Book the venue',
+        ownerId: 'bob',
+        ownerName: 'Bob',
+        dueDate: null,
+        sourceMessageId: 'm2',
+        status: 'open',
+      })]);
+      expect(merged.openQuestions[0]).toMatchObject({ askedById: 'alice', askedByName: 'Alice' });
+      expect(merged.lastMessageId).toBe('m2');
+      expect(merged.lastMessageTimestamp).toBe(200);
+      expect(merged.messagesAnalyzed).toBe(2);
+    });
+
+    it('should complete action items and drop answered questions', () => {
+      const current: ChatActionItems = {
+        ...empty,
+        actionItems: [{ id: 'a1', text: 'Book', ownerId: null, ownerName: null, dueDate: null, sourceMessageId: 'm0', status: 'open', createdAt: 1 }],
+        openQuestions: [{ id: 'q1', text: 'Where?', askedById: null, askedByName: null, sourceMessageId: 'm0', createdAt: 1 }],
+      };
+
+      const merged = mergeExtractionResult(current, {
+        actionItems: [],
+        decisions: [],
+        openQuestions: [],
+        completedActionItemIds: ['a1'],
+        answeredQuestionIds: ['q1'],
+      }, messages, now);
+
+      expect(merged.actionItems[0].status).toBe('done');
+      expect(merged.openQuestions).toEqual([]);
+    });
+  });
+
+  describe('extract', () => {
+    it('should analyze chunk messages plus newer ones on the first run', async () => {
+      mockLoadChunkMessages.mockResolvedValue([message('m1', 100, 'Alice', 'Can you book the venue by Friday?'), message('m2', 200, 'Bob', 'Sure, I will')]);
+      generate.mockResolvedValue(extraction({
+        actionItems: [{ text: 'Book the venue', owner: 'Bob', dueDate: '2025-06-06', sourceMessageId: 'm1' }],
+        decisions: [{ text: 'Offsite at the lake house', sourceMessageId: 'm3' }],
+      }));
+
+      const result = await service.extract('chat-1', now);
+
+      const prompt: string = generate.mock.calls[0][0];
+      expect(prompt).toContain('CHAT SUMMARY: Planning a team offsite');
+      expect(prompt).toContain('[m1]');
+      expect(prompt).toContain('[m3]');
+      expect(prompt).not.toContain('Bob joined');
+      expect(result.actionItems).toEqual([expect.objectContaining({ ownerId: 'bob', dueDate: '2025-06-06', sourceMessageId: 'm1' })]);
+      expect(result.decisions).toEqual([expect.objectContaining({ text: 'Offsite at the lake house', sourceMessageId: 'm3' })]);
+      expect(result.lastMessageTimestamp).toBe(300);
+      expect(db.docs.get('chats/chat-1/metadata/actionItems')).toEqual(result);
+    });
+
+    it('should only analyze new messages afterwards', async () => {
+      generate.mockResolvedValue(extraction());
+      await service.extract('chat-1', now);
+
+      // Nothing new: no model call
+      generate.mockClear();
+      await service.extract('chat-1', now + 1);
+      expect(generate).not.toHaveBeenCalled();
+
+      db.docs.set('chats/chat-1/messages/m4', { ...message('m4', 400, 'Bob', 'Venue booked!'), type: 'text' });
+      await service.extract('chat-1', now + 2);
+
+      const prompt: string = generate.mock.calls[0][0];
+      expect(prompt).toContain('[m4]');
+      expect(prompt).not.toContain('[m1]');
+    });
+  });
+
+  describe('extractForUser', () => {
+    it('should only extract for participants of unencrypted chats', async () => {
+      await expect(service.extractForUser('mallory', 'chat-1', now)).rejects.toMatchObject({ code: 'permission-denied' });
+      await expect(service.extractForUser('alice', 'chat-2', now)).rejects.toMatchObject({ code: 'not-found' });
+
+      db.docs.set('chats/chat-1', { participants: ['alice', 'bob'], encrypted: true });
+      await expect(service.extractForUser('alice', 'chat-1', now)).rejects.toMatchObject({ code: 'failed-precondition' });
+      expect(generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshIfTracked', () => {
+    it('should skip chats nobody has extracted yet', async () => {
+      await service.refreshIfTracked('chat-1', now);
+      expect(generate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Action Item Service
+ * Extracts action items, decisions and open questions from a chat
+ *
+ * Results are kept in chats/{chatId}/metadata/actionItems. The first run reads
+ * the chat's recent conversation chunks (plus anything newer than the last
+ * chunk); later runs only read messages after lastMessageTimestamp and merge
+ * what they find into the stored lists. The chat context summary is passed
+ * along so the model knows what the chat is about.
+ *
+ * Every item links to the message it came from (sourceMessageId).
+ */
+
+import { generateText } from 'ai';
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { aiModel } from '../config/ai-sdk.config';
+import { ChatContextService } from './ChatContextService';
+import { ConversationChunkService, Message } from './ConversationChunkService';
+
+const MAX_CHUNKS = 12; // Recent chunks read on the first extraction
+const MAX_NEW_MESSAGES = 150; // Messages read per incremental run
+const MAX_ITEMS = 50; // Per list; the oldest are dropped first
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ChatActionItem {
+  id: string;
+  text: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  dueDate: string | null; // YYYY-MM-DD
+  sourceMessageId: string;
+  status: 'open' | 'done';
+  createdAt: number;
+}
+
+export interface ChatDecision {
+  id: string;
+  text: string;
+  sourceMessageId: string;
+  createdAt: number;
+}
+
+export interface ChatOpenQuestion {
+  id: string;
+  text: string;
+  askedById: string | null;
+  askedByName: string | null;
+  sourceMessageId: string;
+  createdAt: number;
+}
+
+export interface ChatActionItems {
+  chatId: string;
+  actionItems: ChatActionItem[];
+  decisions: ChatDecision[];
+  openQuestions: ChatOpenQuestion[];
+  lastMessageId: string | null;
+  lastMessageTimestamp: number;
+  messagesAnalyzed: number;
+  updatedAt: number;
+}
+
+/**
+ * What the model returns for a batch of messages
+ */
+interface ExtractionResult {
+  actionItems: { text: string; owner: string | null; dueDate: string | null; sourceMessageId: string }[];
+  decisions: { text: string; sourceMessageId: string }[];
+  openQuestions: { text: string; askedBy: string | null; sourceMessageId: string }[];
+  completedActionItemIds: string[];
+  answeredQuestionIds: string[];
+}
+
+type GenerateFn = (prompt: string) => Promise<string>;
+
+const defaultGenerate: GenerateFn = async (prompt) => {
+  const { text } = await generateText({
+    model: aiModel,
+    prompt,
+    temperature: 0.2,
+  });
+  return text;
+};
+
+/**
+ * Error with a callable error code, so functions can pass it on to the client
+ */
+export class ActionItemError extends Error {
+  constructor(
+    readonly code: 'not-found' | 'permission-denied' | 'failed-precondition',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ActionItemError';
+  }
+}
+
+const emptyActionItems = (chatId: string): ChatActionItems => ({
+  chatId,
+  actionItems: [],
+  decisions: [],
+  openQuestions: [],
+  lastMessageId: null,
+  lastMessageTimestamp: 0,
+  messagesAnalyzed: 0,
+  updatedAt: 0,
+});
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+
+/**
+ * Parse the model's JSON, dropping anything malformed
+ */
+export const parseExtractionResult = (response: string): ExtractionResult => {
+  let cleanResponse = response.trim();
+  if (cleanResponse.startsWith('```')) {
+    cleanResponse = cleanResponse.replace(/^```(json)?\s*/, '').replace(/\s*```$/, '');
+  }
+
+  const result = JSON.parse(cleanResponse);
+  const list = (value: unknown): any[] => (Array.isArray(value) ? value.filter((item) => item && typeof item === 'object') : []);
+  const ids = (value: unknown): string[] => (Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : []);
+
+  return {
+    actionItems: list(result.actionItems)
+      .map((item) => ({
+        text: asString(item.text),
+        owner: asString(item.owner),
+        dueDate: asString(item.dueDate),
+        sourceMessageId: asString(item.sourceMessageId),
+      }))
+      .filter((item): item is ExtractionResult['actionItems'][number] => !!item.text && !!item.sourceMessageId),
+    decisions: list(result.decisions)
+      .map((item) => ({ text: asString(item.text), sourceMessageId: asString(item.sourceMessageId) }))
+      .filter((item): item is ExtractionResult['decisions'][number] => !!item.text && !!item.sourceMessageId),
+    openQuestions: list(result.openQuestions)
+      .map((item) => ({
+        text: asString(item.text),
+        askedBy: asString(item.askedBy),
+        sourceMessageId: asString(item.sourceMessageId),
+      }))
+      .filter((item): item is ExtractionResult['openQuestions'][number] => !!item.text && !!item.sourceMessageId),
+    completedActionItemIds: ids(result.completedActionItemIds),
+    answeredQuestionIds: ids(result.answeredQuestionIds),
+  };
+};
+
+/**
+ * Add a batch's results to the stored lists
+ * Items must point at one of the analyzed messages; owners are matched to
+ * the senders of those messages by name
+ */
+export const mergeExtractionResult = (
+  current: ChatActionItems,
+  result: ExtractionResult,
+  messages: Message[],
+  now: number
+): ChatActionItems => {
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+  const sendersByName = new Map(messages.map((message) => [
+    message.senderName.toLowerCase(),
+    { id: message.senderId, name: message.senderName },
+  ]));
+  let sequence = 0;
+  const nextId = (prefix: string) => `${prefix}_${now.toString(36)}_${sequence++}`;
+  const resolveSender = (name: string | null) => {
+    if (!name) {
+      return { id: null, name: null };
+    }
+    return sendersByName.get(name.toLowerCase()) ?? { id: null, name };
+  };
+
+  const completed = new Set(result.completedActionItemIds);
+  const answered = new Set(result.answeredQuestionIds);
+
+  const actionItems: ChatActionItem[] = [
+    ...current.actionItems.map((item) => (completed.has(item.id) ? { ...item, status: 'done' as const } : item)),
+    ...result.actionItems
+      .filter((item) => messagesById.has(item.sourceMessageId))
+      .map((item) => {
+        const owner = resolveSender(item.owner);
+        return {
+          id: nextId('action'),
+          text: item.text,
+          ownerId: owner.id,
+          ownerName: owner.name,
+          dueDate: item.dueDate && DUE_DATE_PATTERN.test(item.dueDate) ? item.dueDate : null,
+          sourceMessageId: item.sourceMessageId,
+          status: 'open' as const,
+          createdAt: now,
+        };
+      }),
+  ];
+
+  const decisions: ChatDecision[] = [
+    ...current.decisions,
+    ...result.decisions
+      .filter((item) => messagesById.has(item.sourceMessageId))
+      .map((item) => ({ id: nextId('decision'), text: item.text, sourceMessageId: item.sourceMessageId, createdAt: now })),
+  ];
+
+  const openQuestions: ChatOpenQuestion[] = [
+    ...current.openQuestions.filter((question) => !answered.has(question.id)),
+    ...result.openQuestions
+      .filter((item) => messagesById.has(item.sourceMessageId))
+      .map((item) => {
+        const asker = resolveSender(item.askedBy ?? messagesById.get(item.sourceMessageId)!.senderName);
+        return {
+          id: nextId('question'),
+          text: item.text,
+          askedById: asker.id,
+          askedByName: asker.name,
+          sourceMessageId: item.sourceMessageId,
+          createdAt: now,
+        };
+      }),
+  ];
+
+  const lastMessage = messages[messages.length - 1];
+
+  return {
+    ...current,
+    actionItems: actionItems.slice(-MAX_ITEMS),
+    decisions: decisions.slice(-MAX_ITEMS),
+    openQuestions: openQuestions.slice(-MAX_ITEMS),
+    lastMessageId: lastMessage ? lastMessage.id : current.lastMessageId,
+    lastMessageTimestamp: lastMessage ? lastMessage.timestamp : current.lastMessageTimestamp,
+    messagesAnalyzed: current.messagesAnalyzed + messages.length,
+    updatedAt: now,
+  };
+};
+
+export class ActionItemService {
+  constructor(
+    private readonly db: admin.firestore.Firestore = admin.firestore(),
+    private readonly generate: GenerateFn = defaultGenerate
+  ) {}
+
+  /**
+   * Stored results for a chat (null before the first extraction)
+   */
+  async get(chatId: string): Promise<ChatActionItems | null> {
+    const doc = await this.docRef(chatId).get();
+    return doc.exists ? (doc.data() as ChatActionItems) : null;
+  }
+
+  /**
+   * Extract from messages that haven't been analyzed yet (the recent
+   * conversation on the first run) and save the merged results
+   */
+  async extract(chatId: string, now: number = Date.now()): Promise<ChatActionItems> {
+    const current = (await this.get(chatId)) ?? emptyActionItems(chatId);
+    const messages = current.updatedAt === 0
+      ? await this.loadInitialMessages(chatId)
+      : await this.loadMessagesAfter(chatId, current.lastMessageTimestamp);
+
+    if (messages.length === 0) {
+      return current;
+    }
+
+    const context = await ChatContextService.loadContext(chatId);
+    const prompt = this.buildPrompt(messages, current, context?.summary ?? null, now);
+
+    let result: ExtractionResult;
+    try {
+      result = parseExtractionResult(await this.generate(prompt));
+    } catch (error: any) {
+      logger.error('Failed to parse action item extraction', { chatId, error: error.message });
+      throw error;
+    }
+
+    const merged = mergeExtractionResult(current, result, messages, now);
+    await this.docRef(chatId).set(merged);
+
+    logger.info('Action items extracted', {
+      chatId,
+      messagesAnalyzed: messages.length,
+      actionItems: merged.actionItems.length,
+      decisions: merged.decisions.length,
+      openQuestions: merged.openQuestions.length,
+    });
+
+    return merged;
+  }
+
+  /**
+   * Extract for a participant (callable entry point)
+   */
+  async extractForUser(userId: string, chatId: string, now: number = Date.now()): Promise<ChatActionItems> {
+    const chatDoc = await this.db.collection('chats').doc(chatId).get();
+    if (!chatDoc.exists) {
+      throw new ActionItemError('not-found', 'Chat not found');
+    }
+    const chat = chatDoc.data()!;
+    if (!(chat.participants || []).includes(userId)) {
+      throw new ActionItemError('permission-denied', 'You are not a member of this chat');
+    }
+    if (chat.encrypted === true) {
+      throw new ActionItemError('failed-precondition', 'AI features are not available in end-to-end encrypted chats');
+    }
+
+    return this.extract(chatId, now);
+  }
+
+  /**
+   * Keep results current as messages arrive - only for chats where someone
+   * has opened the Tasks panel (so there's something to update)
+   */
+  async refreshIfTracked(chatId: string, now: number = Date.now()): Promise<void> {
+    const current = await this.get(chatId);
+    if (!current) {
+      return;
+    }
+    await this.extract(chatId, now);
+  }
+
+  private docRef(chatId: string) {
+    return this.db.collection('chats').doc(chatId).collection('metadata').doc('actionItems');
+  }
+
+  /**
+   * Recent conversation chunks, plus messages sent after the last chunk
+   * (chunks are only rebuilt every 10 messages)
+   */
+  private async loadInitialMessages(chatId: string): Promise<Message[]> {
+    const chunkMessages = await ConversationChunkService.loadRecentChunkMessages(chatId, MAX_CHUNKS);
+    const lastChunkTimestamp = chunkMessages.length > 0 ? chunkMessages[chunkMessages.length - 1].timestamp : 0;
+    const newerMessages = await this.loadMessagesAfter(chatId, lastChunkTimestamp);
+
+    const seen = new Set(chunkMessages.map((message) => message.id));
+    return [...chunkMessages, ...newerMessages.filter((message) => !seen.has(message.id))];
+  }
+
+  /**
+   * Text messages after a timestamp, oldest first (the most recent
+   * MAX_NEW_MESSAGES when there are more)
+   */
+  private async loadMessagesAfter(chatId: string, timestamp: number): Promise<Message[]> {
+    const snapshot = await this.db
+      .collection('chats')
+      .doc(chatId)
+      .collection('messages')
+      .where('timestamp', '>', timestamp)
+      .orderBy('timestamp', 'desc')
+      .limit(MAX_NEW_MESSAGES)
+      .get();
+
+    return snapshot.docs
+      .reverse()
+      .map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          text: data.text || '',
+          senderId: data.senderId || '',
+          senderName: data.senderName || 'User',
+          timestamp: data.timestamp || 0,
+          type: data.type,
+          deletedForEveryone: data.deletedForEveryone === true,
+        };
+      })
+      .filter((m) => m.type !== 'system' && !m.deletedForEveryone && m.text.trim().length > 0)
+      .map(({ id, text, senderId, senderName, timestamp }) => ({ id, text, senderId, senderName, timestamp }));
+  }
+
+  private buildPrompt(messages: Message[], current: ChatActionItems, contextSummary: string | null, now: number): string {
+    const messagesText = messages
+      .map((m) => `[${m.id}] ${new Date(m.timestamp).toISOString().slice(0, 16).replace('T', ' ')} ${m.senderName}: ${m.text}`)
+      .join('\n');
+    const openItems = current.actionItems
+      .filter((item) => item.status === 'open')
+      .map((item) => `- [${item.id}] ${item.text}${item.ownerName ? ` (owner: ${item.ownerName})` : ''}`)
+      .join('\n');
+    const openQuestions = current.openQuestions
+      .map((question) => `- [${question.id}] ${question.text}`)
+      .join('\n');
+
+    return `Extract action items, decisions and open questions from these chat messages.
+
+TODAY: ${new Date(now).toISOString().slice(0, 10)}
+${contextSummary ? `\nCHAT SUMMARY: ${contextSummary}\n` : ''}
+OPEN ACTION ITEMS (already known - do not repeat them):
+${openItems || '(none)'}
+
+OPEN QUESTIONS (already known - do not repeat them):
+${openQuestions || '(none)'}
+
+MESSAGES ([message id] time sender: text):
+${messagesText}
+
+Rules:
+- Action items: concrete tasks someone agreed or was asked to do. owner is the sender name of the person responsible (or null). dueDate is YYYY-MM-DD when a date or day is mentioned (resolve "Friday" etc. relative to the message time), otherwise null.
+- Decisions: things the group agreed on or settled.
+- Open questions: questions that have not been answered in the messages.
+- sourceMessageId must be the id of the message the item comes from.
+- completedActionItemIds: ids of known open action items that the messages show are done.
+- answeredQuestionIds: ids of known open questions that the messages answer.
+- Skip small talk. Write each item as one short sentence in the language of the chat.
+
+Respond with ONLY a JSON object in this exact format:
+{
+  "actionItems": [{ "text": "...", "owner": "name or null", "dueDate": "YYYY-MM-DD or null", "sourceMessageId": "..." }],
+  "decisions": [{ "text": "...", "sourceMessageId": "..." }],
+  "openQuestions": [{ "text": "...", "askedBy": "name or null", "sourceMessageId": "..." }],
+  "completedActionItemIds": [],
+  "answeredQuestionIds": []
+}`;
+  }
+}
@@ -8,6 +8,7 @@ import { generateText } from 'ai';
 import * as admin from 'firebase-admin';
 import * as logger from 'firebase-functions/logger';
 import { aiModel } from '../config/ai-sdk.config';
+import { PollService } from './PollService';
 import {
   ChatContext,
   ContextGenerationMode,
@@ -345,7 +346,8 @@ Respond with ONLY "true" or "false" (lowercase, no quotes).`;
   private static async generateSummaryFromMessages(
     messagesText: string, 
     messageCount: number, 
-    targetLanguage: string
+    targetLanguage: string,
+    pollOutcomes: string[] = []
   ): Promise<string> {
     const languageNames: Record<string, string> = {
       'en': 'English',
@@ -371,7 +373,7 @@ Respond with ONLY "true" or "false" (lowercase, no quotes).`;
 
 MESSAGES (${messageCount} total):
 ${messagesText}
-
+${this.buildPollsBlock(pollOutcomes)}
 Create a friendly summary in this format:
 
 📚 Main Topics:
@@ -384,7 +386,7 @@ Create a friendly summary in this format:
 
 💬 Conversation Style:
 [Description of the mood and tone]
-
+${this.buildPollsFormat(pollOutcomes)}
 IMPORTANT: Generate the summary in ${languageName}. Keep it concise and user-friendly.
 
 CRITICAL: The entire summary must be written in ${languageName}. Do not use any other language.`;
@@ -398,6 +400,45 @@ CRITICAL: The entire summary must be written in ${languageName}. Do not use any
     return summary.trim();
   }
 
+  /**
+   * Poll outcomes for a summary prompt (empty when the chat has no polls)
+   */
+  private static buildPollsBlock(pollOutcomes: string[]): string {
+    if (pollOutcomes.length === 0) {
+      return '';
+    }
+    return `\nPOLLS (question — results [status, voters]):\n${pollOutcomes.map((outcome) => `- ${outcome}`).join('\n')}\n`;
+  }
+
+  /**
+   * Extra summary section asking for the poll outcomes
+   */
+  private static buildPollsFormat(pollOutcomes: string[]): string {
+    if (pollOutcomes.length === 0) {
+      return '';
+    }
+    return `
+📊 Polls:
+• [question: outcome, e.g. the winning option and how many people voted; say if it's still open]
+`;
+  }
+
+  /**
+   * Load the chat's recent poll outcomes for a summary
+   * Summaries still work without them, so errors are only logged
+   */
+  private static async loadPollOutcomes(chatId: string): Promise<string[]> {
+    try {
+      return await new PollService(firestore).getRecentPollOutcomes(chatId);
+    } catch (error: any) {
+      logger.warn('Failed to load poll outcomes for summary', {
+        chatId,
+        error: error.message,
+      });
+      return [];
+    }
+  }
+
   /**
    * Generate user-facing summary
    * @param chatId - The chat ID to summarize
@@ -408,6 +449,7 @@ CRITICAL: The entire summary must be written in ${languageName}. Do not use any
       logger.info('Generating user summary', { chatId });
 
       const context = await this.loadContext(chatId);
+      const pollOutcomes = await this.loadPollOutcomes(chatId);
 
       // If no context exists yet (< 20 messages), generate summary from messages directly
       if (!context) {
@@ -450,7 +492,7 @@ CRITICAL: The entire summary must be written in ${languageName}. Do not use any
               .map(m => `- ${m.senderName}: ${m.text}`)
               .join('\n');
 
-            return await this.generateSummaryFromMessages(messagesText, messages.length, targetLanguage);
+            return await this.generateSummaryFromMessages(messagesText, messages.length, targetLanguage, pollOutcomes);
           }
 
           // Step 2: Use semantic search to find key messages
@@ -513,7 +555,7 @@ CRITICAL: The entire summary must be written in ${languageName}. Do not use any
             totalScanned: messages.length,
           });
 
-          return await this.generateSummaryFromMessages(messagesText, allKeyMessages.length, targetLanguage);
+          return await this.generateSummaryFromMessages(messagesText, allKeyMessages.length, targetLanguage, pollOutcomes);
 
         } catch (ragError: any) {
           // Fallback to chronological if RAG fails
@@ -543,7 +585,7 @@ CRITICAL: The entire summary must be written in ${languageName}. Do not use any
             .map(m => `- ${m.senderName}: ${m.text}`)
             .join('\n');
 
-          return await this.generateSummaryFromMessages(messagesText, messages.length, targetLanguage);
+          return await this.generateSummaryFromMessages(messagesText, messages.length, targetLanguage, pollOutcomes);
         }
       }
 
@@ -575,7 +617,7 @@ Topics: ${context.topics.join(', ')}
 Mood: ${context.mood}
 Relationship: ${context.relationship}
 Summary: ${context.summary}
-
+${this.buildPollsBlock(pollOutcomes)}
 Create a friendly summary in this format:
 
 📚 Main Topics:
@@ -588,7 +630,7 @@ Create a friendly summary in this format:
 
 💬 Conversation Style:
 [Description of the mood and tone]
-
+${this.buildPollsFormat(pollOutcomes)}
 IMPORTANT: Generate the summary in ${languageName}. Keep it concise and user-friendly.
 
 CRITICAL: The entire summary must be written in ${languageName}. Do not use any other language.`;
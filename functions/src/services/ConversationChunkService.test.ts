@@ -0,0 +1,65 @@
+/**
+ * Unit tests for ConversationChunkService
+ */
+
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { ConversationChunkService } from './ConversationChunkService';
+
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('./EmbeddingService', () => ({
+  EmbeddingService: { generateEmbedding: jest.fn() },
+}));
+
+const FIELD_DELETE = { delete: true };
+
+let mockDb: FakeFirestore;
+
+jest.mock('firebase-admin', () => {
+  const firestore = () => mockDb;
+  firestore.FieldValue = { delete: () => FIELD_DELETE };
+  return { firestore };
+});
+
+describe('ConversationChunkService', () => {
+  beforeEach(() => {
+    mockDb = createFakeFirestore();
+  });
+
+  describe('deleteChunksForChat', () => {
+    it('should delete every chunk of the chat, across batches', async () => {
+      for (let i = 0; i < 450; i++) {
+        mockDb.docs.set(`chats/chat-1/conversationChunks/chunk_${i}`, { chunkIndex: i });
+      }
+      mockDb.docs.set('chats/chat-2/conversationChunks/chunk_0', { chunkIndex: 0 });
+
+      await ConversationChunkService.deleteChunksForChat('chat-1');
+
+      expect(Array.from(mockDb.docs.keys())).toEqual(['chats/chat-2/conversationChunks/chunk_0']);
+    });
+  });
+
+  describe('deleteMessageEmbeddings', () => {
+    it('should clear the embeddings of the chat\'s messages', async () => {
+      for (let i = 0; i < 450; i++) {
+        mockDb.docs.set(`chats/chat-1/messages/m${i}`, { text: 'hello', embedding: [0.1, 0.2], embeddingGenerated: true });
+      }
+      mockDb.docs.set('chats/chat-1/messages/short', { text: 'hi', embeddingGenerated: false });
+      mockDb.docs.set('chats/chat-2/messages/m0', { text: 'hello', embedding: [0.1, 0.2], embeddingGenerated: true });
+
+      await ConversationChunkService.deleteMessageEmbeddings('chat-1');
+
+      expect(mockDb.docs.get('chats/chat-1/messages/m0')).toEqual({
+        text: 'hello',
+        embedding: FIELD_DELETE,
+        embeddingGenerated: false,
+      });
+      expect(mockDb.docs.get('chats/chat-1/messages/m449')?.embeddingGenerated).toBe(false);
+      expect(mockDb.docs.get('chats/chat-1/messages/short')).toEqual({ text: 'hi', embeddingGenerated: false });
+      expect(mockDb.docs.get('chats/chat-2/messages/m0')?.embeddingGenerated).toBe(true);
+    });
+  });
+});
@@ -11,6 +11,9 @@
  * - Chunk 3: Messages 11-20
  * - Chunk 4: Messages 16-25
  * ... and so on
+ *
+ * Text extracted from shared documents is chunked into overlapping passages
+ * and stored alongside conversation chunks (source: 'document').
  */
 
 import * as admin from 'firebase-admin';
@@ -19,8 +22,12 @@ import { EmbeddingService } from './EmbeddingService';
 
 const CHUNK_SIZE = 10; // Number of messages per chunk
 const OVERLAP = 5; // Number of messages to overlap between chunks
+const PASSAGE_SIZE = 1500; // Characters per document passage
+const PASSAGE_OVERLAP = 200; // Characters shared between consecutive passages
+const MAX_PASSAGES = 100; // Limit embedding cost for very large documents
+const DELETE_BATCH_SIZE = 400; // Stays under Firestore's 500 writes per batch
 
-interface Message {
+export interface Message {
   id: string;
   text: string;
   senderId: string;
@@ -28,8 +35,18 @@ interface Message {
   timestamp: number;
 }
 
+export interface DocumentSource {
+  messageId: string;
+  fileName: string;
+  senderId: string;
+  senderName: string;
+  timestamp: number;
+}
+
 interface ConversationChunk {
   chatId: string;
+  source?: 'conversation' | 'document'; // Missing on chunks created before documents were indexed
+  fileName?: string; // Document chunks only
   chunkIndex: number;
   messageIds: string[];
   messages: {
@@ -221,6 +238,128 @@ export class ConversationChunkService {
     }
   }
 
+  /**
+   * Generate chunks for text extracted from a shared document
+   * Each passage is stored as its own chunk pointing at the file message
+   */
+  static async generateDocumentChunks(
+    chatId: string,
+    document: DocumentSource,
+    text: string
+  ): Promise<number> {
+    try {
+      const passages = this.splitIntoPassages(text).slice(0, MAX_PASSAGES);
+
+      logger.info('Starting document chunk generation', {
+        chatId,
+        messageId: document.messageId,
+        textLength: text.length,
+        passageCount: passages.length,
+      });
+
+      let chunksCreated = 0;
+      for (let i = 0; i < passages.length; i++) {
+        const chunk: ConversationChunk = {
+          chatId,
+          source: 'document',
+          fileName: document.fileName,
+          chunkIndex: i,
+          messageIds: [document.messageId],
+          messages: [{
+            senderId: document.senderId,
+            senderName: document.senderName,
+            text: passages[i],
+            timestamp: document.timestamp,
+          }],
+          fullText: `${document.senderName} shared ${document.fileName}:\n${passages[i]}`,
+          startTimestamp: document.timestamp,
+          endTimestamp: document.timestamp,
+          embeddingGenerated: false,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        };
+
+        try {
+          const embeddingResult = await EmbeddingService.generateEmbedding(chunk.fullText);
+          chunk.embedding = embeddingResult.embedding;
+          chunk.embeddingGenerated = true;
+
+          await admin
+            .firestore()
+            .collection('chats')
+            .doc(chatId)
+            .collection('conversationChunks')
+            .doc(`doc_${document.messageId}_${i}`)
+            .set(chunk);
+
+          chunksCreated++;
+        } catch (error: any) {
+          logger.error('Failed to create document chunk', {
+            chatId,
+            messageId: document.messageId,
+            chunkIndex: i,
+            error: error.message,
+          });
+        }
+      }
+
+      logger.info('Document chunk generation completed', {
+        chatId,
+        messageId: document.messageId,
+        chunksCreated,
+      });
+
+      return chunksCreated;
+    } catch (error: any) {
+      logger.error('Failed to generate document chunks', {
+        chatId,
+        messageId: document.messageId,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Split document text into overlapping passages
+   * Prefers to break at paragraph, then sentence, then word boundaries
+   */
+  static splitIntoPassages(text: string): string[] {
+    const passages: string[] = [];
+    const cleaned = text.trim();
+    let start = 0;
+
+    while (start < cleaned.length) {
+      let end = Math.min(start + PASSAGE_SIZE, cleaned.length);
+
+      if (end < cleaned.length) {
+        const window = cleaned.substring(start, end);
+        const minBreak = PASSAGE_SIZE / 2;
+        const breakAt = [
+          window.lastIndexOf('\n\n'),
+          window.lastIndexOf('. '),
+          window.lastIndexOf(' '),
+        ].find((index) => index > minBreak);
+
+        if (breakAt !== undefined) {
+          end = start + breakAt + 1;
+        }
+      }
+
+      const passage = cleaned.substring(start, end).trim();
+      if (passage.length > 0) {
+        passages.push(passage);
+      }
+
+      if (end >= cleaned.length) {
+        break;
+      }
+      start = Math.max(end - PASSAGE_OVERLAP, start + 1);
+    }
+
+    return passages;
+  }
+
   /**
    * Create sliding window chunks from messages
    */
@@ -247,6 +386,7 @@ export class ConversationChunkService {
 
       const chunk: ConversationChunk = {
         chatId,
+        source: 'conversation',
         chunkIndex,
         messageIds: chunkMessages.map(m => m.id),
         messages: chunkMessages.map(m => ({
@@ -350,28 +490,71 @@ export class ConversationChunkService {
   }
 
   /**
-   * Delete all chunks for a chat (useful for regeneration)
+   * Messages from the chat's most recent conversation chunks, oldest first
+   * (overlapping chunks share messages; each message is returned once)
    */
-  static async deleteChunksForChat(chatId: string): Promise<void> {
+  static async loadRecentChunkMessages(chatId: string, maxChunks: number = 10): Promise<Message[]> {
     try {
       const snapshot = await admin
         .firestore()
         .collection('chats')
         .doc(chatId)
         .collection('conversationChunks')
+        .orderBy('endTimestamp', 'desc')
+        .limit(maxChunks)
         .get();
 
-      const batch = admin.firestore().batch();
+      const messages = new Map<string, Message>();
+      snapshot.docs
+        .map((doc) => doc.data() as ConversationChunk)
+        .filter((chunk) => chunk.source !== 'document')
+        .forEach((chunk) => {
+          chunk.messageIds.forEach((id, index) => {
+            const message = chunk.messages[index];
+            if (message && !messages.has(id)) {
+              messages.set(id, { id, ...message });
+            }
+          });
+        });
 
-      snapshot.docs.forEach((doc) => {
-        batch.delete(doc.ref);
+      return Array.from(messages.values()).sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error: any) {
+      logger.error('Failed to load conversation chunks', {
+        chatId,
+        error: error.message,
       });
+      return [];
+    }
+  }
+
+  /**
+   * Delete all chunks for a chat (useful for regeneration)
+   */
+  static async deleteChunksForChat(chatId: string): Promise<void> {
+    try {
+      const chunksRef = admin
+        .firestore()
+        .collection('chats')
+        .doc(chatId)
+        .collection('conversationChunks');
+
+      // One batch per page of chunks
+      let count = 0;
+      let snapshot = await chunksRef.limit(DELETE_BATCH_SIZE).get();
+      while (!snapshot.empty) {
+        const batch = admin.firestore().batch();
+        snapshot.docs.forEach((doc) => {
+          batch.delete(doc.ref);
+        });
+        await batch.commit();
 
-      await batch.commit();
+        count += snapshot.size;
+        snapshot = await chunksRef.limit(DELETE_BATCH_SIZE).get();
+      }
 
       logger.info('Deleted all chunks', { 
         chatId, 
-        count: snapshot.size 
+        count 
       });
     } catch (error: any) {
       logger.error('Failed to delete chunks', {
@@ -380,5 +563,49 @@ export class ConversationChunkService {
       });
     }
   }
+
+  /**
+   * Remove the embeddings stored on a chat's messages
+   * Used when a chat switches to end-to-end encryption, so its plaintext
+   * stops being searchable
+   */
+  static async deleteMessageEmbeddings(chatId: string): Promise<void> {
+    try {
+      const embeddedMessages = admin
+        .firestore()
+        .collection('chats')
+        .doc(chatId)
+        .collection('messages')
+        .where('embeddingGenerated', '==', true)
+        .limit(DELETE_BATCH_SIZE);
+
+      // Cleared messages drop out of the query, so each pass fetches the next page
+      let count = 0;
+      let snapshot = await embeddedMessages.get();
+      while (!snapshot.empty) {
+        const batch = admin.firestore().batch();
+        snapshot.docs.forEach((doc) => {
+          batch.update(doc.ref, {
+            embedding: admin.firestore.FieldValue.delete(),
+            embeddingGenerated: false,
+          });
+        });
+        await batch.commit();
+
+        count += snapshot.size;
+        snapshot = await embeddedMessages.get();
+      }
+
+      logger.info('Deleted message embeddings', {
+        chatId,
+        count,
+      });
+    } catch (error: any) {
+      logger.error('Failed to delete message embeddings', {
+        chatId,
+        error: error.message,
+      });
+    }
+  }
 }
 
@@ -4,7 +4,7 @@
 
 import { generateText } from 'ai';
 import * as logger from 'firebase-functions/logger';
-import { CulturalAnalysisService, CulturalPhrase } from './CulturalAnalysisService';
+import { CulturalAnalysisService } from './CulturalAnalysisService';
 
 // Mock the AI SDK
 jest.mock('ai', () => ({
@@ -19,280 +19,159 @@ jest.mock('firebase-functions/logger', () => ({
 
 const mockGenerateText = generateText as jest.MockedFunction<typeof generateText>;
 
+const analysisResponse = {
+  messageExplanation: "Wishing someone good luck before a show, jokingly",
+  culturalPhrases: [
+    {
+      phrase: "break a leg",
+      position: [0, 11],
+      explanation: "Theater idiom meaning 'good luck'",
+      culturalContext: "Used before performances to wish success",
+      examples: ["Break a leg in your presentation!", "Break a leg tonight!"],
+      confidence: 95,
+      englishPhrase: "break a leg",
+    },
+    {
+      phrase: "tonight",
+      position: [12, 19],
+      explanation: "Just a time of day",
+      culturalContext: "None",
+      examples: [],
+      confidence: 40,
+    },
+  ],
+  slangExpressions: [
+    {
+      slang: "lol",
+      position: [20, 23],
+      standardMeaning: "laugh out loud",
+      usage: "Used to indicate something is funny",
+      confidence: 98,
+      englishSlang: "lol",
+    },
+  ],
+};
+
 describe('CulturalAnalysisService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
   describe('analyzeCulturalContext', () => {
-    it('should analyze cultural context successfully', async () => {
-      // Mock cultural phrases response
-      const culturalPhrasesResponse = JSON.stringify([
-        {
-          phrase: "break a leg",
-          position: [0, 12],
-          explanation: "Theater idiom meaning 'good luck'",
-          culturalContext: "Used before performances to wish success",
-          examples: ["Break a leg in your presentation!", "Break a leg tonight!"],
-          confidence: 95
-        }
-      ]);
-
-      // Mock slang expressions response
-      const slangExpressionsResponse = JSON.stringify([
-        {
-          slang: "lol",
-          position: [15, 18],
-          standardMeaning: "laugh out loud",
-          usage: "Used to indicate something is funny",
-          confidence: 98
-        }
-      ]);
-
-      // Mock web search enhancement response
-      const webSearchResponse = JSON.stringify({
-        explanation: "Detailed explanation of the phrase",
-        culturalContext: "Cultural background and significance",
-        examples: ["Example 1", "Example 2", "Example 3"]
-      });
-
-      // Setup mock responses
-      mockGenerateText
-        .mockResolvedValueOnce({ text: culturalPhrasesResponse, content: culturalPhrasesResponse } as any)
-        .mockResolvedValueOnce({ text: slangExpressionsResponse, content: slangExpressionsResponse } as any)
-        .mockResolvedValueOnce({ text: webSearchResponse, content: webSearchResponse } as any);
+    it('should analyze cultural context in a single call', async () => {
+      mockGenerateText.mockResolvedValueOnce({ text: JSON.stringify(analysisResponse) } as any);
 
       const result = await CulturalAnalysisService.analyzeCulturalContext(
-        "break a leg lol",
-        "break a leg lol", // translated text (same for test)
+        "break a leg tonight lol",
+        "break a leg tonight lol",
         "en",
         "test-message-id"
       );
 
+      expect(mockGenerateText).toHaveBeenCalledTimes(1);
       expect(result.messageId).toBe("test-message-id");
-      expect(result.culturalPhrases).toHaveLength(1);
-      expect(result.slangExpressions).toHaveLength(1);
-      expect(result.webSearchUsed).toBe(true);
+      expect(result.messageExplanation).toBe(analysisResponse.messageExplanation);
+      expect(result.slangExpressions.map(s => s.slang)).toEqual(["lol"]);
+      expect(result.webSearchUsed).toBe(false);
       expect(result.analysisTimestamp).toBeGreaterThan(0);
-
-      expect(logger.info).toHaveBeenCalledWith('Starting cultural analysis', {
-        messageId: "test-message-id",
-        textLength: 15,
-        language: "en"
-      });
     });
 
-    it('should handle errors gracefully', async () => {
-      mockGenerateText.mockRejectedValueOnce(new Error('AI API error'));
+    it('should drop phrases below the confidence threshold', async () => {
+      mockGenerateText.mockResolvedValueOnce({ text: JSON.stringify(analysisResponse) } as any);
 
       const result = await CulturalAnalysisService.analyzeCulturalContext(
-        "test text",
-        "test text", // translated text (same for test)
+        "break a leg tonight lol",
+        "break a leg tonight lol",
         "en",
         "test-message-id"
       );
 
-      expect(result.messageId).toBe("test-message-id");
-      expect(result.culturalPhrases).toHaveLength(0);
-      expect(result.slangExpressions).toHaveLength(0);
-      expect(result.webSearchUsed).toBe(false);
-
-      expect(logger.error).toHaveBeenCalledWith('Cultural analysis error:', {
-        messageId: "test-message-id",
-        error: "AI API error"
-      });
+      expect(result.culturalPhrases.map(p => p.phrase)).toEqual(["break a leg"]);
     });
 
-    it('should handle empty text', async () => {
+    it('should parse responses wrapped in a markdown code block', async () => {
+      mockGenerateText.mockResolvedValueOnce({
+        text: "```json\n" + JSON.stringify(analysisResponse) + "\n```",
+      } as any);
+
       const result = await CulturalAnalysisService.analyzeCulturalContext(
-        "",
-        "", // translated text (same for test)
+        "break a leg tonight lol",
+        "break a leg tonight lol",
         "en",
         "test-message-id"
       );
 
-      expect(result.messageId).toBe("test-message-id");
-      expect(result.culturalPhrases).toHaveLength(0);
-      expect(result.slangExpressions).toHaveLength(0);
-    });
-  });
-
-  describe('detectCulturalPhrases', () => {
-    it('should detect cultural phrases correctly', async () => {
-      const mockResponse = JSON.stringify([
-        {
-          phrase: "break a leg",
-          position: [0, 12],
-          explanation: "Theater idiom meaning 'good luck'",
-          culturalContext: "Used before performances to wish success",
-          examples: ["Break a leg in your presentation!"],
-          confidence: 95
-        }
-      ]);
-
-      mockGenerateText.mockResolvedValueOnce({ text: mockResponse, content: mockResponse } as any);
-
-      // Access private method through any type
-      const service = CulturalAnalysisService as any;
-      const result = await service.detectCulturalPhrases("break a leg", "en");
-
-      expect(result).toHaveLength(1);
-      expect(result[0].phrase).toBe("break a leg");
-      expect(result[0].confidence).toBe(95);
-    });
-
-    it('should handle invalid JSON response', async () => {
-      mockGenerateText.mockResolvedValueOnce({ text: "invalid json", content: "invalid json" } as any);
-
-      const service = CulturalAnalysisService as any;
-      const result = await service.detectCulturalPhrases("test", "en");
-
-      expect(result).toHaveLength(0);
+      expect(result.culturalPhrases).toHaveLength(1);
+      expect(result.slangExpressions).toHaveLength(1);
     });
 
-    it('should handle non-array response', async () => {
-      mockGenerateText.mockResolvedValueOnce({ text: '{"not": "array"}', content: '{"not": "array"}' } as any);
-
-      const service = CulturalAnalysisService as any;
-      const result = await service.detectCulturalPhrases("test", "en");
+    it('should put the chat mood, relationship and explanation language in the prompt', async () => {
+      mockGenerateText.mockResolvedValueOnce({ text: JSON.stringify(analysisResponse) } as any);
+
+      await CulturalAnalysisService.analyzeCulturalContext(
+        "qué chévere",
+        "how cool",
+        "es",
+        "test-message-id",
+        "excited",
+        "close friends",
+        "ru"
+      );
 
-      expect(result).toHaveLength(0);
+      const { prompt } = mockGenerateText.mock.calls[0][0] as { prompt: string };
+      expect(prompt).toContain('Conversation mood: "excited"');
+      expect(prompt).toContain('Relationship: "close friends"');
+      expect(prompt).toContain('Provide ALL explanations in Russian');
     });
-  });
 
-  describe('detectSlangExpressions', () => {
-    it('should detect slang expressions correctly', async () => {
-      const mockResponse = JSON.stringify([
-        {
-          slang: "lol",
-          position: [0, 3],
-          standardMeaning: "laugh out loud",
-          usage: "Used to indicate something is funny",
-          confidence: 98
-        }
-      ]);
-
-      mockGenerateText.mockResolvedValueOnce({ text: mockResponse, content: mockResponse } as any);
+    it('should fall back to the translation when the model fails', async () => {
+      mockGenerateText.mockRejectedValueOnce(new Error('AI API error'));
 
-      const service = CulturalAnalysisService as any;
-      const result = await service.detectSlangExpressions("lol", "en");
+      const result = await CulturalAnalysisService.analyzeCulturalContext(
+        "test text",
+        "texto de prueba",
+        "en",
+        "test-message-id"
+      );
 
-      expect(result).toHaveLength(1);
-      expect(result[0].slang).toBe("lol");
-      expect(result[0].confidence).toBe(98);
+      expect(result.messageExplanation).toBe("texto de prueba");
+      expect(result.culturalPhrases).toHaveLength(0);
+      expect(result.slangExpressions).toHaveLength(0);
+      expect(logger.error).toHaveBeenCalledWith('Simple word mapping analysis error:', expect.any(Error));
     });
 
-    it('should handle errors in slang detection', async () => {
-      mockGenerateText.mockRejectedValueOnce(new Error('Slang detection error'));
+    it('should fall back to the translation on invalid JSON', async () => {
+      mockGenerateText.mockResolvedValueOnce({ text: "invalid json" } as any);
 
-      const service = CulturalAnalysisService as any;
-      const result = await service.detectSlangExpressions("test", "en");
+      const result = await CulturalAnalysisService.analyzeCulturalContext(
+        "test text",
+        "texto de prueba",
+        "en",
+        "test-message-id"
+      );
 
-      expect(result).toHaveLength(0);
-      expect(logger.error).toHaveBeenCalledWith('Slang detection error:', expect.any(Error));
+      expect(result.messageExplanation).toBe("texto de prueba");
+      expect(result.culturalPhrases).toHaveLength(0);
     });
-  });
 
-  describe('enhanceWithWebSearch', () => {
-    it('should enhance high-confidence phrases', async () => {
-      const phrases: CulturalPhrase[] = [
-        {
-          phrase: "break a leg",
-          position: [0, 12],
-          explanation: "Basic explanation",
-          culturalContext: "Basic context",
-          examples: ["Example"],
-          confidence: 95
-        }
-      ];
+    it('should ignore phrase lists that are not arrays', async () => {
+      mockGenerateText.mockResolvedValueOnce({
+        text: JSON.stringify({ messageExplanation: "Hi", culturalPhrases: { not: "array" } }),
+      } as any);
 
-      const mockResponse = JSON.stringify({
-        explanation: "Enhanced explanation",
-        culturalContext: "Enhanced context",
-        examples: ["Enhanced example 1", "Enhanced example 2"]
-      });
+      const result = await CulturalAnalysisService.analyzeCulturalContext("hello", "hola", "en", "test-message-id");
 
-      mockGenerateText.mockResolvedValueOnce({ text: mockResponse, content: mockResponse } as any);
-
-      const service = CulturalAnalysisService as any;
-      const result = await service.enhanceWithWebSearch(phrases, "en");
-
-      expect(result).toHaveLength(1);
-      expect(result[0].explanation).toBe("Enhanced explanation");
-      expect(result[0].culturalContext).toBe("Enhanced context");
-      expect(result[0].examples).toHaveLength(2);
+      expect(result.culturalPhrases).toHaveLength(0);
+      expect(result.slangExpressions).toHaveLength(0);
     });
 
-    it('should skip low-confidence phrases', async () => {
-      const phrases: CulturalPhrase[] = [
-        {
-          phrase: "low confidence",
-          position: [0, 13],
-          explanation: "Basic explanation",
-          culturalContext: "Basic context",
-          examples: ["Example"],
-          confidence: 50
-        }
-      ];
+    it('should skip extremely short messages without calling the model', async () => {
+      const result = await CulturalAnalysisService.analyzeCulturalContext("ok", "ok", "en", "test-message-id");
 
-      const service = CulturalAnalysisService as any;
-      const result = await service.enhanceWithWebSearch(phrases, "en");
-
-      expect(result).toHaveLength(1);
-      expect(result[0].explanation).toBe("Basic explanation");
       expect(mockGenerateText).not.toHaveBeenCalled();
-    });
-
-    it('should handle web search errors gracefully', async () => {
-      const phrases: CulturalPhrase[] = [
-        {
-          phrase: "break a leg",
-          position: [0, 12],
-          explanation: "Basic explanation",
-          culturalContext: "Basic context",
-          examples: ["Example"],
-          confidence: 95
-        }
-      ];
-
-      mockGenerateText.mockRejectedValueOnce(new Error('Web search error'));
-
-      const service = CulturalAnalysisService as any;
-      const result = await service.enhanceWithWebSearch(phrases, "en");
-
-      expect(result).toHaveLength(1);
-      expect(result[0].explanation).toBe("Basic explanation");
-    });
-  });
-
-  describe('searchCulturalContext', () => {
-    it('should search cultural context successfully', async () => {
-      const mockResponse = JSON.stringify({
-        explanation: "Detailed explanation",
-        culturalContext: "Cultural background",
-        examples: ["Example 1", "Example 2"]
-      });
-
-      mockGenerateText.mockResolvedValueOnce({ text: mockResponse, content: mockResponse } as any);
-
-      const service = CulturalAnalysisService as any;
-      const result = await service.searchCulturalContext("break a leg", "en");
-
-      expect(result).toEqual({
-        explanation: "Detailed explanation",
-        culturalContext: "Cultural background",
-        examples: ["Example 1", "Example 2"]
-      });
-    });
-
-    it('should handle search errors', async () => {
-      mockGenerateText.mockRejectedValueOnce(new Error('Search error'));
-
-      const service = CulturalAnalysisService as any;
-      const result = await service.searchCulturalContext("test", "en");
-
-      expect(result).toBeNull();
-      expect(logger.error).toHaveBeenCalledWith('Cultural context search error:', expect.any(Error));
+      expect(result.messageExplanation).toBe("ok");
+      expect(result.culturalPhrases).toHaveLength(0);
+      expect(result.slangExpressions).toHaveLength(0);
     });
   });
 });
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for DocumentTextService
+ */
+
+import { PDFParse } from 'pdf-parse';
+import { DocumentTextService } from './DocumentTextService';
+
+// Mock the PDF parser
+jest.mock('pdf-parse', () => ({
+  PDFParse: jest.fn(),
+}));
+
+// Mock Firebase logger
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const MockPDFParse = PDFParse as unknown as jest.Mock;
+
+describe('DocumentTextService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getDocumentKind', () => {
+    it('should detect PDFs by MIME type or extension', () => {
+      expect(DocumentTextService.getDocumentKind('application/pdf', 'report')).toBe('pdf');
+      expect(DocumentTextService.getDocumentKind('application/octet-stream', 'Report.PDF')).toBe('pdf');
+    });
+
+    it('should detect plain-text formats', () => {
+      expect(DocumentTextService.getDocumentKind('text/plain', 'notes.txt')).toBe('text');
+      expect(DocumentTextService.getDocumentKind('application/json', 'data.json')).toBe('text');
+      expect(DocumentTextService.getDocumentKind('application/octet-stream', 'README.md')).toBe('text');
+    });
+
+    it('should return null for unsupported files', () => {
+      expect(DocumentTextService.getDocumentKind('application/zip', 'archive.zip')).toBeNull();
+      expect(DocumentTextService.getDocumentKind('image/png', 'photo.png')).toBeNull();
+    });
+  });
+
+  describe('extractText', () => {
+    it('should decode and normalize plain text', async () => {
+      const data = Buffer.from('Line one\r\n\r\n\r\n\r\nLine   two\t\ttabbed  ');
+
+      const text = await DocumentTextService.extractText(data, 'text');
+
+      expect(text).toBe('Line one\n\nLine two tabbed');
+    });
+
+    it('should extract PDF text and release the parser', async () => {
+      const getText = jest.fn().mockResolvedValue({ text: 'Quarterly results\n\nRevenue grew 12%' });
+      const destroy = jest.fn().mockResolvedValue(undefined);
+      MockPDFParse.mockImplementation(() => ({ getText, destroy }));
+
+      const text = await DocumentTextService.extractText(Buffer.from('%PDF-1.7'), 'pdf');
+
+      expect(text).toBe('Quarterly results\n\nRevenue grew 12%');
+      expect(destroy).toHaveBeenCalled();
+    });
+
+    it('should release the parser when extraction fails', async () => {
+      const destroy = jest.fn().mockResolvedValue(undefined);
+      MockPDFParse.mockImplementation(() => ({
+        getText: jest.fn().mockRejectedValue(new Error('Invalid PDF structure')),
+        destroy,
+      }));
+
+      await expect(DocumentTextService.extractText(Buffer.from('not a pdf'), 'pdf'))
+        .rejects.toThrow('Invalid PDF structure');
+      expect(destroy).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Document Text Service
+ * Extracts searchable text from file attachments
+ *
+ * Supported:
+ * - PDF (pdf-parse)
+ * - Plain-text formats (text/*, JSON, CSV, Markdown)
+ */
+
+import * as logger from 'firebase-functions/logger';
+import { PDFParse } from 'pdf-parse';
+
+const MAX_EXTRACTED_CHARS = 200_000; // Cap very large documents before chunking
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'log'];
+
+export type DocumentKind = 'pdf' | 'text';
+
+export class DocumentTextService {
+  /**
+   * Decide whether text can be extracted from a file
+   * Returns null for unsupported formats (images, archives, office documents)
+   */
+  static getDocumentKind(mimeType: string, fileName: string): DocumentKind | null {
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+
+    if (mimeType === 'application/pdf' || extension === 'pdf') {
+      return 'pdf';
+    }
+
+    if (
+      mimeType.startsWith('text/') ||
+      mimeType === 'application/json' ||
+      TEXT_EXTENSIONS.includes(extension)
+    ) {
+      return 'text';
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract text from a document buffer
+   * Whitespace is normalized and the result capped at MAX_EXTRACTED_CHARS
+   */
+  static async extractText(data: Buffer, kind: DocumentKind): Promise<string> {
+    let text: string;
+
+    if (kind === 'pdf') {
+      const parser = new PDFParse({ data });
+      try {
+        const result = await parser.getText();
+        text = result.text;
+      } finally {
+        await parser.destroy();
+      }
+    } else {
+      text = data.toString('utf8');
+    }
+
+    const normalized = text
+      .replace(/\r\n/g, '\n')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    if (normalized.length > MAX_EXTRACTED_CHARS) {
+      logger.warn('Document text truncated', {
+        kind,
+        originalLength: normalized.length,
+        maxLength: MAX_EXTRACTED_CHARS,
+      });
+      return normalized.substring(0, MAX_EXTRACTED_CHARS);
+    }
+
+    return normalized;
+  }
+}
@@ -1,22 +1,12 @@
 /**
  * Embedding Service
- * Handles vector embeddings for semantic search using OpenAI
+ * Handles vector embeddings for semantic search, using the active LLM
+ * provider's embedding model (see LLMService)
  */
 
+import { embed, embedMany } from 'ai';
 import * as logger from 'firebase-functions/logger';
-import { OpenAI } from 'openai';
-
-// Lazy initialization to avoid issues during deployment
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+import { embeddingModel } from '../config/ai-sdk.config';
 
 export interface EmbeddingResult {
   embedding: number[];
@@ -36,8 +26,8 @@ export interface SearchResult {
 
 export class EmbeddingService {
   /**
-   * Generate embedding for text using OpenAI
-   * Uses text-embedding-3-small (1536 dimensions, cheap)
+   * Generate embedding for text
+   * OpenAI text-embedding-3-small by default (1536 dimensions, cheap)
    */
   static async generateEmbedding(text: string): Promise<EmbeddingResult> {
     try {
@@ -51,26 +41,22 @@ export class EmbeddingService {
         preview: text.substring(0, 50) 
       });
 
-      const openai = getOpenAIClient();
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float',
+      const { embedding, usage } = await embed({
+        model: embeddingModel,
+        value: text,
       });
 
-      const embedding = response.data[0].embedding;
-
       logger.info('Embedding generated successfully', {
         dimensions: embedding.length,
-        usage: response.usage,
+        usage,
       });
 
       return {
         embedding,
-        model: response.model,
+        model: embeddingModel.modelId,
         usage: {
-          prompt_tokens: response.usage.prompt_tokens,
-          total_tokens: response.usage.total_tokens,
+          prompt_tokens: usage.tokens,
+          total_tokens: usage.tokens,
         },
       };
     } catch (error: any) {
@@ -194,18 +180,14 @@ export class EmbeddingService {
         count: validTexts.length 
       });
 
-      const openai = getOpenAIClient();
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: validTexts,
-        encoding_format: 'float',
+      const { embeddings, usage } = await embedMany({
+        model: embeddingModel,
+        values: validTexts,
       });
 
-      const embeddings = response.data.map(d => d.embedding);
-
       logger.info('Batch embeddings generated', {
         count: embeddings.length,
-        usage: response.usage,
+        usage,
       });
 
       return embeddings;
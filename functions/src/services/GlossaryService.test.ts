@@ -0,0 +1,87 @@
+/**
+ * Unit tests for GlossaryService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore } from '../test-utils/fakeFirestore';
+import { buildGlossaryPrompt, findGlossaryMatches, GlossaryEntry, GlossaryService } from './GlossaryService';
+
+const entry = (
+  term: string,
+  translation: string | null,
+  overrides: Partial<GlossaryEntry> = {}
+): GlossaryEntry => ({
+  id: term,
+  scope: 'chat',
+  term,
+  translation,
+  targetLanguage: null,
+  ...overrides,
+});
+
+describe('GlossaryService', () => {
+  describe('findGlossaryMatches', () => {
+    it('should match whole words regardless of case', () => {
+      const entries = [entry('Acme Cloud', null), entry('cat', 'gato'), entry('C++', null)];
+
+      expect(findGlossaryMatches('Deploying acme cloud with C++ and a catalog', entries, 'es')).toEqual([
+        { term: 'Acme Cloud', translation: null },
+        { term: 'C++', translation: null },
+      ]);
+    });
+
+    it('should only use entries for the target language or for every language', () => {
+      const entries = [
+        entry('standup', 'daily', { targetLanguage: 'es' }),
+        entry('standup', 'Stand-up', { id: 'fr', targetLanguage: 'fr' }),
+      ];
+
+      expect(findGlossaryMatches('See you at standup', entries, 'es')).toEqual([
+        { term: 'standup', translation: 'daily' },
+      ]);
+      expect(findGlossaryMatches('See you at standup', entries, 'de')).toEqual([]);
+    });
+
+    it('should prefer user entries, then language-specific ones', () => {
+      const entries = [
+        entry('Bob', 'Roberto'),
+        entry('bob', 'Bobby', { id: 'user', scope: 'user' }),
+        entry('Bob', null, { id: 'es', targetLanguage: 'es' }),
+      ];
+
+      expect(findGlossaryMatches('Ask Bob', entries, 'es')).toEqual([{ term: 'bob', translation: 'Bobby' }]);
+      expect(findGlossaryMatches('Ask Bob', entries.slice(0, 1).concat(entries[2]), 'es')).toEqual([
+        { term: 'Bob', translation: null },
+      ]);
+    });
+  });
+
+  it('should describe matches in the prompt', () => {
+    const prompt = buildGlossaryPrompt([
+      { term: 'Acme', translation: null },
+      { term: 'deadline', translation: 'fecha límite' },
+    ]);
+
+    expect(prompt).toContain('- "Acme" → keep exactly as "Acme" (do not translate)');
+    expect(prompt).toContain('- "deadline" → "fecha límite"');
+    expect(buildGlossaryPrompt([])).toBe('');
+  });
+
+  it('should load chat and user entries', async () => {
+    const db = createFakeFirestore({
+      'chats/chat1/glossary/a': { term: 'Acme', translation: null, targetLanguage: null },
+      'chats/chat2/glossary/b': { term: 'Other chat', translation: 'x', targetLanguage: null },
+      'users/alice/glossary/c': { term: 'Bob', translation: 'Roberto', targetLanguage: 'es' },
+      'users/alice/glossary/d': { term: '  ', translation: 'ignored', targetLanguage: null },
+    });
+    const service = new GlossaryService(db as unknown as admin.firestore.Firestore);
+
+    await expect(service.getEntries('chat1', 'alice')).resolves.toEqual([
+      { id: 'a', scope: 'chat', term: 'Acme', translation: null, targetLanguage: null },
+      { id: 'c', scope: 'user', term: 'Bob', translation: 'Roberto', targetLanguage: 'es' },
+    ]);
+    await expect(service.getMatches('chat1', null, 'Acme and Bob', 'es')).resolves.toEqual([
+      { term: 'Acme', translation: null },
+    ]);
+  });
+});
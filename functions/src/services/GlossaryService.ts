@@ -0,0 +1,132 @@
+/**
+ * Glossary Service
+ * Terms that must always be translated the same way (or not at all)
+ *
+ * Entries live in two places, both managed from the app:
+ * - chats/{chatId}/glossary - shared by everyone in the chat
+ * - users/{userId}/glossary - the user's own, across all chats
+ *
+ * A user's entry wins over a chat entry for the same term. Only entries whose
+ * term appears in the text (whole words, ignoring case) are sent to the model.
+ */
+
+import * as admin from 'firebase-admin';
+
+export type GlossaryScope = 'chat' | 'user';
+
+export interface GlossaryEntry {
+  id: string;
+  scope: GlossaryScope;
+  term: string;
+  translation: string | null;     // null = keep the term as is
+  targetLanguage: string | null;  // null = every language
+}
+
+/**
+ * An entry that applies to a particular text and target language
+ */
+export interface GlossaryMatch {
+  term: string;
+  translation: string | null;
+}
+
+const MAX_ENTRIES_PER_SCOPE = 200;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whole-word, case-insensitive match (works for terms with punctuation, e.g. "C++")
+ */
+const containsTerm = (text: string, term: string): boolean =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+/**
+ * Entries that apply to `text` when translating to `targetLanguage`, sorted
+ * by term (user entries override chat entries for the same term)
+ */
+export function findGlossaryMatches(
+  text: string,
+  entries: GlossaryEntry[],
+  targetLanguage: string
+): GlossaryMatch[] {
+  const matches = new Map<string, GlossaryEntry>();
+
+  for (const entry of entries) {
+    const term = entry.term.trim();
+    if (!term || (entry.targetLanguage && entry.targetLanguage !== targetLanguage) || !containsTerm(text, term)) {
+      continue;
+    }
+
+    const key = term.toLowerCase();
+    const existing = matches.get(key);
+    // User entries beat chat entries; language-specific entries beat catch-all ones
+    const rank = (candidate: GlossaryEntry) =>
+      (candidate.scope === 'user' ? 2 : 0) + (candidate.targetLanguage ? 1 : 0);
+    if (!existing || rank(entry) > rank(existing)) {
+      matches.set(key, entry);
+    }
+  }
+
+  return Array.from(matches.values())
+    .map((entry) => ({ term: entry.term.trim(), translation: entry.translation?.trim() || null }))
+    .sort((a, b) => a.term.localeCompare(b.term));
+}
+
+/**
+ * Glossary instructions for a translation prompt ('' when nothing applies)
+ */
+export function buildGlossaryPrompt(matches: GlossaryMatch[]): string {
+  if (matches.length === 0) {
+    return '';
+  }
+
+  const lines = matches.map((match) => (match.translation
+    ? `- "${match.term}" → "${match.translation}"`
+    : `- "${match.term}" → keep exactly as "${match.term}" (do not translate)`));
+
+  return `GLOSSARY (always use these translations, even if another one seems more natural):\n${lines.join('\n')}\n\n`;
+}
+
+export class GlossaryService {
+  constructor(private readonly db: admin.firestore.Firestore = admin.firestore()) {}
+
+  /**
+   * Chat and user entries (user entries last)
+   */
+  async getEntries(chatId: string | null, userId: string | null): Promise<GlossaryEntry[]> {
+    const load = async (ref: admin.firestore.CollectionReference, scope: GlossaryScope): Promise<GlossaryEntry[]> => {
+      const snapshot = await ref.limit(MAX_ENTRIES_PER_SCOPE).get();
+      return snapshot.docs
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            scope,
+            term: typeof data.term === 'string' ? data.term : '',
+            translation: typeof data.translation === 'string' ? data.translation : null,
+            targetLanguage: typeof data.targetLanguage === 'string' ? data.targetLanguage : null,
+          };
+        })
+        .filter((entry) => entry.term.trim().length > 0);
+    };
+
+    const [chatEntries, userEntries] = await Promise.all([
+      chatId ? load(this.db.collection('chats').doc(chatId).collection('glossary'), 'chat') : [],
+      userId ? load(this.db.collection('users').doc(userId).collection('glossary'), 'user') : [],
+    ]);
+
+    return [...chatEntries, ...userEntries];
+  }
+
+  /**
+   * Entries that apply to a text
+   */
+  async getMatches(
+    chatId: string | null,
+    userId: string | null,
+    text: string,
+    targetLanguage: string
+  ): Promise<GlossaryMatch[]> {
+    return findGlossaryMatches(text, await this.getEntries(chatId, userId), targetLanguage);
+  }
+}
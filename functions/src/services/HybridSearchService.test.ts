@@ -0,0 +1,210 @@
+/**
+ * Unit tests for HybridSearchService
+ * Fixtures use tiny hand-made embeddings, so no OpenAI calls are made
+ */
+
+import { HybridSearchService, SearchCandidate } from './HybridSearchService';
+
+// Mock Firebase logger
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+// Mock OpenAI so an accidental text query fails loudly instead of calling the API
+jest.mock('openai', () => ({
+  OpenAI: jest.fn(() => {
+    throw new Error('OpenAI should not be called in these tests');
+  }),
+}));
+
+// 3-d "embeddings": [travel, food, work]
+const candidates: SearchCandidate[] = [
+  {
+    id: 'chat-a/m1',
+    chatId: 'chat-a',
+    messageId: 'm1',
+    text: 'Your booking code is QX7-4411, flight leaves at 9',
+    senderId: 'alice',
+    timestamp: 1000,
+    embedding: [0.9, 0.1, 0.2],
+  },
+  {
+    id: 'chat-a/m2',
+    chatId: 'chat-a',
+    messageId: 'm2',
+    text: 'Can\'t wait for the trip to Lisbon!',
+    senderId: 'bob',
+    timestamp: 2000,
+    embedding: [1, 0, 0],
+  },
+  {
+    id: 'chat-b/m3',
+    chatId: 'chat-b',
+    messageId: 'm3',
+    text: 'Dinner at the new ramen place?',
+    senderId: 'alice',
+    timestamp: 3000,
+    hasImage: true,
+    embedding: [0, 1, 0],
+  },
+  {
+    id: 'chat-b/m4',
+    chatId: 'chat-b',
+    messageId: 'm4',
+    text: 'Invoice INV-2043 is overdue, please check with finance',
+    senderId: 'carol',
+    timestamp: 4000,
+    embedding: [0, 0.1, 1],
+  },
+  {
+    id: 'chat-b/doc-1',
+    chatId: 'chat-b',
+    messageId: 'm5',
+    text: '📎 itinerary.pdf: Day 1 Lisbon, day 2 Porto',
+    senderId: 'bob',
+    timestamp: 5000,
+    embedding: [0.95, 0, 0.1],
+  },
+  {
+    id: 'chat-b/doc-2',
+    chatId: 'chat-b',
+    messageId: 'm5',
+    text: '📎 itinerary.pdf: Day 3 Sintra, flights home',
+    senderId: 'bob',
+    timestamp: 5000,
+    embedding: [0.3, 0.2, 0.8],
+  },
+];
+
+const TRAVEL_QUERY = [1, 0, 0];
+
+describe('HybridSearchService', () => {
+  describe('tokenize', () => {
+    it('should lowercase, strip accents and split codes on punctuation', () => {
+      expect(HybridSearchService.tokenize('Café INV-2043, ¿Qué?')).toEqual(['cafe', 'inv', '2043', 'que']);
+    });
+
+    it('should keep non-Latin scripts', () => {
+      expect(HybridSearchService.tokenize('東京 встреча')).toEqual(['東京', 'встреча']);
+    });
+  });
+
+  describe('keywordScores', () => {
+    it('should only score candidates containing a query term', () => {
+      const scores = HybridSearchService.keywordScores('INV-2043', candidates);
+
+      expect(Array.from(scores.keys())).toEqual(['chat-b/m4']);
+    });
+
+    it('should score rarer terms higher', () => {
+      const scores = HybridSearchService.keywordScores('lisbon porto', candidates);
+
+      expect(scores.get('chat-b/doc-1')!).toBeGreaterThan(scores.get('chat-a/m2')!);
+    });
+
+    it('should return nothing for a query with no terms', () => {
+      expect(HybridSearchService.keywordScores('?!', candidates).size).toBe(0);
+    });
+  });
+
+  describe('fuseRankings', () => {
+    it('should reward items ranked well in both lists', () => {
+      const fused = HybridSearchService.fuseRankings([['a', 'b', 'c'], ['b', 'c', 'a']], 60);
+
+      expect(fused.get('b')).toBeCloseTo(1 / 62 + 1 / 61);
+      expect(fused.get('b')!).toBeGreaterThan(fused.get('a')!);
+      expect(fused.get('b')!).toBeGreaterThan(fused.get('c')!);
+    });
+  });
+
+  describe('applyFilters', () => {
+    it('should filter by chat, sender, date range and images', () => {
+      const ids = (filters: Parameters<typeof HybridSearchService.applyFilters>[1]) =>
+        HybridSearchService.applyFilters(candidates, filters).map(c => c.id);
+
+      expect(ids({ chatIds: ['chat-a'] })).toEqual(['chat-a/m1', 'chat-a/m2']);
+      expect(ids({ senderId: 'alice' })).toEqual(['chat-a/m1', 'chat-b/m3']);
+      expect(ids({ startDate: 2000, endDate: 3000 })).toEqual(['chat-a/m2', 'chat-b/m3']);
+      expect(ids({ hasImage: true })).toEqual(['chat-b/m3']);
+    });
+  });
+
+  describe('rank', () => {
+    it('should find exact codes that embeddings miss', async () => {
+      const hits = await HybridSearchService.rank('QX7-4411', TRAVEL_QUERY, candidates, { minSemanticScore: 0.99 });
+
+      expect(hits[0].candidate.id).toBe('chat-a/m1');
+      expect(hits[0].keywordScore).toBeGreaterThan(0);
+    });
+
+    it('should find paraphrases with no words in common', async () => {
+      const hits = await HybridSearchService.rank('holiday plans', TRAVEL_QUERY, candidates, { minSemanticScore: 0.5 });
+
+      expect(hits.map(hit => hit.candidate.id)).toEqual(['chat-a/m2', 'chat-b/doc-1', 'chat-a/m1']);
+      expect(hits.every(hit => hit.keywordScore === 0)).toBe(true);
+    });
+
+    it('should rank hits matching both signals first', async () => {
+      const hits = await HybridSearchService.rank('lisbon', TRAVEL_QUERY, candidates, { minSemanticScore: 0.5 });
+
+      expect(hits[0].candidate.id).toBe('chat-a/m2');
+      expect(hits[0].keywordScore).toBeGreaterThan(0);
+      expect(hits[0].semanticScore).toBeCloseTo(1);
+    });
+
+    it('should keep only the best passage per message', async () => {
+      const hits = await HybridSearchService.rank('itinerary', TRAVEL_QUERY, candidates);
+      const documentHits = hits.filter(hit => hit.candidate.messageId === 'm5');
+
+      expect(documentHits).toHaveLength(1);
+      expect(documentHits[0].candidate.id).toBe('chat-b/doc-1');
+    });
+
+    it('should rank on keywords alone without a query embedding', async () => {
+      const hits = await HybridSearchService.rank('ramen', null, candidates);
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0].candidate.id).toBe('chat-b/m3');
+      expect(hits[0].semanticScore).toBeNull();
+    });
+
+    it('should apply filters before scoring', async () => {
+      const hits = await HybridSearchService.rank('lisbon', TRAVEL_QUERY, candidates, {
+        filters: { chatIds: ['chat-b'] },
+        minSemanticScore: 0.5,
+      });
+
+      expect(hits.every(hit => hit.candidate.chatId === 'chat-b')).toBe(true);
+    });
+  });
+
+  describe('paginate', () => {
+    it('should page through every hit exactly once', async () => {
+      const hits = await HybridSearchService.rank('trip', TRAVEL_QUERY, candidates);
+
+      const first = HybridSearchService.paginate(hits, 2);
+      const second = HybridSearchService.paginate(hits, 2, first.nextCursor);
+      const third = HybridSearchService.paginate(hits, 2, second.nextCursor);
+
+      const pagedIds = [...first.hits, ...second.hits, ...third.hits].map(hit => hit.candidate.id);
+      expect(pagedIds).toEqual(hits.map(hit => hit.candidate.id));
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('should not repeat hits when new results rank above the cursor', async () => {
+      const hits = await HybridSearchService.rank('trip', TRAVEL_QUERY, candidates);
+      const first = HybridSearchService.paginate(hits, 2);
+
+      const newHit = { ...hits[0], score: hits[0].score + 1, candidate: { ...hits[0].candidate, id: 'chat-a/new' } };
+      const second = HybridSearchService.paginate([newHit, ...hits], 2, first.nextCursor);
+
+      expect(second.hits[0].candidate.id).toBe(hits[2].candidate.id);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => HybridSearchService.paginate([], 10, 'not-a-cursor')).toThrow('Invalid search cursor');
+    });
+  });
+});
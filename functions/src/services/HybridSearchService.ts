@@ -0,0 +1,289 @@
+/**
+ * Hybrid Search Service
+ * Ranks messages and conversation passages by combining a BM25 keyword score
+ * with embedding similarity, merged with reciprocal-rank fusion (RRF)
+ *
+ * Keyword scoring catches exact names, numbers and codes that embeddings miss;
+ * embeddings catch paraphrases with no words in common.
+ * Everything here works on already-loaded candidates (no Firestore access),
+ * and only needs OpenAI if a text query is passed to findSimilar.
+ */
+
+import { EmbeddingService } from './EmbeddingService';
+
+export interface SearchCandidate {
+  id: string;                 // Unique across all candidates (e.g. chatId/docId)
+  chatId: string;
+  messageId?: string;         // Message the hit opens; passages of one message are merged
+  text: string;
+  senderId?: string;
+  timestamp: number;
+  hasImage?: boolean;
+  embedding?: number[];
+}
+
+export interface SearchFilters {
+  chatIds?: string[];
+  senderId?: string;
+  startDate?: number;         // Inclusive, ms since epoch
+  endDate?: number;           // Inclusive, ms since epoch
+  hasImage?: boolean;
+}
+
+export interface HybridSearchOptions {
+  filters?: SearchFilters;
+  minSemanticScore?: number;  // Semantic-only hits below this cosine similarity are dropped
+  rrfK?: number;
+}
+
+export interface HybridSearchHit {
+  candidate: SearchCandidate;
+  score: number;              // Fused RRF score
+  keywordScore: number;       // BM25 (0 if no query terms matched)
+  semanticScore: number | null; // Cosine similarity (null if no embedding)
+}
+
+export interface SearchPage {
+  hits: HybridSearchHit[];
+  nextCursor: string | null;
+}
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// RRF damping constant from the original paper
+const DEFAULT_RRF_K = 60;
+
+export class HybridSearchService {
+  /**
+   * Split text into lowercase search terms
+   * Accents are removed so "cafe" matches "café"; codes like "INV-2043" become ["inv", "2043"]
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(term => term.length > 0);
+  }
+
+  /**
+   * Keep candidates matching every given filter
+   */
+  static applyFilters(candidates: SearchCandidate[], filters: SearchFilters = {}): SearchCandidate[] {
+    const chatIds = filters.chatIds && filters.chatIds.length > 0 ? new Set(filters.chatIds) : null;
+
+    return candidates.filter(candidate => {
+      if (chatIds && !chatIds.has(candidate.chatId)) return false;
+      if (filters.senderId && candidate.senderId !== filters.senderId) return false;
+      if (filters.startDate !== undefined && candidate.timestamp < filters.startDate) return false;
+      if (filters.endDate !== undefined && candidate.timestamp > filters.endDate) return false;
+      if (filters.hasImage !== undefined && Boolean(candidate.hasImage) !== filters.hasImage) return false;
+      return true;
+    });
+  }
+
+  /**
+   * BM25 keyword score for each candidate (only candidates with a matching term are returned)
+   * Document frequencies are computed over the given candidates
+   */
+  static keywordScores(query: string, candidates: SearchCandidate[]): Map<string, number> {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    const scores = new Map<string, number>();
+
+    if (queryTerms.length === 0 || candidates.length === 0) {
+      return scores;
+    }
+
+    const documents = candidates.map(candidate => {
+      const termCounts = new Map<string, number>();
+      const terms = this.tokenize(candidate.text);
+      for (const term of terms) {
+        termCounts.set(term, (termCounts.get(term) || 0) + 1);
+      }
+      return { id: candidate.id, termCounts, length: terms.length };
+    });
+
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    for (const term of queryTerms) {
+      documentFrequency.set(term, documents.filter(doc => doc.termCounts.has(term)).length);
+    }
+
+    for (const doc of documents) {
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = doc.termCounts.get(term);
+        if (!frequency) continue;
+
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / averageLength)));
+      }
+
+      if (score > 0) {
+        scores.set(doc.id, score);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Cosine similarity for each candidate with an embedding, via EmbeddingService.findSimilar
+   */
+  static async semanticScores(
+    queryEmbedding: number[] | null,
+    candidates: SearchCandidate[]
+  ): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    const withEmbeddings = candidates.filter(candidate => candidate.embedding && candidate.embedding.length > 0);
+
+    if (!queryEmbedding || withEmbeddings.length === 0) {
+      return scores;
+    }
+
+    // messageId carries our candidate id through findSimilar
+    const matches = await EmbeddingService.findSimilar(
+      queryEmbedding,
+      withEmbeddings.map(candidate => ({
+        text: candidate.text,
+        embedding: candidate.embedding,
+        messageId: candidate.id,
+        timestamp: candidate.timestamp,
+      })),
+      withEmbeddings.length
+    );
+
+    for (const match of matches) {
+      if (match.messageId) {
+        scores.set(match.messageId, match.score);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Reciprocal-rank fusion: each ranking contributes 1 / (k + rank) for every id it contains
+   */
+  static fuseRankings(rankings: string[][], k: number = DEFAULT_RRF_K): Map<string, number> {
+    const fused = new Map<string, number>();
+
+    for (const ranking of rankings) {
+      ranking.forEach((id, index) => {
+        fused.set(id, (fused.get(id) || 0) + 1 / (k + index + 1));
+      });
+    }
+
+    return fused;
+  }
+
+  /**
+   * Rank candidates for a query (best first)
+   * Pass queryEmbedding = null to rank on keywords alone (e.g. embeddings unavailable)
+   */
+  static async rank(
+    query: string,
+    queryEmbedding: number[] | null,
+    candidates: SearchCandidate[],
+    options: HybridSearchOptions = {}
+  ): Promise<HybridSearchHit[]> {
+    const filtered = this.applyFilters(candidates, options.filters);
+    const minSemanticScore = options.minSemanticScore ?? 0;
+
+    const keyword = this.keywordScores(query, filtered);
+    const semantic = await this.semanticScores(queryEmbedding, filtered);
+
+    const keywordRanking = Array.from(keyword.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+    const semanticRanking = Array.from(semantic.entries())
+      .filter(([id, score]) => score >= minSemanticScore || keyword.has(id))
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+
+    const fused = this.fuseRankings([keywordRanking, semanticRanking], options.rrfK);
+    const candidatesById = new Map(filtered.map(candidate => [candidate.id, candidate]));
+
+    const hits: HybridSearchHit[] = Array.from(fused.entries())
+      .map(([id, score]) => ({
+        candidate: candidatesById.get(id)!,
+        score,
+        keywordScore: keyword.get(id) || 0,
+        semanticScore: semantic.has(id) ? semantic.get(id)! : null,
+      }))
+      .sort(compareHits);
+
+    // Several passages can point at one message (e.g. pages of a document) - keep the best
+    const seen = new Set<string>();
+    return hits.filter(hit => {
+      const key = hit.candidate.messageId ?
+        `${hit.candidate.chatId}/${hit.candidate.messageId}` :
+        hit.candidate.id;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Return one page of ranked hits
+   * The cursor records the last hit returned, so a page never repeats earlier hits
+   * even if newer messages were indexed in between
+   */
+  static paginate(hits: HybridSearchHit[], limit: number, cursor?: string | null): SearchPage {
+    let start = 0;
+
+    if (cursor) {
+      const after = this.decodeCursor(cursor);
+      start = hits.findIndex(hit => compareHits(hit, { score: after.score, candidate: { id: after.id } }) > 0);
+      if (start === -1) {
+        start = hits.length;
+      }
+    }
+
+    const page = hits.slice(start, start + limit);
+    const last = page[page.length - 1];
+    const hasMore = start + limit < hits.length;
+
+    return {
+      hits: page,
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+    };
+  }
+
+  private static encodeCursor(hit: HybridSearchHit): string {
+    return Buffer.from(JSON.stringify({ score: hit.score, id: hit.candidate.id })).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): { score: number; id: string } {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof parsed.score !== 'number' || typeof parsed.id !== 'string') {
+        throw new Error('Malformed cursor');
+      }
+      return parsed;
+    } catch {
+      throw new Error('Invalid search cursor');
+    }
+  }
+}
+
+/**
+ * Best score first; ties broken by id so the order (and cursors) are stable
+ */
+function compareHits(
+  a: { score: number; candidate: { id: string } },
+  b: { score: number; candidate: { id: string } }
+): number {
+  if (a.score !== b.score) {
+    return b.score - a.score;
+  }
+  return a.candidate.id < b.candidate.id ? -1 : a.candidate.id > b.candidate.id ? 1 : 0;
+}
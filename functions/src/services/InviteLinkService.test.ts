@@ -0,0 +1,180 @@
+/**
+ * Unit tests for InviteLinkService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { getInviteLinkStatus, InviteLink, InviteLinkError, InviteLinkService } from './InviteLinkService';
+
+const link = (overrides: Partial<InviteLink> = {}): InviteLink => ({
+  groupId: 'group-1',
+  name: 'Newsletter',
+  createdBy: 'alice',
+  createdAt: 1000,
+  expiresAt: null,
+  maxUses: null,
+  useCount: 0,
+  requiresApproval: false,
+  revoked: false,
+  revokedAt: null,
+  ...overrides,
+});
+
+const baseData = (): Record<string, Record<string, any>> => ({
+  'users/alice': { displayName: 'Alice' },
+  'users/bob': { displayName: 'Bob' },
+  'users/carol': { displayName: 'Carol' },
+  'chats/group-1': {
+    type: 'group',
+    groupName: 'Hikers',
+    groupIcon: 'https://icon',
+    participants: ['alice', 'bob'],
+    groupAdminIds: ['alice'],
+    groupModeratorIds: ['bob'],
+    inviteCode: 'LEGACY',
+  },
+  'inviteLinks/OPENLINK01': link(),
+});
+
+const systemMessages = (db: FakeFirestore) =>
+  Array.from(db.docs.entries())
+    .filter(([path, data]) => path.startsWith('chats/group-1/messages/') && data.type === 'system')
+    .map(([, data]) => data.text);
+
+describe('InviteLinkService', () => {
+  const now = 50_000;
+  let db: FakeFirestore;
+  let service: InviteLinkService;
+
+  beforeEach(() => {
+    db = createFakeFirestore(baseData());
+    service = new InviteLinkService(db as unknown as admin.firestore.Firestore);
+  });
+
+  describe('getInviteLinkStatus', () => {
+    it('should report revoked, expired and used-up links', () => {
+      expect(getInviteLinkStatus(link(), now)).toBe('active');
+      expect(getInviteLinkStatus(link({ revoked: true, expiresAt: 1 }), now)).toBe('revoked');
+      expect(getInviteLinkStatus(link({ expiresAt: now }), now)).toBe('expired');
+      expect(getInviteLinkStatus(link({ maxUses: 3, useCount: 3 }), now)).toBe('used-up');
+    });
+  });
+
+  describe('validateCode', () => {
+    it('should normalize codes and reject malformed ones', () => {
+      expect(InviteLinkService.validateCode(' openlink01 ')).toBe('OPENLINK01');
+      expect(() => InviteLinkService.validateCode('../chats')).toThrow(InviteLinkError);
+      expect(() => InviteLinkService.validateCode(undefined)).toThrow('Invalid invite code');
+    });
+  });
+
+  describe('getPreview', () => {
+    it('should describe the group behind a link', async () => {
+      await expect(service.getPreview('carol', 'OPENLINK01', now)).resolves.toEqual({
+        groupId: 'group-1',
+        groupName: 'Hikers',
+        groupIcon: 'https://icon',
+        memberCount: 2,
+        requiresApproval: false,
+        isMember: false,
+        hasPendingRequest: false,
+      });
+    });
+
+    it('should resolve a group\'s legacy invite code', async () => {
+      const preview = await service.getPreview('carol', 'LEGACY', now);
+
+      expect(preview.groupId).toBe('group-1');
+    });
+
+    it('should reject unusable links for non-members only', async () => {
+      db.docs.set('inviteLinks/OPENLINK01', link({ expiresAt: now - 1 }));
+
+      await expect(service.getPreview('carol', 'OPENLINK01', now))
+        .rejects.toMatchObject({ code: 'failed-precondition', message: 'This invite link has expired' });
+      await expect(service.getPreview('bob', 'OPENLINK01', now))
+        .resolves.toMatchObject({ isMember: true });
+      await expect(service.getPreview('carol', 'MISSING1', now))
+        .rejects.toMatchObject({ code: 'not-found' });
+    });
+  });
+
+  describe('join', () => {
+    it('should add the member, post a system message and count the join', async () => {
+      await expect(service.join('carol', 'OPENLINK01', now))
+        .resolves.toEqual({ groupId: 'group-1', status: 'joined' });
+
+      expect(db.docs.get('chats/group-1')!.participants).toEqual(['alice', 'bob', 'carol']);
+      expect(db.docs.get('chats/group-1/participants/carol')).toMatchObject({ userId: 'carol', role: 'member' });
+      expect(db.docs.get('inviteLinks/OPENLINK01')!.useCount).toBe(1);
+      expect(systemMessages(db)).toEqual(['Carol joined']);
+    });
+
+    it('should stop accepting joins once a link is used up', async () => {
+      db.docs.set('inviteLinks/OPENLINK01', link({ maxUses: 1 }));
+
+      await service.join('carol', 'OPENLINK01', now);
+      db.docs.set('users/dave', { displayName: 'Dave' });
+
+      await expect(service.join('dave', 'OPENLINK01', now))
+        .rejects.toMatchObject({ code: 'failed-precondition', message: 'This invite link has reached its usage limit' });
+    });
+
+    it('should reject revoked links and existing members', async () => {
+      db.docs.set('inviteLinks/OPENLINK01', link({ revoked: true }));
+
+      await expect(service.join('carol', 'OPENLINK01', now))
+        .rejects.toMatchObject({ message: 'This invite link was revoked' });
+      await expect(service.join('bob', 'LEGACY', now))
+        .rejects.toMatchObject({ code: 'already-exists' });
+    });
+
+    it('should file a join request when the link requires approval', async () => {
+      db.docs.set('inviteLinks/OPENLINK01', link({ requiresApproval: true }));
+
+      await expect(service.join('carol', 'OPENLINK01', now))
+        .resolves.toEqual({ groupId: 'group-1', status: 'requested' });
+
+      expect(db.docs.get('chats/group-1')!.participants).not.toContain('carol');
+      expect(db.docs.get('chats/group-1/joinRequests/carol')).toMatchObject({
+        userId: 'carol',
+        inviteCode: 'OPENLINK01',
+        inviteLinkName: 'Newsletter',
+      });
+      expect(db.docs.get('inviteLinks/OPENLINK01')!.useCount).toBe(0);
+    });
+
+    it('should file a join request when the group approves new members', async () => {
+      db.docs.set('chats/group-1', { ...db.docs.get('chats/group-1'), groupSettings: { approveJoinRequests: true } });
+
+      await expect(service.join('carol', 'LEGACY', now))
+        .resolves.toEqual({ groupId: 'group-1', status: 'requested' });
+      expect(db.docs.get('chats/group-1/joinRequests/carol')!.inviteLinkName).toBeNull();
+    });
+  });
+
+  describe('approveJoinRequest', () => {
+    beforeEach(async () => {
+      db.docs.set('inviteLinks/OPENLINK01', link({ requiresApproval: true }));
+      await service.join('carol', 'OPENLINK01', now);
+    });
+
+    it('should add the member and count the join against the link', async () => {
+      await service.approveJoinRequest('bob', 'group-1', 'carol', now);
+
+      expect(db.docs.get('chats/group-1')!.participants).toContain('carol');
+      expect(db.docs.has('chats/group-1/joinRequests/carol')).toBe(false);
+      expect(db.docs.get('inviteLinks/OPENLINK01')!.useCount).toBe(1);
+      expect(systemMessages(db)).toEqual(['Bob added Carol']);
+    });
+
+    it('should only let admins and moderators approve', async () => {
+      db.docs.set('chats/group-1', { ...db.docs.get('chats/group-1'), groupModeratorIds: [] });
+
+      await expect(service.approveJoinRequest('bob', 'group-1', 'carol', now))
+        .rejects.toMatchObject({ code: 'permission-denied' });
+      await expect(service.approveJoinRequest('alice', 'group-1', 'dave', now))
+        .rejects.toMatchObject({ code: 'not-found' });
+    });
+  });
+});
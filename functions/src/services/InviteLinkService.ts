@@ -0,0 +1,315 @@
+/**
+ * Invite Link Service
+ * Group previews and joining through invite links
+ *
+ * Invite links live in the top-level inviteLinks collection, keyed by code.
+ * Group admins create and revoke them from the app (see firestore.rules);
+ * previewing and joining go through here, because people who aren't in a
+ * group yet can't read it, and because only the server may count joins.
+ *
+ * Groups created before invite links also have a single permanent inviteCode
+ * on the chat document, which still works (no expiry or usage limit).
+ *
+ * A link that requires approval - or any link to a group that approves new
+ * members - files a join request instead, for the group's admins and
+ * moderators to approve.
+ */
+
+import * as admin from 'firebase-admin';
+
+const INVITE_CODE_PATTERN = /^[A-Z0-9]{6,16}$/;
+
+export type InviteLinkStatus = 'active' | 'expired' | 'revoked' | 'used-up';
+
+export interface InviteLink {
+  groupId: string;
+  name: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number | null;
+  maxUses: number | null;
+  useCount: number;
+  requiresApproval: boolean;
+  revoked: boolean;
+  revokedAt: number | null;
+}
+
+export interface InvitePreview {
+  groupId: string;
+  groupName: string;
+  groupIcon: string | null;
+  memberCount: number;
+  requiresApproval: boolean;
+  isMember: boolean;
+  hasPendingRequest: boolean;
+}
+
+export interface JoinByInviteResult {
+  groupId: string;
+  status: 'joined' | 'requested';
+}
+
+/**
+ * Error with a callable error code, so functions can pass it on to the client
+ */
+export class InviteLinkError extends Error {
+  constructor(
+    readonly code: 'invalid-argument' | 'not-found' | 'permission-denied' | 'failed-precondition' | 'already-exists',
+    message: string
+  ) {
+    super(message);
+    this.name = 'InviteLinkError';
+  }
+}
+
+interface ResolvedInvite {
+  chatRef: admin.firestore.DocumentReference;
+  linkRef: admin.firestore.DocumentReference | null; // null for a legacy group inviteCode
+}
+
+const STATUS_ERRORS: Record<Exclude<InviteLinkStatus, 'active'>, string> = {
+  'expired': 'This invite link has expired',
+  'revoked': 'This invite link was revoked',
+  'used-up': 'This invite link has reached its usage limit',
+};
+
+/**
+ * Whether a link can still be used
+ */
+export const getInviteLinkStatus = (link: InviteLink, now: number = Date.now()): InviteLinkStatus => {
+  if (link.revoked) return 'revoked';
+  if (link.expiresAt !== null && link.expiresAt <= now) return 'expired';
+  if (link.maxUses !== null && link.useCount >= link.maxUses) return 'used-up';
+  return 'active';
+};
+
+// Group roles, as the app reads them (groups created before groupAdminIds only have groupAdminId)
+const groupStaffIds = (chat: admin.firestore.DocumentData): string[] => [
+  ...(chat.groupAdminIds ?? (chat.groupAdminId ? [chat.groupAdminId] : [])),
+  ...(chat.groupModeratorIds || []),
+];
+
+export class InviteLinkService {
+  constructor(private readonly db: admin.firestore.Firestore = admin.firestore()) {}
+
+  /**
+   * Normalize an invite code sent by a client
+   */
+  static validateCode(value: unknown): string {
+    const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (!INVITE_CODE_PATTERN.test(code)) {
+      throw new InviteLinkError('invalid-argument', 'Invalid invite code');
+    }
+    return code;
+  }
+
+  /**
+   * What someone sees before joining: group name, icon and member count
+   */
+  async getPreview(userId: string, code: string, now: number = Date.now()): Promise<InvitePreview> {
+    const { chatRef, linkRef } = await this.resolve(code);
+
+    const [chatDoc, linkDoc, requestDoc] = await Promise.all([
+      chatRef.get(),
+      linkRef?.get(),
+      chatRef.collection('joinRequests').doc(userId).get(),
+    ]);
+    const chat = this.groupData(chatDoc);
+    const link = linkDoc?.data() as InviteLink | undefined;
+    const participants: string[] = chat.participants || [];
+    const isMember = participants.includes(userId);
+
+    // Members can always open the preview (it takes them to the group)
+    if (!isMember) {
+      this.assertUsable(link, now);
+    }
+
+    return {
+      groupId: chatRef.id,
+      groupName: chat.groupName || 'Group',
+      groupIcon: chat.groupIcon || null,
+      memberCount: participants.length,
+      requiresApproval: this.requiresApproval(chat, link),
+      isMember,
+      hasPendingRequest: requestDoc.exists,
+    };
+  }
+
+  /**
+   * Join a group through an invite link, or ask to join if it needs approval
+   */
+  async join(userId: string, code: string, now: number = Date.now()): Promise<JoinByInviteResult> {
+    const { chatRef, linkRef } = await this.resolve(code);
+    const memberName = await this.getDisplayName(userId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const requestRef = chatRef.collection('joinRequests').doc(userId);
+      const chatDoc = await transaction.get(chatRef);
+      const linkDoc = linkRef ? await transaction.get(linkRef) : null;
+      const requestDoc = await transaction.get(requestRef);
+
+      const chat = this.groupData(chatDoc);
+      const link = linkDoc?.data() as InviteLink | undefined;
+
+      if ((chat.participants || []).includes(userId)) {
+        throw new InviteLinkError('already-exists', 'You are already a member of this group');
+      }
+      this.assertUsable(link, now);
+
+      if (this.requiresApproval(chat, link)) {
+        if (!requestDoc.exists) {
+          transaction.set(requestRef, {
+            userId,
+            inviteCode: code,
+            inviteLinkName: link?.name ?? null,
+            requestedAt: admin.firestore.Timestamp.fromMillis(now),
+          });
+        }
+        return { groupId: chatRef.id, status: 'requested' as const };
+      }
+
+      this.addMember(transaction, chatRef, chat, userId, userId, `${memberName} joined`, now);
+      if (linkRef && link) {
+        transaction.update(linkRef, { useCount: link.useCount + 1 });
+      }
+
+      return { groupId: chatRef.id, status: 'joined' as const };
+    });
+  }
+
+  /**
+   * Approve a join request (admins and moderators)
+   * Approving always works - staff can let people in past a link's limits
+   */
+  async approveJoinRequest(actorId: string, groupId: string, userId: string, now: number = Date.now()): Promise<void> {
+    const chatRef = this.db.collection('chats').doc(groupId);
+    const requestRef = chatRef.collection('joinRequests').doc(userId);
+    const [actorName, memberName] = await Promise.all([
+      this.getDisplayName(actorId),
+      this.getDisplayName(userId),
+    ]);
+
+    await this.db.runTransaction(async (transaction) => {
+      const chatDoc = await transaction.get(chatRef);
+      const requestDoc = await transaction.get(requestRef);
+
+      const chat = this.groupData(chatDoc);
+      if (!groupStaffIds(chat).includes(actorId)) {
+        throw new InviteLinkError('permission-denied', 'Only admins and moderators can approve join requests');
+      }
+      if (!requestDoc.exists) {
+        throw new InviteLinkError('not-found', 'Join request not found');
+      }
+
+      // Count the join against the link it came from (legacy codes have no link)
+      const linkRef = this.db.collection('inviteLinks').doc(requestDoc.data()!.inviteCode);
+      const linkDoc = await transaction.get(linkRef);
+
+      if (!(chat.participants || []).includes(userId)) {
+        this.addMember(transaction, chatRef, chat, userId, actorId, `${actorName} added ${memberName}`, now);
+        const link = linkDoc.data() as InviteLink | undefined;
+        if (link && link.groupId === groupId) {
+          transaction.update(linkRef, { useCount: link.useCount + 1 });
+        }
+      }
+
+      transaction.delete(requestRef);
+    });
+  }
+
+  /**
+   * Find the group an invite code belongs to
+   */
+  private async resolve(code: string): Promise<ResolvedInvite> {
+    const linkRef = this.db.collection('inviteLinks').doc(code);
+    const linkDoc = await linkRef.get();
+    if (linkDoc.exists) {
+      return {
+        chatRef: this.db.collection('chats').doc(linkDoc.data()!.groupId),
+        linkRef,
+      };
+    }
+
+    const legacySnapshot = await this.db.collection('chats')
+      .where('inviteCode', '==', code)
+      .limit(1)
+      .get();
+    if (legacySnapshot.docs.length === 0) {
+      throw new InviteLinkError('not-found', 'Invite link not found');
+    }
+
+    return { chatRef: legacySnapshot.docs[0].ref, linkRef: null };
+  }
+
+  private groupData(chatDoc: admin.firestore.DocumentSnapshot): admin.firestore.DocumentData {
+    const chat = chatDoc.data();
+    if (!chatDoc.exists || !chat || chat.type !== 'group') {
+      throw new InviteLinkError('not-found', 'This group no longer exists');
+    }
+    return chat;
+  }
+
+  private assertUsable(link: InviteLink | undefined, now: number): void {
+    if (!link) return;
+
+    const status = getInviteLinkStatus(link, now);
+    if (status !== 'active') {
+      throw new InviteLinkError('failed-precondition', STATUS_ERRORS[status]);
+    }
+  }
+
+  private requiresApproval(chat: admin.firestore.DocumentData, link: InviteLink | undefined): boolean {
+    return link?.requiresApproval === true || chat.groupSettings?.approveJoinRequests === true;
+  }
+
+  private async getDisplayName(userId: string): Promise<string> {
+    const userDoc = await this.db.collection('users').doc(userId).get();
+    return userDoc.data()?.displayName || userDoc.data()?.username || 'Someone';
+  }
+
+  /**
+   * Same writes as GroupService.addMember in the app: participant document,
+   * participants list and a system message as the chat preview
+   */
+  private addMember(
+    transaction: admin.firestore.Transaction,
+    chatRef: admin.firestore.DocumentReference,
+    chat: admin.firestore.DocumentData,
+    userId: string,
+    actorId: string,
+    text: string,
+    now: number
+  ): void {
+    const timestamp = admin.firestore.Timestamp.fromMillis(now);
+
+    transaction.set(chatRef.collection('participants').doc(userId), {
+      userId,
+      role: 'member',
+      joinedAt: timestamp,
+      lastReadMessageId: null,
+      lastReadTimestamp: null,
+      unreadCount: 0,
+    });
+
+    transaction.set(chatRef.collection('messages').doc(), {
+      senderId: actorId,
+      text,
+      timestamp,
+      updatedAt: timestamp,
+      status: 'sent',
+      type: 'system',
+      reactions: {},
+      deletedFor: [],
+      deletedForEveryone: false,
+      deletedAt: null,
+    });
+
+    transaction.update(chatRef, {
+      participants: [...(chat.participants || []), userId],
+      lastMessageText: text,
+      lastMessageTime: timestamp,
+      lastMessageSenderId: actorId,
+      updatedAt: timestamp,
+    });
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for LLMService
+ * Everything here runs on the fake provider - no network access
+ */
+
+import { generateObject, generateText } from 'ai';
+import { z } from 'zod';
+import { aiModel } from '../config/ai-sdk.config';
+import { runWithTokenTracking } from './AIUsageService';
+import { EmbeddingService } from './EmbeddingService';
+import { FakeLLMProvider, LLMService } from './LLMService';
+import { TranslationService } from './TranslationService';
+
+// Mock Firebase logger
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+describe('LLMService', () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  afterEach(() => {
+    LLMService.setProvider(null);
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+  });
+
+  it('should default to the fake provider under Jest', () => {
+    delete process.env.LLM_PROVIDER;
+    expect(LLMService.getProvider().name).toBe('fake');
+  });
+
+  it('should pick the provider from LLM_PROVIDER', () => {
+    process.env.LLM_PROVIDER = 'ollama';
+    expect(LLMService.getProvider().name).toBe('ollama');
+    expect(LLMService.getProvider().languageModel().modelId).toBe('llama3.1');
+  });
+
+  describe('FakeLLMProvider', () => {
+    it('should answer text prompts deterministically', async () => {
+      const first = await generateText({ model: aiModel, prompt: 'Say hello' });
+      const second = await generateText({ model: aiModel, prompt: 'Say hello' });
+
+      expect(first.text).toBe('[fake] Say hello');
+      expect(second.text).toBe(first.text);
+      expect(first.usage.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('should return the smallest value that fits a schema', async () => {
+      const { object } = await generateObject({
+        model: aiModel,
+        schema: z.object({
+          language: z.string(),
+          confidence: z.number().min(0).max(100),
+          formality: z.enum(['casual', 'formal']),
+          tags: z.array(z.string()),
+        }),
+        prompt: 'Detect the language',
+      });
+
+      expect(object).toEqual({ language: 'fake language', confidence: 0, formality: 'casual', tags: [] });
+    });
+
+    it('should use scripted replies', async () => {
+      const provider = new FakeLLMProvider(({ prompt, schema }) => (
+        schema ? { language: 'es', confidence: 99 } : prompt.includes('joke') ? 'Knock knock' : undefined
+      ));
+      LLMService.setProvider(provider);
+
+      const { text } = await generateText({ model: aiModel, prompt: 'Tell me a joke' });
+      const { object } = await generateObject({
+        model: aiModel,
+        schema: z.object({ language: z.string(), confidence: z.number() }),
+        prompt: 'Hola amigos',
+      });
+
+      expect(text).toBe('Knock knock');
+      expect(object).toEqual({ language: 'es', confidence: 99 });
+      expect(provider.requests.map((request) => request.prompt)).toEqual(['Tell me a joke', 'Hola amigos']);
+    });
+
+    it('should embed texts that share words close together', async () => {
+      const [flight, boarding, ramen] = await Promise.all([
+        EmbeddingService.generateEmbedding('our flight to Lisbon leaves at 9'),
+        EmbeddingService.generateEmbedding('boarding the flight to Lisbon now'),
+        EmbeddingService.generateEmbedding('dinner at the ramen place?'),
+      ]);
+
+      expect(flight.embedding).toHaveLength(1536);
+      expect(flight.model).toBe('fake-embedding');
+      expect(EmbeddingService.cosineSimilarity(flight.embedding, boarding.embedding))
+        .toBeGreaterThan(EmbeddingService.cosineSimilarity(flight.embedding, ramen.embedding));
+    });
+  });
+
+  it('should count fake tokens against the running call', async () => {
+    const scope = { tokens: 0 };
+
+    await runWithTokenTracking(scope, async () => {
+      await generateText({ model: aiModel, prompt: 'Summarize this chat' });
+      await EmbeddingService.generateEmbedding('search query');
+    });
+
+    expect(scope.tokens).toBeGreaterThan(0);
+  });
+
+  it('should let TranslationService run offline', async () => {
+    LLMService.setProvider(new FakeLLMProvider(() => ({ translated: 'Hola a todos', detectedLanguage: 'en' })));
+
+    const result = await new TranslationService().translatePreview('Hello everyone', 'es');
+
+    expect(result).toEqual({ translated: 'Hola a todos', detectedLanguage: 'en' });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * LLM Service
+ * Chat completion, structured output and embeddings through a pluggable provider
+ *
+ * Services don't use providers directly: they pass `aiModel` / `embeddingModel`
+ * from config/ai-sdk.config to the AI SDK (generateText, generateObject, embed),
+ * and those models forward to whichever provider is active here.
+ *
+ * Providers (LLM_PROVIDER):
+ * - openai (default): gpt-4o-mini, text-embedding-3-small
+ * - anthropic: claude-3-5-haiku-latest (ANTHROPIC_API_KEY); Anthropic has no
+ *   embeddings API, so embeddings still come from OpenAI
+ * - ollama: any Ollama-compatible endpoint (OLLAMA_BASE_URL, default
+ *   http://localhost:11434/v1), llama3.1 and nomic-embed-text
+ * - fake: deterministic offline responses (the default under Jest; set
+ *   LLM_PROVIDER=fake in functions/.env.local to use it in the emulator)
+ *
+ * LLM_MODEL and LLM_EMBEDDING_MODEL override the provider's default models.
+ */
+
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import {
+  EmbeddingModelV2,
+  JSONSchema7,
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama' | 'fake';
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  languageModel(): LanguageModelV2;
+  embeddingModel(): EmbeddingModelV2<string>;
+}
+
+interface ModelOptions {
+  model?: string;
+  embeddingModel?: string;
+}
+
+/**
+ * OpenAI provider
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private readonly openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+  constructor(private readonly options: ModelOptions = {}) {}
+
+  languageModel(): LanguageModelV2 {
+    return this.openai(this.options.model || 'gpt-4o-mini');
+  }
+
+  embeddingModel(): EmbeddingModelV2<string> {
+    return this.openai.embedding(this.options.embeddingModel || 'text-embedding-3-small');
+  }
+}
+
+/**
+ * Anthropic provider (embeddings from OpenAI)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private readonly anthropic = createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  private readonly embeddings: OpenAIProvider;
+
+  constructor(private readonly options: ModelOptions = {}) {
+    this.embeddings = new OpenAIProvider({ embeddingModel: options.embeddingModel });
+  }
+
+  languageModel(): LanguageModelV2 {
+    return this.anthropic(this.options.model || 'claude-3-5-haiku-latest');
+  }
+
+  embeddingModel(): EmbeddingModelV2<string> {
+    return this.embeddings.embeddingModel();
+  }
+}
+
+/**
+ * Ollama-compatible provider (any server with an OpenAI-style /v1 API)
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  private readonly ollama;
+
+  constructor(
+    private readonly options: ModelOptions = {},
+    baseURL: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1'
+  ) {
+    // Ollama ignores the key, but the client requires one
+    this.ollama = createOpenAI({ baseURL, apiKey: process.env.OLLAMA_API_KEY || 'ollama' });
+  }
+
+  languageModel(): LanguageModelV2 {
+    // Chat completions API - local servers don't implement OpenAI's Responses API
+    return this.ollama.chat(this.options.model || 'llama3.1');
+  }
+
+  embeddingModel(): EmbeddingModelV2<string> {
+    return this.ollama.embedding(this.options.embeddingModel || 'nomic-embed-text');
+  }
+}
+
+/**
+ * What the fake language model was asked
+ */
+export interface FakeLLMRequest {
+  prompt: string;                 // All message text, one message per line
+  schema: JSONSchema7 | null;     // Set for structured output (generateObject)
+}
+
+/**
+ * Scripted reply: text for generateText, a value for generateObject
+ * (undefined falls back to the default reply)
+ */
+export type FakeLLMResponder = (request: FakeLLMRequest) => string | unknown | undefined;
+
+export const FAKE_EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Rough token count, so fake calls still count against quotas
+ */
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * FNV-1a hash
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const promptText = (prompt: LanguageModelV2Prompt): string =>
+  prompt
+    .map((message) => {
+      if (typeof message.content === 'string') {
+        return message.content;
+      }
+      return message.content
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join('');
+    })
+    .join('\n');
+
+/**
+ * Smallest value that fits a JSON schema: first enum value, minimum numbers,
+ * empty arrays, and objects with their required properties
+ */
+export function fakeValueForSchema(schema: JSONSchema7 | boolean | undefined, key = 'value'): unknown {
+  if (!schema || typeof schema === 'boolean') {
+    return null;
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  const options = schema.anyOf || schema.oneOf;
+  if (options?.length) {
+    const nonNull = options.find((option) => typeof option !== 'boolean' && option.type !== 'null');
+    return fakeValueForSchema(nonNull ?? options[0], key);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = schema.properties || {};
+      const required = schema.required || Object.keys(properties);
+      return Object.fromEntries(required.map((name) => [name, fakeValueForSchema(properties[name], name)]));
+    }
+    case 'array': {
+      const item = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+      return Array.from({ length: schema.minItems || 0 }, () => fakeValueForSchema(item, key));
+    }
+    case 'string':
+      return `fake ${key}`;
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Deterministic offline provider
+ *
+ * - Text: "[fake] " and the start of the last message (or a scripted reply)
+ * - Structured output: the smallest value that fits the schema (or a scripted value)
+ * - Embeddings: hashed bag of words, so texts sharing words are similar
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly requests: FakeLLMRequest[] = [];
+
+  constructor(private readonly responder?: FakeLLMResponder) {}
+
+  private reply(options: LanguageModelV2CallOptions): string {
+    const prompt = promptText(options.prompt);
+    const schema = options.responseFormat?.type === 'json' ? options.responseFormat.schema || {} : null;
+    const request = { prompt, schema };
+    this.requests.push(request);
+
+    const scripted = this.responder?.(request);
+    if (schema) {
+      return JSON.stringify(scripted !== undefined ? scripted : fakeValueForSchema(schema));
+    }
+    if (typeof scripted === 'string') {
+      return scripted;
+    }
+
+    const lastMessage = promptText(options.prompt.slice(-1)).trim();
+    return `[fake] ${lastMessage.slice(0, 100)}`;
+  }
+
+  languageModel(): LanguageModelV2 {
+    const usage = (prompt: LanguageModelV2Prompt, text: string) => {
+      const inputTokens = estimateTokens(promptText(prompt));
+      const outputTokens = estimateTokens(text);
+      return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+    };
+
+    return {
+      specificationVersion: 'v2',
+      provider: 'fake',
+      modelId: 'fake-llm',
+      supportedUrls: {},
+      doGenerate: async (options) => {
+        const text = this.reply(options);
+        return {
+          content: [{ type: 'text', text }],
+          finishReason: 'stop',
+          usage: usage(options.prompt, text),
+          warnings: [],
+        };
+      },
+      doStream: async (options) => {
+        const text = this.reply(options);
+        const words = text.match(/\S+\s*/g) || [];
+        const parts: LanguageModelV2StreamPart[] = [
+          { type: 'stream-start', warnings: [] },
+          { type: 'text-start', id: 'fake' },
+          ...words.map((delta): LanguageModelV2StreamPart => ({ type: 'text-delta', id: 'fake', delta })),
+          { type: 'text-end', id: 'fake' },
+          { type: 'finish', finishReason: 'stop', usage: usage(options.prompt, text) },
+        ];
+        return {
+          stream: new ReadableStream<LanguageModelV2StreamPart>({
+            start(controller) {
+              parts.forEach((part) => controller.enqueue(part));
+              controller.close();
+            },
+          }),
+        };
+      },
+    };
+  }
+
+  embeddingModel(): EmbeddingModelV2<string> {
+    return {
+      specificationVersion: 'v2',
+      provider: 'fake',
+      modelId: 'fake-embedding',
+      maxEmbeddingsPerCall: undefined,
+      supportsParallelCalls: true,
+      doEmbed: async ({ values }) => ({
+        embeddings: values.map(fakeEmbedding),
+        usage: { tokens: values.reduce((sum, value) => sum + estimateTokens(value), 0) },
+      }),
+    };
+  }
+}
+
+/**
+ * Unit-length vector with one slot per (hashed) lowercase word
+ */
+export function fakeEmbedding(text: string): number[] {
+  const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    vector[hashString(word) % FAKE_EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function createProviderFromEnv(): LLMProvider {
+  const options: ModelOptions = {
+    model: process.env.LLM_MODEL,
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL,
+  };
+
+  // Never reach the network from unit tests unless asked to
+  const name = process.env.LLM_PROVIDER || (process.env.JEST_WORKER_ID ? 'fake' : 'openai');
+  switch (name) {
+    case 'fake':
+      return new FakeLLMProvider();
+    case 'anthropic':
+      return new AnthropicProvider(options);
+    case 'ollama':
+      return new OllamaProvider(options);
+    default:
+      return new OpenAIProvider(options);
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+export class LLMService {
+  /**
+   * Replace the active provider (pass null to fall back to the environment default)
+   */
+  static setProvider(provider: LLMProvider | null): void {
+    activeProvider = provider;
+  }
+
+  static getProvider(): LLMProvider {
+    if (!activeProvider) {
+      activeProvider = createProviderFromEnv();
+    }
+    return activeProvider;
+  }
+}
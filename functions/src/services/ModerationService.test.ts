@@ -0,0 +1,146 @@
+/**
+ * Unit tests for ModerationService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { ModerationError, ModerationService, ReportInput } from './ModerationService';
+
+const baseData = (): Record<string, Record<string, any>> => ({
+  'users/alice': { displayName: 'Alice' },
+  'users/mallory': { displayName: 'Mallory' },
+  'chats/chat-1': { type: 'one-on-one', participants: ['alice', 'mallory'] },
+  'chats/chat-1/messages/m1': { senderId: 'mallory', type: 'text', text: 'Buy cheap coins', timestamp: 1000 },
+  'chats/chat-1/messages/m2': { senderId: 'alice', type: 'text', text: 'No thanks', timestamp: 2000 },
+  'chats/chat-1/messages/m3': { senderId: 'mallory', type: 'image', text: '', imageUrl: 'https://img', timestamp: 3000 },
+  'chats/chat-2': { type: 'group', participants: ['mallory', 'bob'] },
+});
+
+const input = (overrides: Partial<ReportInput> = {}): ReportInput => ({
+  reportedUserId: 'mallory',
+  reason: 'spam',
+  chatId: 'chat-1',
+  messageId: 'm1',
+  details: null,
+  decryptedText: null,
+  ...overrides,
+});
+
+describe('ModerationService', () => {
+  let db: FakeFirestore;
+  let service: ModerationService;
+
+  beforeEach(() => {
+    db = createFakeFirestore(baseData());
+    service = new ModerationService(db as unknown as admin.firestore.Firestore);
+  });
+
+  describe('validateReportInput', () => {
+    it('should trim optional fields and drop empty ones', () => {
+      expect(ModerationService.validateReportInput({
+        reportedUserId: 'mallory',
+        reason: 'harassment',
+        chatId: 'chat-1',
+        details: '  keeps messaging me  ',
+        decryptedText: '   ',
+      })).toEqual(input({ reason: 'harassment', messageId: null, details: 'keeps messaging me' }));
+    });
+
+    it('should reject unknown reasons and message reports without a chat', () => {
+      expect(() => ModerationService.validateReportInput({ reportedUserId: 'mallory', reason: 'boring' }))
+        .toThrow(ModerationError);
+      expect(() => ModerationService.validateReportInput({ reportedUserId: 'mallory', reason: 'spam', messageId: 'm1' }))
+        .toThrow('chatId is required when reporting a message');
+    });
+  });
+
+  describe('submitReport', () => {
+    it('should store a pending report with a snapshot of the message', async () => {
+      const result = await service.submitReport('alice', input(), 5000);
+
+      expect(result).toEqual({ reportId: 'alice_chat-1_m1', alreadyReported: false });
+      expect(db.docs.get('reports/alice_chat-1_m1')).toEqual(expect.objectContaining({
+        reporterId: 'alice',
+        reportedUserId: 'mallory',
+        status: 'pending',
+        createdAt: 5000,
+        messages: [expect.objectContaining({ messageId: 'm1', senderId: 'mallory', text: 'Buy cheap coins', timestamp: 1000 })],
+      }));
+    });
+
+    it('should keep the original text after the message is edited', async () => {
+      await service.submitReport('alice', input());
+      db.docs.set('chats/chat-1/messages/m1', { senderId: 'mallory', type: 'text', text: 'Hello!', timestamp: 1000 });
+
+      const report = db.docs.get('reports/alice_chat-1_m1')!;
+      expect(report.messages[0].text).toBe('Buy cheap coins');
+    });
+
+    it('should not file the same message report twice', async () => {
+      await service.submitReport('alice', input({ details: 'first' }));
+      const second = await service.submitReport('alice', input({ details: 'second' }));
+
+      expect(second.alreadyReported).toBe(true);
+      expect(db.docs.get('reports/alice_chat-1_m1')!.details).toBe('first');
+    });
+
+    it('should snapshot the reported user\'s latest messages for a user report', async () => {
+      const result = await service.submitReport('alice', input({ messageId: null, reason: 'harassment' }));
+
+      const report = db.docs.get(`reports/${result.reportId}`)!;
+      expect(report.messages.map((message: any) => message.messageId)).toEqual(['m3', 'm1']);
+    });
+
+    it('should only keep decrypted text for encrypted messages', async () => {
+      db.docs.set('chats/chat-1/messages/m4', { senderId: 'mallory', type: 'text', text: 'b64cipher', encrypted: true, timestamp: 4000 });
+
+      await service.submitReport('alice', input({ messageId: 'm4', decryptedText: 'threat' }));
+      await service.submitReport('alice', input({ decryptedText: 'made up' }));
+
+      expect(db.docs.get('reports/alice_chat-1_m4')!.reporterProvidedText).toBe('threat');
+      expect(db.docs.get('reports/alice_chat-1_m1')!.reporterProvidedText).toBeNull();
+    });
+
+    it('should reject reports from outside the chat, on other senders or on yourself', async () => {
+      await expect(service.submitReport('alice', input({ chatId: 'chat-2' })))
+        .rejects.toMatchObject({ code: 'permission-denied' });
+      await expect(service.submitReport('alice', input({ messageId: 'm2' })))
+        .rejects.toMatchObject({ code: 'invalid-argument' });
+      await expect(service.submitReport('mallory', input()))
+        .rejects.toMatchObject({ code: 'invalid-argument' });
+      await expect(service.submitReport('alice', input({ messageId: 'missing' })))
+        .rejects.toMatchObject({ code: 'not-found' });
+    });
+  });
+
+  describe('moderation queue', () => {
+    it('should page through pending reports oldest first', async () => {
+      await service.submitReport('alice', input({ messageId: 'm3' }), 2000);
+      await service.submitReport('alice', input(), 1000);
+      await service.submitReport('alice', input({ messageId: null }), 3000);
+
+      const first = await service.listReports('pending', 2);
+      const second = await service.listReports('pending', 2, first.nextCursor);
+
+      expect(first.reports.map(report => report.createdAt)).toEqual([1000, 2000]);
+      expect(second.reports.map(report => report.createdAt)).toEqual([3000]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should resolve a pending report once', async () => {
+      const { reportId } = await service.submitReport('alice', input());
+
+      await service.resolveReport(reportId, 'mod-1', 'actioned', 'Account warned', 9000);
+
+      expect(db.docs.get(`reports/${reportId}`)).toEqual(expect.objectContaining({
+        status: 'actioned',
+        reviewedBy: 'mod-1',
+        reviewedAt: 9000,
+        moderatorNote: 'Account warned',
+      }));
+      expect((await service.listReports('pending')).reports).toHaveLength(0);
+      await expect(service.resolveReport(reportId, 'mod-2', 'dismissed'))
+        .rejects.toMatchObject({ code: 'failed-precondition' });
+    });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Moderation Service
+ * Abuse reports for messages and users, and the moderation queue they feed
+ *
+ * Reports live in the top-level reports collection, which clients can't read or
+ * write (see firestore.rules). Each report carries a server-side snapshot of the
+ * reported message - or the reported user's latest messages in the chat - so
+ * reviewers see the content as it was, even if it's edited or deleted later.
+ *
+ * End-to-end encrypted messages are snapshotted as ciphertext; the reporter may
+ * share the decrypted text, which is kept separately as reporterProvidedText.
+ */
+
+import * as admin from 'firebase-admin';
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'sexual' | 'impersonation' | 'other';
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned';
+export type ReportResolution = Exclude<ReportStatus, 'pending'>;
+
+export const REPORT_REASONS: readonly ReportReason[] = [
+  'spam', 'harassment', 'hate', 'violence', 'sexual', 'impersonation', 'other',
+];
+
+const MAX_DETAILS_LENGTH = 1000;
+const MAX_PROVIDED_TEXT_LENGTH = 4096;
+const USER_REPORT_MESSAGE_COUNT = 5; // Reported user's latest messages kept with a user report
+const MAX_QUEUE_PAGE_SIZE = 50;
+
+export interface ReportInput {
+  reportedUserId: string;
+  reason: ReportReason;
+  chatId: string | null;
+  messageId: string | null;
+  details: string | null;
+  decryptedText: string | null;
+}
+
+export interface MessageSnapshot {
+  messageId: string;
+  senderId: string;
+  type: string;
+  text: string | null;
+  caption: string | null;
+  imageUrl: string | null;
+  audioUrl: string | null;
+  fileUrl: string | null;
+  fileName: string | null;
+  timestamp: number;
+  editedAt: number | null;
+  encrypted: boolean;
+}
+
+export interface Report {
+  reporterId: string;
+  reportedUserId: string;
+  reason: ReportReason;
+  details: string | null;
+  chatId: string | null;
+  messageId: string | null;
+  messages: MessageSnapshot[];
+  reporterProvidedText: string | null;
+  status: ReportStatus;
+  createdAt: number;
+  reviewedAt: number | null;
+  reviewedBy: string | null;
+  moderatorNote: string | null;
+}
+
+export interface SubmitReportResult {
+  reportId: string;
+  alreadyReported: boolean;
+}
+
+export interface ModerationQueuePage {
+  reports: (Report & { id: string })[];
+  nextCursor: string | null;
+}
+
+/**
+ * Error with a callable error code, so functions can pass it on to the client
+ */
+export class ModerationError extends Error {
+  constructor(
+    readonly code: 'invalid-argument' | 'not-found' | 'permission-denied' | 'failed-precondition',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+const optionalString = (value: unknown, name: string, maxLength?: number): string | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new ModerationError('invalid-argument', `${name} must be a string`);
+  }
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  return maxLength ? trimmed.slice(0, maxLength) : trimmed;
+};
+
+const toMillis = (value: any): number | null => {
+  if (typeof value === 'number') return value;
+  if (value && typeof value.toMillis === 'function') return value.toMillis();
+  return null;
+};
+
+export class ModerationService {
+  constructor(private readonly db: admin.firestore.Firestore = admin.firestore()) {}
+
+  /**
+   * Validate report data sent by a client
+   */
+  static validateReportInput(data: any): ReportInput {
+    const reportedUserId = optionalString(data?.reportedUserId, 'reportedUserId');
+    if (!reportedUserId) {
+      throw new ModerationError('invalid-argument', 'reportedUserId is required');
+    }
+
+    if (!REPORT_REASONS.includes(data?.reason)) {
+      throw new ModerationError('invalid-argument', `reason must be one of: ${REPORT_REASONS.join(', ')}`);
+    }
+
+    const chatId = optionalString(data.chatId, 'chatId');
+    const messageId = optionalString(data.messageId, 'messageId');
+    if (messageId && !chatId) {
+      throw new ModerationError('invalid-argument', 'chatId is required when reporting a message');
+    }
+
+    return {
+      reportedUserId,
+      reason: data.reason,
+      chatId,
+      messageId,
+      details: optionalString(data.details, 'details', MAX_DETAILS_LENGTH),
+      decryptedText: optionalString(data.decryptedText, 'decryptedText', MAX_PROVIDED_TEXT_LENGTH),
+    };
+  }
+
+  /**
+   * Copy the fields a reviewer needs from a message document
+   */
+  static snapshotMessage(messageId: string, data: admin.firestore.DocumentData): MessageSnapshot {
+    return {
+      messageId,
+      senderId: data.senderId,
+      type: data.type || 'text',
+      text: data.text ?? null,
+      caption: data.caption ?? null,
+      imageUrl: data.imageUrl ?? null,
+      audioUrl: data.audioUrl ?? null,
+      fileUrl: data.fileUrl ?? null,
+      fileName: data.fileName ?? null,
+      timestamp: toMillis(data.timestamp) ?? 0,
+      editedAt: toMillis(data.editedAt),
+      encrypted: data.encrypted === true,
+    };
+  }
+
+  /**
+   * File a report from reporterId
+   * Reporting the same message twice returns the first report
+   */
+  async submitReport(reporterId: string, input: ReportInput, now: number = Date.now()): Promise<SubmitReportResult> {
+    if (input.reportedUserId === reporterId) {
+      throw new ModerationError('invalid-argument', 'You cannot report yourself');
+    }
+
+    const reportedUserDoc = await this.db.collection('users').doc(input.reportedUserId).get();
+    if (!reportedUserDoc.exists) {
+      throw new ModerationError('not-found', 'Reported user not found');
+    }
+
+    const reportsRef = this.db.collection('reports');
+    let reportRef = reportsRef.doc();
+    let messages: MessageSnapshot[] = [];
+    let reporterProvidedText: string | null = null;
+
+    if (input.chatId) {
+      const chatRef = this.db.collection('chats').doc(input.chatId);
+      const chatDoc = await chatRef.get();
+      const participants: string[] = chatDoc.data()?.participants || [];
+      if (!chatDoc.exists || !participants.includes(reporterId)) {
+        throw new ModerationError('permission-denied', 'You can only report content from your own chats');
+      }
+
+      if (input.messageId) {
+        // One report per reporter and message
+        reportRef = reportsRef.doc(`${reporterId}_${input.chatId}_${input.messageId}`);
+        const existing = await reportRef.get();
+        if (existing.exists) {
+          return { reportId: reportRef.id, alreadyReported: true };
+        }
+
+        const messageDoc = await chatRef.collection('messages').doc(input.messageId).get();
+        if (!messageDoc.exists) {
+          throw new ModerationError('not-found', 'Message not found');
+        }
+        if (messageDoc.data()!.senderId !== input.reportedUserId) {
+          throw new ModerationError('invalid-argument', 'Message was not sent by the reported user');
+        }
+
+        const snapshot = ModerationService.snapshotMessage(messageDoc.id, messageDoc.data()!);
+        messages = [snapshot];
+        reporterProvidedText = snapshot.encrypted ? input.decryptedText : null;
+      } else {
+        const recentSnapshot = await chatRef.collection('messages')
+          .where('senderId', '==', input.reportedUserId)
+          .orderBy('timestamp', 'desc')
+          .limit(USER_REPORT_MESSAGE_COUNT)
+          .get();
+        messages = recentSnapshot.docs.map(doc => ModerationService.snapshotMessage(doc.id, doc.data()));
+      }
+    }
+
+    const report: Report = {
+      reporterId,
+      reportedUserId: input.reportedUserId,
+      reason: input.reason,
+      details: input.details,
+      chatId: input.chatId,
+      messageId: input.messageId,
+      messages,
+      reporterProvidedText,
+      status: 'pending',
+      createdAt: now,
+      reviewedAt: null,
+      reviewedBy: null,
+      moderatorNote: null,
+    };
+
+    await reportRef.set(report);
+
+    return { reportId: reportRef.id, alreadyReported: false };
+  }
+
+  /**
+   * One page of reports with the given status, oldest first
+   * The cursor is the ID of the last report on the previous page
+   */
+  async listReports(
+    status: ReportStatus = 'pending',
+    limit: number = 20,
+    cursor?: string | null
+  ): Promise<ModerationQueuePage> {
+    const pageSize = Math.min(Math.max(limit, 1), MAX_QUEUE_PAGE_SIZE);
+    let reportsQuery = this.db.collection('reports')
+      .where('status', '==', status)
+      .orderBy('createdAt', 'asc');
+
+    if (cursor) {
+      const cursorDoc = await this.db.collection('reports').doc(cursor).get();
+      if (!cursorDoc.exists) {
+        throw new ModerationError('invalid-argument', 'Invalid queue cursor');
+      }
+      reportsQuery = reportsQuery.startAfter(cursorDoc);
+    }
+
+    // One extra to know whether there's another page
+    const snapshot = await reportsQuery.limit(pageSize + 1).get();
+    const docs = snapshot.docs.slice(0, pageSize);
+
+    return {
+      reports: docs.map(doc => ({ id: doc.id, ...(doc.data() as Report) })),
+      nextCursor: snapshot.docs.length > pageSize ? docs[docs.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Close a pending report
+   */
+  async resolveReport(
+    reportId: string,
+    moderatorId: string,
+    resolution: ReportResolution,
+    note: string | null = null,
+    now: number = Date.now()
+  ): Promise<void> {
+    const reportRef = this.db.collection('reports').doc(reportId);
+
+    await this.db.runTransaction(async (transaction) => {
+      const reportDoc = await transaction.get(reportRef);
+      if (!reportDoc.exists) {
+        throw new ModerationError('not-found', 'Report not found');
+      }
+      if (reportDoc.data()!.status !== 'pending') {
+        throw new ModerationError('failed-precondition', 'Report was already reviewed');
+      }
+
+      transaction.update(reportRef, {
+        status: resolution,
+        reviewedAt: now,
+        reviewedBy: moderatorId,
+        moderatorNote: note,
+      });
+    });
+  }
+}
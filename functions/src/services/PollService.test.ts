@@ -0,0 +1,163 @@
+/**
+ * Unit tests for PollService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { applyPollVote, formatPollOutcome, Poll, PollError, PollService } from './PollService';
+
+const poll = (overrides: Partial<Poll> = {}): Poll => ({
+  question: 'Lunch?',
+  options: [{ id: 'o1', text: 'Pizza' }, { id: 'o2', text: 'Sushi' }, { id: 'o3', text: 'Tacos' }],
+  allowsMultipleChoices: false,
+  anonymous: false,
+  closesAt: null,
+  closedAt: null,
+  counts: { o1: 0, o2: 0, o3: 0 },
+  voterCount: 0,
+  voters: {},
+  ...overrides,
+});
+
+const baseData = (): Record<string, Record<string, any>> => ({
+  'chats/chat-1': { type: 'group', participants: ['alice', 'bob', 'carol'] },
+  'chats/chat-1/messages/poll-1': { type: 'poll', senderId: 'alice', timestamp: 100, poll: poll() },
+  'chats/chat-1/messages/poll-2': {
+    type: 'poll',
+    senderId: 'bob',
+    timestamp: 200,
+    poll: poll({ question: 'Hike?', anonymous: true, allowsMultipleChoices: true, voters: null }),
+  },
+  'chats/chat-1/messages/text-1': { type: 'text', senderId: 'bob', timestamp: 150, text: 'hi' },
+});
+
+describe('PollService', () => {
+  const now = 50_000;
+  let db: FakeFirestore;
+  let service: PollService;
+
+  const storedPoll = (messageId: string): Poll => db.docs.get(`chats/chat-1/messages/${messageId}`)!.poll;
+
+  beforeEach(() => {
+    db = createFakeFirestore(baseData());
+    service = new PollService(db as unknown as admin.firestore.Firestore);
+  });
+
+  describe('applyPollVote', () => {
+    it('should move a changed vote and keep the voter count', () => {
+      const voted = applyPollVote(poll(), 'bob', [], ['o1']);
+      const changed = applyPollVote(voted, 'bob', ['o1'], ['o2']);
+
+      expect(changed.counts).toEqual({ o1: 0, o2: 1, o3: 0 });
+      expect(changed.voterCount).toBe(1);
+      expect(changed.voters).toEqual({ o1: [], o2: ['bob'] });
+    });
+
+    it('should not list voters in anonymous polls', () => {
+      const voted = applyPollVote(poll({ anonymous: true, voters: null }), 'bob', [], ['o1']);
+      expect(voted.voters).toBeNull();
+    });
+  });
+
+  describe('validateOptionIds', () => {
+    it('should dedupe option IDs and reject anything else', () => {
+      expect(PollService.validateOptionIds(['o1', 'o1', 'o2'])).toEqual(['o1', 'o2']);
+      expect(PollService.validateOptionIds([])).toEqual([]);
+      expect(() => PollService.validateOptionIds('o1')).toThrow(PollError);
+      expect(() => PollService.validateOptionIds([1])).toThrow(PollError);
+    });
+  });
+
+  describe('vote', () => {
+    it('should record the vote and count it', async () => {
+      const result = await service.vote('bob', 'chat-1', 'poll-1', ['o2'], now);
+
+      expect(result.counts.o2).toBe(1);
+      expect(result.voterCount).toBe(1);
+      expect(storedPoll('poll-1')).toEqual(result);
+      expect(db.docs.get('chats/chat-1/messages/poll-1/pollVotes/bob')).toEqual({ optionIds: ['o2'], votedAt: now });
+    });
+
+    it('should count every vote when several users vote', async () => {
+      await Promise.all([
+        service.vote('alice', 'chat-1', 'poll-1', ['o1'], now),
+        service.vote('bob', 'chat-1', 'poll-1', ['o1'], now),
+        service.vote('carol', 'chat-1', 'poll-1', ['o3'], now),
+      ]);
+
+      expect(storedPoll('poll-1').counts).toEqual({ o1: 2, o2: 0, o3: 1 });
+      expect(storedPoll('poll-1').voterCount).toBe(3);
+    });
+
+    it('should replace a previous vote instead of adding to it', async () => {
+      await service.vote('bob', 'chat-1', 'poll-1', ['o1'], now);
+      await service.vote('bob', 'chat-1', 'poll-1', ['o3'], now);
+
+      expect(storedPoll('poll-1').counts).toEqual({ o1: 0, o2: 0, o3: 1 });
+      expect(storedPoll('poll-1').voterCount).toBe(1);
+      expect(storedPoll('poll-1').voters).toEqual({ o1: [], o3: ['bob'] });
+    });
+
+    it('should retract a vote with no options', async () => {
+      await service.vote('bob', 'chat-1', 'poll-2', ['o1', 'o2'], now);
+      await service.vote('bob', 'chat-1', 'poll-2', [], now);
+
+      expect(storedPoll('poll-2').counts).toEqual({ o1: 0, o2: 0, o3: 0 });
+      expect(storedPoll('poll-2').voterCount).toBe(0);
+      expect(db.docs.has('chats/chat-1/messages/poll-2/pollVotes/bob')).toBe(false);
+    });
+
+    it('should only allow several options in multiple-choice polls', async () => {
+      await expect(service.vote('bob', 'chat-1', 'poll-1', ['o1', 'o2'], now)).rejects.toThrow('only one choice');
+
+      const result = await service.vote('bob', 'chat-1', 'poll-2', ['o1', 'o2'], now);
+      expect(result.counts).toEqual({ o1: 1, o2: 1, o3: 0 });
+      expect(result.voterCount).toBe(1);
+    });
+
+    it('should reject unknown options, closed polls and non-members', async () => {
+      await expect(service.vote('bob', 'chat-1', 'poll-1', ['o9'], now)).rejects.toThrow('Unknown poll option');
+      await expect(service.vote('mallory', 'chat-1', 'poll-1', ['o1'], now)).rejects.toMatchObject({ code: 'permission-denied' });
+      await expect(service.vote('bob', 'chat-1', 'text-1', ['o1'], now)).rejects.toMatchObject({ code: 'not-found' });
+
+      db.docs.get('chats/chat-1/messages/poll-1')!.poll = poll({ closesAt: now });
+      await expect(service.vote('bob', 'chat-1', 'poll-1', ['o1'], now)).rejects.toMatchObject({
+        code: 'failed-precondition',
+        message: 'This poll is closed',
+      });
+    });
+  });
+
+  describe('close', () => {
+    it('should let only the creator close a poll', async () => {
+      await expect(service.close('bob', 'chat-1', 'poll-1', now)).rejects.toMatchObject({ code: 'permission-denied' });
+
+      const closed = await service.close('alice', 'chat-1', 'poll-1', now);
+      expect(closed.closedAt).toBe(now);
+      expect(storedPoll('poll-1').closedAt).toBe(now);
+
+      // Closing again keeps the original time
+      await expect(service.close('alice', 'chat-1', 'poll-1', now + 10)).resolves.toMatchObject({ closedAt: now });
+    });
+  });
+
+  describe('getRecentPollOutcomes', () => {
+    it('should describe the chat\'s polls, oldest first', async () => {
+      await service.vote('bob', 'chat-1', 'poll-1', ['o1'], now);
+      await service.vote('carol', 'chat-1', 'poll-1', ['o1'], now);
+      await service.close('alice', 'chat-1', 'poll-1', now);
+
+      await expect(service.getRecentPollOutcomes('chat-1', 10, now)).resolves.toEqual([
+        'Lunch? — Pizza: 2 votes (winner), Sushi: 0 votes, Tacos: 0 votes [closed, 2 voters]',
+        'Hike? — Pizza: 0 votes, Sushi: 0 votes, Tacos: 0 votes [open, 0 voters]',
+      ]);
+    });
+  });
+
+  describe('formatPollOutcome', () => {
+    it('should mark the leading option of an open poll', () => {
+      const voted = applyPollVote(poll(), 'bob', [], ['o2']);
+      expect(formatPollOutcome(voted, now)).toBe('Lunch? — Pizza: 0 votes, Sushi: 1 vote (leading), Tacos: 0 votes [open, 1 voter]');
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Poll Service
+ * Voting on poll messages, and poll outcomes for chat summaries
+ *
+ * A poll lives on its message (type 'poll', field poll). Each vote is stored
+ * in chats/{chatId}/messages/{messageId}/pollVotes/{userId} - readable only
+ * by the voter - and counted into the poll's results in the same transaction,
+ * so concurrent votes are never lost. Visible (non-anonymous) polls also list
+ * who voted for each option.
+ *
+ * Clients can't change a poll's results themselves (see firestore.rules).
+ */
+
+import * as admin from 'firebase-admin';
+
+export interface PollOption {
+  id: string;
+  text: string;
+}
+
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  allowsMultipleChoices: boolean;
+  anonymous: boolean;
+  closesAt: number | null;
+  closedAt: number | null;
+  counts: Record<string, number>;
+  voterCount: number;
+  voters?: Record<string, string[]> | null;
+}
+
+/**
+ * Error with a callable error code, so functions can pass it on to the client
+ */
+export class PollError extends Error {
+  constructor(
+    readonly code: 'invalid-argument' | 'not-found' | 'permission-denied' | 'failed-precondition',
+    message: string
+  ) {
+    super(message);
+    this.name = 'PollError';
+  }
+}
+
+/**
+ * Whether voting has ended (closed early, or past its closing time)
+ */
+export const isPollClosed = (poll: Poll, now: number = Date.now()): boolean =>
+  poll.closedAt !== null || (poll.closesAt !== null && poll.closesAt <= now);
+
+/**
+ * Results after a user changes their vote (same arithmetic as the app's
+ * optimistic update); an empty optionIds retracts the vote
+ */
+export const applyPollVote = (
+  poll: Poll,
+  userId: string,
+  previousOptionIds: string[],
+  optionIds: string[]
+): Poll => {
+  const counts = { ...poll.counts };
+  const voters = poll.voters
+    ? Object.fromEntries(Object.entries(poll.voters).map(([id, userIds]) => [id, userIds.filter((voter) => voter !== userId)]))
+    : null;
+
+  previousOptionIds.forEach((id) => {
+    counts[id] = Math.max(0, (counts[id] || 0) - 1);
+  });
+  optionIds.forEach((id) => {
+    counts[id] = (counts[id] || 0) + 1;
+    if (voters) {
+      voters[id] = [...(voters[id] || []), userId];
+    }
+  });
+
+  const hadVoted = previousOptionIds.length > 0;
+  const hasVoted = optionIds.length > 0;
+
+  return {
+    ...poll,
+    counts,
+    voterCount: Math.max(0, poll.voterCount + (hasVoted ? 1 : 0) - (hadVoted ? 1 : 0)),
+    ...(poll.anonymous ? {} : { voters }),
+  };
+};
+
+/**
+ * Outcome of a poll as a line for an AI prompt, e.g.
+ * "Lunch? — Pizza: 3 votes (leading), Sushi: 1 vote [closed, 4 voters]"
+ */
+export const formatPollOutcome = (poll: Poll, now: number = Date.now()): string => {
+  const topCount = Math.max(0, ...poll.options.map((option) => poll.counts[option.id] || 0));
+  const closed = isPollClosed(poll, now);
+
+  const results = poll.options
+    .map((option) => {
+      const count = poll.counts[option.id] || 0;
+      const votes = `${count} ${count === 1 ? 'vote' : 'votes'}`;
+      const leading = count > 0 && count === topCount ? ` (${closed ? 'winner' : 'leading'})` : '';
+      return `${option.text}: ${votes}${leading}`;
+    })
+    .join(', ');
+  const voters = `${poll.voterCount} ${poll.voterCount === 1 ? 'voter' : 'voters'}`;
+
+  return `${poll.question} — ${results} [${closed ? 'closed' : 'open'}, ${voters}]`;
+};
+
+export class PollService {
+  constructor(private readonly db: admin.firestore.Firestore = admin.firestore()) {}
+
+  /**
+   * Normalize the option IDs sent by a client
+   */
+  static validateOptionIds(value: unknown): string[] {
+    if (!Array.isArray(value) || value.some((id) => typeof id !== 'string')) {
+      throw new PollError('invalid-argument', 'optionIds must be an array of option IDs');
+    }
+    return Array.from(new Set(value as string[]));
+  }
+
+  /**
+   * Record a user's vote and update the poll's results
+   * Voting again replaces the previous vote; an empty optionIds retracts it
+   */
+  async vote(
+    userId: string,
+    chatId: string,
+    messageId: string,
+    optionIds: string[],
+    now: number = Date.now()
+  ): Promise<Poll> {
+    const chatRef = this.db.collection('chats').doc(chatId);
+    const messageRef = chatRef.collection('messages').doc(messageId);
+    const voteRef = messageRef.collection('pollVotes').doc(userId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const chatDoc = await transaction.get(chatRef);
+      const messageDoc = await transaction.get(messageRef);
+      const voteDoc = await transaction.get(voteRef);
+
+      this.assertParticipant(chatDoc, userId);
+      const poll = this.pollData(messageDoc);
+
+      if (isPollClosed(poll, now)) {
+        throw new PollError('failed-precondition', 'This poll is closed');
+      }
+
+      const optionIdSet = new Set(poll.options.map((option) => option.id));
+      if (optionIds.some((id) => !optionIdSet.has(id))) {
+        throw new PollError('invalid-argument', 'Unknown poll option');
+      }
+      if (!poll.allowsMultipleChoices && optionIds.length > 1) {
+        throw new PollError('invalid-argument', 'This poll allows only one choice');
+      }
+
+      const previousOptionIds: string[] = voteDoc.exists ? voteDoc.data()!.optionIds || [] : [];
+      const updatedPoll = applyPollVote(poll, userId, previousOptionIds, optionIds);
+
+      transaction.update(messageRef, {
+        poll: updatedPoll,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (optionIds.length > 0) {
+        transaction.set(voteRef, { optionIds, votedAt: now });
+      } else {
+        transaction.delete(voteRef);
+      }
+
+      return updatedPoll;
+    });
+  }
+
+  /**
+   * Close a poll before its closing time (the poll's creator only)
+   */
+  async close(userId: string, chatId: string, messageId: string, now: number = Date.now()): Promise<Poll> {
+    const messageRef = this.db.collection('chats').doc(chatId).collection('messages').doc(messageId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const messageDoc = await transaction.get(messageRef);
+      const poll = this.pollData(messageDoc);
+
+      if (messageDoc.data()!.senderId !== userId) {
+        throw new PollError('permission-denied', 'Only the poll\'s creator can close it');
+      }
+      if (isPollClosed(poll, now)) {
+        return poll;
+      }
+
+      const closedPoll = { ...poll, closedAt: now };
+      transaction.update(messageRef, {
+        poll: closedPoll,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return closedPoll;
+    });
+  }
+
+  /**
+   * Outcomes of the chat's most recent polls, oldest first, for summaries
+   */
+  async getRecentPollOutcomes(chatId: string, limit: number = 10, now: number = Date.now()): Promise<string[]> {
+    const snapshot = await this.db.collection('chats').doc(chatId).collection('messages')
+      .where('type', '==', 'poll')
+      .orderBy('timestamp', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs
+      .map((doc) => doc.data())
+      .filter((data) => data.poll && !data.deletedForEveryone)
+      .reverse()
+      .map((data) => formatPollOutcome(data.poll as Poll, now));
+  }
+
+  private assertParticipant(chatDoc: admin.firestore.DocumentSnapshot, userId: string): void {
+    if (!chatDoc.exists || !(chatDoc.data()!.participants || []).includes(userId)) {
+      throw new PollError('permission-denied', 'You are not a member of this chat');
+    }
+  }
+
+  private pollData(messageDoc: admin.firestore.DocumentSnapshot): Poll {
+    const data = messageDoc.data();
+    if (!messageDoc.exists || !data || data.type !== 'poll' || !data.poll || data.deletedForEveryone) {
+      throw new PollError('not-found', 'Poll not found');
+    }
+    return data.poll as Poll;
+  }
+}
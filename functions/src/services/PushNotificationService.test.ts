@@ -0,0 +1,220 @@
+/**
+ * Unit tests for PushNotificationService
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { PushMessage, PushNotificationService, PushSender, PushTicket } from './PushNotificationService';
+
+// Mock Firebase logger
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+/**
+ * PushSender that records messages and answers with preset tickets
+ */
+class FakePushSender implements PushSender {
+  sent: PushMessage[] = [];
+  tickets: PushTicket[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    this.sent.push(...messages);
+    return messages.map((_, i) => this.tickets[i] || { status: 'ok' });
+  }
+}
+
+const baseData = () => ({
+  'chats/chat-1': { type: 'one-on-one', participants: ['alice', 'bob'] },
+  'users/alice': { displayName: 'Alice' },
+  'users/bob': { fcmToken: 'ExponentPushToken[bob]', preferredLanguage: 'es' },
+});
+
+describe('PushNotificationService', () => {
+  let sender: FakePushSender;
+
+  beforeEach(() => {
+    sender = new FakePushSender();
+  });
+
+  const createService = (
+    db: FakeFirestore,
+    translator?: (text: string, language: string) => Promise<string | null>
+  ) => new PushNotificationService(sender, translator, db as unknown as admin.firestore.Firestore);
+
+  it('should notify other participants with a deep-link payload', async () => {
+    const service = createService(createFakeFirestore(baseData()));
+
+    const result = await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'Hola!', type: 'text' });
+
+    expect(result.sent).toBe(1);
+    expect(sender.sent).toEqual([expect.objectContaining({
+      to: 'ExponentPushToken[bob]',
+      title: 'Alice',
+      body: 'Hola!',
+      data: expect.objectContaining({ type: 'message', chatId: 'chat-1', userId: 'alice' }),
+    })]);
+  });
+
+  it('should skip recipients who have the chat open', async () => {
+    const data = baseData();
+    data['users/bob'] = { ...data['users/bob'], activeChatId: 'chat-1' } as any;
+    const service = createService(createFakeFirestore(data));
+
+    const result = await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'Hi', type: 'text' });
+
+    expect(result.skipped).toBe(1);
+    expect(sender.sent).toHaveLength(0);
+  });
+
+  it('should skip recipients who muted the chat', async () => {
+    const data: Record<string, Record<string, any>> = baseData();
+    data['chats/chat-1/participants/bob'] = { mutedUntil: 2_000_000 };
+    const service = createService(createFakeFirestore(data));
+
+    const muted = await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'Hi', type: 'text' }, 1_000_000);
+    expect(muted.skipped).toBe(1);
+    expect(sender.sent).toHaveLength(0);
+
+    // Mute expired
+    const expired = await service.notifyNewMessage('chat-1', 'msg-2', { senderId: 'alice', text: 'Hi', type: 'text' }, 3_000_000);
+    expect(expired.sent).toBe(1);
+  });
+
+  it('should skip recipients with do not disturb on', async () => {
+    const data = baseData();
+    data['users/bob'] = { ...data['users/bob'], doNotDisturb: true } as any;
+    const service = createService(createFakeFirestore(data));
+
+    const result = await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'Hi', type: 'text' });
+
+    expect(result.skipped).toBe(1);
+    expect(sender.sent).toHaveLength(0);
+  });
+
+  it('should skip recipients who blocked the sender', async () => {
+    const data: Record<string, Record<string, any>> = baseData();
+    data['users/bob/blockedUsers/alice'] = { userId: 'alice', blockedAt: 1000 };
+    const service = createService(createFakeFirestore(data));
+
+    const result = await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'Hi', type: 'text' });
+
+    expect(result.skipped).toBe(1);
+    expect(sender.sent).toHaveLength(0);
+  });
+
+  it('should localize media previews', async () => {
+    const service = createService(createFakeFirestore(baseData()));
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: '', type: 'voice' });
+
+    expect(sender.sent[0].body).toBe('🎤 Mensaje de voz');
+  });
+
+  it('should preview polls by their question', async () => {
+    const service = createService(createFakeFirestore(baseData()));
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: '', type: 'poll', poll: { question: 'Lunch?' } });
+
+    expect(sender.sent[0].body).toBe('📊 Lunch?');
+  });
+
+  it('should translate previews for users who opted in', async () => {
+    const data = baseData();
+    data['users/bob'] = { ...data['users/bob'], translateNotifications: true } as any;
+    const translator = jest.fn().mockResolvedValue('¿Nos vemos mañana?');
+    const service = createService(createFakeFirestore(data), translator);
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'See you tomorrow?', type: 'text' });
+
+    expect(translator).toHaveBeenCalledWith('See you tomorrow?', 'es');
+    expect(sender.sent[0].body).toBe('¿Nos vemos mañana?');
+  });
+
+  it('should not reveal or translate encrypted messages', async () => {
+    const data = baseData();
+    data['users/bob'] = { ...data['users/bob'], translateNotifications: true } as any;
+    const translator = jest.fn();
+    const service = createService(createFakeFirestore(data), translator);
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: '', type: 'text', encrypted: true });
+
+    expect(translator).not.toHaveBeenCalled();
+    expect(sender.sent[0].body).toBe('🔒 Mensaje cifrado');
+  });
+
+  it('should collapse a burst into one notification per chat', async () => {
+    const db = createFakeFirestore(baseData());
+    const service = createService(db);
+    const now = 1_000_000;
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'One', type: 'text' }, now);
+    const second = await service.notifyNewMessage('chat-1', 'msg-2', { senderId: 'alice', text: 'Two', type: 'text' }, now + 1000);
+    await service.notifyNewMessage('chat-1', 'msg-3', { senderId: 'alice', text: 'Three', type: 'text' }, now + 2000);
+
+    expect(second.collapsed).toBe(1);
+    expect(sender.sent).toHaveLength(1);
+
+    // After the window, the next notification summarizes the held-back messages
+    await service.notifyNewMessage('chat-1', 'msg-4', { senderId: 'alice', text: 'Four', type: 'text' }, now + 60_000);
+    expect(sender.sent).toHaveLength(2);
+    expect(sender.sent[1].body).toBe('3 mensajes nuevos');
+  });
+
+  it('should summarize the end of a burst once its window closes', async () => {
+    const db = createFakeFirestore(baseData());
+    const service = createService(db);
+    const now = 1_000_000;
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'One', type: 'text' }, now);
+    await service.notifyNewMessage('chat-1', 'msg-2', { senderId: 'alice', text: 'Two', type: 'text' }, now + 1000);
+    await service.notifyNewMessage('chat-1', 'msg-3', { senderId: 'alice', text: 'Three', type: 'text' }, now + 2000);
+
+    // Window still open
+    await service.sendHeldBackSummaries(now + 10_000);
+    expect(sender.sent).toHaveLength(1);
+
+    const result = await service.sendHeldBackSummaries(now + 31_000);
+    expect(result.sent).toBe(1);
+    expect(sender.sent[1]).toEqual(expect.objectContaining({
+      to: 'ExponentPushToken[bob]',
+      title: 'Alice',
+      body: '2 mensajes nuevos',
+      data: expect.objectContaining({ chatId: 'chat-1', messageId: 'msg-3' }),
+    }));
+
+    // Sent once, and the next message starts from zero
+    await service.sendHeldBackSummaries(now + 32_000);
+    expect(sender.sent).toHaveLength(2);
+    await service.notifyNewMessage('chat-1', 'msg-4', { senderId: 'alice', text: 'Four', type: 'text' }, now + 90_000);
+    expect(sender.sent[2].body).toBe('Four');
+  });
+
+  it('should not send summaries to recipients who opened the chat since', async () => {
+    const db = createFakeFirestore(baseData());
+    const service = createService(db);
+    const now = 1_000_000;
+
+    await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'One', type: 'text' }, now);
+    await service.notifyNewMessage('chat-1', 'msg-2', { senderId: 'alice', text: 'Two', type: 'text' }, now + 1000);
+    db.docs.set('users/bob', { ...db.docs.get('users/bob'), activeChatId: 'chat-1' });
+
+    const result = await service.sendHeldBackSummaries(now + 31_000);
+
+    expect(result.skipped).toBe(1);
+    expect(sender.sent).toHaveLength(1);
+  });
+
+  it('should prune tokens that are no longer registered', async () => {
+    const db = createFakeFirestore(baseData());
+    sender.tickets = [{ status: 'error', error: 'DeviceNotRegistered' }];
+    const service = createService(db);
+
+    const result = await service.notifyNewMessage('chat-1', 'msg-1', { senderId: 'alice', text: 'Hi', type: 'text' });
+
+    expect(result.prunedTokens).toBe(1);
+    expect(db.docs.get('users/bob')?.fcmToken).toBeNull();
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * Push Notification Service
+ * Fans out push notifications for new chat messages
+ *
+ * For each recipient:
+ * - Skips users without a push token, who have the chat open (activeChatId),
+ *   who muted it (participants.mutedUntil) or turned on do not disturb (users.doNotDisturb)
+ * - Skips users who blocked the sender (users/{id}/blockedUsers/{senderId})
+ * - Collapses bursts: one notification per chat per COLLAPSE_WINDOW_MS;
+ *   messages held back within the window are summarized once it closes
+ *   (sendHeldBackSummaries, run on a schedule) or by the next notification
+ * - Localizes media previews and optionally translates text previews
+ *   into the recipient's preferredLanguage (users.translateNotifications)
+ * - Shows a generic preview for end-to-end encrypted messages
+ * - Clears tokens the push service reports as no longer registered
+ *
+ * Delivery goes through a PushSender so tests can substitute a fake.
+ * Tokens are Expo push tokens (stored as users.fcmToken by the app), which
+ * Expo forwards to FCM / APNs.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_BATCH_SIZE = 100; // Expo accepts at most 100 messages per request
+const COLLAPSE_WINDOW_MS = 30 * 1000;
+const SUMMARY_BATCH_SIZE = 200;
+const MAX_PREVIEW_LENGTH = 100;
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  sound?: 'default' | null;
+  priority?: 'default' | 'normal' | 'high';
+  channelId?: string;
+}
+
+export type PushTicket =
+  | { status: 'ok'; id?: string }
+  | { status: 'error'; message?: string; error?: string };
+
+/**
+ * Sends push messages and returns one ticket per message (same order)
+ */
+export interface PushSender {
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+}
+
+/**
+ * Translate a preview; return null to keep the original text
+ */
+export type PreviewTranslator = (text: string, targetLanguage: string) => Promise<string | null>;
+
+/**
+ * PushSender backed by the Expo push service
+ */
+export class ExpoPushSender implements PushSender {
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(batch),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Expo push request failed with status ${response.status}`);
+      }
+
+      const result = await response.json() as { data: { status: 'ok' | 'error'; id?: string; message?: string; details?: { error?: string } }[] };
+      tickets.push(...result.data.map((ticket): PushTicket => ticket.status === 'ok'
+        ? { status: 'ok', id: ticket.id }
+        : { status: 'error', message: ticket.message, error: ticket.details?.error }
+      ));
+    }
+
+    return tickets;
+  }
+}
+
+interface NotificationStrings {
+  photo: string;
+  voice: string;
+  file: string;
+  encrypted: string;
+  newMessages: (count: number) => string;
+}
+
+/**
+ * Localized preview strings (falls back to English)
+ */
+const NOTIFICATION_STRINGS: Record<string, NotificationStrings> = {
+  en: { photo: 'Photo', voice: 'Voice message', file: 'File', encrypted: 'Encrypted message', newMessages: (n) => `${n} new messages` },
+  es: { photo: 'Foto', voice: 'Mensaje de voz', file: 'Archivo', encrypted: 'Mensaje cifrado', newMessages: (n) => `${n} mensajes nuevos` },
+  fr: { photo: 'Photo', voice: 'Message vocal', file: 'Fichier', encrypted: 'Message chiffré', newMessages: (n) => `${n} nouveaux messages` },
+  de: { photo: 'Foto', voice: 'Sprachnachricht', file: 'Datei', encrypted: 'Verschlüsselte Nachricht', newMessages: (n) => `${n} neue Nachrichten` },
+  it: { photo: 'Foto', voice: 'Messaggio vocale', file: 'File', encrypted: 'Messaggio crittografato', newMessages: (n) => `${n} nuovi messaggi` },
+  pt: { photo: 'Foto', voice: 'Mensagem de voz', file: 'Arquivo', encrypted: 'Mensagem criptografada', newMessages: (n) => `${n} novas mensagens` },
+  ru: { photo: 'Фото', voice: 'Голосовое сообщение', file: 'Файл', encrypted: 'Зашифрованное сообщение', newMessages: (n) => `Новых сообщений: ${n}` },
+  ja: { photo: '写真', voice: 'ボイスメッセージ', file: 'ファイル', encrypted: '暗号化されたメッセージ', newMessages: (n) => `${n}件の新着メッセージ` },
+  ko: { photo: '사진', voice: '음성 메시지', file: '파일', encrypted: '암호화된 메시지', newMessages: (n) => `새 메시지 ${n}개` },
+  zh: { photo: '照片', voice: '语音消息', file: '文件', encrypted: '加密消息', newMessages: (n) => `${n} 条新消息` },
+  ar: { photo: 'صورة', voice: 'رسالة صوتية', file: 'ملف', encrypted: 'رسالة مشفرة', newMessages: (n) => `${n} رسائل جديدة` },
+  hi: { photo: 'फ़ोटो', voice: 'वॉइस मैसेज', file: 'फ़ाइल', encrypted: 'एन्क्रिप्टेड संदेश', newMessages: (n) => `${n} नए संदेश` },
+};
+
+export const getNotificationStrings = (language?: string): NotificationStrings =>
+  NOTIFICATION_STRINGS[language?.split('-')[0] || 'en'] || NOTIFICATION_STRINGS.en;
+
+/**
+ * Fields of a message document used to build the notification
+ */
+export interface NotificationMessage {
+  senderId: string;
+  text?: string;
+  type?: string;
+  caption?: string | null;
+  fileName?: string | null;
+  poll?: { question: string } | null;
+  encrypted?: boolean;
+}
+
+interface Recipient {
+  id: string;
+  token: string;
+  language: string;
+  translate: boolean;
+}
+
+export interface FanOutResult {
+  sent: number;
+  skipped: number;
+  collapsed: number;
+  prunedTokens: number;
+}
+
+/**
+ * Per-recipient, per-chat collapse state (users/{userId}/notificationState/{chatId})
+ */
+interface NotificationState {
+  lastNotifiedAt?: number;
+  heldBack?: number;
+  // When the held back messages are due to be summarized (null once they were)
+  summaryDueAt?: number | null;
+  userId?: string;
+  chatId?: string;
+  lastSenderId?: string;
+  lastMessageId?: string;
+}
+
+/**
+ * Whether a recipient should be notified about a chat at all:
+ * a device is registered, the chat isn't open, muted or silenced by do not disturb
+ */
+const isNotifiable = (
+  user: admin.firestore.DocumentData | undefined,
+  participant: admin.firestore.DocumentData | undefined,
+  chatId: string,
+  now: number
+): boolean => {
+  const mutedUntil: number | null = participant?.mutedUntil ?? null;
+  return !!user?.fcmToken &&
+    user.activeChatId !== chatId &&
+    !(mutedUntil !== null && mutedUntil > now) &&
+    user.doNotDisturb !== true;
+};
+
+const toRecipient = (id: string, user: admin.firestore.DocumentData): Recipient => ({
+  id,
+  token: user.fcmToken,
+  language: user.preferredLanguage || 'en',
+  translate: user.translateNotifications === true,
+});
+
+const truncate = (text: string): string =>
+  text.length > MAX_PREVIEW_LENGTH ? `${text.substring(0, MAX_PREVIEW_LENGTH - 1)}…` : text;
+
+export class PushNotificationService {
+  constructor(
+    private readonly sender: PushSender = new ExpoPushSender(),
+    private readonly translator?: PreviewTranslator,
+    private readonly db: admin.firestore.Firestore = admin.firestore()
+  ) {}
+
+  /**
+   * Notify every other participant about a new message
+   */
+  async notifyNewMessage(
+    chatId: string,
+    messageId: string,
+    message: NotificationMessage,
+    now: number = Date.now()
+  ): Promise<FanOutResult> {
+    const result: FanOutResult = { sent: 0, skipped: 0, collapsed: 0, prunedTokens: 0 };
+
+    const chatDoc = await this.db.collection('chats').doc(chatId).get();
+    if (!chatDoc.exists) {
+      return result;
+    }
+
+    const chat = chatDoc.data()!;
+    const isGroup = chat.type === 'group';
+    const recipientIds: string[] = (chat.participants || []).filter((id: string) => id !== message.senderId);
+    if (recipientIds.length === 0) {
+      return result;
+    }
+
+    const userRefs = [message.senderId, ...recipientIds].map((id) => this.db.collection('users').doc(id));
+    const participantRefs = recipientIds.map((id) => chatDoc.ref.collection('participants').doc(id));
+    const blockRefs = recipientIds.map((id) =>
+      this.db.collection('users').doc(id).collection('blockedUsers').doc(message.senderId)
+    );
+    const [senderDoc, ...recipientDocs] = await this.db.getAll(...userRefs);
+    const participantDocs = await this.db.getAll(...participantRefs);
+    const blockDocs = await this.db.getAll(...blockRefs);
+    const senderName: string = senderDoc.data()?.displayName || senderDoc.data()?.username || 'Someone';
+
+    const recipients: Recipient[] = [];
+    for (let i = 0; i < recipientDocs.length; i++) {
+      const recipientDoc = recipientDocs[i];
+      const data = recipientDoc.data();
+      // Also skipped when the recipient blocked the sender
+      if (!isNotifiable(data, participantDocs[i].data(), chatId, now) || blockDocs[i].exists) {
+        result.skipped++;
+        continue;
+      }
+      recipients.push(toRecipient(recipientDoc.id, data!));
+    }
+
+    const translatedPreviews = new Map<string, Promise<string | null>>();
+    const messages: PushMessage[] = [];
+    const messageRecipients: Recipient[] = [];
+
+    for (const recipient of recipients) {
+      const heldBack = await this.claimNotificationSlot(recipient.id, chatId, messageId, message.senderId, now);
+      if (heldBack === null) {
+        result.collapsed++;
+        continue;
+      }
+
+      const strings = getNotificationStrings(recipient.language);
+      let preview: string;
+      if (heldBack > 0) {
+        preview = strings.newMessages(heldBack + 1);
+      } else {
+        preview = await this.getPreview(message, recipient, strings, translatedPreviews);
+      }
+
+      messages.push({
+        to: recipient.token,
+        title: isGroup && chat.groupName ? chat.groupName : senderName,
+        body: isGroup && heldBack === 0 ? `${senderName}: ${preview}` : preview,
+        data: {
+          type: isGroup ? 'group_message' : 'message',
+          chatId,
+          messageId,
+          userId: message.senderId,
+          ...(isGroup && { groupId: chatId }),
+        },
+        sound: 'default',
+        priority: 'high',
+        channelId: 'default',
+      });
+      messageRecipients.push(recipient);
+    }
+
+    await this.deliver(chatId, messages, messageRecipients, result);
+    return result;
+  }
+
+  /**
+   * Send the "N new messages" summary for every burst whose collapse window closed
+   * Without it, messages held back at the end of a burst would never be announced.
+   */
+  async sendHeldBackSummaries(now: number = Date.now()): Promise<FanOutResult> {
+    const result: FanOutResult = { sent: 0, skipped: 0, collapsed: 0, prunedTokens: 0 };
+
+    const dueSnap = await this.db.collectionGroup('notificationState')
+      .where('summaryDueAt', '<=', now)
+      .limit(SUMMARY_BATCH_SIZE)
+      .get();
+
+    for (const stateDoc of dueSnap.docs) {
+      const { userId, chatId } = stateDoc.data() as NotificationState;
+      if (!userId || !chatId) {
+        continue;
+      }
+
+      const state = await this.claimSummary(stateDoc.ref, now);
+      if (!state) {
+        continue;
+      }
+
+      const chatRef = this.db.collection('chats').doc(chatId);
+      const [chatDoc, userDoc, participantDoc, senderDoc] = await this.db.getAll(
+        chatRef,
+        this.db.collection('users').doc(userId),
+        chatRef.collection('participants').doc(userId),
+        this.db.collection('users').doc(state.lastSenderId || userId)
+      );
+      const chat = chatDoc.data();
+      const data = userDoc.data();
+      if (!chat || !(chat.participants || []).includes(userId) || !isNotifiable(data, participantDoc.data(), chatId, now)) {
+        result.skipped++;
+        continue;
+      }
+
+      const recipient = toRecipient(userId, data!);
+      const isGroup = chat.type === 'group';
+      const senderName: string = senderDoc.data()?.displayName || senderDoc.data()?.username || 'Someone';
+
+      await this.deliver(chatId, [{
+        to: recipient.token,
+        title: isGroup && chat.groupName ? chat.groupName : senderName,
+        body: getNotificationStrings(recipient.language).newMessages(state.heldBack!),
+        data: {
+          type: isGroup ? 'group_message' : 'message',
+          chatId,
+          messageId: state.lastMessageId,
+          userId: state.lastSenderId,
+          ...(isGroup && { groupId: chatId }),
+        },
+        sound: 'default',
+        priority: 'high',
+        channelId: 'default',
+      }], [recipient], result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send the messages and prune tokens the push service rejects as unregistered
+   */
+  private async deliver(
+    chatId: string,
+    messages: PushMessage[],
+    messageRecipients: Recipient[],
+    result: FanOutResult
+  ): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const tickets = await this.sender.send(messages);
+
+    for (let i = 0; i < tickets.length; i++) {
+      const ticket = tickets[i];
+      if (ticket.status === 'ok') {
+        result.sent++;
+        continue;
+      }
+
+      logger.warn('Push notification rejected', {
+        chatId,
+        recipientId: messageRecipients[i].id,
+        error: ticket.error,
+        message: ticket.message,
+      });
+
+      if (ticket.error === 'DeviceNotRegistered') {
+        await this.pruneToken(messageRecipients[i].id, messageRecipients[i].token);
+        result.prunedTokens++;
+      }
+    }
+  }
+
+  /**
+   * Reserve the recipient's notification slot for this chat
+   * Returns how many notifications were held back since the last one,
+   * or null if one was sent within the collapse window (the message is then
+   * left for the summary when the window closes)
+   */
+  private async claimNotificationSlot(
+    recipientId: string,
+    chatId: string,
+    messageId: string,
+    senderId: string,
+    now: number
+  ): Promise<number | null> {
+    const stateRef = this.db.collection('users').doc(recipientId).collection('notificationState').doc(chatId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const state = (await transaction.get(stateRef)).data() as NotificationState | undefined;
+
+      if (state?.lastNotifiedAt && now - state.lastNotifiedAt < COLLAPSE_WINDOW_MS) {
+        const heldBack: NotificationState = {
+          heldBack: (state.heldBack || 0) + 1,
+          summaryDueAt: state.lastNotifiedAt + COLLAPSE_WINDOW_MS,
+          userId: recipientId,
+          chatId,
+          lastSenderId: senderId,
+          lastMessageId: messageId,
+        };
+        transaction.set(stateRef, heldBack, { merge: true });
+        return null;
+      }
+
+      const notified: NotificationState = { lastNotifiedAt: now, heldBack: 0, summaryDueAt: null };
+      transaction.set(stateRef, notified);
+      return state?.heldBack || 0;
+    });
+  }
+
+  /**
+   * Claim a due summary so overlapping runs send it once
+   * Starts a new collapse window, since the summary is a notification too.
+   * Returns the state the summary is for, or null if there is nothing left to send
+   */
+  private async claimSummary(
+    stateRef: admin.firestore.DocumentReference,
+    now: number
+  ): Promise<NotificationState | null> {
+    return this.db.runTransaction(async (transaction) => {
+      const state = (await transaction.get(stateRef)).data() as NotificationState | undefined;
+      if (!state?.heldBack || state.summaryDueAt == null || state.summaryDueAt > now) {
+        return null;
+      }
+
+      transaction.set(stateRef, { lastNotifiedAt: now, heldBack: 0, summaryDueAt: null }, { merge: true });
+      return state;
+    });
+  }
+
+  /**
+   * Preview text for a message in the recipient's language
+   */
+  private async getPreview(
+    message: NotificationMessage,
+    recipient: Recipient,
+    strings: NotificationStrings,
+    translatedPreviews: Map<string, Promise<string | null>>
+  ): Promise<string> {
+    switch (message.type) {
+      case 'image':
+        return truncate(`📷 ${message.caption || strings.photo}`);
+      case 'voice':
+        return `🎤 ${strings.voice}`;
+      case 'file':
+        return truncate(`📎 ${message.fileName || strings.file}`);
+      case 'poll':
+        return truncate(`📊 ${message.poll?.question || ''}`);
+    }
+
+    // The server can't read (or translate) end-to-end encrypted text
+    if (message.encrypted) {
+      return `🔒 ${strings.encrypted}`;
+    }
+
+    const text = truncate(message.text || '');
+    if (!text || !recipient.translate || !this.translator) {
+      return text;
+    }
+
+    // Translate once per language for the whole fan-out
+    if (!translatedPreviews.has(recipient.language)) {
+      translatedPreviews.set(
+        recipient.language,
+        this.translator(text, recipient.language).catch((error) => {
+          logger.warn('Notification preview translation failed', {
+            language: recipient.language,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        })
+      );
+    }
+
+    return (await translatedPreviews.get(recipient.language)) || text;
+  }
+
+  /**
+   * Remove a token the push service no longer accepts
+   * Only clears it if the user hasn't registered a new one meanwhile
+   */
+  private async pruneToken(userId: string, token: string): Promise<void> {
+    const userRef = this.db.collection('users').doc(userId);
+
+    await this.db.runTransaction(async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      if (userDoc.data()?.fcmToken === token) {
+        transaction.update(userRef, {
+          fcmToken: null,
+          lastTokenUpdate: new Date().toISOString(),
+        });
+      }
+    });
+
+    logger.info('Pruned unregistered push token', { userId });
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for ScheduledMessageService
+ */
+
+import * as admin from 'firebase-admin';
+import { ScheduledMessageService } from './ScheduledMessageService';
+
+// Mock Firebase logger
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+// Minimal Firestore stand-in for the chat being delivered to
+const mockMessageSet = jest.fn();
+const mockParticipantUpdate = jest.fn();
+const mockChatUpdate = jest.fn();
+const mockChatGet = jest.fn();
+const mockParticipantGet = jest.fn();
+const mockTransactionGet = jest.fn();
+const mockTransactionUpdate = jest.fn();
+
+jest.mock('firebase-admin', () => {
+  const firestore = () => ({
+    collection: () => ({
+      doc: () => ({
+        get: mockChatGet,
+        update: mockChatUpdate,
+        collection: (name: string) => ({
+          doc: () => name === 'messages'
+            ? { set: mockMessageSet }
+            : { get: mockParticipantGet, update: mockParticipantUpdate },
+        }),
+      }),
+    }),
+    runTransaction: (fn: (transaction: unknown) => Promise<unknown>) =>
+      fn({ get: mockTransactionGet, update: mockTransactionUpdate }),
+  });
+  firestore.FieldValue = {
+    serverTimestamp: jest.fn(() => 'SERVER_TIMESTAMP'),
+    increment: jest.fn((n: number) => ({ increment: n })),
+  };
+  return { firestore };
+});
+
+const scheduled = {
+  senderId: 'alice',
+  text: 'Happy birthday!',
+  scheduledFor: 1000,
+  status: 'pending' as const,
+  replyToId: null,
+  replyPreview: null,
+};
+
+describe('ScheduledMessageService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('claim', () => {
+    const ref = {} as admin.firestore.DocumentReference;
+
+    it('should mark a due pending message as sending', async () => {
+      mockTransactionGet.mockResolvedValue({ data: () => scheduled });
+
+      await expect(ScheduledMessageService.claim(ref, 2000)).resolves.toEqual(scheduled);
+      expect(mockTransactionUpdate).toHaveBeenCalledWith(ref, expect.objectContaining({ status: 'sending' }));
+    });
+
+    it('should skip messages that were rescheduled or already claimed', async () => {
+      mockTransactionGet.mockResolvedValueOnce({ data: () => ({ ...scheduled, scheduledFor: 5000 }) });
+      mockTransactionGet.mockResolvedValueOnce({ data: () => ({ ...scheduled, status: 'sending' }) });
+
+      await expect(ScheduledMessageService.claim(ref, 2000)).resolves.toBeNull();
+      await expect(ScheduledMessageService.claim(ref, 2000)).resolves.toBeNull();
+      expect(mockTransactionUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should send as the original sender and update chat bookkeeping', async () => {
+      mockChatGet.mockResolvedValue({ exists: true, data: () => ({ participants: ['alice', 'bob'] }) });
+      mockParticipantGet.mockResolvedValue({ exists: true });
+
+      await ScheduledMessageService.deliver('chat-1', 'scheduled-1', scheduled);
+
+      expect(mockMessageSet).toHaveBeenCalledWith(expect.objectContaining({
+        senderId: 'alice',
+        text: 'Happy birthday!',
+        type: 'text',
+        status: 'sent',
+      }));
+      expect(mockParticipantUpdate).toHaveBeenCalledTimes(1);
+      expect(mockParticipantUpdate).toHaveBeenCalledWith({ unreadCount: { increment: 1 } });
+      expect(mockChatUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        lastMessageText: 'Happy birthday!',
+        lastMessageSenderId: 'alice',
+        lastMessageStatus: 'sent',
+      }));
+    });
+
+    it('should refuse to send for someone who left the chat', async () => {
+      mockChatGet.mockResolvedValue({ exists: true, data: () => ({ participants: ['bob', 'carol'] }) });
+
+      await expect(ScheduledMessageService.deliver('chat-1', 'scheduled-1', scheduled))
+        .rejects.toThrow('Sender is no longer a participant');
+      expect(mockMessageSet).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to send for muted members and non-admins of admin-only groups', async () => {
+      const group = { type: 'group', participants: ['alice', 'bob'], groupAdminIds: ['bob'] };
+      mockChatGet.mockResolvedValueOnce({ exists: true, data: () => ({ ...group, mutedMemberIds: ['alice'] }) });
+      mockChatGet.mockResolvedValueOnce({ exists: true, data: () => ({ ...group, groupSettings: { onlyAdminsCanPost: true } }) });
+
+      await expect(ScheduledMessageService.deliver('chat-1', 'scheduled-1', scheduled))
+        .rejects.toThrow('Sender can no longer post in this chat');
+      await expect(ScheduledMessageService.deliver('chat-1', 'scheduled-1', scheduled))
+        .rejects.toThrow('Sender can no longer post in this chat');
+      expect(mockMessageSet).not.toHaveBeenCalled();
+    });
+
+    it('should let admins post in admin-only groups', async () => {
+      mockChatGet.mockResolvedValue({
+        exists: true,
+        data: () => ({ type: 'group', participants: ['alice', 'bob'], groupAdminId: 'alice', groupSettings: { onlyAdminsCanPost: true } }),
+      });
+      mockParticipantGet.mockResolvedValue({ exists: true });
+
+      await ScheduledMessageService.deliver('chat-1', 'scheduled-1', scheduled);
+
+      expect(mockMessageSet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse to send plaintext into an end-to-end encrypted chat', async () => {
+      mockChatGet.mockResolvedValue({ exists: true, data: () => ({ participants: ['alice', 'bob'], encrypted: true }) });
+
+      await expect(ScheduledMessageService.deliver('chat-1', 'scheduled-1', scheduled))
+        .rejects.toThrow('Chat is end-to-end encrypted');
+      expect(mockMessageSet).not.toHaveBeenCalled();
+    });
+  });
+});
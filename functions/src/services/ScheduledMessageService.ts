@@ -0,0 +1,201 @@
+/**
+ * Scheduled Message Service
+ * Delivers send-later messages from chats/{chatId}/scheduledMessages
+ *
+ * Delivery mirrors a client-side send:
+ * - Message document written as the original sender (same ID as the scheduled message)
+ * - Unread counts incremented for the other participants
+ * - Chat last message text / time / sender / status updated
+ *
+ * The admin SDK bypasses security rules, so delivery re-checks what the rules
+ * enforce for a client send: membership, muted members, admin-only groups.
+ *
+ * Each scheduled message is claimed in a transaction (pending → sending) so
+ * overlapping runs never deliver it twice, and removed once delivered.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+
+const MAX_MESSAGES_PER_RUN = 200;
+
+export interface ScheduledMessageData {
+  senderId: string;
+  text: string;
+  scheduledFor: number;
+  status: 'pending' | 'sending' | 'failed';
+  replyToId?: string | null;
+  replyPreview?: Record<string, unknown> | null;
+}
+
+export interface DeliveryResult {
+  delivered: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Whether a user may post a regular message, like canPostTo in firestore.rules
+ * (groups created before groupAdminIds only have groupAdminId)
+ */
+const canPostTo = (chat: admin.firestore.DocumentData, userId: string): boolean => {
+  if (chat.type !== 'group') {
+    return true;
+  }
+  const adminIds: string[] = chat.groupAdminIds ?? (chat.groupAdminId ? [chat.groupAdminId] : []);
+  return !(chat.mutedMemberIds || []).includes(userId) &&
+    (chat.groupSettings?.onlyAdminsCanPost !== true || adminIds.includes(userId));
+};
+
+export class ScheduledMessageService {
+  /**
+   * Deliver every pending scheduled message that is due
+   */
+  static async deliverDueMessages(now: number = Date.now()): Promise<DeliveryResult> {
+    const db = admin.firestore();
+    const result: DeliveryResult = { delivered: 0, failed: 0, skipped: 0 };
+
+    const dueSnapshot = await db.collectionGroup('scheduledMessages')
+      .where('status', '==', 'pending')
+      .where('scheduledFor', '<=', now)
+      .orderBy('scheduledFor', 'asc')
+      .limit(MAX_MESSAGES_PER_RUN)
+      .get();
+
+    for (const scheduledDoc of dueSnapshot.docs) {
+      const chatId = scheduledDoc.ref.parent.parent?.id;
+      if (!chatId) {
+        result.skipped++;
+        continue;
+      }
+
+      const claimed = await this.claim(scheduledDoc.ref, now);
+      if (!claimed) {
+        // Edited, cancelled or picked up by another run in the meantime
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.deliver(chatId, scheduledDoc.id, claimed);
+        await scheduledDoc.ref.delete();
+        result.delivered++;
+      } catch (error) {
+        logger.error('Failed to deliver scheduled message', {
+          chatId,
+          scheduledMessageId: scheduledDoc.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await scheduledDoc.ref.update({
+          status: 'failed',
+          error: 'Message could not be delivered',
+          updatedAt: Date.now(),
+        });
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move a due message from pending to sending
+   * Returns its data, or null if it is no longer pending and due
+   */
+  static async claim(
+    ref: admin.firestore.DocumentReference,
+    now: number
+  ): Promise<ScheduledMessageData | null> {
+    return admin.firestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const data = snapshot.data() as ScheduledMessageData | undefined;
+
+      if (!data || data.status !== 'pending' || data.scheduledFor > now) {
+        return null;
+      }
+
+      transaction.update(ref, { status: 'sending', updatedAt: Date.now() });
+      return data;
+    });
+  }
+
+  /**
+   * Write the message as the original sender and update chat bookkeeping
+   */
+  static async deliver(
+    chatId: string,
+    messageId: string,
+    scheduled: ScheduledMessageData
+  ): Promise<void> {
+    const db = admin.firestore();
+    const chatRef = db.collection('chats').doc(chatId);
+    const chatDoc = await chatRef.get();
+
+    if (!chatDoc.exists) {
+      throw new Error('Chat no longer exists');
+    }
+
+    const participants: string[] = chatDoc.data()?.participants || [];
+    if (!participants.includes(scheduled.senderId)) {
+      throw new Error('Sender is no longer a participant');
+    }
+
+    // Muted since it was scheduled, or the group became admin-only
+    if (!canPostTo(chatDoc.data()!, scheduled.senderId)) {
+      throw new Error('Sender can no longer post in this chat');
+    }
+
+    // Scheduled before encryption was turned on - sending it would put plaintext in the chat
+    if (chatDoc.data()?.encrypted === true) {
+      throw new Error('Chat is end-to-end encrypted');
+    }
+
+    // Same shape as a text message sent from the app
+    await chatRef.collection('messages').doc(messageId).set({
+      senderId: scheduled.senderId,
+      text: scheduled.text,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      status: 'sent',
+      type: 'text',
+      imageUrl: null,
+      thumbnailUrl: null,
+      caption: null,
+      reactions: {},
+      deletedFor: [],
+      deletedForEveryone: false,
+      deletedAt: null,
+      ...(scheduled.replyToId && {
+        replyToId: scheduled.replyToId,
+        replyPreview: scheduled.replyPreview || null,
+      }),
+    });
+
+    // Increment unread counts for other participants
+    const recipients = participants.filter((id) => id !== scheduled.senderId);
+    for (const recipientId of recipients) {
+      const participantRef = chatRef.collection('participants').doc(recipientId);
+      const participantDoc = await participantRef.get();
+      if (participantDoc.exists) {
+        await participantRef.update({
+          unreadCount: admin.firestore.FieldValue.increment(1),
+        });
+      }
+    }
+
+    // Update last message in chat (after unread counts, like the app does)
+    await chatRef.update({
+      lastMessageText: scheduled.text,
+      lastMessageTime: Date.now(),
+      lastMessageSenderId: scheduled.senderId,
+      lastMessageStatus: 'sent',
+    });
+
+    logger.info('Delivered scheduled message', {
+      chatId,
+      messageId,
+      senderId: scheduled.senderId,
+      recipients: recipients.length,
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for SpeechToTextService
+ */
+
+import {
+  LocalStubSpeechToTextProvider,
+  OpenAIWhisperProvider,
+  SpeechToTextProvider,
+  SpeechToTextService,
+} from './SpeechToTextService';
+
+// Mock Firebase logger
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+}));
+
+const options = { mimeType: 'audio/mp4', fileName: 'voice.m4a' };
+
+describe('SpeechToTextService', () => {
+  afterEach(() => {
+    SpeechToTextService.setProvider(null);
+    delete process.env.SPEECH_TO_TEXT_PROVIDER;
+  });
+
+  describe('transcribe', () => {
+    it('should transcribe with the active provider', async () => {
+      const stub = new LocalStubSpeechToTextProvider('  Hola, ¿qué tal?  ', 'es');
+      SpeechToTextService.setProvider(stub);
+
+      const result = await SpeechToTextService.transcribe(Buffer.from('audio-bytes'), options);
+
+      expect(result.text).toBe('Hola, ¿qué tal?');
+      expect(result.language).toBe('es');
+      expect(stub.calls).toEqual([{ size: 11, options }]);
+    });
+
+    it('should reject empty audio without calling the provider', async () => {
+      const stub = new LocalStubSpeechToTextProvider();
+      SpeechToTextService.setProvider(stub);
+
+      await expect(SpeechToTextService.transcribe(Buffer.alloc(0), options))
+        .rejects.toThrow('Audio is empty');
+      expect(stub.calls).toHaveLength(0);
+    });
+
+    it('should rethrow provider errors', async () => {
+      const failing: SpeechToTextProvider = {
+        name: 'failing',
+        transcribe: jest.fn().mockRejectedValue(new Error('Provider unavailable')),
+      };
+      SpeechToTextService.setProvider(failing);
+
+      await expect(SpeechToTextService.transcribe(Buffer.from('audio'), options))
+        .rejects.toThrow('Provider unavailable');
+    });
+  });
+
+  describe('getProvider', () => {
+    it('should use the local stub when configured in the environment', () => {
+      process.env.SPEECH_TO_TEXT_PROVIDER = 'stub';
+
+      expect(SpeechToTextService.getProvider()).toBeInstanceOf(LocalStubSpeechToTextProvider);
+    });
+
+    it('should default to Whisper', () => {
+      expect(SpeechToTextService.getProvider()).toBeInstanceOf(OpenAIWhisperProvider);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Speech-to-Text Service
+ * Transcribes voice messages through a pluggable provider
+ *
+ * Providers:
+ * - OpenAI Whisper (default)
+ * - Local stub (SPEECH_TO_TEXT_PROVIDER=stub, emulator and tests)
+ */
+
+import * as logger from 'firebase-functions/logger';
+import { OpenAI, toFile } from 'openai';
+
+export interface TranscriptionOptions {
+  mimeType: string;
+  fileName: string;
+  languageHint?: string; // ISO 639-1 code, improves accuracy when known
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string; // ISO 639-1 code when the provider reports one
+  durationSeconds?: number;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+/**
+ * OpenAI Whisper provider
+ */
+export class OpenAIWhisperProvider implements SpeechToTextProvider {
+  readonly name = 'openai-whisper';
+  private client: OpenAI | null = null;
+
+  // Lazy initialization to avoid issues during deployment
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+    return this.client;
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const response = await this.getClient().audio.transcriptions.create({
+      file: await toFile(audio, options.fileName, { type: options.mimeType }),
+      model: 'whisper-1',
+      response_format: 'verbose_json',
+      ...(options.languageHint && { language: options.languageHint }),
+    });
+
+    return {
+      text: response.text,
+      // Whisper reports full language names ("english"); leave detection to translation
+      language: response.language?.length === 2 ? response.language : undefined,
+      durationSeconds: response.duration,
+    };
+  }
+}
+
+/**
+ * Local stub provider - returns a fixed transcript without calling any API
+ */
+export class LocalStubSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'local-stub';
+  readonly calls: { size: number; options: TranscriptionOptions }[] = [];
+
+  constructor(
+    private readonly transcript: string = 'This is a stub transcript.',
+    private readonly language: string = 'en'
+  ) {}
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    this.calls.push({ size: audio.length, options });
+    return { text: this.transcript, language: this.language };
+  }
+}
+
+function createProviderFromEnv(): SpeechToTextProvider {
+  switch (process.env.SPEECH_TO_TEXT_PROVIDER) {
+    case 'stub':
+      return new LocalStubSpeechToTextProvider();
+    default:
+      return new OpenAIWhisperProvider();
+  }
+}
+
+let activeProvider: SpeechToTextProvider | null = null;
+
+export class SpeechToTextService {
+  /**
+   * Replace the active provider (pass null to fall back to the environment default)
+   */
+  static setProvider(provider: SpeechToTextProvider | null): void {
+    activeProvider = provider;
+  }
+
+  static getProvider(): SpeechToTextProvider {
+    if (!activeProvider) {
+      activeProvider = createProviderFromEnv();
+    }
+    return activeProvider;
+  }
+
+  /**
+   * Transcribe an audio buffer with the active provider
+   */
+  static async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (!audio || audio.length === 0) {
+      throw new Error('Audio is empty');
+    }
+
+    const provider = this.getProvider();
+
+    try {
+      logger.info('Transcribing audio', {
+        provider: provider.name,
+        bytes: audio.length,
+        mimeType: options.mimeType,
+      });
+
+      const result = await provider.transcribe(audio, options);
+
+      logger.info('Transcription complete', {
+        provider: provider.name,
+        textLength: result.text.length,
+        language: result.language,
+      });
+
+      return { ...result, text: result.text.trim() };
+    } catch (error: any) {
+      logger.error('Transcription failed', {
+        provider: provider.name,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for TranslationMemoryService and its use in TranslationService
+ * The model is the fake provider (see LLMService)
+ */
+
+import * as admin from 'firebase-admin';
+import { createFakeFirestore, FakeFirestore } from '../test-utils/fakeFirestore';
+import { ChatContextService } from './ChatContextService';
+import { GlossaryService } from './GlossaryService';
+import { FakeLLMProvider, LLMService } from './LLMService';
+import { normalizeSourceText, translationMemoryKey, TranslationMemoryService } from './TranslationMemoryService';
+import { TranslationService } from './TranslationService';
+
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+jest.mock('./ChatContextService', () => ({
+  ChatContextService: { loadContext: jest.fn() },
+}));
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('TranslationMemoryService', () => {
+  it('should key on normalized text, language pair and glossary', () => {
+    const key = translationMemoryKey('Good  morning!', 'en', 'es', []);
+
+    expect(normalizeSourceText('  Good \n morning! ')).toBe('good morning!');
+    expect(translationMemoryKey('good morning!', 'en', 'es', [])).toBe(key);
+    expect(translationMemoryKey('Good morning!', 'en', 'fr', [])).not.toBe(key);
+    expect(translationMemoryKey('Good morning!', 'en', 'es', [{ term: 'morning', translation: null }])).not.toBe(key);
+  });
+
+  it('should only cache short texts', () => {
+    expect(TranslationMemoryService.isCacheable('See you tomorrow')).toBe(true);
+    expect(TranslationMemoryService.isCacheable('   ')).toBe(false);
+    expect(TranslationMemoryService.isCacheable('a'.repeat(501))).toBe(false);
+  });
+
+  it('should expire old entries', async () => {
+    const service = new TranslationMemoryService(createFakeFirestore() as unknown as admin.firestore.Firestore);
+    const translation = {
+      translated: 'Hola',
+      detectedLanguage: 'en',
+      formalityLevel: 'casual' as const,
+      formalityIndicators: [],
+    };
+
+    await service.set('key', 'en', 'es', translation, 1000);
+
+    await expect(service.get('key', 2000)).resolves.toEqual(translation);
+    await expect(service.get('key', 1000 + 31 * 24 * 60 * 60 * 1000)).resolves.toBeNull();
+    await expect(service.get('missing')).resolves.toBeNull();
+  });
+
+  describe('TranslationService', () => {
+    let db: FakeFirestore;
+    let provider: FakeLLMProvider;
+    let service: TranslationService;
+
+    const translate = (messageText: string) => service.translateMessage({
+      messageId: 'm1',
+      chatId: 'chat1',
+      targetLanguage: 'es',
+      messageText,
+      userId: 'alice',
+    });
+
+    beforeEach(() => {
+      (ChatContextService.loadContext as jest.Mock).mockResolvedValue(null);
+      jest.spyOn(TranslationService.prototype as any, 'loadRecentMessages').mockResolvedValue('');
+
+      db = createFakeFirestore({
+        'chats/chat1/glossary/a': { term: 'Acme', translation: null, targetLanguage: null },
+        'users/alice/glossary/b': { term: 'standup', translation: 'daily', targetLanguage: 'es' },
+      });
+      provider = new FakeLLMProvider(({ schema }) => (
+        schema?.properties?.confidence
+          ? { language: 'en', confidence: 95 }
+          : { translated: 'El daily de Acme', detectedLanguage: 'en', formalityLevel: 'casual', formalityIndicators: [] }
+      ));
+      LLMService.setProvider(provider);
+      service = new TranslationService(
+        new GlossaryService(db as unknown as admin.firestore.Firestore),
+        new TranslationMemoryService(db as unknown as admin.firestore.Firestore)
+      );
+    });
+
+    afterEach(() => {
+      LLMService.setProvider(null);
+      jest.restoreAllMocks();
+    });
+
+    it('should pass matching glossary entries to the model', async () => {
+      const result = await translate('The Acme standup is at noon');
+
+      expect(result.translated).toBe('El daily de Acme');
+      const prompt = provider.requests[provider.requests.length - 1].prompt;
+      expect(prompt).toContain('- "Acme" → keep exactly as "Acme" (do not translate)');
+      expect(prompt).toContain('- "standup" → "daily"');
+    });
+
+    it('should serve repeated phrases from memory', async () => {
+      await translate('The Acme standup is at noon');
+      await flushPromises();
+      const modelCalls = provider.requests.length;
+
+      const repeated = await translate('the acme  standup is at noon');
+
+      expect(repeated).toMatchObject({ success: true, translated: 'El daily de Acme', messageId: 'm1' });
+      // Only the language check reached the model
+      expect(provider.requests.length).toBe(modelCalls + 1);
+    });
+  });
+});
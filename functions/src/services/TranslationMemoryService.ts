@@ -0,0 +1,109 @@
+/**
+ * Translation Memory Service
+ * Serves repeated phrases from earlier translations instead of asking the model
+ *
+ * Entries live in translationMemory/{key} (server-only, see firestore.rules).
+ * The key hashes the normalized source text, the language pair and the glossary
+ * entries that applied, so a glossary change never serves a stale translation.
+ */
+
+import { createHash } from 'crypto';
+import * as admin from 'firebase-admin';
+import { GlossaryMatch } from './GlossaryService';
+
+// Models and glossaries improve; don't serve a translation forever
+const MEMORY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Long texts rarely repeat word for word
+const MAX_MEMORY_TEXT_LENGTH = 500;
+
+export interface RememberedTranslation {
+  translated: string;
+  detectedLanguage: string;
+  formalityLevel: 'casual' | 'formal' | 'professional' | 'friendly';
+  formalityIndicators: string[];
+}
+
+interface TranslationMemoryEntry extends RememberedTranslation {
+  sourceLanguage: string;
+  targetLanguage: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hitCount: number;
+}
+
+/**
+ * Unicode-normalized, lowercased, with whitespace collapsed
+ */
+export function normalizeSourceText(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Memory key for a text, language pair and the glossary entries that apply
+ */
+export function translationMemoryKey(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossary: GlossaryMatch[]
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify([normalizeSourceText(text), sourceLanguage, targetLanguage, glossary]))
+    .digest('hex');
+}
+
+export class TranslationMemoryService {
+  constructor(private readonly db: admin.firestore.Firestore = admin.firestore()) {}
+
+  static isCacheable(text: string): boolean {
+    const normalized = normalizeSourceText(text);
+    return normalized.length > 0 && normalized.length <= MAX_MEMORY_TEXT_LENGTH;
+  }
+
+  /**
+   * Look up a translation (null if missing or expired)
+   */
+  async get(key: string, now = Date.now()): Promise<RememberedTranslation | null> {
+    const ref = this.db.collection('translationMemory').doc(key);
+    const snapshot = await ref.get();
+    const entry = snapshot.data() as TranslationMemoryEntry | undefined;
+    if (!entry || now - entry.createdAt > MEMORY_TTL_MS) {
+      return null;
+    }
+
+    // Usage stats only; a lost update doesn't matter
+    ref.update({
+      hitCount: admin.firestore.FieldValue.increment(1),
+      lastUsedAt: now,
+    }).catch(() => undefined);
+
+    return {
+      translated: entry.translated,
+      detectedLanguage: entry.detectedLanguage,
+      formalityLevel: entry.formalityLevel,
+      formalityIndicators: entry.formalityIndicators || [],
+    };
+  }
+
+  /**
+   * Remember a translation
+   */
+  async set(
+    key: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    translation: RememberedTranslation,
+    now = Date.now()
+  ): Promise<void> {
+    const entry: TranslationMemoryEntry = {
+      ...translation,
+      sourceLanguage,
+      targetLanguage,
+      createdAt: now,
+      lastUsedAt: now,
+      hitCount: 0,
+    };
+    await this.db.collection('translationMemory').doc(key).set(entry);
+  }
+}
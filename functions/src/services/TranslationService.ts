@@ -5,6 +5,12 @@ import { z } from 'zod';
 import { AI_CONFIG, aiModel } from '../config/ai-sdk.config';
 import { ChatContext } from '../shared/types/ChatContext';
 import { ChatContextService } from './ChatContextService';
+import { buildGlossaryPrompt, GlossaryMatch, GlossaryService } from './GlossaryService';
+import {
+  RememberedTranslation,
+  translationMemoryKey,
+  TranslationMemoryService,
+} from './TranslationMemoryService';
 
 // Initialize Firebase Admin if not already initialized
 if (!admin.apps.length) {
@@ -41,6 +47,23 @@ const translationSchema = z.object({
 });
 
 export class TranslationService {
+  private glossaryService?: GlossaryService;
+  private memoryService?: TranslationMemoryService;
+
+  constructor(glossaryService?: GlossaryService, memoryService?: TranslationMemoryService) {
+    this.glossaryService = glossaryService;
+    this.memoryService = memoryService;
+  }
+
+  // Created on first use, so constructing the service never touches Firestore
+  private get glossary(): GlossaryService {
+    return this.glossaryService ??= new GlossaryService();
+  }
+
+  private get memory(): TranslationMemoryService {
+    return this.memoryService ??= new TranslationMemoryService();
+  }
+
   /**
    * Fast language detection using only first few words (optimized for speed)
    * 🚀 ULTRA-FAST: Only sends 5-7 words to AI (~200ms response)
@@ -98,10 +121,12 @@ Examples:
   /**
    * Simple translation for preview (fast, no cultural analysis)
    * 🚀 FAST: Only returns translation and detected language (1-2 seconds)
+   * Pass the chat and/or user to apply their glossaries
    */
   async translatePreview(
     messageText: string,
-    targetLanguage: string
+    targetLanguage: string,
+    glossaryOwners: { chatId?: string | null; userId?: string | null } = {}
   ): Promise<{ translated: string; detectedLanguage: string }> {
     try {
       logger.info('Starting preview translation', {
@@ -124,8 +149,14 @@ Examples:
       };
 
       const targetLangName = languageNames[targetLanguage] || targetLanguage;
+      const glossary = await this.loadGlossaryMatches(
+        glossaryOwners.chatId || null,
+        glossaryOwners.userId || null,
+        messageText,
+        targetLanguage
+      );
 
-      const prompt = `Translate this text to ${targetLangName}. Also detect the source language.
+      const prompt = `${buildGlossaryPrompt(glossary)}Translate this text to ${targetLangName}. Also detect the source language.
 
 Text to translate: "${messageText}"
 
@@ -221,25 +252,56 @@ Keep the translation natural and preserve the tone.`;
         };
       }
 
-      // Step 1: Load chat context (now with caching!)
+      // Step 1: Glossary terms in this message, then translation memory
+      const glossary = await this.loadGlossaryMatches(
+        params.chatId || null,
+        params.userId || null,
+        messageText,
+        params.targetLanguage
+      );
+      const memoryKey = TranslationMemoryService.isCacheable(messageText)
+        ? translationMemoryKey(messageText, quickLanguageCheck.language, params.targetLanguage, glossary)
+        : null;
+      const remembered = memoryKey ? await this.recall(memoryKey) : null;
+      if (remembered) {
+        logger.info("Translation served from translation memory", {
+          messageId: params.messageId,
+          targetLanguage: params.targetLanguage,
+          glossaryTerms: glossary.length,
+        });
+
+        return {
+          success: true,
+          original: messageText,
+          targetLanguage: params.targetLanguage,
+          ...remembered,
+          messageId: params.messageId,
+          chatId: params.chatId,
+        };
+      }
+
+      // Step 2: Load chat context (now with caching!)
       const chatContext = await ChatContextService.loadContext(params.chatId);
 
-      // Step 2: Load recent messages for immediate context
+      // Step 3: Load recent messages for immediate context
       const recentMessages = await this.loadRecentMessages(params.chatId, params.messageId, 10);
 
-      // Step 3: Check if message is too simple for cultural analysis
+      // Step 4: Check if message is too simple for cultural analysis
       const isSimpleMessage = this.isSimpleMessage(messageText);
 
-      // Step 4: Build comprehensive prompt for single AI call
+      // Step 5: Build comprehensive prompt for single AI call
       const prompt = this.buildComprehensivePrompt({
         message: messageText,
         chatContext: chatContext,
         recentMessages: recentMessages,
         targetLang: params.targetLanguage,
+        glossary,
       });
 
-      // Step 5: SINGLE AI CALL - gets everything at once! 🚀
+      // Step 6: SINGLE AI CALL - gets everything at once! 🚀
       let result: any;
+      // Set when falling back to plain text (or the original) - never remembered
+      let degraded = false;
       
       try {
         result = await generateObject({
@@ -276,10 +338,11 @@ Keep the translation natural and preserve the tone.`;
           
           // Final fallback: Use text generation and parse manually
           logger.warn('⚠️ Using final fallback: text-only translation');
+          degraded = true;
           
           try {
             const { generateText } = await import('ai');
-            const simplePrompt = `Translate this text to ${params.targetLanguage}: "${messageText}"\n\nRespond in JSON format:\n{"translated": "...", "detectedLanguage": "two-letter code"}`;
+            const simplePrompt = `${buildGlossaryPrompt(glossary)}Translate this text to ${params.targetLanguage}: "${messageText}"\n\nRespond in JSON format:\n{"translated": "...", "detectedLanguage": "two-letter code"}`;
             
             const textResult = await generateText({
               model: aiModel,
@@ -331,8 +394,20 @@ Keep the translation natural and preserve the tone.`;
         chatMood: chatContext?.mood || 'none',
         chatTopics: chatContext?.topics?.join(', ') || 'none',
         wasSimpleMessage: isSimpleMessage,
+        glossaryTerms: glossary.length,
       });
 
+      if (memoryKey && !degraded) {
+        this.memory.set(memoryKey, quickLanguageCheck.language, params.targetLanguage, {
+          translated: result.object.translated,
+          detectedLanguage: result.object.detectedLanguage,
+          formalityLevel: result.object.formalityLevel,
+          formalityIndicators: result.object.formalityIndicators || [],
+        }).catch((error) => {
+          logger.warn("Failed to save translation memory", { error: error.message });
+        });
+      }
+
       return {
         success: true,
         original: messageText,
@@ -354,6 +429,39 @@ Keep the translation natural and preserve the tone.`;
     }
   }
 
+  /**
+   * Glossary entries (chat + requesting user) that apply to this message
+   * A broken glossary should never block a translation
+   */
+  private async loadGlossaryMatches(
+    chatId: string | null,
+    userId: string | null,
+    messageText: string,
+    targetLanguage: string
+  ): Promise<GlossaryMatch[]> {
+    if (!chatId && !userId) {
+      return [];
+    }
+    try {
+      return await this.glossary.getMatches(chatId, userId, messageText, targetLanguage);
+    } catch (error: any) {
+      logger.warn("Failed to load glossary", { chatId, error: error.message });
+      return [];
+    }
+  }
+
+  /**
+   * Translation memory lookup (null on a miss or error)
+   */
+  private async recall(memoryKey: string): Promise<RememberedTranslation | null> {
+    try {
+      return await this.memory.get(memoryKey);
+    } catch (error: any) {
+      logger.warn("Failed to read translation memory", { error: error.message });
+      return null;
+    }
+  }
+
   /**
    * Check if message is too simple for cultural analysis
    */
@@ -440,6 +548,7 @@ Keep the translation natural and preserve the tone.`;
     chatContext: ChatContext | null;
     recentMessages: string;
     targetLang: string;
+    glossary?: GlossaryMatch[];
   }): string {
     const languageNames: Record<string, string> = {
       en: "English",
@@ -491,6 +600,8 @@ Keep the translation natural and preserve the tone.`;
       prompt += `RECENT CONVERSATION:\n${data.recentMessages}\n\n`;
     }
 
+    prompt += buildGlossaryPrompt(data.glossary || []);
+
     prompt += `CURRENT MESSAGE TO TRANSLATE:\n"${data.message}"\n\n`;
     
     prompt += `YOUR TASKS (all in ONE response):\n\n`;
@@ -504,6 +615,9 @@ Keep the translation natural and preserve the tone.`;
     prompt += `   - Keep idiomatic expressions natural\n`;
     prompt += `   - Maintain same formality level\n`;
     prompt += `   - Keep emojis unchanged\n`;
+    if (data.glossary?.length) {
+      prompt += `   - Use the GLOSSARY translations exactly\n`;
+    }
     if (data.chatContext) {
       prompt += `   - Match conversation mood: ${data.chatContext.mood}\n`;
       prompt += `   - Match formality: ${data.chatContext.formality}\n`;
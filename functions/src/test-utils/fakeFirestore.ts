@@ -0,0 +1,148 @@
+/**
+ * In-memory Firestore for service unit tests
+ *
+ * Documents live in a Map keyed by path ('chats/chat-1/messages/m1'), exposed as
+ * `docs` so tests can seed and inspect them. Covers the calls the services make:
+ * document get/set/update/delete, where/orderBy/startAfter/limit queries on
+ * collections and collection groups, getAll, batches and transactions. Field transforms
+ * (FieldValue) are stored as is.
+ * Pass the result to a service with `fakeDb as unknown as admin.firestore.Firestore`.
+ */
+
+export type FakeDocs = Map<string, Record<string, any>>;
+
+type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+interface QueryState {
+  filters: [string, WhereOp, unknown][];
+  order: [string, 'asc' | 'desc'][];
+  after: string | null;
+  max: number;
+}
+
+const matches = (actual: any, op: WhereOp, expected: any): boolean => {
+  switch (op) {
+    case '==': return actual === expected;
+    case '!=': return actual !== undefined && actual !== expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case 'in': return (expected as unknown[]).includes(actual);
+    case 'array-contains': return Array.isArray(actual) && actual.includes(expected);
+  }
+};
+
+const compare = (a: any, b: any): number =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+
+export const createFakeFirestore = (initial: Record<string, Record<string, any>> = {}) => {
+  const docs: FakeDocs = new Map(Object.entries(initial));
+  let autoId = 0;
+
+  const write = (path: string, data: Record<string, any>, options?: { merge?: boolean }) => {
+    docs.set(path, options?.merge ? { ...docs.get(path), ...data } : data);
+  };
+
+  const update = (path: string, data: Record<string, any>) => {
+    if (!docs.has(path)) {
+      throw Object.assign(new Error(`No document to update: ${path}`), { code: 5 });
+    }
+    docs.set(path, { ...docs.get(path), ...data });
+  };
+
+  const snapshot = (path: string) => ({
+    id: path.split('/').pop()!,
+    ref: docRef(path),
+    exists: docs.has(path),
+    data: () => docs.get(path),
+  });
+
+  // Queries over the documents whose path passes `inScope`
+  const query = (inScope: (docPath: string) => boolean, state: QueryState): any => ({
+    where: (field: string, op: WhereOp, value: unknown) =>
+      query(inScope, { ...state, filters: [...state.filters, [field, op, value]] }),
+    orderBy: (field: string, direction: 'asc' | 'desc' = 'asc') =>
+      query(inScope, { ...state, order: [...state.order, [field, direction]] }),
+    startAfter: (doc: { id: string }) => query(inScope, { ...state, after: doc.id }),
+    limit: (max: number) => query(inScope, { ...state, max }),
+    get: async () => {
+      let results = Array.from(docs.keys())
+        .filter(inScope)
+        .map(snapshot)
+        .filter((doc) => state.filters.every(([field, op, value]) => matches(doc.data()![field], op, value)));
+      results.sort((a, b) => {
+        for (const [field, direction] of state.order) {
+          const order = compare(a.data()![field], b.data()![field]);
+          if (order !== 0) {
+            return direction === 'desc' ? -order : order;
+          }
+        }
+        return 0;
+      });
+      if (state.after) {
+        results = results.slice(results.findIndex((doc) => doc.id === state.after) + 1);
+      }
+      const page = results.slice(0, state.max);
+      return { docs: page, empty: page.length === 0, size: page.length };
+    },
+  });
+
+  const emptyQuery: QueryState = { filters: [], order: [], after: null, max: Infinity };
+
+  const collectionRef = (path: string) => ({
+    ...query(
+      (docPath) => docPath.startsWith(`${path}/`) && !docPath.slice(path.length + 1).includes('/'),
+      emptyQuery
+    ),
+    path,
+    doc: (id?: string) => docRef(`${path}/${id ?? `auto-${++autoId}`}`),
+  });
+
+  const docRef = (path: string): any => ({
+    id: path.split('/').pop(),
+    path,
+    get: async () => snapshot(path),
+    set: async (data: Record<string, any>, options?: { merge?: boolean }) => write(path, data, options),
+    update: async (data: Record<string, any>) => update(path, data),
+    delete: async () => {
+      docs.delete(path);
+    },
+    collection: (name: string) => collectionRef(`${path}/${name}`),
+  });
+
+  return {
+    docs,
+    collection: (name: string) => collectionRef(name),
+    collectionGroup: (name: string) => query((docPath) => docPath.split('/').slice(-2)[0] === name, emptyQuery),
+    getAll: async (...refs: { path: string }[]) => refs.map((ref) => snapshot(ref.path)),
+    batch: () => {
+      const writes: (() => void)[] = [];
+      return {
+        set: (ref: { path: string }, data: Record<string, any>, options?: { merge?: boolean }) => {
+          writes.push(() => write(ref.path, data, options));
+        },
+        update: (ref: { path: string }, data: Record<string, any>) => {
+          writes.push(() => update(ref.path, data));
+        },
+        delete: (ref: { path: string }) => {
+          writes.push(() => docs.delete(ref.path));
+        },
+        commit: async () => {
+          writes.forEach((apply) => apply());
+        },
+      };
+    },
+    runTransaction: async <T>(fn: (transaction: any) => Promise<T>): Promise<T> => fn({
+      get: async (ref: { path: string }) => snapshot(ref.path),
+      set: (ref: { path: string }, data: Record<string, any>, options?: { merge?: boolean }) =>
+        write(ref.path, data, options),
+      update: (ref: { path: string }, data: Record<string, any>) => update(ref.path, data),
+      delete: (ref: { path: string }) => {
+        docs.delete(ref.path);
+      },
+    }),
+  };
+};
+
+export type FakeFirestore = ReturnType<typeof createFakeFirestore>;
@@ -0,0 +1,80 @@
+/**
+ * AI Usage Middleware
+ * Rate limits, monthly quotas and token accounting for AI callables
+ */
+
+import * as logger from "firebase-functions/logger";
+import { CallableRequest, HttpsError } from "firebase-functions/v2/https";
+import { AIUsageError, AIUsageService, runWithTokenTracking } from "../services/AIUsageService";
+import { validateAuth } from "./validation";
+
+interface AIUsageOptions {
+  // Requests taken from the bucket (defaults to 1)
+  cost?: (data: any) => number;
+}
+
+/**
+ * Run an AI request for a user:
+ * - takes `cost` requests from the user's token bucket
+ * - is refused once the monthly token quota is used up
+ * - adds the model tokens `fn` spends to the user's usage
+ *
+ * Over-limit users get an AIUsageError before `fn` runs.
+ */
+export async function runWithAIUsage<T>(
+  userId: string,
+  functionName: string,
+  cost: number,
+  fn: () => Promise<T>
+): Promise<T> {
+  const usageService = new AIUsageService();
+
+  try {
+    await usageService.consume(userId, functionName, cost);
+  } catch (error: any) {
+    if (error instanceof AIUsageError) {
+      logger.warn("AI usage limit reached", { userId, functionName, reason: error.reason });
+      throw error;
+    }
+    // Don't lock users out of AI features if usage tracking is down
+    logger.error("AI usage check failed", { userId, functionName, error: error.message });
+  }
+
+  const scope = { tokens: 0 };
+  try {
+    return await runWithTokenTracking(scope, fn);
+  } finally {
+    // Tokens are spent even if the call failed afterwards
+    await usageService.recordTokens(userId, functionName, scope.tokens).catch((error) => {
+      logger.error("Failed to record AI token usage", { userId, functionName, error: error.message });
+    });
+  }
+}
+
+/**
+ * Wrap a callable handler in runWithAIUsage
+ *
+ * Over-limit callers get a `resource-exhausted` error with
+ * `{ reason: 'rate-limited' | 'quota-exceeded', retryAfterMs }` details.
+ */
+export function withAIUsage<T>(
+  functionName: string,
+  handler: (request: CallableRequest) => Promise<T>,
+  options: AIUsageOptions = {}
+): (request: CallableRequest) => Promise<T> {
+  return async (request) => {
+    const userId = validateAuth(request.auth);
+
+    try {
+      return await runWithAIUsage(userId, functionName, options.cost?.(request.data) ?? 1, () => handler(request));
+    } catch (error) {
+      if (error instanceof AIUsageError) {
+        throw new HttpsError(error.code, error.message, {
+          reason: error.reason,
+          retryAfterMs: error.retryAfterMs,
+        });
+      }
+      throw error;
+    }
+  };
+}
@@ -3,7 +3,27 @@
  * Common validation functions for cloud functions
  */
 
-import { HttpsError } from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import { FunctionsErrorCode, HttpsError } from "firebase-functions/v2/https";
+
+/**
+ * Service error classes whose `code` maps straight onto an HttpsError
+ */
+type ServiceErrorClass = new (...args: any[]) => Error & { code: FunctionsErrorCode };
+
+/**
+ * Pass HttpsErrors and the given service's errors on with their own code;
+ * hide anything unexpected behind an internal error with `message`
+ */
+export function toHttpsError(error: unknown, message: string, serviceError: ServiceErrorClass): HttpsError {
+  if (error instanceof HttpsError) {
+    return error;
+  }
+  if (error instanceof serviceError) {
+    return new HttpsError(error.code, error.message);
+  }
+  return new HttpsError("internal", message, error instanceof Error ? error.message : String(error));
+}
 
 /**
  * Validate authentication
@@ -123,6 +143,20 @@ export function validateChatId(chatId: any): string {
   return validateString(chatId, "chatId");
 }
 
+/**
+ * Reject AI requests for end-to-end encrypted chats
+ * (the server must not see their plaintext)
+ */
+export async function validateChatNotEncrypted(chatId: string): Promise<void> {
+  const chatDoc = await admin.firestore().collection("chats").doc(chatId).get();
+  if (chatDoc.data()?.encrypted === true) {
+    throw new HttpsError(
+      "failed-precondition",
+      "AI features are not available in end-to-end encrypted chats"
+    );
+  }
+}
+
 /**
  * Validate message ID parameter
  */
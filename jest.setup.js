@@ -168,6 +168,7 @@ jest.mock('firebase/firestore', () => {
   return {
     getFirestore: jest.fn(() => ({})),
     collection: jest.fn(),
+    collectionGroup: jest.fn(),
     doc: jest.fn(() => ({})),
     getDoc: jest.fn(() => Promise.resolve({
       exists: () => true,
@@ -187,6 +188,11 @@ jest.mock('firebase/firestore', () => {
     where: jest.fn(),
     orderBy: jest.fn(),
     limit: jest.fn(),
+    startAfter: jest.fn(),
+    documentId: jest.fn(() => '__name__'),
+    Timestamp: {
+      fromMillis: jest.fn((ms) => ({ toMillis: () => ms })),
+    },
     onSnapshot: jest.fn(),
     writeBatch: jest.fn(() => ({
       set: jest.fn(),
@@ -195,9 +201,16 @@ jest.mock('firebase/firestore', () => {
       commit: jest.fn(() => Promise.resolve())
     })),
     serverTimestamp: jest.fn(() => Date.now()),
+    runTransaction: jest.fn((db, updateFunction) => updateFunction({
+      get: jest.fn(() => Promise.resolve({ exists: () => true, data: () => ({}) })),
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    })),
     addDoc: jest.fn(() => Promise.resolve({ id: 'mock-message-id' })),
     arrayUnion: jest.fn((...values) => ({ _methodName: 'arrayUnion', _elements: values })),
     arrayRemove: jest.fn((...values) => ({ _methodName: 'arrayRemove', _elements: values })),
+    increment: jest.fn((n) => ({ _methodName: 'increment', _operand: n })),
   };
 });
 
@@ -205,6 +218,7 @@ jest.mock('firebase/storage', () => ({
   getStorage: jest.fn(),
   ref: jest.fn(),
   uploadBytes: jest.fn(),
+  uploadBytesResumable: jest.fn(),
   getDownloadURL: jest.fn(),
   deleteObject: jest.fn(),
 }));
@@ -293,6 +307,28 @@ jest.mock('expo-notifications', () => ({
   AndroidImportance: { MAX: 5, HIGH: 4, DEFAULT: 3, LOW: 2, MIN: 1 },
 }));
 
+// Mock expo-crypto (random bytes from Node's CSPRNG)
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn((length) => new Uint8Array(require('crypto').randomBytes(length))),
+  randomUUID: jest.fn(() => require('crypto').randomUUID()),
+}));
+
+// Mock expo-secure-store (in-memory keychain)
+jest.mock('expo-secure-store', () => {
+  const store = new Map();
+  return {
+    getItemAsync: jest.fn((key) => Promise.resolve(store.has(key) ? store.get(key) : null)),
+    setItemAsync: jest.fn((key, value) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    deleteItemAsync: jest.fn((key) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+  };
+});
+
 // Mock expo-clipboard
 jest.mock('expo-clipboard', () => ({
   setStringAsync: jest.fn(),
@@ -320,6 +356,9 @@ jest.mock('expo-file-system/legacy', () => ({
   readAsStringAsync: jest.fn(),
   writeAsStringAsync: jest.fn(),
   deleteAsync: jest.fn(),
+  makeDirectoryAsync: jest.fn(),
+  createDownloadResumable: jest.fn(),
+  documentDirectory: 'file:///mock/documents/',
 }));
 
 // Mock services
@@ -329,10 +368,33 @@ jest.mock('./src/database/SQLiteService', () => ({
     saveMessage: jest.fn(() => Promise.resolve()),
     updateMessage: jest.fn(() => Promise.resolve()),
     updateMessageStatus: jest.fn(() => Promise.resolve()),
+    updateMessageText: jest.fn(() => Promise.resolve()),
+    deleteCulturalAnalysis: jest.fn(() => Promise.resolve()),
     deleteMessage: jest.fn(() => Promise.resolve()),
     deleteMessageForMe: jest.fn(() => Promise.resolve()),
     getMessages: jest.fn(() => Promise.resolve([])),
+    getMessagesAround: jest.fn(() => Promise.resolve([])),
+    searchMessages: jest.fn(() => Promise.resolve([])),
+    getThreadMessages: jest.fn(() => Promise.resolve([])),
     getMessageById: jest.fn(() => Promise.resolve(null)),
+    updateMessageAudioUrl: jest.fn(() => Promise.resolve()),
+    updateMessageFileUrl: jest.fn(() => Promise.resolve()),
+    updateMessageImageUrls: jest.fn(() => Promise.resolve()),
+    saveOutboxEntry: jest.fn(() => Promise.resolve()),
+    deleteOutboxEntry: jest.fn(() => Promise.resolve()),
+    deleteUnsentMessage: jest.fn(() => Promise.resolve()),
+    getOperations: jest.fn(() => Promise.resolve([])),
+    saveOperation: jest.fn(() => Promise.resolve()),
+    deleteOperation: jest.fn(() => Promise.resolve()),
+    getSyncCursor: jest.fn(() => Promise.resolve(null)),
+    saveSyncCursor: jest.fn(() => Promise.resolve()),
+    deleteSyncCursor: jest.fn(() => Promise.resolve()),
+    updateReactions: jest.fn(() => Promise.resolve()),
+    deleteMessageForEveryone: jest.fn(() => Promise.resolve()),
+    updateChatPreferences: jest.fn(() => Promise.resolve()),
+    saveScheduledMessage: jest.fn(() => Promise.resolve()),
+    getScheduledMessages: jest.fn(() => Promise.resolve([])),
+    deleteScheduledMessage: jest.fn(() => Promise.resolve()),
     getPendingMessages: jest.fn(() => Promise.resolve([])),
     saveUser: jest.fn(() => Promise.resolve()),
     getUser: jest.fn(() => Promise.resolve(null)),
@@ -14,6 +14,7 @@ type IconName = keyof typeof Ionicons.glyphMap;
 interface IconButtonProps {
   icon: IconName;
   onPress: () => void;
+  onLongPress?: () => void;
   size?: number;
   color?: string;
   variant?: 'transparent' | 'filled' | 'outline';
@@ -25,6 +26,7 @@ interface IconButtonProps {
 export const IconButton = ({
   icon,
   onPress,
+  onLongPress,
   size = 24,
   color,
   variant = 'transparent',
@@ -67,6 +69,7 @@ export const IconButton = ({
   return (
     <Pressable
       onPress={onPress}
+      onLongPress={onLongPress}
       disabled={disabled}
       style={({ pressed }) => [
         styles.container,
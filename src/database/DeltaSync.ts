@@ -0,0 +1,297 @@
+import { MessageService } from '@/services/firebase/MessageService';
+import { Message, MessageChangeCursor, SyncCursor } from '@/shared/types';
+import { messageToMessageRow } from '@/shared/utils/MessageRows';
+import { MessageQueue } from './MessageQueue';
+import { SQLiteService } from './SQLiteService';
+
+/**
+ * DeltaSync
+ *
+ * Incremental sync of messages between Firestore and SQLite
+ * Features:
+ * - Per-chat sync cursors in SQLite metadata (updatedAt and message ID of the latest synced change)
+ * - Pulls only the messages changed since the cursor: new messages, but also reactions,
+ *   edits and deletions made while this device was offline or the chat was closed
+ * - Backfills older history in pages, from the oldest message synced so far
+ * - Keeps local translations and changes still waiting in the MessageQueue
+ * - Syncs several chats at once and reports progress (e.g. "Syncing 3 chats")
+ */
+
+export interface SyncStatus {
+  isSyncing: boolean;
+  chatsTotal: number;         // Chats in the current run
+  chatsSynced: number;        // Chats of the current run done so far
+  lastSyncedAt: number | null; // When the last run finished
+}
+
+export type SyncStatusListener = (status: SyncStatus) => void;
+
+// Changed messages pulled for a chat, as saved to SQLite
+export type SyncedMessagesListener = (chatId: string, messages: Message[]) => void;
+
+export const DELTA_PAGE_SIZE = 100;
+export const HISTORY_PAGE_SIZE = 100;
+const MAX_DELTA_PAGES = 10;   // Per sync; a chat with more changes continues on its next sync
+const SYNC_CONCURRENCY = 3;
+
+class DeltaSyncClass {
+  private status: SyncStatus = { isSyncing: false, chatsTotal: 0, chatsSynced: 0, lastSyncedAt: null };
+  private statusListeners = new Set<SyncStatusListener>();
+  private messageListeners = new Set<SyncedMessagesListener>();
+  private cursors = new Map<string, SyncCursor>();
+  private inFlight = new Map<string, Promise<Message[]>>();
+  private queue: string[] = [];
+  private queued = new Set<string>();
+  private running: Promise<void> | null = null;
+  // lastMessageTime each chat was last synced for (see syncStaleChats)
+  private syncedFor = new Map<string, number>();
+
+  /**
+   * Current sync progress
+   */
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Listen to sync progress
+   * Returns unsubscribe function
+   */
+  subscribe(listener: SyncStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen to changed messages pulled by syncChat (not to backfilled history)
+   * Returns unsubscribe function
+   */
+  onMessagesSynced(listener: SyncedMessagesListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sync every chat stored locally (cold start, reconnect)
+   */
+  async syncAll(): Promise<void> {
+    const chats = await SQLiteService.getChats();
+    await this.syncChats(chats.map(chat => chat.id));
+  }
+
+  /**
+   * Sync the chats whose last message is newer than what was synced for them
+   * Changes without a new message (reactions, edits, ...) are picked up by the next syncAll.
+   */
+  async syncStaleChats(chats: { id: string; lastMessageTime: number }[]): Promise<void> {
+    const stale: string[] = [];
+    for (const chat of chats) {
+      const cursor = await this.getCursor(chat.id);
+      const isStale = cursor.lastSyncedAt === null || chat.lastMessageTime > cursor.lastSyncedAt;
+      if (isStale && this.syncedFor.get(chat.id) !== chat.lastMessageTime) {
+        this.syncedFor.set(chat.id, chat.lastMessageTime);
+        stale.push(chat.id);
+      }
+    }
+    await this.syncChats(stale);
+  }
+
+  /**
+   * Sync chats, SYNC_CONCURRENCY at a time
+   * Chats requested while a run is going join that run.
+   */
+  syncChats(chatIds: string[]): Promise<void> {
+    const added = [...new Set(chatIds)].filter(chatId => !this.queued.has(chatId));
+    if (added.length === 0) {
+      return this.running ?? Promise.resolve();
+    }
+
+    for (const chatId of added) {
+      this.queued.add(chatId);
+      this.queue.push(chatId);
+    }
+    this.setStatus({ isSyncing: true, chatsTotal: this.status.chatsTotal + added.length });
+
+    if (!this.running) {
+      this.running = this.drain();
+    }
+    return this.running;
+  }
+
+  /**
+   * Pull the messages of a chat changed since its cursor, save them and move the cursor
+   * Returns the changed messages
+   */
+  syncChat(chatId: string): Promise<Message[]> {
+    const existing = this.inFlight.get(chatId);
+    if (existing) {
+      return existing;
+    }
+
+    const sync = this.pullChanges(chatId).finally(() => this.inFlight.delete(chatId));
+    this.inFlight.set(chatId, sync);
+    return sync;
+  }
+
+  /**
+   * Backfill up to `pages` pages of history older than the oldest message synced so far
+   * Returns the backfilled messages (empty once the chat's first message was reached)
+   */
+  async backfillChat(chatId: string, pages: number = 1): Promise<Message[]> {
+    const cursor = await this.getCursor(chatId);
+    const backfilled = new Map<string, Message>();
+    let oldestTimestamp = cursor.oldestTimestamp;
+    let historyComplete = cursor.historyComplete;
+
+    for (let page = 0; page < pages && !historyComplete; page++) {
+      const messages = await MessageService.getMessagesBefore(chatId, oldestTimestamp, HISTORY_PAGE_SIZE);
+      // Messages from the same ms as the previous page come back again
+      const fresh = messages.filter(message => !backfilled.has(message.id));
+
+      for (const message of await this.saveMessages(fresh)) {
+        backfilled.set(message.id, message);
+      }
+
+      historyComplete = messages.length < HISTORY_PAGE_SIZE;
+      if (messages.length > 0) {
+        oldestTimestamp = Math.min(...messages.map(message => message.timestamp));
+      }
+      if (fresh.length === 0) {
+        break;
+      }
+    }
+
+    await this.saveCursor(chatId, { oldestTimestamp, historyComplete });
+    return [...backfilled.values()];
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const workers = Math.min(SYNC_CONCURRENCY, this.queue.length);
+      await Promise.all(Array.from({ length: workers }, () => this.work()));
+    }
+
+    this.running = null;
+    this.setStatus({ isSyncing: false, chatsTotal: 0, chatsSynced: 0, lastSyncedAt: Date.now() });
+  }
+
+  private async work(): Promise<void> {
+    let chatId = this.queue.shift();
+    while (chatId) {
+      try {
+        await this.syncChat(chatId);
+      } catch (error) {
+        console.error(`Failed to sync chat ${chatId}:`, error);
+      } finally {
+        this.queued.delete(chatId);
+        this.setStatus({ chatsSynced: this.status.chatsSynced + 1 });
+      }
+      chatId = this.queue.shift();
+    }
+  }
+
+  private async pullChanges(chatId: string): Promise<Message[]> {
+    const cursor = await this.getCursor(chatId);
+    let since: MessageChangeCursor | null = cursor.lastSyncedAt !== null && cursor.lastMessageId
+      ? { updatedAt: cursor.lastSyncedAt, messageId: cursor.lastMessageId }
+      : null;
+    const changed: Message[] = [];
+
+    if (!since) {
+      // Legacy messages without updatedAt are invisible to the delta query
+      await MessageService.backfillMessageChanges(chatId).catch(error =>
+        console.error(`Failed to backfill message changes for chat ${chatId}:`, error)
+      );
+    }
+
+    for (let page = 0; page < MAX_DELTA_PAGES; page++) {
+      const result = await MessageService.getMessageChanges(chatId, since, DELTA_PAGE_SIZE);
+      changed.push(...await this.saveMessages(result.messages));
+
+      const next = result.cursor;
+      if (!next || (since && next.updatedAt === since.updatedAt && next.messageId === since.messageId)) {
+        break;
+      }
+      since = next;
+      // Saved per page, so an interrupted sync doesn't start over
+      await this.saveCursor(chatId, { lastSyncedAt: next.updatedAt, lastMessageId: next.messageId });
+
+      if (!result.hasMore) {
+        break;
+      }
+    }
+
+    if (changed.length > 0) {
+      this.messageListeners.forEach(listener => listener(chatId, changed));
+    }
+    return changed;
+  }
+
+  /**
+   * Save synced messages to SQLite, on top of the local state
+   * - Local translations are kept unless the text was edited
+   * - Changes still waiting in the MessageQueue are re-applied
+   */
+  private async saveMessages(messages: Message[]): Promise<Message[]> {
+    const saved: Message[] = [];
+
+    for (const message of MessageQueue.applyPendingOperations(messages)) {
+      const existing = await SQLiteService.getMessageById(message.id);
+      const row = messageToMessageRow(message);
+
+      if (existing) {
+        if (existing.text === message.text) {
+          row.translations = JSON.stringify({
+            ...(existing.translations ? JSON.parse(existing.translations) : {}),
+            ...(message.translations || {}),
+          });
+          row.detectedLanguage = existing.detectedLanguage;
+        }
+        row.deletedForMe = existing.deletedForMe;
+      }
+
+      try {
+        await SQLiteService.saveMessage(row);
+        saved.push({ ...message, translations: row.translations ? JSON.parse(row.translations) : {} });
+      } catch (error) {
+        console.error(`Failed to save synced message ${message.id}:`, error);
+      }
+    }
+
+    return saved;
+  }
+
+  private async getCursor(chatId: string): Promise<SyncCursor> {
+    let cursor = this.cursors.get(chatId);
+    if (!cursor) {
+      cursor = (await SQLiteService.getSyncCursor(chatId)) ?? {
+        chatId,
+        lastSyncedAt: null,
+        lastMessageId: null,
+        oldestTimestamp: null,
+        historyComplete: false,
+      };
+      // Another caller may have loaded it meanwhile
+      cursor = this.cursors.get(chatId) ?? cursor;
+      this.cursors.set(chatId, cursor);
+    }
+    return cursor;
+  }
+
+  private async saveCursor(chatId: string, changes: Partial<SyncCursor>): Promise<void> {
+    const cursor = { ...(await this.getCursor(chatId)), ...changes };
+    this.cursors.set(chatId, cursor);
+    await SQLiteService.saveSyncCursor(cursor);
+  }
+
+  private setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.statusListeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const DeltaSync = new DeltaSyncClass();
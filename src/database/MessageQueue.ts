@@ -1,17 +1,50 @@
+import { ChatService } from '@/services/firebase/ChatService';
 import { MessageService } from '@/services/firebase/MessageService';
-import { MessageStatus, MessageSyncStatus, MessageType } from '@/shared/types';
+import { StorageService } from '@/services/firebase/StorageService';
+import {
+  Message,
+  MessageOperation,
+  MessagePoll,
+  MessageRow,
+  MessageStatus,
+  MessageSyncStatus,
+  MessageType,
+  PendingMessageRow,
+} from '@/shared/types';
 import type { QueuedMessage as ImportedQueuedMessage } from '@/shared/types/Message';
+import { applyOperations, collapseOperation, fromOperationRow, toOperationRow } from '@/shared/utils/OperationLog';
+import {
+  classifySendError,
+  getRetryDelay,
+  isConnectivityError,
+  OUTBOX_MAX_ATTEMPTS,
+  PermanentSendError,
+} from '@/shared/utils/Outbox';
+import { clearPollResults, getPollPreviewText } from '@/shared/utils/Polls';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system/legacy';
 import { SQLiteService } from './SQLiteService';
 
 /**
  * MessageQueue
  * 
- * Handles offline message queue with automatic retry logic
+ * Durable offline operation log for changes that haven't reached Firestore:
+ * sends, reactions, edits, deletions for everyone and read receipts
  * Features:
- * - FIFO processing (first sent, first uploaded)
- * - Auto-retry up to 3 times per message
- * - Persistent queue in SQLite
- * - Background processing when online
+ * - Persistent queue in SQLite (pending messages + their retry state in the outbox table,
+ *   other operations in the operation_log table)
+ * - Changes are applied locally first; operations are replayed when the connection is back,
+ *   and re-applied on top of server snapshots until then
+ * - New operations collapse into waiting ones (see collapseOperation), so a react
+ *   followed by an unreact never reaches the server
+ * - One attempt per message per pass; failures are retried with exponential backoff and jitter
+ * - Permanent errors (rejected by the server, local file gone) give up right away,
+ *   transient ones after OUTBOX_MAX_ATTEMPTS; given-up messages wait for the user's retry
+ * - In order within a chat (a change waits for the ones before it), concurrent across chats
+ * - Preserves quote-reply and sub-thread metadata
+ * - Uploads images, voice recordings and file attachments that never reached Storage
+ * - Sends polls, then poll votes cast offline
+ * - Schedules the next pass for the earliest retry; reconnecting retries right away
  */
 
 type QueuedMessage = ImportedQueuedMessage;
@@ -19,13 +52,94 @@ type QueuedMessage = ImportedQueuedMessage;
 export interface QueueProcessResult {
   success: number;
   failed: number;
+  deferred: number;           // Still queued: waiting for a retry or an earlier message
   total: number;
 }
 
+export interface QueueProcessOptions {
+  retryNow?: boolean;         // Ignore backoff (e.g. the connection just came back)
+}
+
+// 'applied': reached Firestore right away; 'queued': logged for replay (or collapsed)
+export type OperationSubmitResult = 'applied' | 'queued';
+
+// Something waiting to reach Firestore: an unsent message or a logged operation
+type QueueEntry =
+  | { kind: 'message'; message: QueuedMessage; queuedAt: number; nextAttemptAt: number | null }
+  | { kind: 'operation'; operation: MessageOperation; queuedAt: number; nextAttemptAt: number | null };
+
+type SendResult =
+  | { status: 'sent' }
+  | { status: 'failed' }
+  | { status: 'retry'; nextAttemptAt: number };
+
+interface ChatQueueResult {
+  success: number;
+  failed: number;
+  deferred: number;
+  nextAttemptAt: number | null;
+}
+
+// Chats sent to at the same time
+const MAX_CONCURRENT_CHATS = 3;
+
+const EMPTY_RESULT: QueueProcessResult = { success: 0, failed: 0, deferred: 0, total: 0 };
+
+/**
+ * Map a SQLite row (with its outbox retry state, if any) to a queued message
+ */
+const toQueuedMessage = (msg: MessageRow & Partial<PendingMessageRow>): QueuedMessage => ({
+  ...msg,
+  status: msg.status as MessageStatus,
+  type: msg.type as MessageType,
+  reactions: msg.reactions ? JSON.parse(msg.reactions) : undefined,
+  deletedForEveryone: msg.deletedForEveryone === 1,
+  translations: msg.translations ? JSON.parse(msg.translations) : undefined,
+  syncStatus: msg.syncStatus as MessageSyncStatus,
+  sentAsTranslation: msg.sentAsTranslation === 1,
+  replyPreview: msg.replyPreview ? JSON.parse(msg.replyPreview) : null,
+  waveform: msg.waveform ? JSON.parse(msg.waveform) : null,
+  poll: msg.poll ? JSON.parse(msg.poll) : null,
+  retryCount: msg.attempts ?? 0,
+  lastAttempt: msg.lastAttemptAt ?? null,
+  nextAttemptAt: msg.nextAttemptAt ?? null,
+  lastError: msg.lastError ?? null,
+} as QueuedMessage);
+
+/**
+ * An unsent message as a 'send' operation, for collapsing
+ */
+const toSendOperation = (message: QueuedMessage): MessageOperation => ({
+  id: message.id,
+  type: 'send',
+  chatId: message.chatId,
+  messageId: message.id,
+  userId: message.senderId,
+  createdAt: message.timestamp as number,
+});
+
+/**
+ * Update a message in ChatStore (SQLite is the source of truth, so failures are ignored)
+ */
+const updateMessageInStore = async (messageId: string, changes: Partial<Message>): Promise<void> => {
+  try {
+    const { useChatStore } = await import('@/store');
+    useChatStore.setState({
+      messages: useChatStore.getState().messages.map(msg =>
+        msg.id === messageId ? { ...msg, ...changes } : msg
+      ),
+    });
+  } catch {
+    // UI update failed - not critical, SQLite is source of truth
+  }
+};
+
 class MessageQueueClass {
   private isProcessing: boolean = false;
-  private maxRetries: number = 3;
-  private retryDelay: number = 2000; // 2 seconds between retries
+  private processAgain: boolean = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Logged operations as last read from or written to SQLite (for applyPendingOperations)
+  private operations: MessageOperation[] = [];
 
   /**
    * Get all pending messages from queue
@@ -36,18 +150,7 @@ class MessageQueueClass {
       const messages = await SQLiteService.getPendingMessages();
       
       // Map to QueuedMessage format with retry metadata
-      return messages.map(msg => ({
-        ...msg,
-        status: msg.status as MessageStatus,
-        type: msg.type as MessageType,
-        reactions: msg.reactions ? JSON.parse(msg.reactions) : undefined,
-        deletedForEveryone: msg.deletedForEveryone === 1,
-        translations: msg.translations ? JSON.parse(msg.translations) : undefined,
-        syncStatus: msg.syncStatus as MessageSyncStatus,
-        sentAsTranslation: msg.sentAsTranslation === 1,
-        retryCount: 0, // Will be tracked during processing
-        lastAttempt: null,
-      } as QueuedMessage));
+      return messages.map(toQueuedMessage);
     } catch (error) {
       console.error('Error getting pending messages:', error);
       return [];
@@ -56,188 +159,694 @@ class MessageQueueClass {
 
   /**
    * Process message queue
-   * Upload all pending messages to Firestore
+   * Sends every message that is due (all of them with `retryNow`), in order
+   * per chat and several chats at a time
    * Returns summary of successes and failures
    */
-  async processQueue(): Promise<QueueProcessResult> {
+  async processQueue(options: QueueProcessOptions = {}): Promise<QueueProcessResult> {
     if (this.isProcessing) {
-      return { success: 0, failed: 0, total: 0 };
+      return { ...EMPTY_RESULT };
     }
 
     this.isProcessing = true;
+    this.clearRetryTimer();
 
     try {
-      const pendingMessages = await this.getPendingMessages();
+      // Messages that gave up wait for the user to retry them
+      const pendingMessages = (await this.getPendingMessages()).filter(msg => msg.status !== 'failed');
+      const operations = await this.loadOperations();
       
-      if (pendingMessages.length === 0) {
+      if (pendingMessages.length === 0 && operations.length === 0) {
         console.log('📭 No pending messages to process');
-        return { success: 0, failed: 0, total: 0 };
+        await this.processPollVotes();
+        return { ...EMPTY_RESULT };
       }
 
-      console.log(`📬 Processing ${pendingMessages.length} pending messages...`);
-
-      let successCount = 0;
-      let failedCount = 0;
+      console.log(`📬 Processing ${pendingMessages.length} pending messages and ${operations.length} operations...`);
+
+      const entries: QueueEntry[] = [
+        ...pendingMessages.map(message => ({
+          kind: 'message' as const,
+          message,
+          queuedAt: message.timestamp as number,
+          nextAttemptAt: message.nextAttemptAt,
+        })),
+        ...operations.map(operation => ({
+          kind: 'operation' as const,
+          operation,
+          queuedAt: operation.createdAt,
+          nextAttemptAt: operation.nextAttemptAt ?? null,
+        })),
+      ].sort((a, b) => a.queuedAt - b.queuedAt);
+
+      // Group by chat, keeping FIFO order within each chat
+      const chatQueues = new Map<string, QueueEntry[]>();
+      for (const entry of entries) {
+        const chatId = entry.kind === 'message' ? entry.message.chatId : entry.operation.chatId;
+        chatQueues.set(chatId, [...(chatQueues.get(chatId) || []), entry]);
+      }
 
-      // Process messages in FIFO order
-      for (const message of pendingMessages) {
-        const success = await this.uploadMessage(message);
-        
-        if (success) {
-          successCount++;
-        } else {
-          failedCount++;
+      const result: QueueProcessResult = { ...EMPTY_RESULT, total: entries.length };
+      let nextRetryAt: number | null = null;
+
+      // A few workers, each taking the next chat and sending its changes in order
+      const remainingChats = [...chatQueues.values()];
+      const worker = async () => {
+        for (let queue = remainingChats.shift(); queue; queue = remainingChats.shift()) {
+          const chatResult = await this.processChatQueue(queue, options);
+          result.success += chatResult.success;
+          result.failed += chatResult.failed;
+          result.deferred += chatResult.deferred;
+          if (chatResult.nextAttemptAt !== null) {
+            nextRetryAt = Math.min(nextRetryAt ?? Infinity, chatResult.nextAttemptAt);
+          }
         }
-      }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(MAX_CONCURRENT_CHATS, remainingChats.length) }, worker)
+      );
 
-      console.log(`✅ Queue processed: ${successCount} sent, ${failedCount} failed`);
+      console.log(`✅ Queue processed: ${result.success} sent, ${result.failed} failed, ${result.deferred} waiting`);
 
-      return {
-        success: successCount,
-        failed: failedCount,
-        total: pendingMessages.length,
-      };
+      // Votes go after the messages, so votes on polls sent offline find their poll
+      await this.processPollVotes();
+
+      this.scheduleRetry(nextRetryAt);
+      return result;
     } catch (error) {
       console.error('❌ Error processing message queue:', error);
-      return { success: 0, failed: 0, total: 0 };
+      return { ...EMPTY_RESULT };
     } finally {
       this.isProcessing = false;
+
+      // Something was logged during this pass: go again
+      if (this.processAgain) {
+        this.processAgain = false;
+        this.scheduleRetry(Date.now());
+      }
     }
   }
 
   /**
-   * Upload single message with retry logic
-   * Returns true if successful, false if all retries failed
+   * Send one chat's messages and operations in order
+   * Stops at the first change that isn't due or has to be retried, so later
+   * changes never overtake it; changes that give up don't hold the rest back
    */
-  private async uploadMessage(message: QueuedMessage): Promise<boolean> {
-    let attempts = 0;
+  private async processChatQueue(entries: QueueEntry[], options: QueueProcessOptions): Promise<ChatQueueResult> {
+    const result: ChatQueueResult = { success: 0, failed: 0, deferred: 0, nextAttemptAt: null };
 
-    while (attempts < this.maxRetries) {
-      attempts++;
-      
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+
+      if (!options.retryNow && entry.nextAttemptAt && entry.nextAttemptAt > Date.now()) {
+        return { ...result, deferred: entries.length - i, nextAttemptAt: entry.nextAttemptAt };
+      }
+
+      const sendResult = entry.kind === 'message'
+        ? await this.sendQueuedMessage(entry.message)
+        : await this.replayOperation(entry.operation);
+      if (sendResult.status === 'sent') {
+        result.success++;
+      } else if (sendResult.status === 'failed') {
+        result.failed++;
+      } else {
+        return { ...result, deferred: entries.length - i, nextAttemptAt: sendResult.nextAttemptAt };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get logged operations waiting to be replayed, oldest first
+   */
+  async loadOperations(): Promise<MessageOperation[]> {
+    try {
+      const rows = await SQLiteService.getOperations();
+      this.operations = rows.map(fromOperationRow);
+    } catch (error) {
+      console.error('Error getting logged operations:', error);
+    }
+    return this.operations;
+  }
+
+  /**
+   * Apply logged operations on top of messages (e.g. fresh from a server snapshot),
+   * so changes waiting to be replayed stay visible
+   */
+  applyPendingOperations<T extends Message>(messages: T[]): T[] {
+    return applyOperations(messages, this.operations);
+  }
+
+  /**
+   * Submit a change the user made (already applied to SQLite and ChatStore)
+   * Goes straight to Firestore when online and nothing else in the chat is waiting;
+   * otherwise (or when the server can't be reached) it's logged for replay.
+   * Errors other than connectivity ones are thrown, so the caller can undo the change.
+   */
+  async submitOperation(operation: MessageOperation): Promise<OperationSubmitResult> {
+    const [unsentMessages, operations, network] = await Promise.all([
+      this.getPendingMessages(),
+      this.loadOperations(),
+      NetInfo.fetch(),
+    ]);
+    const chatMessages = unsentMessages.filter(msg => msg.chatId === operation.chatId);
+    const chatOperations = operations.filter(op => op.chatId === operation.chatId);
+    const isWaiting = chatOperations.length > 0 || chatMessages.some(msg => msg.status !== 'failed');
+
+    if (network.isConnected && !isWaiting) {
       try {
-        console.log(`📤 Uploading queued message: ${message.id}`);
-
-        // Upload to Firestore with the SAME message ID (prevents duplicates)
-        if (message.type === 'text') {
-          await MessageService.sendMessage(
-            message.chatId, 
-            message.senderId, 
-            message.text || '', 
-            message.id, // Use original message ID
-            undefined,
-            {
-              originalText: message.originalText,
-              originalLanguage: message.originalLanguage,
-              translatedTo: message.translatedTo,
-              sentAsTranslation: message.sentAsTranslation,
-            }
-          );
-        } else if (message.type === 'image') {
-          // Image messages already uploaded (images are uploaded before queuing)
-          // Just update message document in Firestore
-          await MessageService.sendImageMessage(
-            message.chatId,
-            message.senderId,
-            message.imageUrl!,
-            message.thumbnailUrl!,
-            message.caption || undefined
-          );
+        await this.runOperation(operation);
+        return 'applied';
+      } catch (error) {
+        if (!isConnectivityError(error)) {
+          throw error;
         }
+        console.warn(`⚠️ Server unreachable, queueing ${operation.type}:`, error);
+      }
+    }
 
-        // Update SQLite: mark as synced
-        await SQLiteService.updateMessageStatus(message.id, 'sent', 'synced');
-        
-        // Update chat's last message (so it shows in chat list)
-        try {
-          const { ChatService } = await import('@/services/firebase');
-          await ChatService.updateChatLastMessage(
-            message.chatId,
-            message.text || (message.caption ? `📷 ${message.caption}` : '📷 Image'),
-            message.senderId,
-            'sent',
-            message.timestamp
-          );
-        } catch (error) {
-          console.warn('⚠️ Failed to update chat last message:', error);
+    await this.logOperation(operation, chatMessages, chatOperations);
+
+    if (network.isConnected) {
+      if (this.isProcessing) {
+        this.processAgain = true;
+      } else {
+        this.processQueue();
+      }
+    }
+    return 'queued';
+  }
+
+  /**
+   * Log an operation, collapsing it into the chat's waiting changes
+   * A deleted unsent message is dropped instead of being sent
+   */
+  private async logOperation(
+    operation: MessageOperation,
+    chatMessages: QueuedMessage[],
+    chatOperations: MessageOperation[]
+  ): Promise<void> {
+    const { operation: logged, cancelled } = collapseOperation(
+      [...chatMessages.map(toSendOperation), ...chatOperations],
+      operation
+    );
+
+    for (const waiting of cancelled) {
+      if (waiting.type === 'send') {
+        await this.discardUnsentMessage(chatMessages.find(msg => msg.id === waiting.messageId)!);
+      } else {
+        await SQLiteService.deleteOperation(waiting.id);
+      }
+    }
+
+    const cancelledIds = new Set(cancelled.map(op => op.id));
+    this.operations = this.operations.filter(op => !cancelledIds.has(op.id));
+
+    if (logged) {
+      await SQLiteService.saveOperation(toOperationRow(logged));
+      this.operations = [...this.operations, logged];
+      console.log(`📝 Logged ${logged.type} for ${logged.messageId}`);
+    } else {
+      console.log(`📝 ${operation.type} for ${operation.messageId} collapsed into ${cancelled.length} waiting changes`);
+    }
+  }
+
+  /**
+   * Drop a message that was deleted before it was ever sent
+   */
+  private async discardUnsentMessage(message: QueuedMessage): Promise<void> {
+    await SQLiteService.deleteUnsentMessage(message.id);
+    if (message.type === 'image' && message.imageUrl && !message.imageUrl.startsWith('http')) {
+      await StorageService.releaseImageForUpload(message.imageUrl);
+    }
+  }
+
+  /**
+   * Make one attempt to replay a logged operation
+   */
+  private async replayOperation(operation: MessageOperation): Promise<SendResult> {
+    try {
+      console.log(`📤 Replaying ${operation.type} for ${operation.messageId}`);
+      await this.runOperation(operation);
+    } catch (error) {
+      return this.handleOperationError(operation, error);
+    }
+
+    await this.forgetOperation(operation);
+    return { status: 'sent' };
+  }
+
+  /**
+   * Apply an operation to Firestore
+   */
+  private async runOperation(operation: MessageOperation): Promise<void> {
+    const { chatId, messageId, userId } = operation;
+
+    switch (operation.type) {
+      case 'react':
+        await MessageService.addReaction(chatId, messageId, operation.emoji, userId);
+        return;
+
+      case 'unreact':
+        await MessageService.removeReaction(chatId, messageId, operation.emoji, userId);
+        return;
+
+      case 'delete':
+        await MessageService.deleteMessageForEveryone(chatId, messageId, userId);
+        return;
+
+      case 'edit': {
+        const { editedAt, editHistory } = await MessageService.editMessage(chatId, messageId, userId, operation.text);
+
+        // Keep server-confirmed edit metadata
+        await SQLiteService.updateMessageText(messageId, operation.text, editedAt, editHistory);
+        await updateMessageInStore(messageId, { editedAt, editHistory });
+        return;
+      }
+
+      case 'markRead': {
+        await ChatService.markChatAsRead(chatId, userId, messageId, operation.readUpTo);
+
+        for (const readMessageId of operation.messageIds) {
+          try {
+            await MessageService.updateMessageStatus(chatId, readMessageId, 'read');
+          } catch (error) {
+            console.error('Error marking message as read:', readMessageId, error);
+          }
         }
-        
-        // Update UI: Notify ChatStore to refresh message status
-        try {
-          const { useChatStore } = await import('@/store');
-          const currentMessages = useChatStore.getState().messages;
-          const updatedMessages = currentMessages.map(msg => 
-            msg.id === message.id 
-              ? { ...msg, status: 'sent' as MessageStatus, syncStatus: 'synced' as MessageSyncStatus }
-              : msg
+
+        if (operation.lastMessage) {
+          await ChatService.updateChatLastMessage(
+            chatId,
+            operation.lastMessage.text,
+            operation.lastMessage.senderId,
+            'read',
+            operation.lastMessage.timestamp
           );
-          useChatStore.setState({ messages: updatedMessages });
-        } catch (error) {
-          // UI update failed - not critical, SQLite is source of truth
         }
-        
-        console.log(`✅ Message uploaded successfully: ${message.id}`);
-        return true;
+        return;
+      }
 
-      } catch (error) {
-        console.error(`❌ Upload attempt ${attempts} failed:`, error);
+      case 'send':
+        throw new PermanentSendError('Messages are sent from the pending queue');
+    }
+  }
 
-        // Wait before retry (except on last attempt)
-        if (attempts < this.maxRetries) {
-          await this.delay(this.retryDelay);
-        }
+  /**
+   * Record a failed replay: schedule a retry with backoff, or give up
+   * (permanent error or too many attempts) and restore the server's version
+   */
+  private async handleOperationError(operation: MessageOperation, error: unknown): Promise<SendResult> {
+    const attempts = (operation.attempts ?? 0) + 1;
+    const kind = classifySendError(error);
+    const giveUp = kind === 'permanent' || attempts >= OUTBOX_MAX_ATTEMPTS;
+
+    console.error(`❌ Replay attempt ${attempts} of ${operation.type} failed (${kind}):`, error);
+
+    if (giveUp) {
+      await this.forgetOperation(operation);
+      await this.restoreMessage(operation);
+      return { status: 'failed' };
+    }
+
+    const retry: MessageOperation = {
+      ...operation,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+    try {
+      await SQLiteService.saveOperation(toOperationRow(retry));
+      this.operations = this.operations.map(op => op.id === retry.id ? retry : op);
+    } catch (saveError) {
+      console.error('Error saving operation retry state:', saveError);
+    }
+    return { status: 'retry', nextAttemptAt: retry.nextAttemptAt! };
+  }
+
+  /**
+   * Remove an operation from the log (replayed or given up)
+   */
+  private async forgetOperation(operation: MessageOperation): Promise<void> {
+    this.operations = this.operations.filter(op => op.id !== operation.id);
+    try {
+      await SQLiteService.deleteOperation(operation.id);
+    } catch (error) {
+      console.warn('⚠️ Failed to delete logged operation:', error);
+    }
+  }
+
+  /**
+   * Undo a change the server rejected by taking the server's version of the message
+   * Read receipts are left alone: the chat listener corrects the unread count
+   */
+  private async restoreMessage(operation: MessageOperation): Promise<void> {
+    if (operation.type === 'markRead') {
+      return;
+    }
+
+    try {
+      const serverMessage = await MessageService.getMessageById(operation.chatId, operation.messageId);
+      const row = await SQLiteService.getMessageById(operation.messageId);
+      if (!serverMessage || !row) {
+        return;
       }
+
+      const restored = applyOperations([serverMessage], this.operations)[0];
+      await SQLiteService.saveMessage({
+        ...row,
+        text: restored.text,
+        reactions: JSON.stringify(restored.reactions || {}),
+        deletedForEveryone: restored.deletedForEveryone ? 1 : 0,
+        editedAt: restored.editedAt ?? null,
+        editHistory: JSON.stringify(restored.editHistory || []),
+      });
+      await updateMessageInStore(operation.messageId, {
+        text: restored.text,
+        reactions: restored.reactions,
+        deletedForEveryone: restored.deletedForEveryone,
+        editedAt: restored.editedAt,
+        editHistory: restored.editHistory,
+      });
+    } catch (error) {
+      console.error('Error restoring message after rejected change:', error);
     }
+  }
+
+  /**
+   * Make one attempt to send a queued message
+   * Failures are recorded in the outbox; `finalAttempt` gives up on any error
+   */
+  private async sendQueuedMessage(
+    message: QueuedMessage,
+    { finalAttempt = false }: { finalAttempt?: boolean } = {}
+  ): Promise<SendResult> {
+    let uploaded: Partial<Message>;
 
-    // All retries failed - mark as failed
-    
     try {
-      // Update SQLite: mark as failed
-      await SQLiteService.updateMessageStatus(message.id, 'failed');
+      console.log(`📤 Uploading queued message: ${message.id}`);
+      uploaded = await this.uploadMessage(message);
+
+      // Update SQLite: mark as synced
+      await SQLiteService.updateMessageStatus(message.id, 'sent', 'synced');
+    } catch (error) {
+      return this.handleSendError(message, error, finalAttempt);
+    }
+
+    // The retry state is no longer needed
+    try {
+      await SQLiteService.deleteOutboxEntry(message.id);
+    } catch (error) {
+      console.warn('⚠️ Failed to clear outbox entry:', error);
+    }
+
+    // Update chat's last message (so it shows in chat list)
+    try {
+      await ChatService.updateChatLastMessage(
+        message.chatId,
+        message.type === 'voice'
+          ? '🎤 Voice message'
+          : message.type === 'file'
+            ? `📎 ${message.fileName}`
+            : message.type === 'poll'
+              ? getPollPreviewText(message.poll)
+              : message.text || (message.caption ? `📷 ${message.caption}` : '📷 Image'),
+        message.senderId,
+        'sent',
+        message.timestamp
+      );
     } catch (error) {
-      console.error('Error updating message status to failed:', error);
+      console.warn('⚠️ Failed to update chat last message:', error);
+    }
+
+    // Update UI: Notify ChatStore to refresh message status (and swap in uploaded URLs)
+    await updateMessageInStore(message.id, {
+      ...uploaded,
+      status: 'sent' as MessageStatus,
+      syncStatus: 'synced' as MessageSyncStatus,
+    });
+
+    console.log(`✅ Message uploaded successfully: ${message.id}`);
+    return { status: 'sent' };
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry with backoff, or give up
+   * (permanent error, too many attempts, or `finalAttempt`)
+   */
+  private async handleSendError(message: QueuedMessage, error: unknown, finalAttempt: boolean): Promise<SendResult> {
+    const attempts = message.retryCount + 1;
+    const kind = classifySendError(error);
+    const now = Date.now();
+    const giveUp = finalAttempt || kind === 'permanent' || attempts >= OUTBOX_MAX_ATTEMPTS;
+    const nextAttemptAt = giveUp ? 0 : now + getRetryDelay(attempts);
+
+    console.error(`❌ Upload attempt ${attempts} failed (${kind}):`, error);
+
+    try {
+      await SQLiteService.saveOutboxEntry({
+        messageId: message.id,
+        chatId: message.chatId,
+        attempts,
+        nextAttemptAt,
+        lastAttemptAt: now,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    } catch (saveError) {
+      console.error('Error saving outbox entry:', saveError);
+    }
+
+    if (!giveUp) {
+      return { status: 'retry', nextAttemptAt };
     }
 
-    return false;
+    try {
+      // Update SQLite: mark as failed (stays queued until the user retries)
+      await SQLiteService.updateMessageStatus(message.id, 'failed');
+    } catch (statusError) {
+      console.error('Error updating message status to failed:', statusError);
+    }
+    await updateMessageInStore(message.id, { status: 'failed' as MessageStatus });
+
+    return { status: 'failed' };
+  }
+
+  /**
+   * Upload a message to Firestore, uploading local media to Storage first
+   * Returns the Storage URLs that replaced local URIs
+   */
+  private async uploadMessage(message: QueuedMessage): Promise<Partial<Message>> {
+    const replyOptions = {
+      replyToId: message.replyToId || undefined,
+      replyPreview: message.replyPreview || undefined,
+      threadId: message.threadId || undefined,
+    };
+
+    // Upload to Firestore with the SAME message ID (prevents duplicates)
+    if (message.type === 'text') {
+      await MessageService.sendMessage(
+        message.chatId, 
+        message.senderId, 
+        message.text || '', 
+        message.id, // Use original message ID
+        undefined,
+        {
+          originalText: message.originalText,
+          originalLanguage: message.originalLanguage,
+          translatedTo: message.translatedTo,
+          sentAsTranslation: message.sentAsTranslation,
+        },
+        replyOptions
+      );
+      return {};
+    }
+
+    if (message.type === 'image' && message.imageUrl) {
+      // Upload the local image first if it was sent offline or the app closed before it reached Storage
+      let imageUrl = message.imageUrl;
+      let thumbnailUrl = message.thumbnailUrl || imageUrl;
+      if (!imageUrl.startsWith('http')) {
+        await this.ensureLocalFile(imageUrl);
+        const localUri = imageUrl;
+        ({ imageUrl, thumbnailUrl } = await StorageService.uploadMessageImage(message.chatId, message.id, localUri));
+        await SQLiteService.updateMessageImageUrls(message.id, imageUrl, thumbnailUrl);
+        await StorageService.releaseImageForUpload(localUri);
+      }
+
+      await MessageService.sendMessage(
+        message.chatId,
+        message.senderId,
+        '',
+        message.id,
+        {
+          type: 'image',
+          imageUrl,
+          thumbnailUrl,
+          caption: message.caption || null,
+        },
+        undefined,
+        replyOptions
+      );
+      return { imageUrl, thumbnailUrl };
+    }
+
+    if (message.type === 'voice' && message.audioUrl) {
+      // Upload the local recording first if the app closed before it reached Storage
+      let audioUrl = message.audioUrl;
+      if (!audioUrl.startsWith('http')) {
+        await this.ensureLocalFile(audioUrl);
+        audioUrl = await StorageService.uploadVoiceMessage(message.chatId, message.id, audioUrl);
+        await SQLiteService.updateMessageAudioUrl(message.id, audioUrl);
+      }
+
+      await MessageService.sendMessage(
+        message.chatId,
+        message.senderId,
+        '',
+        message.id,
+        {
+          type: 'voice',
+          audioUrl,
+          audioDuration: message.audioDuration || 0,
+          waveform: message.waveform || [],
+        },
+        undefined,
+        replyOptions
+      );
+      return { audioUrl };
+    }
+
+    if (message.type === 'poll' && message.poll) {
+      // The sender's own offline vote is sent separately, after the poll
+      await MessageService.sendMessage(
+        message.chatId,
+        message.senderId,
+        '',
+        message.id,
+        { type: 'poll', poll: clearPollResults(message.poll) }
+      );
+      return {};
+    }
+
+    if (message.type === 'file' && message.fileUrl && message.fileName) {
+      // Upload the local file first if the app closed before it reached Storage
+      let fileUrl = message.fileUrl;
+      if (!fileUrl.startsWith('http')) {
+        await this.ensureLocalFile(fileUrl);
+        const { FileTransferService } = await import('@/services/firebase');
+        fileUrl = await FileTransferService.uploadMessageFile(
+          message.chatId,
+          message.id,
+          fileUrl,
+          message.fileName,
+          message.mimeType || 'application/octet-stream'
+        );
+        await SQLiteService.updateMessageFileUrl(message.id, fileUrl);
+      }
+
+      await MessageService.sendMessage(
+        message.chatId,
+        message.senderId,
+        '',
+        message.id,
+        {
+          type: 'file',
+          fileUrl,
+          fileName: message.fileName,
+          mimeType: message.mimeType || 'application/octet-stream',
+          fileSize: message.fileSize || 0,
+        },
+        undefined,
+        replyOptions
+      );
+      return { fileUrl };
+    }
+
+    throw new PermanentSendError(`Message ${message.id} has nothing to send`);
+  }
+
+  /**
+   * Fail for good if a local file waiting for upload was deleted
+   */
+  private async ensureLocalFile(uri: string): Promise<void> {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info?.exists) {
+      throw new PermanentSendError(`Local file no longer exists: ${uri}`);
+    }
+  }
+
+  /**
+   * Send poll votes cast offline
+   * Votes the server rejects (poll closed or deleted) are dropped; the poll's
+   * results are corrected by the messages listener
+   * Returns the number of votes sent
+   */
+  async processPollVotes(): Promise<number> {
+    try {
+      const pendingVotes = await SQLiteService.getPendingPollVotes();
+      if (pendingVotes.length === 0) {
+        return 0;
+      }
+
+      const { PollService } = await import('@/services/firebase');
+      let sentCount = 0;
+
+      for (const vote of pendingVotes) {
+        try {
+          const poll: MessagePoll = await PollService.vote(vote.chatId, vote.messageId, JSON.parse(vote.optionIds));
+          await SQLiteService.updatePollVoteSyncStatus(vote.messageId, vote.userId, 'synced');
+          await SQLiteService.updateMessagePoll(vote.messageId, poll);
+          sentCount++;
+
+          try {
+            const { useChatStore } = await import('@/store');
+            useChatStore.setState({
+              messages: useChatStore.getState().messages.map(msg =>
+                msg.id === vote.messageId ? { ...msg, poll } : msg
+              ),
+            });
+          } catch {
+            // UI update failed - not critical, SQLite is source of truth
+          }
+        } catch (error: any) {
+          console.error(`❌ Failed to send poll vote for ${vote.messageId}:`, error);
+
+          if (error?.code === 'functions/failed-precondition' || error?.code === 'functions/not-found') {
+            await SQLiteService.deletePollVote(vote.messageId, vote.userId);
+          }
+        }
+      }
+
+      console.log(`🗳️ Sent ${sentCount}/${pendingVotes.length} offline poll votes`);
+      return sentCount;
+    } catch (error) {
+      console.error('❌ Error processing poll votes:', error);
+      return 0;
+    }
   }
 
   /**
    * Retry single failed message
-   * Called when user taps "Retry" button
+   * Called when user taps "Retry" button - starts over with a single attempt
    */
   async retryMessage(messageId: string): Promise<boolean> {
     try {
-
       const message = await SQLiteService.getMessageById(messageId);
       
       if (!message) {
         return false;
       }
 
-      // Reset status to pending
+      // Reset status to pending, and forget earlier attempts
       await SQLiteService.updateMessageStatus(messageId, 'sending');
+      await SQLiteService.deleteOutboxEntry(messageId);
 
-      // Upload message
-      const queuedMessage: QueuedMessage = {
-        ...message,
-        status: message.status as MessageStatus,
-        type: message.type as MessageType,
-        reactions: message.reactions ? JSON.parse(message.reactions) : undefined,
-        deletedForEveryone: message.deletedForEveryone === 1,
-        translations: message.translations ? JSON.parse(message.translations) : undefined,
-        syncStatus: message.syncStatus as MessageSyncStatus,
-        sentAsTranslation: message.sentAsTranslation === 1,
-        retryCount: 0,
-        lastAttempt: null,
-      } as QueuedMessage;
-
-      const success = await this.uploadMessage(queuedMessage);
-
-      if (success) {
-      } else {
-      }
-
-      return success;
+      const result = await this.sendQueuedMessage(
+        toQueuedMessage({ ...message, status: 'sending' }),
+        { finalAttempt: true }
+      );
+      return result.status === 'sent';
     } catch (error) {
       console.error('Error retrying message:', error);
       return false;
@@ -299,12 +908,24 @@ class MessageQueueClass {
   }
 
   /**
-   * Delay helper for retry logic
+   * Run the queue again when the earliest retry is due
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private scheduleRetry(nextRetryAt: number | null): void {
+    this.clearRetryTimer();
+    if (nextRetryAt === null) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, Math.max(0, nextRetryAt - Date.now()));
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 }
 
 export const MessageQueue = new MessageQueueClass();
-
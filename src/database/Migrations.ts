@@ -5,7 +5,16 @@
  */
 
 import { Migration } from '@/shared/types';
-import { CREATE_ALL_TABLES } from './Schema';
+import {
+    CREATE_ALL_TABLES,
+    CREATE_MESSAGES_FTS_TABLE,
+    CREATE_MESSAGES_FTS_TRIGGERS,
+    CREATE_OPERATION_LOG_TABLE,
+    CREATE_OUTBOX_TABLE,
+    CREATE_POLL_VOTES_TABLE,
+    CREATE_SCHEDULED_MESSAGES_TABLE,
+    REBUILD_MESSAGES_FTS
+} from './Schema';
 
 /**
  * All migrations in order
@@ -84,6 +93,156 @@ export const migrations: Migration[] = [
       'SELECT 1;', // No-op - can't easily drop column in SQLite
     ],
   },
+  {
+    version: 6,
+    name: 'Add edit columns to messages',
+    up: [
+      'ALTER TABLE messages ADD COLUMN editedAt INTEGER;',
+      'ALTER TABLE messages ADD COLUMN editHistory TEXT;',
+    ],
+    down: [
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 7,
+    name: 'Add reply and thread columns to messages',
+    up: [
+      'ALTER TABLE messages ADD COLUMN replyToId TEXT;',
+      'ALTER TABLE messages ADD COLUMN replyPreview TEXT;',
+      'ALTER TABLE messages ADD COLUMN threadId TEXT;',
+      'ALTER TABLE messages ADD COLUMN threadReplyCount INTEGER DEFAULT 0;',
+      'ALTER TABLE messages ADD COLUMN threadLastReplyAt INTEGER;',
+      'CREATE INDEX IF NOT EXISTS idx_messages_threadId ON messages(threadId);',
+    ],
+    down: [
+      'DROP INDEX IF EXISTS idx_messages_threadId;',
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 8,
+    name: 'Add voice message columns to messages',
+    up: [
+      'ALTER TABLE messages ADD COLUMN audioUrl TEXT;',
+      'ALTER TABLE messages ADD COLUMN audioDuration INTEGER;',
+      'ALTER TABLE messages ADD COLUMN waveform TEXT;',
+      'ALTER TABLE messages ADD COLUMN transcriptionStatus TEXT;',
+    ],
+    down: [
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 9,
+    name: 'Add file attachment columns to messages',
+    up: [
+      'ALTER TABLE messages ADD COLUMN fileUrl TEXT;',
+      'ALTER TABLE messages ADD COLUMN fileName TEXT;',
+      'ALTER TABLE messages ADD COLUMN mimeType TEXT;',
+      'ALTER TABLE messages ADD COLUMN fileSize INTEGER;',
+    ],
+    down: [
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 10,
+    name: 'Add scheduled_messages table',
+    up: [
+      CREATE_SCHEDULED_MESSAGES_TABLE,
+      'CREATE INDEX IF NOT EXISTS idx_scheduled_messages_chatId_scheduledFor ON scheduled_messages(chatId, scheduledFor);',
+    ],
+    down: [
+      'DROP TABLE IF EXISTS scheduled_messages;',
+    ],
+  },
+  {
+    version: 11,
+    name: 'Add mute, pin and archive columns to chats',
+    up: [
+      'ALTER TABLE chats ADD COLUMN mutedUntil INTEGER;',
+      'ALTER TABLE chats ADD COLUMN pinned INTEGER DEFAULT 0;',
+      'ALTER TABLE chats ADD COLUMN archived INTEGER DEFAULT 0;',
+    ],
+    down: [
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 12,
+    name: 'Add encrypted column to chats',
+    up: [
+      'ALTER TABLE chats ADD COLUMN encrypted INTEGER DEFAULT 0;',
+    ],
+    down: [
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 13,
+    name: 'Add full-text search index for messages',
+    up: [
+      CREATE_MESSAGES_FTS_TABLE,
+      ...CREATE_MESSAGES_FTS_TRIGGERS,
+      ...REBUILD_MESSAGES_FTS,
+    ],
+    down: [
+      'DROP TRIGGER IF EXISTS messages_fts_before_insert;',
+      'DROP TRIGGER IF EXISTS messages_fts_after_insert;',
+      'DROP TRIGGER IF EXISTS messages_fts_after_update;',
+      'DROP TRIGGER IF EXISTS messages_fts_after_delete;',
+      'DROP TABLE IF EXISTS messages_fts;',
+    ],
+  },
+  {
+    version: 14,
+    name: 'Add group role and settings columns to chats',
+    up: [
+      'ALTER TABLE chats ADD COLUMN groupAdminIds TEXT;',
+      'ALTER TABLE chats ADD COLUMN groupModeratorIds TEXT;',
+      'ALTER TABLE chats ADD COLUMN mutedMemberIds TEXT;',
+      'ALTER TABLE chats ADD COLUMN groupSettings TEXT;',
+    ],
+    down: [
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 15,
+    name: 'Add poll column to messages and poll_votes table',
+    up: [
+      'ALTER TABLE messages ADD COLUMN poll TEXT;',
+      CREATE_POLL_VOTES_TABLE,
+      'CREATE INDEX IF NOT EXISTS idx_poll_votes_syncStatus ON poll_votes(syncStatus);',
+    ],
+    down: [
+      'DROP TABLE IF EXISTS poll_votes;',
+      'SELECT 1;', // No-op - can't easily drop column in SQLite
+    ],
+  },
+  {
+    version: 16,
+    name: 'Add outbox table',
+    up: [
+      CREATE_OUTBOX_TABLE,
+      'CREATE INDEX IF NOT EXISTS idx_outbox_chatId ON outbox(chatId);',
+    ],
+    down: [
+      'DROP TABLE IF EXISTS outbox;',
+    ],
+  },
+  {
+    version: 17,
+    name: 'Add operation_log table',
+    up: [
+      CREATE_OPERATION_LOG_TABLE,
+      'CREATE INDEX IF NOT EXISTS idx_operation_log_chatId_createdAt ON operation_log(chatId, createdAt);',
+    ],
+    down: [
+      'DROP TABLE IF EXISTS operation_log;',
+    ],
+  },
 ];
 
 /**
@@ -6,17 +6,34 @@
  */
 
 import {
+    ChatPreferences,
     ChatRow,
     DatabaseInitResult,
     FriendRequestRow,
+    MessageEdit,
     MessageRow,
+    MessageSearchOptions,
+    MessageSearchResult,
+    OperationRow,
+    OutboxRow,
+    PendingMessageRow,
+    PollVoteRow,
+    ScheduledMessageRow,
     ScrollPositionRow,
+    SyncCursor,
     UserRow,
 } from '@/shared/types';
+import {
+    buildSearchQuery,
+    SEARCH_HIGHLIGHT_END,
+    SEARCH_HIGHLIGHT_START
+} from '@/shared/utils/MessageSearch';
 import * as SQLite from 'expo-sqlite';
 import { getPendingMigrations, validateMigrations } from './Migrations';
 import { CURRENT_SCHEMA_VERSION, DATABASE_NAME } from './Schema';
 
+const SYNC_CURSOR_KEY_PREFIX = 'sync_cursor:';
+
 /**
  * SQLite Database Service
  * Singleton pattern - one instance for the entire app
@@ -298,9 +315,10 @@ class SQLiteServiceClass {
     await this.db!.runAsync(
       `INSERT OR REPLACE INTO chats 
        (id, type, participants, lastMessageText, lastMessageTime, lastMessageSenderId, lastMessageStatus,
-        unreadCount, groupName, groupIcon, groupDescription, groupAdminId, inviteCode,
-        createdAt, createdBy) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        unreadCount, groupName, groupIcon, groupDescription, groupAdminId,
+        groupAdminIds, groupModeratorIds, mutedMemberIds, groupSettings, inviteCode,
+        mutedUntil, pinned, archived, encrypted, createdAt, createdBy) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         chat.id,
         chat.type,
@@ -314,7 +332,15 @@ class SQLiteServiceClass {
         chat.groupIcon,
         chat.groupDescription,
         chat.groupAdminId,
+        chat.groupAdminIds ?? null, // JSON string
+        chat.groupModeratorIds ?? null, // JSON string
+        chat.mutedMemberIds ?? null, // JSON string
+        chat.groupSettings ?? null, // JSON string
         chat.inviteCode,
+        chat.mutedUntil ?? null,
+        chat.pinned || 0,
+        chat.archived || 0,
+        chat.encrypted || 0,
         chat.createdAt || Date.now(),
         chat.createdBy,
       ]
@@ -370,6 +396,36 @@ class SQLiteServiceClass {
     );
   }
 
+  /**
+   * Update the current user's mute / pin / archive state for a chat
+   */
+  async updateChatPreferences(chatId: string, preferences: ChatPreferences): Promise<void> {
+    const updates: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (preferences.mutedUntil !== undefined) {
+      updates.push('mutedUntil = ?');
+      values.push(preferences.mutedUntil);
+    }
+    if (preferences.pinned !== undefined) {
+      updates.push('pinned = ?');
+      values.push(preferences.pinned ? 1 : 0);
+    }
+    if (preferences.archived !== undefined) {
+      updates.push('archived = ?');
+      values.push(preferences.archived ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      return;
+    }
+
+    await this.db!.runAsync(
+      `UPDATE chats SET ${updates.join(', ')} WHERE id = ?`,
+      [...values, chatId]
+    );
+  }
+
   // ==================== MESSAGE OPERATIONS ====================
 
   /**
@@ -380,8 +436,11 @@ class SQLiteServiceClass {
       `INSERT OR REPLACE INTO messages 
        (id, chatId, senderId, text, timestamp, status, type, imageUrl, thumbnailUrl,
         caption, reactions, deletedForMe, deletedForEveryone, translations, detectedLanguage, syncStatus,
-        originalText, originalLanguage, translatedTo, sentAsTranslation) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        originalText, originalLanguage, translatedTo, sentAsTranslation, editedAt, editHistory,
+        replyToId, replyPreview, threadId, threadReplyCount, threadLastReplyAt,
+        audioUrl, audioDuration, waveform, transcriptionStatus,
+        fileUrl, fileName, mimeType, fileSize, poll) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         message.id,
         message.chatId,
@@ -403,10 +462,72 @@ class SQLiteServiceClass {
         message.originalLanguage,
         message.translatedTo,
         message.sentAsTranslation ? 1 : 0,
+        message.editedAt ?? null,
+        message.editHistory ?? null, // JSON string
+        message.replyToId ?? null,
+        message.replyPreview ?? null, // JSON string
+        message.threadId ?? null,
+        message.threadReplyCount ?? 0,
+        message.threadLastReplyAt ?? null,
+        message.audioUrl ?? null,
+        message.audioDuration ?? null,
+        message.waveform ?? null, // JSON string
+        message.transcriptionStatus ?? null,
+        message.fileUrl ?? null,
+        message.fileName ?? null,
+        message.mimeType ?? null,
+        message.fileSize ?? null,
+        message.poll ?? null, // JSON string
       ]
     );
   }
 
+  /**
+   * Update the text of an edited message
+   * Clears cached translations since they no longer match the text
+   */
+  async updateMessageText(
+    messageId: string,
+    text: string,
+    editedAt: number,
+    editHistory: MessageEdit[]
+  ): Promise<void> {
+    await this.db!.runAsync(
+      'UPDATE messages SET text = ?, editedAt = ?, editHistory = ?, translations = NULL WHERE id = ?',
+      [text, editedAt, JSON.stringify(editHistory), messageId]
+    );
+  }
+
+  /**
+   * Replace a voice message's local recording URI with its Storage URL
+   */
+  async updateMessageAudioUrl(messageId: string, audioUrl: string): Promise<void> {
+    await this.db!.runAsync(
+      'UPDATE messages SET audioUrl = ? WHERE id = ?',
+      [audioUrl, messageId]
+    );
+  }
+
+  /**
+   * Replace an image message's local URIs with its Storage URLs
+   */
+  async updateMessageImageUrls(messageId: string, imageUrl: string, thumbnailUrl: string): Promise<void> {
+    await this.db!.runAsync(
+      'UPDATE messages SET imageUrl = ?, thumbnailUrl = ? WHERE id = ?',
+      [imageUrl, thumbnailUrl, messageId]
+    );
+  }
+
+  /**
+   * Replace a file message's local URI with its Storage URL
+   */
+  async updateMessageFileUrl(messageId: string, fileUrl: string): Promise<void> {
+    await this.db!.runAsync(
+      'UPDATE messages SET fileUrl = ? WHERE id = ?',
+      [fileUrl, messageId]
+    );
+  }
+
   /**
    * Update translation for a message (local only)
    * Can accept either string (legacy) or object with cultural analysis (new)
@@ -539,7 +660,8 @@ class SQLiteServiceClass {
   }
 
   /**
-   * Get messages around a specific message (for scroll position)
+   * Get messages around a specific message (for scroll position and jump-to-reply)
+   * Returns up to `limit` main-timeline messages centered on the target, oldest first
    */
   async getMessagesAround(
     chatId: string,
@@ -557,26 +679,106 @@ class SQLiteServiceClass {
       return this.getMessages(chatId, limit);
     }
     
-    // Get messages before and after
-    const result = await this.db!.getAllAsync<MessageRow>(
+    const half = Math.floor(limit / 2);
+    
+    // Target and older messages
+    const before = await this.db!.getAllAsync<MessageRow>(
       `SELECT * FROM messages 
        WHERE chatId = ? AND deletedForMe = 0 AND deletedForEveryone = 0
-       AND timestamp >= ?
+       AND threadId IS NULL AND timestamp <= ?
+       ORDER BY timestamp DESC 
+       LIMIT ?`,
+      [chatId, targetMessage.timestamp, half + 1]
+    );
+    
+    // Newer messages
+    const after = await this.db!.getAllAsync<MessageRow>(
+      `SELECT * FROM messages 
+       WHERE chatId = ? AND deletedForMe = 0 AND deletedForEveryone = 0
+       AND threadId IS NULL AND timestamp > ?
        ORDER BY timestamp ASC 
        LIMIT ?`,
-      [chatId, targetMessage.timestamp - (limit / 2) * 60000, limit]
+      [chatId, targetMessage.timestamp, limit - half - 1]
     );
     
+    return [...before.reverse(), ...after];
+  }
+
+  /**
+   * Full-text search over cached messages (text, captions and stored translations)
+   * Works offline; newest matches first. Snippets wrap matches in the
+   * SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END markers.
+   */
+  async searchMessages(
+    query: string,
+    options: MessageSearchOptions = {}
+  ): Promise<MessageSearchResult[]> {
+    const matchQuery = buildSearchQuery(query);
+    if (!matchQuery) {
+      return [];
+    }
+
+    const conditions = ['messages_fts MATCH ?', 'm.deletedForMe = 0', 'm.deletedForEveryone = 0'];
+    const params: (string | number)[] = [SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, matchQuery];
+
+    if (options.chatId) {
+      conditions.push('m.chatId = ?');
+      params.push(options.chatId);
+    }
+    if (options.senderId) {
+      conditions.push('m.senderId = ?');
+      params.push(options.senderId);
+    }
+    if (options.dateRange?.start !== undefined) {
+      conditions.push('m.timestamp >= ?');
+      params.push(options.dateRange.start);
+    }
+    if (options.dateRange?.end !== undefined) {
+      conditions.push('m.timestamp <= ?');
+      params.push(options.dateRange.end);
+    }
+    params.push(options.limit ?? 50);
+
+    return await this.db!.getAllAsync<MessageSearchResult>(
+      `SELECT m.*, snippet(messages_fts, -1, ?, ?, '…', 16) AS snippet
+       FROM messages_fts
+       JOIN messages m ON m.rowid = messages_fts.rowid
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY m.timestamp DESC
+       LIMIT ?`,
+      params
+    );
+  }
+
+  /**
+   * Get replies in a message's sub-thread (oldest first)
+   */
+  async getThreadMessages(
+    chatId: string,
+    threadId: string,
+    limit: number = 100
+  ): Promise<MessageRow[]> {
+    const result = await this.db!.getAllAsync<MessageRow>(
+      `SELECT * FROM messages 
+       WHERE chatId = ? AND threadId = ? AND deletedForMe = 0
+       ORDER BY timestamp ASC 
+       LIMIT ?`,
+      [chatId, threadId, limit]
+    );
     return result;
   }
 
   /**
-   * Get pending messages (for offline queue)
+   * Get pending messages (for offline queue) with their outbox retry state
    */
-  async getPendingMessages(): Promise<MessageRow[]> {
+  async getPendingMessages(): Promise<PendingMessageRow[]> {
     console.log('🔍 Checking for pending messages in SQLite...');
-    const result = await this.db!.getAllAsync<MessageRow>(
-      "SELECT * FROM messages WHERE syncStatus = 'pending' ORDER BY timestamp ASC"
+    const result = await this.db!.getAllAsync<PendingMessageRow>(
+      `SELECT m.*, o.attempts, o.nextAttemptAt, o.lastAttemptAt, o.lastError
+       FROM messages m
+       LEFT JOIN outbox o ON o.messageId = m.id
+       WHERE m.syncStatus = 'pending'
+       ORDER BY m.timestamp ASC`
     );
     console.log(`📦 Found ${result.length} pending messages in SQLite`);
     if (result.length > 0) {
@@ -585,6 +787,125 @@ class SQLiteServiceClass {
     return result;
   }
 
+  // ==================== OUTBOX OPERATIONS ====================
+
+  /**
+   * Save the retry state of an unsent message
+   */
+  async saveOutboxEntry(entry: OutboxRow): Promise<void> {
+    await this.db!.runAsync(
+      `INSERT OR REPLACE INTO outbox 
+       (messageId, chatId, attempts, nextAttemptAt, lastAttemptAt, lastError) 
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        entry.messageId,
+        entry.chatId,
+        entry.attempts,
+        entry.nextAttemptAt,
+        entry.lastAttemptAt,
+        entry.lastError,
+      ]
+    );
+  }
+
+  /**
+   * Delete the retry state of a message (sent, or retried from scratch)
+   */
+  async deleteOutboxEntry(messageId: string): Promise<void> {
+    await this.db!.runAsync(
+      'DELETE FROM outbox WHERE messageId = ?',
+      [messageId]
+    );
+  }
+
+  /**
+   * Delete a message that never reached Firestore, with its outbox retry state
+   */
+  async deleteUnsentMessage(messageId: string): Promise<void> {
+    await this.db!.runAsync('DELETE FROM outbox WHERE messageId = ?', [messageId]);
+    await this.db!.runAsync(
+      "DELETE FROM messages WHERE id = ? AND syncStatus = 'pending'",
+      [messageId]
+    );
+  }
+
+  // ==================== OPERATION LOG ====================
+
+  /**
+   * Get logged operations waiting to be replayed, oldest first
+   */
+  async getOperations(): Promise<OperationRow[]> {
+    return await this.db!.getAllAsync<OperationRow>(
+      'SELECT * FROM operation_log ORDER BY createdAt ASC'
+    );
+  }
+
+  /**
+   * Save a logged operation (new, or with updated retry state)
+   */
+  async saveOperation(operation: OperationRow): Promise<void> {
+    await this.db!.runAsync(
+      `INSERT OR REPLACE INTO operation_log 
+       (id, type, chatId, messageId, userId, payload, createdAt, attempts, nextAttemptAt, lastError) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        operation.id,
+        operation.type,
+        operation.chatId,
+        operation.messageId,
+        operation.userId,
+        operation.payload,
+        operation.createdAt,
+        operation.attempts,
+        operation.nextAttemptAt,
+        operation.lastError,
+      ]
+    );
+  }
+
+  /**
+   * Delete a logged operation (replayed, collapsed or given up)
+   */
+  async deleteOperation(operationId: string): Promise<void> {
+    await this.db!.runAsync(
+      'DELETE FROM operation_log WHERE id = ?',
+      [operationId]
+    );
+  }
+
+  // ==================== SYNC CURSORS ====================
+
+  /**
+   * Get a chat's delta sync cursor (null if the chat was never synced)
+   */
+  async getSyncCursor(chatId: string): Promise<SyncCursor | null> {
+    const row = await this.db!.getFirstAsync<{ value: string }>(
+      'SELECT value FROM metadata WHERE key = ?',
+      [SYNC_CURSOR_KEY_PREFIX + chatId]
+    );
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  /**
+   * Save a chat's delta sync cursor
+   */
+  async saveSyncCursor(cursor: SyncCursor): Promise<void> {
+    await this.db!.runAsync(
+      'INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)',
+      [SYNC_CURSOR_KEY_PREFIX + cursor.chatId, JSON.stringify(cursor)]
+    );
+  }
+
+  /**
+   * Delete a chat's delta sync cursor (its next sync starts over)
+   */
+  async deleteSyncCursor(chatId: string): Promise<void> {
+    await this.db!.runAsync(
+      'DELETE FROM metadata WHERE key = ?',
+      [SYNC_CURSOR_KEY_PREFIX + chatId]
+    );
+  }
+
   /**
    * Update message status
    */
@@ -678,6 +999,77 @@ class SQLiteServiceClass {
     );
   }
 
+  /**
+   * Update a poll's question, options and results
+   */
+  async updateMessagePoll(messageId: string, poll: any): Promise<void> {
+    await this.db!.runAsync(
+      'UPDATE messages SET poll = ? WHERE id = ?',
+      [JSON.stringify(poll), messageId]
+    );
+  }
+
+  // ==================== POLL VOTE OPERATIONS ====================
+
+  /**
+   * Save the current user's vote on a poll
+   */
+  async savePollVote(vote: PollVoteRow): Promise<void> {
+    await this.db!.runAsync(
+      `INSERT OR REPLACE INTO poll_votes 
+       (messageId, chatId, userId, optionIds, votedAt, syncStatus) 
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        vote.messageId,
+        vote.chatId,
+        vote.userId,
+        vote.optionIds, // JSON string
+        vote.votedAt,
+        vote.syncStatus || 'synced',
+      ]
+    );
+  }
+
+  /**
+   * Get a user's vote on a poll
+   */
+  async getPollVote(messageId: string, userId: string): Promise<PollVoteRow | null> {
+    const result = await this.db!.getFirstAsync<PollVoteRow>(
+      'SELECT * FROM poll_votes WHERE messageId = ? AND userId = ?',
+      [messageId, userId]
+    );
+    return result || null;
+  }
+
+  /**
+   * Get votes cast offline (for the offline queue), oldest first
+   */
+  async getPendingPollVotes(): Promise<PollVoteRow[]> {
+    return await this.db!.getAllAsync<PollVoteRow>(
+      "SELECT * FROM poll_votes WHERE syncStatus = 'pending' ORDER BY votedAt ASC"
+    );
+  }
+
+  /**
+   * Update the sync status of a vote
+   */
+  async updatePollVoteSyncStatus(messageId: string, userId: string, syncStatus: string): Promise<void> {
+    await this.db!.runAsync(
+      'UPDATE poll_votes SET syncStatus = ? WHERE messageId = ? AND userId = ?',
+      [syncStatus, messageId, userId]
+    );
+  }
+
+  /**
+   * Delete a user's vote (the poll is gone, or the server rejected the vote)
+   */
+  async deletePollVote(messageId: string, userId: string): Promise<void> {
+    await this.db!.runAsync(
+      'DELETE FROM poll_votes WHERE messageId = ? AND userId = ?',
+      [messageId, userId]
+    );
+  }
+
   // ==================== SCROLL POSITION OPERATIONS ====================
 
   /**
@@ -933,6 +1325,7 @@ class SQLiteServiceClass {
         'DELETE FROM messages WHERE chatId = ?',
         [chatId]
       );
+      await this.deleteSyncCursor(chatId);
     } catch (error) {
       console.error('Error deleting messages by chatId:', error);
       throw error;
@@ -956,6 +1349,73 @@ class SQLiteServiceClass {
     }
   }
 
+  // ==================== SCHEDULED MESSAGE OPERATIONS ====================
+
+  /**
+   * Save or update a scheduled message
+   */
+  async saveScheduledMessage(message: ScheduledMessageRow): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await this.db!.runAsync(
+        `INSERT OR REPLACE INTO scheduled_messages 
+         (id, chatId, senderId, text, scheduledFor, status, createdAt, updatedAt, replyToId, replyPreview, error) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          message.id,
+          message.chatId,
+          message.senderId,
+          message.text,
+          message.scheduledFor,
+          message.status,
+          message.createdAt,
+          message.updatedAt,
+          message.replyToId,
+          message.replyPreview,
+          message.error,
+        ]
+      );
+    } catch (error) {
+      console.error('Error saving scheduled message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's scheduled messages for a chat (soonest first)
+   */
+  async getScheduledMessages(chatId: string, senderId: string): Promise<ScheduledMessageRow[]> {
+    this.ensureInitialized();
+
+    try {
+      return await this.db!.getAllAsync<ScheduledMessageRow>(
+        'SELECT * FROM scheduled_messages WHERE chatId = ? AND senderId = ? ORDER BY scheduledFor ASC',
+        [chatId, senderId]
+      );
+    } catch (error) {
+      console.error('Error getting scheduled messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a scheduled message (cancelled or delivered)
+   */
+  async deleteScheduledMessage(id: string): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await this.db!.runAsync(
+        'DELETE FROM scheduled_messages WHERE id = ?',
+        [id]
+      );
+    } catch (error) {
+      console.error('Error deleting scheduled message:', error);
+      throw error;
+    }
+  }
+
   /**
    * Execute multiple operations in a transaction
    */
@@ -984,6 +1444,11 @@ class SQLiteServiceClass {
       await this.db!.runAsync('DELETE FROM users');
       await this.db!.runAsync('DELETE FROM scroll_positions');
       await this.db!.runAsync('DELETE FROM friend_requests');
+      await this.db!.runAsync('DELETE FROM scheduled_messages');
+      await this.db!.runAsync('DELETE FROM poll_votes');
+      await this.db!.runAsync('DELETE FROM outbox');
+      await this.db!.runAsync('DELETE FROM operation_log');
+      await this.db!.runAsync('DELETE FROM metadata WHERE key LIKE ?', [`${SYNC_CURSOR_KEY_PREFIX}%`]);
     } catch (error) {
       console.error('Error clearing data:', error);
       throw error;
@@ -8,7 +8,7 @@
  * Database schema version
  * Increment this when making schema changes
  */
-export const CURRENT_SCHEMA_VERSION = 5; // v5: Added messageExplanation to cultural_analysis
+export const CURRENT_SCHEMA_VERSION = 17; // v17: Added operation_log table (offline reactions, edits, deletions, read receipts)
 export const DATABASE_VERSION = CURRENT_SCHEMA_VERSION; // Alias for tests
 
 /**
@@ -49,7 +49,15 @@ export const CREATE_CHATS_TABLE = `
     groupIcon TEXT,
     groupDescription TEXT,
     groupAdminId TEXT,
+    groupAdminIds TEXT,
+    groupModeratorIds TEXT,
+    mutedMemberIds TEXT,
+    groupSettings TEXT,
     inviteCode TEXT,
+    mutedUntil INTEGER,
+    pinned INTEGER DEFAULT 0,
+    archived INTEGER DEFAULT 0,
+    encrypted INTEGER DEFAULT 0,
     createdAt INTEGER NOT NULL,
     createdBy TEXT NOT NULL
   );
@@ -80,6 +88,22 @@ export const CREATE_MESSAGES_TABLE = `
     originalLanguage TEXT,
     translatedTo TEXT,
     sentAsTranslation INTEGER DEFAULT 0,
+    editedAt INTEGER,
+    editHistory TEXT,
+    replyToId TEXT,
+    replyPreview TEXT,
+    threadId TEXT,
+    threadReplyCount INTEGER DEFAULT 0,
+    threadLastReplyAt INTEGER,
+    audioUrl TEXT,
+    audioDuration INTEGER,
+    waveform TEXT,
+    transcriptionStatus TEXT,
+    fileUrl TEXT,
+    fileName TEXT,
+    mimeType TEXT,
+    fileSize INTEGER,
+    poll TEXT,
     FOREIGN KEY (chatId) REFERENCES chats(id) ON DELETE CASCADE
   );
 `;
@@ -128,6 +152,125 @@ export const CREATE_CULTURAL_ANALYSIS_TABLE = `
   );
 `;
 
+/**
+ * Create scheduled messages table (send-later messages awaiting delivery)
+ */
+export const CREATE_SCHEDULED_MESSAGES_TABLE = `
+  CREATE TABLE IF NOT EXISTS scheduled_messages (
+    id TEXT PRIMARY KEY,
+    chatId TEXT NOT NULL,
+    senderId TEXT NOT NULL,
+    text TEXT NOT NULL,
+    scheduledFor INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    createdAt INTEGER NOT NULL,
+    updatedAt INTEGER NOT NULL,
+    replyToId TEXT,
+    replyPreview TEXT, -- JSON string
+    error TEXT,
+    FOREIGN KEY (chatId) REFERENCES chats(id) ON DELETE CASCADE
+  );
+`;
+
+/**
+ * Create poll votes table (the current user's votes, including ones cast offline)
+ */
+export const CREATE_POLL_VOTES_TABLE = `
+  CREATE TABLE IF NOT EXISTS poll_votes (
+    messageId TEXT NOT NULL,
+    chatId TEXT NOT NULL,
+    userId TEXT NOT NULL,
+    optionIds TEXT NOT NULL, -- JSON array
+    votedAt INTEGER NOT NULL,
+    syncStatus TEXT DEFAULT 'synced',
+    PRIMARY KEY (messageId, userId)
+  );
+`;
+
+/**
+ * Create outbox table (retry state of messages waiting to be sent)
+ * The message itself stays in messages with syncStatus 'pending'; a row is
+ * added here after its first failed attempt
+ */
+export const CREATE_OUTBOX_TABLE = `
+  CREATE TABLE IF NOT EXISTS outbox (
+    messageId TEXT PRIMARY KEY,
+    chatId TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    nextAttemptAt INTEGER NOT NULL DEFAULT 0, -- Not retried before this time (ms)
+    lastAttemptAt INTEGER,
+    lastError TEXT
+  );
+`;
+
+/**
+ * Create operation log table (changes made offline that still have to reach Firestore)
+ * Sends are not logged here - they are the pending rows in messages
+ */
+export const CREATE_OPERATION_LOG_TABLE = `
+  CREATE TABLE IF NOT EXISTS operation_log (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL, -- 'react' | 'unreact' | 'delete' | 'edit' | 'markRead'
+    chatId TEXT NOT NULL,
+    messageId TEXT NOT NULL,
+    userId TEXT NOT NULL,
+    payload TEXT, -- JSON
+    createdAt INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    nextAttemptAt INTEGER NOT NULL DEFAULT 0, -- Not replayed before this time (ms)
+    lastError TEXT
+  );
+`;
+
+/**
+ * Full-text index over message text, captions and stored translations
+ * Rows share the messages rowid and are kept in sync by the triggers below
+ */
+export const CREATE_MESSAGES_FTS_TABLE = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+    text,
+    caption,
+    translations,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+`;
+
+// Translations are stored as a JSON object; index only the translated strings
+const ftsTranslations = (column: string) =>
+  `CASE WHEN json_valid(${column}) THEN (SELECT group_concat(value, ' ') FROM json_each(${column})) END`;
+
+/**
+ * Triggers keeping messages_fts in sync with messages
+ * saveMessage uses INSERT OR REPLACE, which doesn't fire delete triggers,
+ * so the old index row is removed before each insert
+ */
+export const CREATE_MESSAGES_FTS_TRIGGERS = [
+  `CREATE TRIGGER IF NOT EXISTS messages_fts_before_insert BEFORE INSERT ON messages BEGIN
+    DELETE FROM messages_fts WHERE rowid = (SELECT rowid FROM messages WHERE id = NEW.id);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS messages_fts_after_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts (rowid, text, caption, translations)
+    VALUES (NEW.rowid, NEW.text, NEW.caption, ${ftsTranslations('NEW.translations')});
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS messages_fts_after_update AFTER UPDATE OF text, caption, translations ON messages BEGIN
+    DELETE FROM messages_fts WHERE rowid = OLD.rowid;
+    INSERT INTO messages_fts (rowid, text, caption, translations)
+    VALUES (NEW.rowid, NEW.text, NEW.caption, ${ftsTranslations('NEW.translations')});
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS messages_fts_after_delete AFTER DELETE ON messages BEGIN
+    DELETE FROM messages_fts WHERE rowid = OLD.rowid;
+  END`,
+];
+
+/**
+ * Rebuild messages_fts from the messages already cached
+ */
+export const REBUILD_MESSAGES_FTS = [
+  'DELETE FROM messages_fts;',
+  `INSERT INTO messages_fts (rowid, text, caption, translations)
+   SELECT rowid, text, caption, ${ftsTranslations('translations')} FROM messages;`,
+];
+
 /**
  * Create metadata table (for schema versioning)
  */
@@ -147,6 +290,7 @@ export const CREATE_INDEXES = [
   `CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp)`,
   `CREATE INDEX IF NOT EXISTS idx_messages_chatId_timestamp ON messages(chatId, timestamp)`,
   `CREATE INDEX IF NOT EXISTS idx_messages_syncStatus ON messages(syncStatus)`,
+  `CREATE INDEX IF NOT EXISTS idx_messages_threadId ON messages(threadId)`,
   
   // Chats indexes
   `CREATE INDEX IF NOT EXISTS idx_chats_lastMessageTime ON chats(lastMessageTime)`,
@@ -157,6 +301,18 @@ export const CREATE_INDEXES = [
   // Friend requests indexes
   `CREATE INDEX IF NOT EXISTS idx_friend_requests_toUserId ON friend_requests(toUserId)`,
   `CREATE INDEX IF NOT EXISTS idx_friend_requests_status ON friend_requests(status)`,
+  
+  // Scheduled messages indexes
+  `CREATE INDEX IF NOT EXISTS idx_scheduled_messages_chatId_scheduledFor ON scheduled_messages(chatId, scheduledFor)`,
+  
+  // Poll votes indexes
+  `CREATE INDEX IF NOT EXISTS idx_poll_votes_syncStatus ON poll_votes(syncStatus)`,
+
+  // Outbox indexes
+  `CREATE INDEX IF NOT EXISTS idx_outbox_chatId ON outbox(chatId)`,
+
+  // Operation log indexes
+  `CREATE INDEX IF NOT EXISTS idx_operation_log_chatId_createdAt ON operation_log(chatId, createdAt)`,
 ];
 
 /**
@@ -170,6 +326,12 @@ export const CREATE_ALL_TABLES = [
   CREATE_SCROLL_POSITIONS_TABLE,
   CREATE_FRIEND_REQUESTS_TABLE,
   CREATE_CULTURAL_ANALYSIS_TABLE,
+  CREATE_SCHEDULED_MESSAGES_TABLE,
+  CREATE_POLL_VOTES_TABLE,
+  CREATE_OUTBOX_TABLE,
+  CREATE_OPERATION_LOG_TABLE,
+  CREATE_MESSAGES_FTS_TABLE,
+  ...CREATE_MESSAGES_FTS_TRIGGERS,
   ...CREATE_INDEXES,
 ];
 
@@ -177,6 +339,11 @@ export const CREATE_ALL_TABLES = [
  * Drop all tables (for testing/reset)
  */
 export const DROP_ALL_TABLES = [
+  'DROP TABLE IF EXISTS messages_fts;',
+  'DROP TABLE IF EXISTS operation_log;',
+  'DROP TABLE IF EXISTS outbox;',
+  'DROP TABLE IF EXISTS poll_votes;',
+  'DROP TABLE IF EXISTS scheduled_messages;',
   'DROP TABLE IF EXISTS cultural_analysis;',
   'DROP TABLE IF EXISTS scroll_positions;',
   'DROP TABLE IF EXISTS friend_requests;',
@@ -197,6 +364,10 @@ export const TABLES = {
   SCROLL_POSITIONS: CREATE_SCROLL_POSITIONS_TABLE,
   FRIEND_REQUESTS: CREATE_FRIEND_REQUESTS_TABLE,
   CULTURAL_ANALYSIS: CREATE_CULTURAL_ANALYSIS_TABLE,
+  SCHEDULED_MESSAGES: CREATE_SCHEDULED_MESSAGES_TABLE,
+  POLL_VOTES: CREATE_POLL_VOTES_TABLE,
+  OUTBOX: CREATE_OUTBOX_TABLE,
+  OPERATION_LOG: CREATE_OPERATION_LOG_TABLE,
   SCHEMA_VERSION: CREATE_METADATA_TABLE, // metadata table stores schema version
   MESSAGES_INDEX: CREATE_INDEXES[0],
   MESSAGES_TIMESTAMP_INDEX: CREATE_INDEXES[1],
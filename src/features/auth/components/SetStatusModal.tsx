@@ -0,0 +1,256 @@
+/**
+ * SetStatusModal - Modal for setting a custom status
+ *
+ * Features:
+ * - Emoji choice and status text (100 character limit)
+ * - When the status clears on its own
+ * - Clear status button
+ */
+
+import { Button } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import { CustomStatus } from '@/shared/types';
+import { createCustomStatus, getActiveCustomStatus, MAX_STATUS_TEXT_LENGTH } from '@/shared/utils/Presence';
+import { Ionicons } from '@expo/vector-icons';
+import { endOfDay } from 'date-fns';
+import * as React from 'react';
+import { Alert, Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+interface SetStatusModalProps {
+  visible: boolean;
+  currentStatus: CustomStatus | null;
+  onSave: (status: CustomStatus | null) => void;
+  onClose: () => void;
+}
+
+const STATUS_EMOJIS = ['💬', '📅', '🚗', '🤒', '🌴', '🏠', '🎧', '🍽️'];
+
+type ClearAfter = 'never' | '30m' | '1h' | '4h' | 'today';
+
+const CLEAR_AFTER_OPTIONS: { value: ClearAfter; label: string }[] = [
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: 'today', label: 'Today' },
+  { value: 'never', label: "Don't clear" },
+];
+
+const getDuration = (clearAfter: ClearAfter, now: number): number | null => {
+  switch (clearAfter) {
+    case '30m':
+      return 30 * 60 * 1000;
+    case '1h':
+      return 60 * 60 * 1000;
+    case '4h':
+      return 4 * 60 * 60 * 1000;
+    case 'today':
+      return endOfDay(now).getTime() - now;
+    case 'never':
+      return null;
+  }
+};
+
+export const SetStatusModal = ({
+  visible,
+  currentStatus,
+  onSave,
+  onClose,
+}: SetStatusModalProps) => {
+  const theme = useTheme();
+  const [text, setText] = React.useState('');
+  const [emoji, setEmoji] = React.useState<string | null>(null);
+  const [clearAfter, setClearAfter] = React.useState<ClearAfter>('today');
+
+  const activeStatus = getActiveCustomStatus(currentStatus);
+
+  React.useEffect(() => {
+    if (visible) {
+      setText(activeStatus?.text ?? '');
+      setEmoji(activeStatus?.emoji ?? null);
+      setClearAfter(activeStatus && activeStatus.expiresAt === null ? 'never' : 'today');
+    }
+    // Only reset when the modal opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const handleSave = () => {
+    try {
+      const now = Date.now();
+      onSave(createCustomStatus(text, emoji, getDuration(clearAfter, now), now));
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Status', error.message);
+    }
+  };
+
+  const handleClear = () => {
+    onSave(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              Set Status
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          {/* Emoji */}
+          <View style={styles.emojiRow}>
+            {STATUS_EMOJIS.map(option => (
+              <Pressable
+                key={option}
+                style={[
+                  styles.emojiButton,
+                  { borderColor: emoji === option ? theme.colors.primary : theme.colors.border },
+                ]}
+                onPress={() => setEmoji(emoji === option ? null : option)}
+              >
+                <Text style={styles.emoji}>{option}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Status Text */}
+          <TextInput
+            style={[
+              styles.statusInput,
+              theme.typography.body,
+              {
+                color: theme.colors.text,
+                backgroundColor: theme.colors.background,
+                borderColor: theme.colors.border,
+              },
+            ]}
+            value={text}
+            onChangeText={setText}
+            placeholder="What's your status?"
+            placeholderTextColor={theme.colors.textSecondary}
+            maxLength={MAX_STATUS_TEXT_LENGTH}
+          />
+
+          {/* Clear After */}
+          <Text style={[theme.typography.bodySmall, styles.label, { color: theme.colors.textSecondary }]}>
+            Clear after
+          </Text>
+          <View style={styles.chipRow}>
+            {CLEAR_AFTER_OPTIONS.map(option => {
+              const selected = clearAfter === option.value;
+              return (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    {
+                      borderColor: selected ? theme.colors.primary : theme.colors.border,
+                      backgroundColor: selected ? theme.colors.primary : 'transparent',
+                    },
+                  ]}
+                  onPress={() => setClearAfter(option.value)}
+                >
+                  <Text style={[theme.typography.bodySmall, { color: selected ? '#fff' : theme.colors.text }]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title={activeStatus ? 'Clear' : 'Cancel'}
+              variant="outline"
+              onPress={activeStatus ? handleClear : onClose}
+              style={{ flex: 1, marginRight: 8 }}
+            />
+            <Button
+              title="Save"
+              onPress={handleSave}
+              style={{ flex: 1, marginLeft: 8 }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  emojiRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  emojiButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emoji: {
+    fontSize: 20,
+  },
+  statusInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  label: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+});
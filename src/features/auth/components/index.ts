@@ -1,2 +1,3 @@
 export { EditBioModal } from './EditBioModal';
 
+export { SetStatusModal } from './SetStatusModal';
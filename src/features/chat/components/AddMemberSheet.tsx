@@ -74,7 +74,7 @@ export const AddMemberSheet = ({
       // Add each selected user to the group
       // Firebase will handle duplicate prevention automatically
       const addPromises = selectedUserIds.map(userId =>
-        GroupService.addMember(chatId, userId)
+        GroupService.addMember(chatId, userId, user?.id)
       );
 
       await Promise.all(addPromises);
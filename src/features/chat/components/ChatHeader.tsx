@@ -4,13 +4,16 @@
  * Header component for chat modal with:
  * - Back button
  * - Avatar and name/group info
- * - Online status indicators
- * - Action buttons (auto-translate, summarize, menu)
+ * - Presence dot, custom status and last seen (one-on-one)
+ * - End-to-end encryption lock
+ * - Action buttons (auto-translate, summarize, encrypt, menu)
+ * - No online status for blocked users
  */
 
 import { Avatar } from '@/components/common';
 import { useTheme } from '@/shared/hooks/useTheme';
 import { Chat, User } from '@/shared/types';
+import { formatCustomStatus, getActiveCustomStatus, getPresenceLabel } from '@/shared/utils/Presence';
 import { usePresenceStore } from '@/store';
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
@@ -31,11 +34,14 @@ interface ChatHeaderProps {
   onGenerateSummary: () => void;
   onOpenGroupSettings: () => void;
   onOpenChatMenu?: () => void;
+  onEnableEncryption?: () => void; // One-on-one only
   
   // States
   autoTranslateEnabled: boolean;
   isGeneratingSummary: boolean;
   messagesCount: number;
+  isEncrypted?: boolean;
+  isBlocked?: boolean; // One-on-one: the other user is blocked
 }
 
 export const ChatHeader: React.FC<ChatHeaderProps> = ({
@@ -48,13 +54,31 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
   onGenerateSummary,
   onOpenGroupSettings,
   onOpenChatMenu,
+  onEnableEncryption,
   autoTranslateEnabled,
   isGeneratingSummary,
   messagesCount,
+  isEncrypted = false,
+  isBlocked = false,
 }) => {
   const theme = useTheme();
   const presenceMap = usePresenceStore(state => state.presenceMap);
 
+  // Presence of the other user (from centralized PresenceStore)
+  const otherUserId = !isGroupChat ? currentChat?.participants.find(id => id !== userId) : undefined;
+  const presence = otherUserId && !isBlocked ? presenceMap.get(otherUserId) : null;
+  const customStatus = getActiveCustomStatus(presence?.customStatus);
+  const presenceLine = presence
+    ? [customStatus && formatCustomStatus(customStatus), getPresenceLabel(presence)].filter(Boolean).join(' · ')
+    : '';
+  const presenceColor = presence?.state === 'online'
+    ? theme.colors.success
+    : presence?.state === 'away'
+      ? theme.colors.warning
+      : presence?.state === 'dnd'
+        ? theme.colors.error
+        : null;
+
   return (
     <View style={[styles.header, { 
       backgroundColor: theme.colors.surface,
@@ -94,19 +118,28 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
                 imageUrl={otherUser?.profilePictureUrl}
                 size={36}
               />
-              {/* Green dot for online status - from centralized PresenceStore */}
-              {(() => {
-                const otherUserId = currentChat?.participants.find(id => id !== userId);
-                const presence = otherUserId ? presenceMap.get(otherUserId) : null;
-                return presence?.isOnline && (
-                  <View style={[styles.onlineDot, { backgroundColor: theme.colors.success }]} />
-                );
-              })()}
+              {/* Dot for online / away / do not disturb */}
+              {presenceColor && (
+                <View style={[styles.onlineDot, { backgroundColor: presenceColor }]} />
+              )}
             </View>
             <View style={styles.headerText}>
               <Text style={[theme.typography.bodyBold, { color: theme.colors.text }]} numberOfLines={1}>
                 {otherUser?.displayName || 'Chat'}
               </Text>
+              {!!presenceLine && (
+                <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                  {presenceLine}
+                </Text>
+              )}
+              {isEncrypted && (
+                <View style={styles.encryptedLabel}>
+                  <Ionicons name="lock-closed" size={11} color={theme.colors.textSecondary} />
+                  <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                    End-to-end encrypted
+                  </Text>
+                </View>
+              )}
             </View>
           </>
         )}
@@ -114,40 +147,55 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
 
       {/* Action Buttons */}
       <View style={styles.headerActions}>
-        {/* Auto-Translate Toggle */}
-        <Pressable 
-          style={styles.actionButton}
-          onPress={onToggleAutoTranslate}
-        >
-          <Ionicons 
-            name={autoTranslateEnabled ? "language" : "language-outline"} 
-            size={22} 
-            color={autoTranslateEnabled ? theme.colors.primary : theme.colors.text} 
-          />
-        </Pressable>
+        {/* AI features need the server to read messages, so they're hidden in encrypted chats */}
+        {!isEncrypted && (
+          <>
+            {/* Auto-Translate Toggle */}
+            <Pressable 
+              style={styles.actionButton}
+              onPress={onToggleAutoTranslate}
+            >
+              <Ionicons 
+                name={autoTranslateEnabled ? "language" : "language-outline"} 
+                size={22} 
+                color={autoTranslateEnabled ? theme.colors.primary : theme.colors.text} 
+              />
+            </Pressable>
 
-        {/* Summarize Chat button */}
-        <Pressable 
-          style={styles.actionButton}
-          onPress={onGenerateSummary}
-          disabled={isGeneratingSummary || messagesCount === 0}
-        >
-          {isGeneratingSummary ? (
-            <ActivityIndicator size="small" color={theme.colors.primary} />
-          ) : (
-            <Ionicons 
-              name="sparkles-outline" 
-              size={22} 
-              color={messagesCount === 0 ? theme.colors.textSecondary : theme.colors.primary} 
-            />
-          )}
-        </Pressable>
+            {/* Summarize Chat button */}
+            <Pressable 
+              style={styles.actionButton}
+              onPress={onGenerateSummary}
+              disabled={isGeneratingSummary || messagesCount === 0}
+            >
+              {isGeneratingSummary ? (
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+              ) : (
+                <Ionicons 
+                  name="sparkles-outline" 
+                  size={22} 
+                  color={messagesCount === 0 ? theme.colors.textSecondary : theme.colors.primary} 
+                />
+              )}
+            </Pressable>
+          </>
+        )}
+
+        {/* Turn on encryption (one-on-one chats) */}
+        {!isGroupChat && !isEncrypted && onEnableEncryption && (
+          <Pressable 
+            style={styles.actionButton}
+            onPress={onEnableEncryption}
+          >
+            <Ionicons name="lock-open-outline" size={22} color={theme.colors.text} />
+          </Pressable>
+        )}
         
-        {/* Three-dot menu for group chats only */}
-        {isGroupChat && (
+        {/* Three-dot menu: group settings, or chat options for one-on-one chats */}
+        {(isGroupChat || onOpenChatMenu) && (
           <Pressable 
             style={styles.actionButton}
-            onPress={onOpenGroupSettings}
+            onPress={isGroupChat ? onOpenGroupSettings : onOpenChatMenu}
           >
             <Ionicons name="ellipsis-vertical" size={24} color={theme.colors.text} />
           </Pressable>
@@ -190,6 +238,11 @@ const styles = StyleSheet.create({
   headerText: {
     flex: 1,
   },
+  encryptedLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   headerActions: {
     flexDirection: 'row',
     alignItems: 'center',
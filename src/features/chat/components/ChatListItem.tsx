@@ -7,25 +7,37 @@
  * - Last message preview
  * - Timestamp
  * - Unread count badge
- * - Online status indicator (for 1-on-1)
+ * - Presence indicator, custom status and last seen (for 1-on-1)
  * - Read status indicator for sent messages
+ * - Pinned / muted indicators
+ *
+ * Gestures:
+ * - Swipe left for Pin and Archive actions
+ * - Long press for all chat options (handled by parent)
  */
 
 import { Avatar } from '@/components/common';
 import { useTheme } from '@/shared/hooks/useTheme';
+import type { UserPresence } from '@/services/firebase/PresenceService';
 import { Chat } from '@/shared/types';
+import { isChatMuted } from '@/shared/utils/ChatPreferences';
+import { formatCustomStatus, getActiveCustomStatus, getPresenceLabel } from '@/shared/utils/Presence';
 import { Ionicons } from '@expo/vector-icons';
 import { format, isToday, isYesterday } from 'date-fns';
 import React from 'react';
 import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Swipeable } from 'react-native-gesture-handler';
 
 interface ChatListItemProps {
   chat: Chat;
   currentUserId: string;
   otherUserName?: string;
   otherUserAvatar?: string | null;
-  isOnline?: boolean;
+  presence?: UserPresence | null;
   onPress: (chatId: string) => void;
+  onLongPress?: (chat: Chat) => void;
+  onTogglePin?: (chat: Chat) => void;
+  onToggleArchive?: (chat: Chat) => void;
 }
 
 const ChatListItemComponent = ({
@@ -33,16 +45,42 @@ const ChatListItemComponent = ({
   currentUserId,
   otherUserName,
   otherUserAvatar,
-  isOnline,
+  presence,
   onPress,
+  onLongPress,
+  onTogglePin,
+  onToggleArchive,
 }: ChatListItemProps) => {
   const theme = useTheme();
+  const swipeableRef = React.useRef<Swipeable>(null);
+  const isMuted = isChatMuted(chat);
 
   // Determine chat display name
   const chatName = chat.type === 'one-on-one' 
     ? (otherUserName || 'Unknown User')
     : (chat.groupName || 'Group Chat');
 
+  // Presence next to the name: custom status, or how long ago they were around
+  // (the dot already says online)
+  const presenceText = React.useMemo(() => {
+    if (chat.type !== 'one-on-one' || !presence) {
+      return null;
+    }
+    const customStatus = getActiveCustomStatus(presence.customStatus);
+    if (customStatus) {
+      return formatCustomStatus(customStatus);
+    }
+    return presence.state === 'online' ? null : getPresenceLabel(presence);
+  }, [chat.type, presence]);
+
+  const presenceColor = presence?.state === 'online'
+    ? theme.colors.success
+    : presence?.state === 'away'
+      ? theme.colors.warning
+      : presence?.state === 'dnd'
+        ? theme.colors.error
+        : null;
+
   // Format timestamp - memoize to prevent recalculation on every render
   const formattedTimestamp = React.useMemo(() => {
     // If lastMessageTime is 0 or falsy, don't show timestamp
@@ -103,98 +141,155 @@ const ChatListItemComponent = ({
     }
   };
 
+  // Run a swipe action and close the row
+  const handleSwipeAction = (action?: (chat: Chat) => void) => {
+    swipeableRef.current?.close();
+    action?.(chat);
+  };
+
+  const renderRightActions = () => (
+    <View style={styles.swipeActions}>
+      <Pressable
+        style={[styles.swipeAction, { backgroundColor: theme.colors.primary }]}
+        onPress={() => handleSwipeAction(onTogglePin)}
+      >
+        <Ionicons name={chat.pinned ? 'pin-outline' : 'pin'} size={22} color="#fff" />
+        <Text style={styles.swipeActionText}>{chat.pinned ? 'Unpin' : 'Pin'}</Text>
+      </Pressable>
+      <Pressable
+        style={[styles.swipeAction, { backgroundColor: theme.colors.textSecondary }]}
+        onPress={() => handleSwipeAction(onToggleArchive)}
+      >
+        <Ionicons name={chat.archived ? 'arrow-undo' : 'archive'} size={22} color="#fff" />
+        <Text style={styles.swipeActionText}>{chat.archived ? 'Unarchive' : 'Archive'}</Text>
+      </Pressable>
+    </View>
+  );
+
   return (
-    <Pressable
-      onPress={() => onPress(chat.id)}
-      style={({ pressed }) => [
-        styles.container,
-        {
-          backgroundColor: pressed
-            ? theme.colors.surface
-            : 'transparent',
-        },
-      ]}
+    <Swipeable
+      ref={swipeableRef}
+      renderRightActions={onTogglePin || onToggleArchive ? renderRightActions : undefined}
+      overshootRight={false}
     >
-      {/* Avatar with online indicator */}
-      <View style={styles.avatarContainer}>
-        {chat.type === 'one-on-one' ? (
-          <>
+      <Pressable
+        onPress={() => onPress(chat.id)}
+        onLongPress={onLongPress ? () => onLongPress(chat) : undefined}
+        style={({ pressed }) => [
+          styles.container,
+          {
+            backgroundColor: pressed
+              ? theme.colors.surface
+              : theme.colors.background,
+          },
+        ]}
+      >
+        {/* Avatar with online indicator */}
+        <View style={styles.avatarContainer}>
+          {chat.type === 'one-on-one' ? (
+            <>
+              <Avatar
+                name={otherUserName || 'U'}
+                imageUrl={otherUserAvatar}
+                size="medium"
+              />
+              {presenceColor && (
+                <View
+                  style={[
+                    styles.onlineIndicator,
+                    { backgroundColor: presenceColor },
+                  ]}
+                />
+              )}
+            </>
+          ) : (
             <Avatar
-              name={otherUserName || 'U'}
-              imageUrl={otherUserAvatar}
+              name={chatName}
+              imageUrl={chat.groupIcon}
               size="medium"
             />
-            {isOnline && (
+          )}
+        </View>
+
+        {/* Chat Info */}
+        <View style={styles.content}>
+          <View style={styles.topRow}>
+            <Text
+              style={[
+                theme.typography.bodyBold,
+                { color: theme.colors.text, flex: 1 },
+              ]}
+              numberOfLines={1}
+            >
+              {chatName}
+              {presenceText && (
+                <Text style={[theme.typography.caption, { color: theme.colors.textSecondary }]}>
+                  {'  '}{presenceText}
+                </Text>
+              )}
+            </Text>
+            {isMuted && (
+              <Ionicons
+                name="notifications-off"
+                size={14}
+                color={theme.colors.textSecondary}
+                style={styles.indicatorIcon}
+              />
+            )}
+            <Text
+              style={[
+                theme.typography.caption,
+                { color: theme.colors.textSecondary },
+              ]}
+            >
+              {formattedTimestamp}
+            </Text>
+          </View>
+
+          <View style={styles.bottomRow}>
+            {/* Status icon for sent messages */}
+            {getStatusIcon()}
+            
+            <Text
+              style={[
+                theme.typography.body,
+                { 
+                  color: (chat.unreadCount ?? 0) > 0 ? theme.colors.text : theme.colors.textSecondary,
+                  fontWeight: (chat.unreadCount ?? 0) > 0 ? '600' : '400',
+                  flex: 1 
+                },
+              ]}
+              numberOfLines={1}
+            >
+              {getLastMessageDisplay()}
+            </Text>
+            
+            {/* Unread count badge (muted chats get a neutral badge) */}
+            {(chat.unreadCount ?? 0) > 0 && (
               <View
                 style={[
-                  styles.onlineIndicator,
-                  { backgroundColor: theme.colors.success },
+                  styles.unreadBadge,
+                  isMuted && { backgroundColor: theme.colors.textSecondary },
                 ]}
-              />
+              >
+                <Text style={styles.unreadText}>
+                  {(chat.unreadCount ?? 0) > 99 ? '99+' : chat.unreadCount}
+                </Text>
+              </View>
             )}
-          </>
-        ) : (
-          <Avatar
-            name={chatName}
-            imageUrl={chat.groupIcon}
-            size="medium"
-          />
-        )}
-      </View>
 
-      {/* Chat Info */}
-      <View style={styles.content}>
-        <View style={styles.topRow}>
-          <Text
-            style={[
-              theme.typography.bodyBold,
-              { color: theme.colors.text, flex: 1 },
-            ]}
-            numberOfLines={1}
-          >
-            {chatName}
-          </Text>
-          <Text
-            style={[
-              theme.typography.caption,
-              { color: theme.colors.textSecondary },
-            ]}
-          >
-            {formattedTimestamp}
-          </Text>
-        </View>
-
-        <View style={styles.bottomRow}>
-          {/* Status icon for sent messages */}
-          {getStatusIcon()}
-          
-          <Text
-            style={[
-              theme.typography.body,
-              { 
-                color: (chat.unreadCount ?? 0) > 0 ? theme.colors.text : theme.colors.textSecondary,
-                fontWeight: (chat.unreadCount ?? 0) > 0 ? '600' : '400',
-                flex: 1 
-              },
-            ]}
-            numberOfLines={1}
-          >
-            {getLastMessageDisplay()}
-          </Text>
-          
-          {/* Unread count badge */}
-          {(chat.unreadCount ?? 0) > 0 && (
-            <View
-              style={styles.unreadBadge}
-            >
-              <Text style={styles.unreadText}>
-                {(chat.unreadCount ?? 0) > 99 ? '99+' : chat.unreadCount}
-              </Text>
-            </View>
-          )}
+            {chat.pinned && (chat.unreadCount ?? 0) === 0 && (
+              <Ionicons
+                name="pin"
+                size={16}
+                color={theme.colors.textSecondary}
+                style={styles.indicatorIcon}
+              />
+            )}
+          </View>
         </View>
-      </View>
-    </Pressable>
+      </Pressable>
+    </Swipeable>
   );
 };
 
@@ -210,8 +305,11 @@ export const ChatListItem = React.memo(ChatListItemComponent, (prevProps, nextPr
     prevProps.chat.lastMessageStatus === nextProps.chat.lastMessageStatus &&
     prevProps.chat.groupName === nextProps.chat.groupName &&
     prevProps.chat.groupIcon === nextProps.chat.groupIcon &&
+    prevProps.chat.mutedUntil === nextProps.chat.mutedUntil &&
+    prevProps.chat.pinned === nextProps.chat.pinned &&
+    prevProps.chat.archived === nextProps.chat.archived &&
     prevProps.otherUserName === nextProps.otherUserName &&
-    prevProps.isOnline === nextProps.isOnline
+    prevProps.presence === nextProps.presence
   );
 });
 
@@ -266,5 +364,22 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#fff',
   },
+  indicatorIcon: {
+    marginLeft: 6,
+  },
+  swipeActions: {
+    flexDirection: 'row',
+  },
+  swipeAction: {
+    width: 80,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  swipeActionText: {
+    marginTop: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
 });
 
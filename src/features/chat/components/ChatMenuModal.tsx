@@ -4,6 +4,8 @@
  * Modal for one-on-one chat options with:
  * - Language detection info
  * - Auto-translate toggle
+ * - Tasks (AI-extracted action items, decisions and open questions)
+ * - Report and block / unblock the other user
  * - Delete chat option
  */
 
@@ -20,9 +22,14 @@ interface ChatMenuModalProps {
   autoTranslateEnabled: boolean;
   chatId: string | null;
   userId: string | undefined;
+  otherUserName: string;
+  isBlocked: boolean;
   onClose: () => void;
   onToggleAutoTranslate: () => void;
-  onDeleteChat: () => void;
+  onReportUser: () => void;
+  onToggleBlock: () => void;
+  onOpenTasks?: () => void; // Not passed in encrypted chats (server-side AI)
+  onDeleteChat?: () => void;
 }
 
 export const ChatMenuModal: React.FC<ChatMenuModalProps> = ({
@@ -31,8 +38,13 @@ export const ChatMenuModal: React.FC<ChatMenuModalProps> = ({
   autoTranslateEnabled,
   chatId,
   userId,
+  otherUserName,
+  isBlocked,
   onClose,
   onToggleAutoTranslate,
+  onReportUser,
+  onToggleBlock,
+  onOpenTasks,
   onDeleteChat,
 }) => {
   const theme = useTheme();
@@ -111,13 +123,63 @@ export const ChatMenuModal: React.FC<ChatMenuModalProps> = ({
             </View>
           </Pressable>
           
+          {onOpenTasks && (
+            <Pressable
+              style={[styles.menuOption, { borderBottomColor: theme.colors.border }]}
+              onPress={() => {
+                onClose();
+                onOpenTasks();
+              }}
+            >
+              <Ionicons name="checkbox-outline" size={22} color={theme.colors.primary} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.menuOptionText, { color: theme.colors.text }]}>
+                  Tasks
+                </Text>
+                <Text style={[styles.menuOptionSubtext, { color: theme.colors.textSecondary }]}>
+                  Action items, decisions and open questions
+                </Text>
+              </View>
+            </Pressable>
+          )}
+          
           <Pressable
             style={[styles.menuOption, { borderBottomColor: theme.colors.border }]}
-            onPress={handleDeleteChat}
+            onPress={() => {
+              onClose();
+              onReportUser();
+            }}
           >
-            <Ionicons name="trash-outline" size={22} color={theme.colors.error} />
-            <Text style={[styles.menuOptionText, { color: theme.colors.error }]}>Delete Chat</Text>
+            <Ionicons name="flag-outline" size={22} color={theme.colors.error} />
+            <Text style={[styles.menuOptionText, { color: theme.colors.error }]}>Report {otherUserName}</Text>
           </Pressable>
+          
+          <Pressable
+            style={[styles.menuOption, { borderBottomColor: theme.colors.border }]}
+            onPress={() => {
+              onClose();
+              onToggleBlock();
+            }}
+          >
+            <Ionicons
+              name={isBlocked ? 'person-outline' : 'ban-outline'}
+              size={22}
+              color={isBlocked ? theme.colors.text : theme.colors.error}
+            />
+            <Text style={[styles.menuOptionText, { color: isBlocked ? theme.colors.text : theme.colors.error }]}>
+              {isBlocked ? `Unblock ${otherUserName}` : `Block ${otherUserName}`}
+            </Text>
+          </Pressable>
+          
+          {onDeleteChat && (
+            <Pressable
+              style={[styles.menuOption, { borderBottomColor: theme.colors.border }]}
+              onPress={handleDeleteChat}
+            >
+              <Ionicons name="trash-outline" size={22} color={theme.colors.error} />
+              <Text style={[styles.menuOptionText, { color: theme.colors.error }]}>Delete Chat</Text>
+            </Pressable>
+          )}
         </View>
       </Pressable>
     </Modal>
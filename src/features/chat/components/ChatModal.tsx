@@ -5,36 +5,50 @@
  */
 
 import { useTheme } from '@/shared/hooks/useTheme';
-import { useAuthStore, useChatStore } from '@/store';
-import React, { useCallback, useMemo, useRef } from 'react';
-import { Animated, Keyboard, Modal, Platform, StatusBar, StyleSheet, Text, View } from 'react-native';
+import { CreatePollData, MessagePoll } from '@/shared/types';
+import { getPostRestriction } from '@/shared/utils';
+import { useAuthStore, useChatStore, useContactStore } from '@/store';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { Alert, Animated, Keyboard, Modal, Platform, Pressable, StatusBar, StyleSheet, Text, View } from 'react-native';
 
 // Import our new hooks
 import {
+    showEncryptedChatAIAlert,
     useAutoTranslate,
     useChatKeyboard,
     useChatMessages,
     useChatModals,
     useChatPresence,
-    useChatScroll
+    useChatScroll,
+    useScheduledMessages
 } from '../hooks';
+import { buildReplyPreview } from '../utils/messageUtils';
 
 // Import our new components
 import { ChatHeader } from './ChatHeader';
+import { ChatMenuModal } from './ChatMenuModal';
 import { ChatSummaryModal } from './ChatSummaryModal';
+import { ChatTasksModal } from './ChatTasksModal';
+import { EditMessageModal } from './EditMessageModal';
 import { GroupSettingsModal } from './GroupSettingsModal';
 import { MessageInput } from './MessageInput';
 import { MessageOptionsSheet } from './MessageOptionsSheet';
 import { MessagesList } from './MessagesList';
+import { ReadReceiptsSheet } from './ReadReceiptsSheet';
+import { ReportModal } from './ReportModal';
+import { ScheduledMessagesModal } from './ScheduledMessagesModal';
 import { SmartReplyBar } from './SmartReplyBar';
+import { ThreadModal } from './ThreadModal';
 
 interface ChatModalProps {
   visible: boolean;
   chatId: string | null;
+  initialMessageId?: string | null; // Jump to this message once the chat has loaded (search results)
   onClose: () => void;
 }
 
-export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
+export const ChatModal = ({ visible, chatId, initialMessageId, onClose }: ChatModalProps) => {
   const theme = useTheme();
   const { user } = useAuthStore();
   const { chats } = useChatStore();
@@ -44,21 +58,30 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
   
   // State for input text (for smart replies to set)
   const [inputText, setInputText] = React.useState('');
+  const [showScheduledMessages, setShowScheduledMessages] = React.useState(false);
 
   // Get current chat and other user info
   const currentChat = chats.find(chat => chat.id === chatId);
   const isGroupChat = currentChat?.type === 'group';
+  const isEncrypted = currentChat?.encrypted === true;
 
   // For one-on-one chats, get the other user
-  const otherUser = useMemo(() => {
-    if (!user || !currentChat || isGroupChat) return null;
-    
-    // Find the other user ID from participants
-    const otherUserId = currentChat.participants.find(id => id !== user.id);
-    if (!otherUserId) return null;
-    
-    return useChatStore.getState().getUserProfile(otherUserId);
-  }, [currentChat, user, isGroupChat]);
+  const otherUserId = !user || !currentChat || isGroupChat
+    ? null
+    : currentChat.participants.find(id => id !== user.id) || null;
+  const otherUser = otherUserId ? useChatStore.getState().getUserProfile(otherUserId) : null;
+  const otherUserName = otherUser?.displayName || 'this user';
+
+  // Blocked users (messages, typing and presence are hidden by the store / hooks)
+  const blockedUsers = useContactStore(state => state.blockedUsers);
+  const isUserBlocked = useCallback(
+    (userId: string) => blockedUsers.some(blocked => blocked.userId === userId),
+    [blockedUsers]
+  );
+  const isOtherUserBlocked = !!otherUserId && isUserBlocked(otherUserId);
+
+  // Group members can't post while muted, or when only admins can post
+  const postRestriction = currentChat && user ? getPostRestriction(currentChat, user.id) : null;
 
   // Use our extracted hooks
   const chatMessages = useChatMessages({
@@ -73,10 +96,12 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
     messagesLength: chatMessages.messages.length,
     userId: user?.id,
     flashListRef,
+    listItems: chatMessages.listItems,
   });
 
+  // Auto-translate sends messages to the server, so it stays off in encrypted chats
   const autoTranslate = useAutoTranslate({
-    visible,
+    visible: visible && !isEncrypted,
     chatId,
     userId: user?.id,
     messages: chatMessages.messages,
@@ -86,6 +111,9 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
     chatId,
     userId: user?.id,
     messages: chatMessages.messages,
+    onReply: chatMessages.setReplyingTo,
+    isEncrypted,
+    isGroup: isGroupChat,
   });
 
   const chatPresence = useChatPresence({
@@ -98,6 +126,12 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
 
   const chatKeyboard = useChatKeyboard(visible);
 
+  const scheduled = useScheduledMessages({
+    visible,
+    chatId,
+    userId: user?.id,
+  });
+
   // Handle close with keyboard dismissal
   const handleClose = useCallback(() => {
     // Dismiss keyboard first
@@ -118,11 +152,117 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
     await chatMessages.handleSendImage(imageUri, caption, chatScroll.debouncedScrollToBottom);
   }, [chatMessages, chatScroll]);
 
+  // Jump to a quoted message, loading it from the local cache if it's outside the window
+  const handleJumpToMessage = useCallback(async (messageId: string) => {
+    if (!chatId) return;
+
+    chatScroll.jumpToMessage(messageId);
+    const found = await useChatStore.getState().loadMessagesAround(chatId, messageId);
+    if (!found) {
+      chatScroll.cancelJump();
+      Alert.alert('Message Unavailable', 'The original message is no longer available.');
+    }
+  }, [chatId, chatScroll]);
+
+  // Jump to the requested message once the initial scroll to the bottom has happened
+  const handledInitialMessageId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!visible) {
+      handledInitialMessageId.current = null;
+      return;
+    }
+    if (!initialMessageId || !chatScroll.isReady || handledInitialMessageId.current === initialMessageId) {
+      return;
+    }
+
+    handledInitialMessageId.current = initialMessageId;
+    handleJumpToMessage(initialMessageId);
+  }, [visible, initialMessageId, chatScroll.isReady, handleJumpToMessage]);
+
+  // Reply preview and sender name for the input banner
+  const replyPreview = useMemo(
+    () => (chatMessages.replyingTo ? buildReplyPreview(chatMessages.replyingTo) : null),
+    [chatMessages.replyingTo]
+  );
+  const replySenderName = chatMessages.replyingTo
+    ? chatMessages.replyingTo.senderId === user?.id
+      ? 'You'
+      : chatMessages.getUserProfile(chatMessages.replyingTo.senderId)?.displayName
+    : undefined;
+
+  // Handle send voice message with scroll to bottom
+  const handleSendVoice = useCallback(async (audioUri: string, durationMs: number, waveform: number[]) => {
+    await chatMessages.handleSendVoice(audioUri, durationMs, waveform, chatScroll.debouncedScrollToBottom);
+  }, [chatMessages, chatScroll]);
+
+  // Handle send file attachment with scroll to bottom
+  const handleSendFile = useCallback(async (fileUri: string, fileName: string, mimeType: string, fileSize: number) => {
+    await chatMessages.handleSendFile(fileUri, fileName, mimeType, fileSize, chatScroll.debouncedScrollToBottom);
+  }, [chatMessages, chatScroll]);
+
+  // Handle send poll with scroll to bottom
+  const handleSendPoll = useCallback(async (poll: CreatePollData) => {
+    await chatMessages.handleSendPoll(poll, chatScroll.debouncedScrollToBottom);
+  }, [chatMessages, chatScroll]);
+
+  // Schedule the typed message, quoting the message being replied to
+  const handleScheduleSend = useCallback(async (text: string, scheduledFor: number) => {
+    const replyTarget = chatMessages.replyingTo;
+    const replyOptions = replyTarget
+      ? { replyToId: replyTarget.id, replyPreview: buildReplyPreview(replyTarget) }
+      : undefined;
+    await scheduled.handleScheduleMessage(text, scheduledFor, replyOptions);
+    chatMessages.setReplyingTo(null);
+  }, [chatMessages, scheduled]);
+
   // Handle AI translate with auto-translate hook
   const handleAITranslate = useCallback(async (message: any) => {
     await chatModals.handleAITranslate(message, autoTranslate.handleTranslateMessage);
   }, [chatModals, autoTranslate]);
 
+  // Translate the previous messages (AI, off in encrypted chats)
+  const handleTranslatePrevious = useCallback(async () => {
+    if (isEncrypted) {
+      showEncryptedChatAIAlert();
+      return;
+    }
+    await autoTranslate.handleTranslatePrevious();
+  }, [isEncrypted, autoTranslate]);
+
+  // Turn on end-to-end encryption after confirming (it can't be turned off)
+  const handleEnableEncryption = useCallback(() => {
+    if (!chatId || !user) return;
+
+    Alert.alert(
+      'Turn On End-to-End Encryption?',
+      'New messages will only be readable on your and your contact\'s devices. AI features like translation and summaries will be turned off for this chat. This can\'t be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn On',
+          onPress: async () => {
+            try {
+              await useChatStore.getState().enableEncryption(chatId, user.id);
+            } catch (error) {
+              Alert.alert('Encryption Failed', (error as Error).message || 'Could not turn on encryption. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [chatId, user]);
+
+  // Block or unblock the other user (one-on-one)
+  const handleToggleBlock = useCallback(() => {
+    if (!otherUserId) return;
+
+    if (isOtherUserBlocked) {
+      chatModals.handleUnblockUser(otherUserId);
+    } else {
+      chatModals.handleBlockUser(otherUserId, otherUserName);
+    }
+  }, [otherUserId, otherUserName, isOtherUserBlocked, chatModals]);
+
   // Handle cultural analysis
   const handleCulturalAnalysis = useCallback(async (message: any) => {
     await chatModals.handleCulturalAnalysis(message);
@@ -149,6 +289,14 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
     return undefined;
   }, [chatMessages.messages, user?.id]);
 
+  // Polls in the loaded messages, for the summary's poll results
+  const chatPolls = useMemo(
+    () => chatMessages.messages
+      .filter(message => message.type === 'poll' && message.poll && !message.deletedForEveryone)
+      .map(message => message.poll as MessagePoll),
+    [chatMessages.messages]
+  );
+
   // Handle smart reply selection
   const handleSelectSmartReply = useCallback((replyText: string) => {
     setInputText(replyText);
@@ -187,9 +335,13 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
           onToggleAutoTranslate={autoTranslate.handleToggleAutoTranslate}
           onGenerateSummary={chatModals.handleGenerateSummary}
           onOpenGroupSettings={() => chatModals.setShowGroupSettings(true)}
+          onEnableEncryption={handleEnableEncryption}
           autoTranslateEnabled={autoTranslate.autoTranslateEnabled}
           isGeneratingSummary={chatModals.isGeneratingSummary}
           messagesCount={chatMessages.messages.length}
+          isEncrypted={isEncrypted}
+          isBlocked={isOtherUserBlocked}
+          onOpenChatMenu={isGroupChat ? undefined : () => chatModals.setShowChatMenu(true)}
         />
 
             {/* Messages List */}
@@ -204,6 +356,7 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
           flashListRef={flashListRef}
           showJumpToBottom={chatScroll.showJumpToBottom}
           isReady={chatScroll.isReady}
+          highlightedMessageId={chatScroll.highlightedMessageId}
           typingUsers={chatPresence.typingUsers}
           onScroll={chatScroll.handleScroll}
           onJumpToBottom={chatScroll.handleJumpToBottom}
@@ -212,13 +365,16 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
           onQuickReaction={chatMessages.handleQuickReaction}
           onAITranslate={handleAITranslate}
           onAISummarize={chatModals.handleAISummarize}
-          onTranslate20={autoTranslate.handleTranslatePrevious}
+          onTranslate20={handleTranslatePrevious}
           onCopyMessage={chatModals.handleCopyMessage}
           onCulturalAnalysis={handleCulturalAnalysis}
+          onReply={chatMessages.setReplyingTo}
+          onReplyPreviewPress={handleJumpToMessage}
+          onOpenThread={chatModals.setThreadRootMessage}
         />
 
-        {/* Smart Reply Bar (above input) */}
-        {lastReceivedMessage && chatId && (
+        {/* Smart Reply Bar (above input, AI - not in encrypted chats) */}
+        {lastReceivedMessage && chatId && !isEncrypted && (
           <SmartReplyBar
             message={lastReceivedMessage}
             chatId={chatId}
@@ -227,19 +383,60 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
           />
         )}
 
-            {/* Message Input */}
+        {/* Scheduled Messages Banner (above input) */}
+        {scheduled.scheduledMessages.length > 0 && (
+          <Pressable
+            onPress={() => setShowScheduledMessages(true)}
+            style={[styles.scheduledBanner, { backgroundColor: theme.colors.surface, borderTopColor: theme.colors.border }]}
+          >
+            <Ionicons name="time-outline" size={16} color={theme.colors.primary} />
+            <Text style={[styles.scheduledBannerText, { color: theme.colors.primary }]}>
+              {scheduled.scheduledMessages.length} scheduled {scheduled.scheduledMessages.length === 1 ? 'message' : 'messages'}
+            </Text>
+            <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+          </Pressable>
+        )}
+
+            {/* Message Input (replaced by a notice while the other user is blocked or posting isn't allowed) */}
+        {isOtherUserBlocked && otherUserId ? (
+          <View style={[styles.inputNotice, { backgroundColor: theme.colors.surface, borderTopColor: theme.colors.border }]}>
+            <Text style={[theme.typography.bodySmall, styles.inputNoticeText, { color: theme.colors.textSecondary }]}>
+              You blocked {otherUserName}. Unblock them to send messages.
+            </Text>
+            <Pressable onPress={() => chatModals.handleUnblockUser(otherUserId)}>
+              <Text style={[theme.typography.bodyBold, { color: theme.colors.primary }]}>Unblock</Text>
+            </Pressable>
+          </View>
+        ) : postRestriction ? (
+          <View style={[styles.inputNotice, { backgroundColor: theme.colors.surface, borderTopColor: theme.colors.border }]}>
+            <Text style={[theme.typography.bodySmall, styles.inputNoticeText, { color: theme.colors.textSecondary }]}>
+              {postRestriction === 'muted'
+                ? 'You were muted in this group and can\'t send messages.'
+                : 'Only admins can send messages in this group.'}
+            </Text>
+          </View>
+        ) : (
             <MessageInput
               onSend={handleSend}
               onSendImage={handleSendImage}
+              onSendVoice={handleSendVoice}
+              onSendFile={handleSendFile}
+              onScheduleSend={isEncrypted ? undefined : handleScheduleSend}
+              onSendPoll={isEncrypted ? undefined : handleSendPoll}
           isSending={chatMessages.isSending}
               chatId={chatId || undefined}
           userId={user.id}
           userName={user.displayName}
           preferredLanguage={user.preferredLanguage || 'en'}
-          showTranslationPreview={autoTranslate.translationPreviewEnabled}
+          showTranslationPreview={autoTranslate.translationPreviewEnabled && !isEncrypted}
+          aiEnabled={!isEncrypted}
           initialText={inputText}
           onTextChange={setInputText}
+          replyPreview={replyPreview}
+          replySenderName={replySenderName}
+          onCancelReply={() => chatMessages.setReplyingTo(null)}
             />
+        )}
       </Animated.View>
 
       {/* Group Settings Modal */}
@@ -249,9 +446,42 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
           chatId={chatId}
           onClose={() => chatModals.setShowGroupSettings(false)}
           onChatDeleted={onClose}
+          onOpenTasks={isEncrypted ? undefined : () => chatModals.setShowTasks(true)}
+        />
+      )}
+
+      {/* Chat Menu (one-on-one chats) */}
+      {!isGroupChat && (
+        <ChatMenuModal
+          visible={chatModals.showChatMenu}
+          messages={chatMessages.messages}
+          autoTranslateEnabled={autoTranslate.autoTranslateEnabled}
+          chatId={chatId}
+          userId={user.id}
+          otherUserName={otherUserName}
+          isBlocked={isOtherUserBlocked}
+          onClose={() => chatModals.setShowChatMenu(false)}
+          onToggleAutoTranslate={autoTranslate.handleToggleAutoTranslate}
+          onReportUser={() => otherUserId && chatModals.setReportTarget({
+            userId: otherUserId,
+            userName: otherUserName,
+            message: null,
+          })}
+          onToggleBlock={handleToggleBlock}
+          onOpenTasks={isEncrypted ? undefined : () => chatModals.setShowTasks(true)}
         />
       )}
 
+      {/* Report Modal */}
+      <ReportModal
+        visible={!!chatModals.reportTarget}
+        target={chatModals.reportTarget}
+        isEncrypted={isEncrypted}
+        isBlocked={!!chatModals.reportTarget && isUserBlocked(chatModals.reportTarget.userId)}
+        onSubmit={chatModals.handleSubmitReport}
+        onClose={() => chatModals.setReportTarget(null)}
+      />
+
       {/* Message Options Sheet */}
       <MessageOptionsSheet
         visible={chatModals.showMessageOptions}
@@ -263,14 +493,64 @@ export const ChatModal = ({ visible, chatId, onClose }: ChatModalProps) => {
         }}
       />
 
+      {/* Seen By Sheet (group messages) */}
+      {isGroupChat && (
+        <ReadReceiptsSheet
+          visible={!!chatModals.receiptsMessage}
+          message={chatModals.receiptsMessage}
+          onClose={() => chatModals.setReceiptsMessage(null)}
+        />
+      )}
+
+      {/* Edit Message Modal */}
+      <EditMessageModal
+        visible={!!chatModals.editingMessage}
+        message={chatModals.editingMessage}
+        onSave={chatModals.handleEditMessage}
+        onClose={() => chatModals.setEditingMessage(null)}
+      />
+
+      {/* Sub-thread Modal */}
+      <ThreadModal
+        visible={!!chatModals.threadRootMessage}
+        chatId={chatId}
+        rootMessage={chatModals.threadRootMessage}
+        userId={user.id}
+        userName={user.displayName}
+        preferredLanguage={user.preferredLanguage || 'en'}
+        isGroupChat={isGroupChat}
+        isEncrypted={isEncrypted}
+        canPost={!postRestriction}
+        onClose={() => chatModals.setThreadRootMessage(null)}
+      />
+
+      {/* Scheduled Messages Modal */}
+      <ScheduledMessagesModal
+        visible={showScheduledMessages}
+        scheduledMessages={scheduled.scheduledMessages}
+        onUpdate={scheduled.handleUpdateScheduledMessage}
+        onCancel={scheduled.handleCancelScheduledMessage}
+        onClose={() => setShowScheduledMessages(false)}
+      />
+
       {/* Chat Summary Modal */}
       <ChatSummaryModal
         visible={chatModals.showChatSummary}
         chatSummary={chatModals.chatSummary}
         isGeneratingSummary={chatModals.isGeneratingSummary}
+        polls={chatPolls}
         onClose={() => chatModals.setShowChatSummary(false)}
       />
 
+      {/* Tasks Modal */}
+      <ChatTasksModal
+        visible={chatModals.showTasks}
+        chatId={chatId}
+        userId={user.id}
+        onJumpToMessage={handleJumpToMessage}
+        onClose={() => chatModals.setShowTasks(false)}
+      />
+
       {/* Copied Feedback */}
       {chatModals.showCopiedFeedback && (
         <View style={styles.copiedFeedback}>
@@ -287,6 +567,30 @@ const styles = StyleSheet.create({
     margin: 0,
     padding: 0,
   },
+  scheduledBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    gap: 6,
+  },
+  inputNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  inputNoticeText: {
+    flex: 1,
+  },
+  scheduledBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
   copiedFeedback: {
     position: 'absolute',
     bottom: 100,
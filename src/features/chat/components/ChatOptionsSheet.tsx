@@ -0,0 +1,209 @@
+/**
+ * ChatOptionsSheet - Bottom sheet for chat list actions
+ * Opened by long-pressing a chat (pin, mute, archive)
+ */
+
+import { useTheme } from '@/shared/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+  Animated,
+  Dimensions,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+export interface ChatOption {
+  id: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+}
+
+interface ChatOptionsSheetProps {
+  visible: boolean;
+  title: string;
+  options: ChatOption[];
+  onClose: () => void;
+}
+
+export const ChatOptionsSheet = ({
+  visible,
+  title,
+  options,
+  onClose,
+}: ChatOptionsSheetProps) => {
+  const theme = useTheme();
+  const slideAnim = React.useRef(new Animated.Value(SCREEN_HEIGHT)).current;
+
+  React.useEffect(() => {
+    if (visible) {
+      Animated.spring(slideAnim, {
+        toValue: 0,
+        useNativeDriver: true,
+        damping: 20,
+        stiffness: 200,
+      }).start();
+    } else {
+      slideAnim.setValue(SCREEN_HEIGHT);
+    }
+  }, [visible, slideAnim]);
+
+  const handleClose = () => {
+    Animated.timing(slideAnim, {
+      toValue: SCREEN_HEIGHT,
+      duration: 250,
+      useNativeDriver: true,
+    }).start(() => {
+      onClose();
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+      statusBarTranslucent
+    >
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={handleClose} />
+
+        <Animated.View
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: theme.colors.surface,
+              transform: [{ translateY: slideAnim }],
+            },
+          ]}
+        >
+          {/* Handle bar */}
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: theme.colors.border }]} />
+          </View>
+
+          <Text
+            style={[styles.title, { color: theme.colors.textSecondary }]}
+            numberOfLines={1}
+          >
+            {title}
+          </Text>
+
+          {/* Options */}
+          <ScrollView style={styles.optionsContainer} showsVerticalScrollIndicator={false}>
+            {options.map((option) => (
+              <Pressable
+                key={option.id}
+                style={({ pressed }) => [
+                  styles.option,
+                  { backgroundColor: pressed ? theme.colors.surfaceVariant : 'transparent' },
+                ]}
+                onPress={() => {
+                  option.onPress();
+                  handleClose();
+                }}
+              >
+                <View style={[styles.iconContainer, { backgroundColor: theme.colors.primary + '15' }]}>
+                  <Ionicons name={option.icon} size={20} color={theme.colors.primary} />
+                </View>
+                <Text style={[styles.optionLabel, { color: theme.colors.text }]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          {/* Cancel button */}
+          <Pressable
+            style={({ pressed }) => [
+              styles.cancelButton,
+              { backgroundColor: pressed ? theme.colors.surfaceVariant : theme.colors.background },
+            ]}
+            onPress={handleClose}
+          >
+            <Text style={[styles.cancelText, { color: theme.colors.text }]}>Cancel</Text>
+          </Pressable>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 40,
+    maxHeight: SCREEN_HEIGHT * 0.75,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginHorizontal: 32,
+    marginBottom: 8,
+  },
+  optionsContainer: {
+    paddingHorizontal: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    gap: 16,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  cancelButton: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
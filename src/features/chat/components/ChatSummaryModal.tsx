@@ -5,9 +5,12 @@
  * - Summary generation
  * - Loading states
  * - Scrollable content
+ * - Current poll outcomes (from the loaded messages, so they're up to date)
  */
 
 import { useTheme } from '@/shared/hooks/useTheme';
+import { MessagePoll } from '@/shared/types';
+import { formatPollOutcome } from '@/shared/utils';
 import React from 'react';
 import { ActivityIndicator, Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 
@@ -15,6 +18,7 @@ interface ChatSummaryModalProps {
   visible: boolean;
   chatSummary: string | null;
   isGeneratingSummary: boolean;
+  polls?: MessagePoll[];
   onClose: () => void;
 }
 
@@ -22,6 +26,7 @@ export const ChatSummaryModal: React.FC<ChatSummaryModalProps> = ({
   visible,
   chatSummary,
   isGeneratingSummary,
+  polls = [],
   onClose,
 }) => {
   const theme = useTheme();
@@ -64,6 +69,17 @@ export const ChatSummaryModal: React.FC<ChatSummaryModalProps> = ({
                 <Text style={[styles.summaryCardText, { color: theme.colors.text }]}>
                   {chatSummary}
                 </Text>
+
+                {polls.length > 0 && (
+                  <View style={[styles.pollsSection, { borderTopColor: theme.colors.border }]}>
+                    <Text style={[styles.pollsTitle, { color: theme.colors.text }]}>📊 Poll Results</Text>
+                    {polls.map((poll, index) => (
+                      <Text key={index} style={[styles.pollOutcome, { color: theme.colors.textSecondary }]}>
+                        • {formatPollOutcome(poll)}
+                      </Text>
+                    ))}
+                  </View>
+                )}
               </ScrollView>
             ) : (
               <Text style={[styles.summaryCardText, { color: theme.colors.textSecondary, fontStyle: 'italic' }]}>
@@ -127,6 +143,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
+  pollsSection: {
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  pollsTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  pollOutcome: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 6,
+  },
   summaryCardLoading: {
     flex: 1,
     justifyContent: 'center',
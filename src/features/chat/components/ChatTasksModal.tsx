@@ -0,0 +1,258 @@
+/**
+ * ChatTasksModal - AI-extracted tasks for a chat
+ *
+ * Features:
+ * - Action items with owner and due date (done items at the bottom)
+ * - Decisions and open questions
+ * - Tap an item to jump to the message it came from
+ * - Picks up new messages on open; the server keeps the list current afterwards
+ */
+
+import { ActionItemService } from '@/services/firebase';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { ChatActionItem, ChatActionItems } from '@/shared/types';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { ActivityIndicator, Alert, Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+type IoniconName = keyof typeof Ionicons.glyphMap;
+
+interface ChatTasksModalProps {
+  visible: boolean;
+  chatId: string | null;
+  userId: string | undefined;
+  onJumpToMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * "Due Fri, Jun 6" (due dates are calendar days, so no time zone shift)
+ */
+const formatDueDate = (dueDate: string): string => {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return `Due ${new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`;
+};
+
+const isOverdue = (item: ChatActionItem): boolean =>
+  item.status === 'open' && item.dueDate !== null && item.dueDate < new Date().toISOString().slice(0, 10);
+
+export const ChatTasksModal = ({
+  visible,
+  chatId,
+  userId,
+  onJumpToMessage,
+  onClose,
+}: ChatTasksModalProps) => {
+  const theme = useTheme();
+  const [actionItems, setActionItems] = React.useState<ChatActionItems | null>(null);
+  const [isExtracting, setIsExtracting] = React.useState(false);
+
+  const extract = React.useCallback(async () => {
+    if (!chatId) return;
+
+    setIsExtracting(true);
+    try {
+      setActionItems(await ActionItemService.extract(chatId));
+    } catch {
+      Alert.alert('Error', 'Failed to update tasks. Please try again.');
+    } finally {
+      setIsExtracting(false);
+    }
+  }, [chatId]);
+
+  // Listen while open (server-side refreshes show up live) and catch up on new messages
+  React.useEffect(() => {
+    if (!visible || !chatId) return;
+
+    const unsubscribe = ActionItemService.subscribeToActionItems(
+      chatId,
+      setActionItems,
+      (error) => console.error('Error listening to action items:', error)
+    );
+    extract();
+
+    return unsubscribe;
+  }, [visible, chatId, extract]);
+
+  const handleJump = (messageId: string) => {
+    onClose();
+    onJumpToMessage(messageId);
+  };
+
+  const sortedActionItems = React.useMemo(
+    () => (actionItems?.actionItems || [])
+      .slice()
+      .sort((a, b) => {
+        if (a.status !== b.status) return a.status === 'open' ? -1 : 1;
+        return (a.dueDate || '9999-99-99').localeCompare(b.dueDate || '9999-99-99');
+      }),
+    [actionItems]
+  );
+  const decisions = actionItems?.decisions || [];
+  const openQuestions = actionItems?.openQuestions || [];
+  const isEmpty = sortedActionItems.length === 0 && decisions.length === 0 && openQuestions.length === 0;
+
+  const renderRow = (key: string, icon: IoniconName, iconColor: string, text: string, details: string | null, messageId: string, done = false) => (
+    <Pressable
+      key={key}
+      onPress={() => handleJump(messageId)}
+      style={[styles.item, { borderBottomColor: theme.colors.border }]}
+    >
+      <Ionicons name={icon} size={18} color={iconColor} style={styles.itemIcon} />
+      <View style={styles.itemBody}>
+        <Text style={[
+          theme.typography.body,
+          { color: done ? theme.colors.textSecondary : theme.colors.text },
+          done && styles.doneText,
+        ]}>
+          {text}
+        </Text>
+        {details && (
+          <Text style={[theme.typography.caption, { color: theme.colors.textSecondary, marginTop: 2 }]}>
+            {details}
+          </Text>
+        )}
+      </View>
+      <Ionicons name="chevron-forward" size={16} color={theme.colors.textSecondary} />
+    </Pressable>
+  );
+
+  const renderSectionTitle = (title: string, count: number) => (
+    <Text style={[theme.typography.captionMedium, styles.sectionTitle, { color: theme.colors.textSecondary }]}>
+      {title} ({count})
+    </Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              Tasks
+            </Text>
+            <View style={styles.headerActions}>
+              {isExtracting ? (
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+              ) : (
+                <Pressable onPress={extract} hitSlop={8}>
+                  <Ionicons name="refresh" size={22} color={theme.colors.primary} />
+                </Pressable>
+              )}
+              <Pressable onPress={onClose} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </Pressable>
+            </View>
+          </View>
+
+          {isEmpty ? (
+            <Text style={[theme.typography.body, styles.emptyText, { color: theme.colors.textSecondary }]}>
+              {isExtracting ? 'Looking for action items…' : 'No action items, decisions or open questions yet'}
+            </Text>
+          ) : (
+            <ScrollView>
+              {sortedActionItems.length > 0 && renderSectionTitle('Action Items', sortedActionItems.length)}
+              {sortedActionItems.map((item) => {
+                const done = item.status === 'done';
+                const details = [
+                  item.ownerName ? (item.ownerId === userId ? 'You' : item.ownerName) : null,
+                  item.dueDate ? formatDueDate(item.dueDate) : null,
+                ].filter(Boolean).join(' · ');
+                return renderRow(
+                  item.id,
+                  done ? 'checkmark-circle' : 'ellipse-outline',
+                  done ? theme.colors.success : isOverdue(item) ? theme.colors.error : theme.colors.primary,
+                  item.text,
+                  details || null,
+                  item.sourceMessageId,
+                  done
+                );
+              })}
+
+              {decisions.length > 0 && renderSectionTitle('Decisions', decisions.length)}
+              {decisions.map((decision) => renderRow(
+                decision.id,
+                'git-commit-outline',
+                theme.colors.primary,
+                decision.text,
+                null,
+                decision.sourceMessageId
+              ))}
+
+              {openQuestions.length > 0 && renderSectionTitle('Open Questions', openQuestions.length)}
+              {openQuestions.map((question) => renderRow(
+                question.id,
+                'help-circle-outline',
+                theme.colors.warning,
+                question.text,
+                question.askedByName ? `Asked by ${question.askedById === userId ? 'you' : question.askedByName}` : null,
+                question.sourceMessageId
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 4,
+    textTransform: 'uppercase',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemIcon: {
+    marginRight: 10,
+  },
+  itemBody: {
+    flex: 1,
+  },
+  doneText: {
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+});
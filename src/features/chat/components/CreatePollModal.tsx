@@ -0,0 +1,275 @@
+/**
+ * CreatePollModal - Compose a poll
+ *
+ * Features:
+ * - Question and 2-10 options (add/remove)
+ * - Single or multiple choice, anonymous or visible votes
+ * - Optional closing time (presets)
+ */
+
+import { Button } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import { CreatePollData } from '@/shared/types';
+import { MAX_POLL_OPTION_LENGTH, MAX_POLL_OPTIONS, MAX_POLL_QUESTION_LENGTH, MIN_POLL_OPTIONS } from '@/shared/utils';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+interface CreatePollModalProps {
+  visible: boolean;
+  onConfirm: (poll: CreatePollData) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const CLOSING_PRESETS: { label: string; duration: number | null }[] = [
+  { label: 'Never', duration: null },
+  { label: '1 hour', duration: HOUR },
+  { label: '1 day', duration: 24 * HOUR },
+  { label: '1 week', duration: 7 * 24 * HOUR },
+];
+
+const emptyOptions = (): string[] => Array.from({ length: MIN_POLL_OPTIONS }, () => '');
+
+export const CreatePollModal = ({ visible, onConfirm, onClose }: CreatePollModalProps) => {
+  const theme = useTheme();
+  const [question, setQuestion] = React.useState('');
+  const [options, setOptions] = React.useState<string[]>(emptyOptions);
+  const [allowsMultipleChoices, setAllowsMultipleChoices] = React.useState(false);
+  const [anonymous, setAnonymous] = React.useState(false);
+  const [closesIn, setClosesIn] = React.useState<number | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (visible) {
+      setQuestion('');
+      setOptions(emptyOptions());
+      setAllowsMultipleChoices(false);
+      setAnonymous(false);
+      setClosesIn(null);
+    }
+  }, [visible]);
+
+  const filledOptions = options.filter((option) => option.trim().length > 0);
+  const canCreate = question.trim().length > 0 && filledOptions.length >= MIN_POLL_OPTIONS;
+
+  const handleChangeOption = (index: number, value: string) => {
+    setOptions((current) => current.map((option, i) => (i === index ? value : option)));
+  };
+
+  const handleRemoveOption = (index: number) => {
+    setOptions((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleConfirm = async () => {
+    if (!canCreate) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm({
+        question,
+        options,
+        allowsMultipleChoices,
+        anonymous,
+        closesAt: closesIn === null ? null : Date.now() + closesIn,
+      });
+      onClose();
+    } catch {
+      // Caller surfaces the error; keep the modal open to fix the poll
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              New Poll
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {/* Question */}
+            <TextInput
+              style={[styles.input, theme.typography.body, { color: theme.colors.text, backgroundColor: theme.colors.backgroundInput }]}
+              value={question}
+              onChangeText={setQuestion}
+              placeholder="Ask a question"
+              placeholderTextColor={theme.colors.textSecondary}
+              maxLength={MAX_POLL_QUESTION_LENGTH}
+              multiline
+            />
+
+            {/* Options */}
+            <Text style={[theme.typography.label, styles.sectionLabel, { color: theme.colors.textSecondary }]}>
+              Options
+            </Text>
+            {options.map((option, index) => (
+              <View key={index} style={styles.optionRow}>
+                <TextInput
+                  style={[styles.input, styles.optionInput, theme.typography.body, { color: theme.colors.text, backgroundColor: theme.colors.backgroundInput }]}
+                  value={option}
+                  onChangeText={(value) => handleChangeOption(index, value)}
+                  placeholder={`Option ${index + 1}`}
+                  placeholderTextColor={theme.colors.textSecondary}
+                  maxLength={MAX_POLL_OPTION_LENGTH}
+                />
+                {options.length > MIN_POLL_OPTIONS && (
+                  <Pressable onPress={() => handleRemoveOption(index)} hitSlop={8}>
+                    <Ionicons name="remove-circle-outline" size={22} color={theme.colors.error} />
+                  </Pressable>
+                )}
+              </View>
+            ))}
+            {options.length < MAX_POLL_OPTIONS && (
+              <Pressable onPress={() => setOptions((current) => [...current, ''])} style={styles.addOption}>
+                <Ionicons name="add-circle-outline" size={20} color={theme.colors.primary} />
+                <Text style={[theme.typography.body, { color: theme.colors.primary }]}>Add option</Text>
+              </Pressable>
+            )}
+
+            {/* Settings */}
+            <View style={[styles.settingRow, { borderBottomColor: theme.colors.border }]}>
+              <Text style={[theme.typography.body, { color: theme.colors.text }]}>Allow multiple answers</Text>
+              <Switch value={allowsMultipleChoices} onValueChange={setAllowsMultipleChoices} />
+            </View>
+            <View style={[styles.settingRow, { borderBottomColor: theme.colors.border }]}>
+              <Text style={[theme.typography.body, { color: theme.colors.text }]}>Anonymous votes</Text>
+              <Switch value={anonymous} onValueChange={setAnonymous} />
+            </View>
+
+            {/* Closing time */}
+            <Text style={[theme.typography.label, styles.sectionLabel, { color: theme.colors.textSecondary }]}>
+              Closes
+            </Text>
+            <View style={styles.chips}>
+              {CLOSING_PRESETS.map((preset) => {
+                const isSelected = preset.duration === closesIn;
+                return (
+                  <Pressable
+                    key={preset.label}
+                    onPress={() => setClosesIn(preset.duration)}
+                    style={[
+                      styles.chip,
+                      {
+                        backgroundColor: isSelected ? theme.colors.primary : theme.colors.background,
+                        borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+                      },
+                    ]}
+                  >
+                    <Text style={[theme.typography.bodySmall, { color: isSelected ? theme.colors.textOnPrimary : theme.colors.text }]}>
+                      {preset.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={onClose}
+              style={{ flex: 1, marginRight: 8 }}
+            />
+            <Button
+              title="Create"
+              onPress={handleConfirm}
+              disabled={!canCreate || isSaving}
+              loading={isSaving}
+              style={{ flex: 1, marginLeft: 8 }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  input: {
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  sectionLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  optionInput: {
+    flex: 1,
+  },
+  addOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+});
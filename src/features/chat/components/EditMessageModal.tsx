@@ -0,0 +1,158 @@
+/**
+ * EditMessageModal - Modal for editing a sent text message
+ *
+ * Features:
+ * - Prefilled text input with message length limit
+ * - Save disabled while unchanged or empty
+ * - Save and Cancel buttons
+ */
+
+import { Button } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { Message } from '@/shared/types';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+const MAX_MESSAGE_LENGTH = 4096;
+
+interface EditMessageModalProps {
+  visible: boolean;
+  message: Message | null;
+  onSave: (newText: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const EditMessageModal = ({
+  visible,
+  message,
+  onSave,
+  onClose,
+}: EditMessageModalProps) => {
+  const theme = useTheme();
+  const [text, setText] = React.useState(message?.text || '');
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (visible) {
+      setText(message?.text || '');
+    }
+  }, [visible, message?.text]);
+
+  const trimmedText = text.trim();
+  const canSave = trimmedText.length > 0 && trimmedText !== message?.text && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(trimmedText);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              Edit Message
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          {/* Message Input */}
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[
+                styles.messageInput,
+                theme.typography.body,
+                {
+                  color: theme.colors.text,
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              value={text}
+              onChangeText={setText}
+              placeholder="Message"
+              placeholderTextColor={theme.colors.textSecondary}
+              multiline
+              autoFocus
+              maxLength={MAX_MESSAGE_LENGTH}
+              textAlignVertical="top"
+            />
+          </View>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={onClose}
+              style={{ flex: 1, marginRight: 8 }}
+            />
+            <Button
+              title="Save"
+              onPress={handleSave}
+              disabled={!canSave}
+              loading={isSaving}
+              style={{ flex: 1, marginLeft: 8 }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  messageInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 100,
+    maxHeight: 240,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+});
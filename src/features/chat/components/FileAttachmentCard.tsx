@@ -0,0 +1,187 @@
+/**
+ * FileAttachmentCard - File card for document attachments
+ *
+ * Features:
+ * - File type icon, name and size
+ * - Upload progress with pause/resume while sending
+ * - Resumable download, then open via the system share sheet
+ */
+
+import { FileTransferService } from '@/services/firebase';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { Message } from '@/shared/types';
+import { formatFileSize } from '@/shared/utils';
+import { Ionicons } from '@expo/vector-icons';
+import * as Sharing from 'expo-sharing';
+import React, { useCallback } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useFileTransfer } from '../hooks/useFileTransfer';
+
+type IoniconName = keyof typeof Ionicons.glyphMap;
+
+interface FileAttachmentCardProps {
+  message: Message;
+  isSent: boolean;
+}
+
+/**
+ * Pick an icon from the MIME type (falling back to the extension)
+ */
+const getFileIcon = (mimeType: string, fileName: string): IoniconName => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'document-text';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'musical-notes';
+  if (mimeType.startsWith('video/')) return 'videocam';
+  if (mimeType.includes('spreadsheet') || mimeType.includes('excel') || ['csv', 'xls', 'xlsx'].includes(extension)) return 'grid';
+  if (mimeType.includes('presentation') || mimeType.includes('powerpoint') || ['ppt', 'pptx', 'key'].includes(extension)) return 'easel';
+  if (mimeType.includes('zip') || mimeType.includes('compressed') || ['zip', 'rar', '7z', 'gz', 'tar'].includes(extension)) return 'archive';
+  if (mimeType.startsWith('text/')) return 'document-text';
+  return 'document';
+};
+
+/**
+ * Short type label shown next to the size (e.g. "PDF")
+ */
+const getFileTypeLabel = (fileName: string): string => {
+  const parts = fileName.split('.');
+  return parts.length > 1 ? parts.pop()!.toUpperCase() : 'FILE';
+};
+
+export const FileAttachmentCard: React.FC<FileAttachmentCardProps> = ({ message, isSent }) => {
+  const theme = useTheme();
+  const { status, localUri, download, pause, resume } = useFileTransfer(message);
+
+  const fileName = message.fileName || 'File';
+  const mimeType = message.mimeType || 'application/octet-stream';
+  const isUploading = message.uploadProgress !== undefined;
+  const isTransferring = isUploading || status?.state === 'active' || status?.state === 'paused';
+  const isPaused = status?.state === 'paused';
+  const progress = isUploading ? message.uploadProgress! : Math.round(status?.progress || 0);
+
+  const foregroundColor = isSent ? theme.colors.messageText : theme.colors.messageTextReceived;
+  const secondaryColor = isSent ? 'rgba(0,0,0,0.5)' : theme.colors.textSecondary;
+  const trackColor = isSent ? 'rgba(0,0,0,0.15)' : 'rgba(0,0,0,0.1)';
+
+  const openFile = useCallback(async (uri: string) => {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Not Supported', 'Opening files is not supported on this device.');
+        return;
+      }
+      await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+    } catch (error) {
+      console.error('Error opening file:', error);
+    }
+  }, [mimeType, fileName]);
+
+  const handlePress = useCallback(async () => {
+    if (isTransferring) {
+      if (isPaused) {
+        resume();
+      } else {
+        pause();
+      }
+      return;
+    }
+
+    // Sender's own file is still on the device until the upload finishes
+    if (message.fileUrl && !message.fileUrl.startsWith('http')) {
+      await openFile(message.fileUrl);
+      return;
+    }
+
+    const uri = localUri || await download();
+    if (uri) {
+      await openFile(uri);
+    }
+  }, [isTransferring, isPaused, pause, resume, message.fileUrl, localUri, download, openFile]);
+
+  // Uploads outside the store's control (e.g. the offline queue) can't be paused from here
+  const canPauseUpload = !isUploading || !!FileTransferService.getStatus(message.id);
+
+  let actionIcon: IoniconName = 'download-outline';
+  if (isTransferring) {
+    actionIcon = isPaused ? 'play' : 'pause';
+  } else if (localUri || (message.fileUrl && !message.fileUrl.startsWith('http'))) {
+    actionIcon = 'open-outline';
+  }
+
+  let detail = `${formatFileSize(message.fileSize || 0)} · ${getFileTypeLabel(fileName)}`;
+  if (isTransferring) {
+    const verb = isUploading ? 'Sending' : 'Downloading';
+    detail = isPaused ? `Paused · ${progress}%` : `${verb}… ${progress}%`;
+  }
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      disabled={isTransferring && !canPauseUpload}
+      style={[styles.container, { backgroundColor: trackColor }]}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name={getFileIcon(mimeType, fileName)} size={28} color={foregroundColor} />
+      </View>
+
+      <View style={styles.body}>
+        <Text style={[styles.fileName, { color: foregroundColor }]} numberOfLines={1} ellipsizeMode="middle">
+          {fileName}
+        </Text>
+        <Text style={[styles.detail, { color: secondaryColor }]}>
+          {detail}
+        </Text>
+        {isTransferring && (
+          <View style={[styles.progressTrack, { backgroundColor: trackColor }]}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${progress}%`, backgroundColor: isSent ? theme.colors.messageText : theme.colors.primary },
+              ]}
+            />
+          </View>
+        )}
+      </View>
+
+      {(!isTransferring || canPauseUpload) && (
+        <Ionicons name={actionIcon} size={20} color={foregroundColor} />
+      )}
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 220,
+    maxWidth: 280,
+    padding: 10,
+    borderRadius: 12,
+    gap: 10,
+  },
+  iconContainer: {
+    width: 36,
+    alignItems: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 1.5,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 3,
+  },
+});
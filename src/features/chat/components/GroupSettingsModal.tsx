@@ -2,20 +2,34 @@
  * GroupSettingsModal - Bottom sheet for group settings
  * 
  * Shows:
- * - Group icon (anyone can change)
- * - Group name (anyone can edit)
- * - Member list with online status
+ * - Group icon and name (anyone can edit, unless only admins can edit info)
+ * - Member list with online status, roles and muted members
+ * - Member actions for admins and moderators (long press): roles, mute, remove
+ * - Tasks (AI-extracted action items, decisions and open questions)
+ * - Invite links and pending join requests (admins and moderators)
+ * - Group settings (admins)
  * - Add Users button
  */
 
 import { Avatar } from '@/components/common';
 import { GroupService, StorageService } from '@/services/firebase';
 import { useTheme } from '@/shared/hooks/useTheme';
-import { User } from '@/shared/types';
+import { ChatRole, GroupSettings, User } from '@/shared/types';
+import {
+    canAddMembers,
+    canEditGroupInfo,
+    canManageMember,
+    getGroupAdminIds,
+    getGroupRole,
+    getGroupSettings,
+    isGroupAdmin,
+    isGroupMemberMuted,
+    isGroupStaff
+} from '@/shared/utils';
 import { useAuthStore, useChatStore, usePresenceStore } from '@/store';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -23,20 +37,46 @@ import {
     Modal,
     Pressable,
     StyleSheet,
+    Switch,
     Text,
     TextInput,
     View
 } from 'react-native';
 import { AddMemberSheet } from './AddMemberSheet';
+import { ChatOption, ChatOptionsSheet } from './ChatOptionsSheet';
+import { InviteLinksModal } from './InviteLinksModal';
+
+type GroupMember = User & { isOnline: boolean };
+
+const ROLE_ORDER: Record<ChatRole, number> = { admin: 0, moderator: 1, member: 2 };
+
+const SETTING_OPTIONS: { key: keyof GroupSettings; label: string; description: string }[] = [
+  {
+    key: 'onlyAdminsCanPost',
+    label: 'Only admins can send messages',
+    description: 'Everyone else can still read the group',
+  },
+  {
+    key: 'onlyAdminsCanEditInfo',
+    label: 'Only admins can edit group info',
+    description: 'Name and icon',
+  },
+  {
+    key: 'approveJoinRequests',
+    label: 'Approve new members',
+    description: 'People joining with an invite link wait for an admin or moderator',
+  },
+];
 
 interface GroupSettingsModalProps {
   visible: boolean;
   chatId: string | null;
   onClose: () => void;
   onChatDeleted?: () => void; // Callback when user leaves/deletes chat (to close parent ChatModal)
+  onOpenTasks?: () => void; // Not passed in encrypted chats (server-side AI)
 }
 
-export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }: GroupSettingsModalProps) => {
+export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted, onOpenTasks }: GroupSettingsModalProps) => {
   const theme = useTheme();
   const { user } = useAuthStore();
   const { chats, loadUserProfile } = useChatStore();
@@ -46,11 +86,30 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
   const [isEditingName, setIsEditingName] = useState(false);
   const [groupName, setGroupName] = useState('');
   const [showAddMemberSheet, setShowAddMemberSheet] = useState(false);
-  const [members, setMembers] = useState<(User & { role: string; isOnline: boolean })[]>([]);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [joinRequests, setJoinRequests] = useState<(User & { inviteLinkName: string | null })[]>([]);
+  const [showInviteLinks, setShowInviteLinks] = useState(false);
+  const [selectedMember, setSelectedMember] = useState<GroupMember | null>(null);
 
   // Get current chat
   const currentChat = chats.find(chat => chat.id === chatId);
 
+  // Current user's permissions (roles and settings update live with the chat)
+  const isAdmin = !!currentChat && !!user && isGroupAdmin(currentChat, user.id);
+  const isStaff = !!currentChat && !!user && isGroupStaff(currentChat, user.id);
+  const canEditInfo = !!currentChat && !!user && canEditGroupInfo(currentChat, user.id);
+  const canAdd = !!currentChat && !!user && canAddMembers(currentChat, user.id);
+  const groupSettings = currentChat ? getGroupSettings(currentChat) : null;
+
+  // Admins first, then moderators, then by name
+  const sortedMembers = useMemo(() => {
+    if (!currentChat) return members;
+    return [...members].sort((a, b) => {
+      const roleDiff = ROLE_ORDER[getGroupRole(currentChat, a.id)] - ROLE_ORDER[getGroupRole(currentChat, b.id)];
+      return roleDiff !== 0 ? roleDiff : a.displayName.localeCompare(b.displayName);
+    });
+  }, [members, currentChat]);
+
   // Load members when modal opens
   useEffect(() => {
     if (visible && chatId && currentChat) {
@@ -86,7 +145,7 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
     try {
       setIsLoading(true);
 
-      // Get participants with roles from Firestore
+      // Get participants from Firestore (roles come from the chat document)
       const participants = await GroupService.getGroupParticipants(chatId);
 
       // Load user profiles for each participant (use loadUserProfile to fetch if not cached)
@@ -104,9 +163,8 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
           
           return {
             ...profile,
-            role: participant.role,
             isOnline: presence?.isOnline || false,
-          } as User & { role: string; isOnline: boolean };
+          } as GroupMember;
         } catch (error) {
           console.error('Error loading profile for participant:', participant.userId, error);
           return null;
@@ -114,16 +172,21 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
       });
 
       const memberProfiles = (await Promise.all(memberPromises))
-        .filter((member): member is User & { role: string; isOnline: boolean } => member !== null);
-
-      // Sort: Admin first, then by name
-      memberProfiles.sort((a, b) => {
-        if (a.role === 'admin') return -1;
-        if (b.role === 'admin') return 1;
-        return a.displayName.localeCompare(b.displayName);
-      });
+        .filter((member): member is GroupMember => member !== null);
 
       setMembers(memberProfiles);
+
+      // Pending join requests (only admins and moderators can read them)
+      if (user && isGroupStaff(currentChat, user.id)) {
+        const requests = await GroupService.getJoinRequests(chatId);
+        const requesters = await Promise.all(requests.map(async (request) => {
+          const profile = await loadUserProfile(request.userId);
+          return profile?.id ? { ...profile, inviteLinkName: request.inviteLinkName } : null;
+        }));
+        setJoinRequests(requesters.filter((requester) => requester !== null));
+      } else {
+        setJoinRequests([]);
+      }
     } catch (error) {
       console.error('Failed to load members:', error);
       Alert.alert('Error', 'Failed to load group members');
@@ -224,15 +287,15 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
 
 
   const handleLeaveGroup = () => {
-    if (!chatId || !user) return;
+    if (!chatId || !user || !currentChat) return;
 
-    const isAdmin = currentChat?.groupAdminId === user.id;
+    const isOnlyAdmin = isAdmin && getGroupAdminIds(currentChat).length === 1;
     const memberCount = members.length;
 
     let message = 'Are you sure you want to leave this group?';
     
-    if (isAdmin && memberCount > 1) {
-      message = 'You are the admin. The oldest member will become the new admin. Are you sure you want to leave?';
+    if (isOnlyAdmin && memberCount > 1) {
+      message = 'You are the only admin. The oldest member will become the new admin. Are you sure you want to leave?';
     } else if (memberCount === 1) {
       message = 'You are the last member. Leaving will delete this group. Are you sure?';
     }
@@ -278,17 +341,135 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
     );
   };
 
-  const renderMember = ({ item }: { item: User & { role: string; isOnline: boolean } }) => {
+  /**
+   * Run a member management action, reporting failures
+   */
+  const runGroupAction = async (action: () => Promise<void>, failureMessage: string, reloadMembers = false) => {
+    try {
+      setIsLoading(true);
+      await action();
+      if (reloadMembers) {
+        await loadMembers();
+      }
+    } catch (error: any) {
+      console.error(failureMessage, error);
+      Alert.alert('Error', error?.message || failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemoveMember = (member: GroupMember) => {
+    if (!chatId || !user) return;
+
+    Alert.alert(
+      'Remove Member',
+      `Remove ${member.displayName} from the group?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => runGroupAction(
+            () => GroupService.removeMember(chatId, user.id, member.id),
+            'Failed to remove member',
+            true
+          ),
+        },
+      ]
+    );
+  };
+
+  // Actions the current user can take on a member (shown on long press)
+  const getMemberOptions = (member: GroupMember): ChatOption[] => {
+    if (!chatId || !user || !currentChat) return [];
+
+    const options: ChatOption[] = [];
+    const role = getGroupRole(currentChat, member.id);
+    const setRole = (newRole: ChatRole) => runGroupAction(
+      () => GroupService.setMemberRole(chatId, user.id, member.id, newRole),
+      'Failed to change role'
+    );
+
+    if (isAdmin && member.id !== user.id) {
+      if (role !== 'admin') {
+        options.push({ id: 'make-admin', label: 'Make admin', icon: 'shield-checkmark-outline', onPress: () => setRole('admin') });
+      }
+      if (role !== 'moderator') {
+        options.push({ id: 'make-moderator', label: 'Make moderator', icon: 'shield-half-outline', onPress: () => setRole('moderator') });
+      }
+      if (role !== 'member') {
+        options.push({ id: 'dismiss', label: `Dismiss as ${role}`, icon: 'shield-outline', onPress: () => setRole('member') });
+      }
+    }
+
+    if (member.id === user.id && role !== 'member') {
+      options.push({ id: 'step-down', label: `Step down as ${role}`, icon: 'shield-outline', onPress: () => setRole('member') });
+    }
+
+    if (canManageMember(currentChat, user.id, member.id)) {
+      const isMuted = isGroupMemberMuted(currentChat, member.id);
+      options.push({
+        id: 'mute',
+        label: isMuted ? 'Unmute' : 'Mute',
+        icon: isMuted ? 'volume-high-outline' : 'volume-mute-outline',
+        onPress: () => runGroupAction(
+          () => GroupService.setMemberMuted(chatId, user.id, member.id, !isMuted),
+          isMuted ? 'Failed to unmute member' : 'Failed to mute member'
+        ),
+      });
+      options.push({ id: 'remove', label: 'Remove from group', icon: 'person-remove-outline', onPress: () => handleRemoveMember(member) });
+    }
+
+    return options;
+  };
+
+  const handleJoinRequest = (requester: User, approve: boolean) => {
+    if (!chatId || !user) return;
+
+    runGroupAction(
+      () => approve
+        ? GroupService.approveJoinRequest(chatId, requester.id)
+        : GroupService.declineJoinRequest(chatId, requester.id),
+      approve ? 'Failed to approve join request' : 'Failed to decline join request',
+      true
+    );
+  };
+
+  const handleToggleSetting = (key: keyof GroupSettings, value: boolean) => {
+    if (!chatId) return;
+
+    runGroupAction(async () => {
+      await GroupService.updateGroupSettings(chatId, { [key]: value });
+
+      // Optimistic update (the chat listener confirms it)
+      useChatStore.setState(state => ({
+        chats: state.chats.map(chat =>
+          chat.id === chatId
+            ? { ...chat, groupSettings: { ...getGroupSettings(chat), [key]: value } }
+            : chat
+        ),
+        chatsVersion: state.chatsVersion + 1,
+      }));
+    }, 'Failed to update group settings');
+  };
+
+  const renderMember = ({ item }: { item: GroupMember }) => {
     // Get real-time online status from PresenceStore
     const presence = presenceMap.get(item.id);
     const isOnline = presence?.isOnline || false;
+    const role = currentChat ? getGroupRole(currentChat, item.id) : 'member';
+    const isMuted = !!currentChat && isGroupMemberMuted(currentChat, item.id);
+    const hasOptions = getMemberOptions(item).length > 0;
 
     return (
-      <View
+      <Pressable
         style={[
           styles.memberItem,
           { borderBottomColor: theme.colors.border }
         ]}
+        onLongPress={hasOptions ? () => setSelectedMember(item) : undefined}
+        disabled={!hasOptions || isLoading}
       >
         <View style={styles.avatarWithIndicator}>
           <Avatar
@@ -306,19 +487,129 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
             <Text style={[theme.typography.bodyBold, { color: theme.colors.text }]}>
               {item.displayName}
             </Text>
-            {item.role === 'admin' && (
-              <View style={[styles.adminBadge, { backgroundColor: theme.colors.primary }]}>
+            {role !== 'member' && (
+              <View
+                style={[
+                  styles.adminBadge,
+                  { backgroundColor: role === 'admin' ? theme.colors.primary : theme.colors.textSecondary },
+                ]}
+              >
                 <Text style={[theme.typography.bodySmall, { color: '#fff', fontSize: 10 }]}>
-                  Admin
+                  {role === 'admin' ? 'Admin' : 'Moderator'}
                 </Text>
               </View>
             )}
+            {isMuted && (
+              <Ionicons name="volume-mute" size={14} color={theme.colors.textSecondary} />
+            )}
           </View>
           <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
             @{item.username}
           </Text>
         </View>
 
+      </Pressable>
+    );
+  };
+
+  const renderListHeader = () => {
+    if (!isStaff && !onOpenTasks) return null;
+
+    return (
+      <View style={styles.joinRequests}>
+        {onOpenTasks && (
+          <Pressable
+            style={[styles.inviteLinksRow, { borderBottomColor: theme.colors.border }]}
+            onPress={() => {
+              onClose();
+              onOpenTasks();
+            }}
+          >
+            <Ionicons name="checkbox-outline" size={20} color={theme.colors.primary} />
+            <Text style={[theme.typography.body, { color: theme.colors.text, flex: 1 }]}>
+              Tasks
+            </Text>
+            <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+          </Pressable>
+        )}
+
+        {isStaff && (
+          <Pressable
+            style={[styles.inviteLinksRow, { borderBottomColor: theme.colors.border }]}
+            onPress={() => setShowInviteLinks(true)}
+          >
+            <Ionicons name="link" size={20} color={theme.colors.primary} />
+            <Text style={[theme.typography.body, { color: theme.colors.text, flex: 1 }]}>
+              Invite Links
+            </Text>
+            <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+          </Pressable>
+        )}
+
+        {joinRequests.length > 0 && (
+          <Text style={[theme.typography.bodyBold, { color: theme.colors.text, marginTop: 16, marginBottom: 4 }]}>
+            Join Requests ({joinRequests.length})
+          </Text>
+        )}
+        {joinRequests.map(requester => (
+          <View key={requester.id} style={[styles.memberItem, { borderBottomColor: theme.colors.border }]}>
+            <View style={styles.avatarWithIndicator}>
+              <Avatar name={requester.displayName} imageUrl={requester.profilePictureUrl} size={40} />
+            </View>
+            <View style={styles.memberInfo}>
+              <Text style={[theme.typography.bodyBold, { color: theme.colors.text }]}>
+                {requester.displayName}
+              </Text>
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+                @{requester.username}
+                {requester.inviteLinkName ? ` · via ${requester.inviteLinkName}` : ''}
+              </Text>
+            </View>
+            <Pressable
+              onPress={() => handleJoinRequest(requester, false)}
+              style={styles.requestButton}
+              disabled={isLoading}
+            >
+              <Ionicons name="close-circle-outline" size={28} color={theme.colors.error} />
+            </Pressable>
+            <Pressable
+              onPress={() => handleJoinRequest(requester, true)}
+              style={styles.requestButton}
+              disabled={isLoading}
+            >
+              <Ionicons name="checkmark-circle" size={28} color={theme.colors.success} />
+            </Pressable>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderSettings = () => {
+    if (!isAdmin || !groupSettings) return null;
+
+    return (
+      <View style={styles.settings}>
+        <Text style={[theme.typography.bodyBold, { color: theme.colors.text, marginBottom: 4 }]}>
+          Group Settings
+        </Text>
+        {SETTING_OPTIONS.map(option => (
+          <View key={option.key} style={[styles.settingRow, { borderBottomColor: theme.colors.border }]}>
+            <View style={styles.memberInfo}>
+              <Text style={[theme.typography.body, { color: theme.colors.text }]}>
+                {option.label}
+              </Text>
+              <Text style={[theme.typography.caption, { color: theme.colors.textSecondary }]}>
+                {option.description}
+              </Text>
+            </View>
+            <Switch
+              value={groupSettings[option.key]}
+              onValueChange={value => handleToggleSetting(option.key, value)}
+              disabled={isLoading}
+            />
+          </View>
+        ))}
       </View>
     );
   };
@@ -355,7 +646,7 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
             <View style={styles.section}>
               <Pressable 
                 onPress={handleChangeIcon}
-                disabled={isLoading}
+                disabled={isLoading || !canEditInfo}
                 style={styles.iconContainer}
               >
                 <Avatar
@@ -363,13 +654,17 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
                   imageUrl={currentChat.groupIcon}
                   size={100}
                 />
-                <View style={[styles.editIconBadge, { backgroundColor: theme.colors.primary }]}>
-                  <Ionicons name="camera" size={20} color="#fff" />
-                </View>
+                {canEditInfo && (
+                  <View style={[styles.editIconBadge, { backgroundColor: theme.colors.primary }]}>
+                    <Ionicons name="camera" size={20} color="#fff" />
+                  </View>
+                )}
               </Pressable>
-              <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary, marginTop: 8 }]}>
-                Tap to change group icon
-              </Text>
+              {canEditInfo && (
+                <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary, marginTop: 8 }]}>
+                  Tap to change group icon
+                </Text>
+              )}
             </View>
 
             {/* Group Name */}
@@ -419,12 +714,15 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
               ) : (
                 <Pressable 
                   onPress={() => setIsEditingName(true)}
+                  disabled={!canEditInfo}
                   style={styles.nameDisplay}
                 >
                   <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
                     {currentChat.groupName}
                   </Text>
-                  <Ionicons name="create-outline" size={20} color={theme.colors.textSecondary} />
+                  {canEditInfo && (
+                    <Ionicons name="create-outline" size={20} color={theme.colors.textSecondary} />
+                  )}
                 </Pressable>
               )}
             </View>
@@ -435,9 +733,9 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
                 <Text style={[theme.typography.bodyBold, { color: theme.colors.text }]}>
                   Members ({members.length})
                 </Text>
-                {currentChat?.groupAdminId === user?.id && (
+                {isStaff && (
                   <Text style={[theme.typography.caption, { color: theme.colors.textSecondary, marginTop: 4 }]}>
-                    Long press to remove members
+                    Long press a member to manage them
                   </Text>
                 )}
               </View>
@@ -448,9 +746,11 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
                 </View>
               ) : (
                 <FlatList
-                  data={members}
+                  data={sortedMembers}
                   renderItem={renderMember}
                   keyExtractor={(item, index) => item.id || `member-${index}`}
+                  ListHeaderComponent={renderListHeader()}
+                  ListFooterComponent={renderSettings()}
                   style={styles.membersList}
                   contentContainerStyle={{ paddingBottom: 16 }}
                 />
@@ -459,17 +759,19 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
 
             {/* Footer Buttons */}
             <View style={styles.footer}>
-              {/* Add Users Button */}
-              <Pressable
-                style={[styles.addButton, { backgroundColor: theme.colors.primary }]}
-                onPress={() => setShowAddMemberSheet(true)}
-                disabled={isLoading}
-              >
-                <Ionicons name="person-add" size={20} color="#fff" />
-                <Text style={[theme.typography.bodyBold, { color: '#fff', marginLeft: 8 }]}>
-                  Add Users
-                </Text>
-              </Pressable>
+              {/* Add Users Button (admins and moderators when joins need approval) */}
+              {canAdd && (
+                <Pressable
+                  style={[styles.addButton, { backgroundColor: theme.colors.primary }]}
+                  onPress={() => setShowAddMemberSheet(true)}
+                  disabled={isLoading}
+                >
+                  <Ionicons name="person-add" size={20} color="#fff" />
+                  <Text style={[theme.typography.bodyBold, { color: '#fff', marginLeft: 8 }]}>
+                    Add Users
+                  </Text>
+                </Pressable>
+              )}
 
               {/* Leave Group Button */}
               <Pressable
@@ -497,6 +799,23 @@ export const GroupSettingsModal = ({ visible, chatId, onClose, onChatDeleted }:
           loadMembers();
         }}
       />
+
+      {/* Invite Links */}
+      <InviteLinksModal
+        visible={showInviteLinks}
+        chatId={chatId}
+        groupName={currentChat.groupName || 'Group'}
+        canManage={isAdmin}
+        onClose={() => setShowInviteLinks(false)}
+      />
+
+      {/* Member Actions */}
+      <ChatOptionsSheet
+        visible={!!selectedMember}
+        title={selectedMember?.displayName || ''}
+        options={selectedMember ? getMemberOptions(selectedMember) : []}
+        onClose={() => setSelectedMember(null)}
+      />
     </>
   );
 };
@@ -601,6 +920,30 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     borderRadius: 4,
   },
+  joinRequests: {
+    marginBottom: 16,
+  },
+  inviteLinksRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  requestButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  settings: {
+    marginTop: 24,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
   loadingContainer: {
     padding: 40,
     alignItems: 'center',
@@ -0,0 +1,412 @@
+/**
+ * InviteLinksModal - A group's invite links
+ *
+ * Features:
+ * - Each link's name, status, join count and expiry
+ * - Share any active link (admins and moderators)
+ * - Create links with an expiry, usage limit and approval (admins)
+ * - Revoke links, with confirmation (admins)
+ */
+
+import { Button } from '@/components/common';
+import { GroupService } from '@/services/firebase';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { GroupInviteLink, GroupInviteLinkStatus } from '@/shared/types';
+import { buildInviteUrl, getInviteLinkStatus } from '@/shared/utils';
+import { useAuthStore } from '@/store';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { ActivityIndicator, Alert, FlatList, Modal, Pressable, ScrollView, Share, StyleSheet, Text, TextInput, View } from 'react-native';
+import { formatScheduledTime } from '../utils/messageUtils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 40;
+
+const EXPIRY_OPTIONS: { label: string; durationMs: number | null }[] = [
+  { label: 'Never', durationMs: null },
+  { label: '1 hour', durationMs: HOUR_MS },
+  { label: '1 day', durationMs: 24 * HOUR_MS },
+  { label: '7 days', durationMs: 7 * 24 * HOUR_MS },
+];
+
+const MAX_USES_OPTIONS: { label: string; maxUses: number | null }[] = [
+  { label: 'No limit', maxUses: null },
+  { label: '1', maxUses: 1 },
+  { label: '10', maxUses: 10 },
+  { label: '50', maxUses: 50 },
+];
+
+const STATUS_LABELS: Record<GroupInviteLinkStatus, string> = {
+  'active': 'Active',
+  'expired': 'Expired',
+  'revoked': 'Revoked',
+  'used-up': 'Limit reached',
+};
+
+interface InviteLinksModalProps {
+  visible: boolean;
+  chatId: string | null;
+  groupName: string;
+  canManage: boolean; // Admins create and revoke links
+  onClose: () => void;
+}
+
+export const InviteLinksModal = ({
+  visible,
+  chatId,
+  groupName,
+  canManage,
+  onClose,
+}: InviteLinksModalProps) => {
+  const theme = useTheme();
+  const { user } = useAuthStore();
+  const [links, setLinks] = React.useState<GroupInviteLink[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isCreating, setIsCreating] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [name, setName] = React.useState('');
+  const [expiryIndex, setExpiryIndex] = React.useState(0);
+  const [maxUsesIndex, setMaxUsesIndex] = React.useState(0);
+  const [requiresApproval, setRequiresApproval] = React.useState(false);
+
+  const loadLinks = React.useCallback(async () => {
+    if (!chatId) return;
+
+    setIsLoading(true);
+    try {
+      setLinks(await GroupService.getInviteLinks(chatId));
+    } catch {
+      Alert.alert('Error', 'Failed to load invite links');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [chatId]);
+
+  React.useEffect(() => {
+    if (visible) {
+      setIsCreating(false);
+      loadLinks();
+    }
+  }, [visible, loadLinks]);
+
+  const handleStartCreate = () => {
+    setName('');
+    setExpiryIndex(0);
+    setMaxUsesIndex(0);
+    setRequiresApproval(false);
+    setIsCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!chatId || !user || !name.trim()) return;
+
+    const { durationMs } = EXPIRY_OPTIONS[expiryIndex];
+    setIsSaving(true);
+    try {
+      const link = await GroupService.createInviteLink(chatId, user.id, {
+        name,
+        expiresAt: durationMs === null ? null : Date.now() + durationMs,
+        maxUses: MAX_USES_OPTIONS[maxUsesIndex].maxUses,
+        requiresApproval,
+      });
+      setLinks(current => [link, ...current]);
+      setIsCreating(false);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to create invite link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleShare = (link: GroupInviteLink) => {
+    Share.share({
+      message: `Join "${groupName}" on MessageAI: ${buildInviteUrl(link.code)}`,
+    }).catch(error => console.error('Failed to share invite link:', error));
+  };
+
+  const handleRevoke = (link: GroupInviteLink) => {
+    Alert.alert(
+      'Revoke Link',
+      `"${link.name}" will stop working. People who already joined stay in the group.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: () => {
+            GroupService.revokeInviteLink(link.code)
+              .then(() => setLinks(current => current.map(item =>
+                item.code === link.code ? { ...item, revoked: true, revokedAt: Date.now() } : item
+              )))
+              .catch(() => Alert.alert('Error', 'Failed to revoke invite link'));
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChips = (
+    options: { label: string }[],
+    selectedIndex: number,
+    onSelect: (index: number) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option, index) => {
+        const selected = index === selectedIndex;
+        return (
+          <Pressable
+            key={option.label}
+            onPress={() => onSelect(index)}
+            style={[
+              styles.chip,
+              {
+                borderColor: selected ? theme.colors.primary : theme.colors.border,
+                backgroundColor: selected ? theme.colors.primary : 'transparent',
+              },
+            ]}
+          >
+            <Text style={[theme.typography.bodySmall, { color: selected ? '#fff' : theme.colors.text }]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  const renderLink = ({ item }: { item: GroupInviteLink }) => {
+    const status = getInviteLinkStatus(item);
+    const isActive = status === 'active';
+    const details = [
+      item.maxUses === null ? `${item.useCount} joined` : `${item.useCount}/${item.maxUses} joined`,
+      isActive && item.expiresAt !== null ? `Expires ${formatScheduledTime(item.expiresAt)}` : null,
+      item.requiresApproval ? 'Needs approval' : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <View style={[styles.item, { borderBottomColor: theme.colors.border }]}>
+        <View style={styles.itemHeader}>
+          <Ionicons
+            name="link"
+            size={16}
+            color={isActive ? theme.colors.primary : theme.colors.textSecondary}
+          />
+          <Text style={[theme.typography.bodyBold, styles.itemName, { color: theme.colors.text }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          {isActive ? (
+            <View style={styles.itemActions}>
+              <Pressable onPress={() => handleShare(item)} hitSlop={8}>
+                <Ionicons name="share-outline" size={18} color={theme.colors.textSecondary} />
+              </Pressable>
+              {canManage && (
+                <Pressable onPress={() => handleRevoke(item)} hitSlop={8}>
+                  <Ionicons name="close-circle-outline" size={18} color={theme.colors.error} />
+                </Pressable>
+              )}
+            </View>
+          ) : (
+            <Text style={[theme.typography.caption, { color: theme.colors.error }]}>
+              {STATUS_LABELS[status]}
+            </Text>
+          )}
+        </View>
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]} selectable>
+          {buildInviteUrl(item.code)}
+        </Text>
+        <Text style={[theme.typography.caption, { color: theme.colors.textSecondary, marginTop: 2 }]}>
+          {details}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderCreateForm = () => (
+    <ScrollView keyboardShouldPersistTaps="handled">
+      <TextInput
+        style={[
+          styles.nameInput,
+          theme.typography.body,
+          {
+            color: theme.colors.text,
+            backgroundColor: theme.colors.background,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        value={name}
+        onChangeText={setName}
+        placeholder="Link name, e.g. Newsletter"
+        placeholderTextColor={theme.colors.textSecondary}
+        maxLength={MAX_NAME_LENGTH}
+        autoFocus
+      />
+
+      <Text style={[theme.typography.captionMedium, styles.label, { color: theme.colors.textSecondary }]}>
+        Expires
+      </Text>
+      {renderChips(EXPIRY_OPTIONS, expiryIndex, setExpiryIndex)}
+
+      <Text style={[theme.typography.captionMedium, styles.label, { color: theme.colors.textSecondary }]}>
+        Max uses
+      </Text>
+      {renderChips(MAX_USES_OPTIONS, maxUsesIndex, setMaxUsesIndex)}
+
+      <Pressable style={styles.approvalRow} onPress={() => setRequiresApproval(value => !value)}>
+        <Ionicons
+          name={requiresApproval ? 'checkbox' : 'square-outline'}
+          size={20}
+          color={requiresApproval ? theme.colors.primary : theme.colors.textSecondary}
+        />
+        <Text style={[theme.typography.body, { color: theme.colors.text, flex: 1 }]}>
+          Approve people who join with this link
+        </Text>
+      </Pressable>
+
+      <View style={styles.actions}>
+        <Button
+          title="Cancel"
+          variant="outline"
+          onPress={() => setIsCreating(false)}
+          style={{ flex: 1, marginRight: 8 }}
+        />
+        <Button
+          title="Create"
+          onPress={handleCreate}
+          disabled={!name.trim() || isSaving}
+          loading={isSaving}
+          style={{ flex: 1, marginLeft: 8 }}
+        />
+      </View>
+    </ScrollView>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              {isCreating ? 'New Invite Link' : 'Invite Links'}
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          {isCreating ? renderCreateForm() : (
+            <>
+              {isLoading ? (
+                <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+              ) : (
+                <FlatList
+                  data={links}
+                  keyExtractor={(item) => item.code}
+                  renderItem={renderLink}
+                  ListEmptyComponent={
+                    <Text style={[theme.typography.body, styles.emptyText, { color: theme.colors.textSecondary }]}>
+                      No invite links yet
+                    </Text>
+                  }
+                />
+              )}
+
+              {canManage && (
+                <Button
+                  title="New Link"
+                  onPress={handleStartCreate}
+                  style={{ marginTop: 16 }}
+                />
+              )}
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  loading: {
+    paddingVertical: 24,
+  },
+  item: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  itemName: {
+    flex: 1,
+    marginLeft: 6,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  label: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  approvalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 16,
+    gap: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+});
@@ -25,6 +25,23 @@ export const messageBubbleStyles = StyleSheet.create({
   deletedBubble: {
     opacity: 0.6,
   },
+  swipeReplyIcon: {
+    position: 'absolute',
+    left: -24,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  threadIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  threadIndicatorText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   failedActions: {
     marginTop: 8,
     gap: 8,
@@ -74,4 +91,8 @@ export const messageBubbleStyles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
+  editedLabel: {
+    fontSize: 11,
+    fontStyle: 'italic',
+  },
 });
@@ -8,6 +8,8 @@
  * - Long-press menu (Delete, React, Copy)
  * - Reactions display
  * - Deleted message handling
+ * - "edited" marker for edited messages
+ * - Swipe right to reply, quoted reply preview, sub-thread reply count
  */
 
 import { Avatar } from '@/components/common';
@@ -16,7 +18,7 @@ import { Message } from '@/shared/types';
 import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import React, { memo, useRef, useState } from 'react';
-import { Pressable, Text, View } from 'react-native';
+import { Animated, PanResponder, Pressable, Text, View } from 'react-native';
 import { useCulturalAnalysis, useMessageAnimations, useMessageTranslation } from '../hooks';
 import { AICommandsMenu } from './AICommandsMenu';
 import { MessageActions } from './MessageActions';
@@ -25,6 +27,9 @@ import { MessageContent } from './MessageContent';
 import { MessageModals } from './MessageModals';
 import { QuickActionsPopover } from './QuickActionsPopover';
 
+const SWIPE_REPLY_THRESHOLD = 60; // Swipe distance that triggers a reply
+const SWIPE_REPLY_MAX = 80;       // Max distance the bubble follows the finger
+
 interface MessageBubbleProps {
   message: Message;
   currentUserId: string;
@@ -45,6 +50,11 @@ interface MessageBubbleProps {
   onTranslate20?: () => void; // Translate last 20 messages (long press - batch translation)
   onCopyMessage?: (message: Message) => void; // Copy message text (single tap)
   onCulturalAnalysis?: (message: Message) => void; // Cultural analysis command (after translation)
+  replySenderName?: string; // Display name of the quoted message's sender
+  isHighlighted?: boolean; // Briefly highlighted after jumping to this message
+  onReply?: (message: Message) => void; // Quote-reply (swipe right or quick action)
+  onReplyPreviewPress?: (messageId: string) => void; // Jump to the quoted message
+  onOpenThread?: (message: Message) => void; // Open this message's sub-thread
 }
 
 export const MessageBubble = memo(({
@@ -67,6 +77,11 @@ export const MessageBubble = memo(({
   onTranslate20,
   onCopyMessage,
   onCulturalAnalysis,
+  replySenderName,
+  isHighlighted = false,
+  onReply,
+  onReplyPreviewPress,
+  onOpenThread,
 }: MessageBubbleProps) => {
   const theme = useTheme();
   const isSent = message.senderId === currentUserId;
@@ -86,6 +101,29 @@ export const MessageBubble = memo(({
   // Cultural context modal state
   const [showCulturalContextModal, setShowCulturalContextModal] = useState(false);
 
+  // Swipe-to-reply (PanResponder is created once, so read the latest props from refs)
+  const swipeX = useRef(new Animated.Value(0)).current;
+  const replyHandlerRef = useRef<(() => void) | null>(null);
+  replyHandlerRef.current = onReply && !isDeleted && message.status !== 'failed'
+    ? () => onReply(message)
+    : null;
+  const panResponder = useRef(PanResponder.create({
+    onMoveShouldSetPanResponder: (_, gesture) =>
+      !!replyHandlerRef.current && gesture.dx > 12 && Math.abs(gesture.dy) < 10,
+    onPanResponderMove: (_, gesture) => {
+      swipeX.setValue(Math.max(0, Math.min(gesture.dx, SWIPE_REPLY_MAX)));
+    },
+    onPanResponderRelease: (_, gesture) => {
+      if (gesture.dx >= SWIPE_REPLY_THRESHOLD) {
+        replyHandlerRef.current?.();
+      }
+      Animated.spring(swipeX, { toValue: 0, useNativeDriver: true }).start();
+    },
+    onPanResponderTerminate: () => {
+      Animated.spring(swipeX, { toValue: 0, useNativeDriver: true }).start();
+    },
+  })).current;
+
   // Use custom hooks
   const {
     showTranslation,
@@ -185,7 +223,26 @@ export const MessageBubble = memo(({
   };
 
   return (
-    <View style={[messageBubbleStyles.container, isSent ? messageBubbleStyles.sentContainer : messageBubbleStyles.receivedContainer]}>
+    <Animated.View
+      {...panResponder.panHandlers}
+      style={[
+        messageBubbleStyles.container,
+        isSent ? messageBubbleStyles.sentContainer : messageBubbleStyles.receivedContainer,
+        isHighlighted && { backgroundColor: theme.colors.primary + '20' },
+        { transform: [{ translateX: swipeX }] },
+      ]}
+    >
+      {/* Reply icon revealed while swiping */}
+      <Animated.View
+        pointerEvents="none"
+        style={[
+          messageBubbleStyles.swipeReplyIcon,
+          { opacity: swipeX.interpolate({ inputRange: [0, SWIPE_REPLY_THRESHOLD], outputRange: [0, 1] }) },
+        ]}
+      >
+        <Ionicons name="arrow-undo" size={20} color={theme.colors.textSecondary} />
+      </Animated.View>
+
       {/* Avatar (for received messages, first in group) */}
       {!isSent && (
         <View style={messageBubbleStyles.avatarContainer}>
@@ -257,6 +314,8 @@ export const MessageBubble = memo(({
           onSetShowFullImage={setShowFullImage}
           onSetImageLoading={setImageLoading}
           onSetImageDimensions={setImageDimensions}
+          replySenderName={replySenderName}
+          onReplyPreviewPress={onReplyPreviewPress}
         />
 
         {/* Timestamp, Status, and Reactions - Inside bubble, bottom right */}
@@ -286,6 +345,14 @@ export const MessageBubble = memo(({
           
           {/* Timestamp and Status on the right */}
           <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+            {!!message.editedAt && !isDeleted && (
+              <Text style={[
+                messageBubbleStyles.editedLabel,
+                { color: isSent ? 'rgba(255,255,255,0.8)' : theme.colors.textSecondary }
+              ]}>
+                edited
+              </Text>
+            )}
             <Text style={[
               { fontSize: 11 },
               { color: isSent ? 'rgba(255,255,255,1)' : theme.colors.textSecondary }
@@ -314,6 +381,27 @@ export const MessageBubble = memo(({
           </View>
         </View>
 
+        {/* Sub-thread replies */}
+        {!!message.threadReplyCount && !isDeleted && (
+          <Pressable
+            style={messageBubbleStyles.threadIndicator}
+            onPress={() => onOpenThread?.(message)}
+            hitSlop={6}
+          >
+            <Ionicons
+              name="chatbubbles-outline"
+              size={14}
+              color={isSent ? theme.colors.messageText : theme.colors.primary}
+            />
+            <Text style={[
+              messageBubbleStyles.threadIndicatorText,
+              { color: isSent ? theme.colors.messageText : theme.colors.primary }
+            ]}>
+              {message.threadReplyCount === 1 ? '1 reply' : `${message.threadReplyCount} replies`}
+            </Text>
+          </Pressable>
+        )}
+
         {/* Failed Message Actions */}
         {isSent && message.status === 'failed' && (
           <View style={messageBubbleStyles.failedActions}>
@@ -371,6 +459,8 @@ export const MessageBubble = memo(({
         messagePosition={messagePosition}
         onReaction={handleReaction}
         onCopy={handleCopyMessage}
+        onReply={onReply ? () => onReply(message) : undefined}
+        onMore={() => onLongPress?.(message)}
       />
 
       {/* AI Commands Menu - Long Press Menu */}
@@ -382,7 +472,7 @@ export const MessageBubble = memo(({
         onSummarize={handleAISummarize}
         onTranslate20={() => onTranslate20?.()}
       />
-    </View>
+    </Animated.View>
   );
 }, (prevProps, nextProps) => {
   // Custom comparison for memo
@@ -390,11 +480,15 @@ export const MessageBubble = memo(({
     prevProps.message.id === nextProps.message.id &&
     prevProps.message.status === nextProps.message.status &&
     prevProps.message.text === nextProps.message.text &&
+    prevProps.message.editedAt === nextProps.message.editedAt &&
     prevProps.message.imageUrl === nextProps.message.imageUrl &&
     prevProps.message.thumbnailUrl === nextProps.message.thumbnailUrl &&
     prevProps.message.caption === nextProps.message.caption &&
     prevProps.showAvatar === nextProps.showAvatar &&
     prevProps.showTimestamp === nextProps.showTimestamp &&
+    prevProps.isHighlighted === nextProps.isHighlighted &&
+    prevProps.replySenderName === nextProps.replySenderName &&
+    prevProps.message.threadReplyCount === nextProps.message.threadReplyCount &&
     JSON.stringify(prevProps.message.reactions || {}) === JSON.stringify(nextProps.message.reactions || {}) &&
     JSON.stringify(prevProps.message.deletedFor || []) === JSON.stringify(nextProps.message.deletedFor || []) &&
     JSON.stringify(prevProps.message.translations || {}) === JSON.stringify(nextProps.message.translations || {})
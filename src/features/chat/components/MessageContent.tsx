@@ -3,6 +3,9 @@ import { Message, MessageTranslation } from '@/shared/types';
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { ActivityIndicator, Dimensions, Image, Pressable, StyleSheet, Text, View } from 'react-native';
+import { FileAttachmentCard } from './FileAttachmentCard';
+import { PollView } from './PollView';
+import { VoiceMessagePlayer } from './VoiceMessagePlayer';
 
 interface MessageContentProps {
   message: Message;
@@ -25,6 +28,10 @@ interface MessageContentProps {
   onSetShowFullImage: (show: boolean) => void;
   onSetImageLoading: (loading: boolean) => void;
   onSetImageDimensions: (dimensions: { width: number; height: number }) => void;
+  
+  // Reply props
+  replySenderName?: string;
+  onReplyPreviewPress?: (messageId: string) => void;
 }
 
 export const MessageContent: React.FC<MessageContentProps> = ({
@@ -44,6 +51,8 @@ export const MessageContent: React.FC<MessageContentProps> = ({
   onSetShowFullImage,
   onSetImageLoading,
   onSetImageDimensions,
+  replySenderName,
+  onReplyPreviewPress,
 }) => {
   const theme = useTheme();
 
@@ -60,19 +69,26 @@ export const MessageContent: React.FC<MessageContentProps> = ({
 
   return (
     <>
-      {/* Quote/Reply Visual (for demonstration) - Shows on some sent messages */}
-      {isSent && message.text && message.text.includes('usually buy') && (
-        <View style={[styles.quotedMessage, { backgroundColor: 'rgba(0,0,0,0.08)' }]}>
+      {/* Quoted Message (quote-reply) - tap to jump to the original */}
+      {message.replyToId && message.replyPreview && (
+        <Pressable
+          style={[styles.quotedMessage, { backgroundColor: 'rgba(0,0,0,0.08)' }]}
+          onPress={() => onReplyPreviewPress?.(message.replyToId!)}
+          hitSlop={4}
+        >
           <View style={[styles.quotedBorder, { backgroundColor: theme.colors.primary }]} />
           <View style={styles.quotedContent}>
-            <Text style={[styles.quotedSender, { color: theme.colors.primary }]}>
-              Zaire Dorwart
+            <Text style={[styles.quotedSender, { color: theme.colors.primary }]} numberOfLines={1}>
+              {replySenderName || 'Unknown'}
             </Text>
-            <Text style={[styles.quotedText, { color: theme.colors.messageText }]} numberOfLines={1}>
-              Please help me find a good monitor for the...
+            <Text
+              style={[styles.quotedText, { color: isSent ? theme.colors.messageText : theme.colors.messageTextReceived }]}
+              numberOfLines={2}
+            >
+              {message.replyPreview.text}
             </Text>
           </View>
-        </View>
+        </Pressable>
       )}
       
       {/* Image Message */}
@@ -224,6 +240,41 @@ export const MessageContent: React.FC<MessageContentProps> = ({
         </Pressable>
       )}
       
+      {/* Voice Message - player plus server-side transcript (translated when available) */}
+      {message.type === 'voice' && message.audioUrl && (
+        <>
+          <VoiceMessagePlayer message={message} isSent={isSent} />
+          
+          {message.transcriptionStatus === 'pending' && !message.text && (
+            <Text style={[styles.transcriptStatus, {
+              color: isSent ? 'rgba(0,0,0,0.5)' : theme.colors.textSecondary,
+            }]}>
+              Transcribing…
+            </Text>
+          )}
+          
+          {!!message.text && (
+            <Text style={[
+              theme.typography.body,
+              styles.transcript,
+              { color: isSent ? theme.colors.messageText : theme.colors.messageTextReceived }
+            ]}>
+              {showTranslatedText && translatedText ? translatedText : message.text}
+            </Text>
+          )}
+        </>
+      )}
+      
+      {/* File Attachment */}
+      {message.type === 'file' && message.fileUrl && (
+        <FileAttachmentCard message={message} isSent={isSent} />
+      )}
+      
+      {/* Poll - live results, votes queued offline */}
+      {message.type === 'poll' && message.poll && (
+        <PollView message={message} isSent={isSent} />
+      )}
+      
       {/* Text Message */}
       {message.type === 'text' && message.text && (
         <>
@@ -330,6 +381,15 @@ const styles = StyleSheet.create({
   caption: {
     marginTop: 4,
   },
+  transcript: {
+    marginTop: 6,
+    fontSize: 14,
+  },
+  transcriptStatus: {
+    marginTop: 6,
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
   // Translation styles
   translationContainer: {
     marginBottom: 8,
@@ -7,16 +7,27 @@
  * - Character limit (4,096 chars)
  * - Send button with loading state
  * - Auto-grow height
+ * - Reply banner when quoting a message
+ * - Voice message recording (mic button when input is empty)
+ * - File attachments (documents, spreadsheets, archives)
+ * - Schedule send (long-press the send button)
+ * - Polls
  */
 
 import { IconButton } from '@/components/common';
-import { PresenceService } from '@/services/firebase';
+import { MAX_FILE_SIZE, PresenceService } from '@/services/firebase';
 import { useTheme } from '@/shared/hooks/useTheme';
+import { CreatePollData, MessageReplyPreview } from '@/shared/types';
 import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
 import * as ImagePicker from 'expo-image-picker';
 import { useEffect, useRef, useState } from 'react';
 import { Alert, Image, Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { formatDuration } from '../utils/messageUtils';
+import { CreatePollModal } from './CreatePollModal';
+import { ScheduleMessageModal } from './ScheduleMessageModal';
 import { TranslationOptionsModal } from './TranslationOptionsModal';
 
 interface MessageInputProps {
@@ -27,6 +38,10 @@ interface MessageInputProps {
     sentAsTranslation?: boolean;
   }) => void;
   onSendImage?: (imageUri: string, caption?: string) => void;
+  onSendVoice?: (audioUri: string, durationMs: number, waveform: number[]) => void;
+  onSendFile?: (fileUri: string, fileName: string, mimeType: string, fileSize: number) => void;
+  onScheduleSend?: (text: string, scheduledFor: number) => Promise<void>; // Enables long-press to schedule
+  onSendPoll?: (poll: CreatePollData) => Promise<void>; // Shows the poll button (not in encrypted chats)
   isSending?: boolean;
   placeholder?: string;
   chatId?: string;
@@ -34,8 +49,12 @@ interface MessageInputProps {
   userName?: string;
   preferredLanguage?: string; // User's preferred language for translation preview
   showTranslationPreview?: boolean; // Enable/disable real-time translation preview
+  aiEnabled?: boolean; // Server-side language detection & translate-before-send (off in encrypted chats)
   initialText?: string; // Initial text (for smart replies)
   onTextChange?: (text: string) => void; // Text change callback
+  replyPreview?: MessageReplyPreview | null; // Message being quoted
+  replySenderName?: string; // Display name of the quoted message's sender
+  onCancelReply?: () => void;
 }
 
 type TimeoutId = ReturnType<typeof setTimeout>;
@@ -47,6 +66,10 @@ const TYPING_TIMEOUT = 3000; // Stop typing indicator after 3 seconds
 export const MessageInput = ({
   onSend,
   onSendImage,
+  onSendVoice,
+  onSendFile,
+  onScheduleSend,
+  onSendPoll,
   isSending = false,
   placeholder = 'Type a message...',
   chatId,
@@ -54,8 +77,12 @@ export const MessageInput = ({
   userName,
   preferredLanguage = 'en',
   showTranslationPreview = false,
+  aiEnabled = true,
   initialText = '',
   onTextChange,
+  replyPreview,
+  replySenderName,
+  onCancelReply,
 }: MessageInputProps) => {
   const theme = useTheme();
   const insets = useSafeAreaInsets();
@@ -64,7 +91,14 @@ export const MessageInput = ({
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const typingTimeoutRef = useRef<TimeoutId | null>(null);
   const isTypingRef = useRef(false);
+  const voiceRecorder = useVoiceRecorder();
   
+  // Schedule send modal state
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+
+  // Create poll modal state
+  const [showPollModal, setShowPollModal] = useState(false);
+
   // Translation options modal state
   const [showTranslationModal, setShowTranslationModal] = useState(false);
   const [detectedInputLanguage, setDetectedInputLanguage] = useState<string>('en');
@@ -205,7 +239,7 @@ export const MessageInput = ({
       }, TYPING_TIMEOUT);
       
       // Detect input language for translation modal (earlier detection for better UX)
-      if (newText.trim().length >= 5) {
+      if (aiEnabled && newText.trim().length >= 5) {
         detectInputLanguage(newText.trim());
       }
     } else {
@@ -243,6 +277,45 @@ export const MessageInput = ({
     }
   };
 
+  // Handle document picker - files are sent immediately (no caption)
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+
+      if (result.canceled || !result.assets[0] || !onSendFile) return;
+
+      const file = result.assets[0];
+      if (file.size !== undefined && file.size > MAX_FILE_SIZE) {
+        Alert.alert('File Too Large', 'Files must be 25MB or smaller.');
+        return;
+      }
+
+      onSendFile(file.uri, file.name, file.mimeType || 'application/octet-stream', file.size || 0);
+    } catch (error) {
+      console.error('Error picking file:', error);
+      Alert.alert('Error', 'Failed to pick file');
+    }
+  };
+
+  // Stop recording and send the voice message
+  const handleSendVoice = async () => {
+    const recording = await voiceRecorder.stopRecording();
+    if (recording && onSendVoice) {
+      onSendVoice(recording.uri, recording.durationMs, recording.waveform);
+    }
+  };
+
+  // Auto-send when the maximum recording length is reached
+  useEffect(() => {
+    if (voiceRecorder.reachedLimit) {
+      handleSendVoice();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [voiceRecorder.reachedLimit]);
+
   // Send original message
   const handleSendOriginal = () => {
     if (isSending) return;
@@ -268,6 +341,29 @@ export const MessageInput = ({
     }
   };
   
+  // Long-press send: pick a delivery time for the current text
+  const handleOpenScheduleModal = () => {
+    if (isSending || selectedImage || !text.trim() || !onScheduleSend) return;
+    setShowScheduleModal(true);
+  };
+
+  // Schedule the current text; errors are surfaced by the caller
+  const handleScheduleSend = async (scheduledFor: number) => {
+    if (!onScheduleSend) return;
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    stopTyping();
+
+    await onScheduleSend(text.trim(), scheduledFor);
+    setText('');
+    setInputHeight(40);
+    if (onTextChange) {
+      onTextChange('');
+    }
+  };
+
   // Open translation options modal
   const handleOpenTranslationModal = async () => {
     if (!text.trim()) return;
@@ -343,6 +439,7 @@ export const MessageInput = ({
   const showCounter = text.length >= SHOW_COUNTER_AT;
   const isAtLimit = text.length >= MAX_LENGTH;
   const canSend = (text.trim().length > 0 || selectedImage) && !isSending;
+  const showMicButton = !!onSendVoice && !text.trim() && !selectedImage;
 
   // Language names map
   const languageNames: Record<string, string> = {
@@ -446,6 +543,24 @@ export const MessageInput = ({
       </Modal>
 
     
+      {/* Reply Banner */}
+      {replyPreview && (
+        <View style={[styles.replyBanner, { backgroundColor: theme.colors.backgroundInput }]}>
+          <View style={[styles.replyBannerBorder, { backgroundColor: theme.colors.primary }]} />
+          <View style={styles.replyBannerContent}>
+            <Text style={[styles.replyBannerSender, { color: theme.colors.primary }]} numberOfLines={1}>
+              Replying to {replySenderName || 'message'}
+            </Text>
+            <Text style={[styles.replyBannerText, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+              {replyPreview.text}
+            </Text>
+          </View>
+          <Pressable onPress={onCancelReply} hitSlop={8}>
+            <Ionicons name="close" size={20} color={theme.colors.textSecondary} />
+          </Pressable>
+        </View>
+      )}
+
       {/* Selected Image Preview */}
       {selectedImage && (
         <View style={styles.imagePreviewContainer}>
@@ -471,62 +586,131 @@ export const MessageInput = ({
         </View>
       )}
 
-      {/* Input Field */}
-      <View style={styles.inputRow}>
-        {/* Image Picker Button */}
-        <IconButton
-          icon="image"
-          size={24}
-          color={theme.colors.primary}
-          onPress={handlePickImage}
-          disabled={isSending}
-          style={styles.imageButton}
-        />
-
-        {/* Text Input */}
-        <View style={[styles.inputContainer, { backgroundColor: theme.colors.backgroundInput }]}>
-          <TextInput
-            style={[
-              styles.input,
-              { 
-                color: theme.colors.text,
-                height: Math.max(40, Math.min(inputHeight, 120))
-              },
-              theme.typography.body,
-            ]}
-            value={text}
-            onChangeText={handleTextChange}
-            placeholder={selectedImage ? 'Add a caption (optional)...' : placeholder}
-            placeholderTextColor={theme.colors.textSecondary}
-            multiline
-            maxLength={MAX_LENGTH}
-            onContentSizeChange={(e) => {
-              setInputHeight(e.nativeEvent.contentSize.height);
-            }}
-            editable={!isSending}
+      {/* Voice Recording Row */}
+      {voiceRecorder.isRecording && (
+        <View style={styles.inputRow}>
+          <IconButton
+            icon="trash"
+            size={24}
+            color={theme.colors.error}
+            onPress={voiceRecorder.cancelRecording}
+            style={styles.imageButton}
+          />
+          <View style={[styles.inputContainer, styles.recordingContainer, { backgroundColor: theme.colors.backgroundInput }]}>
+            <View style={[
+              styles.recordingDot,
+              { backgroundColor: theme.colors.error, transform: [{ scale: 1 + voiceRecorder.level * 0.6 }] },
+            ]} />
+            <Text style={[theme.typography.body, { color: theme.colors.text }]}>
+              {formatDuration(voiceRecorder.durationMs)}
+            </Text>
+          </View>
+          <IconButton
+            icon="send"
+            size={24}
+            color={theme.colors.primary}
+            onPress={handleSendVoice}
+            style={styles.sendButton}
           />
         </View>
+      )}
 
-        {/* Auto-Translate Button */}
-        <IconButton
-          icon="globe"
-          size={24}
-          color={text.trim().length > 0 ? theme.colors.primary : theme.colors.textSecondary}
-          onPress={handleOpenTranslationModal}
-          disabled={!text.trim() || isSending}
-          style={styles.translateButton}
-        />
+      {/* Input Field */}
+      {!voiceRecorder.isRecording && (
+        <View style={styles.inputRow}>
+          {/* Image Picker Button */}
+          <IconButton
+            icon="image"
+            size={24}
+            color={theme.colors.primary}
+            onPress={handlePickImage}
+            disabled={isSending}
+            style={styles.imageButton}
+          />
 
-        {/* Send Button */}
-        <IconButton
-          icon={isSending ? 'hourglass' : 'send'}
-          size={24}
-          color={canSend ? theme.colors.primary : theme.colors.textSecondary}
-          onPress={handleSendOriginal}
-          disabled={!canSend}
-          style={styles.sendButton}
-        />
-      </View>
+          {/* File Picker Button */}
+          {onSendFile && (
+            <IconButton
+              icon="attach"
+              size={24}
+              color={theme.colors.primary}
+              onPress={handlePickFile}
+              disabled={isSending || !!selectedImage}
+              style={styles.imageButton}
+            />
+          )}
+
+          {/* Poll Button */}
+          {onSendPoll && (
+            <IconButton
+              icon="stats-chart"
+              size={24}
+              color={theme.colors.primary}
+              onPress={() => setShowPollModal(true)}
+              disabled={isSending || !!selectedImage}
+              style={styles.imageButton}
+            />
+          )}
+
+          {/* Text Input */}
+          <View style={[styles.inputContainer, { backgroundColor: theme.colors.backgroundInput }]}>
+            <TextInput
+              style={[
+                styles.input,
+                { 
+                  color: theme.colors.text,
+                  height: Math.max(40, Math.min(inputHeight, 120))
+                },
+                theme.typography.body,
+              ]}
+              value={text}
+              onChangeText={handleTextChange}
+              placeholder={selectedImage ? 'Add a caption (optional)...' : placeholder}
+              placeholderTextColor={theme.colors.textSecondary}
+              multiline
+              maxLength={MAX_LENGTH}
+              onContentSizeChange={(e) => {
+                setInputHeight(e.nativeEvent.contentSize.height);
+              }}
+              editable={!isSending}
+            />
+          </View>
+
+          {/* Auto-Translate Button */}
+          {aiEnabled && (
+            <IconButton
+              icon="globe"
+              size={24}
+              color={text.trim().length > 0 ? theme.colors.primary : theme.colors.textSecondary}
+              onPress={handleOpenTranslationModal}
+              disabled={!text.trim() || isSending}
+              style={styles.translateButton}
+            />
+          )}
+
+          {/* Send Button (mic when there's nothing to send) */}
+          {showMicButton ? (
+            <IconButton
+              icon="mic"
+              size={24}
+              color={theme.colors.primary}
+              onPress={voiceRecorder.startRecording}
+              disabled={isSending}
+              style={styles.sendButton}
+            />
+          ) : (
+            <IconButton
+              icon={isSending ? 'hourglass' : 'send'}
+              size={24}
+              color={canSend ? theme.colors.primary : theme.colors.textSecondary}
+              onPress={handleSendOriginal}
+              onLongPress={onScheduleSend ? handleOpenScheduleModal : undefined}
+              disabled={!canSend}
+              style={styles.sendButton}
+            />
+          )}
+        </View>
+      )}
 
       {/* Translation Options Modal */}
       <TranslationOptionsModal
@@ -534,9 +718,29 @@ export const MessageInput = ({
         originalText={text}
         originalLanguage={detectedInputLanguage}
         chatLanguages={chatLanguages}
+        chatId={chatId}
+        userId={userId}
         onClose={() => setShowTranslationModal(false)}
         onSelectOption={handleSelectTranslationOption}
       />
+
+      {/* Schedule Send Modal */}
+      {onScheduleSend && (
+        <ScheduleMessageModal
+          visible={showScheduleModal}
+          onConfirm={handleScheduleSend}
+          onClose={() => setShowScheduleModal(false)}
+        />
+      )}
+
+      {/* Create Poll Modal */}
+      {onSendPoll && (
+        <CreatePollModal
+          visible={showPollModal}
+          onConfirm={onSendPoll}
+          onClose={() => setShowPollModal(false)}
+        />
+      )}
     </View>
   );
 };
@@ -547,6 +751,31 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingTop: 12,
   },
+  // Reply Banner
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+    gap: 8,
+  },
+  replyBannerBorder: {
+    width: 3,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+  },
+  replyBannerContent: {
+    flex: 1,
+  },
+  replyBannerSender: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  replyBannerText: {
+    fontSize: 13,
+  },
   // Language Selector Modal
   modalBackdrop: {
     flex: 1,
@@ -791,6 +1020,19 @@ const styles = StyleSheet.create({
   sendButton: {
     marginBottom: 4,
   },
+  // Voice recording
+  recordingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-start',
+    gap: 10,
+    minHeight: 40,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
   // Send Choice Buttons
   sendButtonsContainer: {
     flexDirection: 'row',
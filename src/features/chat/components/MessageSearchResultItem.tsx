@@ -0,0 +1,108 @@
+/**
+ * MessageSearchResultItem - One hit in the offline message search
+ * Shows the chat, sender, date and the matching excerpt with matches highlighted
+ */
+
+import { Avatar } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import { MessageSearchResult } from '@/shared/types';
+import { splitHighlights } from '@/shared/utils/MessageSearch';
+import { format, isThisYear, isToday, isYesterday } from 'date-fns';
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+interface MessageSearchResultItemProps {
+  result: MessageSearchResult;
+  chatName: string;
+  chatAvatar?: string | null;
+  senderName: string;
+  onPress: (result: MessageSearchResult) => void;
+}
+
+const formatResultDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  if (isToday(date)) {
+    return format(date, 'h:mm a');
+  } else if (isYesterday(date)) {
+    return 'Yesterday';
+  } else if (isThisYear(date)) {
+    return format(date, 'MMM d');
+  }
+  return format(date, 'MMM d, yyyy');
+};
+
+const MessageSearchResultItemComponent = ({
+  result,
+  chatName,
+  chatAvatar,
+  senderName,
+  onPress,
+}: MessageSearchResultItemProps) => {
+  const theme = useTheme();
+  const parts = React.useMemo(() => splitHighlights(result.snippet), [result.snippet]);
+
+  return (
+    <Pressable
+      style={({ pressed }) => [
+        styles.container,
+        { borderBottomColor: theme.colors.border },
+        pressed && { backgroundColor: theme.colors.surfaceVariant },
+      ]}
+      onPress={() => onPress(result)}
+    >
+      <Avatar name={chatName} imageUrl={chatAvatar} size={44} />
+
+      <View style={styles.content}>
+        <View style={styles.topRow}>
+          <Text style={[theme.typography.bodyBold, styles.chatName, { color: theme.colors.text }]} numberOfLines={1}>
+            {chatName}
+          </Text>
+          <Text style={[theme.typography.caption, { color: theme.colors.textSecondary }]}>
+            {formatResultDate(result.timestamp)}
+          </Text>
+        </View>
+
+        <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]} numberOfLines={2}>
+          <Text style={{ fontWeight: '600' }}>{senderName}: </Text>
+          {parts.map((part, index) => (
+            <Text
+              key={index}
+              style={part.highlighted ? [styles.highlight, { color: theme.colors.text, backgroundColor: theme.colors.primary + '30' }] : undefined}
+            >
+              {part.text}
+            </Text>
+          ))}
+        </Text>
+      </View>
+    </Pressable>
+  );
+};
+
+export const MessageSearchResultItem = React.memo(MessageSearchResultItemComponent);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  topRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+    gap: 8,
+  },
+  chatName: {
+    flex: 1,
+  },
+  highlight: {
+    fontWeight: '700',
+  },
+});
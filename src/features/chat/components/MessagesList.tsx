@@ -2,7 +2,7 @@
  * MessagesList Component
  * 
  * FlashList component for displaying chat messages with:
- * - Message rendering
+ * - Message rendering (system messages as centered notes)
  * - Scroll handling
  * - Jump to bottom button
  * - Loading overlay
@@ -17,6 +17,7 @@ import { ActivityIndicator, Animated, Platform, Pressable, StyleSheet, Text, Vie
 import { ListItem, shouldShowAvatar } from '../utils/messageUtils';
 import { DateSeparator } from './DateSeparator';
 import { MessageBubble } from './MessageBubble';
+import { SystemMessage } from './SystemMessage';
 import { TypingIndicator } from './TypingIndicator';
 
 interface MessagesListProps {
@@ -35,6 +36,7 @@ interface MessagesListProps {
   flashListRef: React.RefObject<any>;
   showJumpToBottom: boolean;
   isReady: boolean;
+  highlightedMessageId?: string | null;
   
   // Typing indicators
   typingUsers: { userName: string }[];
@@ -50,6 +52,9 @@ interface MessagesListProps {
   onTranslate20: () => void;
   onCopyMessage: (message: Message) => void;
   onCulturalAnalysis: (message: Message) => void;
+  onReply?: (message: Message) => void;
+  onReplyPreviewPress?: (messageId: string) => void;
+  onOpenThread?: (message: Message) => void;
 }
 
 export const MessagesList: React.FC<MessagesListProps> = ({
@@ -63,6 +68,7 @@ export const MessagesList: React.FC<MessagesListProps> = ({
   flashListRef,
   showJumpToBottom,
   isReady,
+  highlightedMessageId,
   typingUsers,
   onScroll,
   onJumpToBottom,
@@ -74,6 +80,9 @@ export const MessagesList: React.FC<MessagesListProps> = ({
   onTranslate20,
   onCopyMessage,
   onCulturalAnalysis,
+  onReply,
+  onReplyPreviewPress,
+  onOpenThread,
 }) => {
   const theme = useTheme();
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -103,8 +112,16 @@ export const MessagesList: React.FC<MessagesListProps> = ({
     
     // Message
     const message = item.data;
+    if (message.type === 'system') {
+      return <SystemMessage message={message} />;
+    }
+    
     const showAvatar = shouldShowAvatar(listItems, index);
     const senderProfile = message.senderId !== userId ? getUserProfile(message.senderId) : null;
+    const replySenderId = message.replyPreview?.senderId;
+    const replySenderName = replySenderId
+      ? (replySenderId === userId ? 'You' : getUserProfile(replySenderId)?.displayName)
+      : undefined;
     
     return (
       <MessageBubble
@@ -126,6 +143,11 @@ export const MessagesList: React.FC<MessagesListProps> = ({
         onTranslate20={onTranslate20}
         onCopyMessage={onCopyMessage}
         onCulturalAnalysis={onCulturalAnalysis}
+        replySenderName={replySenderName}
+        isHighlighted={message.id === highlightedMessageId}
+        onReply={onReply}
+        onReplyPreviewPress={onReplyPreviewPress}
+        onOpenThread={onOpenThread}
       />
     );
   }, [
@@ -143,6 +165,10 @@ export const MessagesList: React.FC<MessagesListProps> = ({
     onTranslate20,
     onCopyMessage,
     onCulturalAnalysis,
+    highlightedMessageId,
+    onReply,
+    onReplyPreviewPress,
+    onOpenThread,
   ]);
 
   // Get item type for FlashList optimization
@@ -164,6 +190,7 @@ export const MessagesList: React.FC<MessagesListProps> = ({
               : `${item.type}-${index}`
           }
           getItemType={getItemType}
+          extraData={highlightedMessageId}
           estimatedItemSize={80}
           drawDistance={800}
           estimatedListSize={{ height: 600, width: 400 }}
@@ -0,0 +1,262 @@
+/**
+ * PollView - Poll message with live results
+ *
+ * Features:
+ * - Tap an option to vote (tap again to retract); several options in
+ *   multiple-choice polls
+ * - Results update as votes come in (and right away for your own vote,
+ *   even offline - MessageQueue sends it later)
+ * - Who voted for what, unless the poll is anonymous
+ * - Closing time, and "Close poll" for its creator
+ */
+
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { Message } from '@/shared/types';
+import { getPollResults, isPollClosed } from '@/shared/utils';
+import { useAuthStore, useChatStore } from '@/store';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+
+interface PollViewProps {
+  message: Message;
+  isSent: boolean;
+}
+
+const NO_VOTE: string[] = [];
+
+/**
+ * "Closes Mon 14:00" / "Closed" line under the question
+ */
+const formatClosing = (closesAt: number | null, closed: boolean): string | null => {
+  if (closed) {
+    return 'Closed';
+  }
+  if (closesAt === null) {
+    return null;
+  }
+  const date = new Date(closesAt);
+  return `Closes ${date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} ${date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export const PollView: React.FC<PollViewProps> = ({ message, isSent }) => {
+  const theme = useTheme();
+  const { user } = useAuthStore();
+  const myVote = useChatStore((state) => state.pollVotes[message.id]) || NO_VOTE;
+  const votePoll = useChatStore((state) => state.votePoll);
+  const closePoll = useChatStore((state) => state.closePoll);
+  const loadPollVote = useChatStore((state) => state.loadPollVote);
+  const getUserProfile = useChatStore((state) => state.getUserProfile);
+  const [now, setNow] = useState(Date.now());
+
+  const poll = message.poll!;
+  const closed = isPollClosed(poll, now);
+  const hasVoted = myVote.length > 0;
+  const isCreator = message.senderId === user?.id;
+
+  const foregroundColor = isSent ? theme.colors.messageText : theme.colors.messageTextReceived;
+  const secondaryColor = isSent ? 'rgba(0,0,0,0.5)' : theme.colors.textSecondary;
+  const trackColor = isSent ? 'rgba(0,0,0,0.1)' : 'rgba(0,0,0,0.06)';
+  const fillColor = isSent ? 'rgba(0,0,0,0.18)' : theme.colors.primary + '33';
+
+  useEffect(() => {
+    if (user?.id) {
+      loadPollVote(message.chatId, message.id, user.id);
+    }
+  }, [message.chatId, message.id, user?.id, loadPollVote]);
+
+  // Re-render when the closing time passes
+  useEffect(() => {
+    if (poll.closesAt === null || poll.closedAt !== null || poll.closesAt <= Date.now()) {
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), poll.closesAt - Date.now() + 100);
+    return () => clearTimeout(timer);
+  }, [poll.closesAt, poll.closedAt]);
+
+  const handleVote = useCallback(async (optionId: string) => {
+    if (!user?.id || closed) {
+      return;
+    }
+
+    let optionIds: string[];
+    if (myVote.includes(optionId)) {
+      optionIds = myVote.filter((id) => id !== optionId);
+    } else {
+      optionIds = poll.allowsMultipleChoices ? [...myVote, optionId] : [optionId];
+    }
+
+    try {
+      await votePoll(message.chatId, message.id, user.id, optionIds);
+    } catch (error) {
+      Alert.alert('Vote Failed', (error as Error).message || 'Please try again.');
+    }
+  }, [user?.id, closed, myVote, poll.allowsMultipleChoices, votePoll, message.chatId, message.id]);
+
+  const handleClose = useCallback(() => {
+    Alert.alert('Close Poll', 'No one will be able to vote after the poll is closed.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Close Poll',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await closePoll(message.chatId, message.id);
+          } catch (error) {
+            Alert.alert('Error', (error as Error).message || 'Failed to close the poll.');
+          }
+        },
+      },
+    ]);
+  }, [closePoll, message.chatId, message.id]);
+
+  const voterNames = (optionId: string): string | null => {
+    const voterIds = poll.voters?.[optionId];
+    if (!voterIds?.length) {
+      return null;
+    }
+    return voterIds
+      .map((id) => (id === user?.id ? 'You' : getUserProfile(id)?.displayName || 'Unknown'))
+      .join(', ');
+  };
+
+  const showResults = hasVoted || closed || isCreator;
+  const closingText = formatClosing(poll.closesAt, closed);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="stats-chart" size={14} color={secondaryColor} />
+        <Text style={[styles.kind, { color: secondaryColor }]}>
+          {poll.anonymous ? 'Anonymous poll' : 'Poll'}
+          {poll.allowsMultipleChoices ? ' · Select one or more' : ''}
+        </Text>
+      </View>
+
+      <Text style={[styles.question, { color: foregroundColor }]}>{poll.question}</Text>
+
+      {getPollResults(poll).map((result) => {
+        const selected = myVote.includes(result.id);
+        const names = showResults && !poll.anonymous ? voterNames(result.id) : null;
+
+        return (
+          <Pressable
+            key={result.id}
+            onPress={() => handleVote(result.id)}
+            disabled={closed}
+            style={[styles.option, { backgroundColor: trackColor }]}
+            accessibilityRole={poll.allowsMultipleChoices ? 'checkbox' : 'radio'}
+            accessibilityState={{ checked: selected, disabled: closed }}
+          >
+            {showResults && (
+              <View style={[styles.fill, { width: `${result.percentage}%`, backgroundColor: fillColor }]} />
+            )}
+            <View style={styles.optionRow}>
+              <Ionicons
+                name={selected
+                  ? (poll.allowsMultipleChoices ? 'checkbox' : 'radio-button-on')
+                  : (poll.allowsMultipleChoices ? 'square-outline' : 'radio-button-off')}
+                size={18}
+                color={selected ? theme.colors.primary : secondaryColor}
+              />
+              <Text style={[styles.optionText, { color: foregroundColor }, result.isLeading && closed && styles.winner]}>
+                {result.text}
+              </Text>
+              {showResults && (
+                <Text style={[styles.count, { color: secondaryColor }]}>
+                  {result.percentage}% · {result.count}
+                </Text>
+              )}
+            </View>
+            {names && (
+              <Text style={[styles.voters, { color: secondaryColor }]} numberOfLines={2}>
+                {names}
+              </Text>
+            )}
+          </Pressable>
+        );
+      })}
+
+      <View style={styles.footer}>
+        <Text style={[styles.footerText, { color: secondaryColor }]}>
+          {poll.voterCount} {poll.voterCount === 1 ? 'vote' : 'votes'}
+          {closingText ? ` · ${closingText}` : ''}
+        </Text>
+        {isCreator && !closed && message.syncStatus !== 'pending' && (
+          <Pressable onPress={handleClose} hitSlop={8}>
+            <Text style={[styles.closeButton, { color: theme.colors.primary }]}>Close poll</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    minWidth: 220,
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  kind: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  question: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  option: {
+    borderRadius: 8,
+    overflow: 'hidden',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  fill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  winner: {
+    fontWeight: '700',
+  },
+  count: {
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  voters: {
+    fontSize: 11,
+    marginTop: 4,
+    marginLeft: 26,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  footerText: {
+    fontSize: 11,
+  },
+  closeButton: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -21,6 +21,8 @@ interface QuickActionsPopoverProps {
   messagePosition: { x: number; y: number; width: number; height: number };
   onReaction: (emoji: string) => void;
   onCopy: () => void;
+  onReply?: () => void; // Start a quote-reply
+  onMore?: () => void; // Open the full message options sheet
 }
 
 const QUICK_EMOJIS = ['❤️', '😂', '👍', '🔥'];
@@ -32,6 +34,8 @@ export const QuickActionsPopover: React.FC<QuickActionsPopoverProps> = ({
   messagePosition,
   onReaction,
   onCopy,
+  onReply,
+  onMore,
 }) => {
   const theme = useTheme();
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -142,7 +146,32 @@ export const QuickActionsPopover: React.FC<QuickActionsPopoverProps> = ({
                <Ionicons name="copy-outline" size={18} color="#000000" />
                <Text style={styles.actionText}>Copy</Text>
              </Pressable>
-             
+
+             {onReply && (
+               <Pressable
+                 style={[styles.actionButton, { backgroundColor: '#F8F9FA' }]}
+                 onPress={() => {
+                   onReply();
+                   onClose();
+                 }}
+               >
+                 <Ionicons name="arrow-undo-outline" size={18} color="#000000" />
+                 <Text style={styles.actionText}>Reply</Text>
+               </Pressable>
+             )}
+
+             {onMore && (
+               <Pressable
+                 style={[styles.actionButton, { backgroundColor: '#F8F9FA' }]}
+                 onPress={() => {
+                   onClose();
+                   onMore();
+                 }}
+               >
+                 <Ionicons name="ellipsis-horizontal" size={18} color="#000000" />
+                 <Text style={styles.actionText}>More</Text>
+               </Pressable>
+             )}
            </View>
 
            {/* Arrow pointing to message */}
@@ -0,0 +1,138 @@
+/**
+ * ReadReceiptsSheet - "Seen by" for a group message
+ *
+ * Features:
+ * - Members who read the message, then those it was only delivered to
+ * - Members it hasn't reached yet
+ * - Updates live as members read (receipts come from their read watermarks)
+ */
+
+import { Avatar } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { Message } from '@/shared/types';
+import { getMessageReceipts } from '@/shared/utils/ReadReceipts';
+import { useChatStore } from '@/store';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+interface ReadReceiptsSheetProps {
+  visible: boolean;
+  message: Message | null;
+  onClose: () => void;
+}
+
+export const ReadReceiptsSheet = ({ visible, message, onClose }: ReadReceiptsSheetProps) => {
+  const theme = useTheme();
+  const readStates = useChatStore(state => state.readStates);
+  const getUserProfile = useChatStore(state => state.getUserProfile);
+
+  const receipts = React.useMemo(
+    () => (message ? getMessageReceipts(message, readStates) : null),
+    [message, readStates]
+  );
+
+  if (!message || !receipts) return null;
+
+  const sections = [
+    { title: 'Read by', icon: 'checkmark-done' as const, color: theme.colors.primary, userIds: receipts.readBy },
+    { title: 'Delivered to', icon: 'checkmark-done' as const, color: theme.colors.textSecondary, userIds: receipts.deliveredTo },
+    { title: 'Waiting', icon: 'time-outline' as const, color: theme.colors.textSecondary, userIds: receipts.pending },
+  ].filter(section => section.userIds.length > 0);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={[styles.sheet, { backgroundColor: theme.colors.surface }]} onPress={() => {}}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>Seen By</Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView>
+            {sections.length === 0 && (
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+                No one else was in the group when this message was sent.
+              </Text>
+            )}
+
+            {sections.map(section => (
+              <View key={section.title} style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Ionicons name={section.icon} size={16} color={section.color} />
+                  <Text style={[theme.typography.bodySmall, styles.sectionTitle, { color: theme.colors.textSecondary }]}>
+                    {section.title} · {section.userIds.length}
+                  </Text>
+                </View>
+
+                {section.userIds.map(memberId => {
+                  const profile = getUserProfile(memberId);
+                  const name = profile?.displayName || 'Unknown';
+                  return (
+                    <View key={memberId} style={[styles.memberRow, { borderBottomColor: theme.colors.border }]}>
+                      <Avatar name={name} imageUrl={profile?.profilePictureUrl} size="small" />
+                      <Text style={[theme.typography.body, { color: theme.colors.text }]} numberOfLines={1}>
+                        {name}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '70%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 34,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+});
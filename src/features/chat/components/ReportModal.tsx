@@ -0,0 +1,224 @@
+/**
+ * ReportModal - Report a message or user to the moderators
+ *
+ * Features:
+ * - Reason picker and optional details
+ * - "Also block" toggle (on by default, hidden if already blocked)
+ * - Warns that an encrypted message's text will be shared with moderators
+ */
+
+import { Button } from '@/components/common';
+import { REPORT_REASONS } from '@/services/firebase';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { ReportReason } from '@/shared/types';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import type { ReportTarget } from '../hooks/useChatModals';
+
+const MAX_DETAILS_LENGTH = 1000;
+
+interface ReportModalProps {
+  visible: boolean;
+  target: ReportTarget | null;
+  isEncrypted: boolean;
+  isBlocked: boolean;
+  onSubmit: (reason: ReportReason, details: string, alsoBlock: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ReportModal = ({
+  visible,
+  target,
+  isEncrypted,
+  isBlocked,
+  onSubmit,
+  onClose,
+}: ReportModalProps) => {
+  const theme = useTheme();
+  const [reason, setReason] = React.useState<ReportReason | null>(null);
+  const [details, setDetails] = React.useState('');
+  const [alsoBlock, setAlsoBlock] = React.useState(true);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+      setAlsoBlock(true);
+    }
+  }, [visible, target]);
+
+  if (!target) return null;
+
+  const isMessageReport = !!target.message;
+
+  const handleSubmit = async () => {
+    if (!reason || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(reason, details, alsoBlock && !isBlocked);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              {isMessageReport ? 'Report Message' : `Report ${target.userName}`}
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={[theme.typography.bodySmall, styles.hint, { color: theme.colors.textSecondary }]}>
+              {isEncrypted && isMessageReport
+                ? 'This chat is end-to-end encrypted. Reporting shares this message with our moderators so they can review it.'
+                : `Our moderators will review ${isMessageReport ? 'this message' : 'recent messages from this user'}. ${target.userName} won't know who reported them.`}
+            </Text>
+
+            {/* Reasons */}
+            {REPORT_REASONS.map(option => {
+              const selected = reason === option.reason;
+              return (
+                <Pressable
+                  key={option.reason}
+                  style={[styles.reasonRow, { borderBottomColor: theme.colors.border }]}
+                  onPress={() => setReason(option.reason)}
+                >
+                  <Ionicons
+                    name={selected ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={selected ? theme.colors.primary : theme.colors.textSecondary}
+                  />
+                  <Text style={[theme.typography.body, { color: theme.colors.text }]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+
+            {/* Details */}
+            <TextInput
+              style={[
+                styles.detailsInput,
+                theme.typography.body,
+                {
+                  color: theme.colors.text,
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              value={details}
+              onChangeText={setDetails}
+              placeholder="Add details (optional)"
+              placeholderTextColor={theme.colors.textSecondary}
+              multiline
+              maxLength={MAX_DETAILS_LENGTH}
+              textAlignVertical="top"
+            />
+
+            {/* Also block */}
+            {!isBlocked && (
+              <Pressable style={styles.blockRow} onPress={() => setAlsoBlock(value => !value)}>
+                <Ionicons
+                  name={alsoBlock ? 'checkbox' : 'square-outline'}
+                  size={20}
+                  color={alsoBlock ? theme.colors.primary : theme.colors.textSecondary}
+                />
+                <Text style={[theme.typography.body, { color: theme.colors.text }]}>
+                  Also block {target.userName}
+                </Text>
+              </Pressable>
+            )}
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={onClose}
+              style={{ flex: 1, marginRight: 8 }}
+            />
+            <Button
+              title="Report"
+              onPress={handleSubmit}
+              disabled={!reason || isSubmitting}
+              loading={isSubmitting}
+              style={{ flex: 1, marginLeft: 8 }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    marginBottom: 20,
+  },
+  hint: {
+    marginBottom: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  detailsInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+    minHeight: 80,
+  },
+  blockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 16,
+    gap: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+});
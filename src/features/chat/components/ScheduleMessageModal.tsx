@@ -0,0 +1,280 @@
+/**
+ * ScheduleMessageModal - Pick a delivery time for a scheduled message
+ *
+ * Features:
+ * - Quick presets (in 1 hour, this evening, tomorrow morning)
+ * - Custom day (next 7 days) and time (15-minute steps)
+ * - Used both for scheduling a new message and rescheduling a pending one
+ */
+
+import { Button } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { formatScheduledTime } from '../utils/messageUtils';
+
+const MINUTE_STEP = 15;
+const DAYS_AHEAD = 7;
+const MIN_LEAD_TIME_MS = 2 * 60 * 1000; // Leave time for the once-a-minute delivery run
+
+interface ScheduleMessageModalProps {
+  visible: boolean;
+  title?: string;
+  confirmTitle?: string;
+  initialTime?: number | null;
+  onConfirm: (scheduledFor: number) => Promise<void> | void;
+  onClose: () => void;
+}
+
+/**
+ * Next quarter hour at least an hour from now (default custom time)
+ */
+const getDefaultTime = (): number => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(Math.ceil(date.getMinutes() / MINUTE_STEP) * MINUTE_STEP, 0, 0);
+  return date.getTime();
+};
+
+const atTime = (daysFromToday: number, hours: number, minutes: number = 0): number => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+};
+
+const getPresets = (): { label: string; time: number }[] => {
+  const now = Date.now();
+  const presets = [
+    { label: 'In 1 hour', time: now + 60 * 60 * 1000 },
+    { label: 'This evening', time: atTime(0, 18) },
+    { label: 'Tomorrow morning', time: atTime(1, 9) },
+  ];
+  return presets.filter((preset) => preset.time > now + MIN_LEAD_TIME_MS);
+};
+
+const getDayLabel = (offset: number): string => {
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  return new Date(atTime(offset, 0)).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+};
+
+export const ScheduleMessageModal = ({
+  visible,
+  title = 'Schedule Message',
+  confirmTitle = 'Schedule',
+  initialTime,
+  onConfirm,
+  onClose,
+}: ScheduleMessageModalProps) => {
+  const theme = useTheme();
+  const [selectedTime, setSelectedTime] = React.useState(initialTime || getDefaultTime());
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (visible) {
+      setSelectedTime(initialTime || getDefaultTime());
+    }
+  }, [visible, initialTime]);
+
+  const selectedDate = new Date(selectedTime);
+  const selectedDayOffset = Math.round(
+    (new Date(selectedTime).setHours(0, 0, 0, 0) - new Date().setHours(0, 0, 0, 0)) / (24 * 60 * 60 * 1000)
+  );
+  const isInFuture = selectedTime > Date.now() + MIN_LEAD_TIME_MS;
+
+  const handleSelectDay = (offset: number) => {
+    setSelectedTime(atTime(offset, selectedDate.getHours(), selectedDate.getMinutes()));
+  };
+
+  const handleStep = (minutes: number) => {
+    setSelectedTime((time) => time + minutes * 60 * 1000);
+  };
+
+  const handleConfirm = async (time: number) => {
+    if (time <= Date.now() + MIN_LEAD_TIME_MS) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm(time);
+      onClose();
+    } catch {
+      // Caller surfaces the error; keep the modal open to pick another time
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const timeLabel = selectedDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              {title}
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          {/* Presets */}
+          {getPresets().map((preset) => (
+            <Pressable
+              key={preset.label}
+              onPress={() => handleConfirm(preset.time)}
+              disabled={isSaving}
+              style={[styles.presetRow, { borderBottomColor: theme.colors.border }]}
+            >
+              <Text style={[theme.typography.body, { color: theme.colors.text }]}>{preset.label}</Text>
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]}>
+                {formatScheduledTime(preset.time)}
+              </Text>
+            </Pressable>
+          ))}
+
+          {/* Custom day */}
+          <Text style={[theme.typography.label, styles.sectionLabel, { color: theme.colors.textSecondary }]}>
+            Custom
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayChips}>
+            {Array.from({ length: DAYS_AHEAD }, (_, offset) => {
+              const isSelected = offset === selectedDayOffset;
+              return (
+                <Pressable
+                  key={offset}
+                  onPress={() => handleSelectDay(offset)}
+                  style={[
+                    styles.dayChip,
+                    {
+                      backgroundColor: isSelected ? theme.colors.primary : theme.colors.background,
+                      borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+                    },
+                  ]}
+                >
+                  <Text style={[theme.typography.bodySmall, { color: isSelected ? theme.colors.textOnPrimary : theme.colors.text }]}>
+                    {getDayLabel(offset)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          {/* Custom time */}
+          <View style={styles.timeRow}>
+            <Pressable onPress={() => handleStep(-60)} style={styles.stepButton}>
+              <Ionicons name="play-back" size={18} color={theme.colors.primary} />
+            </Pressable>
+            <Pressable onPress={() => handleStep(-MINUTE_STEP)} style={styles.stepButton}>
+              <Ionicons name="remove-circle-outline" size={26} color={theme.colors.primary} />
+            </Pressable>
+            <Text style={[theme.typography.h3, styles.timeLabel, { color: isInFuture ? theme.colors.text : theme.colors.error }]}>
+              {timeLabel}
+            </Text>
+            <Pressable onPress={() => handleStep(MINUTE_STEP)} style={styles.stepButton}>
+              <Ionicons name="add-circle-outline" size={26} color={theme.colors.primary} />
+            </Pressable>
+            <Pressable onPress={() => handleStep(60)} style={styles.stepButton}>
+              <Ionicons name="play-forward" size={18} color={theme.colors.primary} />
+            </Pressable>
+          </View>
+          <Text style={[theme.typography.caption, styles.summary, { color: isInFuture ? theme.colors.textSecondary : theme.colors.error }]}>
+            {isInFuture ? formatScheduledTime(selectedTime) : 'Pick a time in the future'}
+          </Text>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <Button
+              title="Cancel"
+              variant="outline"
+              onPress={onClose}
+              style={{ flex: 1, marginRight: 8 }}
+            />
+            <Button
+              title={confirmTitle}
+              onPress={() => handleConfirm(selectedTime)}
+              disabled={!isInFuture || isSaving}
+              loading={isSaving}
+              style={{ flex: 1, marginLeft: 8 }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  sectionLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  dayChips: {
+    gap: 8,
+  },
+  dayChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  stepButton: {
+    padding: 6,
+  },
+  timeLabel: {
+    minWidth: 110,
+    textAlign: 'center',
+  },
+  summary: {
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+});
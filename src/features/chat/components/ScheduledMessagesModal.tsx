@@ -0,0 +1,290 @@
+/**
+ * ScheduledMessagesModal - List of the user's scheduled messages in a chat
+ *
+ * Features:
+ * - Delivery time, text and failure state for each message
+ * - Edit text inline, reschedule, or cancel (with confirmation)
+ * - Messages being delivered are read-only
+ */
+
+import { Button } from '@/components/common';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { ScheduledMessage, UpdateScheduledMessageData } from '@/shared/types';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { Alert, FlatList, Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { formatScheduledTime } from '../utils/messageUtils';
+import { ScheduleMessageModal } from './ScheduleMessageModal';
+
+const MAX_MESSAGE_LENGTH = 4096;
+
+interface ScheduledMessagesModalProps {
+  visible: boolean;
+  scheduledMessages: ScheduledMessage[];
+  onUpdate: (scheduledMessageId: string, updates: UpdateScheduledMessageData) => Promise<void>;
+  onCancel: (scheduledMessageId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ScheduledMessagesModal = ({
+  visible,
+  scheduledMessages,
+  onUpdate,
+  onCancel,
+  onClose,
+}: ScheduledMessagesModalProps) => {
+  const theme = useTheme();
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editText, setEditText] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [reschedulingMessage, setReschedulingMessage] = React.useState<ScheduledMessage | null>(null);
+
+  React.useEffect(() => {
+    if (!visible) {
+      setEditingId(null);
+      setReschedulingMessage(null);
+    }
+  }, [visible]);
+
+  const handleStartEdit = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setEditText(message.text);
+  };
+
+  const handleSaveEdit = async (message: ScheduledMessage) => {
+    const trimmedText = editText.trim();
+    if (!trimmedText || trimmedText === message.text) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onUpdate(message.id, { text: trimmedText });
+      setEditingId(null);
+    } catch {
+      Alert.alert('Error', 'Failed to update scheduled message. It may already have been sent.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReschedule = async (scheduledFor: number) => {
+    if (!reschedulingMessage) return;
+
+    try {
+      await onUpdate(reschedulingMessage.id, { scheduledFor });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to reschedule message. It may already have been sent.');
+      throw error;
+    }
+  };
+
+  const handleCancel = (message: ScheduledMessage) => {
+    Alert.alert(
+      'Cancel Scheduled Message',
+      'This message will not be sent.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Message',
+          style: 'destructive',
+          onPress: () => {
+            onCancel(message.id).catch(() => {
+              Alert.alert('Error', 'Failed to cancel scheduled message. Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: ScheduledMessage }) => {
+    const isEditing = editingId === item.id;
+    const isLocked = item.status === 'sending';
+    const isFailed = item.status === 'failed';
+
+    return (
+      <View style={[styles.item, { borderBottomColor: theme.colors.border }]}>
+        <View style={styles.itemHeader}>
+          <Ionicons
+            name={isFailed ? 'alert-circle' : 'time-outline'}
+            size={16}
+            color={isFailed ? theme.colors.error : theme.colors.primary}
+          />
+          <Text style={[theme.typography.captionMedium, styles.itemTime, { color: isFailed ? theme.colors.error : theme.colors.primary }]}>
+            {isLocked ? 'Sending…' : isFailed ? 'Failed to send' : formatScheduledTime(item.scheduledFor)}
+          </Text>
+          {!isLocked && !isEditing && (
+            <View style={styles.itemActions}>
+              <Pressable onPress={() => handleStartEdit(item)} hitSlop={8}>
+                <Ionicons name="pencil" size={18} color={theme.colors.textSecondary} />
+              </Pressable>
+              <Pressable onPress={() => setReschedulingMessage(item)} hitSlop={8}>
+                <Ionicons name="calendar-outline" size={18} color={theme.colors.textSecondary} />
+              </Pressable>
+              <Pressable onPress={() => handleCancel(item)} hitSlop={8}>
+                <Ionicons name="trash-outline" size={18} color={theme.colors.error} />
+              </Pressable>
+            </View>
+          )}
+        </View>
+
+        {isEditing ? (
+          <>
+            <TextInput
+              style={[
+                styles.editInput,
+                theme.typography.body,
+                {
+                  color: theme.colors.text,
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              value={editText}
+              onChangeText={setEditText}
+              multiline
+              autoFocus
+              maxLength={MAX_MESSAGE_LENGTH}
+              textAlignVertical="top"
+            />
+            <View style={styles.editActions}>
+              <Button
+                title="Cancel"
+                variant="outline"
+                size="small"
+                onPress={() => setEditingId(null)}
+              />
+              <Button
+                title="Save"
+                size="small"
+                onPress={() => handleSaveEdit(item)}
+                disabled={!editText.trim() || isSaving}
+                loading={isSaving}
+              />
+            </View>
+          </>
+        ) : (
+          <Text style={[theme.typography.body, { color: theme.colors.text }]} numberOfLines={4}>
+            {item.text}
+          </Text>
+        )}
+
+        {isFailed && item.error && (
+          <Text style={[theme.typography.caption, styles.itemError, { color: theme.colors.error }]}>
+            {item.error}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: theme.colors.surface }]}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+              Scheduled Messages
+            </Text>
+            <Pressable onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={theme.colors.text} />
+            </Pressable>
+          </View>
+
+          <FlatList
+            data={scheduledMessages}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={[theme.typography.body, styles.emptyText, { color: theme.colors.textSecondary }]}>
+                No scheduled messages
+              </Text>
+            }
+          />
+        </View>
+      </View>
+
+      {/* Reschedule */}
+      <ScheduleMessageModal
+        visible={!!reschedulingMessage}
+        title="Reschedule Message"
+        confirmTitle="Reschedule"
+        initialTime={reschedulingMessage?.scheduledFor}
+        onConfirm={handleReschedule}
+        onClose={() => setReschedulingMessage(null)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  item: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  itemTime: {
+    flex: 1,
+    marginLeft: 6,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  itemError: {
+    marginTop: 4,
+  },
+  editInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 80,
+    maxHeight: 200,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+});
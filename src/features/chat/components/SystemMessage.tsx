@@ -0,0 +1,34 @@
+/**
+ * SystemMessage - Centered note for group membership changes ("Alice added Bob")
+ */
+
+import { useTheme } from '@/shared/hooks/useTheme';
+import { Message } from '@/shared/types';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface SystemMessageProps {
+  message: Message;
+}
+
+export const SystemMessage = ({ message }: SystemMessageProps) => {
+  const theme = useTheme();
+
+  return (
+    <View style={styles.container}>
+      <Text style={[theme.typography.caption, styles.text, { color: theme.colors.textSecondary }]}>
+        {message.text}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 6,
+  },
+  text: {
+    textAlign: 'center',
+  },
+});
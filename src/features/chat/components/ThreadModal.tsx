@@ -0,0 +1,183 @@
+/**
+ * ThreadModal - Full-screen view of a message's sub-thread
+ *
+ * Features:
+ * - Root message pinned at the top
+ * - Real-time replies (cached in SQLite for offline viewing)
+ * - Reply input that posts into the thread
+ */
+
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { Message } from '@/shared/types';
+import { useChatStore } from '@/store';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { FlatList, Keyboard, Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { MessageBubble } from './MessageBubble';
+import { MessageInput } from './MessageInput';
+
+interface ThreadModalProps {
+  visible: boolean;
+  chatId: string | null;
+  rootMessage: Message | null;
+  userId: string;
+  userName?: string;
+  preferredLanguage: string;
+  isGroupChat: boolean;
+  isEncrypted?: boolean;
+  canPost?: boolean; // False when muted or only admins can post (group chats)
+  onClose: () => void;
+}
+
+export const ThreadModal = ({
+  visible,
+  chatId,
+  rootMessage,
+  userId,
+  userName,
+  preferredLanguage,
+  isGroupChat,
+  isEncrypted = false,
+  canPost = true,
+  onClose,
+}: ThreadModalProps) => {
+  const theme = useTheme();
+  const messages = useChatStore(state => state.messages);
+  const getUserProfile = useChatStore(state => state.getUserProfile);
+  const rootId = rootMessage?.id;
+
+  // Load cached replies, then subscribe to live updates while open
+  useEffect(() => {
+    if (!visible || !chatId || !rootId) return;
+
+    const store = useChatStore.getState();
+    store.loadThreadMessages(chatId, rootId);
+    const unsubscribe = store.subscribeToThread(chatId, rootId);
+
+    return () => unsubscribe();
+  }, [visible, chatId, rootId]);
+
+  // Prefer the live copy of the root so the reply count stays current
+  const root = useMemo(
+    () => messages.find(m => m.id === rootId) || rootMessage,
+    [messages, rootId, rootMessage]
+  );
+
+  const replies = useMemo(
+    () => messages.filter(m => m.threadId === rootId),
+    [messages, rootId]
+  );
+
+  const handleSend = useCallback(async (text: string) => {
+    if (!chatId || !rootId) return;
+
+    try {
+      await useChatStore.getState().sendMessage(chatId, userId, text, undefined, { threadId: rootId });
+    } catch (error) {
+      console.error('Error sending thread reply:', error);
+    }
+  }, [chatId, rootId, userId]);
+
+  const handleClose = useCallback(() => {
+    Keyboard.dismiss();
+    onClose();
+  }, [onClose]);
+
+  const renderBubble = useCallback((message: Message) => {
+    const senderProfile = getUserProfile(message.senderId);
+
+    return (
+      <MessageBubble
+        message={message}
+        currentUserId={userId}
+        chatId={chatId || ''}
+        senderName={senderProfile?.displayName}
+        senderAvatar={senderProfile?.profilePictureUrl}
+        showAvatar={true}
+        showTimestamp={true}
+        isGroupChat={isGroupChat}
+        preferredLanguage={preferredLanguage}
+      />
+    );
+  }, [chatId, userId, isGroupChat, preferredLanguage, getUserProfile]);
+
+  if (!root) return null;
+
+  const replyCountLabel = replies.length === 1 ? '1 reply' : `${replies.length} replies`;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[theme.typography.h3, { color: theme.colors.text }]}>
+            Thread
+          </Text>
+          <Pressable onPress={handleClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.colors.text} />
+          </Pressable>
+        </View>
+
+        <FlatList
+          data={replies}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => renderBubble(item)}
+          ListHeaderComponent={
+            <View>
+              {renderBubble(root)}
+              <View style={[styles.divider, { borderBottomColor: theme.colors.border }]}>
+                <Text style={[theme.typography.caption, { color: theme.colors.textSecondary }]}>
+                  {replyCountLabel}
+                </Text>
+              </View>
+            </View>
+          }
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+        />
+
+        {canPost && (
+          <MessageInput
+            onSend={handleSend}
+            userId={userId}
+            userName={userName}
+            preferredLanguage={preferredLanguage}
+            placeholder="Reply in thread"
+            aiEnabled={!isEncrypted}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  divider: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+});
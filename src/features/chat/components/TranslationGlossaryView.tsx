@@ -0,0 +1,318 @@
+/**
+ * TranslationGlossaryView - Manage translation glossary entries
+ *
+ * Features:
+ * - "This chat" glossary (shared with everyone in the chat) and "Just me"
+ *   glossary (used in all of the user's chats)
+ * - Forced translation or "don't translate" per term, for one language or all
+ * - Tap an entry to edit it, trash icon to remove it
+ *
+ * Shown inside TranslationOptionsModal.
+ */
+
+import { Button } from '@/components/common';
+import { GlossaryService } from '@/services/firebase';
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { GlossaryEntry, GlossaryScope } from '@/shared/types';
+import { Ionicons } from '@expo/vector-icons';
+import * as React from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+
+interface TranslationGlossaryViewProps {
+  chatId?: string;
+  userId?: string;
+  languages: string[];                      // Offered as "only when translating to" choices
+  languageNames: Record<string, string>;
+}
+
+export const TranslationGlossaryView = ({
+  chatId,
+  userId,
+  languages,
+  languageNames,
+}: TranslationGlossaryViewProps) => {
+  const theme = useTheme();
+  const [scope, setScope] = React.useState<GlossaryScope>(chatId ? 'chat' : 'user');
+  const [entries, setEntries] = React.useState<GlossaryEntry[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [term, setTerm] = React.useState('');
+  const [translation, setTranslation] = React.useState('');
+  const [keepOriginal, setKeepOriginal] = React.useState(false);
+  const [targetLanguage, setTargetLanguage] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const ownerId = scope === 'chat' ? chatId : userId;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setTerm('');
+    setTranslation('');
+    setKeepOriginal(false);
+    setTargetLanguage(null);
+  };
+
+  React.useEffect(() => {
+    if (!ownerId) return;
+
+    setIsLoading(true);
+    const unsubscribe = GlossaryService.subscribeToGlossary(
+      scope,
+      ownerId,
+      (glossary) => {
+        setEntries(glossary);
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error('Error listening to glossary:', error);
+        setIsLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [scope, ownerId]);
+
+  const handleChangeScope = (nextScope: GlossaryScope) => {
+    if (nextScope === scope) return;
+    resetForm();
+    setEntries([]);
+    setScope(nextScope);
+  };
+
+  const handleEdit = (entry: GlossaryEntry) => {
+    setEditingId(entry.id);
+    setTerm(entry.term);
+    setTranslation(entry.translation || '');
+    setKeepOriginal(entry.translation === null);
+    setTargetLanguage(entry.targetLanguage);
+  };
+
+  const handleDelete = (entry: GlossaryEntry) => {
+    if (!ownerId) return;
+
+    Alert.alert('Remove Term', `Remove "${entry.term}" from the glossary?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await GlossaryService.deleteEntry(scope, ownerId, entry.id);
+            if (editingId === entry.id) resetForm();
+          } catch {
+            Alert.alert('Error', 'Failed to remove term. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!ownerId || !userId) return;
+
+    const input = {
+      term,
+      translation: keepOriginal ? null : translation,
+      targetLanguage,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await GlossaryService.updateEntry(scope, ownerId, editingId, input);
+      } else {
+        await GlossaryService.addEntry(scope, ownerId, userId, input);
+      }
+      resetForm();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to save term. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = term.trim().length > 0 && (keepOriginal || translation.trim().length > 0);
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void, key: string) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isSelected ? theme.colors.primary : theme.colors.background,
+          borderColor: isSelected ? theme.colors.primary : theme.colors.border,
+        },
+      ]}
+    >
+      <Text style={[theme.typography.bodySmall, { color: isSelected ? theme.colors.textOnPrimary : theme.colors.text }]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      {/* Scope */}
+      <View style={styles.chips}>
+        {chatId && renderChip('This chat', scope === 'chat', () => handleChangeScope('chat'), 'chat')}
+        {renderChip('Just me', scope === 'user', () => handleChangeScope('user'), 'user')}
+      </View>
+      <Text style={[theme.typography.bodySmall, styles.hint, { color: theme.colors.textSecondary }]}>
+        {scope === 'chat'
+          ? 'Everyone in this chat gets these translations.'
+          : 'Used in all of your chats, and wins over chat terms.'}
+      </Text>
+
+      {/* Entries */}
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+      ) : entries.length === 0 ? (
+        <Text style={[theme.typography.body, styles.empty, { color: theme.colors.textSecondary }]}>
+          No terms yet. Add names, products or in-jokes that should always translate the same way.
+        </Text>
+      ) : (
+        entries.map((entry) => (
+          <Pressable
+            key={entry.id}
+            style={[
+              styles.entryRow,
+              { borderBottomColor: theme.colors.border },
+              editingId === entry.id && { backgroundColor: theme.colors.primary + '15' },
+            ]}
+            onPress={() => handleEdit(entry)}
+          >
+            <View style={styles.entryText}>
+              <Text style={[theme.typography.body, { color: theme.colors.text }]} numberOfLines={1}>
+                {entry.term}
+              </Text>
+              <Text style={[theme.typography.bodySmall, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                {entry.translation === null ? "Don't translate" : `→ ${entry.translation}`}
+                {entry.targetLanguage ? ` · ${languageNames[entry.targetLanguage] || entry.targetLanguage}` : ''}
+              </Text>
+            </View>
+            <Pressable onPress={() => handleDelete(entry)} hitSlop={8}>
+              <Ionicons name="trash-outline" size={20} color={theme.colors.error} />
+            </Pressable>
+          </Pressable>
+        ))
+      )}
+
+      {/* Add / edit form */}
+      <Text style={[theme.typography.label, styles.sectionLabel, { color: theme.colors.textSecondary }]}>
+        {editingId ? 'Edit Term' : 'Add Term'}
+      </Text>
+      <TextInput
+        style={[styles.input, theme.typography.body, { color: theme.colors.text, backgroundColor: theme.colors.backgroundInput }]}
+        value={term}
+        onChangeText={setTerm}
+        placeholder="Term (e.g. a product or a name)"
+        placeholderTextColor={theme.colors.textSecondary}
+        maxLength={100}
+        autoCapitalize="none"
+      />
+      <View style={[styles.settingRow, { borderBottomColor: theme.colors.border }]}>
+        <Text style={[theme.typography.body, { color: theme.colors.text }]}>Don&apos;t translate</Text>
+        <Switch value={keepOriginal} onValueChange={setKeepOriginal} />
+      </View>
+      {!keepOriginal && (
+        <TextInput
+          style={[styles.input, theme.typography.body, { color: theme.colors.text, backgroundColor: theme.colors.backgroundInput }]}
+          value={translation}
+          onChangeText={setTranslation}
+          placeholder="Always translate as"
+          placeholderTextColor={theme.colors.textSecondary}
+          maxLength={200}
+          autoCapitalize="none"
+        />
+      )}
+      <Text style={[theme.typography.label, styles.sectionLabel, { color: theme.colors.textSecondary }]}>
+        When translating to
+      </Text>
+      <View style={styles.chips}>
+        {renderChip('Any language', targetLanguage === null, () => setTargetLanguage(null), 'any')}
+        {languages.map((language) =>
+          renderChip(languageNames[language] || language, targetLanguage === language, () => setTargetLanguage(language), language)
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        {editingId && (
+          <Button title="Cancel" variant="outline" onPress={resetForm} style={{ flex: 1 }} />
+        )}
+        <Button
+          title={editingId ? 'Save' : 'Add'}
+          onPress={handleSave}
+          disabled={!canSave || isSaving}
+          loading={isSaving}
+          style={{ flex: 1 }}
+        />
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    marginBottom: 8,
+  },
+  loading: {
+    padding: 24,
+  },
+  empty: {
+    paddingVertical: 16,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryText: {
+    flex: 1,
+    gap: 2,
+  },
+  sectionLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginBottom: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+});
@@ -10,6 +10,7 @@ import {
   Text,
   View,
 } from 'react-native';
+import { TranslationGlossaryView } from './TranslationGlossaryView';
 
 interface TranslationOption {
   id: string;
@@ -23,6 +24,8 @@ interface TranslationOptionsModalProps {
   originalText: string;
   originalLanguage: string;
   chatLanguages: string[];
+  chatId?: string;
+  userId?: string;              // Required for the glossary screen
   onClose: () => void;
   onSelectOption: (text: string) => void;
 }
@@ -32,6 +35,8 @@ export const TranslationOptionsModal: React.FC<TranslationOptionsModalProps> = (
   originalText,
   originalLanguage,
   chatLanguages,
+  chatId,
+  userId,
   onClose,
   onSelectOption,
 }) => {
@@ -41,6 +46,7 @@ export const TranslationOptionsModal: React.FC<TranslationOptionsModalProps> = (
   const [options, setOptions] = useState<TranslationOption[]>([]);
   const [isLoading, setIsLoading] = useState(true); // Start with loading true
   const [error, setError] = useState<string | null>(null);
+  const [showGlossary, setShowGlossary] = useState(false);
 
   // Language names
   const languageNames: Record<string, string> = {
@@ -67,13 +73,21 @@ export const TranslationOptionsModal: React.FC<TranslationOptionsModalProps> = (
     }
   }, [visible, chatLanguages, originalLanguage]);
 
+  // Always open on the options, not the glossary
+  useEffect(() => {
+    if (!visible) {
+      setShowGlossary(false);
+    }
+  }, [visible]);
+
   // Generate translation options when language or visibility changes
+  // (and again after leaving the glossary, so new terms apply)
   useEffect(() => {
-    if (visible && originalText && selectedLanguage) {
+    if (visible && !showGlossary && originalText && selectedLanguage) {
       generateOptions();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [visible, originalText, selectedLanguage, originalLanguage]);
+  }, [visible, showGlossary, originalText, selectedLanguage, originalLanguage]);
 
   const generateOptions = async () => {
     console.log('🔄 Generating translation options:', {
@@ -106,6 +120,7 @@ export const TranslationOptionsModal: React.FC<TranslationOptionsModalProps> = (
          const translateResult: any = await translateFn({
            messageText: originalText,
            targetLanguage: selectedLanguage,
+           chatId, // Applies the chat's glossary
          });
          
          console.log('✅ Translation result:', translateResult.data);
@@ -201,74 +216,97 @@ export const TranslationOptionsModal: React.FC<TranslationOptionsModalProps> = (
           >
             {/* Header */}
             <View style={styles.header}>
+              {showGlossary && (
+                <Pressable onPress={() => setShowGlossary(false)} hitSlop={8}>
+                  <Ionicons name="chevron-back" size={24} color={theme.colors.text} />
+                </Pressable>
+              )}
               <Text style={[styles.title, { color: theme.colors.text }]}>
-                Translation Options
+                {showGlossary ? 'Glossary' : 'Translation Options'}
               </Text>
-              <Pressable onPress={onClose} hitSlop={8}>
-                <Ionicons name="close" size={24} color={theme.colors.text} />
-              </Pressable>
-            </View>
-
-            {/* Language Selector */}
-            <View style={[styles.languageSelectorContainer, { borderBottomColor: theme.colors.border }]}>
-              <Text style={[styles.languageLabel, { color: theme.colors.textSecondary }]}>
-                Translate to:
-              </Text>
-              <Pressable
-                style={[styles.languageButton, { backgroundColor: theme.colors.background }]}
-                onPress={() => setShowLanguageMenu(true)}
-                disabled={isLoading}
-              >
-                <Text style={[styles.languageButtonText, { color: theme.colors.text }]}>
-                  {languageNames[selectedLanguage] || selectedLanguage}
-                </Text>
-                {isLoading ? (
-                  <ActivityIndicator size="small" color={theme.colors.primary} />
-                ) : (
-                  <Ionicons name="chevron-down" size={20} color={theme.colors.textSecondary} />
+              <View style={styles.headerActions}>
+                {userId && !showGlossary && (
+                  <Pressable onPress={() => setShowGlossary(true)} hitSlop={8}>
+                    <Ionicons name="book-outline" size={22} color={theme.colors.text} />
+                  </Pressable>
                 )}
-              </Pressable>
-            </View>
-
-            {/* Error Message */}
-            {error && (
-              <View style={[styles.errorContainer, { backgroundColor: theme.colors.error + '15' }]}>
-                <Ionicons name="warning" size={20} color={theme.colors.error} />
-                <Text style={[styles.errorText, { color: theme.colors.error }]}>
-                  {error}
-                </Text>
+                <Pressable onPress={onClose} hitSlop={8}>
+                  <Ionicons name="close" size={24} color={theme.colors.text} />
+                </Pressable>
               </View>
-            )}
+            </View>
 
-            {/* Options List */}
-            <ScrollView style={styles.optionsList}>
-              {isLoading ? (
-                <View style={styles.loadingContainer}>
-                  <ActivityIndicator size="large" color={theme.colors.primary} />
-                  <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>
-                    Generating options...
+            {showGlossary ? (
+              <TranslationGlossaryView
+                chatId={chatId}
+                userId={userId}
+                languages={Array.from(new Set([...chatLanguages, selectedLanguage]))}
+                languageNames={languageNames}
+              />
+            ) : (
+              <>
+                {/* Language Selector */}
+                <View style={[styles.languageSelectorContainer, { borderBottomColor: theme.colors.border }]}>
+                  <Text style={[styles.languageLabel, { color: theme.colors.textSecondary }]}>
+                    Translate to:
                   </Text>
-                </View>
-              ) : (
-                options.map((option) => (
                   <Pressable
-                    key={option.id}
-                    style={[styles.optionItem, { borderBottomColor: theme.colors.border }]}
-                    onPress={() => handleSelectOption(option)}
+                    style={[styles.languageButton, { backgroundColor: theme.colors.background }]}
+                    onPress={() => setShowLanguageMenu(true)}
+                    disabled={isLoading}
                   >
-                    <View style={styles.optionHeader}>
-                      <Text style={[styles.optionLabel, { color: theme.colors.primary }]}>
-                        {option.label}
-                      </Text>
-                      <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
-                    </View>
-                    <Text style={[styles.optionText, { color: theme.colors.text }]} numberOfLines={3}>
-                      {option.text}
+                    <Text style={[styles.languageButtonText, { color: theme.colors.text }]}>
+                      {languageNames[selectedLanguage] || selectedLanguage}
                     </Text>
+                    {isLoading ? (
+                      <ActivityIndicator size="small" color={theme.colors.primary} />
+                    ) : (
+                      <Ionicons name="chevron-down" size={20} color={theme.colors.textSecondary} />
+                    )}
                   </Pressable>
-                ))
-              )}
-            </ScrollView>
+                </View>
+
+                {/* Error Message */}
+                {error && (
+                  <View style={[styles.errorContainer, { backgroundColor: theme.colors.error + '15' }]}>
+                    <Ionicons name="warning" size={20} color={theme.colors.error} />
+                    <Text style={[styles.errorText, { color: theme.colors.error }]}>
+                      {error}
+                    </Text>
+                  </View>
+                )}
+
+                {/* Options List */}
+                <ScrollView style={styles.optionsList}>
+                  {isLoading ? (
+                    <View style={styles.loadingContainer}>
+                      <ActivityIndicator size="large" color={theme.colors.primary} />
+                      <Text style={[styles.loadingText, { color: theme.colors.textSecondary }]}>
+                        Generating options...
+                      </Text>
+                    </View>
+                  ) : (
+                    options.map((option) => (
+                      <Pressable
+                        key={option.id}
+                        style={[styles.optionItem, { borderBottomColor: theme.colors.border }]}
+                        onPress={() => handleSelectOption(option)}
+                      >
+                        <View style={styles.optionHeader}>
+                          <Text style={[styles.optionLabel, { color: theme.colors.primary }]}>
+                            {option.label}
+                          </Text>
+                          <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+                        </View>
+                        <Text style={[styles.optionText, { color: theme.colors.text }]} numberOfLines={3}>
+                          {option.text}
+                        </Text>
+                      </Pressable>
+                    ))
+                  )}
+                </ScrollView>
+              </>
+            )}
           </Pressable>
         </Pressable>
       </Modal>
@@ -376,9 +414,15 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
   },
   title: {
+    flex: 1,
     fontSize: 18,
     fontWeight: '600',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
   languageSelectorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,143 @@
+/**
+ * VoiceMessagePlayer - Inline playback for voice messages
+ *
+ * Features:
+ * - Play/pause with waveform progress
+ * - Tap the waveform to seek
+ * - Upload progress while the recording is sending
+ */
+
+import { useTheme } from '@/shared/hooks/useTheme';
+import type { Message } from '@/shared/types';
+import { Ionicons } from '@expo/vector-icons';
+import { useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { formatDuration, resampleWaveform } from '../utils/messageUtils';
+
+const WAVEFORM_BARS = 32;
+const BAR_MAX_HEIGHT = 28;
+const BAR_MIN_HEIGHT = 3;
+
+interface VoiceMessagePlayerProps {
+  message: Message;
+  isSent: boolean;
+}
+
+export const VoiceMessagePlayer: React.FC<VoiceMessagePlayerProps> = ({ message, isSent }) => {
+  const theme = useTheme();
+  const player = useAudioPlayer(message.audioUrl ? { uri: message.audioUrl } : null);
+  const status = useAudioPlayerStatus(player);
+  const [waveformWidth, setWaveformWidth] = useState(0);
+
+  const bars = useMemo(
+    () => resampleWaveform(message.waveform || [], WAVEFORM_BARS),
+    [message.waveform]
+  );
+
+  // Rewind when playback finishes so the next tap starts from the beginning
+  useEffect(() => {
+    if (status.didJustFinish) {
+      player.seekTo(0);
+    }
+  }, [status.didJustFinish, player]);
+
+  const durationSeconds = status.duration || (message.audioDuration || 0) / 1000;
+  const progress = durationSeconds > 0 ? Math.min(status.currentTime / durationSeconds, 1) : 0;
+  const isUploading = message.uploadProgress !== undefined && message.uploadProgress < 100;
+
+  const foregroundColor = isSent ? theme.colors.messageText : theme.colors.messageTextReceived;
+  const playedColor = isSent ? theme.colors.messageText : theme.colors.primary;
+  const unplayedColor = isSent ? 'rgba(0,0,0,0.25)' : 'rgba(0,0,0,0.2)';
+
+  const handleTogglePlayback = () => {
+    if (status.playing) {
+      player.pause();
+    } else {
+      player.play();
+    }
+  };
+
+  const handleSeek = (locationX: number) => {
+    if (!waveformWidth || !durationSeconds) return;
+    player.seekTo((locationX / waveformWidth) * durationSeconds);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        onPress={handleTogglePlayback}
+        disabled={isUploading || !status.isLoaded}
+        style={styles.playButton}
+        hitSlop={8}
+      >
+        {isUploading || !status.isLoaded ? (
+          <ActivityIndicator size="small" color={foregroundColor} />
+        ) : (
+          <Ionicons name={status.playing ? 'pause' : 'play'} size={24} color={foregroundColor} />
+        )}
+      </Pressable>
+
+      <View style={styles.body}>
+        <Pressable
+          style={styles.waveform}
+          onLayout={(e) => setWaveformWidth(e.nativeEvent.layout.width)}
+          onPress={(e) => handleSeek(e.nativeEvent.locationX)}
+          disabled={isUploading}
+        >
+          {bars.map((amplitude, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(BAR_MIN_HEIGHT, amplitude * BAR_MAX_HEIGHT),
+                  backgroundColor: index / bars.length < progress ? playedColor : unplayedColor,
+                },
+              ]}
+            />
+          ))}
+        </Pressable>
+
+        <Text style={[styles.duration, { color: foregroundColor }]}>
+          {isUploading
+            ? `Sending… ${message.uploadProgress}%`
+            : formatDuration((status.playing || status.currentTime > 0 ? status.currentTime : durationSeconds) * 1000)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 200,
+    gap: 8,
+  },
+  playButton: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: BAR_MAX_HEIGHT,
+  },
+  bar: {
+    width: 3,
+    borderRadius: 1.5,
+  },
+  duration: {
+    fontSize: 11,
+    marginTop: 2,
+    opacity: 0.8,
+  },
+});
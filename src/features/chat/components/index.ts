@@ -7,19 +7,34 @@ export * from './ChatHeader';
 export * from './ChatListItem';
 export * from './ChatMenuModal';
 export * from './ChatModal';
+export * from './ChatOptionsSheet';
 export * from './ChatSummaryModal';
+export * from './ChatTasksModal';
 export * from './ChatTypeSelector';
 export * from './ContactPicker';
+export * from './CreatePollModal';
 export * from './DateSeparator';
+export * from './EditMessageModal';
+export * from './FileAttachmentCard';
 export * from './GroupDetailsForm';
 export * from './GroupSettingsModal';
+export * from './InviteLinksModal';
 export * from './MessageActions';
 export * from './MessageBubble';
 export * from './MessageContent';
 export * from './MessageInput';
 export * from './MessageModals';
+export * from './MessageSearchResultItem';
 export * from './MessagesList';
 export * from './NewChatModal';
+export * from './PollView';
+export * from './ReadReceiptsSheet';
+export * from './ReportModal';
+export * from './ScheduleMessageModal';
+export * from './ScheduledMessagesModal';
+export * from './SystemMessage';
+export * from './ThreadModal';
 export * from './TypingIndicator';
 export * from './UnreadSeparator';
+export * from './VoiceMessagePlayer';
 
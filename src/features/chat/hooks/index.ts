@@ -7,11 +7,14 @@
 export { useAutoTranslate } from './useAutoTranslate';
 export { useChatKeyboard } from './useChatKeyboard';
 export { useChatMessages } from './useChatMessages';
-export { useChatModals } from './useChatModals';
+export { showEncryptedChatAIAlert, useChatModals } from './useChatModals';
 export { useChatPresence } from './useChatPresence';
 export { useChatScroll } from './useChatScroll';
 export { useCulturalAnalysis } from './useCulturalAnalysis';
+export { useFileTransfer } from './useFileTransfer';
 export { useMessageAnimations } from './useMessageAnimations';
 export { useMessageTranslation } from './useMessageTranslation';
+export { useScheduledMessages } from './useScheduledMessages';
+export { useVoiceRecorder } from './useVoiceRecorder';
 
 
@@ -227,7 +227,7 @@ export function useAutoTranslate({
   // Handle translate message
   const handleTranslateMessage = useCallback(async (message: Message) => {
     // Check if message has text to translate
-    const textToTranslate = message.type === 'text' ? message.text : message.caption;
+    const textToTranslate = message.type === 'image' ? message.caption : message.text;
     
     if (!textToTranslate) {
       Alert.alert('Error', 'No text to translate in this message');
@@ -3,16 +3,18 @@
  * 
  * Handles all message-related functionality:
  * - Loading messages from SQLite and Firebase
- * - Sending messages and images
- * - Message processing and list items
+ * - Sending messages and images (with quote replies) and polls
+ * - Message processing and list items (sub-thread replies are hidden from the timeline)
  * - Chat initialization and cleanup
  */
 
-import { Message } from '@/shared/types';
+import { CreatePollData, Message } from '@/shared/types';
+import { applyReceiptStatus } from '@/shared/utils/ReadReceipts';
 import { useChatStore } from '@/store';
 import { useAuthStore } from '@/store/AuthStore';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Alert } from 'react-native';
+import { buildReplyPreview } from '../utils/messageUtils';
 
 interface UseChatMessagesOptions {
   visible: boolean;
@@ -31,11 +33,15 @@ export function useChatMessages({
   userId,
 }: UseChatMessagesOptions) {
   const {
-    messages,
+    messages: allMessages,
+    readStates,
     loadMessagesFromSQLite,
     subscribeToMessages,
     sendMessage,
     sendImageMessage,
+    sendVoiceMessage,
+    sendFileMessage,
+    sendPollMessage,
     getUserProfile,
     markChatAsRead,
     retryFailedMessage,
@@ -44,6 +50,7 @@ export function useChatMessages({
   } = useChatStore();
 
   const [isSending, setIsSending] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const hasScrolledInitially = useRef(false);
   const isCleaningUp = useRef(false);
 
@@ -166,6 +173,21 @@ export function useChatMessages({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [visible, chatId, userId]);
 
+  // Sub-thread replies live in their thread, not in the main timeline
+  // Group messages show the receipts of every member (read once everyone read them)
+  const messages = useMemo(
+    () => {
+      const timeline = allMessages.filter(message => !message.threadId);
+      return userId ? applyReceiptStatus(timeline, readStates, userId) : timeline;
+    },
+    [allMessages, readStates, userId]
+  );
+
+  // Drop a pending reply when switching chats
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [chatId]);
+
   // Process messages into list items (with date separators)
   const listItems = useMemo(() => {
     const items: ListItem[] = [];
@@ -243,8 +265,13 @@ export function useChatMessages({
     
     console.log('📤 Sending message:', text);
     setIsSending(true);
+    const replyTarget = replyingTo;
     try {
-      await sendMessage(chatId, userId, text);
+      const replyOptions = replyTarget
+        ? { replyToId: replyTarget.id, replyPreview: buildReplyPreview(replyTarget) }
+        : undefined;
+      setReplyingTo(null);
+      await sendMessage(chatId, userId, text, undefined, replyOptions);
       console.log('✅ Message sent successfully');
       
       // Always scroll to bottom when user sends a message
@@ -257,7 +284,7 @@ export function useChatMessages({
     } finally {
       setIsSending(false);
     }
-  }, [userId, chatId, sendMessage]);
+  }, [userId, chatId, sendMessage, replyingTo]);
 
   // Handle send image message
   const handleSendImage = useCallback(async (imageUri: string, caption?: string, onScrollToBottom?: () => void) => {
@@ -279,6 +306,82 @@ export function useChatMessages({
     }
   }, [userId, chatId, sendImageMessage]);
 
+  // Handle send voice message (upload progress is shown on the bubble, so input stays enabled)
+  const handleSendVoice = useCallback(async (
+    audioUri: string,
+    durationMs: number,
+    waveform: number[],
+    onScrollToBottom?: () => void
+  ) => {
+    if (!userId || !chatId) return;
+
+    const replyTarget = replyingTo;
+    try {
+      const replyOptions = replyTarget
+        ? { replyToId: replyTarget.id, replyPreview: buildReplyPreview(replyTarget) }
+        : undefined;
+      setReplyingTo(null);
+      const sending = sendVoiceMessage(chatId, userId, audioUri, durationMs, waveform, replyOptions);
+
+      // Scroll once the optimistic message is in the list
+      if (onScrollToBottom) {
+        onScrollToBottom();
+      }
+      await sending;
+    } catch (error) {
+      console.error('Failed to send voice message:', error);
+      Alert.alert('Error', 'Failed to send voice message. Please try again.');
+    }
+  }, [userId, chatId, sendVoiceMessage, replyingTo]);
+
+  // Handle send file attachment (upload progress is shown on the file card)
+  const handleSendFile = useCallback(async (
+    fileUri: string,
+    fileName: string,
+    mimeType: string,
+    fileSize: number,
+    onScrollToBottom?: () => void
+  ) => {
+    if (!userId || !chatId) return;
+
+    const replyTarget = replyingTo;
+    try {
+      const replyOptions = replyTarget
+        ? { replyToId: replyTarget.id, replyPreview: buildReplyPreview(replyTarget) }
+        : undefined;
+      setReplyingTo(null);
+      const sending = sendFileMessage(chatId, userId, fileUri, fileName, mimeType, fileSize, replyOptions);
+
+      // Scroll once the optimistic message is in the list
+      if (onScrollToBottom) {
+        onScrollToBottom();
+      }
+      await sending;
+    } catch (error) {
+      console.error('Failed to send file:', error);
+      Alert.alert('Error', 'Failed to send file. Please try again.');
+    }
+  }, [userId, chatId, sendFileMessage, replyingTo]);
+
+  // Handle send poll; rethrows so the poll composer stays open
+  const handleSendPoll = useCallback(async (poll: CreatePollData, onScrollToBottom?: () => void) => {
+    if (!userId || !chatId) return;
+
+    try {
+      const sending = sendPollMessage(chatId, userId, poll);
+
+      // Scroll once the optimistic message is in the list
+      if (onScrollToBottom) {
+        onScrollToBottom();
+      }
+      await sending;
+    } catch (error) {
+      console.error('Failed to send poll:', error);
+      Alert.alert('Error', (error as Error).message || 'Failed to send poll. Please try again.');
+      throw error;
+    }
+  }, [userId, chatId, sendPollMessage]);
+
   // Handle message press (for retry on failed messages)
   const handleMessagePress = useCallback(async (message: Message) => {
     // If message is failed and user taps retry button, retry it
@@ -309,10 +412,15 @@ export function useChatMessages({
     messages,
     listItems,
     isSending,
+    replyingTo,
     
     // Actions
+    setReplyingTo,
     handleSend,
     handleSendImage,
+    handleSendVoice,
+    handleSendFile,
+    handleSendPoll,
     handleMessagePress,
     handleQuickReaction,
     shouldShowAvatar,
@@ -6,12 +6,21 @@
  * - Chat menu modal
  * - Message options sheet
  * - Chat summary modal
+ * - Tasks modal
  * - Cultural analysis modal
+ * - Edit message modal and edit history
+ * - Sub-thread modal
+ * - Report modal, and blocking users
+ * - Deleting own messages for everyone
+ * - "Seen by" sheet (own messages in groups)
  */
 
-import { CulturalService } from '@/services/firebase';
-import { Message } from '@/shared/types';
+import { CulturalService, ReportService } from '@/services/firebase';
+import { Message, ReportReason } from '@/shared/types';
 import { useAuthStore } from '@/store/AuthStore';
+import { useChatStore } from '@/store/ChatStore';
+import { useContactStore } from '@/store/ContactStore';
+import { format } from 'date-fns';
 import * as Clipboard from 'expo-clipboard';
 import { useCallback, useState } from 'react';
 import { Alert } from 'react-native';
@@ -20,12 +29,33 @@ interface UseChatModalsOptions {
   chatId: string | null;
   userId: string | undefined;
   messages: Message[];
+  onReply?: (message: Message) => void; // Start a quote-reply in the main input
+  isEncrypted?: boolean; // End-to-end encrypted chat: server-side AI features are off
+  isGroup?: boolean; // Group chat: own messages show who has seen them
 }
 
+// What the report modal is reporting: a message, or (message = null) a user
+export interface ReportTarget {
+  userId: string;
+  userName: string;
+  message: Message | null;
+}
+
+// AI features send message text to Cloud Functions, which would defeat end-to-end encryption
+export const showEncryptedChatAIAlert = () => {
+  Alert.alert(
+    'Not Available',
+    'AI features are turned off in end-to-end encrypted chats, because they would need to send your messages to our servers.'
+  );
+};
+
 export function useChatModals({
   chatId,
   userId,
   messages,
+  onReply,
+  isEncrypted = false,
+  isGroup = false,
 }: UseChatModalsOptions) {
   // Modal states
   const [showGroupSettings, setShowGroupSettings] = useState(false);
@@ -35,12 +65,22 @@ export function useChatModals({
   const [showChatSummary, setShowChatSummary] = useState(false);
   const [chatSummary, setChatSummary] = useState<string | null>(null);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
+  const [showTasks, setShowTasks] = useState(false);
   const [showCopiedFeedback, setShowCopiedFeedback] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [threadRootMessage, setThreadRootMessage] = useState<Message | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [receiptsMessage, setReceiptsMessage] = useState<Message | null>(null);
 
   // Handle generate chat summary
   const handleGenerateSummary = useCallback(async () => {
     if (!chatId) return;
 
+    if (isEncrypted) {
+      showEncryptedChatAIAlert();
+      return;
+    }
+
     // Check if there are any messages
     if (messages.length === 0) {
       Alert.alert(
@@ -70,12 +110,17 @@ export function useChatModals({
     } finally {
       setIsGeneratingSummary(false);
     }
-  }, [chatId, messages.length]);
+  }, [chatId, messages.length, isEncrypted]);
 
   // Handle cultural analysis
   const handleCulturalAnalysis = useCallback(async (message: Message) => {
     const user = useAuthStore.getState().user;
     if (!user?.preferredLanguage || !chatId) return;
+
+    if (isEncrypted) {
+      showEncryptedChatAIAlert();
+      return;
+    }
     
     try {
       const { httpsCallable } = await import('firebase/functions');
@@ -121,7 +166,7 @@ export function useChatModals({
       console.error('Cultural analysis failed:', error);
       Alert.alert('Analysis Failed', 'Could not analyze cultural context. Please try again.');
     }
-  }, [chatId]);
+  }, [chatId, isEncrypted]);
 
   // Handle copy message to clipboard
   const handleCopyMessage = useCallback(async (message: Message) => {
@@ -144,6 +189,63 @@ export function useChatModals({
     }
   }, []);
 
+  // Handle saving an edited message
+  const handleEditMessage = useCallback(async (newText: string) => {
+    if (!chatId || !userId || !editingMessage) return;
+
+    try {
+      await useChatStore.getState().editMessage(chatId, editingMessage.id, userId, newText);
+    } catch (error: any) {
+      console.error('Failed to edit message:', error);
+      Alert.alert('Edit Failed', error?.message || 'Could not edit message. Please try again.');
+    }
+  }, [chatId, userId, editingMessage]);
+
+  // Delete an own message for everyone (queued while offline)
+  const deleteMessageForEveryone = useCallback(async (message: Message) => {
+    if (!chatId || !userId) return;
+
+    try {
+      await useChatStore.getState().deleteMessageForEveryone(chatId, message.id, userId);
+    } catch (error: any) {
+      console.error('Failed to delete message:', error);
+      Alert.alert('Delete Failed', error?.message || 'Could not delete message. Please try again.');
+    }
+  }, [chatId, userId]);
+
+  // Confirm, then delete an own message for everyone
+  const handleDeleteForEveryone = useCallback((message: Message) => {
+    Alert.alert(
+      'Delete for Everyone?',
+      'This message will be deleted for everyone in the chat.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => { deleteMessageForEveryone(message); },
+        },
+      ]
+    );
+  }, [deleteMessageForEveryone]);
+
+  // Show previous versions of an edited message
+  const handleShowEditHistory = useCallback((message: Message) => {
+    const history = message.editHistory || [];
+    if (history.length === 0) return;
+
+    // Each entry holds the text that was replaced at `editedAt`
+    const versions = history
+      .map((edit, index) => {
+        const writtenAt = index === 0 ? message.timestamp : history[index - 1].editedAt;
+        const label = index === 0 ? 'Original' : 'Edited';
+        return `${label} · ${format(writtenAt, 'MMM d, h:mm a')}\n${edit.text}`;
+      })
+      .join('\n\n');
+
+    Alert.alert('Edit History', versions);
+  }, []);
+
   // Handle long press (for delete, react, copy)
   const handleLongPress = useCallback((message: Message) => {
     const user = useAuthStore.getState().user;
@@ -159,10 +261,7 @@ export function useChatModals({
           {
             text: 'Delete',
             style: 'destructive',
-            onPress: () => {
-              // TODO: Implement delete for me functionality
-              console.log('Delete failed message:', message.id);
-            },
+            onPress: () => { deleteMessageForEveryone(message); },
           },
         ]
       );
@@ -175,12 +274,16 @@ export function useChatModals({
     // Open the message options sheet
     setSelectedMessage(message);
     setShowMessageOptions(true);
-  }, []);
+  }, [deleteMessageForEveryone]);
 
   // Handle AI Commands
   const handleAITranslate = useCallback(async (message: Message, onTranslateMessage: (message: Message) => Promise<void>) => {
+    if (isEncrypted) {
+      showEncryptedChatAIAlert();
+      return;
+    }
     await onTranslateMessage(message);
-  }, []);
+  }, [isEncrypted]);
 
   const handleAISummarize = useCallback(async (message: Message) => {
     // Generate chat summary when long-pressing message
@@ -195,6 +298,80 @@ export function useChatModals({
     Alert.alert('AI Rewrite', 'Rewrite feature coming soon!');
   }, []);
 
+  // Block a user, hiding their messages, typing and online status
+  const blockUser = useCallback(async (blockedUserId: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    const result = await useContactStore.getState().blockUser(userId, blockedUserId);
+    if (!result.success) {
+      Alert.alert('Block Failed', result.error || 'Could not block this user. Please try again.');
+      return false;
+    }
+
+    useChatStore.getState().hideMessagesFromUser(blockedUserId);
+    return true;
+  }, [userId]);
+
+  // Confirm, then block a user
+  const handleBlockUser = useCallback((blockedUserId: string, userName: string) => {
+    Alert.alert(
+      `Block ${userName}?`,
+      'You won\'t see their messages, typing or online status, and they won\'t be able to send you friend requests. They won\'t be notified.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: () => { blockUser(blockedUserId); },
+        },
+      ]
+    );
+  }, [blockUser]);
+
+  // Unblock a user (their messages show up again next time the chat is opened)
+  const handleUnblockUser = useCallback(async (blockedUserId: string) => {
+    if (!userId) return;
+
+    const result = await useContactStore.getState().unblockUser(userId, blockedUserId);
+    if (!result.success) {
+      Alert.alert('Unblock Failed', result.error || 'Could not unblock this user. Please try again.');
+    }
+  }, [userId]);
+
+  // Send the report from the report modal (and block if asked to)
+  const handleSubmitReport = useCallback(async (reason: ReportReason, details: string, alsoBlock: boolean) => {
+    if (!reportTarget) return;
+
+    try {
+      const { message } = reportTarget;
+      const result = await ReportService.reportContent({
+        reportedUserId: reportTarget.userId,
+        reason,
+        details,
+        chatId: chatId || undefined,
+        messageId: message?.id,
+        // The server only has ciphertext for encrypted messages
+        decryptedText: message && isEncrypted ? message.text : undefined,
+      });
+
+      setReportTarget(null);
+
+      if (alsoBlock) {
+        await blockUser(reportTarget.userId);
+      }
+
+      Alert.alert(
+        result.alreadyReported ? 'Already Reported' : 'Report Sent',
+        result.alreadyReported
+          ? 'You already reported this message. Our moderators will review it.'
+          : 'Thanks for letting us know. Our moderators will review your report.'
+      );
+    } catch (error: any) {
+      console.error('Failed to submit report:', error);
+      Alert.alert('Report Failed', error?.message || 'Could not send your report. Please try again.');
+    }
+  }, [reportTarget, chatId, isEncrypted, blockUser]);
+
   // Build message options for the sheet
   const messageOptions = useCallback(() => {
     if (!selectedMessage) return [];
@@ -209,16 +386,93 @@ export function useChatModals({
       onPress: () => handleCopyMessage(selectedMessage),
     });
     
-    // Cultural Analysis option
-    options.push({
-      id: 'cultural-analysis',
-      label: 'Explain Slang',
-      icon: 'bulb-outline' as const,
-      onPress: () => handleCulturalAnalysis(selectedMessage),
-    });
+    // Reply options (not available inside a sub-thread)
+    if (!selectedMessage.threadId) {
+      if (onReply) {
+        options.push({
+          id: 'reply',
+          label: 'Reply',
+          icon: 'arrow-undo-outline' as const,
+          onPress: () => onReply(selectedMessage),
+        });
+      }
+
+      options.push({
+        id: 'reply-in-thread',
+        label: 'Reply in Thread',
+        icon: 'chatbubbles-outline' as const,
+        onPress: () => setThreadRootMessage(selectedMessage),
+      });
+    }
+    
+    // Cultural Analysis option (server-side AI, not in encrypted chats)
+    if (!isEncrypted) {
+      options.push({
+        id: 'cultural-analysis',
+        label: 'Explain Slang',
+        icon: 'bulb-outline' as const,
+        onPress: () => handleCulturalAnalysis(selectedMessage),
+      });
+    }
+    
+    // Edit option (own text messages only)
+    if (selectedMessage.senderId === userId && selectedMessage.type === 'text') {
+      options.push({
+        id: 'edit',
+        label: 'Edit',
+        icon: 'pencil-outline' as const,
+        onPress: () => setEditingMessage(selectedMessage),
+      });
+    }
+    
+    // Edit history option
+    if (selectedMessage.editHistory && selectedMessage.editHistory.length > 0) {
+      options.push({
+        id: 'edit-history',
+        label: 'Edit History',
+        icon: 'time-outline' as const,
+        onPress: () => handleShowEditHistory(selectedMessage),
+      });
+    }
+    
+    // Seen by option (own sent messages in groups)
+    if (isGroup && selectedMessage.senderId === userId && ['sent', 'delivered', 'read'].includes(selectedMessage.status)) {
+      options.push({
+        id: 'seen-by',
+        label: 'Seen By',
+        icon: 'eye-outline' as const,
+        onPress: () => setReceiptsMessage(selectedMessage),
+      });
+    }
+    
+    // Delete option (own messages only)
+    if (selectedMessage.senderId === userId) {
+      options.push({
+        id: 'delete-for-everyone',
+        label: 'Delete for Everyone',
+        icon: 'trash-outline' as const,
+        destructive: true,
+        onPress: () => handleDeleteForEveryone(selectedMessage),
+      });
+    }
+    
+    // Report option (other people's messages)
+    if (selectedMessage.senderId !== userId) {
+      options.push({
+        id: 'report',
+        label: 'Report',
+        icon: 'flag-outline' as const,
+        destructive: true,
+        onPress: () => setReportTarget({
+          userId: selectedMessage.senderId,
+          userName: useChatStore.getState().getUserProfile(selectedMessage.senderId)?.displayName || 'this user',
+          message: selectedMessage,
+        }),
+      });
+    }
     
     return options;
-  }, [selectedMessage, handleCopyMessage, handleCulturalAnalysis]);
+  }, [selectedMessage, userId, onReply, isEncrypted, isGroup, handleCopyMessage, handleCulturalAnalysis, handleShowEditHistory, handleDeleteForEveryone]);
 
   // Close all modals
   const closeAllModals = useCallback(() => {
@@ -229,6 +483,11 @@ export function useChatModals({
     setShowChatSummary(false);
     setChatSummary(null);
     setIsGeneratingSummary(false);
+    setShowTasks(false);
+    setEditingMessage(null);
+    setThreadRootMessage(null);
+    setReportTarget(null);
+    setReceiptsMessage(null);
   }, []);
 
   return {
@@ -246,17 +505,32 @@ export function useChatModals({
     chatSummary,
     setChatSummary,
     isGeneratingSummary,
+    showTasks,
+    setShowTasks,
     showCopiedFeedback,
+    editingMessage,
+    setEditingMessage,
+    threadRootMessage,
+    setThreadRootMessage,
+    reportTarget,
+    setReportTarget,
+    receiptsMessage,
+    setReceiptsMessage,
     
     // Actions
     handleGenerateSummary,
     handleCulturalAnalysis,
     handleCopyMessage,
     handleLongPress,
+    handleEditMessage,
+    handleShowEditHistory,
     handleAITranslate,
     handleAISummarize,
     handleAIExplain,
     handleAIRewrite,
+    handleBlockUser,
+    handleUnblockUser,
+    handleSubmitReport,
     messageOptions,
     closeAllModals,
   };
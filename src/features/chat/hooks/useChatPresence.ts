@@ -4,12 +4,15 @@
  * Handles presence subscriptions for chat participants
  * - Typing indicators
  * - Online/offline status (for one-on-one chats)
+ * 
+ * Blocked users' typing and online status are never shown
+ * (the Realtime Database rules also hide them in both directions)
  */
 
 import { PresenceService, TypingUser } from '@/services/firebase';
 import { Chat } from '@/shared/types';
-import { usePresenceStore } from '@/store';
-import { useEffect, useState } from 'react';
+import { useContactStore, usePresenceStore } from '@/store';
+import { useEffect, useMemo, useState } from 'react';
 
 interface UseChatPresenceOptions {
   visible: boolean;
@@ -27,7 +30,11 @@ export function useChatPresence({
   isGroupChat,
 }: UseChatPresenceOptions) {
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
-  const { subscribeToUser } = usePresenceStore();
+  const { subscribeToUser, unsubscribeFromUser } = usePresenceStore();
+  const blockedUsers = useContactStore(state => state.blockedUsers);
+
+  // Resubscribe only when the members change, not on every chat update
+  const participantKey = currentChat?.participants.join(',') ?? '';
 
   // Subscribe to typing indicators
   useEffect(() => {
@@ -39,6 +46,7 @@ export function useChatPresence({
     const unsubscribe = PresenceService.subscribeToTyping(
       chatId,
       userId,
+      participantKey.split(',').filter(Boolean),
       (users) => setTypingUsers(users),
       (error) => console.error('Error subscribing to typing:', error)
     );
@@ -47,7 +55,7 @@ export function useChatPresence({
       unsubscribe();
       setTypingUsers([]);
     };
-  }, [visible, chatId, userId]);
+  }, [visible, chatId, userId, participantKey]);
 
   // Subscribe to other user's presence (online/offline status)
   // Using centralized PresenceStore - only for one-on-one chats
@@ -58,14 +66,25 @@ export function useChatPresence({
     const otherUserId = currentChat.participants.find(id => id !== userId);
     if (!otherUserId) return;
 
+    // Drop any presence already loaded so the header stops showing it
+    if (blockedUsers.some(blocked => blocked.userId === otherUserId)) {
+      unsubscribeFromUser(otherUserId);
+      return;
+    }
+
     // Subscribe via PresenceStore (handles deduplication)
     subscribeToUser(otherUserId);
 
     // No cleanup needed - PresenceStore manages subscriptions globally
-  }, [visible, currentChat, userId, isGroupChat, subscribeToUser]);
+  }, [visible, currentChat, userId, isGroupChat, subscribeToUser, unsubscribeFromUser, blockedUsers]);
+
+  const visibleTypingUsers = useMemo(
+    () => typingUsers.filter(typingUser => !blockedUsers.some(blocked => blocked.userId === typingUser.userId)),
+    [typingUsers, blockedUsers]
+  );
 
   return {
-    typingUsers,
+    typingUsers: visibleTypingUsers,
   };
 }
 
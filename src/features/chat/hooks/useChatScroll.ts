@@ -6,9 +6,11 @@
  * - No random scroll positions
  * - Auto-scroll for new messages IF user is at bottom
  * - Smooth animations
+ * - Jump to a specific message (quoted replies) with a brief highlight
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { ListItem } from '../utils/messageUtils';
 
 interface UseChatScrollOptions {
   visible: boolean;
@@ -16,6 +18,7 @@ interface UseChatScrollOptions {
   messagesLength: number;
   userId: string | undefined;
   flashListRef: React.RefObject<any>;
+  listItems?: ListItem[];
 }
 
 export function useChatScroll({
@@ -23,9 +26,13 @@ export function useChatScroll({
   chatId,
   messagesLength,
   flashListRef,
+  listItems = [],
 }: UseChatScrollOptions) {
   
   const [showJumpToBottom, setShowJumpToBottom] = useState(false);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [isReady, setIsReady] = useState(false);
   const isAtBottomRef = useRef(true);
   const previousMessagesLength = useRef(0);
@@ -128,6 +135,47 @@ export function useChatScroll({
     previousMessagesLength.current = messagesLength;
   }, [messagesLength, visible, chatId, isReady, debouncedScrollToBottom]);
 
+  // Request a jump to a message - resolved once it appears in the list
+  const jumpToMessage = useCallback((messageId: string) => {
+    // Don't let the "new messages" auto-scroll fight the jump
+    isAtBottomRef.current = false;
+    setPendingJumpId(messageId);
+  }, []);
+
+  const cancelJump = useCallback(() => {
+    setPendingJumpId(null);
+  }, []);
+
+  // Scroll to the pending jump target once it's rendered in the list
+  useEffect(() => {
+    if (!pendingJumpId || !flashListRef.current) {
+      return;
+    }
+
+    const index = listItems.findIndex(
+      item => item.type === 'message' && item.data.id === pendingJumpId
+    );
+    if (index === -1) {
+      return; // Not loaded yet - wait for the next listItems update
+    }
+
+    try {
+      flashListRef.current.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    } catch {
+      // FlashList not ready yet, ignore
+    }
+
+    setPendingJumpId(null);
+    setHighlightedMessageId(pendingJumpId);
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => {
+      setHighlightedMessageId(null);
+      highlightTimeoutRef.current = null;
+    }, 1500);
+  }, [pendingJumpId, listItems, flashListRef]);
+
   // Track scroll position
   const handleScroll = useCallback((event: any) => {
     if (!isReady) return;
@@ -165,6 +213,9 @@ export function useChatScroll({
       if (scrollTimeoutRef.current) {
         clearTimeout(scrollTimeoutRef.current);
       }
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -174,6 +225,9 @@ export function useChatScroll({
     handleScroll,
     showJumpToBottom,
     handleJumpToBottom: () => scrollToBottom(true),
+    jumpToMessage,
+    cancelJump,
+    highlightedMessageId,
     isReady, // Expose ready state
   };
 }
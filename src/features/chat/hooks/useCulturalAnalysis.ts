@@ -64,6 +64,9 @@ export const useCulturalAnalysis = ({
     const loadCulturalAnalysis = async () => {
       if (!message.id || !chatId) return;
       
+      // Drop analysis of the previous text when the message is edited
+      setCulturalAnalysis(null);
+      
       try {
         const { SQLiteService } = await import('@/database/SQLiteService');
         const existingAnalysis = await SQLiteService.getCulturalAnalysis(message.id, chatId);
@@ -82,7 +85,7 @@ export const useCulturalAnalysis = ({
     };
 
     loadCulturalAnalysis();
-  }, [message.id, chatId]);
+  }, [message.id, message.editedAt, chatId]);
 
   const handleCulturalAnalysis = async () => {
     if (!message.text || !preferredLanguage) return;
@@ -0,0 +1,58 @@
+/**
+ * useFileTransfer Hook
+ *
+ * Tracks the upload/download status of a file attachment
+ * - Subscribes to FileTransferService status for the message
+ * - Exposes download, pause, resume and cancel actions
+ */
+
+import { FileTransferService, FileTransferStatus } from '@/services/firebase';
+import type { Message } from '@/shared/types';
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { Alert } from 'react-native';
+
+export function useFileTransfer(message: Message) {
+  const messageId = message.id;
+
+  const status = useSyncExternalStore<FileTransferStatus | undefined>(
+    useCallback((onChange) => FileTransferService.subscribe(messageId, onChange), [messageId]),
+    () => FileTransferService.getStatus(messageId)
+  );
+
+  // Pick up attachments downloaded in an earlier session
+  useEffect(() => {
+    if (status || !message.fileName || !message.fileUrl?.startsWith('http')) return;
+
+    FileTransferService.getDownloadedFileUri(messageId, message.fileName)
+      .then((localUri) => {
+        if (localUri) {
+          FileTransferService.downloadMessageFile(messageId, message.fileUrl!, message.fileName!).catch(() => {});
+        }
+      })
+      .catch(() => {});
+  }, [status, messageId, message.fileUrl, message.fileName]);
+
+  const download = useCallback(async (): Promise<string | null> => {
+    if (!message.fileUrl || !message.fileName) return null;
+
+    try {
+      return await FileTransferService.downloadMessageFile(messageId, message.fileUrl, message.fileName);
+    } catch {
+      Alert.alert('Download Failed', 'Could not download the file. Please try again.');
+      return null;
+    }
+  }, [messageId, message.fileUrl, message.fileName]);
+
+  const pause = useCallback(() => FileTransferService.pause(messageId).catch(() => {}), [messageId]);
+  const resume = useCallback(() => FileTransferService.resume(messageId).catch(() => {}), [messageId]);
+  const cancel = useCallback(() => FileTransferService.cancel(messageId), [messageId]);
+
+  return {
+    status,
+    localUri: status?.state === 'completed' ? status.localUri ?? null : null,
+    download,
+    pause,
+    resume,
+    cancel,
+  };
+}
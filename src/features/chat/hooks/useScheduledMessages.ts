@@ -0,0 +1,88 @@
+/**
+ * useScheduledMessages Hook
+ *
+ * Manages the current user's scheduled messages for an open chat
+ * - Loads from SQLite, then subscribes to Firestore while the chat is open
+ * - Exposes schedule, edit and cancel handlers with error alerts
+ */
+
+import type { MessageReplyOptions, UpdateScheduledMessageData } from '@/shared/types';
+import { useChatStore } from '@/store';
+import { useCallback, useEffect } from 'react';
+import { Alert } from 'react-native';
+
+interface UseScheduledMessagesOptions {
+  visible: boolean;
+  chatId: string | null;
+  userId: string | undefined;
+}
+
+export function useScheduledMessages({
+  visible,
+  chatId,
+  userId,
+}: UseScheduledMessagesOptions) {
+  const {
+    scheduledMessages,
+    loadScheduledMessages,
+    subscribeToScheduledMessages,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  } = useChatStore();
+
+  // Load and listen while the chat is open
+  useEffect(() => {
+    if (!visible || !chatId || !userId) return;
+
+    loadScheduledMessages(chatId, userId).then(() => {
+      subscribeToScheduledMessages(chatId, userId);
+    });
+
+    return () => {
+      const { scheduledMessagesUnsubscribe } = useChatStore.getState();
+      if (scheduledMessagesUnsubscribe) {
+        scheduledMessagesUnsubscribe();
+      }
+      useChatStore.setState({ scheduledMessagesUnsubscribe: null, scheduledMessages: [] });
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, chatId, userId]);
+
+  // Schedule a text message (rethrows so the picker stays open on failure)
+  const handleScheduleMessage = useCallback(async (
+    text: string,
+    scheduledFor: number,
+    replyOptions?: MessageReplyOptions
+  ) => {
+    if (!userId || !chatId) return;
+
+    try {
+      await scheduleMessage(chatId, userId, text, scheduledFor, replyOptions);
+    } catch (error) {
+      console.error('Failed to schedule message:', error);
+      Alert.alert('Error', 'Failed to schedule message. Please try again.');
+      throw error;
+    }
+  }, [userId, chatId, scheduleMessage]);
+
+  const handleUpdateScheduledMessage = useCallback(async (
+    scheduledMessageId: string,
+    updates: UpdateScheduledMessageData
+  ) => {
+    if (!chatId) return;
+    await updateScheduledMessage(chatId, scheduledMessageId, updates);
+  }, [chatId, updateScheduledMessage]);
+
+  const handleCancelScheduledMessage = useCallback(async (scheduledMessageId: string) => {
+    if (!chatId) return;
+    await cancelScheduledMessage(chatId, scheduledMessageId);
+  }, [chatId, cancelScheduledMessage]);
+
+  return {
+    scheduledMessages,
+    handleScheduleMessage,
+    handleUpdateScheduledMessage,
+    handleCancelScheduledMessage,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * useVoiceRecorder Hook
+ *
+ * Records voice messages with expo-audio
+ * - Microphone permission handling
+ * - Live duration and input level
+ * - Waveform samples captured from metering
+ */
+
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+  useAudioRecorderState,
+} from 'expo-audio';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { meteringToAmplitude } from '../utils/messageUtils';
+
+const METERING_INTERVAL = 100; // ms between level samples
+const MIN_RECORDING_MS = 500; // Ignore accidental taps
+const MAX_RECORDING_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface VoiceRecording {
+  uri: string;
+  durationMs: number;
+  waveform: number[];
+}
+
+export function useVoiceRecorder() {
+  const recorder = useAudioRecorder({ ...RecordingPresets.HIGH_QUALITY, isMeteringEnabled: true });
+  const recorderState = useAudioRecorderState(recorder, METERING_INTERVAL);
+  const [isRecording, setIsRecording] = useState(false);
+  const waveformRef = useRef<number[]>([]);
+
+  // Collect a waveform sample on every status update while recording
+  useEffect(() => {
+    if (!isRecording || !recorderState.isRecording) return;
+    waveformRef.current.push(meteringToAmplitude(recorderState.metering ?? -160));
+  }, [isRecording, recorderState.isRecording, recorderState.durationMillis, recorderState.metering]);
+
+  const startRecording = useCallback(async (): Promise<boolean> => {
+    try {
+      const { granted } = await requestRecordingPermissionsAsync();
+      if (!granted) {
+        Alert.alert('Permission Denied', 'We need microphone permissions to record voice messages.');
+        return false;
+      }
+
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      waveformRef.current = [];
+      recorder.record();
+      setIsRecording(true);
+      return true;
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      Alert.alert('Error', 'Failed to start recording');
+      return false;
+    }
+  }, [recorder]);
+
+  // Stop and return the recording (null if it was too short to send)
+  const stopRecording = useCallback(async (): Promise<VoiceRecording | null> => {
+    if (!isRecording) return null;
+
+    const durationMs = recorderState.durationMillis;
+    try {
+      await recorder.stop();
+      await setAudioModeAsync({ allowsRecording: false });
+    } catch (error) {
+      console.error('Error stopping recording:', error);
+    } finally {
+      setIsRecording(false);
+    }
+
+    if (!recorder.uri || durationMs < MIN_RECORDING_MS) {
+      return null;
+    }
+
+    return {
+      uri: recorder.uri,
+      durationMs,
+      waveform: waveformRef.current,
+    };
+  }, [isRecording, recorder, recorderState.durationMillis]);
+
+  const cancelRecording = useCallback(async () => {
+    await stopRecording();
+    waveformRef.current = [];
+  }, [stopRecording]);
+
+  // Stop automatically at the maximum length
+  const reachedLimit = isRecording && recorderState.durationMillis >= MAX_RECORDING_MS;
+
+  return {
+    isRecording,
+    reachedLimit,
+    durationMs: isRecording ? recorderState.durationMillis : 0,
+    level: isRecording ? meteringToAmplitude(recorderState.metering ?? -160) : 0,
+    startRecording,
+    stopRecording,
+    cancelRecording,
+  };
+}
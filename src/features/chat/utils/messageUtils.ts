@@ -4,7 +4,8 @@
  * Pure functions for message processing, sorting, and filtering
  */
 
-import { Message } from '@/shared/types';
+import { Message, MessageReplyPreview } from '@/shared/types';
+import { getPollPreviewText } from '@/shared/utils';
 
 export type ListItem = 
   | { type: 'message'; data: Message }
@@ -71,7 +72,8 @@ export function shouldShowAvatar(listItems: ListItem[], index: number): boolean
   const nextMsg = nextItem.data;
   
   // Different sender - show avatar for current message (last in this sender's group)
-  if (currentMsg.senderId !== nextMsg.senderId) {
+  // System messages also end a group
+  if (currentMsg.senderId !== nextMsg.senderId || nextMsg.type === 'system') {
     return true;
   }
   
@@ -124,3 +126,89 @@ export function getMessageText(message: Message): string | undefined {
     ? message.caption 
     : message.text;
 }
+
+/**
+ * Build the quoted-message snapshot stored on a reply
+ */
+export function buildReplyPreview(message: Message, maxLength: number = 120): MessageReplyPreview {
+  const text = message.type === 'image'
+    ? (message.caption || '📷 Photo')
+    : message.type === 'voice'
+      ? '🎤 Voice message'
+      : message.type === 'file'
+        ? `📎 ${message.fileName || 'File'}`
+        : message.type === 'poll'
+          ? getPollPreviewText(message.poll)
+          : (message.text || '');
+
+  return {
+    senderId: message.senderId,
+    text: text.length > maxLength ? `${text.substring(0, maxLength)}...` : text,
+    type: message.type,
+  };
+}
+
+/**
+ * Format a duration in milliseconds as m:ss
+ */
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Convert a recorder metering level (dBFS, -160 to 0) to a 0-1 amplitude
+ */
+export function meteringToAmplitude(db: number, floorDb: number = -60): number {
+  if (!Number.isFinite(db) || db <= floorDb) return 0;
+  if (db >= 0) return 1;
+  return (db - floorDb) / -floorDb;
+}
+
+/**
+ * Resample waveform amplitudes to a fixed number of bars (bucket averages)
+ */
+export function resampleWaveform(samples: number[], barCount: number): number[] {
+  if (samples.length === 0) {
+    return new Array(barCount).fill(0);
+  }
+
+  const bars: number[] = [];
+  const bucketSize = samples.length / barCount;
+
+  for (let i = 0; i < barCount; i++) {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.max(start + 1, Math.floor((i + 1) * bucketSize));
+    const bucket = samples.slice(start, Math.min(end, samples.length));
+    const average = bucket.length > 0
+      ? bucket.reduce((sum, value) => sum + value, 0) / bucket.length
+      : samples[samples.length - 1];
+    bars.push(Math.round(average * 100) / 100);
+  }
+
+  return bars;
+}
+
+/**
+ * Format a scheduled delivery time relative to today
+ * e.g. "Today at 3:15 PM", "Tomorrow at 9:00 AM", "Mon, Oct 20 at 9:00 AM"
+ */
+export function formatScheduledTime(timestamp: number, now: number = Date.now()): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const startOfDay = (value: number) => {
+    const day = new Date(value);
+    day.setHours(0, 0, 0, 0);
+    return day.getTime();
+  };
+  const dayDiff = Math.round((startOfDay(timestamp) - startOfDay(now)) / (24 * 60 * 60 * 1000));
+
+  if (dayDiff === 0) return `Today at ${time}`;
+  if (dayDiff === 1) return `Tomorrow at ${time}`;
+
+  const day = date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  return `${day} at ${time}`;
+}
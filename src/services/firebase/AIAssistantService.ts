@@ -0,0 +1,129 @@
+/**
+ * AIAssistantService - Streamed answers from the AI Assistant
+ *
+ * Talks to the aiAssistantStream Cloud Function, an HTTPS endpoint that sends
+ * server-sent events: the answer token by token, then the cited sources, then
+ * a final status. Uses XMLHttpRequest because React Native's fetch can't read
+ * a response body before it has fully arrived.
+ *
+ * The URL defaults to the deployed function; set
+ * EXPO_PUBLIC_AI_ASSISTANT_STREAM_URL to use the emulator or another region.
+ */
+
+import { AIAssistantHistoryMessage, AIAssistantSource, AIAssistantStreamStatus } from '@/shared/types';
+import { createSSEParser, ServerSentEvent } from '@/shared/utils/ServerSentEvents';
+import { app, auth } from './FirebaseConfig';
+
+export interface AIAssistantStreamHandlers {
+  onToken: (text: string) => void;
+  onSources: (sources: AIAssistantSource[]) => void;
+  onDone: (status: AIAssistantStreamStatus, error?: string) => void;  // Called exactly once
+}
+
+export interface AIAssistantStream {
+  cancel: () => void;
+}
+
+const streamUrl = (): string =>
+  process.env.EXPO_PUBLIC_AI_ASSISTANT_STREAM_URL ||
+  `https://us-central1-${app.options.projectId}.cloudfunctions.net/aiAssistantStream`;
+
+/**
+ * Message from a JSON error response (callable error format)
+ */
+const errorMessage = (responseText: string): string => {
+  try {
+    return JSON.parse(responseText).error?.message || 'AI Assistant failed';
+  } catch {
+    return 'AI Assistant failed';
+  }
+};
+
+export class AIAssistantService {
+  /**
+   * Ask a question and receive the answer as it is generated
+   * Returns a handle to cancel the request (keeps what has streamed so far)
+   */
+  static streamAnswer(
+    query: string,
+    conversationHistory: AIAssistantHistoryMessage[],
+    handlers: AIAssistantStreamHandlers
+  ): AIAssistantStream {
+    let xhr: XMLHttpRequest | null = null;
+    let finished = false;
+    let received = 0;
+
+    const finish = (status: AIAssistantStreamStatus, error?: string) => {
+      if (finished) return;
+      finished = true;
+      handlers.onDone(status, error);
+    };
+
+    const handleEvent = ({ event, data }: ServerSentEvent) => {
+      if (finished) return;
+      try {
+        const payload = JSON.parse(data);
+        if (event === 'token') {
+          handlers.onToken(payload.text);
+        } else if (event === 'sources') {
+          handlers.onSources(payload.sources || []);
+        } else if (event === 'done') {
+          finish(payload.status, payload.error);
+        }
+      } catch (error) {
+        console.error('Error reading AI Assistant event:', error);
+      }
+    };
+    const parse = createSSEParser(handleEvent);
+
+    // Only the text that arrived since the last progress event
+    const readProgress = () => {
+      if (!xhr) return;
+      const text = xhr.responseText || '';
+      parse(text.slice(received));
+      received = text.length;
+    };
+
+    const start = async () => {
+      try {
+        const user = auth.currentUser;
+        if (!user) {
+          throw new Error('User must be authenticated');
+        }
+        const idToken = await user.getIdToken();
+        if (finished) return; // Cancelled while getting the token
+
+        xhr = new XMLHttpRequest();
+        xhr.open('POST', streamUrl());
+        xhr.setRequestHeader('Content-Type', 'application/json');
+        xhr.setRequestHeader('Authorization', `Bearer ${idToken}`);
+        xhr.onprogress = readProgress;
+        xhr.onload = () => {
+          if (xhr!.status !== 200) {
+            finish('error', errorMessage(xhr!.responseText));
+            return;
+          }
+          readProgress();
+          parse('\n\n'); // Flush an event without its trailing blank line
+          finish('error', 'The answer was cut off. Please try again.');
+        };
+        xhr.onerror = () => finish('error', 'Network error. Please try again.');
+        xhr.send(JSON.stringify({ query, conversationHistory }));
+      } catch (error: any) {
+        console.error('Error starting AI Assistant stream:', error);
+        finish('error', error?.message || 'AI Assistant failed');
+      }
+    };
+
+    start();
+
+    return {
+      cancel: () => {
+        if (finished) return;
+        finish('cancelled');
+        // Closing the connection stops the model on the server
+        xhr?.abort();
+      },
+    };
+  }
+}
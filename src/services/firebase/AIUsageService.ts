@@ -0,0 +1,26 @@
+/**
+ * AIUsageService - Monthly AI allowance
+ *
+ * Usage is tracked server-side (aiUsage/{userId} isn't readable by clients),
+ * so it's fetched through the getAIUsage Cloud Function.
+ */
+
+import { AIUsageSummary } from '@/shared/types';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './FirebaseConfig';
+
+export class AIUsageService {
+  /**
+   * Get the current user's AI usage for this month
+   */
+  static async getUsage(): Promise<AIUsageSummary> {
+    try {
+      const getUsageFn = httpsCallable<void, { usage: AIUsageSummary }>(functions, 'getAIUsage');
+      const result = await getUsageFn();
+      return result.data.usage;
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * ActionItemService - AI-extracted action items, decisions and open questions
+ *
+ * Extraction runs in the extractActionItems Cloud Function, which only
+ * analyzes messages sent since the last run. After the first extraction the
+ * server keeps the results current as new messages arrive, so the Tasks panel
+ * listens to /chats/{chatId}/metadata/actionItems.
+ */
+
+import { ChatActionItems } from '@/shared/types';
+import { doc, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from './FirebaseConfig';
+
+export class ActionItemService {
+  /**
+   * Extract from messages that haven't been analyzed yet
+   * Returns everything extracted so far
+   */
+  static async extract(chatId: string): Promise<ChatActionItems> {
+    try {
+      const extractFn = httpsCallable<{ chatId: string }, { actionItems: ChatActionItems }>(functions, 'extractActionItems');
+      const result = await extractFn({ chatId });
+      return result.data.actionItems;
+    } catch (error) {
+      console.error('Error extracting action items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Real-time listener for a chat's extracted items (null until the first extraction)
+   * Returns unsubscribe function
+   */
+  static subscribeToActionItems(
+    chatId: string,
+    onUpdate: (actionItems: ChatActionItems | null) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      doc(firestore, 'chats', chatId, 'metadata', 'actionItems'),
+      (snapshot) => {
+        onUpdate(snapshot.exists() ? (snapshot.data() as ChatActionItems) : null);
+      },
+      (error) => {
+        onError(error as Error);
+      }
+    );
+  }
+}
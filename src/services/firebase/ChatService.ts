@@ -8,21 +8,24 @@
  * - Chat participant management
  */
 
-import { Chat } from '@/shared/types';
+import { Chat, ChatPreferences, ParticipantReadState } from '@/shared/types';
 import {
     collection,
+    collectionGroup,
     doc,
     getDoc,
     getDocs,
     onSnapshot,
     orderBy,
     query,
+    runTransaction,
     serverTimestamp,
     Unsubscribe,
     updateDoc,
     where,
     writeBatch
 } from 'firebase/firestore';
+import { ENCRYPTED_MESSAGE_PREVIEW, EncryptionService } from './EncryptionService';
 import { firestore } from './FirebaseConfig';
 
 export class ChatService {
@@ -164,8 +167,14 @@ export class ChatService {
         groupIcon: data.groupIcon,
         groupDescription: data.groupDescription,
         groupAdminId: data.groupAdminId,
+        groupAdminIds: data.groupAdminIds,
+        groupModeratorIds: data.groupModeratorIds,
+        mutedMemberIds: data.mutedMemberIds,
+        groupSettings: data.groupSettings,
         inviteCode: data.inviteCode,
         detectedLanguages: data.detectedLanguages || [],
+        encrypted: data.encrypted === true,
+        encryptionKeyVersion: data.encryptionKeyVersion || undefined,
       };
     } catch (error) {
       console.error('Error getting chat:', error);
@@ -223,8 +232,14 @@ export class ChatService {
           groupIcon: data.groupIcon,
           groupDescription: data.groupDescription,
           groupAdminId: data.groupAdminId,
+          groupAdminIds: data.groupAdminIds,
+          groupModeratorIds: data.groupModeratorIds,
+          mutedMemberIds: data.mutedMemberIds,
+          groupSettings: data.groupSettings,
           inviteCode: data.inviteCode,
           detectedLanguages: data.detectedLanguages || [],
+          encrypted: data.encrypted === true,
+          encryptionKeyVersion: data.encryptionKeyVersion || undefined,
         });
       }
 
@@ -238,6 +253,7 @@ export class ChatService {
   /**
    * Update chat's last message info
    * Called after sending a new message
+   * Encrypted chats get a placeholder instead of the message text
    */
   static async updateChatLastMessage(
     chatId: string,
@@ -249,7 +265,7 @@ export class ChatService {
     try {
       const chatRef = doc(firestore, 'chats', chatId);
       const updateData: any = {
-        lastMessageText: messageText,
+        lastMessageText: EncryptionService.isChatEncrypted(chatId) ? ENCRYPTED_MESSAGE_PREVIEW : messageText,
         lastMessageTime: timestamp !== undefined ? timestamp : serverTimestamp(),
         lastMessageSenderId: senderId,
       };
@@ -323,10 +339,19 @@ export class ChatService {
               groupIcon: data.groupIcon,
               groupDescription: data.groupDescription,
               groupAdminId: data.groupAdminId,
+              groupAdminIds: data.groupAdminIds,
+              groupModeratorIds: data.groupModeratorIds,
+              mutedMemberIds: data.mutedMemberIds,
+              groupSettings: data.groupSettings,
               inviteCode: data.inviteCode,
               detectedLanguages: data.detectedLanguages || [],
+              encrypted: data.encrypted === true,
+              encryptionKeyVersion: data.encryptionKeyVersion || undefined,
             };
             
+            // Keep the encryption state current for sending and chat previews
+            EncryptionService.setChatEncryption(doc.id, chat.encrypted, data.encryptionKeyVersion || 1);
+            
             chats.push(chat);
           }
 
@@ -347,7 +372,12 @@ export class ChatService {
   static async getParticipant(
     chatId: string,
     userId: string
-  ): Promise<{ unreadCount: number; joinedAt?: number } | null> {
+  ): Promise<({
+    unreadCount: number;
+    joinedAt?: number;
+    readWatermark: number | null;
+    deliveredWatermark: number | null;
+  } & ChatPreferences) | null> {
     try {
       const participantRef = doc(firestore, 'chats', chatId, 'participants', userId);
       const participantSnap = await getDoc(participantRef);
@@ -360,6 +390,11 @@ export class ChatService {
       return {
         unreadCount: data.unreadCount || 0,
         joinedAt: data.joinedAt?.toMillis?.() || 0,
+        readWatermark: data.readWatermark ?? null,
+        deliveredWatermark: data.deliveredWatermark ?? null,
+        mutedUntil: data.mutedUntil ?? null,
+        pinned: data.pinned === true,
+        archived: data.archived === true,
       };
     } catch (error) {
       console.error('Error getting participant:', error);
@@ -386,6 +421,23 @@ export class ChatService {
     }
   }
   
+  /**
+   * Update a participant's mute / pin / archive preferences
+   */
+  static async updateChatPreferences(
+    chatId: string,
+    userId: string,
+    preferences: ChatPreferences
+  ): Promise<void> {
+    try {
+      const participantRef = doc(firestore, 'chats', chatId, 'participants', userId);
+      await updateDoc(participantRef, { ...preferences });
+    } catch (error) {
+      console.error('Error updating chat preferences:', error);
+      throw error;
+    }
+  }
+  
   /**
    * Increment unread count for a participant
    */
@@ -415,14 +467,35 @@ export class ChatService {
   static async markChatAsRead(
     chatId: string,
     userId: string,
-    lastMessageId: string
+    lastMessageId: string,
+    readUpTo?: number
   ): Promise<void> {
     try {
       const participantRef = doc(firestore, 'chats', chatId, 'participants', userId);
-      await updateDoc(participantRef, {
-        lastReadMessageId: lastMessageId,
-        lastReadTimestamp: serverTimestamp(),
-        unreadCount: 0,
+
+      // Watermarks only move forward (another device may have read further),
+      // so they're compared and written in one transaction
+      await runTransaction(firestore, async (transaction) => {
+        const watermarks: Record<string, number> = {};
+
+        if (readUpTo !== undefined) {
+          const participantSnap = await transaction.get(participantRef);
+          const data = participantSnap.exists() ? participantSnap.data() : {};
+          if (readUpTo > (data.readWatermark ?? 0)) {
+            watermarks.readWatermark = readUpTo;
+          }
+          // Reading a message implies it was delivered
+          if (readUpTo > (data.deliveredWatermark ?? 0)) {
+            watermarks.deliveredWatermark = readUpTo;
+          }
+        }
+
+        transaction.update(participantRef, {
+          lastReadMessageId: lastMessageId,
+          lastReadTimestamp: serverTimestamp(),
+          unreadCount: 0,
+          ...watermarks,
+        });
       });
     } catch (error) {
       console.error('Error marking chat as read:', error);
@@ -430,6 +503,94 @@ export class ChatService {
     }
   }
 
+  /**
+   * Mark the messages of a chat up to a timestamp as delivered to this user
+   * No-op when the delivered watermark is already there
+   */
+  static async markChatAsDelivered(
+    chatId: string,
+    userId: string,
+    deliveredUpTo: number
+  ): Promise<void> {
+    try {
+      const participantRef = doc(firestore, 'chats', chatId, 'participants', userId);
+
+      await runTransaction(firestore, async (transaction) => {
+        const participantSnap = await transaction.get(participantRef);
+        if (!participantSnap.exists() || deliveredUpTo <= (participantSnap.data().deliveredWatermark ?? 0)) {
+          return;
+        }
+
+        transaction.update(participantRef, { deliveredWatermark: deliveredUpTo });
+      });
+    } catch (error) {
+      console.error('Error marking chat as delivered:', error);
+    }
+  }
+
+  /**
+   * Listen to how far every participant of a chat has read
+   * (group receipts and the "Seen by" sheet)
+   * Returns unsubscribe function
+   */
+  static subscribeToReadStates(
+    chatId: string,
+    onUpdate: (readStates: ParticipantReadState[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      collection(firestore, 'chats', chatId, 'participants'),
+      (snapshot) => {
+        onUpdate(snapshot.docs.map(participantDoc => {
+          const data = participantDoc.data();
+          return {
+            userId: participantDoc.id,
+            joinedAt: data.joinedAt?.toMillis?.() || 0,
+            readWatermark: data.readWatermark ?? null,
+            deliveredWatermark: data.deliveredWatermark ?? null,
+          };
+        }));
+      },
+      (error) => {
+        onError(error as Error);
+      }
+    );
+  }
+
+  /**
+   * Listen to the unread counts of every chat of a user
+   * Reading a chat on another device resets its count here too.
+   * Returns unsubscribe function
+   */
+  static subscribeToUnreadCounts(
+    userId: string,
+    onUpdate: (unreadCounts: Map<string, number>) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    const participantsQuery = query(
+      collectionGroup(firestore, 'participants'),
+      where('userId', '==', userId)
+    );
+
+    return onSnapshot(
+      participantsQuery,
+      (snapshot) => {
+        const unreadCounts = new Map<string, number>();
+        for (const participantDoc of snapshot.docs) {
+          // chats/{chatId}/participants/{userId}
+          const chatId = participantDoc.ref.parent.parent?.id;
+          if (chatId) {
+            unreadCounts.set(chatId, participantDoc.data().unreadCount || 0);
+          }
+        }
+        onUpdate(unreadCounts);
+      },
+      (error) => {
+        onError(error as Error);
+      }
+    );
+  }
+
   /**
    * Update detected languages in chat (max 5 languages)
    * Only adds language if it's not already in the array
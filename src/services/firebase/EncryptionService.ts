@@ -0,0 +1,378 @@
+/**
+ * EncryptionService - End-to-end encryption for one-on-one chats
+ *
+ * Handles:
+ * - Per-device key pairs (secret key in the device keychain, public key on the user profile)
+ * - Turning encryption on for a chat and sealing the chat key to every participant device
+ * - Sharing the chat key with devices added later
+ * - Encrypting / decrypting message content
+ *
+ * Only text, captions, quoted previews and edit history are encrypted.
+ * Attachments (images, voice, files) are still uploaded as-is.
+ */
+
+import { EncryptedMessageContent, User } from '@/shared/types';
+import {
+    decryptWithChatKey,
+    DeviceKeyPair,
+    encryptWithChatKey,
+    generateChatKey,
+    generateDeviceKeyPair,
+    openChatKey,
+    sealChatKey
+} from '@/shared/utils/Encryption';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { Platform } from 'react-native';
+import { auth, firestore } from './FirebaseConfig';
+
+/**
+ * Chat list preview written instead of the message text in encrypted chats
+ */
+export const ENCRYPTED_MESSAGE_PREVIEW = '🔒 Encrypted message';
+
+/**
+ * Shown in place of messages this device has no key for
+ */
+export const UNDECRYPTABLE_MESSAGE_TEXT = '🔒 Waiting for this message. It can\'t be decrypted on this device.';
+
+export interface ChatEncryptionState {
+  encrypted: boolean;
+  keyVersion: number;
+}
+
+export interface EncryptedPayload {
+  ciphertext: string;
+  nonce: string;
+  keyVersion: number;
+}
+
+interface DeviceIdentity extends DeviceKeyPair {
+  userId: string;
+  deviceId: string;
+}
+
+const deviceStorageKey = (userId: string) => `e2ee_device_${userId}`;
+const chatKeyStorageKey = (chatId: string, keyVersion: number) => `e2ee_chat_${chatId}_v${keyVersion}`;
+
+export class EncryptionService {
+  private static identity: DeviceIdentity | null = null;
+  private static identityPromise: Promise<DeviceIdentity> | null = null;
+  private static chatStates = new Map<string, ChatEncryptionState>();
+  private static chatKeys = new Map<string, string>();
+
+  /**
+   * Load (or create) this device's key pair and publish its public key
+   * Call this after user signs in
+   */
+  static async initializeDevice(userId: string): Promise<DeviceIdentity> {
+    if (this.identity?.userId === userId) {
+      return this.identity;
+    }
+    if (!this.identityPromise) {
+      this.identityPromise = this.loadDeviceIdentity(userId).finally(() => {
+        this.identityPromise = null;
+      });
+    }
+    return this.identityPromise;
+  }
+
+  private static async loadDeviceIdentity(userId: string): Promise<DeviceIdentity> {
+    try {
+      const stored = await SecureStore.getItemAsync(deviceStorageKey(userId));
+      let identity: DeviceIdentity;
+
+      if (stored) {
+        identity = JSON.parse(stored);
+      } else {
+        identity = { userId, deviceId: Crypto.randomUUID(), ...generateDeviceKeyPair() };
+        await SecureStore.setItemAsync(deviceStorageKey(userId), JSON.stringify(identity));
+      }
+
+      // Re-publish every time so a wiped profile entry is restored
+      await updateDoc(doc(firestore, 'users', userId), {
+        [`deviceKeys.${identity.deviceId}`]: {
+          publicKey: identity.publicKey,
+          platform: Platform.OS,
+          createdAt: Date.now(),
+        },
+      });
+
+      this.identity = identity;
+      return identity;
+    } catch (error) {
+      console.error('Error initializing encryption keys:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Identity of the signed-in user's device (initialized on demand)
+   */
+  private static async getIdentity(): Promise<DeviceIdentity | null> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) {
+      return null;
+    }
+    return this.initializeDevice(userId);
+  }
+
+  /**
+   * Record a chat's encryption state (from the chat list)
+   */
+  static setChatEncryption(chatId: string, encrypted: boolean, keyVersion: number = 1): void {
+    // Encryption can't be turned off, so never downgrade a known encrypted chat
+    if (!encrypted && this.chatStates.get(chatId)?.encrypted) {
+      return;
+    }
+    this.chatStates.set(chatId, { encrypted, keyVersion });
+  }
+
+  /**
+   * Whether a chat is known to be encrypted (cached state only)
+   */
+  static isChatEncrypted(chatId: string): boolean {
+    return this.chatStates.get(chatId)?.encrypted === true;
+  }
+
+  /**
+   * Get a chat's encryption state, reading the chat document if not cached
+   */
+  static async getChatEncryption(chatId: string): Promise<ChatEncryptionState> {
+    const cached = this.chatStates.get(chatId);
+    if (cached) {
+      return cached;
+    }
+
+    const chatSnap = await getDoc(doc(firestore, 'chats', chatId));
+    const data = chatSnap.exists() ? chatSnap.data() : null;
+    const state = { encrypted: data?.encrypted === true, keyVersion: data?.encryptionKeyVersion || 1 };
+    this.chatStates.set(chatId, state);
+    return state;
+  }
+
+  /**
+   * Public keys of every device a user has published
+   */
+  private static async getDeviceKeys(userId: string): Promise<{ deviceId: string; publicKey: string }[]> {
+    const userSnap = await getDoc(doc(firestore, 'users', userId));
+    const deviceKeys = (userSnap.exists() ? (userSnap.data() as User).deviceKeys : null) || {};
+    return Object.entries(deviceKeys).map(([deviceId, key]) => ({ deviceId, publicKey: key.publicKey }));
+  }
+
+  /**
+   * Turn on end-to-end encryption for a one-on-one chat
+   * Seals a new chat key to every device of both participants
+   */
+  static async enableEncryption(chatId: string, userId: string): Promise<void> {
+    try {
+      const chatSnap = await getDoc(doc(firestore, 'chats', chatId));
+      if (!chatSnap.exists()) {
+        throw new Error('Chat not found');
+      }
+
+      const chat = chatSnap.data();
+      if (chat.type !== 'one-on-one') {
+        throw new Error('Encryption is only available in one-on-one chats');
+      }
+      if (!chat.participants.includes(userId)) {
+        throw new Error('You are not a participant in this chat');
+      }
+      if (chat.encrypted) {
+        this.setChatEncryption(chatId, true, chat.encryptionKeyVersion || 1);
+        return;
+      }
+
+      await this.initializeDevice(userId);
+
+      const recipients: { userId: string; deviceId: string; publicKey: string }[] = [];
+      for (const participantId of chat.participants as string[]) {
+        const devices = await this.getDeviceKeys(participantId);
+        if (devices.length === 0) {
+          throw new Error('The other person needs to update the app before encryption can be turned on');
+        }
+        recipients.push(...devices.map((device) => ({ userId: participantId, ...device })));
+      }
+
+      const keyVersion = (chat.encryptionKeyVersion || 0) + 1;
+      const chatKey = generateChatKey();
+      const batch = writeBatch(firestore);
+
+      for (const recipient of recipients) {
+        batch.set(doc(firestore, 'chats', chatId, 'keys', `${recipient.deviceId}_v${keyVersion}`), {
+          userId: recipient.userId,
+          deviceId: recipient.deviceId,
+          keyVersion,
+          ...sealChatKey(chatKey, recipient.publicKey),
+          createdAt: serverTimestamp(),
+        });
+      }
+
+      batch.update(doc(firestore, 'chats', chatId), {
+        encrypted: true,
+        encryptionKeyVersion: keyVersion,
+        encryptionEnabledBy: userId,
+        encryptionEnabledAt: serverTimestamp(),
+      });
+
+      await batch.commit();
+
+      await this.cacheChatKey(chatId, keyVersion, chatKey);
+      this.setChatEncryption(chatId, true, keyVersion);
+    } catch (error) {
+      console.error('Error enabling encryption:', error);
+      throw error;
+    }
+  }
+
+  private static async cacheChatKey(chatId: string, keyVersion: number, chatKey: string): Promise<void> {
+    this.chatKeys.set(chatKeyStorageKey(chatId, keyVersion), chatKey);
+    await SecureStore.setItemAsync(chatKeyStorageKey(chatId, keyVersion), chatKey);
+  }
+
+  /**
+   * Get the chat key for this device (memory → keychain → sealed envelope)
+   * Returns null if the key was never shared with this device
+   */
+  static async getChatKey(chatId: string, keyVersion: number): Promise<string | null> {
+    const storageKey = chatKeyStorageKey(chatId, keyVersion);
+    const cached = this.chatKeys.get(storageKey);
+    if (cached) {
+      return cached;
+    }
+
+    const identity = await this.getIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const stored = await SecureStore.getItemAsync(storageKey);
+    if (stored) {
+      this.chatKeys.set(storageKey, stored);
+      return stored;
+    }
+
+    const envelopeSnap = await getDoc(doc(firestore, 'chats', chatId, 'keys', `${identity.deviceId}_v${keyVersion}`));
+    if (!envelopeSnap.exists()) {
+      return null;
+    }
+
+    const envelope = envelopeSnap.data();
+    const chatKey = openChatKey(
+      {
+        ephemeralPublicKey: envelope.ephemeralPublicKey,
+        nonce: envelope.nonce,
+        encryptedKey: envelope.encryptedKey,
+      },
+      identity.secretKey
+    );
+
+    if (chatKey) {
+      await this.cacheChatKey(chatId, keyVersion, chatKey);
+    }
+    return chatKey;
+  }
+
+  /**
+   * Seal the current chat key to participant devices that don't have it yet
+   * (e.g. a participant signed in on a new phone). Needs a device that has the key.
+   */
+  static async shareKeyWithNewDevices(chatId: string, participants: string[]): Promise<void> {
+    try {
+      const { encrypted, keyVersion } = await this.getChatEncryption(chatId);
+      if (!encrypted) {
+        return;
+      }
+
+      const chatKey = await this.getChatKey(chatId, keyVersion);
+      if (!chatKey) {
+        return;
+      }
+
+      const envelopesSnap = await getDocs(
+        query(collection(firestore, 'chats', chatId, 'keys'), where('keyVersion', '==', keyVersion))
+      );
+      const sharedDeviceIds = new Set(envelopesSnap.docs.map((envelope) => envelope.data().deviceId));
+
+      const batch = writeBatch(firestore);
+      let newDevices = 0;
+
+      for (const participantId of participants) {
+        for (const device of await this.getDeviceKeys(participantId)) {
+          if (sharedDeviceIds.has(device.deviceId)) {
+            continue;
+          }
+          batch.set(doc(firestore, 'chats', chatId, 'keys', `${device.deviceId}_v${keyVersion}`), {
+            userId: participantId,
+            deviceId: device.deviceId,
+            keyVersion,
+            ...sealChatKey(chatKey, device.publicKey),
+            createdAt: serverTimestamp(),
+          });
+          newDevices++;
+        }
+      }
+
+      if (newDevices > 0) {
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error('Error sharing chat key with new devices:', error);
+      // Don't throw - the next device to open the chat will try again
+    }
+  }
+
+  /**
+   * Encrypt message content with the chat's current key
+   * Throws rather than falling back to plaintext
+   */
+  static async encryptContent(chatId: string, content: EncryptedMessageContent): Promise<EncryptedPayload> {
+    const { keyVersion } = await this.getChatEncryption(chatId);
+    const chatKey = await this.getChatKey(chatId, keyVersion);
+    if (!chatKey) {
+      throw new Error('Encryption key is not available on this device');
+    }
+
+    return { ...encryptWithChatKey(JSON.stringify(content), chatKey), keyVersion };
+  }
+
+  /**
+   * Decrypt message content
+   * Returns null if this device has no key for it or the data was tampered with
+   */
+  static async decryptContent(chatId: string, payload: EncryptedPayload): Promise<EncryptedMessageContent | null> {
+    try {
+      const chatKey = await this.getChatKey(chatId, payload.keyVersion || 1);
+      if (!chatKey) {
+        return null;
+      }
+
+      const plaintext = decryptWithChatKey(payload, chatKey);
+      return plaintext ? JSON.parse(plaintext) : null;
+    } catch (error) {
+      console.error('Error decrypting message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget cached keys and chat state (on sign out)
+   * Keys stay in the keychain for the next sign-in on this device
+   */
+  static clearCache(): void {
+    this.identity = null;
+    this.chatStates.clear();
+    this.chatKeys.clear();
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * FileTransferService - Upload and download manager for file attachments
+ *
+ * Handles:
+ * - Resumable uploads to Firebase Storage (pause / resume / cancel)
+ * - Resumable downloads to local storage for opening and sharing
+ * - Per-message transfer status that UI components can subscribe to
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import {
+    getDownloadURL,
+    ref,
+    uploadBytesResumable,
+    UploadTask
+} from 'firebase/storage';
+import { storage } from './FirebaseConfig';
+import type { UploadProgress } from './StorageService';
+
+export const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB in bytes (matches storage rules)
+
+const ATTACHMENTS_DIR = `${FileSystem.documentDirectory}attachments/`;
+
+export type FileTransferDirection = 'upload' | 'download';
+export type FileTransferState = 'active' | 'paused' | 'completed' | 'failed';
+
+export interface FileTransferStatus {
+  direction: FileTransferDirection;
+  state: FileTransferState;
+  progress: number; // 0-100
+  localUri?: string; // Set once a download completes
+}
+
+type FileTransferListener = (status: FileTransferStatus | undefined) => void;
+
+// Active transfers and their status, keyed by message ID
+const uploadTasks = new Map<string, UploadTask>();
+const downloadTasks = new Map<string, FileSystem.DownloadResumable>();
+const statuses = new Map<string, FileTransferStatus>();
+const listeners = new Map<string, Set<FileTransferListener>>();
+
+/**
+ * Storage object names can't contain path separators
+ */
+const toStorageFileName = (fileName: string): string =>
+  fileName.replace(/[/\\#?[\]*]/g, '_').trim() || 'file';
+
+export class FileTransferService {
+  /**
+   * Current transfer status for a message (undefined if nothing is in flight)
+   */
+  static getStatus(messageId: string): FileTransferStatus | undefined {
+    return statuses.get(messageId);
+  }
+
+  /**
+   * Subscribe to transfer status changes for a message
+   * Returns unsubscribe function
+   */
+  static subscribe(messageId: string, listener: FileTransferListener): () => void {
+    if (!listeners.has(messageId)) {
+      listeners.set(messageId, new Set());
+    }
+    listeners.get(messageId)!.add(listener);
+
+    return () => {
+      const messageListeners = listeners.get(messageId);
+      messageListeners?.delete(listener);
+      if (messageListeners?.size === 0) {
+        listeners.delete(messageId);
+      }
+    };
+  }
+
+  /**
+   * Storage path for a message attachment
+   */
+  static getStoragePath(chatId: string, messageId: string, fileName: string): string {
+    return `chats/${chatId}/${messageId}/files/${toStorageFileName(fileName)}`;
+  }
+
+  /**
+   * Upload a file attachment (resumable)
+   * Returns download URL
+   */
+  static async uploadMessageFile(
+    chatId: string,
+    messageId: string,
+    fileUri: string,
+    fileName: string,
+    mimeType: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<string> {
+    try {
+      const fileInfo = await FileSystem.getInfoAsync(fileUri);
+      if (!fileInfo.exists || fileInfo.size === undefined) {
+        throw new Error('File not found or size unavailable');
+      }
+      if (fileInfo.size > MAX_FILE_SIZE) {
+        throw new Error('File exceeds 25MB limit');
+      }
+
+      // Read file as blob
+      const response = await fetch(fileUri);
+      const blob = await response.blob();
+
+      const fileRef = ref(storage, this.getStoragePath(chatId, messageId, fileName));
+      const uploadTask = uploadBytesResumable(fileRef, blob, {
+        contentType: mimeType,
+        contentDisposition: `attachment; filename="${encodeURIComponent(fileName)}"`,
+      });
+      uploadTasks.set(messageId, uploadTask);
+      this.setStatus(messageId, { direction: 'upload', state: 'active', progress: 0 });
+
+      await new Promise<void>((resolve, reject) => {
+        uploadTask.on(
+          'state_changed',
+          (snapshot) => {
+            const progress = {
+              bytesTransferred: snapshot.bytesTransferred,
+              totalBytes: snapshot.totalBytes,
+              progress: snapshot.totalBytes > 0 ? (snapshot.bytesTransferred / snapshot.totalBytes) * 100 : 0,
+            };
+            this.setStatus(messageId, {
+              direction: 'upload',
+              state: snapshot.state === 'paused' ? 'paused' : 'active',
+              progress: progress.progress,
+            });
+            onProgress?.(progress);
+          },
+          (error) => reject(error),
+          () => resolve()
+        );
+      });
+
+      const fileUrl = await getDownloadURL(fileRef);
+      this.setStatus(messageId, { direction: 'upload', state: 'completed', progress: 100 });
+      return fileUrl;
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      this.setStatus(messageId, { direction: 'upload', state: 'failed', progress: 0 });
+      throw error;
+    } finally {
+      uploadTasks.delete(messageId);
+    }
+  }
+
+  /**
+   * Local path where a downloaded attachment is kept
+   */
+  static getLocalFileUri(messageId: string, fileName: string): string {
+    return `${ATTACHMENTS_DIR}${messageId}/${toStorageFileName(fileName)}`;
+  }
+
+  /**
+   * Return the local copy of an attachment if it was already downloaded
+   */
+  static async getDownloadedFileUri(messageId: string, fileName: string): Promise<string | null> {
+    const localUri = this.getLocalFileUri(messageId, fileName);
+    const fileInfo = await FileSystem.getInfoAsync(localUri);
+    return fileInfo.exists ? localUri : null;
+  }
+
+  /**
+   * Download an attachment (resumable)
+   * Returns the local URI, or null if the download was paused or cancelled
+   */
+  static async downloadMessageFile(
+    messageId: string,
+    fileUrl: string,
+    fileName: string
+  ): Promise<string | null> {
+    try {
+      const existingUri = await this.getDownloadedFileUri(messageId, fileName);
+      if (existingUri) {
+        this.setStatus(messageId, { direction: 'download', state: 'completed', progress: 100, localUri: existingUri });
+        return existingUri;
+      }
+
+      // Already downloading - progress is reported through the status listeners
+      if (downloadTasks.has(messageId)) {
+        return null;
+      }
+
+      const localUri = this.getLocalFileUri(messageId, fileName);
+      await FileSystem.makeDirectoryAsync(`${ATTACHMENTS_DIR}${messageId}/`, { intermediates: true });
+
+      const downloadTask = FileSystem.createDownloadResumable(
+        fileUrl,
+        localUri,
+        {},
+        ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+          if (statuses.get(messageId)?.state === 'paused') return;
+          this.setStatus(messageId, {
+            direction: 'download',
+            state: 'active',
+            progress: totalBytesExpectedToWrite > 0 ? (totalBytesWritten / totalBytesExpectedToWrite) * 100 : 0,
+          });
+        }
+      );
+      downloadTasks.set(messageId, downloadTask);
+      this.setStatus(messageId, { direction: 'download', state: 'active', progress: 0 });
+
+      return await this.finishDownload(messageId, downloadTask.downloadAsync());
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      downloadTasks.delete(messageId);
+      this.setStatus(messageId, { direction: 'download', state: 'failed', progress: 0 });
+      throw error;
+    }
+  }
+
+  /**
+   * Pause an active upload or download
+   */
+  static async pause(messageId: string): Promise<void> {
+    const status = statuses.get(messageId);
+    if (!status || status.state !== 'active') return;
+
+    try {
+      if (status.direction === 'upload') {
+        uploadTasks.get(messageId)?.pause();
+      } else {
+        await downloadTasks.get(messageId)?.pauseAsync();
+      }
+      this.setStatus(messageId, { ...status, state: 'paused' });
+    } catch (error) {
+      console.error('Error pausing file transfer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused upload or download
+   */
+  static async resume(messageId: string): Promise<void> {
+    const status = statuses.get(messageId);
+    if (!status || status.state !== 'paused') return;
+
+    try {
+      this.setStatus(messageId, { ...status, state: 'active' });
+
+      if (status.direction === 'upload') {
+        uploadTasks.get(messageId)?.resume();
+        return;
+      }
+
+      const downloadTask = downloadTasks.get(messageId);
+      if (downloadTask) {
+        await this.finishDownload(messageId, downloadTask.resumeAsync());
+      }
+    } catch (error) {
+      console.error('Error resuming file transfer:', error);
+      downloadTasks.delete(messageId);
+      this.setStatus(messageId, { ...status, state: 'failed' });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an upload or download and discard partial data
+   */
+  static async cancel(messageId: string): Promise<void> {
+    const status = statuses.get(messageId);
+    if (!status) return;
+
+    try {
+      if (status.direction === 'upload') {
+        // Rejects the pending uploadMessageFile promise with storage/canceled
+        uploadTasks.get(messageId)?.cancel();
+      } else {
+        const downloadTask = downloadTasks.get(messageId);
+        downloadTasks.delete(messageId);
+        if (downloadTask) {
+          await downloadTask.cancelAsync();
+          await FileSystem.deleteAsync(downloadTask.fileUri, { idempotent: true });
+        }
+      }
+    } catch (error) {
+      console.error('Error cancelling file transfer:', error);
+    } finally {
+      statuses.delete(messageId);
+      this.notify(messageId);
+    }
+  }
+
+  /**
+   * Settle a download (or resumed download) promise
+   * A missing result means the download was paused or cancelled
+   */
+  private static async finishDownload(
+    messageId: string,
+    downloadPromise: Promise<FileSystem.FileSystemDownloadResult | undefined>
+  ): Promise<string | null> {
+    const result = await downloadPromise;
+    if (!result) {
+      return null;
+    }
+
+    downloadTasks.delete(messageId);
+
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(result.uri, { idempotent: true });
+      throw new Error(`Download failed with status ${result.status}`);
+    }
+
+    this.setStatus(messageId, { direction: 'download', state: 'completed', progress: 100, localUri: result.uri });
+    return result.uri;
+  }
+
+  private static setStatus(messageId: string, status: FileTransferStatus): void {
+    statuses.set(messageId, status);
+    this.notify(messageId);
+  }
+
+  private static notify(messageId: string): void {
+    const status = statuses.get(messageId);
+    listeners.get(messageId)?.forEach((listener) => listener(status));
+  }
+}
@@ -1,10 +1,11 @@
 /**
  * Friend Request Service
  * 
- * Handles friend request operations in Firestore
+ * Handles friend request operations in Firestore, and blocking users
+ * (users/{userId}/blockedUsers/{blockedUserId})
  */
 
-import { FriendRequest } from '@/shared/types';
+import { BlockedUser, FriendRequest } from '@/shared/types';
 import {
     addDoc,
     collection,
@@ -29,6 +30,7 @@ export class FriendRequestService {
   private static readonly FRIEND_REQUESTS_COLLECTION = 'friendRequests';
   private static readonly USERS_COLLECTION = 'users';
   private static readonly CHATS_COLLECTION = 'chats';
+  private static readonly BLOCKED_USERS_COLLECTION = 'blockedUsers';
 
   /**
    * Send a friend request
@@ -53,6 +55,14 @@ export class FriendRequestService {
         return { success: false, error: 'User not found' };
       }
 
+      // Blocked in either direction (don't tell the sender they were blocked)
+      if (await this.isBlocked(fromUserId, toUserId)) {
+        return { success: false, error: 'Unblock this user to send a friend request' };
+      }
+      if (await this.isBlocked(toUserId, fromUserId)) {
+        return { success: false, error: 'Unable to send friend request' };
+      }
+
       // Check if request already exists
       const existingRequest = await this.getExistingRequest(fromUserId, toUserId);
       if (existingRequest) {
@@ -465,5 +475,112 @@ export class FriendRequestService {
       return { success: false, error: error.message };
     }
   }
-}
 
+  /**
+   * Block a user
+   * Also removes any friend requests between the two users and the contact on both sides
+   */
+  static async blockUser(
+    userId: string,
+    blockedUserId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!userId || !blockedUserId) {
+        return { success: false, error: 'Invalid user IDs' };
+      }
+
+      if (userId === blockedUserId) {
+        return { success: false, error: 'Cannot block yourself' };
+      }
+
+      const requestsRef = collection(firestore, this.FRIEND_REQUESTS_COLLECTION);
+      const [sentSnapshot, receivedSnapshot] = await Promise.all([
+        getDocs(query(requestsRef, where('fromUserId', '==', userId), where('toUserId', '==', blockedUserId))),
+        getDocs(query(requestsRef, where('fromUserId', '==', blockedUserId), where('toUserId', '==', userId))),
+      ]);
+
+      const batch = writeBatch(firestore);
+
+      batch.set(
+        doc(firestore, this.USERS_COLLECTION, userId, this.BLOCKED_USERS_COLLECTION, blockedUserId),
+        {
+          userId: blockedUserId,
+          blockedAt: Date.now(),
+        }
+      );
+
+      for (const requestDoc of [...sentSnapshot.docs, ...receivedSnapshot.docs]) {
+        batch.delete(requestDoc.ref);
+      }
+
+      // Remove from each other's contacts
+      batch.delete(doc(firestore, this.USERS_COLLECTION, userId, 'contacts', blockedUserId));
+      batch.delete(doc(firestore, this.USERS_COLLECTION, blockedUserId, 'contacts', userId));
+
+      await batch.commit();
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('❌ Failed to block user:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Unblock a user
+   * Contacts removed when blocking are not restored - they can send a new friend request
+   */
+  static async unblockUser(
+    userId: string,
+    blockedUserId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await deleteDoc(
+        doc(firestore, this.USERS_COLLECTION, userId, this.BLOCKED_USERS_COLLECTION, blockedUserId)
+      );
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('❌ Failed to unblock user:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get the users blocked by a user (most recently blocked first)
+   */
+  static async getBlockedUsers(userId: string): Promise<BlockedUser[]> {
+    try {
+      const blockedRef = collection(firestore, this.USERS_COLLECTION, userId, this.BLOCKED_USERS_COLLECTION);
+      const querySnapshot = await getDocs(query(blockedRef, orderBy('blockedAt', 'desc')));
+
+      return await Promise.all(
+        querySnapshot.docs.map(async (blockedDoc) => {
+          const profile = await UserService.getProfile(blockedDoc.id);
+
+          return {
+            userId: blockedDoc.id,
+            username: profile?.username || '',
+            displayName: profile?.displayName || 'Unknown user',
+            profilePictureUrl: profile?.profilePictureUrl || null,
+            blockedAt: blockedDoc.data().blockedAt,
+          };
+        })
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to get blocked users:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if userId has blocked otherUserId
+   * Readable by both of them (see firestore.rules)
+   */
+  static async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    const blockedSnap = await getDoc(
+      doc(firestore, this.USERS_COLLECTION, userId, this.BLOCKED_USERS_COLLECTION, otherUserId)
+    );
+    return blockedSnap.exists();
+  }
+}
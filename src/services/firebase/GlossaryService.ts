@@ -0,0 +1,152 @@
+/**
+ * GlossaryService - Firestore operations for translation glossaries
+ *
+ * Handles:
+ * - Real-time listener for a chat's or a user's glossary
+ * - Adding, editing and removing entries
+ *
+ * The translateMessage Cloud Function reads both glossaries and tells the
+ * model to use the entries whose term appears in the message.
+ */
+
+import { GlossaryEntry, GlossaryEntryInput, GlossaryScope } from '@/shared/types';
+import {
+    collection,
+    CollectionReference,
+    deleteDoc,
+    doc,
+    onSnapshot,
+    orderBy,
+    query,
+    setDoc,
+    Unsubscribe,
+    updateDoc
+} from 'firebase/firestore';
+import { firestore } from './FirebaseConfig';
+
+const MAX_TERM_LENGTH = 100;
+const MAX_TRANSLATION_LENGTH = 200;
+
+/**
+ * Glossary collection for a scope (ownerId is the chat ID or the user ID)
+ */
+const glossaryCollection = (scope: GlossaryScope, ownerId: string): CollectionReference =>
+  scope === 'chat'
+    ? collection(firestore, 'chats', ownerId, 'glossary')
+    : collection(firestore, 'users', ownerId, 'glossary');
+
+/**
+ * Trim and check an entry before it is written
+ */
+const normalizeInput = (input: GlossaryEntryInput): GlossaryEntryInput => {
+  const term = input.term.trim();
+  const translation = input.translation?.trim() || null;
+
+  if (!term) {
+    throw new Error('Glossary term cannot be empty');
+  }
+  if (term.length > MAX_TERM_LENGTH) {
+    throw new Error(`Glossary term must be at most ${MAX_TERM_LENGTH} characters`);
+  }
+  if (translation && translation.length > MAX_TRANSLATION_LENGTH) {
+    throw new Error(`Translation must be at most ${MAX_TRANSLATION_LENGTH} characters`);
+  }
+
+  return { term, translation, targetLanguage: input.targetLanguage || null };
+};
+
+export class GlossaryService {
+  /**
+   * Add a glossary entry
+   * Pass translation: null for terms that should never be translated
+   */
+  static async addEntry(
+    scope: GlossaryScope,
+    ownerId: string,
+    userId: string,
+    input: GlossaryEntryInput
+  ): Promise<GlossaryEntry> {
+    try {
+      const entryRef = doc(glossaryCollection(scope, ownerId));
+      const now = Date.now();
+      const data = {
+        ...normalizeInput(input),
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await setDoc(entryRef, data);
+
+      return { id: entryRef.id, scope, ...data };
+    } catch (error) {
+      console.error('Error adding glossary entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an entry's term, translation and language
+   */
+  static async updateEntry(
+    scope: GlossaryScope,
+    ownerId: string,
+    entryId: string,
+    input: GlossaryEntryInput
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(glossaryCollection(scope, ownerId), entryId), {
+        ...normalizeInput(input),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('Error updating glossary entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an entry
+   */
+  static async deleteEntry(scope: GlossaryScope, ownerId: string, entryId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(glossaryCollection(scope, ownerId), entryId));
+    } catch (error) {
+      console.error('Error deleting glossary entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a glossary, sorted by term
+   * Returns unsubscribe function
+   */
+  static subscribeToGlossary(
+    scope: GlossaryScope,
+    ownerId: string,
+    onUpdate: (entries: GlossaryEntry[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      query(glossaryCollection(scope, ownerId), orderBy('term', 'asc')),
+      (snapshot) => {
+        onUpdate(snapshot.docs.map((entryDoc) => {
+          const data = entryDoc.data();
+          return {
+            id: entryDoc.id,
+            scope,
+            term: data.term,
+            translation: data.translation ?? null,
+            targetLanguage: data.targetLanguage ?? null,
+            createdBy: data.createdBy,
+            createdAt: data.createdAt,
+            updatedAt: data.updatedAt,
+          };
+        }));
+      },
+      (error) => {
+        onError(error as Error);
+      }
+    );
+  }
+}
@@ -3,28 +3,61 @@
  * 
  * Handles all group chat operations in Firestore
  * - Create/update/delete groups
- * - Add/remove members
- * - Admin role management
- * - Group invite links
+ * - Add/remove/mute members
+ * - Admin and moderator roles, group settings
+ * - Named invite links (expiry, usage limits, approval) and join requests
+ * - System messages ("Alice added Bob") for membership changes
+ *
+ * Permissions are enforced by firestore.rules; the checks here only give
+ * friendlier errors.
  */
 
-import { Chat, ChatParticipant, UpdateGroupData } from '@/shared/types';
+import {
+    Chat,
+    ChatParticipant,
+    ChatRole,
+    CreateInviteLinkOptions,
+    GroupInviteLink,
+    GroupInvitePreview,
+    GroupJoinRequest,
+    GroupSettings,
+    JoinGroupResult,
+    UpdateGroupData
+} from '@/shared/types';
 import { generateInviteCode } from '@/shared/utils';
+import { canManageMember, DEFAULT_GROUP_SETTINGS, getGroupAdminIds, getGroupRole, getGroupSettings, isGroupAdmin } from '@/shared/utils/GroupRoles';
 import {
     arrayRemove,
     arrayUnion,
     collection,
+    deleteDoc,
     doc,
+    DocumentData,
     getDoc,
     getDocs,
+    orderBy,
     query,
     serverTimestamp,
+    setDoc,
     Timestamp,
     updateDoc,
     where,
-    writeBatch
+    writeBatch,
+    WriteBatch
 } from 'firebase/firestore';
-import { firestore } from './FirebaseConfig';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from './FirebaseConfig';
+import { UserService } from './UserService';
+
+const JOIN_REQUESTS_COLLECTION = 'joinRequests';
+const INVITE_LINKS_COLLECTION = 'inviteLinks';
+const INVITE_LINK_CODE_LENGTH = 10;
+
+const ROLE_NAMES: Record<ChatRole, string> = {
+  admin: 'an admin',
+  moderator: 'a moderator',
+  member: 'a member',
+};
 
 /**
  * Group Service
@@ -83,6 +116,10 @@ export class GroupService {
         groupDescription: description?.trim() || null,
         groupIcon: groupIcon || null,
         groupAdminId: creatorId,
+        groupAdminIds: [creatorId],
+        groupModeratorIds: [],
+        mutedMemberIds: [],
+        groupSettings: DEFAULT_GROUP_SETTINGS,
         inviteCode,
         detectedLanguages, // Initialize with empty array
       };
@@ -133,6 +170,10 @@ export class GroupService {
         groupDescription: description?.trim() || null,
         groupIcon: groupIcon || null,
         groupAdminId: creatorId,
+        groupAdminIds: [creatorId],
+        groupModeratorIds: [],
+        mutedMemberIds: [],
+        groupSettings: DEFAULT_GROUP_SETTINGS,
         inviteCode,
         detectedLanguages, // Include in return
       };
@@ -169,6 +210,10 @@ export class GroupService {
         groupDescription: data.groupDescription || null,
         groupIcon: data.groupIcon || null,
         groupAdminId: data.groupAdminId || null,
+        groupAdminIds: getGroupAdminIds(data),
+        groupModeratorIds: data.groupModeratorIds || [],
+        mutedMemberIds: data.mutedMemberIds || [],
+        groupSettings: getGroupSettings(data),
         inviteCode: data.inviteCode || null,
         detectedLanguages: data.detectedLanguages || [],
       };
@@ -180,7 +225,7 @@ export class GroupService {
 
   /**
    * Update group information (name, description, icon)
-   * Only admin can update
+   * Anyone can update, unless the group only lets admins edit info
    */
   static async updateGroupInfo(
     groupId: string,
@@ -211,13 +256,41 @@ export class GroupService {
     }
   }
 
+  /**
+   * Update group settings
+   * Only admins can change settings
+   */
+  static async updateGroupSettings(
+    groupId: string,
+    settings: Partial<GroupSettings>
+  ): Promise<void> {
+    try {
+      const chatRef = doc(firestore, 'chats', groupId);
+
+      const updateData: Record<string, unknown> = {
+        updatedAt: serverTimestamp(),
+      };
+      for (const [key, value] of Object.entries(settings)) {
+        updateData[`groupSettings.${key}`] = value;
+      }
+
+      await updateDoc(chatRef, updateData);
+    } catch (error) {
+      console.error('❌ Failed to update group settings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Add member to group
-   * Only admin can add members
+   * Any member can add others (admins and moderators when joins need approval);
+   * pass addedBy to post "X added Y" in the timeline
+   * (addedBy === userId posts "Y joined")
    */
   static async addMember(
     groupId: string,
-    userId: string
+    userId: string,
+    addedBy?: string
   ): Promise<void> {
     try {
       // Check if group exists and if user is already a member
@@ -252,6 +325,16 @@ export class GroupService {
         unreadCount: 0,
       });
 
+      if (addedBy) {
+        const [actorName, memberName] = await this.getDisplayNames(addedBy, userId);
+        this.addSystemMessage(
+          batch,
+          groupId,
+          addedBy,
+          addedBy === userId ? `${memberName} joined` : `${actorName} added ${memberName}`
+        );
+      }
+
       await batch.commit();
     } catch (error) {
       console.error('❌ Failed to add member:', error);
@@ -259,9 +342,165 @@ export class GroupService {
     }
   }
 
+  /**
+   * Remove another member from the group
+   * Admins can remove anyone; moderators can only remove members
+   */
+  static async removeMember(
+    groupId: string,
+    actorId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const groupData = await this.getGroupData(groupId);
+
+      if (!(groupData.participants || []).includes(userId)) {
+        return; // Already gone
+      }
+      if (!canManageMember(groupData, actorId, userId)) {
+        throw new Error('You don\'t have permission to remove this member');
+      }
+
+      const batch = writeBatch(firestore);
+      const chatRef = doc(firestore, 'chats', groupId);
+
+      const updateData: Record<string, unknown> = {
+        participants: arrayRemove(userId),
+        groupModeratorIds: arrayRemove(userId),
+      };
+      const adminIds = getGroupAdminIds(groupData);
+      if (adminIds.includes(userId)) {
+        const remainingAdminIds = adminIds.filter(id => id !== userId);
+        updateData.groupAdminIds = remainingAdminIds;
+        updateData.groupAdminId = remainingAdminIds[0];
+      }
+      batch.update(chatRef, updateData);
+
+      batch.delete(doc(firestore, 'chats', groupId, 'participants', userId));
+
+      const [actorName, memberName] = await this.getDisplayNames(actorId, userId);
+      this.addSystemMessage(batch, groupId, actorId, `${actorName} removed ${memberName}`);
+
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Failed to remove member:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mute or unmute a member (muted members can read but not post)
+   * Admins can mute anyone; moderators can only mute members
+   */
+  static async setMemberMuted(
+    groupId: string,
+    actorId: string,
+    userId: string,
+    muted: boolean
+  ): Promise<void> {
+    try {
+      const groupData = await this.getGroupData(groupId);
+
+      if (!canManageMember(groupData, actorId, userId)) {
+        throw new Error(`You don't have permission to ${muted ? 'mute' : 'unmute'} this member`);
+      }
+
+      const batch = writeBatch(firestore);
+
+      batch.update(doc(firestore, 'chats', groupId), {
+        mutedMemberIds: muted ? arrayUnion(userId) : arrayRemove(userId),
+      });
+
+      const [actorName, memberName] = await this.getDisplayNames(actorId, userId);
+      this.addSystemMessage(
+        batch,
+        groupId,
+        actorId,
+        `${actorName} ${muted ? 'muted' : 'unmuted'} ${memberName}`
+      );
+
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Failed to mute member:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a member's role
+   * Only admins can change roles, but anyone can step down to member.
+   * The group always keeps at least one admin.
+   */
+  static async setMemberRole(
+    groupId: string,
+    actorId: string,
+    userId: string,
+    role: ChatRole
+  ): Promise<void> {
+    try {
+      const groupData = await this.getGroupData(groupId);
+
+      const isSteppingDown = actorId === userId && role === 'member';
+      if (!isGroupAdmin(groupData, actorId) && !isSteppingDown) {
+        throw new Error('Only admins can change member roles');
+      }
+      if (!(groupData.participants || []).includes(userId)) {
+        throw new Error('User is not a member of this group');
+      }
+
+      const currentRole = getGroupRole(groupData, userId);
+      if (currentRole === role) {
+        return;
+      }
+
+      const adminIds = getGroupAdminIds(groupData).filter(id => id !== userId);
+      const moderatorIds: string[] = (groupData.groupModeratorIds || []).filter((id: string) => id !== userId);
+      if (role === 'admin') {
+        adminIds.push(userId);
+      } else if (role === 'moderator') {
+        moderatorIds.push(userId);
+      }
+
+      if (adminIds.length === 0) {
+        throw new Error('A group needs at least one admin');
+      }
+
+      const batch = writeBatch(firestore);
+
+      // Only write the lists that change (a moderator stepping down can't touch the admin list)
+      const updateData: Record<string, unknown> = {};
+      if (currentRole === 'admin' || role === 'admin') {
+        updateData.groupAdminIds = adminIds;
+        updateData.groupAdminId = adminIds[0];
+      }
+      if (currentRole === 'moderator' || role === 'moderator') {
+        updateData.groupModeratorIds = moderatorIds;
+      }
+      batch.update(doc(firestore, 'chats', groupId), updateData);
+
+      batch.update(doc(firestore, 'chats', groupId, 'participants', userId), { role });
+
+      const [actorName, memberName] = await this.getDisplayNames(actorId, userId);
+      let text: string;
+      if (role !== 'member') {
+        text = `${actorName} made ${memberName} ${ROLE_NAMES[role]}`;
+      } else if (isSteppingDown) {
+        text = `${memberName} is no longer ${ROLE_NAMES[currentRole]}`;
+      } else {
+        text = `${actorName} removed ${memberName} as ${currentRole}`;
+      }
+      this.addSystemMessage(batch, groupId, actorId, text);
+
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Failed to change member role:', error);
+      throw error;
+    }
+  }
+
   /**
    * Leave group
-   * If admin leaves, transfer to oldest member
+   * If the last admin leaves, the oldest member becomes admin
    * If last member leaves, delete group
    */
   static async leaveGroup(
@@ -277,7 +516,8 @@ export class GroupService {
       }
 
       const groupData = chatSnap.data();
-      const isAdmin = groupData.groupAdminId === userId;
+      const adminIds = getGroupAdminIds(groupData);
+      const isAdmin = adminIds.includes(userId);
       const currentParticipants = groupData.participants || [];
 
       // If user is the last member, delete the group
@@ -291,29 +531,39 @@ export class GroupService {
       // Use arrayRemove to atomically remove from participants array
       batch.update(chatRef, {
         participants: arrayRemove(userId),
+        groupModeratorIds: arrayRemove(userId),
       });
 
       // Delete participant document
       const participantRef = doc(firestore, 'chats', groupId, 'participants', userId);
       batch.delete(participantRef);
 
-      // If admin is leaving, transfer to oldest member
-      if (isAdmin && currentParticipants.length > 1) {
-        const newAdminId = await this.getOldestMember(groupId, userId);
-        if (newAdminId) {
-          batch.update(chatRef, {
-            groupAdminId: newAdminId,
-          });
-
-          // Update new admin's role
-          const newAdminParticipantRef = doc(firestore, 'chats', groupId, 'participants', newAdminId);
-          batch.update(newAdminParticipantRef, {
-            role: 'admin',
-          });
-
+      // If the last admin is leaving, hand the group to the oldest member
+      if (isAdmin) {
+        const remainingAdminIds = adminIds.filter(id => id !== userId);
+
+        if (remainingAdminIds.length === 0) {
+          const newAdminId = await this.getOldestMember(groupId, userId);
+          if (newAdminId) {
+            remainingAdminIds.push(newAdminId);
+
+            // Update new admin's role
+            const newAdminParticipantRef = doc(firestore, 'chats', groupId, 'participants', newAdminId);
+            batch.update(newAdminParticipantRef, {
+              role: 'admin',
+            });
+          }
         }
+
+        batch.update(chatRef, {
+          groupAdminIds: remainingAdminIds,
+          groupAdminId: remainingAdminIds[0] || null,
+        });
       }
 
+      const [memberName] = await this.getDisplayNames(userId);
+      this.addSystemMessage(batch, groupId, userId, `${memberName} left`);
+
       await batch.commit();
     } catch (error) {
       console.error('❌ Failed to leave group:', error);
@@ -366,12 +616,20 @@ export class GroupService {
     newAdminId: string
   ): Promise<void> {
     try {
+      const groupData = await this.getGroupData(groupId);
+      const adminIds = [
+        newAdminId,
+        ...getGroupAdminIds(groupData).filter(id => id !== currentAdminId && id !== newAdminId),
+      ];
+
       const batch = writeBatch(firestore);
 
       // Update chat document
       const chatRef = doc(firestore, 'chats', groupId);
       batch.update(chatRef, {
         groupAdminId: newAdminId,
+        groupAdminIds: adminIds,
+        groupModeratorIds: arrayRemove(newAdminId),
       });
 
       // Update old admin to member
@@ -386,6 +644,9 @@ export class GroupService {
         role: 'admin',
       });
 
+      const [actorName, memberName] = await this.getDisplayNames(currentAdminId, newAdminId);
+      this.addSystemMessage(batch, groupId, currentAdminId, `${actorName} made ${memberName} ${ROLE_NAMES.admin}`);
+
       await batch.commit();
     } catch (error) {
       console.error('❌ Failed to transfer admin:', error);
@@ -419,38 +680,185 @@ export class GroupService {
     }
   }
 
+  /**
+   * Group name, icon and member count for an invite code, shown before joining
+   * (people outside the group can't read it, so this goes through a Cloud Function)
+   */
+  static async getInvitePreview(inviteCode: string): Promise<GroupInvitePreview> {
+    try {
+      const previewFn = httpsCallable<{ code: string }, GroupInvitePreview>(functions, 'getInvitePreview');
+      const result = await previewFn({ code: inviteCode });
+      return result.data;
+    } catch (error) {
+      console.error('❌ Failed to load invite preview:', error);
+      throw error;
+    }
+  }
+
   /**
    * Join group via invite code
+   * Links that require approval (or groups that approve new members) file a
+   * join request instead. Expiry and usage limits are checked server-side.
    */
-  static async joinGroupByInviteCode(
-    inviteCode: string,
-    userId: string
-  ): Promise<string> {
+  static async joinGroupByInviteCode(inviteCode: string): Promise<JoinGroupResult> {
     try {
-      // Find group by invite code
-      const chatsRef = collection(firestore, 'chats');
-      const q = query(chatsRef, where('inviteCode', '==', inviteCode));
-      const querySnap = await getDocs(q);
+      const joinFn = httpsCallable<{ code: string }, JoinGroupResult>(functions, 'joinGroupByInvite');
+      const result = await joinFn({ code: inviteCode });
+      return result.data;
+    } catch (error) {
+      console.error('❌ Failed to join group by invite code:', error);
+      throw error;
+    }
+  }
 
-      if (querySnap.empty) {
-        throw new Error('Invalid invite code');
+  /**
+   * Create a named invite link (admins)
+   */
+  static async createInviteLink(
+    groupId: string,
+    createdBy: string,
+    options: CreateInviteLinkOptions
+  ): Promise<GroupInviteLink> {
+    try {
+      const name = options.name.trim();
+      if (!name) {
+        throw new Error('Link name is required');
+      }
+      if (options.maxUses != null && options.maxUses < 1) {
+        throw new Error('Max uses must be at least 1');
       }
 
-      const chatDoc = querySnap.docs[0];
-      const groupId = chatDoc.id;
-      const groupData = chatDoc.data();
+      const code = generateInviteCode(INVITE_LINK_CODE_LENGTH);
+      const linkData: Omit<GroupInviteLink, 'code'> = {
+        groupId,
+        name,
+        createdBy,
+        createdAt: Date.now(),
+        expiresAt: options.expiresAt ?? null,
+        maxUses: options.maxUses ?? null,
+        useCount: 0,
+        requiresApproval: options.requiresApproval ?? false,
+        revoked: false,
+        revokedAt: null,
+      };
 
-      // Check if user is already a member
-      if (groupData.participants.includes(userId)) {
-        throw new Error('You are already a member of this group');
-      }
+      await setDoc(doc(firestore, INVITE_LINKS_COLLECTION, code), linkData);
 
-      // Add user to group
-      await this.addMember(groupId, userId);
+      return { code, ...linkData };
+    } catch (error) {
+      console.error('❌ Failed to create invite link:', error);
+      throw error;
+    }
+  }
 
-      return groupId;
+  /**
+   * Get a group's invite links, newest first (admins and moderators)
+   */
+  static async getInviteLinks(groupId: string): Promise<GroupInviteLink[]> {
+    try {
+      const linksQuery = query(
+        collection(firestore, INVITE_LINKS_COLLECTION),
+        where('groupId', '==', groupId)
+      );
+      const linksSnap = await getDocs(linksQuery);
+
+      return linksSnap.docs
+        .map((linkDoc) => {
+          const data = linkDoc.data();
+          return {
+            code: linkDoc.id,
+            groupId: data.groupId,
+            name: data.name,
+            createdBy: data.createdBy,
+            createdAt: data.createdAt,
+            expiresAt: data.expiresAt ?? null,
+            maxUses: data.maxUses ?? null,
+            useCount: data.useCount || 0,
+            requiresApproval: data.requiresApproval === true,
+            revoked: data.revoked === true,
+            revokedAt: data.revokedAt ?? null,
+          };
+        })
+        .sort((a, b) => b.createdAt - a.createdAt);
     } catch (error) {
-      console.error('❌ Failed to join group by invite code:', error);
+      console.error('❌ Failed to get invite links:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an invite link (admins)
+   * Revoked links stay listed with their join count
+   */
+  static async revokeInviteLink(code: string): Promise<void> {
+    try {
+      await updateDoc(doc(firestore, INVITE_LINKS_COLLECTION, code), {
+        revoked: true,
+        revokedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('❌ Failed to revoke invite link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get pending join requests, oldest first
+   * Only admins and moderators can see them
+   */
+  static async getJoinRequests(groupId: string): Promise<GroupJoinRequest[]> {
+    try {
+      const requestsQuery = query(
+        collection(firestore, 'chats', groupId, JOIN_REQUESTS_COLLECTION),
+        orderBy('requestedAt', 'asc')
+      );
+      const requestsSnap = await getDocs(requestsQuery);
+
+      return requestsSnap.docs.map((requestDoc) => {
+        const data = requestDoc.data();
+        return {
+          userId: data.userId,
+          requestedAt: data.requestedAt?.toMillis() || Date.now(),
+          inviteLinkName: data.inviteLinkName ?? null,
+        };
+      });
+    } catch (error) {
+      console.error('❌ Failed to get join requests:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a join request (admins and moderators)
+   * Goes through a Cloud Function so the join counts against its invite link
+   */
+  static async approveJoinRequest(
+    groupId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const approveFn = httpsCallable<{ groupId: string; userId: string }, { success: boolean }>(
+        functions,
+        'approveJoinRequest'
+      );
+      await approveFn({ groupId, userId });
+    } catch (error) {
+      console.error('❌ Failed to approve join request:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decline a join request (or cancel your own)
+   */
+  static async declineJoinRequest(
+    groupId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      await deleteDoc(doc(firestore, 'chats', groupId, JOIN_REQUESTS_COLLECTION, userId));
+    } catch (error) {
+      console.error('❌ Failed to decline join request:', error);
       throw error;
     }
   }
@@ -502,6 +910,62 @@ export class GroupService {
       throw error;
     }
   }
-}
 
+  /**
+   * Read a group document
+   */
+  private static async getGroupData(groupId: string): Promise<DocumentData> {
+    const chatSnap = await getDoc(doc(firestore, 'chats', groupId));
+    if (!chatSnap.exists()) {
+      throw new Error('Group not found');
+    }
+    return chatSnap.data();
+  }
+
+  /**
+   * Display names for system messages
+   */
+  private static async getDisplayNames(...userIds: string[]): Promise<string[]> {
+    return Promise.all(userIds.map(async (userId) => {
+      try {
+        const profile = await UserService.getProfile(userId);
+        return profile?.displayName || profile?.username || 'Someone';
+      } catch {
+        return 'Someone';
+      }
+    }));
+  }
 
+  /**
+   * Post a system message ("Alice added Bob") and make it the chat preview
+   * Must be committed in the same batch as the membership change it
+   * describes - firestore.rules only accepts system messages alongside one
+   */
+  private static addSystemMessage(
+    batch: WriteBatch,
+    groupId: string,
+    actorId: string,
+    text: string
+  ): void {
+    const messageRef = doc(collection(firestore, 'chats', groupId, 'messages'));
+    batch.set(messageRef, {
+      senderId: actorId,
+      text,
+      timestamp: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      status: 'sent',
+      type: 'system',
+      reactions: {},
+      deletedFor: [],
+      deletedForEveryone: false,
+      deletedAt: null,
+    });
+
+    batch.update(doc(firestore, 'chats', groupId), {
+      lastMessageText: text,
+      lastMessageTime: serverTimestamp(),
+      lastMessageSenderId: actorId,
+      updatedAt: serverTimestamp(),
+    });
+  }
+}
@@ -7,80 +7,205 @@
  * - Message status updates
  * - Reactions
  * - Message deletion
+ * - Message editing
+ * - Quote replies and sub-threads
  * - Pagination
+ * - Transparent encryption / decryption in end-to-end encrypted chats
  */
 
-import { Message, MessageStatus, User } from '@/shared/types';
-import { Logger } from '@/shared/utils/Logger';
+import { Message, MessageChangeCursor, MessageEdit, MessageMediaData, MessageReplyOptions, MessageStatus } from '@/shared/types';
+import { validateMessageText } from '@/shared/utils/Validation';
 import {
   collection,
   doc,
   DocumentData,
+  documentId,
   getDoc,
   getDocs,
+  increment,
   limit,
   onSnapshot,
   orderBy,
   query,
   QueryDocumentSnapshot,
+  runTransaction,
   serverTimestamp,
   setDoc,
   startAfter,
+  Timestamp,
+  Transaction,
   Unsubscribe,
-  updateDoc
+  updateDoc,
+  where
 } from 'firebase/firestore';
-import { NotificationHelper } from '../NotificationHelper';
-import { firestore } from './FirebaseConfig';
-import { MessagingService } from './MessagingService';
+import { httpsCallable } from 'firebase/functions';
+import { EncryptionService, UNDECRYPTABLE_MESSAGE_TEXT } from './EncryptionService';
+import { firestore, functions } from './FirebaseConfig';
+
+/**
+ * Type-specific Firestore fields for media messages
+ */
+const getMediaFields = (mediaData?: MessageMediaData) => {
+  switch (mediaData?.type) {
+    case 'image':
+      return {
+        imageUrl: mediaData.imageUrl,
+        thumbnailUrl: mediaData.thumbnailUrl,
+        caption: mediaData.caption,
+      };
+    case 'voice':
+      return {
+        audioUrl: mediaData.audioUrl,
+        audioDuration: mediaData.audioDuration,
+        waveform: mediaData.waveform,
+        transcriptionStatus: 'pending',
+      };
+    case 'file':
+      return {
+        fileUrl: mediaData.fileUrl,
+        fileName: mediaData.fileName,
+        mimeType: mediaData.mimeType,
+        fileSize: mediaData.fileSize,
+      };
+    case 'poll':
+      return {
+        poll: mediaData.poll,
+      };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Replace the content of encrypted messages with their decrypted plaintext
+ * encryptedDocs maps message ID → raw Firestore data for encrypted messages only
+ */
+const decryptMessages = async (
+  chatId: string,
+  messages: Message[],
+  encryptedDocs: Map<string, DocumentData>
+): Promise<Message[]> => Promise.all(messages.map(async (message) => {
+  const data = encryptedDocs.get(message.id);
+  if (!data) {
+    return message;
+  }
+
+  // Deleted messages have nothing left to decrypt
+  if (data.deletedForEveryone) {
+    return { ...message, encrypted: true };
+  }
+
+  const content = await EncryptionService.decryptContent(chatId, {
+    ciphertext: data.ciphertext,
+    nonce: data.nonce,
+    keyVersion: data.keyVersion,
+  });
+
+  if (!content) {
+    return { ...message, encrypted: true, text: UNDECRYPTABLE_MESSAGE_TEXT };
+  }
+
+  return {
+    ...message,
+    encrypted: true,
+    text: content.text,
+    caption: content.caption ?? message.caption,
+    replyPreview: content.replyPreview || null,
+    editHistory: content.editHistory || [],
+  };
+}));
+
+/**
+ * Map a message document fetched for sync to a Message (timestamps in ms since epoch)
+ */
+const toSyncedMessage = (chatId: string, messageDoc: QueryDocumentSnapshot<DocumentData>): Message => {
+  const data = messageDoc.data();
+  return {
+    id: messageDoc.id,
+    chatId,
+    senderId: data.senderId,
+    text: data.text,
+    timestamp: data.timestamp ? data.timestamp.toMillis() : Date.now(),
+    status: data.status,
+    type: data.type,
+    imageUrl: data.imageUrl,
+    thumbnailUrl: data.thumbnailUrl,
+    caption: data.caption,
+    reactions: data.reactions || {},
+    deletedFor: data.deletedFor || [],
+    deletedForEveryone: data.deletedForEveryone || false,
+    deletedAt: data.deletedAt ? data.deletedAt.toMillis() : null,
+    editedAt: data.editedAt || null,
+    editHistory: data.editHistory || [],
+    replyToId: data.replyToId || null,
+    replyPreview: data.replyPreview || null,
+    threadId: data.threadId || null,
+    threadReplyCount: data.threadReplyCount || 0,
+    threadLastReplyAt: data.threadLastReplyAt || null,
+    audioUrl: data.audioUrl || null,
+    audioDuration: data.audioDuration || null,
+    waveform: data.waveform || null,
+    transcriptionStatus: data.transcriptionStatus || null,
+    fileUrl: data.fileUrl || null,
+    fileName: data.fileName || null,
+    mimeType: data.mimeType || null,
+    fileSize: data.fileSize || null,
+    poll: data.poll || null,
+    translations: data.translations || {},
+    syncStatus: 'synced',
+  };
+};
+
+/**
+ * Decrypt the encrypted messages among fetched message documents
+ */
+const toSyncedMessages = async (
+  chatId: string,
+  docs: QueryDocumentSnapshot<DocumentData>[]
+): Promise<Message[]> => {
+  const messages = docs.map(messageDoc => toSyncedMessage(chatId, messageDoc));
+  const encryptedDocs = new Map<string, DocumentData>();
+  for (const messageDoc of docs) {
+    if (messageDoc.data().encrypted) {
+      encryptedDocs.set(messageDoc.id, messageDoc.data());
+    }
+  }
+  return encryptedDocs.size > 0 ? decryptMessages(chatId, messages, encryptedDocs) : messages;
+};
 
 export class MessageService {
   /**
-   * Send a new text or image message
+   * Send a new text, image, voice, file or poll message
    */
   static async sendMessage(
     chatId: string,
     senderId: string,
     text: string,
     messageId?: string,
-    imageData?: {
-      type: 'image';
-      imageUrl: string;
-      thumbnailUrl: string;
-      caption: string | null;
-    },
+    mediaData?: MessageMediaData,
     translationMetadata?: {
       originalText?: string;
       originalLanguage?: string;
       translatedTo?: string;
       sentAsTranslation?: boolean;
-    }
+    },
+    replyOptions?: MessageReplyOptions
   ): Promise<string> {
     try {
       const newMessageId = messageId || doc(collection(firestore, 'chats', chatId, 'messages')).id;
       const messageRef = doc(firestore, 'chats', chatId, 'messages', newMessageId);
 
-      const baseMessageData = imageData ? {
-        senderId,
-        text: '',
-        timestamp: serverTimestamp(),
-        status: 'sent' as MessageStatus,
-        type: imageData.type,
-        imageUrl: imageData.imageUrl,
-        thumbnailUrl: imageData.thumbnailUrl,
-        caption: imageData.caption,
-        reactions: {},
-        deletedFor: [],
-        deletedForEveryone: false,
-        deletedAt: null,
-      } : {
+      const baseMessageData = {
         senderId,
-        text,
+        text: mediaData ? '' : text, // Voice transcripts are filled in by the transcription Cloud Function
         timestamp: serverTimestamp(),
+        updatedAt: serverTimestamp(),
         status: 'sent' as MessageStatus,
-        type: 'text',
+        type: mediaData?.type || 'text',
         imageUrl: null,
         thumbnailUrl: null,
         caption: null,
+        ...getMediaFields(mediaData),
         reactions: {},
         deletedFor: [],
         deletedForEveryone: false,
@@ -88,7 +213,7 @@ export class MessageService {
       };
 
       // Only add translation metadata if it exists (Firebase doesn't accept undefined)
-      const messageData = translationMetadata?.sentAsTranslation ? {
+      const plainMessageData = translationMetadata?.sentAsTranslation ? {
         ...baseMessageData,
         originalText: translationMetadata.originalText || null,
         originalLanguage: translationMetadata.originalLanguage || null,
@@ -96,103 +221,60 @@ export class MessageService {
         sentAsTranslation: translationMetadata.sentAsTranslation || false,
       } : baseMessageData;
 
-      await setDoc(messageRef, messageData);
+      // Only add reply fields if replying (Firebase doesn't accept undefined)
+      const plainReplyData = {
+        ...(replyOptions?.replyToId && {
+          replyToId: replyOptions.replyToId,
+          replyPreview: replyOptions.replyPreview || null,
+        }),
+        ...(replyOptions?.threadId && { threadId: replyOptions.threadId }),
+      };
 
-      // 🔔 Send push notification to other participants (only if they're offline or not in this chat)
-      try {
-        // Get chat to find participants
-        const chatDoc = await getDoc(doc(firestore, 'chats', chatId));
-        if (chatDoc.exists()) {
-          const chatData = chatDoc.data();
-          const participants = chatData.participants || [];
-          const isGroup = chatData.type === 'group';
-          
-          // Get recipients (all participants except sender)
-          const recipients = participants.filter((id: string) => id !== senderId);
-          
-          if (recipients.length > 0) {
-            // Get sender info
-            const senderDoc = await getDoc(doc(firestore, 'users', senderId));
-            if (senderDoc.exists()) {
-              const sender = { id: senderId, ...senderDoc.data() } as User;
-              
-              // Filter recipients: Only send push notifications to users who are OFFLINE or NOT in this chat
-              const { PresenceService } = await import('./PresenceService');
-              const recipientsToNotify: string[] = [];
-              const recipientNames: string[] = [];
-              
-              for (const recipientId of recipients) {
-                const recipientDoc = await getDoc(doc(firestore, 'users', recipientId));
-                if (recipientDoc.exists()) {
-                  const recipientData = recipientDoc.data();
-                  const recipientUsername = recipientData.username || 'Unknown';
-                  
-                  // Check if user is online using Firebase Realtime Database presence
-                  const presence = await PresenceService.getUserPresence(recipientId);
-                  const isOnline = presence?.isOnline || false;
-                  
-                  // Only send push notification if user is OFFLINE
-                  // In-app notifications will handle the case when user is online
-                  if (!isOnline) {
-                    recipientsToNotify.push(recipientId);
-                    recipientNames.push(recipientUsername);
-                  }
-                } else {
-                  recipientNames.push('Unknown');
-                }
-              }
-              
-              // Log message sent (all recipients)
-              const messagePreview = imageData 
-                ? `📷 ${imageData.caption || 'Image'}` 
-                : text;
-              Logger.messageSent(
-                senderId,
-                sender.username,
-                recipients,
-                recipients.map((id: string, i: number) => recipientNames[i] || 'Unknown'),
-                messagePreview.substring(0, 50) + (messagePreview.length > 50 ? '...' : '')
-              );
-              
-              // Only send push notifications to filtered recipients
-              if (recipientsToNotify.length > 0) {
-                // Format notification
-                let notificationConfig;
-                if (imageData) {
-                  notificationConfig = NotificationHelper.formatImageNotification(
-                    sender,
-                    imageData.caption || '',
-                    chatId,
-                    isGroup,
-                    chatData.groupName
-                  );
-                } else {
-                  notificationConfig = NotificationHelper.formatMessageNotification(
-                    sender,
-                    text,
-                    chatId,
-                    isGroup,
-                    chatData.groupName
-                  );
-                }
-                
-                // Send notification only to offline users or users not in this chat
-                await MessagingService.sendNotificationToUsers(
-                  recipientsToNotify,
-                  notificationConfig.title,
-                  notificationConfig.body,
-                  notificationConfig.data,
-                  senderId,
-                  sender.username
-                );
-              }
-            }
-          }
-        }
-      } catch (notifError) {
-        // Don't fail message send if notification fails
+      // In encrypted chats the content only travels as ciphertext. Translation
+      // metadata (which holds the original text) is dropped, and voice messages
+      // aren't transcribed because the server can't read them.
+      const { encrypted } = await EncryptionService.getChatEncryption(chatId);
+      if (encrypted && mediaData?.type === 'poll') {
+        // Votes are counted server-side, which would need the poll in plaintext
+        throw new Error('Polls aren\'t available in end-to-end encrypted chats');
+      }
+      let messageData: Record<string, unknown> = plainMessageData;
+      let replyData: Record<string, unknown> = plainReplyData;
+
+      if (encrypted) {
+        const payload = await EncryptionService.encryptContent(chatId, {
+          text: baseMessageData.text,
+          caption: baseMessageData.caption,
+          replyPreview: replyOptions?.replyPreview || null,
+        });
+
+        messageData = {
+          ...baseMessageData,
+          text: '',
+          caption: null,
+          ...(mediaData?.type === 'voice' && { transcriptionStatus: null }),
+          encrypted: true,
+          ...payload,
+        };
+        replyData = {
+          ...plainReplyData,
+          ...(replyOptions?.replyToId && { replyPreview: null }),
+        };
+      }
+
+      await setDoc(messageRef, { ...messageData, ...replyData });
+
+      // Bump the root message's reply count for sub-thread replies
+      if (replyOptions?.threadId) {
+        await updateDoc(doc(firestore, 'chats', chatId, 'messages', replyOptions.threadId), {
+          threadReplyCount: increment(1),
+          threadLastReplyAt: Date.now(),
+          updatedAt: serverTimestamp(),
+        });
       }
 
+      // Push notifications are fanned out by the sendMessageNotifications Cloud Function
+
       return newMessageId;
     } catch (error) {
       console.error('Error sending message:', error);
@@ -219,6 +301,7 @@ export class MessageService {
         senderId,
         text: '',
         timestamp: serverTimestamp(),
+        updatedAt: serverTimestamp(),
         status: 'sent' as MessageStatus,
         type: 'image',
         imageUrl,
@@ -266,10 +349,14 @@ export class MessageService {
 
       const snapshot = await getDocs(messagesQuery);
       const messages: Message[] = [];
+      const encryptedDocs = new Map<string, DocumentData>();
       let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
 
       snapshot.forEach((doc) => {
         const data = doc.data();
+        if (data.encrypted) {
+          encryptedDocs.set(doc.id, data);
+        }
         messages.push({
           id: doc.id,
           chatId,
@@ -285,11 +372,31 @@ export class MessageService {
           deletedFor: data.deletedFor || [],
           deletedForEveryone: data.deletedForEveryone || false,
           deletedAt: data.deletedAt ? data.deletedAt.toDate() : null,
+          editedAt: data.editedAt || null,
+          editHistory: data.editHistory || [],
+          replyToId: data.replyToId || null,
+          replyPreview: data.replyPreview || null,
+          threadId: data.threadId || null,
+          threadReplyCount: data.threadReplyCount || 0,
+          threadLastReplyAt: data.threadLastReplyAt || null,
+          audioUrl: data.audioUrl || null,
+          audioDuration: data.audioDuration || null,
+          waveform: data.waveform || null,
+          transcriptionStatus: data.transcriptionStatus || null,
+          fileUrl: data.fileUrl || null,
+          fileName: data.fileName || null,
+          mimeType: data.mimeType || null,
+          fileSize: data.fileSize || null,
+          poll: data.poll || null,
           syncStatus: 'synced',
         });
         lastDoc = doc;
       });
 
+      if (encryptedDocs.size > 0) {
+        return { messages: await decryptMessages(chatId, messages, encryptedDocs), lastDoc };
+      }
+
       return { messages, lastDoc };
     } catch (error) {
       console.error('Error getting messages:', error);
@@ -297,6 +404,83 @@ export class MessageService {
     }
   }
 
+  /**
+   * Get messages changed (created, edited, reacted to, deleted, ...) after a sync cursor, oldest change first
+   * Every message write stamps `updatedAt`, so this is the delta since the cursor.
+   * Messages written before that are left out until `backfillMessageChanges` ran for the chat.
+   * Returns the cursor of the last change in the page (null if the page is empty),
+   * and whether more changes may follow it.
+   */
+  static async getMessageChanges(
+    chatId: string,
+    since: MessageChangeCursor | null,
+    limitCount: number = 100
+  ): Promise<{ messages: Message[]; cursor: MessageChangeCursor | null; hasMore: boolean }> {
+    try {
+      const changesQuery = query(
+        collection(firestore, 'chats', chatId, 'messages'),
+        orderBy('updatedAt'),
+        orderBy(documentId()),
+        ...(since ? [startAfter(Timestamp.fromMillis(since.updatedAt), since.messageId)] : []),
+        limit(limitCount)
+      );
+
+      const snapshot = await getDocs(changesQuery);
+      const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      const cursor = lastDoc
+        ? { updatedAt: lastDoc.data().updatedAt.toMillis(), messageId: lastDoc.id }
+        : null;
+
+      // Cursors are stored in ms, so the change at the cursor itself can come back
+      const docs = snapshot.docs.filter(messageDoc =>
+        !(since && messageDoc.id === since.messageId && messageDoc.data().updatedAt.toMillis() === since.updatedAt)
+      );
+
+      return {
+        messages: await toSyncedMessages(chatId, docs),
+        cursor,
+        hasMore: snapshot.docs.length === limitCount,
+      };
+    } catch (error) {
+      console.error('Error getting message changes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stamp `updatedAt` on the chat's messages written before every write set it (once per chat)
+   * Without it, later changes to those messages never show up in `getMessageChanges`.
+   */
+  static async backfillMessageChanges(chatId: string): Promise<void> {
+    const backfillFn = httpsCallable<{ chatId: string }, { updated: number }>(functions, 'backfillMessageUpdatedAt');
+    await backfillFn({ chatId });
+  }
+
+  /**
+   * Get a page of history sent no later than a timestamp (ms), newest first (the latest messages if null)
+   * Timestamps are compared in whole ms, so messages from the same ms as the previous page come back again.
+   */
+  static async getMessagesBefore(
+    chatId: string,
+    before: number | null,
+    limitCount: number = 100
+  ): Promise<Message[]> {
+    try {
+      const historyQuery = query(
+        collection(firestore, 'chats', chatId, 'messages'),
+        ...(before !== null ? [where('timestamp', '<', Timestamp.fromMillis(before + 1))] : []),
+        orderBy('timestamp', 'desc'),
+        limit(limitCount)
+      );
+
+      const snapshot = await getDocs(historyQuery);
+      return await toSyncedMessages(chatId, snapshot.docs);
+    } catch (error) {
+      console.error('Error getting message history:', error);
+      throw error;
+    }
+  }
+
   /**
    * Subscribe to real-time message updates
    * Returns unsubscribe function
@@ -313,14 +497,22 @@ export class MessageService {
       limit(limitCount)
     );
 
+    // Decryption is async, so drop results from snapshots that were superseded meanwhile
+    let snapshotSequence = 0;
+
     return onSnapshot(
       messagesQuery,
       (snapshot) => {
+        const sequence = ++snapshotSequence;
         try {
           const messages: Message[] = [];
+          const encryptedDocs = new Map<string, DocumentData>();
           
           snapshot.forEach((doc) => {
             const data = doc.data();
+            if (data.encrypted) {
+              encryptedDocs.set(doc.id, data);
+            }
             messages.push({
               id: doc.id,
               chatId,
@@ -336,13 +528,120 @@ export class MessageService {
               deletedFor: data.deletedFor || [],
               deletedForEveryone: data.deletedForEveryone || false,
               deletedAt: data.deletedAt ? data.deletedAt.toDate() : null,
-              // Translations are stored locally only, not in Firestore
-              translations: {},
+              editedAt: data.editedAt || null,
+              editHistory: data.editHistory || [],
+              replyToId: data.replyToId || null,
+              replyPreview: data.replyPreview || null,
+              threadId: data.threadId || null,
+              threadReplyCount: data.threadReplyCount || 0,
+              threadLastReplyAt: data.threadLastReplyAt || null,
+              audioUrl: data.audioUrl || null,
+              audioDuration: data.audioDuration || null,
+              waveform: data.waveform || null,
+              transcriptionStatus: data.transcriptionStatus || null,
+              fileUrl: data.fileUrl || null,
+              fileName: data.fileName || null,
+              mimeType: data.mimeType || null,
+              fileSize: data.fileSize || null,
+              poll: data.poll || null,
+              // Translations are stored locally, except the ones the edit trigger
+              // regenerates after a message is edited
+              translations: data.translations || {},
               detectedLanguage: undefined,
               syncStatus: 'synced',
             });
           });
 
+          if (encryptedDocs.size > 0) {
+            decryptMessages(chatId, messages, encryptedDocs)
+              .then((decrypted) => {
+                if (sequence === snapshotSequence) {
+                  onUpdate(decrypted.reverse());
+                }
+              })
+              .catch((error) => onError(error as Error));
+            return;
+          }
+
+          // Reverse to show oldest first
+          onUpdate(messages.reverse());
+        } catch (error) {
+          onError(error as Error);
+        }
+      },
+      (error) => {
+        onError(error as Error);
+      }
+    );
+  }
+
+  /**
+   * Subscribe to real-time replies in a message's sub-thread
+   * Returns unsubscribe function
+   */
+  static subscribeToThread(
+    chatId: string,
+    threadId: string,
+    onUpdate: (messages: Message[]) => void,
+    onError: (error: Error) => void,
+    limitCount: number = 100
+  ): Unsubscribe {
+    const threadQuery = query(
+      collection(firestore, 'chats', chatId, 'messages'),
+      where('threadId', '==', threadId),
+      orderBy('timestamp', 'desc'),
+      limit(limitCount)
+    );
+
+    let snapshotSequence = 0;
+
+    return onSnapshot(
+      threadQuery,
+      (snapshot) => {
+        const sequence = ++snapshotSequence;
+        try {
+          const messages: Message[] = [];
+          const encryptedDocs = new Map<string, DocumentData>();
+
+          snapshot.forEach((doc) => {
+            const data = doc.data();
+            if (data.encrypted) {
+              encryptedDocs.set(doc.id, data);
+            }
+            messages.push({
+              id: doc.id,
+              chatId,
+              senderId: data.senderId,
+              text: data.text,
+              timestamp: data.timestamp ? data.timestamp.toDate().getTime() : Date.now(),
+              status: data.status,
+              type: data.type,
+              imageUrl: data.imageUrl,
+              thumbnailUrl: data.thumbnailUrl,
+              caption: data.caption,
+              reactions: data.reactions || {},
+              deletedFor: data.deletedFor || [],
+              deletedForEveryone: data.deletedForEveryone || false,
+              editedAt: data.editedAt || null,
+              editHistory: data.editHistory || [],
+              replyToId: data.replyToId || null,
+              replyPreview: data.replyPreview || null,
+              threadId: data.threadId,
+              syncStatus: 'synced',
+            });
+          });
+
+          if (encryptedDocs.size > 0) {
+            decryptMessages(chatId, messages, encryptedDocs)
+              .then((decrypted) => {
+                if (sequence === snapshotSequence) {
+                  onUpdate(decrypted.reverse());
+                }
+              })
+              .catch((error) => onError(error as Error));
+            return;
+          }
+
           // Reverse to show oldest first
           onUpdate(messages.reverse());
         } catch (error) {
@@ -367,6 +666,7 @@ export class MessageService {
       const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
       await updateDoc(messageRef, {
         status,
+        updatedAt: serverTimestamp(),
       });
     } catch (error) {
       console.error('Error updating message status:', error);
@@ -402,7 +702,7 @@ export class MessageService {
         reactions[emoji].push(userId);
       }
 
-      await updateDoc(messageRef, { reactions });
+      await updateDoc(messageRef, { reactions, updatedAt: serverTimestamp() });
     } catch (error) {
       console.error('Error adding reaction:', error);
       throw error;
@@ -439,13 +739,159 @@ export class MessageService {
         }
       }
 
-      await updateDoc(messageRef, { reactions });
+      await updateDoc(messageRef, { reactions, updatedAt: serverTimestamp() });
     } catch (error) {
       console.error('Error removing reaction:', error);
       throw error;
     }
   }
 
+  /**
+   * Delete a message for everyone in the chat
+   * Only the sender can delete their own messages. Already deleted messages are left as they are.
+   */
+  static async deleteMessageForEveryone(
+    chatId: string,
+    messageId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+      const messageSnap = await getDoc(messageRef);
+
+      if (!messageSnap.exists()) {
+        throw new Error('Message not found');
+      }
+
+      const data = messageSnap.data();
+
+      if (data.senderId !== userId) {
+        throw new Error('You can only delete your own messages');
+      }
+      if (data.deletedForEveryone) {
+        return;
+      }
+
+      await updateDoc(messageRef, {
+        deletedForEveryone: true,
+        deletedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error deleting message for everyone:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit the text of a message
+   * Only the sender can edit their own, non-deleted text messages.
+   * The previous text is appended to editHistory so earlier versions stay visible.
+   * Returns the edit that was recorded.
+   */
+  static async editMessage(
+    chatId: string,
+    messageId: string,
+    userId: string,
+    newText: string
+  ): Promise<{ editedAt: number; editHistory: MessageEdit[] }> {
+    try {
+      const validation = validateMessageText(newText);
+      if (!validation.isValid) {
+        throw new Error(validation.error);
+      }
+
+      const messageRef = doc(firestore, 'chats', chatId, 'messages', messageId);
+
+      // Read and rewrite the history in one transaction so edits from two
+      // devices can't drop each other's revision
+      return await runTransaction(firestore, async (transaction) => {
+        const messageSnap = await transaction.get(messageRef);
+
+        if (!messageSnap.exists()) {
+          throw new Error('Message not found');
+        }
+
+        const data = messageSnap.data();
+
+        if (data.senderId !== userId) {
+          throw new Error('You can only edit your own messages');
+        }
+        if (data.type !== 'text') {
+          throw new Error('Only text messages can be edited');
+        }
+        if (data.deletedForEveryone) {
+          throw new Error('Deleted messages cannot be edited');
+        }
+
+        const trimmedText = newText.trim();
+
+        if (data.encrypted) {
+          return await this.editEncryptedMessage(chatId, transaction, messageRef, data, trimmedText);
+        }
+
+        const editHistory: MessageEdit[] = data.editHistory || [];
+
+        // Nothing to do if the text did not change
+        if (data.text === trimmedText) {
+          return { editedAt: data.editedAt || 0, editHistory };
+        }
+
+        const editedAt = Date.now();
+        const updatedHistory = [...editHistory, { text: data.text, editedAt }];
+
+        transaction.update(messageRef, {
+          text: trimmedText,
+          editedAt,
+          editHistory: updatedHistory,
+          updatedAt: serverTimestamp(),
+        });
+
+        return { editedAt, editHistory: updatedHistory };
+      });
+    } catch (error) {
+      console.error('Error editing message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit an encrypted message: the edit history lives inside the ciphertext
+   */
+  private static async editEncryptedMessage(
+    chatId: string,
+    transaction: Transaction,
+    messageRef: ReturnType<typeof doc>,
+    data: DocumentData,
+    trimmedText: string
+  ): Promise<{ editedAt: number; editHistory: MessageEdit[] }> {
+    const content = await EncryptionService.decryptContent(chatId, {
+      ciphertext: data.ciphertext,
+      nonce: data.nonce,
+      keyVersion: data.keyVersion,
+    });
+    if (!content) {
+      throw new Error('This message can\'t be decrypted on this device');
+    }
+
+    const editHistory = content.editHistory || [];
+    if (content.text === trimmedText) {
+      return { editedAt: data.editedAt || 0, editHistory };
+    }
+
+    const editedAt = Date.now();
+    const updatedHistory = [...editHistory, { text: content.text, editedAt }];
+    const payload = await EncryptionService.encryptContent(chatId, {
+      ...content,
+      text: trimmedText,
+      editHistory: updatedHistory,
+    });
+
+    transaction.update(messageRef, { ...payload, editedAt, updatedAt: serverTimestamp() });
+
+    return { editedAt, editHistory: updatedHistory };
+  }
+
   /**
    * Get a single message by ID
    */
@@ -462,7 +908,7 @@ export class MessageService {
       }
 
       const data = messageSnap.data();
-      return {
+      const message: Message = {
         id: messageSnap.id,
         chatId,
         senderId: data.senderId,
@@ -477,8 +923,31 @@ export class MessageService {
         deletedFor: data.deletedFor || [],
         deletedForEveryone: data.deletedForEveryone || false,
         deletedAt: data.deletedAt ? data.deletedAt.toDate() : null,
+        editedAt: data.editedAt || null,
+        editHistory: data.editHistory || [],
+        replyToId: data.replyToId || null,
+        replyPreview: data.replyPreview || null,
+        threadId: data.threadId || null,
+        threadReplyCount: data.threadReplyCount || 0,
+        threadLastReplyAt: data.threadLastReplyAt || null,
+        audioUrl: data.audioUrl || null,
+        audioDuration: data.audioDuration || null,
+        waveform: data.waveform || null,
+        transcriptionStatus: data.transcriptionStatus || null,
+        fileUrl: data.fileUrl || null,
+        fileName: data.fileName || null,
+        mimeType: data.mimeType || null,
+        fileSize: data.fileSize || null,
+        poll: data.poll || null,
         syncStatus: 'synced',
       };
+
+      if (data.encrypted) {
+        const [decrypted] = await decryptMessages(chatId, [message], new Map([[message.id, data]]));
+        return decrypted;
+      }
+
+      return message;
     } catch (error) {
       console.error('Error getting message:', error);
       throw error;
@@ -1,3 +1,5 @@
+import { Chat } from '@/shared/types';
+import { getBadgeCount } from '@/shared/utils/ChatPreferences';
 import { Logger } from '@/shared/utils/Logger';
 import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
@@ -339,10 +341,11 @@ class MessagingServiceClass {
 
   /**
    * Set badge count (unread count on app icon)
+   * Muted chats don't count towards the badge
    */
-  async setBadgeCount(count: number): Promise<void> {
+  async setBadgeCount(chats: Chat[]): Promise<void> {
     try {
-      await Notifications.setBadgeCountAsync(count);
+      await Notifications.setBadgeCountAsync(getBadgeCount(chats));
     } catch (error) {
       console.error('Error setting badge count:', error);
     }
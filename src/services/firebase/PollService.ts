@@ -0,0 +1,66 @@
+/**
+ * PollService - Voting on poll messages
+ *
+ * Votes go through the votePoll Cloud Function, which records the vote and
+ * updates the poll's results in one transaction, so concurrent votes are never
+ * lost. Each user's own vote is kept in
+ * /chats/{chatId}/messages/{messageId}/pollVotes/{userId}, readable only by them
+ * (in anonymous polls that's the only place it's stored).
+ *
+ * Polls are created like any other message (MessageService.sendMessage with
+ * poll media data).
+ */
+
+import { MessagePoll } from '@/shared/types';
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from './FirebaseConfig';
+
+interface PollRequest {
+  chatId: string;
+  messageId: string;
+}
+
+export class PollService {
+  /**
+   * Vote for one or more options (an empty list retracts the vote)
+   * Returns the poll's updated results
+   */
+  static async vote(chatId: string, messageId: string, optionIds: string[]): Promise<MessagePoll> {
+    try {
+      const voteFn = httpsCallable<PollRequest & { optionIds: string[] }, { poll: MessagePoll }>(functions, 'votePoll');
+      const result = await voteFn({ chatId, messageId, optionIds });
+      return result.data.poll;
+    } catch (error) {
+      console.error('Error voting on poll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a poll before its closing time (the poll's creator only)
+   */
+  static async closePoll(chatId: string, messageId: string): Promise<MessagePoll> {
+    try {
+      const closeFn = httpsCallable<PollRequest, { poll: MessagePoll }>(functions, 'closePoll');
+      const result = await closeFn({ chatId, messageId });
+      return result.data.poll;
+    } catch (error) {
+      console.error('Error closing poll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The current user's vote, or null if they haven't voted
+   */
+  static async getMyVote(chatId: string, messageId: string, userId: string): Promise<string[] | null> {
+    try {
+      const voteSnap = await getDoc(doc(firestore, 'chats', chatId, 'messages', messageId, 'pollVotes', userId));
+      return voteSnap.exists() ? (voteSnap.data().optionIds as string[]) : null;
+    } catch (error) {
+      console.error('Error getting poll vote:', error);
+      throw error;
+    }
+  }
+}
@@ -3,8 +3,9 @@
  * 
  * Handles:
  * - Typing indicators (who's currently typing in a chat)
- * - Online/offline status (user presence)
- * - Last seen timestamps
+ * - Online / away / do not disturb / offline status (user presence)
+ * - Custom status text and emoji (with an expiry)
+ * - Last seen timestamps, visible to everyone, contacts or nobody
  * 
  * Why Realtime Database instead of Firestore?
  * - Designed for ephemeral, high-frequency updates
@@ -13,6 +14,8 @@
  * - Better performance for real-time updates
  */
 
+import { CustomStatus, LastSeenVisibility, PresenceState } from '@/shared/types';
+import { getActiveCustomStatus } from '@/shared/utils/Presence';
 import {
     get,
     onDisconnect,
@@ -23,7 +26,8 @@ import {
     set,
     Unsubscribe,
 } from 'firebase/database';
-import { database } from './FirebaseConfig';
+import { httpsCallable } from 'firebase/functions';
+import { database, functions } from './FirebaseConfig';
 
 /**
  * Typing indicator structure in Realtime Database:
@@ -39,13 +43,52 @@ export interface TypingUser {
   timestamp: number;
 }
 
+/**
+ * Presence structure in Realtime Database:
+ * /presence/{userId} = { isOnline, userName, state, customStatus? }  (any signed-in user)
+ * /lastSeen/{userId} = { timestamp, visibility }  (per visibility, see database.rules.json)
+ * /contacts/{userId}/{contactId} = true  (mirrored from Firestore by Cloud Functions)
+ * /blocks/{userId}/{blockedUserId} = true  (mirrored likewise; hides both users from each other)
+ */
+
+// /presence/{userId} as stored (state and customStatus are missing on older clients' writes)
+interface PresenceRecord {
+  isOnline?: boolean;
+  userName?: string;
+  state?: PresenceState;
+  customStatus?: Partial<CustomStatus>;
+}
+
 export interface UserPresence {
-  isOnline: boolean;
-  lastSeen: number;
+  isOnline: boolean;                // Online, away or do not disturb
+  lastSeen: number | null;          // Null when hidden by the user's privacy setting
   userName: string;
+  state: PresenceState;
+  customStatus: CustomStatus | null; // Expired statuses are left out
+}
+
+/**
+ * The current user's presence preferences (from their profile)
+ */
+export interface PresenceSettings {
+  customStatus: CustomStatus | null;
+  doNotDisturb: boolean;
+  lastSeenVisibility: LastSeenVisibility;
 }
 
+const DEFAULT_PRESENCE_SETTINGS: PresenceSettings = {
+  customStatus: null,
+  doNotDisturb: false,
+  lastSeenVisibility: 'everyone',
+};
+
 export class PresenceService {
+  private static settings: PresenceSettings = DEFAULT_PRESENCE_SETTINGS;
+  // State last written for the current user (null until first set)
+  private static currentState: PresenceState | null = null;
+  // User whose blocks were mirrored this session (null until first online)
+  private static blocksSyncedFor: string | null = null;
+
   /**
    * Start typing indicator for a user in a chat
    * Updates every 2 seconds while user is typing
@@ -84,53 +127,59 @@ export class PresenceService {
 
   /**
    * Subscribe to typing indicators for a chat
+   * Listens to each participant separately: the rules deny reading the typing
+   * status of someone the current user blocked or was blocked by.
    * Returns list of users currently typing (excluding current user)
    */
   static subscribeToTyping(
     chatId: string,
     currentUserId: string,
+    participantIds: string[],
     onUpdate: (typingUsers: TypingUser[]) => void,
     onError: (error: Error) => void
   ): Unsubscribe {
-    const typingRef = ref(database, `typing/${chatId}`);
+    const typing: Record<string, { userName?: string; timestamp?: number } | null> = {};
 
-    return onValue(
-      typingRef,
-      (snapshot) => {
-        try {
-          const typingUsers: TypingUser[] = [];
-          const now = Date.now();
-          
-          snapshot.forEach((childSnapshot) => {
-            const userId = childSnapshot.key;
-            const data = childSnapshot.val();
-            
-            // Skip current user (don't show "You are typing...")
-            if (userId === currentUserId) return;
-            
-            // Only include if timestamp is recent (< 3 seconds old)
-            // This handles stale data if stopTyping failed
-            if (data?.timestamp) {
-              const timeDiff = now - data.timestamp;
-              if (timeDiff < 3000) {
-                typingUsers.push({
-                  userId: userId!,
-                  userName: data.userName || 'Someone',
-                  timestamp: data.timestamp,
-                });
-              }
-            }
-          });
-          
-          onUpdate(typingUsers);
-        } catch (error) {
-          onError(error as Error);
-        }
-      },
-      (error) => {
+    const emit = () => {
+      try {
+        const typingUsers: TypingUser[] = [];
+        const now = Date.now();
+
+        Object.entries(typing).forEach(([userId, data]) => {
+          // Only include if timestamp is recent (< 3 seconds old)
+          // This handles stale data if stopTyping failed
+          if (data?.timestamp && now - data.timestamp < 3000) {
+            typingUsers.push({
+              userId,
+              userName: data.userName || 'Someone',
+              timestamp: data.timestamp,
+            });
+          }
+        });
+
+        onUpdate(typingUsers);
+      } catch (error) {
         onError(error as Error);
       }
-    );
+    };
+
+    const unsubscribes = participantIds
+      // Skip current user (don't show "You are typing...")
+      .filter(userId => userId !== currentUserId)
+      .map(userId => onValue(
+        ref(database, `typing/${chatId}/${userId}`),
+        (snapshot) => {
+          typing[userId] = snapshot.val();
+          emit();
+        },
+        () => {
+          // Denied when either user blocked the other
+          delete typing[userId];
+          emit();
+        }
+      ));
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
   }
 
   /**
@@ -142,29 +191,37 @@ export class PresenceService {
       return;
     }
     
+    // Blocks made before the mirror existed aren't in it yet
+    if (this.blocksSyncedFor !== userId) {
+      this.blocksSyncedFor = userId;
+      void this.syncBlockedUsers();
+    }
+
     try {
-      const presenceRef = ref(database, `presence/${userId}`);
-      
-      // Set user as online
-      await set(presenceRef, {
-        isOnline: true,
-        lastSeen: serverTimestamp(),
-        userName,
-      });
-      
-      // Set up auto-disconnect to mark offline when connection drops
-      const disconnectRef = onDisconnect(presenceRef);
-      await disconnectRef.set({
-        isOnline: false,
-        lastSeen: serverTimestamp(),
-        userName,
-      });
+      await this.writePresence(userId, userName, 'online');
     } catch (error) {
       console.error('❌ Firebase: Error setting online status:', error);
       throw error;
     }
   }
 
+  /**
+   * Set user away status
+   * Called when app leaves the foreground (offline follows after AWAY_TIMEOUT_MS)
+   */
+  static async setAway(userId: string, userName: string): Promise<void> {
+    if (!userId) {
+      return;
+    }
+    
+    try {
+      await this.writePresence(userId, userName, 'away');
+    } catch (error) {
+      console.error('❌ Firebase: Error setting away status:', error);
+      throw error;
+    }
+  }
+
   /**
    * Set user offline status
    * Called when app goes to background or user logs out
@@ -175,20 +232,7 @@ export class PresenceService {
     }
     
     try {
-      const presenceRef = ref(database, `presence/${userId}`);
-      
-      // Cancel any pending onDisconnect operations before explicitly setting offline
-      try {
-        await onDisconnect(presenceRef).cancel();
-      } catch {
-        // Ignore cancel errors - may already be cancelled or not exist
-      }
-      
-      await set(presenceRef, {
-        isOnline: false,
-        lastSeen: serverTimestamp(),
-        userName,
-      });
+      await this.writePresence(userId, userName, 'offline');
     } catch (error) {
       console.error('❌ Firebase: Error setting offline status:', error);
       throw error;
@@ -196,7 +240,39 @@ export class PresenceService {
   }
 
   /**
-   * Subscribe to a user's online/offline status
+   * Apply the current user's custom status, do not disturb and last seen privacy
+   * Rewrites their presence if they're already online.
+   */
+  static async updateSettings(
+    userId: string,
+    userName: string,
+    settings: PresenceSettings
+  ): Promise<void> {
+    const previousVisibility = this.settings.lastSeenVisibility;
+    this.settings = settings;
+    if (!userId) {
+      return;
+    }
+
+    // Contacts added before the mirror existed aren't in it yet
+    if (settings.lastSeenVisibility === 'contacts' && previousVisibility !== 'contacts') {
+      await this.syncContacts();
+    }
+
+    if (!this.currentState) {
+      return;
+    }
+    
+    try {
+      await this.writePresence(userId, userName, this.currentState);
+    } catch (error) {
+      console.error('Error updating presence settings:', error);
+    }
+  }
+
+  /**
+   * Subscribe to a user's presence
+   * Last seen is left out (null) when the user hides it from the current user.
    */
   static subscribeToPresence(
     userId: string,
@@ -209,23 +285,22 @@ export class PresenceService {
     }
     
     const presenceRef = ref(database, `presence/${userId}`);
+    const lastSeenRef = ref(database, `lastSeen/${userId}`);
+    let data: PresenceRecord | null | undefined = undefined; // Undefined until the first presence snapshot
+    let lastSeen: number | null = null;
 
-    return onValue(
+    const emit = () => {
+      if (data === undefined) return;
+      // No presence data - user is offline
+      onUpdate(data ? this.toUserPresence(data, lastSeen) : null);
+    };
+
+    const unsubscribePresence = onValue(
       presenceRef,
       (snapshot) => {
         try {
-          const data = snapshot.val();
-          
-          if (data) {
-            onUpdate({
-              isOnline: data.isOnline || false,
-              lastSeen: data.lastSeen || Date.now(),
-              userName: data.userName || 'User',
-            });
-          } else {
-            // No presence data - user is offline
-            onUpdate(null);
-          }
+          data = snapshot.val();
+          emit();
         } catch (error) {
           console.error('❌ Firebase: Error in presence callback:', error);
           onError(error as Error);
@@ -236,6 +311,24 @@ export class PresenceService {
         onError(error as Error);
       }
     );
+
+    // Denied when the user hides their last seen from the current user
+    const unsubscribeLastSeen = onValue(
+      lastSeenRef,
+      (snapshot) => {
+        lastSeen = snapshot.val()?.timestamp ?? null;
+        emit();
+      },
+      () => {
+        lastSeen = null;
+        emit();
+      }
+    );
+
+    return () => {
+      unsubscribePresence();
+      unsubscribeLastSeen();
+    };
   }
 
   /**
@@ -259,8 +352,10 @@ export class PresenceService {
             // User offline or no data
             presenceMap[userId] = {
               isOnline: false,
-              lastSeen: Date.now(),
+              lastSeen: null,
               userName: 'User',
+              state: 'offline',
+              customStatus: null,
             };
           }
           onUpdate({ ...presenceMap });
@@ -284,12 +379,13 @@ export class PresenceService {
       const snapshot = await get(presenceRef);
       
       if (snapshot.exists()) {
-        const data = snapshot.val();
-        return {
-          isOnline: data.isOnline || false,
-          lastSeen: data.lastSeen || Date.now(),
-          userName: data.userName || 'User',
-        };
+        let lastSeen: number | null = null;
+        try {
+          lastSeen = (await get(ref(database, `lastSeen/${userId}`))).val()?.timestamp ?? null;
+        } catch {
+          // Hidden by the user's last seen privacy setting
+        }
+        return this.toUserPresence(snapshot.val(), lastSeen);
       }
       
       return null;
@@ -321,17 +417,107 @@ export class PresenceService {
     userName: string
   ): Promise<void> {
     try {
-      const presenceRef = ref(database, `presence/${userId}`);
-      
-      await set(presenceRef, {
-        isOnline: true,
-        lastSeen: serverTimestamp(),
-        userName,
-      });
+      await this.writePresence(userId, userName, 'online');
     } catch (error) {
       console.error('Error updating presence heartbeat:', error);
       // Don't throw - heartbeat failures shouldn't crash the app
     }
   }
-}
 
+  /**
+   * Write the current user's presence and last seen
+   * While not offline, onDisconnect marks them offline when the connection drops.
+   */
+  private static async writePresence(
+    userId: string,
+    userName: string,
+    state: PresenceState
+  ): Promise<void> {
+    const presenceRef = ref(database, `presence/${userId}`);
+    const lastSeenRef = ref(database, `lastSeen/${userId}`);
+
+    if (state === 'offline') {
+      // Cancel any pending onDisconnect operations before explicitly setting offline
+      try {
+        await onDisconnect(presenceRef).cancel();
+        await onDisconnect(lastSeenRef).cancel();
+      } catch {
+        // Ignore cancel errors - may already be cancelled or not exist
+      }
+    }
+
+    await set(presenceRef, this.toPresenceData(userName, state));
+    await set(lastSeenRef, this.toLastSeenData());
+    this.currentState = state;
+
+    if (state !== 'offline') {
+      // Set up auto-disconnect to mark offline when connection drops
+      await onDisconnect(presenceRef).set(this.toPresenceData(userName, 'offline'));
+      await onDisconnect(lastSeenRef).set(this.toLastSeenData());
+    }
+  }
+
+  private static toPresenceData(userName: string, state: PresenceState) {
+    const customStatus = getActiveCustomStatus(this.settings.customStatus);
+    return {
+      isOnline: state !== 'offline',
+      userName,
+      // Do not disturb replaces online and away
+      state: state !== 'offline' && this.settings.doNotDisturb ? 'dnd' : state,
+      // Null fields aren't stored in the Realtime Database
+      customStatus: customStatus && {
+        text: customStatus.text,
+        emoji: customStatus.emoji,
+        expiresAt: customStatus.expiresAt,
+      },
+    };
+  }
+
+  private static toLastSeenData() {
+    return {
+      timestamp: serverTimestamp(),
+      visibility: this.settings.lastSeenVisibility,
+    };
+  }
+
+  /**
+   * Copy the current user's contacts into the Realtime Database mirror
+   * that the lastSeen rules check for contacts-only visibility
+   */
+  private static async syncContacts(): Promise<void> {
+    try {
+      const syncFn = httpsCallable<void, { count: number }>(functions, 'syncMyPresenceContacts');
+      await syncFn();
+    } catch (error) {
+      console.error('Error syncing presence contacts:', error);
+    }
+  }
+
+  /**
+   * Copy the current user's blocked users into the Realtime Database mirror
+   * that the presence, last seen and typing rules check
+   */
+  private static async syncBlockedUsers(): Promise<void> {
+    try {
+      const syncFn = httpsCallable<void, { count: number }>(functions, 'syncMyBlockedUsers');
+      await syncFn();
+    } catch (error) {
+      console.error('Error syncing blocked users:', error);
+    }
+  }
+
+  private static toUserPresence(data: PresenceRecord, lastSeen: number | null): UserPresence {
+    const isOnline = data.isOnline || false;
+    return {
+      isOnline,
+      lastSeen,
+      userName: data.userName || 'User',
+      state: data.state || (isOnline ? 'online' : 'offline'),
+      customStatus: getActiveCustomStatus(data.customStatus ? {
+        text: data.customStatus.text || '',
+        emoji: data.customStatus.emoji ?? null,
+        expiresAt: data.customStatus.expiresAt ?? null,
+      } : null),
+    };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * ReportService - Abuse reports for messages and users
+ *
+ * Reports go through the reportContent Cloud Function, which snapshots the
+ * reported messages server-side and adds the report to the moderation queue.
+ * Clients can't read or write the reports collection directly.
+ */
+
+import { ReportContentRequest, ReportContentResult, ReportReason } from '@/shared/types';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './FirebaseConfig';
+
+const MAX_DETAILS_LENGTH = 1000;
+
+/**
+ * Reasons offered in the report dialog, in display order
+ */
+export const REPORT_REASONS: { reason: ReportReason; label: string }[] = [
+  { reason: 'spam', label: 'Spam or scam' },
+  { reason: 'harassment', label: 'Harassment or bullying' },
+  { reason: 'hate', label: 'Hate speech' },
+  { reason: 'violence', label: 'Violence or threats' },
+  { reason: 'sexual', label: 'Sexual content' },
+  { reason: 'impersonation', label: 'Impersonation' },
+  { reason: 'other', label: 'Something else' },
+];
+
+export class ReportService {
+  /**
+   * Report a message or, without a messageId, a user
+   */
+  static async reportContent(request: ReportContentRequest): Promise<ReportContentResult> {
+    try {
+      const reportFn = httpsCallable<ReportContentRequest, ReportContentResult>(functions, 'reportContent');
+
+      const result = await reportFn({
+        ...request,
+        details: request.details?.trim().slice(0, MAX_DETAILS_LENGTH) || undefined,
+      });
+
+      return result.data;
+    } catch (error) {
+      console.error('Error reporting content:', error);
+      throw error;
+    }
+  }
+}
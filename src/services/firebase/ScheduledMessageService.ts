@@ -0,0 +1,177 @@
+/**
+ * ScheduledMessageService - Firestore operations for scheduled (send-later) messages
+ *
+ * Handles:
+ * - Scheduling a message for later delivery
+ * - Editing and cancelling pending scheduled messages
+ * - Real-time listener for a user's scheduled messages in a chat
+ *
+ * Delivery happens server-side (deliverScheduledMessages Cloud Function),
+ * so messages go out even if the sender's app is closed.
+ */
+
+import {
+    MessageReplyOptions,
+    ScheduledMessage,
+    UpdateScheduledMessageData
+} from '@/shared/types';
+import {
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    onSnapshot,
+    orderBy,
+    query,
+    setDoc,
+    Unsubscribe,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+import { EncryptionService } from './EncryptionService';
+import { firestore } from './FirebaseConfig';
+
+const MIN_SCHEDULE_DELAY_MS = 60 * 1000; // Delivery runs every minute
+
+/**
+ * Map a Firestore scheduled message document to the app type
+ */
+const toScheduledMessage = (chatId: string, id: string, data: any): ScheduledMessage => ({
+  id,
+  chatId,
+  senderId: data.senderId,
+  text: data.text,
+  scheduledFor: data.scheduledFor,
+  status: data.status,
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt,
+  replyToId: data.replyToId || null,
+  replyPreview: data.replyPreview || null,
+  error: data.error || null,
+});
+
+export class ScheduledMessageService {
+  /**
+   * Schedule a text message for later delivery
+   * Returns the scheduled message (its ID becomes the delivered message ID)
+   */
+  static async scheduleMessage(
+    chatId: string,
+    senderId: string,
+    text: string,
+    scheduledFor: number,
+    replyOptions?: MessageReplyOptions
+  ): Promise<ScheduledMessage> {
+    try {
+      if (!text.trim()) {
+        throw new Error('Scheduled message cannot be empty');
+      }
+      if (scheduledFor < Date.now() + MIN_SCHEDULE_DELAY_MS) {
+        throw new Error('Scheduled time must be at least a minute in the future');
+      }
+      // The server sends scheduled messages, so it would need the plaintext
+      if (EncryptionService.isChatEncrypted(chatId)) {
+        throw new Error('Scheduled messages are not available in end-to-end encrypted chats');
+      }
+
+      const scheduledRef = doc(collection(firestore, 'chats', chatId, 'scheduledMessages'));
+      const now = Date.now();
+
+      const data = {
+        senderId,
+        text: text.trim(),
+        scheduledFor,
+        status: 'pending' as const,
+        createdAt: now,
+        updatedAt: now,
+        replyToId: replyOptions?.replyToId || null,
+        replyPreview: replyOptions?.replyPreview || null,
+      };
+
+      await setDoc(scheduledRef, data);
+
+      return { id: scheduledRef.id, chatId, ...data };
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit the text or delivery time of a pending scheduled message
+   */
+  static async updateScheduledMessage(
+    chatId: string,
+    scheduledMessageId: string,
+    updates: UpdateScheduledMessageData
+  ): Promise<void> {
+    try {
+      const scheduledRef = doc(firestore, 'chats', chatId, 'scheduledMessages', scheduledMessageId);
+      const scheduledDoc = await getDoc(scheduledRef);
+
+      if (!scheduledDoc.exists()) {
+        throw new Error('Scheduled message not found');
+      }
+      if (scheduledDoc.data().status !== 'pending') {
+        throw new Error('Scheduled message is already being sent');
+      }
+      if (updates.text !== undefined && !updates.text.trim()) {
+        throw new Error('Scheduled message cannot be empty');
+      }
+      if (updates.scheduledFor !== undefined && updates.scheduledFor < Date.now() + MIN_SCHEDULE_DELAY_MS) {
+        throw new Error('Scheduled time must be at least a minute in the future');
+      }
+
+      await updateDoc(scheduledRef, {
+        ...(updates.text !== undefined && { text: updates.text.trim() }),
+        ...(updates.scheduledFor !== undefined && { scheduledFor: updates.scheduledFor }),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a scheduled message before it is delivered
+   */
+  static async cancelScheduledMessage(chatId: string, scheduledMessageId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(firestore, 'chats', chatId, 'scheduledMessages', scheduledMessageId));
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to the user's scheduled messages in a chat
+   * Delivered messages drop out (the Cloud Function deletes them)
+   * Returns unsubscribe function
+   */
+  static subscribeToScheduledMessages(
+    chatId: string,
+    senderId: string,
+    onUpdate: (scheduledMessages: ScheduledMessage[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    const scheduledQuery = query(
+      collection(firestore, 'chats', chatId, 'scheduledMessages'),
+      where('senderId', '==', senderId),
+      orderBy('scheduledFor', 'asc')
+    );
+
+    return onSnapshot(
+      scheduledQuery,
+      (snapshot) => {
+        onUpdate(snapshot.docs.map((scheduledDoc) =>
+          toScheduledMessage(chatId, scheduledDoc.id, scheduledDoc.data())
+        ));
+      },
+      (error) => {
+        onError(error as Error);
+      }
+    );
+  }
+}
@@ -4,7 +4,9 @@
  * Handles:
  * - Profile picture uploads
  * - Message image uploads
+ * - Voice message uploads
  * - Group icon uploads
+ * - Keeping images sent offline until they can be uploaded
  * - Image compression
  * - Thumbnail generation
  */
@@ -23,6 +25,8 @@ import { storage } from './FirebaseConfig';
 const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 const THUMBNAIL_SIZE = 200; // 200x200px
 const COMPRESSION_QUALITY = 0.85; // 85% quality
+const MAX_VOICE_SIZE = 10 * 1024 * 1024; // 10MB in bytes (matches storage rules)
+const OUTBOX_DIR = `${FileSystem.documentDirectory}outbox/`; // Images waiting to be uploaded
 
 export interface UploadProgress {
   bytesTransferred: number;
@@ -316,6 +320,92 @@ export class StorageService {
   }
 
 
+  /**
+   * Upload a voice message recording (.m4a)
+   * Returns download URL
+   */
+  static async uploadVoiceMessage(
+    chatId: string,
+    messageId: string,
+    audioUri: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<string> {
+    try {
+      const fileInfo = await FileSystem.getInfoAsync(audioUri);
+      if (!fileInfo.exists || !fileInfo.size) {
+        throw new Error('Recording not found or size unavailable');
+      }
+      if (fileInfo.size > MAX_VOICE_SIZE) {
+        throw new Error('Voice message exceeds 10MB limit');
+      }
+
+      // Read file as blob
+      const response = await fetch(audioUri);
+      const blob = await response.blob();
+
+      const voiceRef = ref(storage, `chats/${chatId}/${messageId}/voice.m4a`);
+      const metadata = { contentType: 'audio/mp4' };
+
+      if (onProgress) {
+        // Upload with progress tracking
+        const uploadTask = uploadBytesResumable(voiceRef, blob, metadata);
+
+        await new Promise<void>((resolve, reject) => {
+          uploadTask.on(
+            'state_changed',
+            (snapshot) => {
+              const progress = {
+                bytesTransferred: snapshot.bytesTransferred,
+                totalBytes: snapshot.totalBytes,
+                progress: (snapshot.bytesTransferred / snapshot.totalBytes) * 100,
+              };
+              onProgress(progress);
+            },
+            (error) => reject(error),
+            () => resolve()
+          );
+        });
+      } else {
+        await uploadBytes(voiceRef, blob, metadata);
+      }
+
+      return await getDownloadURL(voiceRef);
+    } catch (error) {
+      console.error('Error uploading voice message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an image sent offline out of the cache, which the OS may clear
+   * before we're back online
+   * Returns the URI of the copy (the original URI if copying fails)
+   */
+  static async keepImageForUpload(messageId: string, imageUri: string): Promise<string> {
+    try {
+      await FileSystem.makeDirectoryAsync(OUTBOX_DIR, { intermediates: true });
+      const keptUri = `${OUTBOX_DIR}${messageId}.jpg`;
+      await FileSystem.copyAsync({ from: imageUri, to: keptUri });
+      return keptUri;
+    } catch (error) {
+      console.warn('Could not keep image for upload, using original:', error);
+      return imageUri;
+    }
+  }
+
+  /**
+   * Delete an image kept by keepImageForUpload once it has been uploaded
+   * Other URIs are left alone
+   */
+  static async releaseImageForUpload(imageUri: string): Promise<void> {
+    if (!imageUri.startsWith(OUTBOX_DIR)) return;
+    try {
+      await FileSystem.deleteAsync(imageUri, { idempotent: true });
+    } catch (error) {
+      console.warn('Could not delete uploaded image copy:', error);
+    }
+  }
+
   /**
    * Delete an image from Firebase Storage
    */
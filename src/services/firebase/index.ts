@@ -4,15 +4,24 @@
  * Exports all Firebase services and configurations
  */
 
+export * from './AIAssistantService';
+export * from './AIUsageService';
+export * from './ActionItemService';
 export * from './AuthService';
 export * from './ChatService';
 export * from './CulturalService';
+export * from './EncryptionService';
+export * from './FileTransferService';
 export * from './FirebaseConfig';
 export * from './FriendRequestService';
+export * from './GlossaryService';
 export * from './GroupService';
 export * from './MessageService';
 export * from './MessagingService';
+export * from './PollService';
 export * from './PresenceService';
+export * from './ReportService';
+export * from './ScheduledMessageService';
 export * from './StorageService';
 export * from './UserService';
 
@@ -1,10 +1,12 @@
 /**
- * OfflineBanner - Shows when device is offline
- * 
- * Displays a banner at the top of the screen when there's no internet connection
+ * OfflineBanner - Shows when device is offline, or catching up after reconnecting
+ *
+ * Displays a banner at the top of the screen when there's no internet connection,
+ * and the sync progress while chats are catching up with changes made meanwhile
  */
 
 import { useNetworkStatus } from '@/shared/hooks/useNetworkStatus';
+import { useSyncStatus } from '@/shared/hooks/useSyncStatus';
 import { useTheme } from '@/shared/hooks/useTheme';
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
@@ -13,6 +15,18 @@ import { StyleSheet, Text, View } from 'react-native';
 export const OfflineBanner = () => {
   const theme = useTheme();
   const { isOnline } = useNetworkStatus();
+  const { isSyncing, chatsRemaining } = useSyncStatus();
+
+  if (isOnline && isSyncing && chatsRemaining > 0) {
+    return (
+      <View style={[styles.banner, { backgroundColor: theme.colors.primary }]}>
+        <Ionicons name="sync" size={16} color="#FFFFFF" />
+        <Text style={styles.text}>
+          Syncing {chatsRemaining} {chatsRemaining === 1 ? 'chat' : 'chats'}…
+        </Text>
+      </View>
+    );
+  }
 
   // Don't render anything if online
   if (isOnline) {
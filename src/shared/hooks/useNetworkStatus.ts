@@ -1,3 +1,4 @@
+import { DeltaSync } from '@/database/DeltaSync';
 import { MessageQueue } from '@/database/MessageQueue';
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { useCallback, useEffect, useRef, useState } from 'react';
@@ -9,6 +10,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
  * Features:
  * - Detects online/offline state
  * - Auto-processes message queue when connection restored
+ * - Catches up on changes made meanwhile (delta sync of every chat)
  * - Provides connection type and quality info
  */
 
@@ -56,13 +58,19 @@ export const useNetworkStatus = () => {
       // Wait a bit for network to stabilize
       setTimeout(async () => {
         try {
-          const result = await MessageQueue.processQueue();
+          // Failures while offline were the connection's fault - don't wait out their backoff
+          const result = await MessageQueue.processQueue({ retryNow: true });
           if (result.total > 0) {
             console.log(`📨 Synced ${result.success}/${result.total} offline messages`);
           }
         } catch (error) {
           console.error('❌ Error processing queue after reconnection:', error);
         }
+
+        // Pull reactions, edits, deletions and messages that happened while offline
+        DeltaSync.syncAll().catch(error => {
+          console.error('❌ Error syncing chats after reconnection:', error);
+        });
       }, 1500); // 1.5 second delay
     }
 
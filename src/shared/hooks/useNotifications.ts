@@ -35,6 +35,11 @@ export const useNotifications = () => {
         return; // Suppress notification if user is viewing this chat
       }
 
+      // Do not disturb silences in-app banners too
+      if (useAuthStore.getState().user?.doNotDisturb) {
+        return;
+      }
+
       // Show in-app notification
       setInAppNotification(notification);
     };
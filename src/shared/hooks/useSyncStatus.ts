@@ -0,0 +1,23 @@
+import { DeltaSync, SyncStatus } from '@/database/DeltaSync';
+import { useEffect, useState } from 'react';
+
+/**
+ * useSyncStatus
+ *
+ * Hook to follow the delta sync of chats between Firestore and SQLite
+ * (e.g. to show "Syncing 3 chats" after reconnecting)
+ */
+export const useSyncStatus = (): SyncStatus & { chatsRemaining: number } => {
+  const [status, setStatus] = useState<SyncStatus>(DeltaSync.getStatus());
+
+  useEffect(() => {
+    // Catch up on progress made before subscribing
+    setStatus(DeltaSync.getStatus());
+    return DeltaSync.subscribe(setStatus);
+  }, []);
+
+  return {
+    ...status,
+    chatsRemaining: Math.max(0, status.chatsTotal - status.chatsSynced),
+  };
+};
@@ -0,0 +1,34 @@
+/**
+ * AI Assistant Type Definitions
+ *
+ * Answers from the aiAssistantStream Cloud Function (server-sent events)
+ */
+
+/**
+ * A passage the answer cites ([n] in the answer is the source with index n)
+ * Fields marked "older answers" are missing from history saved before citations
+ */
+export interface AIAssistantSource {
+  index?: number;             // Older answers: position in the list + 1
+  type?: 'chunk' | 'message'; // Conversation passage or a single message
+  chatId: string;
+  chatName: string;
+  chunkId?: string;
+  messageId?: string;         // The cited message - opened when the citation is tapped
+  messageIds?: string[];      // Every message in the passage
+  senderId?: string;          // Sender of the cited message
+  senderName?: string;
+  snippet: string;
+  timestamp?: number;
+  similarity?: number;
+}
+
+export interface AIAssistantHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * How a streamed answer ended
+ */
+export type AIAssistantStreamStatus = 'complete' | 'cancelled' | 'error';
@@ -0,0 +1,19 @@
+/**
+ * AI Usage Type Definitions
+ *
+ * Monthly AI allowance, as returned by the getAIUsage Cloud Function
+ */
+
+/**
+ * A user's AI usage for the current month
+ * AI callables fail with `resource-exhausted` once the tokens run out, or
+ * when requests come in faster than the rate limit allows
+ */
+export interface AIUsageSummary {
+  month: string;              // YYYY-MM (UTC)
+  tokensUsed: number;
+  tokenLimit: number;
+  tokensRemaining: number;
+  requestsAvailable: number;  // Requests that can be made right now
+  resetsAt: number;           // When the monthly allowance resets (ms)
+}
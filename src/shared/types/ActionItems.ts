@@ -0,0 +1,57 @@
+/**
+ * Action Item Type Definitions
+ *
+ * Action items, decisions and open questions extracted from a chat by the
+ * extractActionItems Cloud Function (stored in
+ * /chats/{chatId}/metadata/actionItems)
+ */
+
+/**
+ * Something a participant agreed or was asked to do
+ */
+export interface ChatActionItem {
+  id: string;
+  text: string;
+  ownerId: string | null;           // Set when the owner is a chat participant
+  ownerName: string | null;
+  dueDate: string | null;           // YYYY-MM-DD
+  sourceMessageId: string;          // Message it was extracted from
+  status: 'open' | 'done';
+  createdAt: number;
+}
+
+/**
+ * Something the chat agreed on
+ */
+export interface ChatDecision {
+  id: string;
+  text: string;
+  sourceMessageId: string;
+  createdAt: number;
+}
+
+/**
+ * A question nobody has answered yet (dropped once it's answered)
+ */
+export interface ChatOpenQuestion {
+  id: string;
+  text: string;
+  askedById: string | null;
+  askedByName: string | null;
+  sourceMessageId: string;
+  createdAt: number;
+}
+
+/**
+ * Everything extracted from a chat so far
+ */
+export interface ChatActionItems {
+  chatId: string;
+  actionItems: ChatActionItem[];
+  decisions: ChatDecision[];
+  openQuestions: ChatOpenQuestion[];
+  lastMessageId: string | null;     // Last message analyzed
+  lastMessageTimestamp: number;
+  messagesAnalyzed: number;
+  updatedAt: number;
+}
@@ -11,8 +11,20 @@ export type ChatType = 'one-on-one' | 'group';
 
 /**
  * User role in a chat (for groups)
+ * - admin: everything, including settings, group info and other members' roles
+ * - moderator: remove and mute members, review join requests
+ * - member: post (unless muted or only admins can post)
  */
-export type ChatRole = 'admin' | 'member';
+export type ChatRole = 'admin' | 'moderator' | 'member';
+
+/**
+ * Group-wide settings, changed by admins
+ */
+export interface GroupSettings {
+  onlyAdminsCanPost: boolean;       // Everyone else can read but not send
+  onlyAdminsCanEditInfo: boolean;   // Name, description and icon
+  approveJoinRequests: boolean;     // Invite code joins wait for a moderator or admin
+}
 
 /**
  * Chat interface matching Firestore /chats/{chatId}
@@ -32,12 +44,25 @@ export interface Chat {
   groupName?: string | null;
   groupIcon?: string | null;        // Firebase Storage URL
   groupDescription?: string | null;
-  groupAdminId?: string | null;     // Current admin user ID
-  inviteCode?: string | null;       // Permanent invite code for groups
+  groupAdminId?: string | null;     // First admin (kept for groups created before groupAdminIds)
+  groupAdminIds?: string[];         // Admin user IDs
+  groupModeratorIds?: string[];     // Moderator user IDs
+  mutedMemberIds?: string[];        // Members who can't post (muted by a moderator or admin)
+  groupSettings?: GroupSettings;
+  inviteCode?: string | null;       // Permanent invite code (older groups; see GroupInviteLink)
   
   // Language detection for auto-translation
   detectedLanguages?: string[];     // Array of detected language codes (max 5)
   
+  // End-to-end encryption (one-on-one only, cannot be turned off once enabled)
+  encrypted?: boolean;              // Messages are encrypted with a shared chat key
+  encryptionKeyVersion?: number;    // Current chat key version (keys/{deviceId}_v{n})
+  
+  // Current user's preferences (from their participant document)
+  mutedUntil?: number | null;       // Notifications muted until this time
+  pinned?: boolean;                 // Shown at the top of the chat list
+  archived?: boolean;               // Shown in the Archived section
+  
   // UI-specific fields (not in Firestore)
   unreadCount?: number;             // Local unread count (from SQLite)
   otherUserName?: string;           // For one-on-one: other user's display name
@@ -51,11 +76,36 @@ export interface Chat {
  */
 export interface ChatParticipant {
   userId: string;
-  role: ChatRole;                   // 'admin' or 'member'
+  role: ChatRole;                   // 'admin', 'moderator' or 'member'
   joinedAt: number;                 // Timestamp when joined
   lastReadMessageId: string | null; // Last message read by this user
   lastReadTimestamp: number | null; // Timestamp of last read
   unreadCount: number;              // Number of unread messages
+  readWatermark?: number | null;    // Every message up to this timestamp was read
+  deliveredWatermark?: number | null; // Every message up to this timestamp reached a device
+  mutedUntil?: number | null;       // Notifications muted until this time
+  pinned?: boolean;                 // Pinned to the top of this user's chat list
+  archived?: boolean;               // Moved to this user's Archived section
+}
+
+/**
+ * How far a participant got in a chat (subset of ChatParticipant)
+ * Receipts of every message are derived from these watermarks
+ */
+export interface ParticipantReadState {
+  userId: string;
+  joinedAt: number;
+  readWatermark: number | null;
+  deliveredWatermark: number | null;
+}
+
+/**
+ * Per-user chat preferences (subset of ChatParticipant)
+ */
+export interface ChatPreferences {
+  mutedUntil?: number | null;
+  pinned?: boolean;
+  archived?: boolean;
 }
 
 /**
@@ -78,6 +128,67 @@ export interface UpdateGroupData {
   groupIcon?: string;
 }
 
+/**
+ * Pending request to join a group that requires approval
+ * Matches Firestore /chats/{chatId}/joinRequests/{userId}
+ */
+export interface GroupJoinRequest {
+  userId: string;
+  requestedAt: number;
+  inviteLinkName: string | null;    // Name of the invite link used (null for a group's permanent code)
+}
+
+/**
+ * Named invite link for a group, shared as avoai://join/<code>
+ * Matches Firestore /inviteLinks/{code}
+ */
+export interface GroupInviteLink {
+  code: string;
+  groupId: string;
+  name: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt: number | null;         // null = never expires
+  maxUses: number | null;           // null = unlimited
+  useCount: number;                 // People who joined through this link
+  requiresApproval: boolean;        // Joins wait for an admin or moderator
+  revoked: boolean;
+  revokedAt: number | null;
+}
+
+export type GroupInviteLinkStatus = 'active' | 'expired' | 'revoked' | 'used-up';
+
+/**
+ * Options for a new invite link
+ */
+export interface CreateInviteLinkOptions {
+  name: string;
+  expiresAt?: number | null;
+  maxUses?: number | null;
+  requiresApproval?: boolean;
+}
+
+/**
+ * What someone sees before joining a group through an invite link
+ */
+export interface GroupInvitePreview {
+  groupId: string;
+  groupName: string;
+  groupIcon: string | null;
+  memberCount: number;
+  requiresApproval: boolean;
+  isMember: boolean;
+  hasPendingRequest: boolean;
+}
+
+/**
+ * Result of joining a group with an invite code
+ */
+export interface JoinGroupResult {
+  groupId: string;
+  status: 'joined' | 'requested';   // 'requested' when the link or group needs approval
+}
+
 /**
  * Chat list item (optimized for display)
  */
@@ -53,7 +53,15 @@ export interface ChatRow {
   groupIcon: string | null;
   groupDescription: string | null;
   groupAdminId: string | null;
+  groupAdminIds?: string | null;    // JSON array of user IDs
+  groupModeratorIds?: string | null; // JSON array of user IDs
+  mutedMemberIds?: string | null;   // JSON array of user IDs
+  groupSettings?: string | null;    // JSON GroupSettings
   inviteCode: string | null;
+  mutedUntil?: number | null;
+  pinned?: number;                  // SQLite boolean (0 or 1)
+  archived?: number;                // SQLite boolean (0 or 1)
+  encrypted?: number;               // SQLite boolean (0 or 1)
   createdAt: number;
   createdBy: string;
 }
@@ -83,6 +91,127 @@ export interface MessageRow {
   originalLanguage: string | null;   // Language of original text (ISO 639-1)
   translatedTo: string | null;       // Target language for translation (ISO 639-1)
   sentAsTranslation: number | null;  // SQLite boolean (0 or 1) - True if sent as translation
+  // Voice messages
+  audioUrl?: string | null;          // Firebase Storage URL of the recording
+  audioDuration?: number | null;     // Recording length in milliseconds
+  waveform?: string | null;          // JSON array of amplitude samples
+  transcriptionStatus?: string | null; // TranscriptionStatus as string
+  // File attachments
+  fileUrl?: string | null;           // Firebase Storage URL of the attachment
+  fileName?: string | null;          // Original file name
+  mimeType?: string | null;          // MIME type of the attachment
+  fileSize?: number | null;          // Size in bytes
+  // Polls
+  poll?: string | null;              // JSON MessagePoll
+  // Editing
+  editedAt?: number | null;          // Timestamp of the latest edit
+  editHistory?: string | null;       // JSON array of previous versions
+  // Replies & threads
+  replyToId?: string | null;         // ID of the quoted message
+  replyPreview?: string | null;      // JSON snapshot of the quoted message
+  threadId?: string | null;          // Root message ID of the sub-thread
+  threadReplyCount?: number | null;  // Sub-thread reply count (root only)
+  threadLastReplyAt?: number | null; // Latest sub-thread reply (root only)
+}
+
+/**
+ * Scheduled message table row (SQLite)
+ */
+export interface ScheduledMessageRow {
+  id: string;
+  chatId: string;
+  senderId: string;
+  text: string;
+  scheduledFor: number;
+  status: string;                   // ScheduledMessageStatus as string
+  createdAt: number;
+  updatedAt: number;
+  replyToId: string | null;
+  replyPreview: string | null;      // JSON snapshot of the quoted message
+  error: string | null;
+}
+
+/**
+ * The current user's poll votes (SQLite)
+ * Votes cast offline stay 'pending' until MessageQueue sends them
+ */
+export interface PollVoteRow {
+  messageId: string;
+  chatId: string;
+  userId: string;
+  optionIds: string;                // JSON array of option IDs (empty = vote retracted)
+  votedAt: number;
+  syncStatus: string;               // MessageSyncStatus as string
+}
+
+/**
+ * Retry state of an unsent message (SQLite outbox)
+ */
+export interface OutboxRow {
+  messageId: string;
+  chatId: string;
+  attempts: number;                 // Failed attempts so far
+  nextAttemptAt: number;            // Not retried before this time (ms since epoch)
+  lastAttemptAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * A message waiting to be sent, with its outbox retry state
+ * Outbox columns are null until the first failed attempt
+ */
+export interface PendingMessageRow extends MessageRow {
+  attempts: number | null;
+  nextAttemptAt: number | null;
+  lastAttemptAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * A logged change waiting to be replayed against Firestore (SQLite operation_log)
+ */
+export interface OperationRow {
+  id: string;
+  type: string;                     // 'react' | 'unreact' | 'delete' | 'edit' | 'markRead'
+  chatId: string;
+  messageId: string;
+  userId: string;
+  payload: string | null;           // JSON: type-specific fields (emoji, text, ...)
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;            // Not replayed before this time (ms since epoch)
+  lastError: string | null;
+}
+
+/**
+ * Delta sync position of a chat (SQLite metadata, JSON under `sync_cursor:<chatId>`)
+ */
+export interface SyncCursor {
+  chatId: string;
+  lastSyncedAt: number | null;      // updatedAt of the latest synced change (ms since epoch)
+  lastMessageId: string | null;     // Its message ID (orders changes with the same updatedAt)
+  oldestTimestamp: number | null;   // Oldest message backfilled so far
+  historyComplete: boolean;         // Backfill reached the chat's first message
+}
+
+/**
+ * Filters for full-text message search (SQLite)
+ */
+export interface MessageSearchOptions {
+  chatId?: string;
+  senderId?: string;
+  dateRange?: {
+    start?: number;                 // Inclusive, ms since epoch
+    end?: number;                   // Inclusive, ms since epoch
+  };
+  limit?: number;
+}
+
+/**
+ * Full-text message search hit (SQLite)
+ */
+export interface MessageSearchResult extends MessageRow {
+  snippet: string;                  // Matching excerpt, matches wrapped in highlight markers
 }
 
 /**
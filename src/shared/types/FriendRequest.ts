@@ -62,6 +62,7 @@ export interface BlockedUser {
   userId: string;
   username: string;
   displayName: string;
+  profilePictureUrl: string | null;
   blockedAt: number;
 }
 
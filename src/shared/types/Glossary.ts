@@ -0,0 +1,29 @@
+/**
+ * Translation Glossary Type Definitions
+ *
+ * Terms the translator must always render the same way - product names,
+ * people's names, in-jokes. Stored at:
+ * - /chats/{chatId}/glossary/{entryId} (shared with everyone in the chat)
+ * - /users/{userId}/glossary/{entryId} (personal, used in every chat)
+ *
+ * A personal entry wins over a chat entry for the same term.
+ */
+
+export type GlossaryScope = 'chat' | 'user';
+
+export interface GlossaryEntry {
+  id: string;
+  scope: GlossaryScope;
+  term: string;
+  translation: string | null;     // null = never translate the term
+  targetLanguage: string | null;  // null = applies to every language
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface GlossaryEntryInput {
+  term: string;
+  translation: string | null;
+  targetLanguage: string | null;
+}
@@ -6,14 +6,20 @@
 
 /**
  * Message type enum
+ * 'system' messages describe group membership changes ("Alice added Bob")
  */
-export type MessageType = 'text' | 'image';
+export type MessageType = 'text' | 'image' | 'voice' | 'file' | 'poll' | 'system';
 
 /**
  * Message status enum
  */
 export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
 
+/**
+ * Voice message transcription status (set by the transcription Cloud Function)
+ */
+export type TranscriptionStatus = 'pending' | 'completed' | 'failed';
+
 /**
  * Message sync status (for offline queue)
  */
@@ -26,16 +32,33 @@ export interface Message {
   id: string;
   chatId: string;
   senderId: string;                 // User ID of sender
-  text: string;                     // Message content (max 4,096 characters)
+  text: string;                     // Message content (max 4,096 characters) - transcript for voice messages
   timestamp: number;                // Message timestamp
   status: MessageStatus;            // sending | sent | delivered | read
-  type: MessageType;                // text | image
+  type: MessageType;                // text | image | voice | file | poll | system
   
   // Image-specific fields (for image messages)
   imageUrl?: string | null;         // Firebase Storage URL (full resolution)
   thumbnailUrl?: string | null;     // Firebase Storage URL (200x200px)
   caption?: string | null;          // Image caption (max 1,024 characters)
   
+  // Voice-specific fields (for voice messages)
+  audioUrl?: string | null;         // Firebase Storage URL of the recording
+  audioDuration?: number | null;    // Recording length in milliseconds
+  waveform?: number[] | null;       // Normalized amplitude samples (0-1) for rendering
+  transcriptionStatus?: TranscriptionStatus | null; // Server-side speech-to-text progress
+  
+  // File-specific fields (for file messages)
+  fileUrl?: string | null;          // Firebase Storage URL of the attachment
+  fileName?: string | null;         // Original file name shown on the card
+  mimeType?: string | null;         // e.g. application/pdf
+  fileSize?: number | null;         // Size in bytes
+  
+  // Poll-specific fields (for poll messages)
+  poll?: MessagePoll | null;        // Question, options and live results
+  
+  uploadProgress?: number;          // Local only: upload progress 0-100 while sending (voice & file)
+  
   // Interactions
   reactions?: MessageReactions;     // Emoji reactions { "😂": ["userId1"], "❤️": ["userId2", "userId3"] }
   
@@ -44,6 +67,17 @@ export interface Message {
   deletedForEveryone?: boolean;     // True if deleted for everyone
   deletedAt?: number | null;        // Timestamp when deleted
   
+  // Editing
+  editedAt?: number | null;         // Timestamp of the latest edit (null if never edited)
+  editHistory?: MessageEdit[];      // Previous versions of the text, oldest first
+  
+  // Replies & threads
+  replyToId?: string | null;        // ID of the quoted message (quote-reply)
+  replyPreview?: MessageReplyPreview | null; // Snapshot of the quoted message for rendering
+  threadId?: string | null;         // Root message ID if this message belongs to a sub-thread
+  threadReplyCount?: number;        // Number of replies in this message's sub-thread (root only)
+  threadLastReplyAt?: number | null; // Timestamp of the latest sub-thread reply (root only)
+  
   // AI Translation
   translations?: MessageTranslations; // Translations { "es": "Translated text", "fr": "..." }
   detectedLanguage?: string;         // Auto-detected source language (ISO 639-1 code)
@@ -60,6 +94,9 @@ export interface Message {
   embeddingGenerated?: boolean;      // True if embedding has been generated
   embeddingGeneratedAt?: number;     // Timestamp when embedding was generated
   
+  // End-to-end encryption
+  encrypted?: boolean;               // Content was sent encrypted (text/caption/reply/history in ciphertext)
+  
   // Local fields (SQLite only)
   syncStatus?: MessageSyncStatus;   // synced | pending | failed (for offline queue)
   
@@ -77,6 +114,107 @@ export interface MessageReactions {
   [emoji: string]: string[];
 }
 
+/**
+ * Poll answer option
+ */
+export interface PollOption {
+  id: string;                       // Stable within the poll (o1, o2, ...)
+  text: string;
+}
+
+/**
+ * Poll attached to a 'poll' message
+ * Results are only updated by the votePoll Cloud Function, which records each
+ * vote in /chats/{chatId}/messages/{messageId}/pollVotes/{userId}
+ */
+export interface MessagePoll {
+  question: string;
+  options: PollOption[];
+  allowsMultipleChoices: boolean;
+  anonymous: boolean;               // Hide who voted for what
+  closesAt: number | null;          // Voting ends automatically at this time
+  closedAt: number | null;          // Closed early by the creator
+  counts: Record<string, number>;   // Option ID → number of votes
+  voterCount: number;               // People who voted (multi-choice polls count each voter once)
+  voters?: Record<string, string[]> | null; // Option ID → user IDs (visible polls only)
+}
+
+/**
+ * New poll, as entered in the poll composer
+ */
+export interface CreatePollData {
+  question: string;
+  options: string[];
+  allowsMultipleChoices: boolean;
+  anonymous: boolean;
+  closesAt: number | null;
+}
+
+/**
+ * Previous version of an edited message
+ */
+export interface MessageEdit {
+  text: string;                     // Text before the edit
+  editedAt: number;                 // When this version was replaced
+}
+
+/**
+ * Message content sealed into the ciphertext of an end-to-end encrypted message
+ */
+export interface EncryptedMessageContent {
+  text: string;
+  caption?: string | null;
+  replyPreview?: MessageReplyPreview | null;
+  editHistory?: MessageEdit[];
+}
+
+/**
+ * Snapshot of a quoted message
+ * Stored on the reply so the quote renders even when the original isn't loaded
+ */
+export interface MessageReplyPreview {
+  senderId: string;
+  text: string;                     // Text (or caption) of the quoted message, truncated
+  type: MessageType;
+}
+
+/**
+ * Media attached when sending a non-text message
+ */
+export type MessageMediaData =
+  | {
+      type: 'image';
+      imageUrl: string;
+      thumbnailUrl: string;
+      caption: string | null;
+    }
+  | {
+      type: 'voice';
+      audioUrl: string;
+      audioDuration: number;        // Milliseconds
+      waveform: number[];           // Normalized amplitude samples (0-1)
+    }
+  | {
+      type: 'file';
+      fileUrl: string;
+      fileName: string;
+      mimeType: string;
+      fileSize: number;             // Bytes
+    }
+  | {
+      type: 'poll';
+      poll: MessagePoll;
+    };
+
+/**
+ * Reply options when sending a message
+ */
+export interface MessageReplyOptions {
+  replyToId?: string;               // Quote-reply to this message
+  replyPreview?: MessageReplyPreview;
+  threadId?: string;                // Post into this root message's sub-thread
+}
+
 /**
  * Message translations map
  * Key: language code (ISO 639-1), Value: translation
@@ -119,6 +257,9 @@ export interface UpdateMessageData {
   deletedFor?: string[];
   deletedForEveryone?: boolean;
   deletedAt?: number;
+  text?: string;
+  editedAt?: number;
+  editHistory?: MessageEdit[];
 }
 
 /**
@@ -161,12 +302,88 @@ export interface ScrollPosition {
   unreadCount: number;
 }
 
+/**
+ * Scheduled message delivery status
+ * pending → sending (claimed by the delivery Cloud Function) → delivered, or failed
+ * Delivered messages are removed from the scheduledMessages subcollection
+ */
+export type ScheduledMessageStatus = 'pending' | 'sending' | 'failed';
+
+/**
+ * Scheduled (send-later) message
+ * Stored in /chats/{chatId}/scheduledMessages/{id} - only visible to the sender
+ */
+export interface ScheduledMessage {
+  id: string;                       // Also used as the message ID once delivered
+  chatId: string;
+  senderId: string;
+  text: string;
+  scheduledFor: number;             // Delivery time (ms since epoch)
+  status: ScheduledMessageStatus;
+  createdAt: number;
+  updatedAt: number;
+  replyToId?: string | null;        // Quote-reply target
+  replyPreview?: MessageReplyPreview | null;
+  error?: string | null;            // Delivery failure reason
+}
+
+/**
+ * Editable fields of a pending scheduled message
+ */
+export interface UpdateScheduledMessageData {
+  text?: string;
+  scheduledFor?: number;
+}
+
 /**
  * Queued message for offline queue with retry metadata
  */
 export interface QueuedMessage extends Message {
-  retryCount: number;
+  retryCount: number;             // Failed attempts so far
   lastAttempt: number | null;
+  nextAttemptAt: number | null;   // Backoff: not retried before this time
+  lastError?: string | null;
+}
+
+/**
+ * Kinds of change the offline operation log records
+ * 'send' stands for a pending message; the others are logged separately
+ */
+export type MessageOperationType = 'send' | 'react' | 'unreact' | 'delete' | 'edit' | 'markRead';
+
+interface MessageOperationBase {
+  id: string;
+  chatId: string;
+  messageId: string;              // markRead: the last message read
+  userId: string;
+  createdAt: number;              // Replay order within a chat
+  attempts?: number;              // Failed replays so far
+  nextAttemptAt?: number;         // Backoff: not replayed before this time
+  lastError?: string | null;
 }
 
+/**
+ * A change made locally that still has to reach Firestore
+ */
+export type MessageOperation =
+  | (MessageOperationBase & { type: 'send' | 'delete' })
+  | (MessageOperationBase & { type: 'react' | 'unreact'; emoji: string })
+  | (MessageOperationBase & { type: 'edit'; text: string })
+  | (MessageOperationBase & {
+      type: 'markRead';
+      messageIds: string[];       // Messages from others to mark as read
+      readUpTo?: number;          // Timestamp of the last message read (read watermark)
+      lastMessage: {              // Set when the chat preview should show "read"
+        text: string;
+        senderId: string;
+        timestamp: number;
+      } | null;
+    });
 
+/**
+ * Position in a chat's message changes (ordered by updatedAt, then message ID)
+ */
+export interface MessageChangeCursor {
+  updatedAt: number;              // ms since epoch
+  messageId: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * Moderation Type Definitions
+ * 
+ * Defines abuse report interfaces and types
+ */
+
+/**
+ * Why a message or user was reported
+ */
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'sexual' | 'impersonation' | 'other';
+
+/**
+ * Report review status
+ */
+export type ReportStatus = 'pending' | 'dismissed' | 'actioned';
+
+/**
+ * Report a message or a user (reportContent Cloud Function)
+ * The server snapshots the reported message(s) itself, so reviewers see
+ * the content as it was even if it's later edited or deleted.
+ */
+export interface ReportContentRequest {
+  reportedUserId: string;
+  reason: ReportReason;
+  chatId?: string;                  // Chat the report came from (required for message reports)
+  messageId?: string;               // Reported message (omit to report the user)
+  details?: string;                 // Free-text description from the reporter
+  decryptedText?: string;           // Encrypted chats only: plaintext the reporter chose to share
+}
+
+/**
+ * Result of reporting a message or user
+ */
+export interface ReportContentResult {
+  reportId: string;
+  alreadyReported: boolean;         // Same message was already reported by this user
+}
@@ -18,11 +18,44 @@ export interface User {
   bio?: string;                     // Optional bio
   preferredLanguage?: string;       // Preferred language for translations (ISO 639-1 code)
   editableLanguages?: string[];    // Languages user can edit/use (ISO 639-1 codes)
+  translateNotifications?: boolean; // Translate push notification previews into preferredLanguage
+  deviceKeys?: Record<string, DeviceKey>; // Public encryption keys per device (keyed by device ID)
+  customStatus?: CustomStatus | null; // Status text / emoji shown next to presence
+  doNotDisturb?: boolean;           // Shown as busy, no push or in-app notifications
+  lastSeenVisibility?: LastSeenVisibility; // Who can see lastSeen (default 'everyone')
   isOnline: boolean;                // Current online status
   lastSeen: number | null;          // Timestamp of last activity (null if online)
   createdAt: number;                // Account creation timestamp
 }
 
+/**
+ * Public key of one of the user's devices (for end-to-end encrypted chats)
+ */
+export interface DeviceKey {
+  publicKey: string;                // Base64 X25519 public key
+  platform: string;                 // ios | android | web
+  createdAt: number;
+}
+
+/**
+ * Custom status set by the user (e.g. 🏖️ "On vacation")
+ */
+export interface CustomStatus {
+  text: string;
+  emoji: string | null;
+  expiresAt: number | null;         // Cleared after this time (null = until changed)
+}
+
+/**
+ * What a user's presence shows ('dnd' = do not disturb)
+ */
+export type PresenceState = 'online' | 'away' | 'dnd' | 'offline';
+
+/**
+ * Who can see when a user was last online
+ */
+export type LastSeenVisibility = 'everyone' | 'contacts' | 'nobody';
+
 /**
  * User search result (minimal data for search results)
  */
@@ -45,6 +78,10 @@ export interface UserProfileUpdate {
   phoneNumberVisible?: boolean;
   preferredLanguage?: string;
   editableLanguages?: string[];
+  translateNotifications?: boolean;
+  customStatus?: CustomStatus | null;
+  doNotDisturb?: boolean;
+  lastSeenVisibility?: LastSeenVisibility;
 }
 
 /**
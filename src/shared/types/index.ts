@@ -4,10 +4,15 @@
  * Central export point for all TypeScript interfaces and types
  */
 
+export * from './AIAssistant';
+export * from './AIUsage';
+export * from './ActionItems';
 export * from './Chat';
 export * from './Database';
 export * from './FriendRequest';
+export * from './Glossary';
 export * from './Message';
+export * from './Moderation';
 export * from './User';
 
 
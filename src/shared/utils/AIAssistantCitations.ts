@@ -0,0 +1,77 @@
+/**
+ * AI Assistant Citation Utilities
+ *
+ * Answers reference their sources as [1], [2], ... - helpers to find which
+ * sources an answer actually cites and to split the answer around the markers
+ */
+
+import type { AIAssistantSource } from '../types/AIAssistant';
+
+export interface CitationPart {
+  text: string;
+  sourceIndex: number | null; // Set for a [n] marker
+}
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+const indexOf = (source: AIAssistantSource, position: number): number => source.index ?? position + 1;
+
+/**
+ * Sources referenced in the answer, in order of first reference
+ * All sources when the answer has no markers (it may still draw on them)
+ */
+export function getCitedSources(answer: string, sources: AIAssistantSource[]): AIAssistantSource[] {
+  const byIndex = new Map(sources.map((source, position) => [indexOf(source, position), source]));
+  const cited: AIAssistantSource[] = [];
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const source = byIndex.get(Number(match[1]));
+    if (source && !cited.includes(source)) {
+      cited.push(source);
+    }
+  }
+
+  return cited.length > 0 ? cited : sources;
+}
+
+/**
+ * Split an answer into plain text and [n] markers that point at a source
+ * Markers without a matching source stay plain text
+ *
+ * Example: 'At 9 [1].' → 'At 9 ', '[1]' (source 1), '.'
+ */
+export function splitCitations(answer: string, sources: AIAssistantSource[]): CitationPart[] {
+  const indexes = new Set(sources.map(indexOf));
+  const parts: CitationPart[] = [];
+  let plain = '';
+  let lastEnd = 0;
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const sourceIndex = Number(match[1]);
+    plain += answer.slice(lastEnd, match.index);
+    lastEnd = match.index! + match[0].length;
+
+    if (!indexes.has(sourceIndex)) {
+      plain += match[0];
+      continue;
+    }
+    if (plain) {
+      parts.push({ text: plain, sourceIndex: null });
+      plain = '';
+    }
+    parts.push({ text: match[0], sourceIndex });
+  }
+
+  plain += answer.slice(lastEnd);
+  if (plain) {
+    parts.push({ text: plain, sourceIndex: null });
+  }
+  return parts;
+}
+
+/**
+ * Find the source a [n] marker points at
+ */
+export function findCitedSource(sources: AIAssistantSource[], sourceIndex: number): AIAssistantSource | undefined {
+  return sources.find((source, position) => indexOf(source, position) === sourceIndex);
+}
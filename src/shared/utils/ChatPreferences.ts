@@ -0,0 +1,53 @@
+/**
+ * Chat Preference Utilities
+ *
+ * Helpers for per-user mute / pin / archive state on chats
+ */
+
+import { Chat } from '@/shared/types';
+
+/**
+ * mutedUntil value for chats muted until the user unmutes them
+ */
+export const MUTED_FOREVER = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Mute durations offered in the chat list
+ */
+export const MUTE_DURATIONS = [
+  { label: '8 hours', durationMs: 8 * 60 * 60 * 1000 },
+  { label: '1 week', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Always', durationMs: null },
+] as const;
+
+/**
+ * Compute mutedUntil for a duration (null = forever)
+ */
+export const getMutedUntil = (durationMs: number | null, now: number = Date.now()): number =>
+  durationMs === null ? MUTED_FOREVER : now + durationMs;
+
+/**
+ * Check whether a chat is currently muted
+ */
+export const isChatMuted = (chat: Pick<Chat, 'mutedUntil'>, now: number = Date.now()): boolean =>
+  !!chat.mutedUntil && chat.mutedUntil > now;
+
+/**
+ * Total unread count for the app icon badge, ignoring muted chats
+ */
+export const getBadgeCount = (chats: Chat[], now: number = Date.now()): number =>
+  chats.reduce(
+    (total, chat) => (isChatMuted(chat, now) ? total : total + (chat.unreadCount || 0)),
+    0
+  );
+
+/**
+ * Order chats for the list: pinned first, then most recent message
+ */
+export const sortChatsForList = (chats: Chat[]): Chat[] =>
+  [...chats].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) {
+      return a.pinned ? -1 : 1;
+    }
+    return (b.lastMessageTime || 0) - (a.lastMessageTime || 0);
+  });
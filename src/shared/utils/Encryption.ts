@@ -0,0 +1,118 @@
+/**
+ * Encryption Utilities
+ *
+ * NaCl primitives for end-to-end encrypted chats (all values base64):
+ * - Device key pairs (X25519) for receiving chat keys
+ * - Chat keys sealed to a device's public key with a one-off ephemeral key pair
+ * - Message content encrypted with the chat key (XSalsa20-Poly1305)
+ */
+
+import * as Crypto from 'expo-crypto';
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64, encodeUTF8 } from 'tweetnacl-util';
+
+// React Native has no crypto.getRandomValues, so feed NaCl from the native CSPRNG
+nacl.setPRNG((output, length) => {
+  output.set(Crypto.getRandomBytes(length));
+});
+
+export interface DeviceKeyPair {
+  publicKey: string;
+  secretKey: string;
+}
+
+export interface SealedChatKey {
+  ephemeralPublicKey: string;
+  nonce: string;
+  encryptedKey: string;
+}
+
+export interface EncryptedData {
+  ciphertext: string;
+  nonce: string;
+}
+
+/**
+ * Generate a key pair for this device
+ */
+export const generateDeviceKeyPair = (): DeviceKeyPair => {
+  const keyPair = nacl.box.keyPair();
+  return {
+    publicKey: encodeBase64(keyPair.publicKey),
+    secretKey: encodeBase64(keyPair.secretKey),
+  };
+};
+
+/**
+ * Generate a random symmetric key for a chat
+ */
+export const generateChatKey = (): string =>
+  encodeBase64(nacl.randomBytes(nacl.secretbox.keyLength));
+
+/**
+ * Encrypt a chat key so only the holder of recipientPublicKey can open it
+ */
+export const sealChatKey = (chatKey: string, recipientPublicKey: string): SealedChatKey => {
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const encryptedKey = nacl.box(
+    decodeBase64(chatKey),
+    nonce,
+    decodeBase64(recipientPublicKey),
+    ephemeral.secretKey
+  );
+
+  return {
+    ephemeralPublicKey: encodeBase64(ephemeral.publicKey),
+    nonce: encodeBase64(nonce),
+    encryptedKey: encodeBase64(encryptedKey),
+  };
+};
+
+/**
+ * Open a sealed chat key with this device's secret key
+ * Returns null if it was sealed for another device or tampered with
+ */
+export const openChatKey = (sealed: SealedChatKey, secretKey: string): string | null => {
+  try {
+    const chatKey = nacl.box.open(
+      decodeBase64(sealed.encryptedKey),
+      decodeBase64(sealed.nonce),
+      decodeBase64(sealed.ephemeralPublicKey),
+      decodeBase64(secretKey)
+    );
+    return chatKey ? encodeBase64(chatKey) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Encrypt a UTF-8 string with a chat key
+ */
+export const encryptWithChatKey = (plaintext: string, chatKey: string): EncryptedData => {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const ciphertext = nacl.secretbox(decodeUTF8(plaintext), nonce, decodeBase64(chatKey));
+
+  return {
+    ciphertext: encodeBase64(ciphertext),
+    nonce: encodeBase64(nonce),
+  };
+};
+
+/**
+ * Decrypt data encrypted with encryptWithChatKey
+ * Returns null if the key is wrong or the data was tampered with
+ */
+export const decryptWithChatKey = (data: EncryptedData, chatKey: string): string | null => {
+  try {
+    const plaintext = nacl.secretbox.open(
+      decodeBase64(data.ciphertext),
+      decodeBase64(data.nonce),
+      decodeBase64(chatKey)
+    );
+    return plaintext ? encodeUTF8(plaintext) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,84 @@
+/**
+ * Group Role Utilities
+ *
+ * Who can do what in a group chat. firestore.rules enforces the same checks;
+ * these decide what the UI offers.
+ */
+
+import { Chat, ChatRole, GroupSettings } from '@/shared/types';
+
+type GroupRoleFields = Partial<Pick<Chat, 'type' | 'groupAdminId' | 'groupAdminIds' | 'groupModeratorIds' | 'mutedMemberIds' | 'groupSettings'>>;
+
+/**
+ * Settings for new groups (and groups created before settings existed)
+ */
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = {
+  onlyAdminsCanPost: false,
+  onlyAdminsCanEditInfo: false,
+  approveJoinRequests: false,
+};
+
+/**
+ * Admin IDs, falling back to the single groupAdminId of older groups
+ */
+export const getGroupAdminIds = (chat: GroupRoleFields): string[] =>
+  chat.groupAdminIds ?? (chat.groupAdminId ? [chat.groupAdminId] : []);
+
+/**
+ * Group settings with defaults filled in
+ */
+export const getGroupSettings = (chat: GroupRoleFields): GroupSettings => ({
+  ...DEFAULT_GROUP_SETTINGS,
+  ...chat.groupSettings,
+});
+
+/**
+ * A member's role in a group
+ */
+export const getGroupRole = (chat: GroupRoleFields, userId: string): ChatRole => {
+  if (getGroupAdminIds(chat).includes(userId)) return 'admin';
+  if ((chat.groupModeratorIds || []).includes(userId)) return 'moderator';
+  return 'member';
+};
+
+export const isGroupAdmin = (chat: GroupRoleFields, userId: string): boolean =>
+  getGroupRole(chat, userId) === 'admin';
+
+/**
+ * Admins and moderators
+ */
+export const isGroupStaff = (chat: GroupRoleFields, userId: string): boolean =>
+  getGroupRole(chat, userId) !== 'member';
+
+export const isGroupMemberMuted = (chat: GroupRoleFields, userId: string): boolean =>
+  (chat.mutedMemberIds || []).includes(userId);
+
+/**
+ * Why a user can't post in a chat, or null if they can
+ */
+export const getPostRestriction = (chat: GroupRoleFields, userId: string): 'muted' | 'admins-only' | null => {
+  if (chat.type !== 'group') return null;
+  if (isGroupMemberMuted(chat, userId)) return 'muted';
+  if (getGroupSettings(chat).onlyAdminsCanPost && !isGroupAdmin(chat, userId)) return 'admins-only';
+  return null;
+};
+
+export const canEditGroupInfo = (chat: GroupRoleFields, userId: string): boolean =>
+  !getGroupSettings(chat).onlyAdminsCanEditInfo || isGroupAdmin(chat, userId);
+
+/**
+ * Anyone can add members, unless joins need approval (then admins and moderators)
+ */
+export const canAddMembers = (chat: GroupRoleFields, userId: string): boolean =>
+  !getGroupSettings(chat).approveJoinRequests || isGroupStaff(chat, userId);
+
+/**
+ * Whether actorId can remove or mute targetId
+ * Admins can manage anyone else; moderators can only manage members
+ */
+export const canManageMember = (chat: GroupRoleFields, actorId: string, targetId: string): boolean => {
+  if (actorId === targetId) return false;
+  const actorRole = getGroupRole(chat, actorId);
+  if (actorRole === 'admin') return true;
+  return actorRole === 'moderator' && getGroupRole(chat, targetId) === 'member';
+};
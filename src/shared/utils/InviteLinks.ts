@@ -0,0 +1,44 @@
+/**
+ * Invite Link Utilities
+ *
+ * Group invite links are shared as avoai://join/<code>. Joining goes through
+ * the joinGroupByInvite Cloud Function, which enforces expiry and usage limits;
+ * these helpers only decide what the UI shows.
+ */
+
+import { GroupInviteLink, GroupInviteLinkStatus } from '@/shared/types';
+
+export const INVITE_LINK_PREFIX = 'avoai://join/';
+
+const INVITE_CODE_PATTERN = /^[A-Z0-9]{6,16}$/;
+
+/**
+ * Shareable URL for an invite code
+ */
+export const buildInviteUrl = (code: string): string => `${INVITE_LINK_PREFIX}${code}`;
+
+/**
+ * Invite code from a pasted link or code, or null if it isn't one
+ */
+export const parseInviteCode = (input: string): string | null => {
+  const trimmed = input.trim();
+  const code = (trimmed.toLowerCase().startsWith(INVITE_LINK_PREFIX)
+    ? trimmed.slice(INVITE_LINK_PREFIX.length).split(/[/?#]/)[0]
+    : trimmed
+  ).toUpperCase();
+
+  return INVITE_CODE_PATTERN.test(code) ? code : null;
+};
+
+/**
+ * Whether a link can still be used
+ */
+export const getInviteLinkStatus = (
+  link: Pick<GroupInviteLink, 'revoked' | 'expiresAt' | 'maxUses' | 'useCount'>,
+  now: number = Date.now()
+): GroupInviteLinkStatus => {
+  if (link.revoked) return 'revoked';
+  if (link.expiresAt !== null && link.expiresAt <= now) return 'expired';
+  if (link.maxUses !== null && link.useCount >= link.maxUses) return 'used-up';
+  return 'active';
+};
@@ -0,0 +1,84 @@
+/**
+ * Message Row Utilities
+ *
+ * Conversions between messages and their SQLite rows (JSON fields are stored as strings)
+ */
+
+import { Message, MessageRow, MessageStatus, MessageSyncStatus, MessageType, TranscriptionStatus } from '@/shared/types';
+
+// Convert a SQLite MessageRow to a Message (parse JSON fields)
+export const messageRowToMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  chatId: row.chatId,
+  senderId: row.senderId,
+  text: row.text,
+  timestamp: row.timestamp, // Already a number
+  status: row.status as MessageStatus,
+  type: row.type as MessageType,
+  imageUrl: row.imageUrl,
+  thumbnailUrl: row.thumbnailUrl,
+  caption: row.caption,
+  reactions: row.reactions ? JSON.parse(row.reactions) : {},
+  deletedFor: [], // Not stored separately in SQLite
+  deletedForEveryone: row.deletedForEveryone === 1,
+  deletedAt: null, // Not stored in SQLite
+  translations: row.translations ? JSON.parse(row.translations) : {},
+  detectedLanguage: row.detectedLanguage || undefined,
+  syncStatus: row.syncStatus as MessageSyncStatus,
+  editedAt: row.editedAt || null,
+  editHistory: row.editHistory ? JSON.parse(row.editHistory) : [],
+  replyToId: row.replyToId || null,
+  replyPreview: row.replyPreview ? JSON.parse(row.replyPreview) : null,
+  threadId: row.threadId || null,
+  threadReplyCount: row.threadReplyCount || 0,
+  threadLastReplyAt: row.threadLastReplyAt || null,
+  audioUrl: row.audioUrl || null,
+  audioDuration: row.audioDuration || null,
+  waveform: row.waveform ? JSON.parse(row.waveform) : null,
+  transcriptionStatus: (row.transcriptionStatus as TranscriptionStatus) || null,
+  fileUrl: row.fileUrl || null,
+  fileName: row.fileName || null,
+  mimeType: row.mimeType || null,
+  fileSize: row.fileSize || null,
+  poll: row.poll ? JSON.parse(row.poll) : null,
+});
+
+// Convert a Message to a SQLite MessageRow (stringify JSON fields)
+export const messageToMessageRow = (message: Message): MessageRow => ({
+  id: message.id,
+  chatId: message.chatId,
+  senderId: message.senderId,
+  text: message.text,
+  timestamp: typeof message.timestamp === 'number' ? message.timestamp : Date.now(),
+  status: message.status,
+  type: message.type,
+  imageUrl: message.imageUrl || null,
+  thumbnailUrl: message.thumbnailUrl || null,
+  caption: message.caption || null,
+  reactions: JSON.stringify(message.reactions || {}),
+  deletedForMe: 0,
+  deletedForEveryone: message.deletedForEveryone ? 1 : 0,
+  translations: message.translations ? JSON.stringify(message.translations) : null,
+  detectedLanguage: message.detectedLanguage || null,
+  syncStatus: message.syncStatus || 'synced',
+  originalText: message.originalText || null,
+  originalLanguage: message.originalLanguage || null,
+  translatedTo: message.translatedTo || null,
+  sentAsTranslation: message.sentAsTranslation ? 1 : 0,
+  editedAt: message.editedAt || null,
+  editHistory: message.editHistory?.length ? JSON.stringify(message.editHistory) : null,
+  replyToId: message.replyToId || null,
+  replyPreview: message.replyPreview ? JSON.stringify(message.replyPreview) : null,
+  threadId: message.threadId || null,
+  threadReplyCount: message.threadReplyCount || 0,
+  threadLastReplyAt: message.threadLastReplyAt || null,
+  audioUrl: message.audioUrl || null,
+  audioDuration: message.audioDuration || null,
+  waveform: message.waveform ? JSON.stringify(message.waveform) : null,
+  transcriptionStatus: message.transcriptionStatus || null,
+  fileUrl: message.fileUrl || null,
+  fileName: message.fileName || null,
+  mimeType: message.mimeType || null,
+  fileSize: message.fileSize || null,
+  poll: message.poll ? JSON.stringify(message.poll) : null,
+});
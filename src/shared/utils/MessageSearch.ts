@@ -0,0 +1,69 @@
+/**
+ * Message Search Utilities
+ *
+ * Helpers for the offline full-text search over cached messages:
+ * - Turning what the user typed into a safe FTS5 MATCH expression
+ * - Splitting search snippets into highlighted / plain parts
+ */
+
+/**
+ * Markers SQLite wraps around matched terms in search snippets
+ * Control characters so they never collide with message text
+ */
+export const SEARCH_HIGHLIGHT_START = '\u0002';
+export const SEARCH_HIGHLIGHT_END = '\u0003';
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Build an FTS5 MATCH expression from user input
+ * Every word must match, and the last one also matches as a prefix so
+ * results show up while typing. Returns null if there's nothing to search for.
+ *
+ * Example: 'dinner fri' → '"dinner" "fri"*'
+ */
+export function buildSearchQuery(input: string): string | null {
+  // Keep letters, numbers and apostrophes; everything else (FTS5 operators, quotes, etc.) splits words
+  const terms = input
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(term => term.replace(/^'+|'+$/g, ''))
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map((term, index) => (index === terms.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(' ');
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts
+ */
+export function splitHighlights(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let highlighted = false;
+  let current = '';
+
+  for (const char of snippet) {
+    if (char === SEARCH_HIGHLIGHT_START || char === SEARCH_HIGHLIGHT_END) {
+      if (current) {
+        parts.push({ text: current, highlighted });
+      }
+      current = '';
+      highlighted = char === SEARCH_HIGHLIGHT_START;
+      continue;
+    }
+    current += char;
+  }
+
+  if (current) {
+    parts.push({ text: current, highlighted });
+  }
+
+  return parts;
+}
@@ -0,0 +1,195 @@
+/**
+ * Offline Operation Log Utilities
+ *
+ * Rules for changes made while offline (reactions, edits, deletions, read receipts):
+ * - Collapsing a new operation into the ones already waiting, so replay only
+ *   sends what still makes a difference (a react followed by an unreact is dropped)
+ * - Applying waiting operations on top of messages, so server snapshots
+ *   don't undo local changes that haven't been replayed yet
+ *
+ * Both are pure and deterministic: the same log and operation always give the same result.
+ */
+
+import { Message, MessageOperation, MessageReactions, OperationRow } from '@/shared/types';
+
+export interface OperationCollapse {
+  operation: MessageOperation | null;   // What to log (null: nothing left to replay)
+  cancelled: MessageOperation[];        // Waiting operations that no longer need replaying
+}
+
+/**
+ * Generate an ID for a logged operation
+ */
+export function createOperationId(): string {
+  return `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Collapse a new operation into the waiting ones (oldest first, sends included)
+ *
+ * - react/unreact: cancels the opposite waiting change of the same emoji; a repeat is dropped
+ * - edit: replaces earlier edits; an unsent message is sent with its latest text instead
+ * - delete: drops waiting reactions and edits of the message; an unsent message
+ *   is cancelled together with everything waiting on it
+ * - markRead: replaces earlier read receipts for the chat, keeping their messages
+ *   and the furthest read watermark
+ * - Nothing is logged for a message that is waiting to be deleted
+ */
+export function collapseOperation(
+  pending: MessageOperation[],
+  operation: MessageOperation
+): OperationCollapse {
+  const sameMessage = pending.filter(
+    p => p.chatId === operation.chatId && p.messageId === operation.messageId && p.type !== 'markRead'
+  );
+  const isSending = sameMessage.some(p => p.type === 'send');
+  const isDeleting = sameMessage.some(p => p.type === 'delete');
+
+  switch (operation.type) {
+    case 'send':
+      return { operation, cancelled: [] };
+
+    case 'react':
+    case 'unreact': {
+      if (isDeleting) {
+        return { operation: null, cancelled: [] };
+      }
+
+      // At most one reaction change per emoji and user waits at any time
+      const waiting = sameMessage.find(
+        p => (p.type === 'react' || p.type === 'unreact') && p.emoji === operation.emoji && p.userId === operation.userId
+      );
+      if (!waiting) {
+        return { operation, cancelled: [] };
+      }
+      return waiting.type === operation.type
+        ? { operation: null, cancelled: [] }        // Already waiting
+        : { operation: null, cancelled: [waiting] }; // The two cancel out
+    }
+
+    case 'edit':
+      if (isDeleting || isSending) {
+        return { operation: null, cancelled: [] };
+      }
+      return { operation, cancelled: sameMessage.filter(p => p.type === 'edit') };
+
+    case 'delete':
+      if (isDeleting) {
+        return { operation: null, cancelled: [] };
+      }
+      if (isSending) {
+        return { operation: null, cancelled: sameMessage };
+      }
+      return { operation, cancelled: sameMessage };
+
+    case 'markRead': {
+      const earlier = pending.filter(
+        (p): p is Extract<MessageOperation, { type: 'markRead' }> =>
+          p.type === 'markRead' && p.chatId === operation.chatId && p.userId === operation.userId
+      );
+      const messageIds = [...new Set([...earlier.flatMap(p => p.messageIds), ...operation.messageIds])];
+      const readUpTo = Math.max(
+        ...[...earlier, operation].map(p => p.readUpTo).filter((t): t is number => typeof t === 'number')
+      );
+      return {
+        operation: { ...operation, messageIds, ...(Number.isFinite(readUpTo) ? { readUpTo } : {}) },
+        cancelled: earlier,
+      };
+    }
+  }
+}
+
+/**
+ * Apply a waiting operation to a message it affects
+ */
+export function applyOperationToMessage<T extends Message>(message: T, operation: MessageOperation): T {
+  if (operation.chatId !== message.chatId) {
+    return message;
+  }
+
+  if (operation.type === 'markRead') {
+    return operation.messageIds.includes(message.id) ? { ...message, status: 'read' } : message;
+  }
+  if (operation.messageId !== message.id) {
+    return message;
+  }
+
+  switch (operation.type) {
+    case 'react': {
+      const users = message.reactions?.[operation.emoji] || [];
+      if (users.includes(operation.userId)) {
+        return message;
+      }
+      return { ...message, reactions: { ...message.reactions, [operation.emoji]: [...users, operation.userId] } };
+    }
+
+    case 'unreact': {
+      const reactions: MessageReactions = { ...message.reactions };
+      const users = (reactions[operation.emoji] || []).filter(id => id !== operation.userId);
+      if (users.length > 0) {
+        reactions[operation.emoji] = users;
+      } else {
+        delete reactions[operation.emoji];
+      }
+      return { ...message, reactions };
+    }
+
+    case 'edit':
+      return { ...message, text: operation.text };
+
+    case 'delete':
+      return { ...message, deletedForEveryone: true };
+
+    default:
+      return message;
+  }
+}
+
+/**
+ * Apply waiting operations, in order, to the messages they affect
+ */
+export function applyOperations<T extends Message>(messages: T[], operations: MessageOperation[]): T[] {
+  if (operations.length === 0) {
+    return messages;
+  }
+  return messages.map(message =>
+    operations.reduce((result, operation) => applyOperationToMessage(result, operation), message)
+  );
+}
+
+/**
+ * Map an operation to its SQLite row (type-specific fields go into the JSON payload)
+ */
+export function toOperationRow(operation: MessageOperation): OperationRow {
+  const { id, type, chatId, messageId, userId, createdAt, attempts, nextAttemptAt, lastError, ...payload } = operation;
+  return {
+    id,
+    type,
+    chatId,
+    messageId,
+    userId,
+    payload: Object.keys(payload).length > 0 ? JSON.stringify(payload) : null,
+    createdAt,
+    attempts: attempts ?? 0,
+    nextAttemptAt: nextAttemptAt ?? 0,
+    lastError: lastError ?? null,
+  };
+}
+
+/**
+ * Map a SQLite row back to an operation
+ */
+export function fromOperationRow(row: OperationRow): MessageOperation {
+  return {
+    ...(row.payload ? JSON.parse(row.payload) : {}),
+    id: row.id,
+    type: row.type,
+    chatId: row.chatId,
+    messageId: row.messageId,
+    userId: row.userId,
+    createdAt: row.createdAt,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt,
+    lastError: row.lastError,
+  } as MessageOperation;
+}
@@ -0,0 +1,81 @@
+/**
+ * Offline Outbox Utilities
+ *
+ * Retry policy for messages waiting to be sent:
+ * - Exponential backoff with jitter between attempts
+ * - Sorting send errors into permanent (give up) and transient (try again)
+ * - Spotting errors caused by having no connection (the change is queued instead)
+ */
+
+export const OUTBOX_BASE_DELAY_MS = 2000;
+export const OUTBOX_MAX_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+export type OutboxErrorKind = 'permanent' | 'transient';
+
+/**
+ * A send error retrying can't fix (e.g. the local file is gone)
+ */
+export class PermanentSendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentSendError';
+  }
+}
+
+// Error codes Firestore and Functions report when the server can't be reached
+const CONNECTIVITY_ERROR_CODES = new Set(['unavailable', 'deadline-exceeded']);
+
+// Firestore, Storage and Functions error codes that fail the same way every time
+const PERMANENT_ERROR_CODES = new Set([
+  'permission-denied',
+  'invalid-argument',
+  'not-found',
+  'failed-precondition',
+  'out-of-range',
+  'unimplemented',
+  'storage/unauthorized',
+  'storage/invalid-argument',
+  'storage/invalid-format',
+  'storage/quota-exceeded',
+]);
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ * Doubles each time up to OUTBOX_MAX_DELAY_MS; half of it is random so
+ * devices coming back online together don't retry in lockstep
+ *
+ * Example: attempts 1 → 1-2s, 2 → 2-4s, 3 → 4-8s
+ */
+export function getRetryDelay(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(OUTBOX_MAX_DELAY_MS, OUTBOX_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Whether a failed send is worth retrying
+ * Unknown errors (network, timeouts, server hiccups) are transient
+ */
+export function classifySendError(error: unknown): OutboxErrorKind {
+  if (error instanceof PermanentSendError) {
+    return 'permanent';
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && PERMANENT_ERROR_CODES.has(code.replace(/^functions\//, ''))) {
+    return 'permanent';
+  }
+  return 'transient';
+}
+
+/**
+ * Whether a request failed because the server couldn't be reached
+ * (as opposed to the server rejecting it)
+ */
+export function isConnectivityError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && CONNECTIVITY_ERROR_CODES.has(code.replace(/^functions\//, ''))) {
+    return true;
+  }
+  return error instanceof Error && /client is offline|network request failed/i.test(error.message);
+}
@@ -0,0 +1,153 @@
+/**
+ * Poll Utilities
+ *
+ * Votes are counted by the votePoll Cloud Function, in a transaction; the app
+ * uses the same arithmetic to show a vote right away (and while offline).
+ */
+
+import { CreatePollData, MessagePoll } from '@/shared/types';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_QUESTION_LENGTH = 300;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+/**
+ * One option's share of the votes
+ */
+export interface PollOptionResult {
+  id: string;
+  text: string;
+  count: number;
+  percentage: number;               // Of the people who voted, 0-100
+  isLeading: boolean;               // Most votes (ties included, never with 0 votes)
+}
+
+/**
+ * The same poll with no votes (as it's first sent)
+ */
+export const clearPollResults = (poll: MessagePoll): MessagePoll => ({
+  ...poll,
+  counts: Object.fromEntries(poll.options.map((option) => [option.id, 0])),
+  voterCount: 0,
+  voters: poll.anonymous ? null : {},
+});
+
+/**
+ * Validate a poll from the composer and turn it into a poll with no votes
+ * Throws with a user-facing message when the poll can't be sent
+ */
+export const createPoll = (draft: CreatePollData, now: number = Date.now()): MessagePoll => {
+  const question = draft.question.trim();
+  if (!question) {
+    throw new Error('Please enter a question');
+  }
+  if (question.length > MAX_POLL_QUESTION_LENGTH) {
+    throw new Error(`Questions can be at most ${MAX_POLL_QUESTION_LENGTH} characters`);
+  }
+
+  const optionTexts = draft.options.map((option) => option.trim()).filter(Boolean);
+  const uniqueTexts = new Set(optionTexts.map((option) => option.toLowerCase()));
+  if (uniqueTexts.size !== optionTexts.length) {
+    throw new Error('Options must be different from each other');
+  }
+  if (optionTexts.length < MIN_POLL_OPTIONS || optionTexts.length > MAX_POLL_OPTIONS) {
+    throw new Error(`Polls need between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`);
+  }
+  if (optionTexts.some((option) => option.length > MAX_POLL_OPTION_LENGTH)) {
+    throw new Error(`Options can be at most ${MAX_POLL_OPTION_LENGTH} characters`);
+  }
+  if (draft.closesAt !== null && draft.closesAt <= now) {
+    throw new Error('The closing time must be in the future');
+  }
+
+  return clearPollResults({
+    question,
+    options: optionTexts.map((text, index) => ({ id: `o${index + 1}`, text })),
+    allowsMultipleChoices: draft.allowsMultipleChoices,
+    anonymous: draft.anonymous,
+    closesAt: draft.closesAt,
+    closedAt: null,
+    counts: {},
+    voterCount: 0,
+  });
+};
+
+/**
+ * Whether voting has ended (closed early, or past its closing time)
+ */
+export const isPollClosed = (poll: MessagePoll, now: number = Date.now()): boolean =>
+  poll.closedAt !== null || (poll.closesAt !== null && poll.closesAt <= now);
+
+/**
+ * Results after a user changes their vote from previousOptionIds to optionIds
+ * An empty optionIds retracts the vote
+ */
+export const applyPollVote = (
+  poll: MessagePoll,
+  userId: string,
+  previousOptionIds: string[],
+  optionIds: string[]
+): MessagePoll => {
+  const counts = { ...poll.counts };
+  const voters = poll.voters
+    ? Object.fromEntries(Object.entries(poll.voters).map(([id, userIds]) => [id, userIds.filter((voter) => voter !== userId)]))
+    : null;
+
+  previousOptionIds.forEach((id) => {
+    counts[id] = Math.max(0, (counts[id] || 0) - 1);
+  });
+  optionIds.forEach((id) => {
+    counts[id] = (counts[id] || 0) + 1;
+    if (voters) {
+      voters[id] = [...(voters[id] || []), userId];
+    }
+  });
+
+  const hadVoted = previousOptionIds.length > 0;
+  const hasVoted = optionIds.length > 0;
+
+  return {
+    ...poll,
+    counts,
+    voterCount: Math.max(0, poll.voterCount + (hasVoted ? 1 : 0) - (hadVoted ? 1 : 0)),
+    ...(poll.anonymous ? {} : { voters }),
+  };
+};
+
+/**
+ * Per-option counts and percentages, in option order
+ */
+export const getPollResults = (poll: MessagePoll): PollOptionResult[] => {
+  const topCount = Math.max(0, ...poll.options.map((option) => poll.counts[option.id] || 0));
+
+  return poll.options.map((option) => {
+    const count = poll.counts[option.id] || 0;
+    return {
+      id: option.id,
+      text: option.text,
+      count,
+      percentage: poll.voterCount > 0 ? Math.round((count / poll.voterCount) * 100) : 0,
+      isLeading: count > 0 && count === topCount,
+    };
+  });
+};
+
+/**
+ * Chat list / reply preview text for a poll
+ */
+export const getPollPreviewText = (poll: Pick<MessagePoll, 'question'> | null | undefined): string =>
+  `📊 ${poll?.question || 'Poll'}`;
+
+/**
+ * One-line outcome, e.g. "Lunch? — Pizza 3, Sushi 1 (closed, 4 voters)"
+ */
+export const formatPollOutcome = (poll: MessagePoll, now: number = Date.now()): string => {
+  const results = getPollResults(poll)
+    .map((result) => `${result.text} ${result.count}`)
+    .join(', ');
+  const status = isPollClosed(poll, now) ? 'closed' : 'open';
+  const voters = `${poll.voterCount} ${poll.voterCount === 1 ? 'voter' : 'voters'}`;
+
+  return `${poll.question} — ${results} (${status}, ${voters})`;
+};
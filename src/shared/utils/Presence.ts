@@ -0,0 +1,98 @@
+/**
+ * Presence Utilities
+ *
+ * Custom statuses and the line shown under a name in chat headers and the
+ * chat list ("Online", "Away", "Last seen 5m ago", ...).
+ */
+
+import { CustomStatus, PresenceState } from '@/shared/types';
+import { format, isToday, isYesterday } from 'date-fns';
+
+export const MAX_STATUS_TEXT_LENGTH = 100;
+
+// Away (app left the foreground) turns into offline after this long
+export const AWAY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Validate a custom status from the status editor
+ * Throws with a user-facing message when the status can't be set
+ */
+export const createCustomStatus = (
+  text: string,
+  emoji: string | null,
+  duration: number | null,
+  now: number = Date.now()
+): CustomStatus => {
+  const trimmed = text.trim();
+  if (!trimmed && !emoji) {
+    throw new Error('Please enter a status or pick an emoji');
+  }
+  if (trimmed.length > MAX_STATUS_TEXT_LENGTH) {
+    throw new Error(`Statuses can be at most ${MAX_STATUS_TEXT_LENGTH} characters`);
+  }
+
+  return {
+    text: trimmed,
+    emoji: emoji || null,
+    expiresAt: duration === null ? null : now + duration,
+  };
+};
+
+/**
+ * The custom status, unless it expired
+ */
+export const getActiveCustomStatus = (
+  status: CustomStatus | null | undefined,
+  now: number = Date.now()
+): CustomStatus | null => {
+  if (!status || (!status.text && !status.emoji)) {
+    return null;
+  }
+  return status.expiresAt !== null && status.expiresAt <= now ? null : status;
+};
+
+/**
+ * "Custom status" as one line (emoji first)
+ */
+export const formatCustomStatus = (status: CustomStatus): string =>
+  [status.emoji, status.text].filter(Boolean).join(' ');
+
+/**
+ * "Last seen ..." for an offline user
+ */
+export const formatLastSeen = (lastSeen: number, now: number = Date.now()): string => {
+  const minutes = Math.floor((now - lastSeen) / 60000);
+  if (minutes < 1) {
+    return 'Last seen just now';
+  }
+  if (minutes < 60) {
+    return `Last seen ${minutes}m ago`;
+  }
+  if (isToday(lastSeen)) {
+    return `Last seen today at ${format(lastSeen, 'HH:mm')}`;
+  }
+  if (isYesterday(lastSeen)) {
+    return `Last seen yesterday at ${format(lastSeen, 'HH:mm')}`;
+  }
+  return `Last seen ${format(lastSeen, 'MMM d')}`;
+};
+
+/**
+ * Presence line for a user
+ * Null when offline with a hidden last seen (privacy setting)
+ */
+export const getPresenceLabel = (
+  presence: { state: PresenceState; lastSeen: number | null },
+  now: number = Date.now()
+): string | null => {
+  switch (presence.state) {
+    case 'online':
+      return 'Online';
+    case 'away':
+      return 'Away';
+    case 'dnd':
+      return 'Do not disturb';
+    case 'offline':
+      return presence.lastSeen !== null ? formatLastSeen(presence.lastSeen, now) : null;
+  }
+};
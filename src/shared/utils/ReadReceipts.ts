@@ -0,0 +1,92 @@
+/**
+ * Read Receipt Utilities
+ *
+ * Each participant document keeps a read and a delivered watermark: the timestamp
+ * of the newest message read / delivered, standing for every message up to it.
+ * Receipts of a single message are derived from those, so a group message doesn't
+ * need a write per recipient.
+ */
+
+import { Message, MessageStatus, ParticipantReadState } from '@/shared/types';
+
+/**
+ * Who a message reached (the sender and people who joined later are left out)
+ */
+export interface MessageReceipts {
+  readBy: string[];
+  deliveredTo: string[];            // Delivered but not read yet
+  pending: string[];                // Not on any of their devices yet
+}
+
+// Message timestamps may still be Dates when they come from a listener
+const toMillis = (timestamp: Message['timestamp']): number =>
+  typeof timestamp === 'number' ? timestamp : (timestamp as unknown as Date)?.getTime?.() ?? 0;
+
+/**
+ * Receipts of one message
+ */
+export const getMessageReceipts = (
+  message: Pick<Message, 'senderId' | 'timestamp'>,
+  readStates: ParticipantReadState[]
+): MessageReceipts => {
+  const sentAt = toMillis(message.timestamp);
+  const receipts: MessageReceipts = { readBy: [], deliveredTo: [], pending: [] };
+
+  for (const state of readStates) {
+    if (state.userId === message.senderId || state.joinedAt > sentAt) {
+      continue;
+    }
+    if ((state.readWatermark ?? 0) >= sentAt) {
+      receipts.readBy.push(state.userId);
+    } else if ((state.deliveredWatermark ?? 0) >= sentAt) {
+      receipts.deliveredTo.push(state.userId);
+    } else {
+      receipts.pending.push(state.userId);
+    }
+  }
+
+  return receipts;
+};
+
+/**
+ * Status of one message across every recipient: read once everyone read it,
+ * delivered once it reached everyone
+ * Null when no recipient has watermarks yet (the message's own status applies)
+ */
+export const getReceiptStatus = (
+  message: Pick<Message, 'senderId' | 'timestamp'>,
+  readStates: ParticipantReadState[]
+): MessageStatus | null => {
+  const recipients = readStates.filter(state => state.userId !== message.senderId);
+  if (!recipients.some(state => state.readWatermark !== null || state.deliveredWatermark !== null)) {
+    return null;
+  }
+
+  const { deliveredTo, pending } = getMessageReceipts(message, readStates);
+  if (pending.length > 0) {
+    return 'sent';
+  }
+  return deliveredTo.length > 0 ? 'delivered' : 'read';
+};
+
+/**
+ * Show the aggregated receipt status on the user's own sent messages
+ * Messages still sending (or failed) keep their status.
+ */
+export const applyReceiptStatus = <T extends Message>(
+  messages: T[],
+  readStates: ParticipantReadState[],
+  userId: string
+): T[] => {
+  if (readStates.length === 0) {
+    return messages;
+  }
+
+  return messages.map(message => {
+    if (message.senderId !== userId || !['sent', 'delivered', 'read'].includes(message.status)) {
+      return message;
+    }
+    const status = getReceiptStatus(message, readStates);
+    return status && status !== message.status ? { ...message, status } : message;
+  });
+};
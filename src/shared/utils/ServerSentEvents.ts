@@ -0,0 +1,54 @@
+/**
+ * Server-Sent Events Utilities
+ *
+ * React Native has no EventSource, and streamed responses arrive as
+ * arbitrary slices of text, so events are split out here.
+ */
+
+export interface ServerSentEvent {
+  event: string;              // 'message' when the server didn't name it
+  data: string;               // Multi-line data joined with '\n'
+}
+
+/**
+ * Incremental SSE parser: feed it text as it arrives, get whole events back
+ * (a partial event is kept until the rest of it arrives)
+ */
+export const createSSEParser = (onEvent: (event: ServerSentEvent) => void) => {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    // The last piece may be an unfinished line
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        dispatch();
+        continue;
+      }
+      if (line.startsWith(':')) continue; // Comment / keep-alive
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        eventName = value;
+      } else if (field === 'data') {
+        dataLines.push(value);
+      }
+    }
+  };
+};
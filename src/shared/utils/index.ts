@@ -4,19 +4,31 @@
  * Central export point for all utility functions
  */
 
+export * from './AIAssistantCitations';
+export * from './ChatPreferences';
+export * from './GroupRoles';
+export * from './InviteLinks';
 export * from './Logger';
+export * from './MessageRows';
+export * from './MessageSearch';
+export * from './OperationLog';
+export * from './Outbox';
+export * from './Polls';
+export * from './Presence';
 export * from './ProfilePictureGenerator';
+export * from './ReadReceipts';
+export * from './ServerSentEvents';
 export * from './Validation';
 
 /**
  * Generate a random invite code for groups
- * Format: 6 uppercase alphanumeric characters
+ * Format: uppercase alphanumeric characters (6 by default)
  * Example: "A3K9XZ"
  */
-export function generateInviteCode(): string {
+export function generateInviteCode(length: number = 6): string {
   const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
   let code = '';
-  for (let i = 0; i < 6; i++) {
+  for (let i = 0; i < length; i++) {
     code += characters.charAt(Math.floor(Math.random() * characters.length));
   }
   return code;
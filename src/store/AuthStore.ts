@@ -6,6 +6,7 @@
 
 import { SQLiteService } from '@/database/SQLiteService';
 import { AuthService } from '@/services/firebase/AuthService';
+import { EncryptionService } from '@/services/firebase/EncryptionService';
 import { UserService } from '@/services/firebase/UserService';
 import { User } from '@/shared/types';
 import { User as FirebaseUser } from 'firebase/auth';
@@ -208,6 +209,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         console.warn('⚠️ Failed to cleanup AI Assistant history:', aiCleanupError);
       }
       
+      // Forget cached encryption keys (the device key pair stays in the keychain)
+      EncryptionService.clearCache();
+      
       await AuthService.signOut();
       
       // Clear state
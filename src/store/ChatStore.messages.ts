@@ -2,18 +2,62 @@
  * ChatStore - Message Actions
  * 
  * Handles:
- * - Sending messages (text & image)
+ * - Sending messages (text, image, voice & file)
  * - Message status updates
  * - Message deletion
+ * - Message editing
+ * - Quote replies and sub-thread replies
  * - Reactions
  * - Mark as read
+ *
+ * Reactions, edits, deletions and read receipts are applied locally first and
+ * go through the MessageQueue operation log, so they work offline too
  */
 
+import { MessageQueue } from '@/database/MessageQueue';
 import { SQLiteService } from '@/database/SQLiteService';
-import { ChatService, MessageService } from '@/services/firebase';
-import { Message, MessageStatus } from '@/shared/types';
+import { ChatService, MessageService, MessagingService } from '@/services/firebase';
+import { Message, MessageOperation, MessageReplyOptions, MessageStatus } from '@/shared/types';
+import { applyOperationToMessage, createOperationId } from '@/shared/utils/OperationLog';
 import NetInfo from '@react-native-community/netinfo';
 
+// Never reached Firestore (still queued, or given up)
+const isUnsent = (message: Message): boolean =>
+  message.syncStatus === 'pending' || message.syncStatus === 'failed';
+
+// Change a reaction in state, then log it; SQLite is updated once it's applied or queued
+const submitReaction = async (set: any, get: any, operation: MessageOperation): Promise<void> => {
+  const previousMessage: Message | undefined = get().messages.find((m: Message) => m.id === operation.messageId);
+
+  set((state: any) => ({
+    messages: state.messages.map((msg: Message) => applyOperationToMessage(msg, operation)),
+  }));
+
+  try {
+    await MessageQueue.submitOperation(operation);
+  } catch (error) {
+    // Revert optimistic update
+    if (previousMessage) {
+      set((state: any) => ({
+        messages: state.messages.map((msg: Message) =>
+          msg.id === operation.messageId ? previousMessage : msg
+        ),
+      }));
+    }
+    throw error;
+  }
+
+  // Update in SQLite
+  const messageRow = await SQLiteService.getMessageById(operation.messageId);
+  if (messageRow) {
+    const { reactions } = applyOperationToMessage(
+      { id: messageRow.id, chatId: messageRow.chatId, reactions: messageRow.reactions ? JSON.parse(messageRow.reactions) : {} } as Message,
+      operation
+    );
+    await SQLiteService.updateReactions(operation.messageId, reactions);
+  }
+};
+
 export const createMessageActions = (set: any, get: any) => ({
   // Send a new message (optimistic update)
   sendMessage: async (chatId: string, senderId: string, text: string, translationMetadata?: {
@@ -21,7 +65,7 @@ export const createMessageActions = (set: any, get: any) => ({
     originalLanguage?: string;
     translatedTo?: string;
     sentAsTranslation?: boolean;
-  }) => {
+  }, replyOptions?: MessageReplyOptions) => {
     try {
       // Check network status to determine if we should queue or send immediately
       const networkState = await NetInfo.fetch();
@@ -53,11 +97,26 @@ export const createMessageActions = (set: any, get: any) => ({
         originalLanguage: translationMetadata?.originalLanguage,
         translatedTo: translationMetadata?.translatedTo,
         sentAsTranslation: translationMetadata?.sentAsTranslation,
+        // Reply metadata
+        replyToId: replyOptions?.replyToId || null,
+        replyPreview: replyOptions?.replyPreview || null,
+        threadId: replyOptions?.threadId || null,
       };
 
       // Add to state immediately (optimistic update)
+      // Sub-thread replies also bump the root message's reply count
       const { messages } = get();
-      set({ messages: [...messages, optimisticMessage] });
+      const threadId = replyOptions?.threadId;
+      set({
+        messages: [
+          ...(threadId
+            ? messages.map((msg: Message) => msg.id === threadId
+                ? { ...msg, threadReplyCount: (msg.threadReplyCount || 0) + 1, threadLastReplyAt: optimisticMessage.timestamp }
+                : msg)
+            : messages),
+          optimisticMessage,
+        ],
+      });
 
       // Save to SQLite with pending status (convert to MessageRow)
       const messageRow: any = {
@@ -82,6 +141,10 @@ export const createMessageActions = (set: any, get: any) => ({
         originalLanguage: optimisticMessage.originalLanguage,
         translatedTo: optimisticMessage.translatedTo,
         sentAsTranslation: optimisticMessage.sentAsTranslation ? 1 : 0,
+        // Reply metadata (carried into the offline queue)
+        replyToId: optimisticMessage.replyToId,
+        replyPreview: optimisticMessage.replyPreview ? JSON.stringify(optimisticMessage.replyPreview) : null,
+        threadId: optimisticMessage.threadId,
       };
       
       // Save to SQLite synchronously (wait for it)
@@ -98,7 +161,7 @@ export const createMessageActions = (set: any, get: any) => ({
 
       // Upload to Firestore in background with the same ID (online only)
       try {
-        await MessageService.sendMessage(chatId, senderId, text, messageId, undefined, translationMetadata);
+        await MessageService.sendMessage(chatId, senderId, text, messageId, undefined, translationMetadata, replyOptions);
         
         // FIRST: Increment unread count for other participants (before updating chat document)
         const { chats } = get();
@@ -170,6 +233,9 @@ export const createMessageActions = (set: any, get: any) => ({
           deletedForMe: 0,
           deletedForEveryone: 0,
           syncStatus: failedMessage.syncStatus,
+          replyToId: failedMessage.replyToId,
+          replyPreview: failedMessage.replyPreview ? JSON.stringify(failedMessage.replyPreview) : null,
+          threadId: failedMessage.threadId,
         };
         // Non-blocking save, ignore errors
         SQLiteService.saveMessage(failedRow).catch(() => {});
@@ -186,20 +252,17 @@ export const createMessageActions = (set: any, get: any) => ({
   // Send image message with optional caption
   sendImageMessage: async (chatId: string, senderId: string, imageUri: string, caption?: string) => {
     try {
-      // Check network status before sending
+      // Check network status to determine if we should queue or send immediately
       const networkState = await NetInfo.fetch();
       const isOnline = networkState.isConnected && (networkState.isInternetReachable === null || networkState.isInternetReachable === true);
       
-      // For now, block image uploads when offline (images need to be uploaded first)
-      // TODO: Implement offline image queuing with local storage
-      if (!isOnline) {
-        throw new Error('No internet connection. Please try again when you\'re online.');
-      }
-      
       const { StorageService } = await import('@/services/firebase');
       
       // Generate unique message ID
       const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      // Offline: keep a copy the OS won't clear before MessageQueue uploads it
+      const localImageUri = isOnline ? imageUri : await StorageService.keepImageForUpload(messageId, imageUri);
       
       // Create optimistic message with placeholder image
       const optimisticMessage: Message = {
@@ -210,8 +273,8 @@ export const createMessageActions = (set: any, get: any) => ({
         timestamp: Date.now(),
         status: 'sending',
         type: 'image',
-        imageUrl: imageUri, // Use local URI temporarily
-        thumbnailUrl: imageUri, // Use local URI temporarily
+        imageUrl: localImageUri, // Use local URI temporarily
+        thumbnailUrl: localImageUri, // Use local URI temporarily
         caption: caption || null,
         reactions: {},
         deletedFor: [],
@@ -241,6 +304,14 @@ export const createMessageActions = (set: any, get: any) => ({
         deletedForEveryone: 0,
         syncStatus: optimisticMessage.syncStatus,
       };
+
+      // Offline: the pending row is the queue entry, so it has to be saved
+      if (!isOnline) {
+        await SQLiteService.saveMessage(messageRow);
+        console.log('📱 Offline: Image queued locally, will upload when online');
+        return;
+      }
+
       // Non-blocking save, ignore errors
       SQLiteService.saveMessage(messageRow).catch(() => {});
 
@@ -331,6 +402,322 @@ export const createMessageActions = (set: any, get: any) => ({
     }
   },
 
+  // Send a voice message (optimistic update, upload progress tracked on the message)
+  sendVoiceMessage: async (
+    chatId: string,
+    senderId: string,
+    audioUri: string,
+    audioDuration: number,
+    waveform: number[],
+    replyOptions?: MessageReplyOptions
+  ) => {
+    try {
+      const networkState = await NetInfo.fetch();
+      const isOnline = networkState.isConnected && (networkState.isInternetReachable === null || networkState.isInternetReachable === true);
+
+      const { StorageService } = await import('@/services/firebase');
+
+      // Generate unique message ID
+      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      // Create optimistic message with the local recording
+      const optimisticMessage: Message = {
+        id: messageId,
+        chatId,
+        senderId,
+        text: '', // Transcript is filled in server-side
+        timestamp: Date.now(),
+        status: 'sending',
+        type: 'voice',
+        imageUrl: null,
+        thumbnailUrl: null,
+        caption: null,
+        audioUrl: audioUri, // Use local URI temporarily
+        audioDuration,
+        waveform,
+        transcriptionStatus: 'pending',
+        uploadProgress: 0,
+        reactions: {},
+        deletedFor: [],
+        deletedForEveryone: false,
+        deletedAt: null,
+        syncStatus: 'pending',
+        replyToId: replyOptions?.replyToId || null,
+        replyPreview: replyOptions?.replyPreview || null,
+        threadId: replyOptions?.threadId || null,
+      };
+
+      // Add to state immediately (optimistic update)
+      const { messages } = get();
+      set({ messages: [...messages, optimisticMessage] });
+
+      // Save to SQLite with pending status - MessageQueue uploads it if we go offline
+      const messageRow: any = {
+        id: optimisticMessage.id,
+        chatId: optimisticMessage.chatId,
+        senderId: optimisticMessage.senderId,
+        text: optimisticMessage.text,
+        timestamp: optimisticMessage.timestamp,
+        status: optimisticMessage.status,
+        type: optimisticMessage.type,
+        imageUrl: null,
+        thumbnailUrl: null,
+        caption: null,
+        reactions: JSON.stringify(optimisticMessage.reactions || {}),
+        deletedForMe: 0,
+        deletedForEveryone: 0,
+        syncStatus: optimisticMessage.syncStatus,
+        audioUrl: optimisticMessage.audioUrl,
+        audioDuration: optimisticMessage.audioDuration,
+        waveform: JSON.stringify(waveform),
+        transcriptionStatus: optimisticMessage.transcriptionStatus,
+        replyToId: optimisticMessage.replyToId,
+        replyPreview: optimisticMessage.replyPreview ? JSON.stringify(optimisticMessage.replyPreview) : null,
+        threadId: optimisticMessage.threadId,
+      };
+      await SQLiteService.saveMessage(messageRow);
+
+      if (!isOnline) {
+        console.log('📱 Offline: Voice message queued locally, will upload when online');
+        return;
+      }
+
+      try {
+        // Upload recording, reflecting progress on the optimistic message
+        let lastProgress = 0;
+        const audioUrl = await StorageService.uploadVoiceMessage(
+          chatId,
+          messageId,
+          audioUri,
+          ({ progress }) => {
+            const rounded = Math.round(progress);
+            if (rounded === lastProgress) return;
+            lastProgress = rounded;
+            set((state: any) => ({
+              messages: state.messages.map((msg: Message) =>
+                msg.id === messageId ? { ...msg, uploadProgress: rounded } : msg
+              ),
+            }));
+          }
+        );
+
+        await MessageService.sendMessage(chatId, senderId, '', messageId, {
+          type: 'voice',
+          audioUrl,
+          audioDuration,
+          waveform,
+        }, undefined, replyOptions);
+
+        // Increment unread count for other participants
+        const { chats } = get();
+        const currentChat = chats.find((c: any) => c.id === chatId);
+        if (currentChat) {
+          const otherParticipants = currentChat.participants.filter((id: string) => id !== senderId);
+          for (const participantId of otherParticipants) {
+            try {
+              await ChatService.incrementUnreadCount(chatId, participantId);
+            } catch (error) {
+              console.error('❌ Error incrementing unread count:', error);
+            }
+          }
+        }
+
+        await ChatService.updateChatLastMessage(chatId, '🎤 Voice message', senderId, 'sent', optimisticMessage.timestamp);
+
+        // Swap in the remote URL
+        set((state: any) => ({
+          messages: state.messages.map((msg: Message) =>
+            msg.id === messageId
+              ? { ...msg, audioUrl, uploadProgress: undefined, syncStatus: 'synced' as const }
+              : msg
+          ),
+        }));
+
+        // Non-blocking save, ignore errors
+        SQLiteService.saveMessage({ ...messageRow, audioUrl, syncStatus: 'synced' }).catch(() => {});
+      } catch (uploadError) {
+        console.error('❌ Error uploading voice message:', uploadError);
+
+        set((state: any) => ({
+          messages: state.messages.map((msg: Message) =>
+            msg.id === messageId
+              ? { ...msg, uploadProgress: undefined, syncStatus: 'failed' as const }
+              : msg
+          ),
+        }));
+
+        // Non-blocking save, ignore errors
+        SQLiteService.saveMessage({ ...messageRow, syncStatus: 'failed' }).catch(() => {});
+
+        throw uploadError;
+      }
+    } catch (error) {
+      console.error('Error sending voice message:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Send a file attachment (optimistic update, upload progress tracked on the message)
+  sendFileMessage: async (
+    chatId: string,
+    senderId: string,
+    fileUri: string,
+    fileName: string,
+    mimeType: string,
+    fileSize: number,
+    replyOptions?: MessageReplyOptions
+  ) => {
+    try {
+      const networkState = await NetInfo.fetch();
+      const isOnline = networkState.isConnected && (networkState.isInternetReachable === null || networkState.isInternetReachable === true);
+
+      const { FileTransferService } = await import('@/services/firebase');
+
+      // Generate unique message ID
+      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      // Create optimistic message with the local file
+      const optimisticMessage: Message = {
+        id: messageId,
+        chatId,
+        senderId,
+        text: '',
+        timestamp: Date.now(),
+        status: 'sending',
+        type: 'file',
+        imageUrl: null,
+        thumbnailUrl: null,
+        caption: null,
+        fileUrl: fileUri, // Use local URI temporarily
+        fileName,
+        mimeType,
+        fileSize,
+        uploadProgress: 0,
+        reactions: {},
+        deletedFor: [],
+        deletedForEveryone: false,
+        deletedAt: null,
+        syncStatus: 'pending',
+        replyToId: replyOptions?.replyToId || null,
+        replyPreview: replyOptions?.replyPreview || null,
+        threadId: replyOptions?.threadId || null,
+      };
+
+      // Add to state immediately (optimistic update)
+      const { messages } = get();
+      set({ messages: [...messages, optimisticMessage] });
+
+      // Save to SQLite with pending status - MessageQueue uploads it if we go offline
+      const messageRow: any = {
+        id: optimisticMessage.id,
+        chatId: optimisticMessage.chatId,
+        senderId: optimisticMessage.senderId,
+        text: optimisticMessage.text,
+        timestamp: optimisticMessage.timestamp,
+        status: optimisticMessage.status,
+        type: optimisticMessage.type,
+        imageUrl: null,
+        thumbnailUrl: null,
+        caption: null,
+        reactions: JSON.stringify(optimisticMessage.reactions || {}),
+        deletedForMe: 0,
+        deletedForEveryone: 0,
+        syncStatus: optimisticMessage.syncStatus,
+        fileUrl: optimisticMessage.fileUrl,
+        fileName,
+        mimeType,
+        fileSize,
+        replyToId: optimisticMessage.replyToId,
+        replyPreview: optimisticMessage.replyPreview ? JSON.stringify(optimisticMessage.replyPreview) : null,
+        threadId: optimisticMessage.threadId,
+      };
+      await SQLiteService.saveMessage(messageRow);
+
+      if (!isOnline) {
+        console.log('📱 Offline: File queued locally, will upload when online');
+        return;
+      }
+
+      try {
+        // Upload file, reflecting progress on the optimistic message
+        let lastProgress = 0;
+        const fileUrl = await FileTransferService.uploadMessageFile(
+          chatId,
+          messageId,
+          fileUri,
+          fileName,
+          mimeType,
+          ({ progress }) => {
+            const rounded = Math.round(progress);
+            if (rounded === lastProgress) return;
+            lastProgress = rounded;
+            set((state: any) => ({
+              messages: state.messages.map((msg: Message) =>
+                msg.id === messageId ? { ...msg, uploadProgress: rounded } : msg
+              ),
+            }));
+          }
+        );
+
+        await MessageService.sendMessage(chatId, senderId, '', messageId, {
+          type: 'file',
+          fileUrl,
+          fileName,
+          mimeType,
+          fileSize,
+        }, undefined, replyOptions);
+
+        // Increment unread count for other participants
+        const { chats } = get();
+        const currentChat = chats.find((c: any) => c.id === chatId);
+        if (currentChat) {
+          const otherParticipants = currentChat.participants.filter((id: string) => id !== senderId);
+          for (const participantId of otherParticipants) {
+            try {
+              await ChatService.incrementUnreadCount(chatId, participantId);
+            } catch (error) {
+              console.error('❌ Error incrementing unread count:', error);
+            }
+          }
+        }
+
+        await ChatService.updateChatLastMessage(chatId, `📎 ${fileName}`, senderId, 'sent', optimisticMessage.timestamp);
+
+        // Swap in the remote URL
+        set((state: any) => ({
+          messages: state.messages.map((msg: Message) =>
+            msg.id === messageId
+              ? { ...msg, fileUrl, uploadProgress: undefined, syncStatus: 'synced' as const }
+              : msg
+          ),
+        }));
+
+        // Non-blocking save, ignore errors
+        SQLiteService.saveMessage({ ...messageRow, fileUrl, syncStatus: 'synced' }).catch(() => {});
+      } catch (uploadError) {
+        console.error('❌ Error uploading file:', uploadError);
+
+        set((state: any) => ({
+          messages: state.messages.map((msg: Message) =>
+            msg.id === messageId
+              ? { ...msg, uploadProgress: undefined, syncStatus: 'failed' as const }
+              : msg
+          ),
+        }));
+
+        // Non-blocking save, ignore errors
+        SQLiteService.saveMessage({ ...messageRow, syncStatus: 'failed' }).catch(() => {});
+
+        throw uploadError;
+      }
+    } catch (error) {
+      console.error('Error sending file:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   // Update message status (sent → delivered → read)
   updateMessageStatus: async (chatId: string, messageId: string, status: MessageStatus) => {
     try {
@@ -408,52 +795,172 @@ export const createMessageActions = (set: any, get: any) => ({
     }
   },
 
-  // Add reaction to a message
-  addReaction: async (chatId: string, messageId: string, emoji: string, userId: string) => {
+  // Edit a sent text message (optimistic update, reverted on failure)
+  editMessage: async (chatId: string, messageId: string, userId: string, newText: string) => {
+    const previousMessage: Message | undefined = get().messages.find((m: Message) => m.id === messageId);
+    if (!previousMessage) {
+      throw new Error('Message not found');
+    }
+
+    const trimmedText = newText.trim();
+    if (trimmedText === previousMessage.text) {
+      return;
+    }
+
+    // An unsent message is simply sent with the new text, without edit history
+    const unsent = isUnsent(previousMessage);
+    const optimisticEditedAt = Date.now();
+    const optimisticHistory = [...(previousMessage.editHistory || []), { text: previousMessage.text, editedAt: optimisticEditedAt }];
+    set((state: any) => ({
+      messages: state.messages.map((msg: Message) =>
+        msg.id === messageId
+          ? {
+              ...msg,
+              text: trimmedText,
+              ...(unsent ? {} : { editedAt: optimisticEditedAt, editHistory: optimisticHistory }),
+              translations: {}, // Old translations no longer match the text
+            }
+          : msg
+      ),
+    }));
+
     try {
-      await MessageService.addReaction(chatId, messageId, emoji, userId);
-      
-      // Update in SQLite
-      const messageRow = await SQLiteService.getMessageById(messageId);
-      if (messageRow) {
-        const reactions = messageRow.reactions ? JSON.parse(messageRow.reactions) : {};
-        if (!reactions[emoji]) {
-          reactions[emoji] = [];
-        }
-        if (!reactions[emoji].includes(userId)) {
-          reactions[emoji].push(userId);
+      const result = await MessageQueue.submitOperation({
+        id: createOperationId(),
+        type: 'edit',
+        chatId,
+        messageId,
+        userId,
+        text: trimmedText,
+        createdAt: optimisticEditedAt,
+      });
+
+      // Drop the cached cultural analysis of the old text
+      SQLiteService.deleteCulturalAnalysis(messageId, chatId).catch(() => {});
+
+      if (result === 'queued') {
+        // Keep the edit in SQLite until it's replayed
+        const messageRow = await SQLiteService.getMessageById(messageId);
+        if (messageRow && unsent) {
+          await SQLiteService.saveMessage({ ...messageRow, text: trimmedText, translations: null });
+        } else if (messageRow) {
+          await SQLiteService.updateMessageText(messageId, trimmedText, optimisticEditedAt, optimisticHistory);
         }
-        await SQLiteService.updateReactions(messageId, reactions);
+        return;
       }
+
+      // If this was the last message, refresh the chat preview (keep original timestamp)
+      const currentChat = get().chats.find((c: any) => c.id === chatId);
+      const lastMessage = [...get().messages]
+        .filter((m: Message) => m.chatId === chatId)
+        .sort((a: Message, b: Message) => b.timestamp - a.timestamp)[0];
+      if (currentChat && lastMessage?.id === messageId) {
+        await ChatService.updateChatLastMessage(
+          chatId,
+          trimmedText,
+          previousMessage.senderId,
+          currentChat.lastMessageStatus,
+          previousMessage.timestamp
+        );
+      }
+    } catch (error) {
+      console.error('Error editing message:', error);
+
+      // Revert optimistic update
+      set((state: any) => ({
+        messages: state.messages.map((msg: Message) =>
+          msg.id === messageId ? previousMessage : msg
+        ),
+        error: (error as Error).message,
+      }));
+      throw error;
+    }
+  },
+
+  // Add reaction to a message (optimistic update, queued while offline)
+  addReaction: async (chatId: string, messageId: string, emoji: string, userId: string) => {
+    try {
+      await submitReaction(set, get, {
+        id: createOperationId(),
+        type: 'react',
+        chatId,
+        messageId,
+        userId,
+        emoji,
+        createdAt: Date.now(),
+      });
     } catch (error) {
       console.error('Error adding reaction:', error);
       throw error;
     }
   },
 
-  // Remove reaction from a message
+  // Remove reaction from a message (optimistic update, queued while offline)
   removeReaction: async (chatId: string, messageId: string, emoji: string, userId: string) => {
     try {
-      await MessageService.removeReaction(chatId, messageId, emoji, userId);
-      
-      // Update in SQLite
-      const messageRow = await SQLiteService.getMessageById(messageId);
-      if (messageRow) {
-        const reactions = messageRow.reactions ? JSON.parse(messageRow.reactions) : {};
-        if (reactions[emoji]) {
-          reactions[emoji] = reactions[emoji].filter((id: string) => id !== userId);
-          if (reactions[emoji].length === 0) {
-            delete reactions[emoji];
-          }
-        }
-        await SQLiteService.updateReactions(messageId, reactions);
-      }
+      await submitReaction(set, get, {
+        id: createOperationId(),
+        type: 'unreact',
+        chatId,
+        messageId,
+        userId,
+        emoji,
+        createdAt: Date.now(),
+      });
     } catch (error) {
       console.error('Error removing reaction:', error);
       throw error;
     }
   },
 
+  // Delete an own message for everyone (optimistic update, queued while offline)
+  // A message that was never sent is just dropped
+  deleteMessageForEveryone: async (chatId: string, messageId: string, userId: string) => {
+    const previousMessage: Message | undefined = get().messages.find((m: Message) => m.id === messageId);
+    if (!previousMessage) {
+      throw new Error('Message not found');
+    }
+    if (previousMessage.senderId !== userId) {
+      throw new Error('You can only delete your own messages');
+    }
+
+    const unsent = isUnsent(previousMessage);
+    const operation: MessageOperation = {
+      id: createOperationId(),
+      type: 'delete',
+      chatId,
+      messageId,
+      userId,
+      createdAt: Date.now(),
+    };
+
+    set((state: any) => ({
+      messages: unsent
+        ? state.messages.filter((msg: Message) => msg.id !== messageId)
+        : state.messages.map((msg: Message) => applyOperationToMessage(msg, operation)),
+    }));
+
+    try {
+      await MessageQueue.submitOperation(operation);
+
+      // Unsent messages were removed from SQLite by the queue
+      if (!unsent) {
+        await SQLiteService.deleteMessageForEveryone(messageId);
+      }
+    } catch (error) {
+      console.error('Error deleting message for everyone:', error);
+
+      // Revert optimistic update
+      set((state: any) => ({
+        messages: unsent
+          ? [...state.messages, previousMessage].sort((a: Message, b: Message) => a.timestamp - b.timestamp)
+          : state.messages.map((msg: Message) => msg.id === messageId ? previousMessage : msg),
+        error: (error as Error).message,
+      }));
+      throw error;
+    }
+  },
+
   // Mark chat as read (updates all unread messages to "read" status)
   markChatAsRead: async (chatId: string, userId: string) => {
     try {
@@ -470,6 +977,7 @@ export const createMessageActions = (set: any, get: any) => ({
         return chat;
       });
       set({ chats: updatedChatsOptimistic });
+      MessagingService.setBadgeCount(updatedChatsOptimistic);
       
       // Get messages for this chat only and sort by timestamp to get the ACTUAL last message
       const chatMessages = messages.filter((m: Message) => m.chatId === chatId);
@@ -480,44 +988,40 @@ export const createMessageActions = (set: any, get: any) => ({
       });
       const lastMessage = sortedMessages[0]; // Most recent message
       
-      if (lastMessage) {
-        await ChatService.markChatAsRead(chatId, userId, lastMessage.id);
-      }
-      
       // Mark all messages from other users as "read"
       const unreadMessages = chatMessages.filter(
         (msg: Message) => msg.senderId !== userId && (msg.status === 'delivered' || msg.status === 'sent')
       );
+      const unreadIds = new Set<string>(unreadMessages.map((msg: Message) => msg.id));
+      set({
+        messages: get().messages.map((m: Message) =>
+          unreadIds.has(m.id) ? { ...m, status: 'read' as MessageStatus } : m
+        ),
+      });
       
-      for (const msg of unreadMessages) {
-        try {
-          await MessageService.updateMessageStatus(chatId, msg.id, 'read');
-          // Update in local state
-          const updatedMessages = get().messages.map((m: Message) =>
-            m.id === msg.id ? { ...m, status: 'read' as MessageStatus } : m
-          );
-          set({ messages: updatedMessages });
-        } catch (error) {
-          console.error('Error marking message as read:', msg.id, error);
-        }
-      }
-      
-      // If the last message was from someone else, update chat's lastMessageStatus to "read"
-      if (lastMessage && lastMessage.senderId !== userId) {
+      // Send the read receipt (logged for later while offline)
+      // If the last message was from someone else, the chat's lastMessageStatus becomes "read"
+      if (lastMessage) {
         const messageTimestamp = typeof lastMessage.timestamp === 'number' 
           ? lastMessage.timestamp 
           : (lastMessage.timestamp as any)?.getTime?.() || Date.now();
-        await ChatService.updateChatLastMessage(
+        await MessageQueue.submitOperation({
+          id: createOperationId(),
+          type: 'markRead',
           chatId,
-          lastMessage.text,
-          lastMessage.senderId,
-          'read',
-          messageTimestamp
-        );
+          messageId: lastMessage.id,
+          userId,
+          createdAt: Date.now(),
+          messageIds: [...unreadIds],
+          readUpTo: messageTimestamp,
+          lastMessage: lastMessage.senderId !== userId
+            ? { text: lastMessage.text, senderId: lastMessage.senderId, timestamp: messageTimestamp }
+            : null,
+        });
       }
       
       // Update chat list with final status
-      const updatedChats = chats.map((chat: any) => {
+      const updatedChats = get().chats.map((chat: any) => {
         if (chat.id === chatId) {
           return {
             ...chat,
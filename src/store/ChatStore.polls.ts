@@ -0,0 +1,244 @@
+/**
+ * ChatStore - Poll Actions
+ *
+ * Handles:
+ * - Sending polls (optimistic, queued offline like text messages)
+ * - Voting, with results updated right away and the vote queued offline
+ * - Closing polls early
+ *
+ * Votes are counted by the votePoll Cloud Function; the current user's own
+ * votes are cached in SQLite (poll_votes) and in pollVotes (message ID →
+ * option IDs, [] for "hasn't voted").
+ */
+
+import { SQLiteService } from '@/database/SQLiteService';
+import { ChatService, MessageService, PollService } from '@/services/firebase';
+import { CreatePollData, Message, MessagePoll } from '@/shared/types';
+import { applyPollVote, createPoll, getPollPreviewText, isPollClosed } from '@/shared/utils';
+import NetInfo from '@react-native-community/netinfo';
+
+const isNetworkOnline = async (): Promise<boolean> => {
+  const networkState = await NetInfo.fetch();
+  return !!networkState.isConnected && (networkState.isInternetReachable === null || networkState.isInternetReachable === true);
+};
+
+export const createPollActions = (set: any, get: any) => {
+  // Replace a poll's results in state and SQLite
+  const setMessagePoll = (messageId: string, poll: MessagePoll) => {
+    set((state: any) => ({
+      messages: state.messages.map((msg: Message) => msg.id === messageId ? { ...msg, poll } : msg),
+    }));
+    SQLiteService.updateMessagePoll(messageId, poll).catch(() => {});
+  };
+
+  const setPollVote = (messageId: string, optionIds: string[]) => {
+    set((state: any) => ({ pollVotes: { ...state.pollVotes, [messageId]: optionIds } }));
+  };
+
+  return {
+    // Send a new poll (optimistic update, queued when offline)
+    sendPollMessage: async (chatId: string, senderId: string, draft: CreatePollData) => {
+      const currentChat = get().chats.find((c: any) => c.id === chatId);
+      if (currentChat?.encrypted) {
+        throw new Error('Polls aren\'t available in end-to-end encrypted chats');
+      }
+
+      // Throws with a user-facing message for invalid polls
+      const poll = createPoll(draft);
+
+      try {
+        const isOnline = await isNetworkOnline();
+        const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+        const optimisticMessage: Message = {
+          id: messageId,
+          chatId,
+          senderId,
+          text: '',
+          timestamp: Date.now(),
+          status: 'sending',
+          type: 'poll',
+          imageUrl: null,
+          thumbnailUrl: null,
+          caption: null,
+          poll,
+          reactions: {},
+          deletedFor: [],
+          deletedForEveryone: false,
+          deletedAt: null,
+          syncStatus: 'pending',
+        };
+
+        set({ messages: [...get().messages, optimisticMessage] });
+
+        // Save to SQLite with pending status (MessageQueue sends it when back online)
+        const messageRow: any = {
+          id: optimisticMessage.id,
+          chatId,
+          senderId,
+          text: '',
+          timestamp: optimisticMessage.timestamp,
+          status: optimisticMessage.status,
+          type: optimisticMessage.type,
+          imageUrl: null,
+          thumbnailUrl: null,
+          caption: null,
+          reactions: JSON.stringify({}),
+          deletedForMe: 0,
+          deletedForEveryone: 0,
+          syncStatus: 'pending',
+          poll: JSON.stringify(poll),
+        };
+        await SQLiteService.saveMessage(messageRow);
+
+        if (!isOnline) {
+          console.log('📱 Offline: Poll queued locally, will sync when online');
+          return;
+        }
+
+        try {
+          await MessageService.sendMessage(chatId, senderId, '', messageId, { type: 'poll', poll });
+
+          const otherParticipants: string[] = (currentChat?.participants || []).filter((id: string) => id !== senderId);
+          for (const participantId of otherParticipants) {
+            try {
+              await ChatService.incrementUnreadCount(chatId, participantId);
+            } catch (error) {
+              console.error('❌ Error incrementing unread count:', error);
+            }
+          }
+
+          await ChatService.updateChatLastMessage(chatId, getPollPreviewText(poll), senderId, 'sent', optimisticMessage.timestamp);
+          await SQLiteService.updateMessageStatus(messageId, 'sent', 'synced');
+
+          set((state: any) => ({
+            messages: state.messages.map((msg: Message) =>
+              msg.id === messageId ? { ...msg, status: 'sent', syncStatus: 'synced' } : msg
+            ),
+          }));
+        } catch (uploadError) {
+          set((state: any) => ({
+            messages: state.messages.map((msg: Message) =>
+              msg.id === messageId ? { ...msg, syncStatus: 'failed' } : msg
+            ),
+          }));
+          SQLiteService.saveMessage({ ...messageRow, syncStatus: 'failed' }).catch(() => {});
+          throw uploadError;
+        }
+      } catch (error) {
+        console.error('Error sending poll:', error);
+        set({ error: (error as Error).message });
+        throw error;
+      }
+    },
+
+    // Find out how the current user voted (SQLite, then the poll's voters, then Firestore)
+    loadPollVote: async (chatId: string, messageId: string, userId: string) => {
+      if (get().pollVotes[messageId]) {
+        return;
+      }
+
+      try {
+        const voteRow = await SQLiteService.getPollVote(messageId, userId);
+        if (voteRow) {
+          setPollVote(messageId, JSON.parse(voteRow.optionIds));
+          return;
+        }
+
+        const poll: MessagePoll | null | undefined = get().messages.find((m: Message) => m.id === messageId)?.poll;
+        if (!poll) {
+          return;
+        }
+
+        let optionIds: string[];
+        if (poll.voters) {
+          optionIds = Object.entries(poll.voters)
+            .filter(([, voterIds]) => voterIds.includes(userId))
+            .map(([optionId]) => optionId);
+        } else if (poll.voterCount > 0 && await isNetworkOnline()) {
+          // Anonymous polls: only the vote document says how this user voted
+          optionIds = await PollService.getMyVote(chatId, messageId, userId) || [];
+        } else {
+          optionIds = [];
+        }
+
+        setPollVote(messageId, optionIds);
+        if (optionIds.length > 0) {
+          SQLiteService.savePollVote({
+            messageId,
+            chatId,
+            userId,
+            optionIds: JSON.stringify(optionIds),
+            votedAt: Date.now(),
+            syncStatus: 'synced',
+          }).catch(() => {});
+        }
+      } catch (error) {
+        console.error('Error loading poll vote:', error);
+      }
+    },
+
+    // Vote on a poll (an empty list retracts the vote)
+    // Results update right away; offline votes are sent by MessageQueue
+    votePoll: async (chatId: string, messageId: string, userId: string, optionIds: string[]) => {
+      const message: Message | undefined = get().messages.find((m: Message) => m.id === messageId);
+      if (!message?.poll) {
+        throw new Error('Poll not found');
+      }
+      if (isPollClosed(message.poll)) {
+        throw new Error('This poll is closed');
+      }
+
+      const previousPoll = message.poll;
+      const previousOptionIds: string[] = get().pollVotes[messageId] || [];
+
+      setMessagePoll(messageId, applyPollVote(previousPoll, userId, previousOptionIds, optionIds));
+      setPollVote(messageId, optionIds);
+
+      const voteRow = {
+        messageId,
+        chatId,
+        userId,
+        optionIds: JSON.stringify(optionIds),
+        votedAt: Date.now(),
+        syncStatus: 'pending',
+      };
+      await SQLiteService.savePollVote(voteRow);
+
+      // Polls that haven't been sent yet get the vote after them
+      if (message.syncStatus === 'pending' || !(await isNetworkOnline())) {
+        console.log('📱 Offline: Vote queued locally, will sync when online');
+        return;
+      }
+
+      try {
+        const poll = await PollService.vote(chatId, messageId, optionIds);
+        setMessagePoll(messageId, poll);
+        await SQLiteService.updatePollVoteSyncStatus(messageId, userId, 'synced');
+      } catch (error) {
+        console.error('Error voting on poll:', error);
+
+        // Revert optimistic update
+        setMessagePoll(messageId, previousPoll);
+        setPollVote(messageId, previousOptionIds);
+        SQLiteService.savePollVote({
+          ...voteRow,
+          optionIds: JSON.stringify(previousOptionIds),
+          syncStatus: 'synced',
+        }).catch(() => {});
+        throw error;
+      }
+    },
+
+    // Close a poll before its closing time (creator only)
+    closePoll: async (chatId: string, messageId: string) => {
+      try {
+        const poll = await PollService.closePoll(chatId, messageId);
+        setMessagePoll(messageId, poll);
+      } catch (error) {
+        console.error('Error closing poll:', error);
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,49 @@
+/**
+ * ChatStore - Chat Preference Actions
+ *
+ * Handles:
+ * - Muting, pinning and archiving chats for the current user
+ * - Turning on end-to-end encryption for a one-on-one chat
+ *
+ * Preferences live on the user's participant document and are mirrored to
+ * SQLite; the chats listener picks them up again on the next snapshot.
+ */
+
+import { SQLiteService } from '@/database/SQLiteService';
+import { ChatService, EncryptionService, MessagingService } from '@/services/firebase';
+import { Chat, ChatPreferences } from '@/shared/types';
+
+export const createChatPreferenceActions = (set: any, get: any) => ({
+  // Update mute / pin / archive state (optimistic, reverted on failure)
+  updateChatPreferences: async (chatId: string, userId: string, preferences: ChatPreferences) => {
+    const previousChats: Chat[] = get().chats;
+    const chats = previousChats.map((chat) =>
+      chat.id === chatId ? { ...chat, ...preferences } : chat
+    );
+
+    set((state: any) => ({ chats, chatsVersion: state.chatsVersion + 1 }));
+    MessagingService.setBadgeCount(chats);
+
+    try {
+      await ChatService.updateChatPreferences(chatId, userId, preferences);
+      SQLiteService.updateChatPreferences(chatId, preferences).catch(() => {});
+    } catch (error) {
+      console.error('Error updating chat preferences:', error);
+      set((state: any) => ({ chats: previousChats, chatsVersion: state.chatsVersion + 1 }));
+      MessagingService.setBadgeCount(previousChats);
+      throw error;
+    }
+  },
+
+  // Turn on end-to-end encryption (shared by both participants, can't be undone)
+  enableEncryption: async (chatId: string, userId: string) => {
+    await EncryptionService.enableEncryption(chatId, userId);
+
+    set((state: any) => ({
+      chats: state.chats.map((chat: Chat) =>
+        chat.id === chatId ? { ...chat, encrypted: true } : chat
+      ),
+      chatsVersion: state.chatsVersion + 1,
+    }));
+  },
+});
@@ -6,6 +6,7 @@
  * - Profile refresh
  * - Cleanup operations
  * - Chat removal
+ * - Hiding a newly blocked user's messages
  */
 
 import { SQLiteService } from '@/database/SQLiteService';
@@ -145,14 +146,17 @@ export const createProfileActions = (set: any, get: any) => ({
 
   // Unsubscribe from all listeners
   unsubscribeAll: () => {
-    const { chatsUnsubscribe, messagesUnsubscribe } = get();
+    const { chatsUnsubscribe, messagesUnsubscribe, scheduledMessagesUnsubscribe } = get();
     if (chatsUnsubscribe) {
       chatsUnsubscribe();
     }
     if (messagesUnsubscribe) {
       messagesUnsubscribe();
     }
-    set({ chatsUnsubscribe: null, messagesUnsubscribe: null });
+    if (scheduledMessagesUnsubscribe) {
+      scheduledMessagesUnsubscribe();
+    }
+    set({ chatsUnsubscribe: null, messagesUnsubscribe: null, scheduledMessagesUnsubscribe: null, scheduledMessages: [], readStates: [] });
   },
 
   // Clear error
@@ -181,5 +185,11 @@ export const createProfileActions = (set: any, get: any) => ({
       console.error(`❌ Failed to remove chat ${chatId} locally:`, error);
     }
   },
-});
 
+  // Drop a newly blocked user's messages from the open chat (SQLite keeps them for unblocking)
+  hideMessagesFromUser: (userId: string) => {
+    set((state: any) => ({
+      messages: state.messages.filter((message: any) => message.senderId !== userId),
+    }));
+  },
+});
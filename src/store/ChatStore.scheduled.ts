@@ -0,0 +1,185 @@
+/**
+ * ChatStore - Scheduled Message Actions
+ *
+ * Handles:
+ * - Loading scheduled messages (SQLite first, then Firestore listener)
+ * - Scheduling, editing and cancelling send-later messages
+ *
+ * Delivery is done by the deliverScheduledMessages Cloud Function; the
+ * delivered message then arrives through the regular messages listener.
+ */
+
+import { SQLiteService } from '@/database/SQLiteService';
+import { ScheduledMessageService } from '@/services/firebase';
+import {
+    MessageReplyOptions,
+    ScheduledMessage,
+    ScheduledMessageRow,
+    ScheduledMessageStatus,
+    UpdateScheduledMessageData
+} from '@/shared/types';
+
+// Convert a SQLite ScheduledMessageRow to a ScheduledMessage (parse JSON fields)
+const scheduledRowToScheduledMessage = (row: ScheduledMessageRow): ScheduledMessage => ({
+  id: row.id,
+  chatId: row.chatId,
+  senderId: row.senderId,
+  text: row.text,
+  scheduledFor: row.scheduledFor,
+  status: row.status as ScheduledMessageStatus,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  replyToId: row.replyToId || null,
+  replyPreview: row.replyPreview ? JSON.parse(row.replyPreview) : null,
+  error: row.error || null,
+});
+
+// Convert a ScheduledMessage to a SQLite ScheduledMessageRow
+const scheduledMessageToScheduledRow = (message: ScheduledMessage): ScheduledMessageRow => ({
+  id: message.id,
+  chatId: message.chatId,
+  senderId: message.senderId,
+  text: message.text,
+  scheduledFor: message.scheduledFor,
+  status: message.status,
+  createdAt: message.createdAt,
+  updatedAt: message.updatedAt,
+  replyToId: message.replyToId || null,
+  replyPreview: message.replyPreview ? JSON.stringify(message.replyPreview) : null,
+  error: message.error || null,
+});
+
+export const createScheduledMessageActions = (set: any, get: any) => ({
+  // Load scheduled messages from SQLite (instant, offline support)
+  loadScheduledMessages: async (chatId: string, senderId: string) => {
+    try {
+      const rows = await SQLiteService.getScheduledMessages(chatId, senderId);
+      set({ scheduledMessages: rows.map(scheduledRowToScheduledMessage) });
+    } catch (error) {
+      console.error('Error loading scheduled messages:', error);
+    }
+  },
+
+  // Subscribe to the user's scheduled messages in a chat and mirror them to SQLite
+  subscribeToScheduledMessages: (chatId: string, senderId: string) => {
+    const { scheduledMessagesUnsubscribe } = get();
+    if (scheduledMessagesUnsubscribe) {
+      scheduledMessagesUnsubscribe();
+    }
+
+    const unsubscribe = ScheduledMessageService.subscribeToScheduledMessages(
+      chatId,
+      senderId,
+      async (scheduledMessages) => {
+        // Drop local copies that were delivered or cancelled elsewhere
+        const previous: ScheduledMessage[] = get().scheduledMessages;
+        const currentIds = new Set(scheduledMessages.map((message) => message.id));
+
+        set({ scheduledMessages });
+
+        try {
+          for (const message of previous) {
+            if (message.chatId === chatId && !currentIds.has(message.id)) {
+              await SQLiteService.deleteScheduledMessage(message.id);
+            }
+          }
+          for (const message of scheduledMessages) {
+            await SQLiteService.saveScheduledMessage(scheduledMessageToScheduledRow(message));
+          }
+        } catch (error) {
+          console.error('Error syncing scheduled messages to SQLite:', error);
+        }
+      },
+      (error) => {
+        console.error('Scheduled messages subscription error:', error);
+      }
+    );
+
+    set({ scheduledMessagesUnsubscribe: unsubscribe });
+  },
+
+  // Schedule a text message for later delivery
+  scheduleMessage: async (
+    chatId: string,
+    senderId: string,
+    text: string,
+    scheduledFor: number,
+    replyOptions?: MessageReplyOptions
+  ) => {
+    try {
+      const scheduledMessage = await ScheduledMessageService.scheduleMessage(
+        chatId,
+        senderId,
+        text,
+        scheduledFor,
+        replyOptions
+      );
+
+      // Add immediately - the listener confirms it shortly after
+      set((state: any) => ({
+        scheduledMessages: [
+          ...state.scheduledMessages.filter((message: ScheduledMessage) => message.id !== scheduledMessage.id),
+          scheduledMessage,
+        ].sort((a: ScheduledMessage, b: ScheduledMessage) => a.scheduledFor - b.scheduledFor),
+      }));
+
+      await SQLiteService.saveScheduledMessage(scheduledMessageToScheduledRow(scheduledMessage));
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Edit the text or time of a pending scheduled message
+  updateScheduledMessage: async (
+    chatId: string,
+    scheduledMessageId: string,
+    updates: UpdateScheduledMessageData
+  ) => {
+    try {
+      await ScheduledMessageService.updateScheduledMessage(chatId, scheduledMessageId, updates);
+
+      const updated = get().scheduledMessages
+        .map((message: ScheduledMessage) => message.id === scheduledMessageId
+          ? {
+              ...message,
+              ...(updates.text !== undefined && { text: updates.text.trim() }),
+              ...(updates.scheduledFor !== undefined && { scheduledFor: updates.scheduledFor }),
+              updatedAt: Date.now(),
+            }
+          : message
+        )
+        .sort((a: ScheduledMessage, b: ScheduledMessage) => a.scheduledFor - b.scheduledFor);
+      set({ scheduledMessages: updated });
+
+      const updatedMessage = updated.find((message: ScheduledMessage) => message.id === scheduledMessageId);
+      if (updatedMessage) {
+        await SQLiteService.saveScheduledMessage(scheduledMessageToScheduledRow(updatedMessage));
+      }
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Cancel a scheduled message before it is delivered
+  cancelScheduledMessage: async (chatId: string, scheduledMessageId: string) => {
+    try {
+      await ScheduledMessageService.cancelScheduledMessage(chatId, scheduledMessageId);
+
+      set((state: any) => ({
+        scheduledMessages: state.scheduledMessages.filter(
+          (message: ScheduledMessage) => message.id !== scheduledMessageId
+        ),
+      }));
+
+      await SQLiteService.deleteScheduledMessage(scheduledMessageId);
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+});
@@ -6,17 +6,28 @@
  * - Current chat selection
  * - Messages for current chat
  * - Real-time listeners
+ * - Scheduled (send-later) messages for the current chat
+ * - Polls and the current user's votes
+ * - Per-user mute / pin / archive preferences
+ * - Hiding messages from blocked users
  * - Optimistic updates
  * - Sync with SQLite
  */
 
+import { DeltaSync, HISTORY_PAGE_SIZE } from '@/database/DeltaSync';
+import { MessageQueue } from '@/database/MessageQueue';
 import { SQLiteService } from '@/database/SQLiteService';
-import { ChatService, MessageService } from '@/services/firebase';
-import { Chat, Message, MessageStatus, MessageSyncStatus, MessageType, User } from '@/shared/types';
+import { ChatService, EncryptionService, MessageService, MessagingService } from '@/services/firebase';
+import { Chat, ChatPreferences, CreatePollData, Message, MessageReplyOptions, MessageStatus, ParticipantReadState, ScheduledMessage, UpdateScheduledMessageData, User } from '@/shared/types';
+import { getPollPreviewText, messageRowToMessage, messageToMessageRow } from '@/shared/utils';
 import type { Unsubscribe } from 'firebase/firestore';
 import { create } from 'zustand';
 import { createMessageActions } from './ChatStore.messages';
+import { createPollActions } from './ChatStore.polls';
+import { createChatPreferenceActions } from './ChatStore.preferences';
 import { createProfileActions } from './ChatStore.profiles';
+import { createScheduledMessageActions } from './ChatStore.scheduled';
+import { useContactStore } from './ContactStore';
 
 interface ChatState {
   // State
@@ -32,9 +43,19 @@ interface ChatState {
   // User profiles cache (for displaying names/avatars in chat list)
   userProfiles: Map<string, User>;
   
+  // Current user's scheduled messages for the subscribed chat (soonest first)
+  scheduledMessages: ScheduledMessage[];
+  
+  // Current user's poll votes: message ID → option IDs ([] = hasn't voted)
+  pollVotes: Record<string, string[]>;
+  
+  // Read / delivered watermarks of the subscribed group's members
+  readStates: ParticipantReadState[];
+  
   // Unsubscribe functions for cleanup
   chatsUnsubscribe: Unsubscribe | null;
   messagesUnsubscribe: Unsubscribe | null;
+  scheduledMessagesUnsubscribe: Unsubscribe | null;
 
   // Actions - Chats
   loadChatsFromSQLite: (userId: string) => Promise<void>;
@@ -42,6 +63,8 @@ interface ChatState {
   selectChat: (chatId: string) => void;
   setActiveChatId: (chatId: string | null) => void;
   createChat: (userId1: string, userId2: string) => Promise<string>;
+  updateChatPreferences: (chatId: string, userId: string, preferences: ChatPreferences) => Promise<void>;
+  enableEncryption: (chatId: string, userId: string) => Promise<void>;
   
   // Actions - User Profiles
   loadUserProfile: (userId: string) => Promise<User | null>;
@@ -50,26 +73,83 @@ interface ChatState {
   
   // Actions - Messages
   loadMessagesFromSQLite: (chatId: string) => Promise<void>;
+  loadMessagesAround: (chatId: string, messageId: string) => Promise<boolean>;
+  loadThreadMessages: (chatId: string, threadId: string) => Promise<void>;
+  subscribeToThread: (chatId: string, threadId: string) => Unsubscribe;
   subscribeToMessages: (chatId: string, currentUserId?: string) => void;
   sendMessage: (chatId: string, senderId: string, text: string, translationMetadata?: {
     originalText?: string;
     originalLanguage?: string;
     translatedTo?: string;
     sentAsTranslation?: boolean;
-  }) => Promise<void>;
+  }, replyOptions?: MessageReplyOptions) => Promise<void>;
   sendImageMessage: (chatId: string, senderId: string, imageUri: string, caption?: string) => Promise<void>;
+  sendVoiceMessage: (chatId: string, senderId: string, audioUri: string, audioDuration: number, waveform: number[], replyOptions?: MessageReplyOptions) => Promise<void>;
+  sendFileMessage: (chatId: string, senderId: string, fileUri: string, fileName: string, mimeType: string, fileSize: number, replyOptions?: MessageReplyOptions) => Promise<void>;
   updateMessageStatus: (chatId: string, messageId: string, status: MessageStatus) => Promise<void>;
   retryFailedMessage: (chatId: string, messageId: string) => Promise<void>;
+  editMessage: (chatId: string, messageId: string, userId: string, newText: string) => Promise<void>;
   addReaction: (chatId: string, messageId: string, emoji: string, userId: string) => Promise<void>;
   removeReaction: (chatId: string, messageId: string, emoji: string, userId: string) => Promise<void>;
+  deleteMessageForEveryone: (chatId: string, messageId: string, userId: string) => Promise<void>;
   markChatAsRead: (chatId: string, userId: string) => Promise<void>;
 
+  // Actions - Polls
+  sendPollMessage: (chatId: string, senderId: string, draft: CreatePollData) => Promise<void>;
+  loadPollVote: (chatId: string, messageId: string, userId: string) => Promise<void>;
+  votePoll: (chatId: string, messageId: string, userId: string, optionIds: string[]) => Promise<void>;
+  closePoll: (chatId: string, messageId: string) => Promise<void>;
+
+  // Actions - Scheduled Messages
+  loadScheduledMessages: (chatId: string, senderId: string) => Promise<void>;
+  subscribeToScheduledMessages: (chatId: string, senderId: string) => void;
+  scheduleMessage: (chatId: string, senderId: string, text: string, scheduledFor: number, replyOptions?: MessageReplyOptions) => Promise<void>;
+  updateScheduledMessage: (chatId: string, scheduledMessageId: string, updates: UpdateScheduledMessageData) => Promise<void>;
+  cancelScheduledMessage: (chatId: string, scheduledMessageId: string) => Promise<void>;
+
   // Cleanup
   unsubscribeAll: () => void;
   clearError: () => void;
   removeChatLocally: (chatId: string, userId: string) => Promise<void>;
+  hideMessagesFromUser: (userId: string) => void;
 }
 
+// Sort messages oldest first
+// Messages from users the current user blocked are never shown
+const isFromBlockedUser = (message: { senderId: string }): boolean =>
+  useContactStore.getState().isBlocked(message.senderId);
+
+const sortByTimestamp = (messages: Message[]): Message[] => messages.sort((a, b) => {
+  const aTime = typeof a.timestamp === 'number' ? a.timestamp : new Date(a.timestamp).getTime();
+  const bTime = typeof b.timestamp === 'number' ? b.timestamp : new Date(b.timestamp).getTime();
+  return aTime - bTime;
+});
+
+// Merge messages pulled by DeltaSync into the open chat's messages
+// Updates keep local translations (unless the text was edited); new messages are added if accepted
+const mergeSyncedMessages = (
+  currentMessages: Message[],
+  synced: Message[],
+  accept: (message: Message) => boolean
+): Message[] => {
+  const syncedById = new Map(
+    synced.filter(message => !isFromBlockedUser(message)).map(message => [message.id, message])
+  );
+
+  const merged = currentMessages.map(existing => {
+    const update = syncedById.get(existing.id);
+    if (!update) return existing;
+    syncedById.delete(existing.id);
+    if (update.text !== existing.text && update.editedAt) {
+      return update;
+    }
+    return { ...update, translations: { ...(existing.translations || {}), ...(update.translations || {}) } };
+  });
+  const added = [...syncedById.values()].filter(message => !message.deletedForEveryone && accept(message));
+
+  return sortByTimestamp([...merged, ...added]);
+};
+
 export const useChatStore = create<ChatState>((set, get) => ({
   // Initial State
   chats: [],
@@ -81,8 +161,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
   error: null,
   chatsVersion: 0,
   userProfiles: new Map(),
+  scheduledMessages: [],
+  pollVotes: {},
+  readStates: [],
   chatsUnsubscribe: null,
   messagesUnsubscribe: null,
+  scheduledMessagesUnsubscribe: null,
 
   // Load chats from SQLite (instant, for initial display)
   loadChatsFromSQLite: async (userId: string) => {
@@ -165,7 +249,15 @@ export const useChatStore = create<ChatState>((set, get) => ({
             groupIcon: row.groupIcon || undefined,
             groupDescription: row.groupDescription || undefined,
             groupAdminId: row.groupAdminId || undefined,
+            groupAdminIds: row.groupAdminIds ? JSON.parse(row.groupAdminIds) : undefined,
+            groupModeratorIds: row.groupModeratorIds ? JSON.parse(row.groupModeratorIds) : undefined,
+            mutedMemberIds: row.mutedMemberIds ? JSON.parse(row.mutedMemberIds) : undefined,
+            groupSettings: row.groupSettings ? JSON.parse(row.groupSettings) : undefined,
             inviteCode: row.inviteCode || undefined,
+            mutedUntil: row.mutedUntil ?? null,
+            pinned: row.pinned === 1,
+            archived: row.archived === 1,
+            encrypted: row.encrypted === 1,
           };
         } catch (parseError) {
           console.error('Error parsing chat row:', row.id, parseError);
@@ -173,6 +265,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
         }
       }).filter((chat) => chat !== null) as Chat[]; // Filter out invalid chats
       
+      // Know which chats are encrypted before the Firestore listener catches up (offline sends)
+      for (const chat of chats) {
+        if (chat.encrypted) {
+          EncryptionService.setChatEncryption(chat.id, true);
+        }
+      }
+      
       set({ chats, isLoadingChats: false });
       
       // Load user profiles for all chat participants
@@ -261,6 +360,11 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 unreadCount = 0;
               }
               
+              // The chat's messages up to the last one reached this device (non-blocking)
+              if (!lastMessageIsFromUser && chat.lastMessageTime > (participantData?.deliveredWatermark ?? 0)) {
+                ChatService.markChatAsDelivered(chat.id, userId, chat.lastMessageTime);
+              }
+              
               // Fetch the REAL status from the actual last message document
               // This is more accurate than chat.lastMessageStatus which can be stale
               let realStatus = chat.lastMessageStatus; // Fallback to chat status
@@ -343,10 +447,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 });
               }
               
-              // Return new chat object with unread count and REAL message status
+              // Return new chat object with unread count, preferences and REAL message status
               return {
                 ...chat,
                 unreadCount,
+                mutedUntil: participantData?.mutedUntil ?? null,
+                pinned: participantData?.pinned || false,
+                archived: participantData?.archived || false,
                 lastMessageStatus: realStatus, // Use real status from actual message document
                 lastMessageSenderId: chat.lastMessageSenderId || '', // Ensure string not null
               };
@@ -361,6 +468,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
             chats: chatsWithUnreadCounts,
             chatsVersion: state.chatsVersion + 1
           }));
+          MessagingService.setBadgeCount(chatsWithUnreadCounts);
           
           // Load user profiles for all chat participants (wait for them to load)
           const loadUserProfile = get().loadUserProfile;
@@ -392,7 +500,15 @@ export const useChatStore = create<ChatState>((set, get) => ({
               groupIcon: chat.groupIcon || null,
               groupDescription: chat.groupDescription || null,
               groupAdminId: chat.groupAdminId || null,
+              groupAdminIds: chat.groupAdminIds ? JSON.stringify(chat.groupAdminIds) : null,
+              groupModeratorIds: chat.groupModeratorIds ? JSON.stringify(chat.groupModeratorIds) : null,
+              mutedMemberIds: chat.mutedMemberIds ? JSON.stringify(chat.mutedMemberIds) : null,
+              groupSettings: chat.groupSettings ? JSON.stringify(chat.groupSettings) : null,
               inviteCode: chat.inviteCode || null,
+              mutedUntil: chat.mutedUntil ?? null,
+              pinned: chat.pinned ? 1 : 0,
+              archived: chat.archived ? 1 : 0,
+              encrypted: chat.encrypted ? 1 : 0,
               createdAt: typeof chat.createdAt === 'number' 
                 ? chat.createdAt 
                 : 0,
@@ -401,6 +517,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
             // Non-blocking save, ignore errors
             SQLiteService.saveChat(chatRow).catch(() => {});
           }
+
+          // Pull the new messages of chats that changed since they were last synced (non-blocking)
+          DeltaSync.syncStaleChats(chatsWithUnreadCounts.map(chat => ({
+            id: chat.id,
+            lastMessageTime: typeof chat.lastMessageTime === 'number' ? chat.lastMessageTime : 0,
+          }))).catch((error) => console.error('Error syncing chats:', error));
         } catch (error) {
           console.error('Error loading unread counts or syncing to SQLite:', error);
           // Still update state even if some operations fail (without unread counts)
@@ -425,7 +547,38 @@ export const useChatStore = create<ChatState>((set, get) => ({
       }
     );
 
-    set({ chatsUnsubscribe: unsubscribe });
+    // Reading a chat on another device clears its unread count and badge here too
+    const unreadCountsUnsubscribe = ChatService.subscribeToUnreadCounts(
+      userId,
+      (unreadCounts) => {
+        let changed = false;
+        const chats = get().chats.map(chat => {
+          const unreadCount = unreadCounts.get(chat.id);
+          // New messages raise the count through the chat listener (with notifications)
+          if (unreadCount === undefined || unreadCount >= (chat.unreadCount || 0)) {
+            return chat;
+          }
+          changed = true;
+          SQLiteService.updateChatUnreadCount(chat.id, unreadCount).catch(() => {});
+          return { ...chat, unreadCount };
+        });
+
+        if (changed) {
+          set(state => ({ chats, chatsVersion: state.chatsVersion + 1 }));
+          MessagingService.setBadgeCount(chats);
+        }
+      },
+      (error) => {
+        console.error('Error in unread count subscription:', error);
+      }
+    );
+
+    set({
+      chatsUnsubscribe: () => {
+        unsubscribe();
+        unreadCountsUnsubscribe();
+      },
+    });
   },
 
   // Select a chat to view
@@ -459,25 +612,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
       // Convert MessageRow[] to Message[] and filter out deleted messages
       const messages: Message[] = messageRows
         .filter(row => row.deletedForEveryone !== 1) // Filter out deleted messages
-        .map(row => ({
-          id: row.id,
-          chatId: row.chatId,
-          senderId: row.senderId,
-          text: row.text,
-          timestamp: row.timestamp, // Already a number
-          status: row.status as MessageStatus,
-          type: row.type as MessageType,
-          imageUrl: row.imageUrl,
-          thumbnailUrl: row.thumbnailUrl,
-          caption: row.caption,
-          reactions: row.reactions ? JSON.parse(row.reactions) : {},
-          deletedFor: [], // Not stored separately in SQLite
-          deletedForEveryone: false, // We filtered these out, so they're all false
-          deletedAt: null, // Not stored in SQLite
-          translations: row.translations ? JSON.parse(row.translations) : {},
-          detectedLanguage: row.detectedLanguage || undefined,
-          syncStatus: row.syncStatus as MessageSyncStatus,
-        }));
+        .filter(row => !isFromBlockedUser(row))
+        .map(messageRowToMessage);
       
       set({ messages, isLoadingMessages: false });
     } catch (error) {
@@ -485,10 +621,88 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  // Load messages around a specific message into state (for jumping to a quoted message)
+  // Returns true if the target message is now loaded
+  loadMessagesAround: async (chatId: string, messageId: string) => {
+    try {
+      if (get().messages.some(m => m.id === messageId)) {
+        return true;
+      }
+
+      const messageRows = await SQLiteService.getMessagesAround(chatId, messageId, 40);
+      if (!messageRows.some(row => row.id === messageId)) {
+        return false;
+      }
+
+      // Merge with current messages (keep in-memory versions) and keep oldest first
+      const currentMessages = get().messages;
+      const currentIds = new Set(currentMessages.map(m => m.id));
+      const olderMessages = messageRows
+        .filter(row => !currentIds.has(row.id) && !isFromBlockedUser(row))
+        .map(messageRowToMessage);
+
+      set({ messages: sortByTimestamp([...olderMessages, ...currentMessages]) });
+      return true;
+    } catch (error) {
+      console.error('Error loading messages around:', error);
+      return false;
+    }
+  },
+
+  // Load cached sub-thread replies from SQLite into state (hidden from the main timeline)
+  loadThreadMessages: async (chatId: string, threadId: string) => {
+    try {
+      const rows = await SQLiteService.getThreadMessages(chatId, threadId);
+      const currentMessages = get().messages;
+      const currentIds = new Set(currentMessages.map(m => m.id));
+      const cachedReplies = rows
+        .filter(row => !currentIds.has(row.id) && !isFromBlockedUser(row))
+        .map(messageRowToMessage);
+
+      if (cachedReplies.length > 0) {
+        set({ messages: sortByTimestamp([...currentMessages, ...cachedReplies]) });
+      }
+    } catch (error) {
+      console.error('Error loading thread messages:', error);
+    }
+  },
+
+  // Subscribe to real-time sub-thread replies, merged into state and synced to SQLite
+  subscribeToThread: (chatId: string, threadId: string) => {
+    return MessageService.subscribeToThread(
+      chatId,
+      threadId,
+      (replies) => {
+        const currentMessages = get().messages;
+        const repliesById = new Map(
+          replies.filter(reply => !isFromBlockedUser(reply)).map(reply => [reply.id, reply])
+        );
+
+        // Update existing replies (keep local translations), then add new ones
+        const merged = currentMessages.map(existing => {
+          const update = repliesById.get(existing.id);
+          if (!update) return existing;
+          repliesById.delete(existing.id);
+          return { ...update, translations: { ...(existing.translations || {}), ...(update.translations || {}) } };
+        });
+
+        set({ messages: sortByTimestamp([...merged, ...repliesById.values()]) });
+
+        // Non-blocking save, ignore errors
+        for (const reply of replies) {
+          SQLiteService.saveMessage(messageToMessageRow(reply)).catch(() => {});
+        }
+      },
+      (error) => {
+        console.error('Error in thread subscription:', error);
+      }
+    );
+  },
+
   // Subscribe to real-time message updates  
   // PRD: Adaptive loading based on unread count:
   // ≤50 unread: Load all at once
-  // 51-500 unread: Batch loading (100, 200, rest)
+  // 51-500 unread: Batch loading (100, then the rest in pages)
   // 500+ unread: Load 50 at a time on scroll
   subscribeToMessages: (chatId: string, currentUserId?: string) => {
     // Unsubscribe from previous listener if exists
@@ -505,104 +719,21 @@ export const useChatStore = create<ChatState>((set, get) => ({
     const currentChat = get().chats.find(c => c.id === chatId);
     const unreadCount = currentChat?.unreadCount || 0;
     
+    // Hand the chat key to any new devices of the participants (non-blocking)
+    if (currentChat?.encrypted) {
+      EncryptionService.shareKeyWithNewDevices(chatId, currentChat.participants);
+    }
+    
     // Adaptive loading based on PRD
     let initialLoadLimit = 50; // Default
+    let backfillPages = 0;
     if (unreadCount <= 50) {
       // Load all at once (or 50 whichever is larger for context)
       initialLoadLimit = Math.max(50, unreadCount + 10);
     } else if (unreadCount <= 500) {
-      // First batch: 100 messages
+      // First batch: 100 messages, the rest is backfilled in pages
       initialLoadLimit = 100;
-      
-      // Schedule second batch (200 more) after 2 seconds
-      setTimeout(async () => {
-        const result = await MessageService.getMessages(chatId, 200);
-        const moreMessages = result.messages; // Extract messages array from result
-        const currentMsgs = get().messages;
-        const currentIds = new Set(currentMsgs.map(m => m.id));
-        const newMsgs = moreMessages.filter((m: Message) => !currentIds.has(m.id));
-        
-        if (newMsgs.length > 0) {
-          set({ messages: [...currentMsgs, ...newMsgs] });
-          // Save to SQLite (convert Message to MessageRow)
-          for (const msg of newMsgs) {
-            const msgTimestamp: number = typeof msg.timestamp === 'number' 
-              ? msg.timestamp 
-              : ((msg.timestamp as any).getTime?.() || Date.now());
-            const messageRow = {
-              id: msg.id,
-              chatId: msg.chatId,
-              senderId: msg.senderId,
-              text: msg.text,
-              timestamp: msgTimestamp,
-              status: msg.status,
-              type: msg.type,
-              imageUrl: msg.imageUrl || null,
-              thumbnailUrl: msg.thumbnailUrl || null,
-              caption: msg.caption || null,
-              reactions: JSON.stringify(msg.reactions || {}),
-              deletedForMe: 0,
-              deletedForEveryone: msg.deletedForEveryone ? 1 : 0,
-              syncStatus: 'synced' as MessageSyncStatus,
-              // Translation metadata
-              originalText: msg.originalText || null,
-              originalLanguage: msg.originalLanguage || null,
-              translatedTo: msg.translatedTo || null,
-              sentAsTranslation: msg.sentAsTranslation ? 1 : 0,
-              // Required fields
-              translations: msg.translations ? JSON.stringify(msg.translations) : null,
-              detectedLanguage: msg.detectedLanguage || null,
-            };
-            await SQLiteService.saveMessage(messageRow).catch(console.error);
-          }
-        }
-      }, 2000);
-      
-      // Schedule third batch (rest) after 5 seconds if needed
-      if (unreadCount > 300) {
-        setTimeout(async () => {
-          const result = await MessageService.getMessages(chatId, 300);
-          const moreMessages = result.messages; // Extract messages array from result
-          const currentMsgs = get().messages;
-          const currentIds = new Set(currentMsgs.map(m => m.id));
-          const newMsgs = moreMessages.filter((m: Message) => !currentIds.has(m.id));
-          
-          if (newMsgs.length > 0) {
-            set({ messages: [...currentMsgs, ...newMsgs] });
-            // Save to SQLite (convert Message to MessageRow)
-            for (const msg of newMsgs) {
-              const msgTimestamp: number = typeof msg.timestamp === 'number' 
-                ? msg.timestamp 
-                : ((msg.timestamp as any).getTime?.() || Date.now());
-              const messageRow = {
-                id: msg.id,
-                chatId: msg.chatId,
-                senderId: msg.senderId,
-                text: msg.text,
-                timestamp: msgTimestamp,
-                status: msg.status,
-                type: msg.type,
-                imageUrl: msg.imageUrl || null,
-                thumbnailUrl: msg.thumbnailUrl || null,
-                caption: msg.caption || null,
-                reactions: JSON.stringify(msg.reactions || {}),
-                deletedForMe: 0,
-                deletedForEveryone: msg.deletedForEveryone ? 1 : 0,
-                syncStatus: 'synced' as MessageSyncStatus,
-                // Translation metadata
-                originalText: msg.originalText || null,
-                originalLanguage: msg.originalLanguage || null,
-                translatedTo: msg.translatedTo || null,
-                sentAsTranslation: msg.sentAsTranslation ? 1 : 0,
-                // Required fields
-                translations: msg.translations ? JSON.stringify(msg.translations) : null,
-                detectedLanguage: msg.detectedLanguage || null,
-              };
-              await SQLiteService.saveMessage(messageRow).catch(console.error);
-            }
-          }
-        }, 5000);
-      }
+      backfillPages = Math.ceil((unreadCount - initialLoadLimit) / HISTORY_PAGE_SIZE);
     } else {
       // 500+ unread: Load 50 at a time (user will scroll to load more)
       initialLoadLimit = 50;
@@ -624,6 +755,10 @@ export const useChatStore = create<ChatState>((set, get) => ({
         const messagesToUpdate: Message[] = [];
         
         for (const msg of newMessages) {
+          // Blocked senders: no status updates, translations or notifications either
+          if (isFromBlockedUser(msg)) {
+            continue;
+          }
           
           if (currentMessageIds.has(msg.id)) {
             // Update existing message (status change, etc.)
@@ -642,16 +777,17 @@ export const useChatStore = create<ChatState>((set, get) => ({
                   await MessageService.updateMessageStatus(chatId, msg.id, 'read');
                   msg.status = 'read'; // Update local copy
                   
-                  // Also update chat to reset unread count
-                  await ChatService.markChatAsRead(chatId, currentUserId, msg.id);
-                  
-                  // Update chat document's lastMessageStatus so chat list shows correct read status
                   const messageTimestamp = typeof msg.timestamp === 'number' 
                     ? msg.timestamp 
                     : (msg.timestamp as any)?.getTime?.() || Date.now();
+                  
+                  // Also update chat to reset unread count and move the read watermark
+                  await ChatService.markChatAsRead(chatId, currentUserId, msg.id, messageTimestamp);
+                  
+                  // Update chat document's lastMessageStatus so chat list shows correct read status
                   await ChatService.updateChatLastMessage(
                     chatId,
-                    msg.text || (msg.type === 'image' ? '📷 Photo' : ''),
+                    msg.type === 'voice' ? '🎤 Voice message' : msg.type === 'file' ? `📎 ${msg.fileName}` : msg.type === 'poll' ? getPollPreviewText(msg.poll) : msg.text || (msg.type === 'image' ? '📷 Photo' : ''),
                     msg.senderId,
                     'read',
                     messageTimestamp
@@ -693,8 +829,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
             } else {
             }
             
-            // 🌐 Auto-translate incoming messages if enabled
-            if (currentUserId && msg.senderId !== currentUserId && !isInitialLoad) {
+            // 🌐 Auto-translate incoming messages if enabled (never for encrypted chats)
+            if (currentUserId && msg.senderId !== currentUserId && !isInitialLoad && !msg.encrypted) {
               try {
                 // Check if auto-translate is enabled for this chat
                 const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
@@ -785,7 +921,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
             // AND message is NOT deleted for everyone (to avoid notifications for deletions)
             // AND message is actually NEW (not an update to existing message)
             // AND message is not from current user (to avoid notifications for own actions)
-            if (currentUserId && msg.senderId !== currentUserId && activeChatId !== chatId && !isInitialLoad && !currentMessageIds.has(msg.id)) {
+            // AND message is not a system message (group membership changes)
+            if (currentUserId && msg.senderId !== currentUserId && activeChatId !== chatId && !isInitialLoad && !currentMessageIds.has(msg.id) && msg.type !== 'system') {
               try {
                 // Fetch user's CURRENT joinedAt for THIS chat to check if message is new
                 const participantData = await ChatService.getParticipant(chatId, currentUserId);
@@ -824,19 +961,30 @@ export const useChatStore = create<ChatState>((set, get) => ({
         let updatedMessages = currentMessages.map(existing => {
           const update = messagesToUpdate.find(m => m.id === existing.id);
           if (update) {
+            // Text was edited: local translations and cultural analysis are stale.
+            // Use whatever the edit trigger has regenerated so far instead.
+            if (update.text !== existing.text && update.editedAt) {
+              SQLiteService.deleteCulturalAnalysis(update.id, chatId).catch(() => {});
+              return {
+                ...update,
+                translations: update.translations || {},
+                detectedLanguage: update.detectedLanguage,
+              };
+            }
+
             // Preserve local-only fields (translations) when merging Firestore updates
             // Firestore doesn't store translations, so we keep them from existing state
             return {
               ...update,
-              translations: existing.translations || {}, // Keep local translations
+              translations: { ...(existing.translations || {}), ...(update.translations || {}) }, // Keep local translations
               detectedLanguage: existing.detectedLanguage, // Keep detected language
             };
           }
           return existing;
         });
         
-        // Add new messages
-        updatedMessages = [...updatedMessages, ...messagesToAdd];
+        // Add new messages, keeping local changes that are still waiting to be replayed
+        updatedMessages = MessageQueue.applyPendingOperations([...updatedMessages, ...messagesToAdd]);
         
         // Sort by timestamp (oldest first)
         updatedMessages.sort((a, b) => {
@@ -885,6 +1033,22 @@ export const useChatStore = create<ChatState>((set, get) => ({
         translations: message.translations ? JSON.stringify(message.translations) : null,
         detectedLanguage: message.detectedLanguage || null,
         syncStatus: 'synced',
+        editedAt: message.editedAt || null,
+        editHistory: message.editHistory?.length ? JSON.stringify(message.editHistory) : null,
+        replyToId: message.replyToId || null,
+        replyPreview: message.replyPreview ? JSON.stringify(message.replyPreview) : null,
+        threadId: message.threadId || null,
+        threadReplyCount: message.threadReplyCount || 0,
+        threadLastReplyAt: message.threadLastReplyAt || null,
+        audioUrl: message.audioUrl || null,
+        audioDuration: message.audioDuration || null,
+        waveform: message.waveform ? JSON.stringify(message.waveform) : null,
+        transcriptionStatus: message.transcriptionStatus || null,
+        fileUrl: message.fileUrl || null,
+        fileName: message.fileName || null,
+        mimeType: message.mimeType || null,
+        fileSize: message.fileSize || null,
+        poll: message.poll ? JSON.stringify(message.poll) : null,
       };
       // Non-blocking save, ignore errors
       SQLiteService.saveMessage(messageRow).catch(() => {});
@@ -897,7 +1061,43 @@ export const useChatStore = create<ChatState>((set, get) => ({
   initialLoadLimit // Pass adaptive limit based on unread count
   );
 
-  set({ messagesUnsubscribe: unsubscribe });
+  // Changes to messages outside the listener's window (reactions, edits, deletions
+  // made while offline) arrive through delta sync
+  const unsubscribeSync = DeltaSync.onMessagesSynced((syncedChatId, synced) => {
+    if (syncedChatId !== chatId) return;
+    const currentMessages = get().messages;
+    const oldestLoaded = currentMessages.length > 0 ? currentMessages[0].timestamp : 0;
+    set({ messages: mergeSyncedMessages(currentMessages, synced, m => m.timestamp >= oldestLoaded) });
+  });
+
+  // Catch up on changes since the chat was last synced, then backfill the unread
+  // messages the listener doesn't cover
+  DeltaSync.syncChat(chatId)
+    .then(() => (backfillPages > 0 ? DeltaSync.backfillChat(chatId, backfillPages) : []))
+    .then((backfilled) => {
+      if (backfilled.length > 0 && get().activeChatId === chatId) {
+        set({ messages: mergeSyncedMessages(get().messages, backfilled, () => true) });
+      }
+    })
+    .catch((error) => console.error('Error syncing chat:', error));
+
+  // Group receipts: how far every member has read (see ReadReceipts)
+  set({ readStates: [] });
+  const unsubscribeReadStates = currentChat?.type === 'group'
+    ? ChatService.subscribeToReadStates(
+        chatId,
+        (readStates) => set({ readStates }),
+        (error) => console.error('Error in read state subscription:', error)
+      )
+    : null;
+
+  set({
+    messagesUnsubscribe: () => {
+      unsubscribe();
+      unsubscribeSync();
+      unsubscribeReadStates?.();
+    },
+  });
   },
 
   // Import message actions from separate file
@@ -905,4 +1105,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   // Import profile & utility actions from separate file
   ...createProfileActions(set, get),
+
+  // Import scheduled message actions from separate file
+  ...createScheduledMessageActions(set, get),
+
+  // Import chat preference actions from separate file
+  ...createChatPreferenceActions(set, get),
+
+  // Import poll actions from separate file
+  ...createPollActions(set, get),
 }));
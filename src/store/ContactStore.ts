@@ -246,9 +246,7 @@ export const useContactStore = create<ContactStoreState>((set, get) => ({
     try {
       set({ blockedUsersLoading: true });
 
-      // TODO: Implement getBlockedUsers in FriendRequestService
-      // const blocked = await FriendRequestService.getBlockedUsers(userId);
-      const blocked: any[] = [];
+      const blocked = await FriendRequestService.getBlockedUsers(userId);
 
       set({ 
         blockedUsers: blocked, 
@@ -344,11 +342,29 @@ export const useContactStore = create<ContactStoreState>((set, get) => ({
    * Block a user
    */
   blockUser: async (userId: string, blockedUserId: string) => {
-    // TODO: Implement blockUser in FriendRequestService
-    // const result = await FriendRequestService.blockUser(userId, blockedUserId);
-    const result = { success: false, error: 'Block user not implemented' };
+    const result = await FriendRequestService.blockUser(userId, blockedUserId);
     
     if (result.success) {
+      // Optimistically hide the user right away (messages, typing, presence)
+      // The reload below fills in their profile
+      set(state => ({
+        blockedUsers: state.blockedUsers.some(blocked => blocked.userId === blockedUserId)
+          ? state.blockedUsers
+          : [
+              {
+                userId: blockedUserId,
+                username: '',
+                displayName: '',
+                profilePictureUrl: null,
+                blockedAt: Date.now(),
+              },
+              ...state.blockedUsers,
+            ],
+        contacts: state.contacts.filter(contact => contact.userId !== blockedUserId),
+        friendRequests: state.friendRequests.filter(req => req.fromUserId !== blockedUserId),
+        sentRequests: state.sentRequests.filter(req => req.toUserId !== blockedUserId),
+      }));
+
       // Reload contacts and blocked users
       get().loadContacts(userId);
       get().loadBlockedUsers(userId);
@@ -361,13 +377,13 @@ export const useContactStore = create<ContactStoreState>((set, get) => ({
    * Unblock a user
    */
   unblockUser: async (userId: string, blockedUserId: string) => {
-    // TODO: Implement unblockUser in FriendRequestService
-    // const result = await FriendRequestService.unblockUser(userId, blockedUserId);
-    const result = { success: false, error: 'Unblock user not implemented' };
+    const result = await FriendRequestService.unblockUser(userId, blockedUserId);
     
     if (result.success) {
-      // Reload blocked users
-      get().loadBlockedUsers(userId);
+      // Remove from blocked users list
+      set(state => ({
+        blockedUsers: state.blockedUsers.filter(blocked => blocked.userId !== blockedUserId)
+      }));
     }
     
     return result;
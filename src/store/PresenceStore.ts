@@ -3,11 +3,14 @@
  * 
  * Single source of truth for presence data across the entire app.
  * Ensures we only subscribe once per user, no matter how many components need the data.
+ * Blocked users' presence is never loaded, and the Realtime Database rules
+ * keep users who blocked the current user from being loaded either.
  */
 
 import { PresenceService, UserPresence } from '@/services/firebase';
 import type { Unsubscribe } from 'firebase/database';
 import { create } from 'zustand';
+import { useContactStore } from './ContactStore';
 
 interface PresenceState {
   // Map of userId -> presence data
@@ -71,6 +74,11 @@ export const usePresenceStore = create<PresenceState>((set, get) => ({
       return;
     }
     
+    // Blocked users don't get to show up as online
+    if (useContactStore.getState().isBlocked(userId)) {
+      return;
+    }
+    
     // Subscribe to this user's presence
     const unsubscribe = PresenceService.subscribeToPresence(
       userId,
@@ -84,8 +92,10 @@ export const usePresenceStore = create<PresenceState>((set, get) => ({
             // User offline or no data
             newMap.set(userId, {
               isOnline: false,
-              lastSeen: Date.now(),
+              lastSeen: null,
               userName: 'User',
+              state: 'offline',
+              customStatus: null,
             });
           }
           
@@ -97,6 +107,7 @@ export const usePresenceStore = create<PresenceState>((set, get) => ({
         });
       },
       (error) => {
+        // Also denied when the user blocked the current user (see database.rules.json)
         console.error(`Error subscribing to presence for ${userId}:`, error);
       }
     );